@@ -0,0 +1,277 @@
+import React from 'react';
+import type { AnalysisResult, SymptomAnalysis, Urgency } from '../services/ai';
+import type { CalorieResult, EnergyFormula, GoalTarget, WeightGoal } from '../services/calories';
+import type { GrowthAssessment, GrowthIndicator, GrowthStatus } from '../services/growth';
+import type { HistoryFeature } from '../services/history';
+import type { ScanRecord } from '../services/vault';
+import { parsePrescription } from '../services/prescription';
+import { normalizeMedication } from '../services/drugs';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { severityLabels } from './InteractionTable';
+import { PrescriptionHeader, PrescriptionTable } from './PrescriptionTable';
+import { DrugMatchTable } from './DrugMatches';
+
+export const urgencyLabels: Record<Urgency, MessageKey> = {
+    'self-care': 'urgency.self-care',
+    'see-doctor': 'urgency.see-doctor',
+    'urgent': 'urgency.urgent',
+};
+
+export const SymptomAnalysisView = ({ analysis }: { analysis: SymptomAnalysis }) => {
+    const { t } = useTranslation();
+    return (
+        <>
+            <span className={`urgency-badge urgency-${analysis.urgency}`}>{t(urgencyLabels[analysis.urgency])}</span>
+            <MarkdownRenderer text={analysis.summary} />
+            <h4 className="analysis-heading">{t('assistant.interactions')}</h4>
+            {analysis.potentialInteractions.length > 0 ? (
+                <ul className="interaction-list">
+                    {analysis.potentialInteractions.map((interaction, i) => (
+                        <li key={i}>
+                            <span className={`severity-tag severity-${interaction.severity}`}>{t(severityLabels[interaction.severity])}</span>
+                            <strong>{interaction.medications.join(' + ')}</strong>
+                            <p>{interaction.description}</p>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p>{t('assistant.noInteractions')}</p>
+            )}
+            {analysis.concerns.length > 0 && (
+                <>
+                    <h4 className="analysis-heading">{t('assistant.concerns')}</h4>
+                    <ul className="analysis-list">
+                        {analysis.concerns.map((concern, i) => <li key={i}>{concern}</li>)}
+                    </ul>
+                </>
+            )}
+            <h4 className="analysis-heading">{t('assistant.suggestions')}</h4>
+            <ul className="analysis-list">
+                {analysis.wellnessSuggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+            </ul>
+        </>
+    );
+};
+
+export const formulaLabels: Record<EnergyFormula, MessageKey> = {
+    mifflin: 'calculator.formula.mifflin',
+    harris: 'calculator.formula.harris',
+    katch: 'calculator.formula.katch',
+    child: 'calculator.formula.child',
+};
+
+export const goalLabels: Record<WeightGoal, MessageKey> = {
+    'lose-fast': 'calculator.goal.lose-fast',
+    'lose': 'calculator.goal.lose',
+    'maintain': 'calculator.goal.maintain',
+    'gain': 'calculator.goal.gain',
+    'gain-fast': 'calculator.goal.gain-fast',
+};
+
+interface CalorieResultViewProps {
+    result: CalorieResult;
+    /** Offers each goal's row as the food diary target. */
+    onSelectTarget?: (target: GoalTarget) => void;
+    /** The goal currently set as the diary target, if it came from this result. */
+    selectedGoal?: WeightGoal;
+}
+
+export const CalorieResultView = ({ result, onSelectTarget, selectedGoal }: CalorieResultViewProps) => {
+    const { t } = useTranslation();
+    const child = result.formula === 'child';
+    return (
+        <>
+            <dl className="calorie-figures">
+                <div>
+                    <dt>{t('calculator.bmr')}</dt>
+                    <dd>{t('calculator.kcalPerDay', { value: result.bmr })}</dd>
+                </div>
+                <div>
+                    <dt>{t('calculator.tdee')}</dt>
+                    <dd>{t('calculator.kcalPerDay', { value: result.tdee })}</dd>
+                </div>
+            </dl>
+            <p className="interaction-note">
+                {child ? t('calculator.childFormulaUsed') : t('calculator.formulaUsed', { formula: t(formulaLabels[result.formula]) })}
+            </p>
+            <table className="interaction-table">
+                <thead>
+                    <tr>
+                        <th>{t('calculator.column.goal')}</th>
+                        <th>{t('calculator.column.calories')}</th>
+                        <th>{t('calculator.column.protein')}</th>
+                        <th>{t('calculator.column.carbs')}</th>
+                        <th>{t('calculator.column.fat')}</th>
+                        {onSelectTarget && <th />}
+                    </tr>
+                </thead>
+                <tbody>
+                    {result.targets.map(target => (
+                        <tr key={target.goal} className={target.goal === 'maintain' ? 'calorie-maintain' : ''}>
+                            <td>{t(child ? 'calculator.goal.growth' : goalLabels[target.goal])}</td>
+                            <td>{target.calories}{target.atMinimum && '*'}</td>
+                            <td>{t('calculator.grams', { value: target.proteinG })}</td>
+                            <td>{t('calculator.grams', { value: target.carbsG })}</td>
+                            <td>{t('calculator.grams', { value: target.fatG })}</td>
+                            {onSelectTarget && (
+                                <td>
+                                    {selectedGoal === target.goal ? (
+                                        <span className="calorie-target-set">{t('calculator.targetSet')}</span>
+                                    ) : (
+                                        <button type="button" className="btn btn-outline calorie-target-btn" onClick={() => onSelectTarget(target)}>{t('calculator.useAsTarget')}</button>
+                                    )}
+                                </td>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {result.targets.some(target => target.atMinimum) && <p className="interaction-note">* {t('calculator.minimumNote')}</p>}
+            <p className="interaction-note">{t(child ? 'calculator.childMacroNote' : 'calculator.macroNote')}</p>
+            {result.commentary && (
+                <>
+                    <h4 className="analysis-heading">{t('calculator.commentaryTitle')}</h4>
+                    <MarkdownRenderer text={result.commentary} />
+                </>
+            )}
+        </>
+    );
+};
+
+export const growthIndicatorLabels: Record<GrowthIndicator, MessageKey> = {
+    'weight-for-age': 'growth.indicator.weight',
+    'height-for-age': 'growth.indicator.height',
+    'bmi-for-age': 'growth.indicator.bmi',
+};
+
+export const growthUnits: Record<GrowthIndicator, string> = {
+    'weight-for-age': 'kg',
+    'height-for-age': 'cm',
+    'bmi-for-age': 'kg/m²',
+};
+
+const growthStatusLabels: Record<GrowthStatus, MessageKey> = {
+    'normal': 'growth.status.normal',
+    'severely-underweight': 'growth.status.severelyUnderweight',
+    'underweight': 'growth.status.underweight',
+    'above-range': 'growth.status.aboveRange',
+    'severely-stunted': 'growth.status.severelyStunted',
+    'stunted': 'growth.status.stunted',
+    'very-tall': 'growth.status.veryTall',
+    'severely-wasted': 'growth.status.severelyWasted',
+    'wasted': 'growth.status.wasted',
+    'overweight-risk': 'growth.status.overweightRisk',
+    'severe-thinness': 'growth.status.severeThinness',
+    'thinness': 'growth.status.thinness',
+    'overweight': 'growth.status.overweight',
+    'obese': 'growth.status.obese',
+};
+
+// Shown with the interaction severity tags: within range, worth watching, or worth a doctor's visit.
+const growthStatusSeverity: Record<GrowthStatus, 'minor' | 'moderate' | 'major'> = {
+    'normal': 'minor',
+    'above-range': 'moderate',
+    'very-tall': 'moderate',
+    'overweight-risk': 'moderate',
+    'overweight': 'moderate',
+    'underweight': 'major',
+    'stunted': 'major',
+    'wasted': 'major',
+    'thinness': 'major',
+    'obese': 'major',
+    'severely-underweight': 'major',
+    'severely-stunted': 'major',
+    'severely-wasted': 'major',
+    'severe-thinness': 'major',
+};
+
+const formatPercentile = (percentile: number) => (percentile < 0.1 ? '<0.1' : percentile > 99.9 ? '>99.9' : percentile.toString());
+
+export const GrowthAssessmentView = ({ assessment }: { assessment: GrowthAssessment }) => {
+    const { t } = useTranslation();
+    const years = Math.floor(assessment.ageMonths / 12);
+    const months = Math.floor(assessment.ageMonths % 12);
+    return (
+        <>
+            <p>{years > 0 ? t('growth.ageYears', { years, months }) : t('growth.ageMonths', { months })}</p>
+            <table className="interaction-table">
+                <thead>
+                    <tr>
+                        <th>{t('growth.column.indicator')}</th>
+                        <th>{t('growth.column.value')}</th>
+                        <th>{t('growth.column.zScore')}</th>
+                        <th>{t('growth.column.percentile')}</th>
+                        <th>{t('growth.column.status')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {assessment.findings.map(finding => (
+                        <tr key={finding.indicator}>
+                            <td>{t(growthIndicatorLabels[finding.indicator])}</td>
+                            <td>{finding.value} {growthUnits[finding.indicator]}</td>
+                            <td>{finding.zScore > 0 ? `+${finding.zScore}` : finding.zScore}</td>
+                            <td>{formatPercentile(finding.percentile)}</td>
+                            <td>
+                                <span className={`severity-tag severity-${growthStatusSeverity[finding.status]}`}>{t(growthStatusLabels[finding.status])}</span>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {assessment.outOfRange.includes('weight-for-age') && <p className="interaction-note">{t('growth.noWeightForAge')}</p>}
+            <p className="interaction-note">{t('growth.reference')}</p>
+        </>
+    );
+};
+
+/** A saved result from any page, as it was shown there (without page-only extras such as the 3D view). */
+export const AnalysisView = ({ feature, result }: { feature: HistoryFeature; result: unknown }) => {
+    const { t } = useTranslation();
+    switch (feature) {
+        case 'assistant':
+            return <SymptomAnalysisView analysis={result as SymptomAnalysis} />;
+        case 'scanner': {
+            const scan = result as Omit<ScanRecord, 'id' | 'createdAt'>;
+            return (
+                <>
+                    {!scan.confirmedAt && <p className="interaction-note">{t('scanner.review.unconfirmed')}</p>}
+                    <h4>{t('scanner.extractedText')}</h4>
+                    <p className="extracted-text">{scan.extractedText || t('scanner.noText')}</p>
+                    <PrescriptionHeader scan={scan} />
+                    {scan.lines?.length > 0 ? (
+                        <>
+                            <h4 className="analysis-heading">{t('scanner.schedule')}</h4>
+                            <PrescriptionTable medicines={parsePrescription(scan.lines)} />
+                        </>
+                    ) : scan.medications.length > 0 && (
+                        <>
+                            <h4 className="analysis-heading">{t('scanner.medications')}</h4>
+                            <DrugMatchTable medications={scan.medications.map(normalizeMedication)} />
+                        </>
+                    )}
+                </>
+            );
+        }
+        case 'imaging': {
+            const report = result as AnalysisResult;
+            return (
+                <>
+                    <h4>{t('imaging.diagnosis')}</h4>
+                    <MarkdownRenderer text={report.diagnosis} />
+                    <h4>{t('imaging.recovery')}</h4>
+                    <MarkdownRenderer text={report.recovery_timeline} />
+                </>
+            );
+        }
+        case 'calculator':
+            // Older entries hold the markdown the model used to write.
+            return typeof result === 'string'
+                ? <MarkdownRenderer text={result} />
+                : <CalorieResultView result={result as CalorieResult} />;
+        case 'biometric':
+            return <MarkdownRenderer text={result as string} />;
+        case 'growth':
+            return <GrowthAssessmentView assessment={result as GrowthAssessment} />;
+    }
+};
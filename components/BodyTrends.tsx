@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import {
+    AVERAGE_WINDOW_DAYS,
+    BODY_MEASURES,
+    BodyMeasure,
+    compareMeasurements,
+    deleteMeasurement,
+    isLossTooFast,
+    loadMeasurements,
+    projectGoal,
+    safeWeeklyLoss,
+    saveMeasurement,
+    trend,
+    weeklyRate,
+} from '../services/bodyTrends';
+import { loadCalorieTarget, toDateKey } from '../services/nutrition';
+import type { BodyMeasurement, CalorieTarget } from '../services/vault';
+import { getLanguageInfo, MessageKey, useTranslation } from '../services/i18n';
+import { ErrorMessage } from './common';
+import { TrendChart } from './TrendChart';
+import { Link } from './router';
+
+const measureLabels: Record<BodyMeasure, MessageKey> = {
+    weightKg: 'body.measure.weight',
+    waistCm: 'body.measure.waist',
+    bodyFatPercent: 'body.measure.bodyFat',
+};
+
+const measureUnits: Record<BodyMeasure, string> = {
+    weightKg: 'kg',
+    waistCm: 'cm',
+    bodyFatPercent: '%',
+};
+
+// The list under the chart; older readings stay in the chart.
+const RECENT_READINGS = 10;
+
+const parseOptional = (value: string) => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : undefined;
+};
+
+const formatDate = (dateKey: string) =>
+    new Date(`${dateKey}T00:00`).toLocaleDateString(getLanguageInfo().speechLang, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const describeReading = (measurement: BodyMeasurement) =>
+    BODY_MEASURES.filter(measure => measurement[measure] !== undefined).map(measure => `${measurement[measure]} ${measureUnits[measure]}`).join(' · ');
+
+/** Body measurements over time, on the profile page. */
+export const BodyTrends = ({ goalWeightKg }: { goalWeightKg?: number }) => {
+    const { t } = useTranslation();
+    const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+    const [target, setTarget] = useState<CalorieTarget | undefined>();
+    const [formData, setFormData] = useState({ date: toDateKey(), weightKg: '', waistCm: '', bodyFatPercent: '' });
+    const [measure, setMeasure] = useState<BodyMeasure>('weightKg');
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([loadMeasurements(), loadCalorieTarget()])
+            .then(([loaded, loadedTarget]) => {
+                if (cancelled) return;
+                setMeasurements(loaded);
+                setTarget(loadedTarget);
+            })
+            .catch(e => {
+                console.error("Failed to load body measurements", e);
+                if (!cancelled) setError(t('body.loadError'));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        const values = {
+            weightKg: parseOptional(formData.weightKg),
+            waistCm: parseOptional(formData.waistCm),
+            bodyFatPercent: parseOptional(formData.bodyFatPercent),
+        };
+        if (BODY_MEASURES.every(key => values[key] === undefined)) {
+            setError(t('body.valueRequired'));
+            return;
+        }
+        try {
+            const saved = await saveMeasurement({ date: formData.date, ...values });
+            setMeasurements(current => [...current, saved].sort(compareMeasurements));
+            setFormData({ ...formData, weightKg: '', waistCm: '', bodyFatPercent: '' });
+        } catch (e) {
+            console.error("Failed to save body measurement", e);
+            setError(t('body.saveError'));
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setError('');
+        try {
+            await deleteMeasurement(id);
+            setMeasurements(current => current.filter(m => m.id !== id));
+        } catch (e) {
+            console.error("Failed to delete body measurement", e);
+            setError(t('body.deleteError'));
+        }
+    };
+
+    const points = trend(measurements, measure);
+    const unit = measureUnits[measure];
+
+    const renderWeightSummary = () => {
+        const current = points[points.length - 1].average;
+        const rate = weeklyRate(points);
+        const projection = goalWeightKg !== undefined ? projectGoal(current, goalWeightKg, target) : undefined;
+        return (
+            <>
+                <p>
+                    {t('body.current', { value: current })}
+                    {rate !== undefined && <> · {t('body.rate', { rate: `${rate > 0 ? '+' : rate < 0 ? '−' : '±'}${Math.abs(rate)}` })}</>}
+                </p>
+                {rate !== undefined && isLossTooFast(rate, current) && (
+                    <p className="interaction-warning" role="alert">{t('body.tooFast', { rate: Math.abs(rate), limit: safeWeeklyLoss(current) })}</p>
+                )}
+                {!projection && <p className="interaction-note">{t('body.noGoal')}</p>}
+                {projection?.status === 'on-track' && (
+                    <p>
+                        {t('body.projection', {
+                            goal: goalWeightKg,
+                            date: formatDate(projection.date),
+                            weeks: Math.ceil(projection.days / 7),
+                            rate: Math.abs(projection.kgPerWeek),
+                        })}
+                    </p>
+                )}
+                {projection?.status === 'reached' && <p>{t('body.goalReached', { goal: goalWeightKg })}</p>}
+                {(projection?.status === 'no-target' || projection?.status === 'wrong-direction') && (
+                    <p className="interaction-note">
+                        {t(projection.status === 'no-target' ? 'body.noTarget' : 'body.wrongDirection')} <Link to="/calculator">{t('diary.setTarget')}</Link>
+                    </p>
+                )}
+            </>
+        );
+    };
+
+    return (
+        <div className="card" style={{ marginTop: '2rem' }}>
+            <h3>{t('body.title')}</h3>
+            <form onSubmit={handleSubmit}>
+                <div className="form-grid">
+                    <div className="form-group">
+                        <label htmlFor="measuredOn">{t('body.date')}</label>
+                        <input type="date" id="measuredOn" name="date" max={toDateKey()} value={formData.date} onChange={handleChange} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="measuredWeight">{t('body.weight')}</label>
+                        <input type="number" id="measuredWeight" name="weightKg" min="1" step="0.1" value={formData.weightKg} onChange={handleChange} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="measuredWaist">{t('body.waist')}</label>
+                        <input type="number" id="measuredWaist" name="waistCm" min="1" step="0.1" value={formData.waistCm} onChange={handleChange} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="measuredBodyFat">{t('body.bodyFat')}</label>
+                        <input type="number" id="measuredBodyFat" name="bodyFatPercent" min="1" max="75" step="0.1" value={formData.bodyFatPercent} onChange={handleChange} />
+                    </div>
+                </div>
+                <div className="form-actions">
+                    <button type="submit" className="btn btn-primary">{t('body.add')}</button>
+                </div>
+            </form>
+            {error && <ErrorMessage message={error} />}
+            <div className="body-trends-header">
+                <label htmlFor="bodyMeasure">{t('body.show')}</label>
+                <select id="bodyMeasure" value={measure} onChange={e => setMeasure(e.target.value as BodyMeasure)}>
+                    {BODY_MEASURES.map(key => <option key={key} value={key}>{t(measureLabels[key])}</option>)}
+                </select>
+            </div>
+            {points.length === 0 ? (
+                <p>{t('body.empty')}</p>
+            ) : (
+                <>
+                    <TrendChart
+                        points={points}
+                        unit={unit}
+                        goal={measure === 'weightKg' ? goalWeightKg : undefined}
+                        label={t('body.chartLabel', { measure: t(measureLabels[measure]) })}
+                    />
+                    <p className="interaction-note">{t('body.legend', { days: AVERAGE_WINDOW_DAYS })}</p>
+                    {measure === 'weightKg' && renderWeightSummary()}
+                </>
+            )}
+            {measurements.length > 0 && (
+                <ul className="reminders-list">
+                    {measurements.slice(-RECENT_READINGS).reverse().map(m => (
+                        <li key={m.id} className="reminder-item">
+                            <div>
+                                <strong>{formatDate(m.date)}</strong>
+                                <p>{describeReading(m)}</p>
+                            </div>
+                            <button className="btn btn-outline" onClick={() => handleDelete(m.id)}>{t('profile.remove')}</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage } from './common';
+
+// The guide frame's margin inside the video, as a fraction of each side. Captures are cropped to
+// the frame, so the page fills the image and the table around it is left out.
+const GUIDE_INSET = 0.06;
+
+interface CameraCaptureProps {
+    /** Called with a JPEG data URL for each page captured. */
+    onCapture: (dataUrl: string) => void;
+    onClose: () => void;
+    /** Number the next capture will have among the document's pages. */
+    nextPage: number;
+}
+
+/** A live view of the back camera with a frame to line a document up in; each capture is one page. */
+export const CameraCapture = ({ onCapture, onClose, nextPage }: CameraCaptureProps) => {
+    const { t } = useTranslation();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [ready, setReady] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } } })
+            .then(async started => {
+                stream = started;
+                if (cancelled) {
+                    started.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                videoRef.current.srcObject = started;
+                await videoRef.current.play();
+                setReady(true);
+            })
+            .catch(e => {
+                console.error("Camera access denied:", e);
+                if (!cancelled) setError(t('scanner.cameraError'));
+            });
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const capture = () => {
+        const video = videoRef.current;
+        const x = Math.round(video.videoWidth * GUIDE_INSET);
+        const y = Math.round(video.videoHeight * GUIDE_INSET);
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth - 2 * x;
+        canvas.height = video.videoHeight - 2 * y;
+        canvas.getContext('2d').drawImage(video, x, y, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+        onCapture(canvas.toDataURL('image/jpeg', 0.92));
+    };
+
+    return (
+        <div className="camera-capture">
+            {error ? (
+                <ErrorMessage message={error} />
+            ) : (
+                <>
+                    <div className="camera-view">
+                        <video ref={videoRef} playsInline muted aria-label={t('scanner.cameraView')} />
+                        {ready && <div className="camera-guide" style={{ inset: `${GUIDE_INSET * 100}%` }} />}
+                    </div>
+                    <p className="interaction-note">{t('scanner.cameraHint')}</p>
+                </>
+            )}
+            <div className="ocr-actions">
+                {!error && (
+                    <button type="button" className="btn btn-primary" onClick={capture} disabled={!ready}>
+                        {t('scanner.capture', { number: nextPage })}
+                    </button>
+                )}
+                <button type="button" className="btn btn-outline" onClick={onClose}>{t('scanner.cameraDone')}</button>
+            </div>
+        </div>
+    );
+};
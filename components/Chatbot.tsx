@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createChat, AIChatSession } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { RedactedEntity, redactText, rehydrate, useKnownNames } from '../services/redaction';
+import { evaluateRedFlags, recordRedFlags, RedFlagRule } from '../services/triage';
+import { ChatIcon, SendIcon } from './common';
+import { EmergencyBanner } from './EmergencyBanner';
+import { OutboundPreview } from './OutboundPreview';
+
+interface Message {
+    role: 'user' | 'model';
+    /** What the user sees, with personal details in place. */
+    text: string;
+    /** The same message as the model sees it, with personal details as placeholders. */
+    outbound?: string;
+    /** Set on the emergency banner shown in place of a reply; never sent to the model. */
+    triage?: {
+        rules: RedFlagRule[];
+        /** The held-back (redacted) user message, until the user chooses to send it anyway. */
+        pendingText?: string;
+    };
+}
+
+const Chatbot = () => {
+    const { language, t } = useTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    // The greeting is rendered separately so it follows the current language.
+    const [messages, setMessages] = useState<Message[]>([]);
+    const [inputValue, setInputValue] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const chatRef = useRef<AIChatSession | null>(null);
+    // Kept for the whole conversation so a detail keeps its placeholder from turn to turn.
+    const entitiesRef = useRef<RedactedEntity[]>([]);
+    const names = useKnownNames();
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        // The answer language is fixed per session, so start a new one on every language
+        // change and carry the conversation so far over to it.
+        chatRef.current = createChat(messages.filter(m => m.text).map(m => ({ role: m.role, text: m.outbound ?? m.text })));
+    }, [language]);
+
+    useEffect(() => {
+        // Auto-scroll to the latest message
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages, isLoading]);
+
+    const sendToModel = async (text: string) => {
+        if (!chatRef.current) return;
+        setIsLoading(true);
+
+        try {
+            const stream = chatRef.current.sendMessageStream(text);
+            let newAiMessage: Message = { role: 'model', text: '', outbound: '' };
+            setMessages(prev => [...prev, newAiMessage]);
+
+            for await (const chunk of stream) {
+                newAiMessage.outbound += chunk;
+                // Re-hydrated as a whole so a placeholder split across chunks is still restored.
+                newAiMessage.text = rehydrate(newAiMessage.outbound, entitiesRef.current);
+                // Update the last message in the array with the new text
+                setMessages(prev => [...prev.slice(0, -1), { ...newAiMessage }]);
+            }
+        } catch (err) {
+            console.error("Chatbot error:", err);
+            const errorMessage: Message = { role: 'model', text: t('chat.error') };
+            setMessages(prev => [...prev, errorMessage]);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSendMessage = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!inputValue.trim() || isLoading || !chatRef.current) return;
+
+        const currentInput = inputValue;
+        const redaction = redactText(currentInput, { names, entities: entitiesRef.current });
+        entitiesRef.current = redaction.entities;
+        const userMessage: Message = { role: 'user', text: currentInput, outbound: redaction.text };
+        setInputValue('');
+
+        // Red flags are checked before anything reaches the model.
+        const flags = evaluateRedFlags({ text: currentInput });
+        if (flags.length > 0) {
+            recordRedFlags('chat', flags);
+            setMessages(prev => [...prev, userMessage, { role: 'model', text: '', triage: { rules: flags, pendingText: redaction.text } }]);
+            return;
+        }
+        setMessages(prev => [...prev, userMessage]);
+        sendToModel(redaction.text);
+    };
+
+    // Previewed without committing, so placeholders are only handed out for sent messages.
+    const outboundInput = redactText(inputValue, { names, entities: entitiesRef.current });
+
+    const handleSendAnyway = (index: number, text: string) => {
+        setMessages(prev => prev.map((m, i) => (i === index ? { ...m, triage: { rules: m.triage.rules } } : m)));
+        sendToModel(text);
+    };
+
+    return (
+        <>
+            <div className={`chat-window ${!isOpen ? 'closed' : ''}`}>
+                <div className='chat-header'>
+                    <h4>{t('chat.title')}</h4>
+                    <button onClick={() => setIsOpen(false)} aria-label={t('chat.close')}>×</button>
+                </div>
+                <div className='chat-messages'>
+                    <div className='chat-message model'>{t('chat.greeting')}</div>
+                    {messages.map((msg, index) => msg.triage ? (
+                        <React.Fragment key={index}>
+                            <EmergencyBanner
+                                rules={msg.triage.rules}
+                                onContinue={msg.triage.pendingText && !isLoading ? () => handleSendAnyway(index, msg.triage.pendingText) : undefined}
+                            />
+                        </React.Fragment>
+                    ) : (
+                        <div key={index} className={`chat-message ${msg.role}`}>{msg.text}</div>
+                    ))}
+                    {isLoading && (
+                        <div className='typing-indicator'>
+                            <span></span><span></span><span></span>
+                        </div>
+                    )}
+                    <div ref={messagesEndRef} />
+                </div>
+                {outboundInput.text !== inputValue && (
+                    <OutboundPreview text={outboundInput.text} entities={outboundInput.entities} />
+                )}
+                <form className='chat-input-form' onSubmit={handleSendMessage}>
+                    <input
+                        type='text'
+                        value={inputValue}
+                        onChange={(e) => setInputValue(e.target.value)}
+                        placeholder={t('chat.placeholder')}
+                        aria-label={t('chat.inputLabel')}
+                    />
+                    <button type='submit' aria-label={t('chat.send')} disabled={isLoading}><SendIcon /></button>
+                </form>
+            </div>
+            <button className='chatbot-toggle-btn' onClick={() => setIsOpen(!isOpen)} aria-label={t('chat.toggle')}><ChatIcon /></button>
+        </>
+    );
+};
+
+export default Chatbot;
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from '../services/i18n';
+import { FULL_FRAME, Point, Quad } from '../services/documentImage';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+interface CropEditorProps {
+    /** The photo as taken. */
+    src: string;
+    corners: Quad;
+    /** Called when a corner is dropped; undefined asks for the page to be detected again. */
+    onChange: (corners?: Quad) => void;
+    disabled?: boolean;
+}
+
+/** The page's outline on the original photo, with a handle on each corner to drag onto the paper's edges. */
+export const CropEditor = ({ src, corners, onChange, disabled }: CropEditorProps) => {
+    const { t } = useTranslation();
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    const [dragging, setDragging] = useState<number | null>(null);
+    const [draft, setDraft] = useState<Quad | null>(null);
+    const shown = draft ?? corners;
+
+    const pointAt = (e: React.PointerEvent): Point => {
+        const rect = surfaceRef.current.getBoundingClientRect();
+        return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    };
+
+    const handlePointerDown = (index: number) => (e: React.PointerEvent<HTMLButtonElement>) => {
+        if (disabled) return;
+        surfaceRef.current.setPointerCapture(e.pointerId);
+        setDragging(index);
+        setDraft(corners);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (dragging === null) return;
+        const point = pointAt(e);
+        setDraft(current => current.map((corner, i) => (i === dragging ? point : corner)) as Quad);
+    };
+
+    const handlePointerUp = () => {
+        if (dragging === null) return;
+        if (draft.some((corner, i) => corner.x !== corners[i].x || corner.y !== corners[i].y)) onChange(draft);
+        setDragging(null);
+        setDraft(null);
+    };
+
+    const cornerLabels = [t('scanner.cornerTopLeft'), t('scanner.cornerTopRight'), t('scanner.cornerBottomRight'), t('scanner.cornerBottomLeft')];
+
+    return (
+        <div className="crop-editor">
+            <div
+                ref={surfaceRef}
+                className="crop-editor-surface"
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <img src={src} alt={t('scanner.original')} draggable={false} />
+                <svg viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+                    <polygon points={shown.map(({ x, y }) => `${x * 100},${y * 100}`).join(' ')} vectorEffect="non-scaling-stroke" />
+                </svg>
+                {shown.map(({ x, y }, i) => (
+                    <button
+                        key={i}
+                        type="button"
+                        className={`crop-handle${dragging === i ? ' dragging' : ''}`}
+                        style={{ left: `${x * 100}%`, top: `${y * 100}%` }}
+                        onPointerDown={handlePointerDown(i)}
+                        aria-label={cornerLabels[i]}
+                        disabled={disabled}
+                    />
+                ))}
+            </div>
+            <p className="interaction-note">{t('scanner.cropHint')}</p>
+            <div className="ocr-actions">
+                <button type="button" className="btn btn-outline" onClick={() => onChange()} disabled={disabled}>{t('scanner.detectPage')}</button>
+                <button type="button" className="btn btn-outline" onClick={() => onChange(FULL_FRAME)} disabled={disabled}>{t('scanner.wholePhoto')}</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { DosageForm, DrugMatch, genericLabel, isConfident, NormalizedMedication } from '../services/drugs';
+import { MessageKey, useTranslation } from '../services/i18n';
+
+export const formLabels: Record<DosageForm, MessageKey> = {
+    'tablet': 'drugs.form.tablet',
+    'capsule': 'drugs.form.capsule',
+    'syrup': 'drugs.form.syrup',
+    'suspension': 'drugs.form.suspension',
+    'drops': 'drugs.form.drops',
+    'eye-drops': 'drugs.form.eyeDrops',
+    'nasal-spray': 'drugs.form.nasalSpray',
+    'inhaler': 'drugs.form.inhaler',
+    'injection': 'drugs.form.injection',
+    'cream': 'drugs.form.cream',
+    'ointment': 'drugs.form.ointment',
+    'gel': 'drugs.form.gel',
+    'sachet': 'drugs.form.sachet',
+};
+
+const percent = (match: DrugMatch) => Math.round(match.confidence * 100);
+
+/** How a medicine was read from the dictionary: its ingredients, form and product, the confidence and any alternatives. */
+export const DrugReading = ({ drug }: { drug: NormalizedMedication }) => {
+    const { t } = useTranslation();
+    const { match, alternatives } = drug;
+    if (!match) return <span className="drug-reading">{t('drugs.unmatched')}</span>;
+    return (
+        <span className="drug-reading">
+            {[genericLabel(match), match.form && t(formLabels[match.form]), match.product].filter(Boolean).join(' · ')}
+            {' '}
+            <span className={`drug-confidence${isConfident(match) ? '' : ' low'}`}>
+                {t(isConfident(match) ? 'drugs.confidence' : 'drugs.lowConfidence', { percent: percent(match) })}
+            </span>
+            {alternatives.length > 0 && (
+                <span className="drug-alternatives">
+                    {t('drugs.alternatives', { names: alternatives.map(alt => `${alt.product ?? genericLabel(alt)} (${percent(alt)}%)`).join(', ') })}
+                </span>
+            )}
+        </span>
+    );
+};
+
+/** Each medicine as written beside what the dictionary resolved it to. */
+export const DrugMatchTable = ({ medications }: { medications: NormalizedMedication[] }) => {
+    const { t } = useTranslation();
+    return (
+        <>
+            <table className="interaction-table drug-match-table">
+                <thead>
+                    <tr>
+                        <th>{t('drugs.column.written')}</th>
+                        <th>{t('drugs.column.medicine')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {medications.map((drug, i) => (
+                        <tr key={i}>
+                            <td>{drug.input}</td>
+                            <td><DrugReading drug={drug} /></td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="interaction-note">{t('drugs.note')}</p>
+        </>
+    );
+};
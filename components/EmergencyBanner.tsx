@@ -0,0 +1,58 @@
+import React, { useEffect, useRef } from 'react';
+import { emergencyNumbersFor, RedFlagCategory, RedFlagRule } from '../services/triage';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { Link } from './router';
+
+const reasonLabels: Record<RedFlagCategory, MessageKey> = {
+    'cardiac': 'triage.reason.cardiac',
+    'breathing': 'triage.reason.breathing',
+    'stroke': 'triage.reason.stroke',
+    'self-harm': 'triage.reason.selfHarm',
+    'bleeding': 'triage.reason.bleeding',
+    'consciousness': 'triage.reason.consciousness',
+    'allergy': 'triage.reason.allergy',
+    'high-fever': 'triage.reason.highFever',
+    'infant-fever': 'triage.reason.infantFever',
+    'hypothermia': 'triage.reason.hypothermia',
+    'meningitis': 'triage.reason.meningitis',
+};
+
+export const EMERGENCY_HOSPITALS_PATH = '/hospitals?emergency=1';
+
+interface EmergencyBannerProps {
+    rules: RedFlagRule[];
+    /** Offered as "continue anyway"; omit once the user has continued. */
+    onContinue?: () => void;
+}
+
+export const EmergencyBanner = ({ rules, onContinue }: EmergencyBannerProps) => {
+    const { t } = useTranslation();
+    const bannerRef = useRef<HTMLDivElement>(null);
+    const categories = [...new Set(rules.map(r => r.category))];
+
+    useEffect(() => {
+        bannerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, []);
+
+    return (
+        <div className="emergency-banner" role="alert" ref={bannerRef}>
+            <h3>{t('triage.title')}</h3>
+            <p>{t('triage.message')}</p>
+            <ul>
+                {categories.map(category => <li key={category}>{t(reasonLabels[category])}</li>)}
+            </ul>
+            <div className="emergency-numbers">
+                {emergencyNumbersFor(rules).map(({ number, label }) => (
+                    <a key={number} href={`tel:${number}`} className="emergency-call">
+                        <strong>{t('triage.call', { number })}</strong>
+                        <span>{t(label)}</span>
+                    </a>
+                ))}
+            </div>
+            <div className="emergency-actions">
+                <Link to={EMERGENCY_HOSPITALS_PATH} className="btn btn-primary">{t('triage.findEmergency')}</Link>
+                {onContinue && <button type="button" className="btn btn-outline" onClick={onContinue}>{t('triage.continue')}</button>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { BiologicalSex } from '../services/calories';
+import { CURVE_PERCENTILES, growthCurve, GrowthIndicator } from '../services/growth';
+import { useTranslation } from '../services/i18n';
+
+const WIDTH = 600;
+const HEIGHT = 300;
+const PADDING = { top: 16, right: 40, bottom: 28, left: 48 };
+const GRID_LINES = 4;
+
+export interface GrowthReading {
+    ageMonths: number;
+    value: number;
+}
+
+interface GrowthChartProps {
+    indicator: GrowthIndicator;
+    sex: BiologicalSex;
+    /** Ages shown, in months. */
+    range: [number, number];
+    /** The child's measurements; ones outside `range` are left out. */
+    readings: GrowthReading[];
+    unit: string;
+    /** Accessible description of the chart. */
+    label: string;
+}
+
+/** The reference percentile curves with a child's measurements plotted on them. */
+export const GrowthChart = ({ indicator, sex, range, readings, unit, label }: GrowthChartProps) => {
+    const { t } = useTranslation();
+    const [from, to] = range;
+    const curves = CURVE_PERCENTILES.map(({ percentile, z }) => ({ percentile, points: growthCurve(indicator, sex, z, range) }));
+    const shown = readings.filter(reading => reading.ageMonths >= from && reading.ageMonths <= to);
+    const values = [...curves.flatMap(curve => curve.points.map(([, value]) => value)), ...shown.map(reading => reading.value)];
+    const min = Math.floor(Math.min(...values));
+    const max = Math.ceil(Math.max(...values));
+
+    const x = (ageMonths: number) => PADDING.left + ((ageMonths - from) / (to - from)) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (value: number) => PADDING.top + ((max - value) / (max - min)) * (HEIGHT - PADDING.top - PADDING.bottom);
+    const grid = Array.from({ length: GRID_LINES + 1 }, (_, i) => min + ((max - min) * i) / GRID_LINES);
+    // Every three months up to two years, then every year, then every two years past five.
+    const step = to - from <= 24 ? 3 : to - from <= 60 ? 12 : 24;
+    const ticks = Array.from({ length: Math.floor((to - from) / step) + 1 }, (_, i) => from + i * step);
+
+    return (
+        <svg className="trend-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={label}>
+            {grid.map(value => (
+                <g key={value}>
+                    <line className="trend-grid" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} />
+                    <text className="trend-axis" x={PADDING.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">
+                        {value.toFixed(1)}
+                    </text>
+                </g>
+            ))}
+            {ticks.map(age => (
+                <text key={age} className="trend-axis" x={x(age)} y={HEIGHT - 8} textAnchor="middle">
+                    {age < 24 ? t('growth.axisMonths', { months: age }) : t('growth.axisYears', { years: age / 12 })}
+                </text>
+            ))}
+            {curves.map(({ percentile, points }) => (
+                <g key={percentile}>
+                    <polyline
+                        className={percentile === 50 ? 'growth-curve growth-curve-median' : 'growth-curve'}
+                        points={points.map(([age, value]) => `${x(age)},${y(value)}`).join(' ')}
+                    />
+                    <text className="trend-axis" x={WIDTH - PADDING.right + 4} y={y(points[points.length - 1][1])} dominantBaseline="middle">
+                        {`P${percentile}`}
+                    </text>
+                </g>
+            ))}
+            {shown.length > 1 && (
+                <polyline className="trend-average" points={shown.map(reading => `${x(reading.ageMonths)},${y(reading.value)}`).join(' ')} />
+            )}
+            {shown.map((reading, i) => (
+                <circle key={i} className="growth-reading" cx={x(reading.ageMonths)} cy={y(reading.value)} r={5}>
+                    <title>{`${reading.value} ${unit}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from '../services/i18n';
+import { loadImage } from '../services/images';
+
+/** A rectangle to black out, in fractions of the image's width and height. */
+export interface MaskBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Burns the boxes into a copy of the image and returns it as a JPEG data URL. */
+export const applyMasks = async (src: string, boxes: MaskBox[]): Promise<string> => {
+    if (boxes.length === 0) return src;
+    const img = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(img, 0, 0);
+    ctx.fillStyle = '#000';
+    for (const box of boxes) {
+        ctx.fillRect(box.x * canvas.width, box.y * canvas.height, box.width * canvas.width, box.height * canvas.height);
+    }
+    return canvas.toDataURL('image/jpeg', 0.92);
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Boxes smaller than this (as a fraction of each side) are treated as stray clicks. */
+const MIN_BOX_SIZE = 0.01;
+
+interface ImageRedactorProps {
+    src: string;
+    alt: string;
+    boxes: MaskBox[];
+    onChange: (boxes: MaskBox[]) => void;
+}
+
+/** Lets the user drag boxes over parts of an image to cover them before it is uploaded. */
+export const ImageRedactor = ({ src, alt, boxes, onChange }: ImageRedactorProps) => {
+    const { t } = useTranslation();
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    const [start, setStart] = useState<{ x: number, y: number } | null>(null);
+    const [draft, setDraft] = useState<MaskBox | null>(null);
+
+    const pointAt = (e: React.PointerEvent) => {
+        const rect = surfaceRef.current.getBoundingClientRect();
+        return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStart(pointAt(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!start) return;
+        const point = pointAt(e);
+        setDraft({
+            x: Math.min(start.x, point.x),
+            y: Math.min(start.y, point.y),
+            width: Math.abs(point.x - start.x),
+            height: Math.abs(point.y - start.y),
+        });
+    };
+
+    const handlePointerUp = () => {
+        if (draft && draft.width > MIN_BOX_SIZE && draft.height > MIN_BOX_SIZE) {
+            onChange([...boxes, draft]);
+        }
+        setStart(null);
+        setDraft(null);
+    };
+
+    const boxStyle = (box: MaskBox) => ({
+        left: `${box.x * 100}%`,
+        top: `${box.y * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`,
+    });
+
+    return (
+        <div className="image-redactor">
+            <p className="outbound-note">{t('privacy.imageNote')}</p>
+            <div
+                ref={surfaceRef}
+                className="image-redactor-surface"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                <img src={src} alt={alt} draggable={false} />
+                {boxes.map((box, i) => <div key={i} className="mask-box" style={boxStyle(box)} />)}
+                {draft && <div className="mask-box draft" style={boxStyle(draft)} />}
+            </div>
+            {boxes.length > 0 && (
+                <div className="ocr-actions">
+                    <button type="button" className="btn btn-outline" onClick={() => onChange(boxes.slice(0, -1))}>{t('privacy.undoCover')}</button>
+                    <button type="button" className="btn btn-outline" onClick={() => onChange([])}>{t('privacy.clearCovers')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
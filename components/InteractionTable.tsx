@@ -0,0 +1,67 @@
+import React from 'react';
+import { InteractionEffect, InteractionFinding, InteractionLevel, RecognizedDrug } from '../services/interactions';
+import { MessageKey, useTranslation } from '../services/i18n';
+
+export const severityLabels: Record<InteractionLevel, MessageKey> = {
+    contraindicated: 'severity.contraindicated',
+    major: 'severity.major',
+    moderate: 'severity.moderate',
+    minor: 'severity.minor',
+};
+
+export const effectLabels: Record<InteractionEffect, MessageKey> = {
+    'bleeding': 'interactions.effect.bleeding',
+    'serotonin-syndrome': 'interactions.effect.serotoninSyndrome',
+    'respiratory-depression': 'interactions.effect.respiratoryDepression',
+    'myopathy': 'interactions.effect.myopathy',
+    'toxicity': 'interactions.effect.toxicity',
+    'hyperkalemia': 'interactions.effect.hyperkalemia',
+    'kidney-injury': 'interactions.effect.kidneyInjury',
+    'qt-prolongation': 'interactions.effect.qtProlongation',
+    'bradycardia': 'interactions.effect.bradycardia',
+    'hypotension': 'interactions.effect.hypotension',
+    'reduced-absorption': 'interactions.effect.reducedAbsorption',
+    'reduced-effect': 'interactions.effect.reducedEffect',
+    'hypoglycemia': 'interactions.effect.hypoglycemia',
+};
+
+/** "Brufen 400 (Ibuprofen)", or just the entry when it already is the generic name. */
+export const drugLabel = ({ drug, input }: RecognizedDrug) =>
+    input.toLowerCase().includes(drug.name.toLowerCase()) ? input : `${input} (${drug.name})`;
+
+/** Known interactions from the bundled reference, most severe first. */
+export const InteractionTable = ({ findings }: { findings: InteractionFinding[] }) => {
+    const { t } = useTranslation();
+    return (
+        <table className="interaction-table">
+            <thead>
+                <tr>
+                    <th>{t('interactions.column.medicines')}</th>
+                    <th>{t('interactions.column.severity')}</th>
+                    <th>{t('interactions.column.effect')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {findings.map((finding, i) => (
+                    <tr key={i}>
+                        <td>{finding.drugs.map(drugLabel).join(' + ')}</td>
+                        <td><span className={`severity-tag severity-${finding.severity}`}>{t(severityLabels[finding.severity])}</span></td>
+                        <td>{t(effectLabels[finding.effect])}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+/** Shown before a medicine that conflicts with the user's list is added or ordered. */
+export const InteractionWarning = ({ findings }: { findings: InteractionFinding[] }) => {
+    const { t } = useTranslation();
+    return (
+        <div className="interaction-warning" role="alert">
+            <strong>{t('interactions.warningTitle')}</strong>
+            <InteractionTable findings={findings} />
+            <p className="interaction-note">{t('interactions.reference')}</p>
+        </div>
+    );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import { LanguageCode, LANGUAGES, useTranslation } from '../services/i18n';
+
+export const LanguagePicker = () => {
+    const { language, setLanguage, t } = useTranslation();
+    return (
+        <select
+            className="language-picker"
+            value={language}
+            onChange={e => setLanguage(e.target.value as LanguageCode)}
+            aria-label={t('language.label')}
+        >
+            {LANGUAGES.map(({ code, nativeName }) => (
+                <option key={code} value={code}>{nativeName}</option>
+            ))}
+        </select>
+    );
+};
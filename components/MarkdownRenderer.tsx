@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../services/markdown';
+
+// Only these tags can ever be produced from model output. Everything is built as React
+// elements (no innerHTML), so text is escaped and unknown constructs render as text.
+const ALLOWED_TAGS = new Set([
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'strong', 'em', 'del', 'code', 'pre',
+    'a', 'blockquote', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'hr', 'br',
+]);
+
+const el = (tag: string, props: Record<string, unknown>, ...children: React.ReactNode[]) => {
+    if (!ALLOWED_TAGS.has(tag)) {
+        return <React.Fragment key={props.key as React.Key}>{children}</React.Fragment>;
+    }
+    return React.createElement(tag, props, ...children);
+};
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+    nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text': return node.value;
+            case 'break': return el('br', { key: i });
+            case 'code': return el('code', { key: i }, node.value);
+            case 'link':
+                return el('a', { key: i, href: node.href, target: '_blank', rel: 'noopener noreferrer nofollow' }, ...renderInline(node.children));
+            default: return el(node.type, { key: i }, ...renderInline(node.children));
+        }
+    });
+
+const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] =>
+    blocks.map((block, i) => {
+        switch (block.type) {
+            case 'heading': return el(`h${block.level}`, { key: i }, ...renderInline(block.children));
+            case 'paragraph': return el('p', { key: i }, ...renderInline(block.children));
+            case 'hr': return el('hr', { key: i });
+            case 'code': return el('pre', { key: i }, el('code', {}, block.value));
+            case 'blockquote': return el('blockquote', { key: i }, ...renderBlocks(block.children));
+            case 'list':
+                return el(block.ordered ? 'ol' : 'ul', { key: i, start: block.ordered && block.start !== 1 ? block.start : undefined },
+                    ...block.items.map((item, j) => el('li', { key: j }, ...renderListItem(item))));
+            case 'table':
+                return (
+                    <div className="markdown-table-wrapper" key={i}>
+                        {el('table', {},
+                            el('thead', {}, el('tr', {}, ...block.header.map((cell, c) => el('th', { key: c, style: { textAlign: block.align[c] ?? undefined } }, ...renderInline(cell))))),
+                            el('tbody', {}, ...block.rows.map((row, r) => el('tr', { key: r }, ...row.map((cell, c) => el('td', { key: c, style: { textAlign: block.align[c] ?? undefined } }, ...renderInline(cell)))))),
+                        )}
+                    </div>
+                );
+        }
+    });
+
+// A list item made of a single paragraph renders inline, like a "tight" markdown list.
+const renderListItem = (item: BlockNode[]): React.ReactNode[] => {
+    const [first, ...rest] = item;
+    if (first?.type === 'paragraph') {
+        return [
+            <React.Fragment key="text">{renderInline(first.children)}</React.Fragment>,
+            <React.Fragment key="blocks">{renderBlocks(rest)}</React.Fragment>,
+        ];
+    }
+    return renderBlocks(item);
+};
+
+export const MarkdownRenderer = ({ text }: { text: string }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text]);
+    return <div className="markdown-body">{renderBlocks(blocks)}</div>;
+};
@@ -0,0 +1,227 @@
+import React, { useState, useRef } from 'react';
+import { generateStructured, MealItemEstimate } from '../services/ai';
+import {
+    createEstimatedFoodEntry,
+    createFoodEntry,
+    deleteMealPhoto,
+    identifyFood,
+    Nutrients,
+    nutrientsFor,
+    saveMealPhoto,
+    scaleNutrients,
+    sumNutrients,
+} from '../services/nutrition';
+import { downscaleImage, toInlineData } from '../services/images';
+import { createId, FoodEntry, MealType } from '../services/vault';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader } from './common';
+
+// Large enough to tell foods apart, small enough to keep in the vault with every meal.
+const PHOTO_MAX_SIDE = 1024;
+
+/** A recognized item as the user is correcting it. */
+interface DraftItem {
+    key: string;
+    name: string;
+    /** What the item is looked up by; follows the name once the user edits it. */
+    lookupName: string;
+    grams: string;
+    estimate?: MealItemEstimate;
+}
+
+type ItemSource = 'database' | 'estimate';
+
+/** The item's nutrients: from the reference when it names a known food, else the model's estimate scaled to the portion. */
+const resolveItem = (item: DraftItem): { grams: number; nutrients: Nutrients; source: ItemSource } | undefined => {
+    const grams = parseFloat(item.grams);
+    if (!(grams > 0)) return undefined;
+    const food = identifyFood(item.lookupName) ?? identifyFood(item.name);
+    if (food) return { grams, nutrients: nutrientsFor(food, grams), source: 'database' };
+    if (item.estimate) return { grams, nutrients: scaleNutrients(item.estimate, grams / item.estimate.grams), source: 'estimate' };
+    return undefined;
+};
+
+interface MealPhotoLoggerProps {
+    meal: MealType;
+    date: string;
+    /** Saves the entries to the diary; resolves to whether it worked. */
+    onSave: (entries: FoodEntry[]) => Promise<boolean>;
+}
+
+/** Photograph a plate, correct what the model recognized, and log it with the photo. */
+export const MealPhotoLogger = ({ meal, date, onSave }: MealPhotoLoggerProps) => {
+    const { t } = useTranslation();
+    const [image, setImage] = useState<string | null>(null);
+    const [items, setItems] = useState<DraftItem[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const reset = () => {
+        setImage(null);
+        setItems(null);
+        setError('');
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            setItems(null);
+            setError('');
+            downscaleImage(reader.result as string, PHOTO_MAX_SIDE)
+                .then(setImage)
+                .catch(err => setError(err instanceof Error ? err.message : t('diary.photo.error')));
+        };
+        reader.readAsDataURL(file);
+    };
+
+    const recognize = async () => {
+        setLoading(true);
+        setError('');
+        try {
+            const { data } = await generateStructured('meal', { photo: toInlineData(image) });
+            setItems(data.items.map(estimate => ({
+                key: createId(),
+                name: estimate.name,
+                lookupName: estimate.lookupName,
+                grams: Math.round(estimate.grams).toString(),
+                estimate,
+            })));
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('diary.photo.error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const updateItem = (key: string, changes: Partial<DraftItem>) =>
+        setItems(items.map(item => (item.key === key ? { ...item, ...changes } : item)));
+
+    const resolved = (items ?? []).map(item => ({ item, resolution: resolveItem(item) }));
+    const loggable = resolved.filter(({ resolution }) => resolution);
+
+    const save = async () => {
+        setSaving(true);
+        setError('');
+        try {
+            const photo = await saveMealPhoto(image);
+            const entries = loggable.map(({ item, resolution }): FoodEntry => {
+                const food = identifyFood(item.lookupName) ?? identifyFood(item.name);
+                const entry = food
+                    ? createFoodEntry({ food, grams: resolution.grams }, meal, date, 'photo')
+                    : createEstimatedFoodEntry(item.name.trim(), resolution.grams, resolution.nutrients, meal, date, 'photo');
+                return { ...entry, photoId: photo.id };
+            });
+            if (await onSave(entries)) {
+                reset();
+            } else {
+                deleteMealPhoto(photo.id).catch(e => console.error("Failed to remove meal photo", e));
+            }
+        } catch (e) {
+            console.error("Failed to save meal photo", e);
+            setError(t('diary.photo.saveError'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="meal-photo">
+            <input type="file" accept="image/*" capture="environment" ref={fileInputRef} onChange={handleFileChange} style={{ display: 'none' }} />
+            {!image ? (
+                <button type="button" className="btn btn-outline" onClick={() => fileInputRef.current?.click()}>{t('diary.photo.take')}</button>
+            ) : (
+                <div className="meal-photo-body">
+                    <img src={image} alt={t('diary.photo.preview')} className="meal-photo-preview" />
+                    <div>
+                        {!items && (
+                            <div className="ocr-actions">
+                                <button type="button" className="btn btn-primary" onClick={recognize} disabled={loading}>
+                                    {loading && <Loader small />}
+                                    {t('diary.photo.recognize')}
+                                </button>
+                                <button type="button" className="btn btn-outline" onClick={reset}>{t('diary.photo.discard')}</button>
+                            </div>
+                        )}
+                        {items && (
+                            <>
+                                <p className="interaction-note">{t('diary.photo.reviewHint')}</p>
+                                <table className="interaction-table meal-photo-items">
+                                    <thead>
+                                        <tr>
+                                            <th>{t('diary.photo.food')}</th>
+                                            <th>{t('diary.photo.grams')}</th>
+                                            <th>{t('diary.calories')}</th>
+                                            <th />
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {resolved.map(({ item, resolution }) => (
+                                            <tr key={item.key}>
+                                                <td>
+                                                    <input
+                                                        type="text"
+                                                        aria-label={t('diary.photo.food')}
+                                                        value={item.name}
+                                                        onChange={e => updateItem(item.key, { name: e.target.value, lookupName: e.target.value })}
+                                                    />
+                                                    {item.estimate && <span className="diary-entry-detail">{item.estimate.portion}</span>}
+                                                </td>
+                                                <td>
+                                                    <input
+                                                        type="number"
+                                                        min="1"
+                                                        aria-label={t('diary.photo.grams')}
+                                                        value={item.grams}
+                                                        onChange={e => updateItem(item.key, { grams: e.target.value })}
+                                                    />
+                                                </td>
+                                                <td>
+                                                    {resolution ? (
+                                                        <>
+                                                            {resolution.nutrients.calories}
+                                                            <span className="diary-entry-detail">{t(resolution.source === 'database' ? 'diary.photo.fromDatabase' : 'diary.photo.estimated')}</span>
+                                                        </>
+                                                    ) : (
+                                                        <span className="diary-entry-detail">{t('diary.photo.unknown')}</span>
+                                                    )}
+                                                </td>
+                                                <td>
+                                                    <button
+                                                        type="button"
+                                                        className="btn btn-outline"
+                                                        aria-label={t('diary.deleteEntry', { name: item.name })}
+                                                        onClick={() => setItems(items.filter(other => other.key !== item.key))}
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p>
+                                    <strong>{t('diary.kcal', { value: sumNutrients(loggable.map(({ resolution }) => resolution.nutrients)).calories })}</strong>
+                                </p>
+                                <div className="ocr-actions">
+                                    <button type="button" className="btn btn-outline" onClick={() => setItems([...items, { key: createId(), name: '', lookupName: '', grams: '' }])}>
+                                        {t('diary.photo.addItem')}
+                                    </button>
+                                    <button type="button" className="btn btn-outline" onClick={reset}>{t('diary.photo.discard')}</button>
+                                    <button type="button" className="btn btn-primary" onClick={save} disabled={saving || loggable.length === 0}>
+                                        {t('diary.photo.save', { count: loggable.length })}
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+            {error && <ErrorMessage message={error} />}
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { PIIType, RedactedEntity } from '../services/redaction';
+import { MessageKey, useTranslation } from '../services/i18n';
+
+const typeLabels: Record<PIIType, MessageKey> = {
+    'name': 'privacy.type.name',
+    'phone': 'privacy.type.phone',
+    'email': 'privacy.type.email',
+    'address': 'privacy.type.address',
+    'id': 'privacy.type.id',
+    'dob': 'privacy.type.dob',
+};
+
+const PLACEHOLDER = /(\[[A-Z]+_\d+\])/;
+
+interface OutboundPreviewProps {
+    /** The text exactly as it will be sent. */
+    text: string;
+    entities: RedactedEntity[];
+    /** Opens the preview by default, e.g. when something was hidden. */
+    open?: boolean;
+}
+
+/** Shows what leaves the device, with each redacted detail and what replaced it. */
+export const OutboundPreview = ({ text, entities, open }: OutboundPreviewProps) => {
+    const { t } = useTranslation();
+    // Only list what this text actually hides, not every detail seen earlier in a conversation.
+    const hidden = entities.filter(e => !e.placeholder || text.includes(e.placeholder));
+
+    return (
+        <details className="outbound-preview" open={open}>
+            <summary>
+                {t('privacy.previewTitle')}
+                {hidden.length > 0 && <span className="outbound-count">{t('privacy.hiddenCount', { count: hidden.length })}</span>}
+            </summary>
+            <p className="outbound-note">{t('privacy.previewNote')}</p>
+            <pre className="outbound-text">
+                {text.split(PLACEHOLDER).map((part, i) => (i % 2 ? <mark key={i}>{part}</mark> : part))}
+            </pre>
+            {hidden.length > 0 && (
+                <ul className="outbound-entities">
+                    {hidden.map((e, i) => (
+                        <li key={i}>
+                            <span className="outbound-type">{t(typeLabels[e.type])}</span>
+                            <span className="outbound-value">{e.value}</span>
+                            <code>{e.placeholder || t('privacy.removed')}</code>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </details>
+    );
+};
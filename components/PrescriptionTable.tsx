@@ -0,0 +1,92 @@
+import React from 'react';
+import type { ScanResult } from '../services/ai';
+import { CourseLength, FoodTiming, Frequency, ParsedMedicine, Route } from '../services/prescription';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { DrugReading } from './DrugMatches';
+
+export const routeLabels: Record<Route, MessageKey> = {
+    oral: 'prescription.route.oral',
+    sublingual: 'prescription.route.sublingual',
+    topical: 'prescription.route.topical',
+    eye: 'prescription.route.eye',
+    ear: 'prescription.route.ear',
+    nasal: 'prescription.route.nasal',
+    inhaled: 'prescription.route.inhaled',
+    injection: 'prescription.route.injection',
+    rectal: 'prescription.route.rectal',
+    vaginal: 'prescription.route.vaginal',
+};
+
+export const foodTimingLabels: Record<FoodTiming, MessageKey> = {
+    'before-food': 'prescription.food.beforeFood',
+    'after-food': 'prescription.food.afterFood',
+    'with-food': 'prescription.food.withFood',
+};
+
+/** What was written, with how it was read underneath. */
+const Reading = ({ written, reading }: { written?: string; reading: string }) => (
+    <>
+        {written}
+        <span className="prescription-reading">{reading}</span>
+    </>
+);
+
+/** Each medicine's schedule as written and as read, for checking before reminders are made from it. */
+export const PrescriptionTable = ({ medicines }: { medicines: ParsedMedicine[] }) => {
+    const { t } = useTranslation();
+
+    const describeFrequency = (frequency?: Frequency) => {
+        if (!frequency) return t('prescription.unread');
+        if (frequency.asNeeded) return t('prescription.asNeeded');
+        if (frequency.once) return t('prescription.once');
+        const times = frequency.doses.map(({ time, amount }) => (amount && amount !== '1' ? `${time} (${amount})` : time)).join(', ');
+        return frequency.everyDays > 1 ? t('prescription.everyDays', { days: frequency.everyDays, times }) : t('prescription.at', { times });
+    };
+
+    const describeCourse = (course?: CourseLength) =>
+        course === undefined ? t('prescription.unread') : course === 'ongoing' ? t('prescription.ongoing') : t('prescription.days', { days: course });
+
+    return (
+        <table className="interaction-table prescription-table">
+            <thead>
+                <tr>
+                    <th>{t('prescription.column.medicine')}</th>
+                    <th>{t('prescription.column.dose')}</th>
+                    <th>{t('prescription.column.frequency')}</th>
+                    <th>{t('prescription.column.duration')}</th>
+                    <th>{t('prescription.column.route')}</th>
+                    <th>{t('prescription.column.instructions')}</th>
+                </tr>
+            </thead>
+            <tbody>
+                {medicines.map(({ line, drug, frequency, course, route, food }, i) => (
+                    <tr key={i}>
+                        <td>
+                            {[line.form, line.name, line.strength].filter(Boolean).join(' ')}
+                            <DrugReading drug={drug} />
+                        </td>
+                        <td>{line.dose}</td>
+                        <td><Reading written={line.frequency} reading={describeFrequency(frequency)} /></td>
+                        <td><Reading written={line.duration} reading={describeCourse(course)} /></td>
+                        <td>{route ? t(routeLabels[route]) : line.route}</td>
+                        {/* Food timing written into the frequency, as in "1-0-1 after food", shows when there are no instructions. */}
+                        <td>{line.instructions || (food && t(foodTimingLabels[food]))}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+/** The prescriber and date, when the scan found them. */
+export const PrescriptionHeader = ({ scan }: { scan: ScanResult }) => {
+    const { t } = useTranslation();
+    if (!scan.prescriber && !scan.prescribedOn) return null;
+    return (
+        <p className="interaction-note">
+            {[scan.prescriber && t('prescription.prescriber', { name: scan.prescriber }), scan.prescribedOn && t('prescription.date', { date: scan.prescribedOn })]
+                .filter(Boolean)
+                .join(' · ')}
+        </p>
+    );
+};
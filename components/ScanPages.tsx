@@ -0,0 +1,82 @@
+import React from 'react';
+import { useTranslation } from '../services/i18n';
+import { createId } from '../services/vault';
+import { prepareDocument, Quad } from '../services/documentImage';
+import type { MaskBox } from './ImageRedactor';
+
+const PDF_TYPE = 'application/pdf';
+
+/** One page of a scanned document: an uploaded photo or PDF, or a camera capture. */
+export interface ScanPage {
+    id: string;
+    /** What is sent, as a data URL whose header carries the page's MIME type: the cleaned-up photo, or the original. */
+    src: string;
+    /** As picked or captured. */
+    original: string;
+    /** Where the page was cut from the original; unset when the photo is sent as it is. */
+    corners?: Quad;
+    /** The file name; empty for camera captures. */
+    name: string;
+    /** Covers drawn over names, addresses and IDs; they are burnt into the uploaded copy. */
+    masks: MaskBox[];
+}
+
+export const isScannableFile = (file: File) => file.type.startsWith('image/') || file.type === PDF_TYPE;
+
+/** PDFs are sent as they are, so they cannot be covered. */
+export const isPdf = (page: ScanPage) => page.src.startsWith(`data:${PDF_TYPE}`);
+
+/** Cleans up the page's original photo, cut from `corners` if given; covers are dropped, as they no longer line up. */
+export const cleanUpPage = async (page: ScanPage, corners?: Quad): Promise<ScanPage> => {
+    const prepared = await prepareDocument(page.original, corners);
+    return { ...page, ...prepared, masks: [] };
+};
+
+/** A new page from a data URL; photos are cleaned up, and kept as they are if that fails. */
+export const createScanPage = async (original: string, name: string): Promise<ScanPage> => {
+    const page: ScanPage = { id: createId(), src: original, original, name, masks: [] };
+    if (isPdf(page)) return page;
+    try {
+        return await cleanUpPage(page);
+    } catch (e) {
+        console.error("Failed to clean up page", e);
+        return page;
+    }
+};
+
+interface ScanPageListProps {
+    pages: ScanPage[];
+    selectedId: string;
+    onSelect: (id: string) => void;
+    onChange: (pages: ScanPage[]) => void;
+}
+
+/** The pages in the order they are sent, to pick one to cover, move it earlier or remove it. */
+export const ScanPageList = ({ pages, selectedId, onSelect, onChange }: ScanPageListProps) => {
+    const { t } = useTranslation();
+
+    const moveEarlier = (index: number) =>
+        onChange([...pages.slice(0, index - 1), pages[index], pages[index - 1], ...pages.slice(index + 1)]);
+
+    return (
+        <ol className="scan-pages">
+            {pages.map((page, i) => (
+                <li key={page.id} className={page.id === selectedId ? 'selected' : undefined}>
+                    <button type="button" className="scan-page-thumb" onClick={() => onSelect(page.id)} aria-pressed={page.id === selectedId}>
+                        {isPdf(page) ? <span className="scan-page-pdf">PDF</span> : <img src={page.src} alt="" />}
+                        <span>{t('scanner.page', { number: i + 1 })}</span>
+                    </button>
+                    {page.name && <span className="scan-page-name" title={page.name}>{page.name}</span>}
+                    <div className="scan-page-actions">
+                        {i > 0 && (
+                            <button type="button" className="btn btn-outline" onClick={() => moveEarlier(i)} aria-label={t('scanner.moveEarlier', { number: i + 1 })}>←</button>
+                        )}
+                        <button type="button" className="btn btn-outline" onClick={() => onChange(pages.filter(p => p.id !== page.id))}>
+                            {t('scanner.removePage')}
+                        </button>
+                    </div>
+                </li>
+            ))}
+        </ol>
+    );
+};
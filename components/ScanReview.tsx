@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { PRESCRIPTION_FIELDS, PrescriptionField, PrescriptionLine, ScanResult } from '../services/ai';
+import { fieldsToCheck, parsePrescription } from '../services/prescription';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { DrugReading } from './DrugMatches';
+import { isPdf, ScanPage } from './ScanPages';
+
+const fieldLabels: Record<PrescriptionField, MessageKey> = {
+    name: 'scanner.review.field.name',
+    strength: 'scanner.review.field.strength',
+    form: 'scanner.review.field.form',
+    dose: 'scanner.review.field.dose',
+    frequency: 'scanner.review.field.frequency',
+    duration: 'scanner.review.field.duration',
+    route: 'scanner.review.field.route',
+    instructions: 'scanner.review.field.instructions',
+};
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** The 0-based page a line is written on; the first page when the scanner did not say. */
+const pageOf = (line: PrescriptionLine, pageCount: number) => Math.min(Math.max((line.page ?? 1) - 1, 0), pageCount - 1);
+
+/** A `[top, left, bottom, right]` box scaled to 1000 as CSS percentages. */
+const regionStyle = ([top, left, bottom, right]: [number, number, number, number]) => ({
+    top: `${top / 10}%`,
+    left: `${left / 10}%`,
+    height: `${(bottom - top) / 10}%`,
+    width: `${(right - left) / 10}%`,
+});
+
+interface ScanReviewProps {
+    pages: ScanPage[];
+    scan: ScanResult;
+    onChange: (scan: ScanResult) => void;
+    onConfirm: () => void;
+    confirming: boolean;
+}
+
+/**
+ * The scan beside the pages it was read from, with each medicine's place on the page
+ * outlined. Every part can be corrected, and parts to check are marked, before it is confirmed.
+ */
+export const ScanReview = ({ pages, scan, onChange, onConfirm, confirming }: ScanReviewProps) => {
+    const { t } = useTranslation();
+    const [activeLine, setActiveLine] = useState<number | null>(null);
+    const [pageIndex, setPageIndex] = useState(0);
+    const lineRefs = useRef<(HTMLFieldSetElement | null)[]>([]);
+
+    const lines = scan.lines ?? [];
+    const medicines = parsePrescription(lines);
+    const flags = medicines.map(fieldsToCheck);
+    const flaggedCount = flags.reduce((total, fields) => total + fields.length, 0) + (scan.prescribedOn && !DATE_KEY.test(scan.prescribedOn) ? 1 : 0);
+    const page = pages[Math.min(pageIndex, pages.length - 1)];
+
+    const selectLine = (index: number) => {
+        setActiveLine(index);
+        setPageIndex(pageOf(lines[index], pages.length));
+    };
+
+    const showLine = (index: number) => {
+        selectLine(index);
+        lineRefs.current[index]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+        lineRefs.current[index]?.querySelector('input')?.focus();
+    };
+
+    const setLines = (next: PrescriptionLine[]) => onChange({ ...scan, lines: next });
+
+    // A part that has been looked at no longer counts as hard to read; one that still cannot be understood stays marked.
+    const setField = (index: number, field: PrescriptionField, value: string) =>
+        setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value, unclear: line.unclear?.filter(f => f !== field) } : line)));
+
+    const addLine = () => {
+        setLines([...lines, { name: '', page: pageIndex + 1 }]);
+        setActiveLine(lines.length);
+    };
+
+    const removeLine = (index: number) => {
+        setLines(lines.filter((_, i) => i !== index));
+        setActiveLine(null);
+    };
+
+    return (
+        <div className="scan-review">
+            <div className="scan-review-pages">
+                {pages.length > 1 && (
+                    <div className="scan-review-page-picker">
+                        {pages.map((p, i) => (
+                            <button
+                                key={p.id}
+                                type="button"
+                                className={`btn ${i === pageIndex ? 'btn-primary' : 'btn-outline'}`}
+                                onClick={() => setPageIndex(i)}
+                            >
+                                {t('scanner.page', { number: i + 1 })}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {page && (isPdf(page) ? (
+                    <p className="outbound-note">{t('scanner.review.pdfNote')}</p>
+                ) : (
+                    <div className="scan-review-surface">
+                        <img src={page.src} alt={t('scanner.page', { number: pageIndex + 1 })} />
+                        {page.masks.map((box, i) => (
+                            <div
+                                key={`mask-${i}`}
+                                className="mask-box"
+                                style={{ left: `${box.x * 100}%`, top: `${box.y * 100}%`, width: `${box.width * 100}%`, height: `${box.height * 100}%` }}
+                            />
+                        ))}
+                        {lines.map((line, i) => line.box && pageOf(line, pages.length) === pageIndex && (
+                            <button
+                                key={i}
+                                type="button"
+                                className={`ocr-region${i === activeLine ? ' active' : ''}${flags[i].length > 0 ? ' flagged' : ''}`}
+                                style={regionStyle(line.box)}
+                                onClick={() => showLine(i)}
+                                aria-label={t('scanner.review.region', { number: i + 1, name: line.name })}
+                            >
+                                <span>{i + 1}</span>
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+            <div className="scan-review-fields">
+                <p className="interaction-note">{t('scanner.review.hint')}</p>
+                <div className="form-group">
+                    <label htmlFor="scanText">{t('scanner.extractedText')}</label>
+                    <textarea
+                        id="scanText"
+                        value={scan.extractedText}
+                        placeholder={t('scanner.noText')}
+                        onChange={e => onChange({ ...scan, extractedText: e.target.value })}
+                    />
+                </div>
+                <div className="scan-review-grid">
+                    <div className="form-group">
+                        <label htmlFor="scanPrescriber">{t('scanner.review.prescriber')}</label>
+                        <input id="scanPrescriber" value={scan.prescriber ?? ''} onChange={e => onChange({ ...scan, prescriber: e.target.value })} />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="scanDate">{t('scanner.review.date')}</label>
+                        <input
+                            type="date"
+                            id="scanDate"
+                            value={scan.prescribedOn && DATE_KEY.test(scan.prescribedOn) ? scan.prescribedOn : ''}
+                            className={scan.prescribedOn && !DATE_KEY.test(scan.prescribedOn) ? 'needs-review' : ''}
+                            onChange={e => onChange({ ...scan, prescribedOn: e.target.value })}
+                        />
+                        {scan.prescribedOn && !DATE_KEY.test(scan.prescribedOn) && (
+                            <span className="review-flag">{t('scanner.review.unreadDate', { date: scan.prescribedOn })}</span>
+                        )}
+                    </div>
+                </div>
+                {lines.map((line, i) => (
+                    <fieldset
+                        key={i}
+                        ref={element => { lineRefs.current[i] = element; }}
+                        className={`scan-review-line${i === activeLine ? ' active' : ''}`}
+                        onFocus={() => selectLine(i)}
+                    >
+                        <legend>{t('scanner.review.medicine', { number: i + 1 })}</legend>
+                        <div className="scan-review-grid">
+                            {PRESCRIPTION_FIELDS.map(field => {
+                                const id = `scanLine${i}-${field}`;
+                                const flagged = flags[i].includes(field);
+                                return (
+                                    <div key={field} className="form-group">
+                                        <label htmlFor={id}>{t(fieldLabels[field])}</label>
+                                        <input
+                                            id={id}
+                                            value={line[field] ?? ''}
+                                            className={flagged ? 'needs-review' : ''}
+                                            onChange={e => setField(i, field, e.target.value)}
+                                        />
+                                        {flagged && <span className="review-flag">{t('scanner.review.check')}</span>}
+                                        {field === 'name' && line.name && <DrugReading drug={medicines[i].drug} />}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <button type="button" className="btn btn-outline" onClick={() => removeLine(i)}>
+                            {t('scanner.review.removeMedicine', { number: i + 1 })}
+                        </button>
+                    </fieldset>
+                ))}
+                <div className="ocr-actions">
+                    <button type="button" className="btn btn-outline" onClick={addLine}>{t('scanner.review.addMedicine')}</button>
+                </div>
+                {flaggedCount > 0 && <p className="interaction-note">{t('scanner.review.toCheck', { count: flaggedCount })}</p>}
+                <div className="form-actions">
+                    <button type="button" className="btn btn-primary" onClick={onConfirm} disabled={confirming}>
+                        {t('scanner.review.confirm')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
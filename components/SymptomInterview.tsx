@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { getVault } from '../services/vault';
+import { loadMedicationNames } from '../services/interactions';
+import { evaluateRedFlags, parseVital, recordRedFlags, RedFlagRule } from '../services/triage';
+import { emptyVitalsInput, toVitals, VitalsInput } from '../services/vitals';
+import { MessageKey, Translate, useTranslation } from '../services/i18n';
+import { Loader, VoiceInputButton } from './common';
+import { EmergencyBanner } from './EmergencyBanner';
+import { VitalsFields } from './VitalsFields';
+
+/** What the assistant analyses, from either the quick form or the interview. */
+export type SymptomReport = VitalsInput & {
+    age: string;
+    symptoms: string;
+    medications: string;
+};
+
+type Step = 'complaint' | 'onset' | 'duration' | 'severity' | 'location' | 'associated' | 'history' | 'medications' | 'vitals';
+type Onset = 'sudden' | 'gradual';
+
+const STEPS: Step[] = ['complaint', 'onset', 'duration', 'severity', 'location', 'associated', 'history', 'medications', 'vitals'];
+
+interface Answers {
+    complaint: string;
+    onset: Onset | '';
+    onsetDetail: string;
+    duration: string;
+    severity: number | null;
+    location: string;
+    associated: string;
+    history: string;
+    medications: string;
+    age: string;
+    vitals: VitalsInput;
+}
+
+const emptyAnswers = (): Answers => ({
+    complaint: '',
+    onset: '',
+    onsetDetail: '',
+    duration: '',
+    severity: null,
+    location: '',
+    associated: '',
+    history: '',
+    medications: '',
+    age: '',
+    vitals: emptyVitalsInput(),
+});
+
+type TextField = 'complaint' | 'onsetDetail' | 'duration' | 'location' | 'associated' | 'history' | 'medications';
+
+/** The free-text answer for each step, which voice input fills in. */
+const textFields: Partial<Record<Step, TextField>> = {
+    complaint: 'complaint',
+    onset: 'onsetDetail',
+    duration: 'duration',
+    location: 'location',
+    associated: 'associated',
+    history: 'history',
+    medications: 'medications',
+};
+
+const questions: Record<Step, MessageKey> = {
+    complaint: 'interview.question.complaint',
+    onset: 'interview.question.onset',
+    duration: 'interview.question.duration',
+    severity: 'interview.question.severity',
+    location: 'interview.question.location',
+    associated: 'interview.question.associated',
+    history: 'interview.question.history',
+    medications: 'interview.question.medications',
+    vitals: 'interview.question.vitals',
+};
+
+const hints: Partial<Record<Step, MessageKey>> = {
+    complaint: 'interview.hint.complaint',
+    onset: 'interview.hint.onset',
+    duration: 'interview.hint.duration',
+    severity: 'interview.severity.scale',
+    location: 'interview.hint.location',
+    associated: 'interview.hint.associated',
+    history: 'interview.hint.history',
+    medications: 'interview.hint.medications',
+};
+
+const onsetLabels: Record<Onset, MessageKey> = {
+    sudden: 'interview.onset.sudden',
+    gradual: 'interview.onset.gradual',
+};
+
+const DURATION_CHOICES: MessageKey[] = ['interview.duration.hours', 'interview.duration.days', 'interview.duration.week', 'interview.duration.longer'];
+
+const ASSOCIATED_CHOICES: MessageKey[] = [
+    'interview.associated.fever',
+    'interview.associated.nausea',
+    'interview.associated.vomiting',
+    'interview.associated.headache',
+    'interview.associated.cough',
+    'interview.associated.dizziness',
+    'interview.associated.fatigue',
+    'interview.associated.rash',
+    'interview.associated.diarrhoea',
+    'interview.associated.breathlessness',
+];
+
+const SEVERITY_SCALE = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const toggleListItem = (list: string, item: string) => {
+    const items = list.split(',').map(i => i.trim()).filter(Boolean);
+    return (items.includes(item) ? items.filter(i => i !== item) : [...items, item]).join(', ');
+};
+
+/** One line per answered question, in the user's language; the user can edit it before analysis. */
+const composeSummary = (answers: Answers, t: Translate) => {
+    const lines: [MessageKey, string][] = [
+        ['interview.summary.complaint', answers.complaint],
+        ['interview.summary.onset', [answers.onset && t(onsetLabels[answers.onset]), answers.onsetDetail.trim()].filter(Boolean).join(', ')],
+        ['interview.summary.duration', answers.duration],
+        ['interview.summary.severity', answers.severity ? `${answers.severity}/10` : ''],
+        ['interview.summary.location', answers.location],
+        ['interview.summary.associated', answers.associated],
+        ['interview.summary.history', answers.history],
+    ];
+    return lines.filter(([, value]) => value.trim()).map(([label, value]) => `${t(label)}: ${value.trim()}`).join('\n');
+};
+
+interface SymptomInterviewProps {
+    loading: boolean;
+    /** `acknowledgedFlags` are red-flag rule ids the user already chose to continue past. */
+    onComplete: (report: SymptomReport, acknowledgedFlags: string[]) => void;
+}
+
+/** Asks about the symptom one question at a time, then shows an editable summary. */
+export const SymptomInterview = ({ loading, onComplete }: SymptomInterviewProps) => {
+    const { t } = useTranslation();
+    const [answers, setAnswers] = useState<Answers>(emptyAnswers);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [summary, setSummary] = useState<string | null>(null);
+    const [redFlags, setRedFlags] = useState<RedFlagRule[]>([]);
+    const acknowledgedRef = useRef(new Set<string>());
+
+    const step = STEPS[stepIndex];
+    const textField = textFields[step];
+
+    // Start from what the health record already knows; the user can change or clear it.
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([getVault().getProfile(), loadMedicationNames()])
+            .then(([profile, medications]) => {
+                if (cancelled) return;
+                const history = [
+                    profile.conditions.length > 0 && t('interview.history.conditions', { list: profile.conditions.join(', ') }),
+                    profile.allergies.length > 0 && t('interview.history.allergies', { list: profile.allergies.join(', ') }),
+                ].filter(Boolean).join('. ');
+                setAnswers(prev => ({
+                    ...prev,
+                    age: prev.age || (profile.age?.toString() ?? ''),
+                    history: prev.history || history,
+                    medications: prev.medications || [...new Set(medications)].join(', '),
+                }));
+            })
+            .catch(e => console.error("Failed to load health records", e));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const setAnswer = <K extends keyof Answers>(field: K, value: Answers[K]) => {
+        setAnswers(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleVoiceResult = useCallback((transcript: string) => {
+        if (textField) setAnswers(prev => ({ ...prev, [textField]: transcript }));
+    }, [textField]);
+
+    const advance = () => {
+        if (stepIndex < STEPS.length - 1) {
+            setStepIndex(stepIndex + 1);
+        } else {
+            setSummary(composeSummary(answers, t));
+        }
+    };
+
+    // Red flags are checked after every answer, so an emergency shows up at the first
+    // question rather than after the whole interview.
+    const handleNext = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const flags = evaluateRedFlags({
+            text: [answers.complaint, answers.onsetDetail, answers.location, answers.associated].join('. '),
+            temperature: toVitals(answers.vitals).temperature,
+            age: parseVital(answers.age),
+        }).filter(rule => !acknowledgedRef.current.has(rule.id));
+        setRedFlags(flags);
+        if (flags.length > 0) {
+            recordRedFlags('assistant', flags);
+            return;
+        }
+        advance();
+    };
+
+    const continuePastFlags = () => {
+        redFlags.forEach(rule => acknowledgedRef.current.add(rule.id));
+        setRedFlags([]);
+        advance();
+    };
+
+    const handleBack = () => {
+        setRedFlags([]);
+        if (summary !== null) {
+            setSummary(null);
+        } else {
+            setStepIndex(Math.max(0, stepIndex - 1));
+        }
+    };
+
+    const startOver = () => {
+        setAnswers(emptyAnswers());
+        setStepIndex(0);
+        setSummary(null);
+        setRedFlags([]);
+        acknowledgedRef.current.clear();
+    };
+
+    const handleGenerate = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        onComplete(
+            { ...answers.vitals, age: answers.age, symptoms: summary, medications: answers.medications },
+            [...acknowledgedRef.current],
+        );
+    };
+
+    if (summary !== null) {
+        return (
+            <div className="card interview-card">
+                <h3>{t('interview.summaryTitle')}</h3>
+                <p className="interview-hint">{t('interview.summaryHint')}</p>
+                <form onSubmit={handleGenerate}>
+                    <div className="form-group">
+                        <label htmlFor="interview-summary">{t('assistant.symptoms')}</label>
+                        <textarea id="interview-summary" className="interview-summary" value={summary} onChange={e => setSummary(e.target.value)} required></textarea>
+                    </div>
+                    <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="interview-age">{t('assistant.age')}</label>
+                        <input type="number" id="interview-age" value={answers.age} onChange={e => setAnswer('age', e.target.value)} required />
+                    </div>
+                    <VitalsFields value={answers.vitals} onChange={vitals => setAnswer('vitals', vitals)} age={parseVital(answers.age)} idPrefix="interview-vitals" />
+                    <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="interview-medications">{t('assistant.medications')}</label>
+                        <input type="text" id="interview-medications" value={answers.medications} onChange={e => setAnswer('medications', e.target.value)} />
+                    </div>
+                    <div className="form-actions">
+                        <button type="button" className="btn btn-outline" onClick={startOver}>{t('interview.startOver')}</button>
+                        <button type="button" className="btn btn-outline" onClick={handleBack}>{t('interview.back')}</button>
+                        <button type="submit" className="btn btn-primary" disabled={loading}>
+                            {loading && <Loader small />}
+                            {t('assistant.submit')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        );
+    }
+
+    const canSkip = step !== 'complaint' && step !== 'vitals';
+    const answered = step === 'severity' ? answers.severity !== null
+        : step === 'onset' ? !!answers.onset || !!answers.onsetDetail.trim()
+        : step === 'vitals' ? !!answers.age.trim()
+        : !!answers[textField].trim();
+
+    return (
+        <>
+            <form className="card interview-card" onSubmit={handleNext}>
+                <div className="interview-progress">
+                    <span>{t('interview.progress', { current: stepIndex + 1, total: STEPS.length })}</span>
+                    <div className="interview-progress-bar"><div style={{ width: `${((stepIndex + 1) / STEPS.length) * 100}%` }} /></div>
+                </div>
+                <h3>{t(questions[step])}</h3>
+                {hints[step] && <p className="interview-hint">{t(hints[step])}</p>}
+
+                {step === 'onset' && (
+                    <div className="interview-choices">
+                        {(['sudden', 'gradual'] as Onset[]).map(onset => (
+                            <button type="button" key={onset} className={`choice-chip ${answers.onset === onset ? 'selected' : ''}`} onClick={() => setAnswer('onset', answers.onset === onset ? '' : onset)}>
+                                {t(onsetLabels[onset])}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {step === 'duration' && (
+                    <div className="interview-choices">
+                        {DURATION_CHOICES.map(key => (
+                            <button type="button" key={key} className={`choice-chip ${answers.duration === t(key) ? 'selected' : ''}`} onClick={() => setAnswer('duration', t(key))}>
+                                {t(key)}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {step === 'severity' && (
+                    <div className="interview-choices severity-scale">
+                        {SEVERITY_SCALE.map(level => (
+                            <button type="button" key={level} className={`choice-chip ${answers.severity === level ? 'selected' : ''}`} onClick={() => setAnswer('severity', level)}>
+                                {level}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {step === 'associated' && (
+                    <div className="interview-choices">
+                        {ASSOCIATED_CHOICES.map(key => (
+                            <button
+                                type="button"
+                                key={key}
+                                className={`choice-chip ${answers.associated.split(',').map(i => i.trim()).includes(t(key)) ? 'selected' : ''}`}
+                                onClick={() => setAnswer('associated', toggleListItem(answers.associated, t(key)))}
+                            >
+                                {t(key)}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {textField && (
+                    <div className="form-group">
+                        {step === 'complaint' || step === 'history' || step === 'associated' ? (
+                            <textarea aria-label={t(questions[step])} value={answers[textField]} onChange={e => setAnswer(textField, e.target.value)} required={step === 'complaint'}></textarea>
+                        ) : (
+                            <input type="text" aria-label={t(questions[step])} value={answers[textField]} onChange={e => setAnswer(textField, e.target.value)} />
+                        )}
+                        <VoiceInputButton onResult={handleVoiceResult} />
+                    </div>
+                )}
+                {step === 'vitals' && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="interview-age">{t('assistant.age')}</label>
+                            <input type="number" id="interview-age" value={answers.age} onChange={e => setAnswer('age', e.target.value)} required />
+                        </div>
+                        <VitalsFields value={answers.vitals} onChange={vitals => setAnswer('vitals', vitals)} age={parseVital(answers.age)} idPrefix="interview-vitals" />
+                    </>
+                )}
+
+                <div className="form-actions">
+                    {stepIndex > 0 && <button type="button" className="btn btn-outline" onClick={handleBack}>{t('interview.back')}</button>}
+                    <button type="submit" className="btn btn-primary" disabled={!answered && !canSkip}>
+                        {t(stepIndex === STEPS.length - 1 ? 'interview.review' : !answered && canSkip ? 'interview.skip' : 'interview.next')}
+                    </button>
+                </div>
+            </form>
+            {redFlags.length > 0 && <EmergencyBanner rules={redFlags} onContinue={continuePastFlags} />}
+        </>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { daysBetween, TrendPoint } from '../services/bodyTrends';
+import { getLanguageInfo } from '../services/i18n';
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+const GRID_LINES = 4;
+
+const formatDate = (dateKey: string) =>
+    new Date(`${dateKey}T00:00`).toLocaleDateString(getLanguageInfo().speechLang, { day: 'numeric', month: 'short' });
+
+interface TrendChartProps {
+    points: TrendPoint[];
+    unit: string;
+    /** Drawn as a dashed line, e.g. the goal weight. */
+    goal?: number;
+    /** Accessible description of the chart. */
+    label: string;
+}
+
+/** Readings as dots and their moving average as a line, on a time axis. */
+export const TrendChart = ({ points, unit, goal, label }: TrendChartProps) => {
+    const first = points[0].date;
+    const last = points[points.length - 1].date;
+    const span = Math.max(1, daysBetween(first, last));
+    const values = [...points.map(point => point.value), ...(goal !== undefined ? [goal] : [])];
+    // Pad the range so a flat line or a single reading still sits inside the plot.
+    const padding = Math.max(0.5, (Math.max(...values) - Math.min(...values)) * 0.1);
+    const min = Math.min(...values) - padding;
+    const max = Math.max(...values) + padding;
+
+    const x = (date: string) => PADDING.left + (daysBetween(first, date) / span) * (WIDTH - PADDING.left - PADDING.right);
+    const y = (value: number) => PADDING.top + ((max - value) / (max - min)) * (HEIGHT - PADDING.top - PADDING.bottom);
+    const grid = Array.from({ length: GRID_LINES + 1 }, (_, i) => min + ((max - min) * i) / GRID_LINES);
+
+    return (
+        <svg className="trend-chart" viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={label}>
+            {grid.map(value => (
+                <g key={value}>
+                    <line className="trend-grid" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} />
+                    <text className="trend-axis" x={PADDING.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">
+                        {value.toFixed(1)}
+                    </text>
+                </g>
+            ))}
+            <text className="trend-axis" x={PADDING.left} y={HEIGHT - 8}>{formatDate(first)}</text>
+            {last !== first && <text className="trend-axis" x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end">{formatDate(last)}</text>}
+            {goal !== undefined && (
+                <g>
+                    <line className="trend-goal" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(goal)} y2={y(goal)} />
+                    <text className="trend-goal-label" x={WIDTH - PADDING.right} y={y(goal) - 6} textAnchor="end">{`${goal} ${unit}`}</text>
+                </g>
+            )}
+            <polyline className="trend-average" points={points.map(point => `${x(point.date)},${y(point.average)}`).join(' ')} />
+            {points.map((point, i) => (
+                <circle key={i} className="trend-reading" cx={x(point.date)} cy={y(point.value)} r={4}>
+                    <title>{`${formatDate(point.date)}: ${point.value} ${unit}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
@@ -0,0 +1,160 @@
+import React from 'react';
+import {
+    evaluateVitals,
+    fromCelsius,
+    fromMgDl,
+    GLUCOSE_UNITS,
+    NormalRange,
+    TEMPERATURE_UNITS,
+    toVitals,
+    VitalFlag,
+    VitalMeasure,
+    VitalsInput,
+    WEIGHT_UNITS,
+} from '../services/vitals';
+import { MessageKey, useTranslation } from '../services/i18n';
+
+export const vitalLabels: Record<VitalMeasure, MessageKey> = {
+    temperature: 'vitals.temperature',
+    systolic: 'vitals.systolic',
+    diastolic: 'vitals.diastolic',
+    heartRate: 'vitals.heartRate',
+    spo2: 'vitals.spo2',
+    respiratoryRate: 'vitals.respiratoryRate',
+    glucose: 'vitals.glucose',
+    weight: 'vitals.weight',
+};
+
+/** A normal range in the unit the user entered the reading in. */
+const formatRange = (measure: VitalMeasure, { min, max }: NormalRange, input: VitalsInput) => {
+    if (measure === 'temperature') {
+        return `${fromCelsius(min, input.temperatureUnit).toFixed(1)}–${fromCelsius(max, input.temperatureUnit).toFixed(1)} ${input.temperatureUnit}`;
+    }
+    if (measure === 'glucose') {
+        const places = input.glucoseUnit === 'mmol/L' ? 1 : 0;
+        return `${fromMgDl(min, input.glucoseUnit).toFixed(places)}–${fromMgDl(max, input.glucoseUnit).toFixed(places)} ${input.glucoseUnit}`;
+    }
+    return `${min}–${max}`;
+};
+
+interface VitalsFieldsProps {
+    value: VitalsInput;
+    onChange: (value: VitalsInput) => void;
+    /** Age in years, for age-adjusted ranges; adult ranges are used if unknown. */
+    age?: number;
+    /** Prefix for element ids, for pages with more than one set of fields. */
+    idPrefix?: string;
+}
+
+/** Optional vital-sign inputs with unit pickers; readings outside the normal range are highlighted. */
+export const VitalsFields = ({ value, onChange, age, idPrefix = 'vitals' }: VitalsFieldsProps) => {
+    const { t } = useTranslation();
+    const flags = evaluateVitals(toVitals(value), age);
+    const flagFor = (measure: VitalMeasure) => flags.find(f => f.measure === measure);
+
+    const set = <K extends keyof VitalsInput>(field: K, fieldValue: VitalsInput[K]) => onChange({ ...value, [field]: fieldValue });
+
+    const flagNote = (flag: VitalFlag | undefined) => flag && (
+        <span className={`vital-flag vital-${flag.status}`}>
+            {t(flag.status === 'low' ? 'vitals.low' : 'vitals.high', { range: formatRange(flag.measure, flag.range, value) })}
+        </span>
+    );
+
+    const numberField = (measure: 'heartRate' | 'spo2' | 'respiratoryRate') => (
+        <div className="form-group">
+            <label htmlFor={`${idPrefix}-${measure}`}>{t(vitalLabels[measure])}</label>
+            <input
+                type="number"
+                id={`${idPrefix}-${measure}`}
+                className={flagFor(measure) ? 'out-of-range' : ''}
+                value={value[measure]}
+                onChange={e => set(measure, e.target.value)}
+            />
+            {flagNote(flagFor(measure))}
+        </div>
+    );
+
+    return (
+        <fieldset className="vitals-fields">
+            <legend>{t('vitals.title')}</legend>
+            <div className="form-grid">
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-temperature`}>{t(vitalLabels.temperature)}</label>
+                    <div className="vital-input">
+                        <input
+                            type="number"
+                            step="0.1"
+                            id={`${idPrefix}-temperature`}
+                            className={flagFor('temperature') ? 'out-of-range' : ''}
+                            value={value.temperature}
+                            onChange={e => set('temperature', e.target.value)}
+                        />
+                        <select aria-label={t('vitals.unit')} value={value.temperatureUnit} onChange={e => set('temperatureUnit', e.target.value as VitalsInput['temperatureUnit'])}>
+                            {TEMPERATURE_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                        </select>
+                    </div>
+                    {flagNote(flagFor('temperature'))}
+                </div>
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-systolic`}>{t('vitals.bloodPressure')}</label>
+                    <div className="vital-input">
+                        <input
+                            type="number"
+                            id={`${idPrefix}-systolic`}
+                            aria-label={t(vitalLabels.systolic)}
+                            placeholder={t(vitalLabels.systolic)}
+                            className={flagFor('systolic') ? 'out-of-range' : ''}
+                            value={value.systolic}
+                            onChange={e => set('systolic', e.target.value)}
+                        />
+                        <span>/</span>
+                        <input
+                            type="number"
+                            aria-label={t(vitalLabels.diastolic)}
+                            placeholder={t(vitalLabels.diastolic)}
+                            className={flagFor('diastolic') ? 'out-of-range' : ''}
+                            value={value.diastolic}
+                            onChange={e => set('diastolic', e.target.value)}
+                        />
+                    </div>
+                    {flagNote(flagFor('systolic'))}
+                    {flagNote(flagFor('diastolic'))}
+                </div>
+                {numberField('heartRate')}
+                {numberField('spo2')}
+                {numberField('respiratoryRate')}
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-glucose`}>{t(vitalLabels.glucose)}</label>
+                    <div className="vital-input">
+                        <input
+                            type="number"
+                            step="0.1"
+                            id={`${idPrefix}-glucose`}
+                            className={flagFor('glucose') ? 'out-of-range' : ''}
+                            value={value.glucose}
+                            onChange={e => set('glucose', e.target.value)}
+                        />
+                        <select aria-label={t('vitals.unit')} value={value.glucoseUnit} onChange={e => set('glucoseUnit', e.target.value as VitalsInput['glucoseUnit'])}>
+                            {GLUCOSE_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                        </select>
+                        <select aria-label={t('vitals.glucoseTiming')} value={value.glucoseTiming} onChange={e => set('glucoseTiming', e.target.value as VitalsInput['glucoseTiming'])}>
+                            <option value="random">{t('vitals.glucose.random')}</option>
+                            <option value="fasting">{t('vitals.glucose.fasting')}</option>
+                        </select>
+                    </div>
+                    {flagNote(flagFor('glucose'))}
+                </div>
+                <div className="form-group">
+                    <label htmlFor={`${idPrefix}-weight`}>{t(vitalLabels.weight)}</label>
+                    <div className="vital-input">
+                        <input type="number" step="0.1" id={`${idPrefix}-weight`} value={value.weight} onChange={e => set('weight', e.target.value)} />
+                        <select aria-label={t('vitals.unit')} value={value.weightUnit} onChange={e => set('weightUnit', e.target.value as VitalsInput['weightUnit'])}>
+                            {WEIGHT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                        </select>
+                    </div>
+                </div>
+            </div>
+            <p className="vitals-note">{t('vitals.note')}</p>
+        </fieldset>
+    );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { useTranslation } from '../services/i18n';
+import { speak, useSpeechRecognition } from '../services/speech';
+
+// --- Helper Components ---
+
+export const MicrophoneIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z" />
+        <path d="M19 10v2a7 7 0 0 1-14 0v-2" />
+        <line x1="12" y1="19" x2="12" y2="23" />
+        <line x1="8" y1="23" x2="16" y2="23" />
+    </svg>
+);
+export const SpeakerIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5" />
+        <path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07" />
+    </svg>
+);
+export const ChatIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+    </svg>
+);
+export const SendIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="22" y1="2" x2="11" y2="13" />
+        <polygon points="22 2 15 22 11 13 2 9 22 2" />
+    </svg>
+);
+
+export const VoiceInputButton = ({ onResult }: { onResult: (result: string) => void }) => {
+    const { isListening, toggleListening, isSupported } = useSpeechRecognition(onResult);
+    const { t } = useTranslation();
+    if (!isSupported) return null;
+    return (
+        <button type="button" className={`voice-input-btn ${isListening ? 'listening' : ''}`} onClick={toggleListening} aria-label={t(isListening ? 'common.stopRecording' : 'common.startRecording')}>
+            <MicrophoneIcon />
+        </button>
+    );
+};
+
+
+export const Loader = ({ small }: { small?: boolean }) => <div className={`loader ${small ? 'small' : ''}`} />;
+
+export const ErrorMessage = ({ message }: { message: string }) => <div className="error-message">{message}</div>;
+
+/** `disclaimer` adds the standard not-medical-advice notice below the result. */
+export const ResultCard = ({ title, children, disclaimer, speakText }: { title: string, children: React.ReactNode, disclaimer?: boolean, speakText?: string }) => {
+    const { t } = useTranslation();
+    return (
+        <div className="results-container">
+            <div className="results-header">
+                <h3>{title}</h3>
+                {speakText && (
+                    <button className="speak-btn" onClick={() => speak(speakText)} aria-label={t('common.readAloud')}>
+                        <SpeakerIcon />
+                    </button>
+                )}
+            </div>
+            <div>{children}</div>
+            {disclaimer && <p className="disclaimer">{t('common.disclaimer')}</p>}
+        </div>
+    );
+};
+
+export const Logo = () => (
+    <svg width="40" height="40" viewBox="0 0 100 100" xmlns="http://www.w3.org/2000/svg">
+        <path d="M89.3,19.9C72.8,31,65,49.5,66.8,68.2c1,10.1,5.5,19.6,11.8,27.1c-5.1-4.2-9.4-9.8-12.7-16.1C54.6,57.9,54.9,37,67.8,21.4C75.1,12.7,85.2,6.5,95,5c-2.3,5.1-4,10.2-5.7,14.9Z" fill="#50463F" />
+        <g fill="#50463F">
+            <path d="M60,45h-20c-1.1,0-2-0.9-2-2v0c0-1.1,0.9-2,2-2h20c1.1,0,2,0.9,2,2v0C62,44.1,61.1,45,60,45z" />
+            <path d="M58,52h-16c-1.1,0-2-0.9-2-2v-3h20v3C60,51.1,59.1,52,58,52z" />
+            <path d="M35,78c0,1.1,0.9,2,2,2h26c1.1,0,2-0.9,2-2v0c0-1.1-0.9-2-2-2h-26C35.9,76,35,76.9,35,78z" />
+            <path d="M65,75h-30c-1.1,0-2-0.9-2-2v-18c0-1.1,0.9-2,2-2h30c1.1,0,2,0.9,2,2v18C67,74.1,66.1,75,65,75z M37,73h26v-18h-26V73z" />
+            <path d="M59,70h-18c-1.1,0-2-0.9-2-2v-7c0-1.1,0.9-2,2-2h18c1.1,0,2,0.9,2,2v7C61,69.1,60.1,70,59,70z" />
+        </g>
+    </svg>
+);
@@ -0,0 +1,79 @@
+import React, { useSyncExternalStore } from 'react';
+
+// --- Client-side Router ---
+// A minimal History API router: `navigate` pushes a URL, `useLocation` re-renders on
+// any change (including back/forward), and `matchPath` extracts `:param` segments.
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) window.addEventListener('popstate', notify);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) window.removeEventListener('popstate', notify);
+    };
+};
+
+const getLocationKey = () => window.location.pathname + window.location.search;
+
+export const navigate = (to: string, { replace = false }: { replace?: boolean } = {}) => {
+    if (to === getLocationKey()) return;
+    if (replace) {
+        window.history.replaceState(null, '', to);
+    } else {
+        window.history.pushState(null, '', to);
+        window.scrollTo(0, 0);
+    }
+    notify();
+};
+
+export const useLocation = () => {
+    const key = useSyncExternalStore(subscribe, getLocationKey);
+    const url = new URL(key, window.location.origin);
+    return { pathname: url.pathname, searchParams: url.searchParams };
+};
+
+export type RouteParams = Record<string, string>;
+
+/** Matches `/hospitals/:id/book`-style patterns. Returns the decoded params, or null. */
+export const matchPath = (pattern: string, pathname: string): RouteParams | null => {
+    const patternParts = pattern.split('/').filter(Boolean);
+    const pathParts = pathname.replace(/\/+$/, '').split('/').filter(Boolean);
+    if (patternParts.length !== pathParts.length) return null;
+
+    const params: RouteParams = {};
+    for (let i = 0; i < patternParts.length; i++) {
+        if (patternParts[i].startsWith(':')) {
+            try {
+                params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+            } catch {
+                // A malformed escape such as "%E0" matches no route, so the page is not found.
+                return null;
+            }
+        } else if (patternParts[i] !== pathParts[i]) {
+            return null;
+        }
+    }
+    return params;
+};
+
+type LinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string };
+
+export const Link = ({ to, onClick, children, ...rest }: LinkProps) => (
+    <a
+        href={to}
+        onClick={(e) => {
+            onClick?.(e);
+            // Let the browser handle new-tab/window clicks and anything already handled.
+            if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+            e.preventDefault();
+            navigate(to);
+        }}
+        {...rest}
+    >
+        {children}
+    </a>
+);
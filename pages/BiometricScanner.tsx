@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { generateContent } from '../services/ai';
+import { saveAnalysis } from '../services/history';
+import { parseVital } from '../services/triage';
+import { emptyVitalsInput, recordVitals, toVitals, VitalsInput } from '../services/vitals';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, ResultCard } from '../components/common';
+import { MarkdownRenderer } from '../components/MarkdownRenderer';
+import { VitalsFields } from '../components/VitalsFields';
+
+declare global {
+    interface Window {
+        drawConnectors: any;
+        drawLandmarks: any;
+        POSE_CONNECTIONS: any;
+        Pose: any;
+    }
+}
+
+// MediaPipe is loaded on demand from the CDN so that only the biometric route pays for it.
+const MEDIAPIPE_SCRIPTS = [
+    'https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils/drawing_utils.js',
+    'https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js',
+];
+
+let mediaPipePromise: Promise<void> | null = null;
+
+const loadScript = (src: string) => new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.crossOrigin = 'anonymous';
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Failed to load ${src}`));
+    document.head.appendChild(script);
+});
+
+const loadMediaPipe = () => {
+    if (!mediaPipePromise) {
+        mediaPipePromise = Promise.all(MEDIAPIPE_SCRIPTS.map(loadScript)).then(() => undefined);
+        // Allow a retry if the CDN was unreachable.
+        mediaPipePromise.catch(() => { mediaPipePromise = null; });
+    }
+    return mediaPipePromise;
+};
+
+const BiometricScanner = () => {
+    const { t } = useTranslation();
+    const [isScanning, setIsScanning] = useState(false);
+    const [showPrompt, setShowPrompt] = useState(false);
+    const [showAnalysis, setShowAnalysis] = useState(false);
+    const [age, setAge] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState('');
+    const [error, setError] = useState('');
+    const [height, setHeight] = useState<number | null>(null);
+    const [temperature, setTemperature] = useState('...');
+    const [vitals, setVitals] = useState<VitalsInput>(emptyVitalsInput);
+    const [libraryLoading, setLibraryLoading] = useState(false);
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const cameraRef = useRef<MediaStream | null>(null);
+    const poseRef = useRef<any>(null);
+    const animationFrameId = useRef<number | null>(null);
+
+    const stopCamera = useCallback(() => {
+        if (cameraRef.current && cameraRef.current.getTracks) {
+            cameraRef.current.getTracks().forEach((track) => track.stop());
+        }
+        if (animationFrameId.current) {
+            cancelAnimationFrame(animationFrameId.current);
+            animationFrameId.current = null;
+        }
+        setIsScanning(false);
+    }, []);
+
+    // Cleanup on component unmount
+    useEffect(() => {
+        return () => {
+            stopCamera();
+            if (poseRef.current) {
+                poseRef.current.close();
+            }
+        };
+    }, [stopCamera]);
+
+    // Temperature simulation effect
+    useEffect(() => {
+        if (!isScanning || showPrompt) return;
+
+        setTemperature("Calibrating...");
+        let calibrationCount = 0;
+        const interval = setInterval(() => {
+            if (calibrationCount < 5) {
+                const randomTemp = (36.5 + Math.random() * 1.5).toFixed(1);
+                setTemperature(`${randomTemp}°C`);
+                calibrationCount++;
+            } else {
+                const finalTemp = (36.8 + Math.random() * 0.5).toFixed(1);
+                setTemperature(`${finalTemp}°C`);
+                clearInterval(interval);
+                setTimeout(() => setShowPrompt(true), 1000); // Show prompt after final temp
+            }
+        }, 800);
+
+        return () => clearInterval(interval);
+    }, [isScanning, showPrompt]);
+
+    // The main processing and drawing callback for MediaPipe
+    const onResults = useCallback((results: any) => {
+        if (!canvasRef.current) return;
+        const canvasCtx = canvasRef.current.getContext('2d');
+        if (!canvasCtx) return;
+
+        canvasCtx.save();
+        canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
+
+        if (results.poseLandmarks) {
+            window.drawConnectors(canvasCtx, results.poseLandmarks, window.POSE_CONNECTIONS, { color: '#50463F', lineWidth: 2 });
+            window.drawLandmarks(canvasCtx, results.poseLandmarks, { color: '#3D352F', lineWidth: 1, radius: 3 });
+
+            const landmarks = results.poseLandmarks;
+            const nose = landmarks[0];
+            const leftHeel = landmarks[29];
+            const rightHeel = landmarks[30];
+
+            if (nose.visibility > 0.5 && leftHeel.visibility > 0.5 && rightHeel.visibility > 0.5) {
+                const heelY = (leftHeel.y + rightHeel.y) / 2;
+                const normalizedHeight = Math.abs(heelY - nose.y);
+                // Simple calibration factor: assumes user fills most of the frame. Not an accurate measurement.
+                const calculatedHeight = Math.round(normalizedHeight * 220);
+                setHeight(calculatedHeight);
+            }
+        }
+
+        // Display overlays
+        canvasCtx.fillStyle = 'white';
+        canvasCtx.font = 'bold 24px Lora, serif';
+        canvasCtx.shadowColor = 'black';
+        canvasCtx.shadowBlur = 6;
+        if (height) {
+            canvasCtx.fillText(`Height: ${height} cm`, 30, 50);
+        }
+        canvasCtx.fillText(`Temp: ${temperature}`, 30, 90);
+        canvasCtx.shadowBlur = 0;
+        canvasCtx.restore();
+    }, [height, temperature]);
+
+    // Effect to register the `onResults` callback with the pose instance.
+    // This runs when `onResults` is redefined (i.e., when height/temp changes)
+    useEffect(() => {
+        if (poseRef.current) {
+            poseRef.current.onResults(onResults);
+        }
+    }, [onResults]);
+
+    // Effect for the camera processing loop
+    useEffect(() => {
+        if (!isScanning || !videoRef.current || !poseRef.current) {
+            return;
+        }
+
+        const videoElement = videoRef.current;
+        const pose = poseRef.current;
+
+        const sendFrame = async () => {
+            if (!isScanning) return; // Stop loop if scanning is turned off
+            try {
+                if (videoElement.readyState >= 2) { // Check if video has data
+                    await pose.send({ image: videoElement });
+                }
+            } catch (e) {
+                console.error("Error sending frame to MediaPipe", e);
+            }
+            animationFrameId.current = requestAnimationFrame(sendFrame);
+        };
+
+        sendFrame();
+
+        return () => {
+            if (animationFrameId.current) {
+                cancelAnimationFrame(animationFrameId.current);
+            }
+        };
+    }, [isScanning]);
+
+
+    const startScan = async () => {
+        setError('');
+        // The library must be ready before scanning starts: the frame loop only starts
+        // when `isScanning` flips and a pose instance already exists.
+        setLibraryLoading(true);
+        try {
+            await loadMediaPipe();
+        } catch (err) {
+            console.error("Failed to load MediaPipe:", err);
+            setError(t('biometric.libraryError'));
+            return;
+        } finally {
+            setLibraryLoading(false);
+        }
+
+        setIsScanning(true);
+        setShowPrompt(false);
+        setShowAnalysis(false);
+        setResult('');
+        setHeight(null);
+
+        // Initialize MediaPipe Pose if it hasn't been already
+        if (!poseRef.current) {
+            const pose = new window.Pose({
+                locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`,
+            });
+            pose.setOptions({
+                modelComplexity: 1,
+                smoothLandmarks: true,
+                minDetectionConfidence: 0.5,
+                minTrackingConfidence: 0.5
+            });
+            poseRef.current = pose;
+        }
+
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 } });
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                // Wait for video to start playing to avoid blank frames
+                await videoRef.current.play();
+            }
+            cameraRef.current = stream;
+        } catch (err) {
+            console.error("Camera access denied:", err);
+            setError(t('biometric.cameraError'));
+            setIsScanning(false);
+        }
+    };
+
+    const handleProceed = () => {
+        stopCamera();
+        // The scan's temperature becomes an editable reading alongside any others the user has.
+        const scanned = parseFloat(temperature);
+        setVitals({ ...emptyVitalsInput(), temperature: Number.isNaN(scanned) ? '' : scanned.toString() });
+        setShowAnalysis(true);
+    };
+    
+    const handleNo = () => {
+        stopCamera();
+        setShowPrompt(false);
+    };
+
+    const handleAnalysisSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError('');
+        const readings = toVitals(vitals);
+        recordVitals('biometric', readings, parseVital(age));
+        try {
+            const response = await generateContent('biometric', { age, heightCm: height ?? undefined, vitals: readings });
+            setResult(response.text);
+            saveAnalysis('biometric', { ...vitals, age, height: height?.toString() ?? '' }, response.text);
+        } catch(err: any) {
+            setError(err instanceof Error ? err.message : t('biometric.analysisError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+
+    if (showAnalysis) {
+        return (
+            <div className="page">
+                <div className="page-header">
+                    <h1>{t('biometric.analysisTitle')}</h1>
+                    <p>{t('biometric.analysisSubtitle')}</p>
+                </div>
+                <div className="card">
+                    <p><strong>{t('biometric.scanResults')}</strong>{' '}{t('biometric.scanSummary', { height: height || t('biometric.notAvailable'), temperature })}</p>
+                    <form onSubmit={handleAnalysisSubmit}>
+                        <div className="form-group">
+                            <label htmlFor="age">{t('biometric.age')}</label>
+                            <input type="number" id="age" value={age} onChange={e => setAge(e.target.value)} required />
+                        </div>
+                        <VitalsFields value={vitals} onChange={setVitals} age={parseVital(age)} />
+                        <div className="form-actions">
+                            <button type="submit" className="btn btn-primary" disabled={loading}>
+                                {loading && <Loader small />}
+                                {t('biometric.submit')}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+                {error && <ErrorMessage message={error} />}
+                {result && (
+                    <ResultCard title={t('biometric.resultTitle')} disclaimer speakText={result}>
+                         <MarkdownRenderer text={result} />
+                    </ResultCard>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('biometric.title')}</h1>
+                <p>{t('biometric.subtitle')}</p>
+            </div>
+            {!isScanning ? (
+                <div className="form-actions" style={{ justifyContent: 'center' }}>
+                    <button className="btn btn-primary" onClick={startScan} disabled={libraryLoading}>
+                        {libraryLoading && <Loader small />}
+                        {t('biometric.start')}
+                    </button>
+                </div>
+            ) : (
+                <div className="biometric-container">
+                    <video ref={videoRef} autoPlay playsInline style={{ transform: 'scaleX(-1)', display: 'block' }} />
+                    <canvas ref={canvasRef} width="640" height="480" />
+                    {showPrompt && (
+                        <div className="biometric-prompt">
+                            <p>{t('biometric.proceed')}</p>
+                            <div>
+                                <button className="btn btn-outline" onClick={handleNo}>{t('biometric.no')}</button>
+                                <button className="btn btn-primary" onClick={handleProceed}>{t('biometric.yes')}</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+            {error && <ErrorMessage message={error} />}
+        </div>
+    );
+};
+
+export default BiometricScanner;
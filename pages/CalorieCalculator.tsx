@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateContent } from '../services/ai';
+import {
+    ACTIVITY_LEVELS,
+    ActivityLevel,
+    BiologicalSex,
+    BMR_FORMULAS,
+    BmrFormula,
+    BodyMetrics,
+    calculateCalories,
+    calculateChildCalories,
+    CalorieResult,
+    canUseFormula,
+    feetAndInchesToCm,
+    GoalTarget,
+    isChild,
+    poundsToKg,
+    UnitSystem,
+    WeightGoal,
+} from '../services/calories';
+import { saveAnalysis } from '../services/history';
+import { saveCalorieTarget } from '../services/nutrition';
+import { getVault } from '../services/vault';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, ResultCard } from '../components/common';
+import { CalorieResultView, formulaLabels } from '../components/AnalysisView';
+import { Link } from '../components/router';
+
+const unitLabels: Record<UnitSystem, MessageKey> = {
+    metric: 'calculator.units.metric',
+    imperial: 'calculator.units.imperial',
+};
+
+const activityLabels: Record<ActivityLevel, MessageKey> = {
+    sedentary: 'calculator.activity.sedentary',
+    light: 'calculator.activity.light',
+    moderate: 'calculator.activity.moderate',
+    active: 'calculator.activity.active',
+    extra: 'calculator.activity.extra',
+};
+
+const parseNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const CalorieCalculator = () => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState({
+        units: 'metric' as UnitSystem,
+        age: '',
+        gender: 'male' as BiologicalSex,
+        weight: '',
+        height: '',
+        heightFeet: '',
+        heightInches: '',
+        bodyFat: '',
+        activity: 'sedentary' as ActivityLevel,
+        formula: 'mifflin' as BmrFormula,
+    });
+    const [result, setResult] = useState<CalorieResult | null>(null);
+    const [error, setError] = useState('');
+    const [commentaryLoading, setCommentaryLoading] = useState(false);
+    const [targetGoal, setTargetGoal] = useState<WeightGoal | undefined>();
+    // The computed figures are saved once; commentary is added to the same history entry.
+    const savedRef = useRef<{ id: string; inputs: Record<string, string>; metrics: BodyMetrics } | null>(null);
+
+    // Start from the profile's measurements, which the user can still change.
+    useEffect(() => {
+        getVault().getProfile()
+            .then(profile => setFormData(prev => ({
+                ...prev,
+                age: prev.age || (profile.age?.toString() ?? ''),
+                gender: profile.sex === 'female' || profile.sex === 'male' ? profile.sex : prev.gender,
+                weight: prev.weight || (profile.weightKg?.toString() ?? ''),
+                height: prev.height || (profile.heightCm?.toString() ?? ''),
+            })))
+            .catch(e => console.error("Failed to load profile", e));
+    }, []);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    // Children get their own energy equations, and the adult formula and body fat fields are hidden.
+    const child = isChild(parseNumber(formData.age));
+
+    const toMetrics = (): BodyMetrics => {
+        const imperial = formData.units === 'imperial';
+        const weight = parseNumber(formData.weight);
+        return {
+            age: parseNumber(formData.age),
+            sex: formData.gender,
+            weightKg: imperial ? poundsToKg(weight) : weight,
+            heightCm: imperial
+                ? feetAndInchesToCm(parseNumber(formData.heightFeet) ?? 0, parseNumber(formData.heightInches) ?? 0)
+                : parseNumber(formData.height),
+            bodyFatPercent: parseNumber(formData.bodyFat),
+        };
+    };
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        const metrics = toMetrics();
+        if (!child && !canUseFormula(formData.formula, metrics)) {
+            setError(t('calculator.bodyFatRequired'));
+            return;
+        }
+        const calculated = child
+            ? calculateChildCalories(formData.activity, metrics)
+            : calculateCalories(formData.formula, formData.activity, metrics);
+        setResult(calculated);
+        setTargetGoal(undefined);
+        // History keeps metric values so entries compare regardless of the units used.
+        const inputs = {
+            age: formData.age,
+            gender: formData.gender,
+            weight: metrics.weightKg.toFixed(1),
+            height: metrics.heightCm.toFixed(0),
+            bodyFat: child ? '' : formData.bodyFat,
+            activity: formData.activity,
+            formula: calculated.formula,
+        };
+        savedRef.current = { id: saveAnalysis('calculator', inputs, calculated), inputs, metrics };
+    };
+
+    const requestCommentary = async () => {
+        const saved = savedRef.current;
+        if (!result || !saved) return;
+        setCommentaryLoading(true);
+        setError('');
+        try {
+            const response = await generateContent('calculator', { formula: result.formula, activity: result.activity, metrics: saved.metrics });
+            const withCommentary = { ...result, commentary: response.text };
+            setResult(withCommentary);
+            saveAnalysis('calculator', saved.inputs, withCommentary, saved.id);
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('calculator.commentaryError'));
+        } finally {
+            setCommentaryLoading(false);
+        }
+    };
+
+    const selectTarget = async (target: GoalTarget) => {
+        setError('');
+        try {
+            await saveCalorieTarget(target, result.tdee);
+            setTargetGoal(target.goal);
+        } catch (e) {
+            console.error("Failed to save calorie target", e);
+            setError(t('calculator.targetError'));
+        }
+    };
+
+    const imperial = formData.units === 'imperial';
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('calculator.title')}</h1>
+                <p>{t('calculator.subtitle')}</p>
+            </div>
+            <div className="card">
+                <form onSubmit={handleSubmit}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="units">{t('calculator.units')}</label>
+                            <select id="units" name="units" value={formData.units} onChange={handleChange}>
+                                {(Object.keys(unitLabels) as UnitSystem[]).map(units => (
+                                    <option key={units} value={units}>{t(unitLabels[units])}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {!child && (
+                            <div className="form-group">
+                                <label htmlFor="formula">{t('calculator.formula')}</label>
+                                <select id="formula" name="formula" value={formData.formula} onChange={handleChange}>
+                                    {BMR_FORMULAS.map(formula => (
+                                        <option key={formula} value={formula}>{t(formulaLabels[formula])}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="age">{t('calculator.age')}</label>
+                            <input type="number" id="age" name="age" min="0" step="0.1" value={formData.age} onChange={handleChange} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="gender">{t('calculator.gender')}</label>
+                            <select id="gender" name="gender" value={formData.gender} onChange={handleChange}>
+                                <option value="male">{t('calculator.male')}</option>
+                                <option value="female">{t('calculator.female')}</option>
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="weight">{t(imperial ? 'calculator.weightLb' : 'calculator.weight')}</label>
+                            <input type="number" step="0.1" min="1" id="weight" name="weight" value={formData.weight} onChange={handleChange} required />
+                        </div>
+                        {imperial ? (
+                            <div className="form-group">
+                                <label htmlFor="heightFeet">{t('calculator.heightImperial')}</label>
+                                <div className="vital-input">
+                                    <input type="number" min="1" id="heightFeet" name="heightFeet" aria-label={t('calculator.feet')} placeholder={t('calculator.feet')} value={formData.heightFeet} onChange={handleChange} required />
+                                    <input type="number" min="0" max="11.9" step="0.1" name="heightInches" aria-label={t('calculator.inches')} placeholder={t('calculator.inches')} value={formData.heightInches} onChange={handleChange} />
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="form-group">
+                                <label htmlFor="height">{t('calculator.height')}</label>
+                                <input type="number" min="1" id="height" name="height" value={formData.height} onChange={handleChange} required />
+                            </div>
+                        )}
+                        {!child && (
+                            <div className="form-group">
+                                <label htmlFor="bodyFat">{t('calculator.bodyFat')}</label>
+                                <input type="number" step="0.1" min="1" max="75" id="bodyFat" name="bodyFat" value={formData.bodyFat} onChange={handleChange} required={formData.formula === 'katch'} />
+                            </div>
+                        )}
+                    </div>
+                    {child && (
+                        <p className="interaction-note">
+                            {t('calculator.childNote')} <Link to="/growth">{t('calculator.openGrowth')}</Link>
+                        </p>
+                    )}
+                     <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="activity">{t('calculator.activity')}</label>
+                        <select id="activity" name="activity" value={formData.activity} onChange={handleChange}>
+                            {ACTIVITY_LEVELS.map(level => (
+                                <option key={level} value={level}>{t(activityLabels[level])}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary">
+                            {t('calculator.submit')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {result && (
+                <ResultCard title={t('calculator.resultTitle')}>
+                    <CalorieResultView result={result} onSelectTarget={selectTarget} selectedGoal={targetGoal} />
+                    {targetGoal && (
+                        <p className="interaction-note">
+                            <Link to="/diary">{t('calculator.openDiary')}</Link> · <Link to="/meal-plan">{t('calculator.openMealPlan')}</Link>
+                        </p>
+                    )}
+                    {!result.commentary && (
+                        <div className="form-actions">
+                            <button className="btn btn-outline" onClick={requestCommentary} disabled={commentaryLoading}>
+                                {commentaryLoading && <Loader small />}
+                                {t('calculator.commentary')}
+                            </button>
+                        </div>
+                    )}
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default CalorieCalculator;
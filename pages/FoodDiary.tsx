@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    addFoodEntries,
+    createFoodEntry,
+    deleteFoodEntry,
+    findFoodByBarcode,
+    isDateKey,
+    isValidBarcode,
+    loadCalorieTarget,
+    loadDiary,
+    loadMealPhotos,
+    MEAL_TYPES,
+    parseFoodText,
+    shiftDate,
+    sumNutrients,
+    summarizeDays,
+    toDateKey,
+} from '../services/nutrition';
+import type { Nutrients } from '../services/nutrition';
+import type { CalorieTarget, FoodEntry, MealType } from '../services/vault';
+import { getLanguageInfo, MessageKey, useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, VoiceInputButton } from '../components/common';
+import { goalLabels } from '../components/AnalysisView';
+import { MealPhotoLogger } from '../components/MealPhotoLogger';
+import { Link, navigate, useLocation } from '../components/router';
+
+export type DiaryView = 'day' | 'week';
+
+const WEEK_DAYS = 7;
+
+export const mealLabels: Record<MealType, MessageKey> = {
+    breakfast: 'diary.meal.breakfast',
+    lunch: 'diary.meal.lunch',
+    dinner: 'diary.meal.dinner',
+    snack: 'diary.meal.snack',
+};
+
+/** The meal a new entry most likely belongs to, from the time of day. */
+const currentMeal = (): MealType => {
+    const hour = new Date().getHours();
+    if (hour < 11) return 'breakfast';
+    if (hour < 16) return 'lunch';
+    if (hour < 18) return 'snack';
+    return 'dinner';
+};
+
+const formatDay = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${dateKey}T00:00`).toLocaleDateString(getLanguageInfo().speechLang, options);
+
+const formatDifference = (difference: number) => `${difference > 0 ? '+' : difference < 0 ? '−' : '±'}${Math.abs(difference)}`;
+
+const TargetBar = ({ label, value, target, unit }: { label: string; value: number; target: number; unit: 'kcal' | 'g' }) => {
+    const { t } = useTranslation();
+    const over = value > target;
+    return (
+        <div className="diary-target">
+            <div className="diary-target-label">
+                <span>{label}</span>
+                <span>{t(unit === 'kcal' ? 'diary.progressKcal' : 'diary.progressGrams', { value, target })}</span>
+            </div>
+            <div className="diary-bar" role="progressbar" aria-label={label} aria-valuemin={0} aria-valuemax={target} aria-valuenow={value}>
+                <div className={`diary-bar-fill ${over ? 'over' : ''}`} style={{ width: `${Math.min(100, (value / target) * 100)}%` }} />
+            </div>
+        </div>
+    );
+};
+
+const FoodDiary = ({ view = 'day' }: { view?: DiaryView }) => {
+    const { t } = useTranslation();
+    const { searchParams } = useLocation();
+    const today = toDateKey();
+    const dateParam = searchParams.get('date') ?? '';
+    const date = isDateKey(dateParam) ? dateParam : today;
+    const from = view === 'week' ? shiftDate(date, 1 - WEEK_DAYS) : date;
+
+    const [entries, setEntries] = useState<FoodEntry[] | null>(null);
+    const [target, setTarget] = useState<CalorieTarget | null>(null);
+    const [photos, setPhotos] = useState<Record<string, string>>({});
+    const [meal, setMeal] = useState<MealType>(currentMeal);
+    const [foodText, setFoodText] = useState('');
+    const [barcode, setBarcode] = useState('');
+    const [servings, setServings] = useState('1');
+    const [notice, setNotice] = useState('');
+    const [error, setError] = useState('');
+    const [saving, setSaving] = useState(false);
+    // Whether the text box was last filled by voice, which is recorded with the entries.
+    const fromVoiceRef = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setEntries(null);
+        Promise.all([loadDiary(from, date), loadCalorieTarget()])
+            .then(([loaded, loadedTarget]) => {
+                if (cancelled) return;
+                setEntries(loaded);
+                setTarget(loadedTarget ?? null);
+            })
+            .catch(e => {
+                console.error("Failed to load food diary", e);
+                if (!cancelled) setError(t('diary.loadError'));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [from, date]);
+
+    // Photos are only shown on the day view, so the week view does not decrypt them.
+    const photoIds = view === 'day' ? (entries ?? []).map(entry => entry.photoId).filter(Boolean) : [];
+    const missingPhotoIds = photoIds.filter(id => !(id in photos));
+    useEffect(() => {
+        if (missingPhotoIds.length === 0) return;
+        let cancelled = false;
+        loadMealPhotos(missingPhotoIds)
+            .then(loaded => {
+                if (!cancelled) setPhotos(current => ({ ...current, ...loaded }));
+            })
+            .catch(e => console.error("Failed to load meal photos", e));
+        return () => {
+            cancelled = true;
+        };
+    }, [missingPhotoIds.join(',')]);
+
+    // Days that have not happened yet have nothing to log.
+    const goTo = (dateKey: string) => navigate(`${view === 'week' ? '/diary/week' : '/diary'}?date=${dateKey > today ? today : dateKey}`);
+
+    const save = async (added: FoodEntry[]) => {
+        setSaving(true);
+        try {
+            await addFoodEntries(...added);
+            setEntries(current => [...(current ?? []), ...added]);
+            return true;
+        } catch (e) {
+            console.error("Failed to save food diary entries", e);
+            setError(t('diary.saveError'));
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleTextSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        setNotice('');
+        const { matches, unrecognized } = parseFoodText(foodText);
+        if (matches.length === 0) {
+            setError(t('diary.nothingRecognized'));
+            return;
+        }
+        const source = fromVoiceRef.current ? 'voice' : 'text';
+        if (await save(matches.map(match => createFoodEntry(match, meal, date, source)))) {
+            setFoodText(unrecognized.join(', '));
+            fromVoiceRef.current = false;
+            if (unrecognized.length > 0) setNotice(t('diary.unrecognized', { items: unrecognized.join(', ') }));
+        }
+    };
+
+    const barcodeFood = isValidBarcode(barcode) ? findFoodByBarcode(barcode) : undefined;
+    const servingCount = parseFloat(servings);
+
+    const handleBarcodeSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        setNotice('');
+        if (!isValidBarcode(barcode)) {
+            setError(t('diary.barcodeInvalid'));
+            return;
+        }
+        if (!barcodeFood) {
+            setError(t('diary.barcodeUnknown'));
+            return;
+        }
+        const grams = Math.round((servingCount > 0 ? servingCount : 1) * barcodeFood.serving.grams);
+        if (await save([createFoodEntry({ food: barcodeFood, grams }, meal, date, 'barcode')])) {
+            setBarcode('');
+            setServings('1');
+        }
+    };
+
+    const handleDelete = async (entry: FoodEntry) => {
+        setError('');
+        try {
+            await deleteFoodEntry(entry);
+            setEntries(current => current.filter(e => e.id !== entry.id));
+        } catch (e) {
+            console.error("Failed to delete food diary entry", e);
+            setError(t('diary.deleteError'));
+        }
+    };
+
+    const renderTarget = (totals: Nutrients) => {
+        if (!target) {
+            return (
+                <p className="diary-no-target">
+                    {t('diary.noTarget')} <Link to="/calculator">{t('diary.setTarget')}</Link>
+                </p>
+            );
+        }
+        const remaining = target.calories - totals.calories;
+        return (
+            <>
+                <p className="interaction-note">
+                    {t('diary.targetFrom', { goal: t(goalLabels[target.goal]) })} <Link to="/calculator">{t('diary.changeTarget')}</Link>
+                </p>
+                <TargetBar label={t('diary.calories')} value={totals.calories} target={target.calories} unit="kcal" />
+                <TargetBar label={t('calculator.column.protein')} value={totals.proteinG} target={target.proteinG} unit="g" />
+                <TargetBar label={t('calculator.column.carbs')} value={totals.carbsG} target={target.carbsG} unit="g" />
+                <TargetBar label={t('calculator.column.fat')} value={totals.fatG} target={target.fatG} unit="g" />
+                <p className={`diary-remaining ${remaining < 0 ? 'over' : ''}`}>
+                    {t(remaining < 0 ? 'diary.over' : 'diary.remaining', { value: Math.abs(remaining) })}
+                </p>
+            </>
+        );
+    };
+
+    const renderDay = () => (
+        <>
+            <div className="card">
+                <h3>{t('diary.dayTotals')}</h3>
+                {renderTarget(sumNutrients(entries))}
+            </div>
+            <div className="card">
+                <h3>{t('diary.addFood')}</h3>
+                <div className="form-group">
+                    <label htmlFor="meal">{t('diary.meal')}</label>
+                    <select id="meal" value={meal} onChange={e => setMeal(e.target.value as MealType)}>
+                        {MEAL_TYPES.map(type => <option key={type} value={type}>{t(mealLabels[type])}</option>)}
+                    </select>
+                </div>
+                <form onSubmit={handleTextSubmit}>
+                    <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="foodText">{t('diary.whatDidYouEat')}</label>
+                        <input
+                            type="text"
+                            id="foodText"
+                            placeholder={t('diary.foodPlaceholder')}
+                            value={foodText}
+                            onChange={e => {
+                                setFoodText(e.target.value);
+                                fromVoiceRef.current = false;
+                            }}
+                            required
+                        />
+                        <VoiceInputButton onResult={transcript => {
+                            setFoodText(current => (current ? `${current}, ${transcript}` : transcript));
+                            fromVoiceRef.current = true;
+                        }} />
+                    </div>
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary" disabled={saving}>{t('diary.add')}</button>
+                    </div>
+                </form>
+                <form onSubmit={handleBarcodeSubmit} className="diary-barcode">
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="barcode">{t('diary.barcode')}</label>
+                            <input type="text" inputMode="numeric" id="barcode" value={barcode} onChange={e => setBarcode(e.target.value)} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="servings">{t('diary.servings')}</label>
+                            <input type="number" id="servings" min="0.25" step="0.25" value={servings} onChange={e => setServings(e.target.value)} />
+                        </div>
+                    </div>
+                    {barcodeFood && (
+                        <p className="interaction-note">
+                            {t('diary.barcodeFound', {
+                                name: barcodeFood.name,
+                                servings: servingCount > 0 ? servingCount : 1,
+                                unit: barcodeFood.serving.unit,
+                                grams: Math.round((servingCount > 0 ? servingCount : 1) * barcodeFood.serving.grams),
+                            })}
+                        </p>
+                    )}
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-outline" disabled={saving}>{t('diary.addBarcode')}</button>
+                    </div>
+                </form>
+                <div className="diary-barcode">
+                    <h4>{t('diary.photo.title')}</h4>
+                    <p className="interaction-note">{t('diary.photo.hint')}</p>
+                    <MealPhotoLogger meal={meal} date={date} onSave={save} />
+                </div>
+                {notice && <p className="interaction-warning">{notice}</p>}
+            </div>
+            {MEAL_TYPES.map(type => {
+                const logged = entries.filter(entry => entry.meal === type);
+                if (logged.length === 0) return null;
+                const mealPhotos = [...new Set(logged.map(entry => entry.photoId).filter(id => photos[id]))];
+                return (
+                    <div className="card diary-meal" key={type}>
+                        <div className="diary-meal-header">
+                            <h3>{t(mealLabels[type])}</h3>
+                            <span>{t('diary.kcal', { value: sumNutrients(logged).calories })}</span>
+                        </div>
+                        {mealPhotos.length > 0 && (
+                            <div className="diary-photos">
+                                {mealPhotos.map(id => <img key={id} src={photos[id]} alt={t('diary.photo.preview')} />)}
+                            </div>
+                        )}
+                        <ul className="diary-entries">
+                            {logged.map(entry => (
+                                <li key={entry.id}>
+                                    <div>
+                                        <strong>{entry.name}</strong>
+                                        <span className="diary-entry-detail">
+                                            {t('diary.entryDetail', { grams: entry.grams, protein: entry.proteinG, carbs: entry.carbsG, fat: entry.fatG })}
+                                        </span>
+                                    </div>
+                                    <span className="diary-entry-kcal">{t('diary.kcal', { value: entry.calories })}</span>
+                                    <button className="btn btn-outline" onClick={() => handleDelete(entry)} aria-label={t('diary.deleteEntry', { name: entry.name })}>×</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                );
+            })}
+            {entries.length === 0 && <p>{t('diary.empty')}</p>}
+        </>
+    );
+
+    const renderWeek = () => {
+        const days = summarizeDays(entries, date, WEEK_DAYS);
+        const logged = days.filter(day => day.entries > 0);
+        const average = logged.length > 0 ? Math.round(logged.reduce((sum, day) => sum + day.totals.calories, 0) / logged.length) : 0;
+        return (
+            <div className="card">
+                <h3>{t('diary.weekTitle', { from: formatDay(from, { day: 'numeric', month: 'short' }), to: formatDay(date, { day: 'numeric', month: 'short' }) })}</h3>
+                <table className="interaction-table">
+                    <thead>
+                        <tr>
+                            <th>{t('diary.day')}</th>
+                            <th>{t('diary.calories')}</th>
+                            <th>{t('calculator.column.protein')}</th>
+                            <th>{t('calculator.column.carbs')}</th>
+                            <th>{t('calculator.column.fat')}</th>
+                            {target && <th>{t('diary.vsTarget')}</th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {days.map(day => (
+                            <tr key={day.date}>
+                                <td><Link to={`/diary?date=${day.date}`}>{formatDay(day.date, { weekday: 'short', day: 'numeric', month: 'short' })}</Link></td>
+                                {day.entries > 0 ? (
+                                    <>
+                                        <td>{day.totals.calories}</td>
+                                        <td>{t('calculator.grams', { value: day.totals.proteinG })}</td>
+                                        <td>{t('calculator.grams', { value: day.totals.carbsG })}</td>
+                                        <td>{t('calculator.grams', { value: day.totals.fatG })}</td>
+                                        {target && <td className={day.totals.calories > target.calories ? 'diary-over' : ''}>{formatDifference(day.totals.calories - target.calories)}</td>}
+                                    </>
+                                ) : (
+                                    <td colSpan={target ? 5 : 4} className="interaction-note">{t('diary.notLogged')}</td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <dl className="calorie-figures">
+                    <div>
+                        <dt>{t('diary.daysLogged')}</dt>
+                        <dd>{t('diary.daysLoggedValue', { count: logged.length, total: WEEK_DAYS })}</dd>
+                    </div>
+                    <div>
+                        <dt>{t('diary.average')}</dt>
+                        <dd>{t('calculator.kcalPerDay', { value: average })}</dd>
+                    </div>
+                    {target && logged.length > 0 && (
+                        <div>
+                            <dt>{t('diary.averageVsTarget')}</dt>
+                            <dd>{formatDifference(average - target.calories)}</dd>
+                        </div>
+                    )}
+                </dl>
+                {!target && renderTarget(sumNutrients([]))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('diary.title')}</h1>
+                <p>{t('diary.subtitle')}</p>
+            </div>
+            <div className="mode-switch">
+                <Link to={`/diary?date=${date}`} className={view === 'day' ? 'active' : ''}>{t('diary.view.day')}</Link>
+                <Link to={`/diary/week?date=${date}`} className={view === 'week' ? 'active' : ''}>{t('diary.view.week')}</Link>
+            </div>
+            <div className="diary-date-nav">
+                <button className="btn btn-outline" onClick={() => goTo(shiftDate(date, view === 'week' ? -WEEK_DAYS : -1))}>{t('diary.previous')}</button>
+                <input type="date" aria-label={t('diary.date')} value={date} max={today} onChange={e => isDateKey(e.target.value) && goTo(e.target.value)} />
+                <button className="btn btn-outline" onClick={() => goTo(shiftDate(date, view === 'week' ? WEEK_DAYS : 1))} disabled={date >= today}>{t('diary.next')}</button>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {!entries ? (error ? null : <Loader />) : view === 'week' ? renderWeek() : renderDay()}
+        </div>
+    );
+};
+
+export default FoodDiary;
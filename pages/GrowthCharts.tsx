@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { BiologicalSex } from '../services/calories';
+import { ageInMonths, assessGrowth, chartAgeRange, GrowthAssessment, GrowthIndicator, maxAgeMonths } from '../services/growth';
+import { HistoryEntry, loadHistory, saveAnalysis } from '../services/history';
+import { toDateKey } from '../services/nutrition';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage, ResultCard } from '../components/common';
+import { GrowthAssessmentView, growthIndicatorLabels, growthUnits } from '../components/AnalysisView';
+import { GrowthChart, GrowthReading } from '../components/GrowthChart';
+import { Link } from '../components/router';
+
+const parseOptional = (value: string) => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : undefined;
+};
+
+/** A child's measurements of one indicator, oldest first. */
+const readingsFor = (indicator: GrowthIndicator, assessments: GrowthAssessment[]): GrowthReading[] =>
+    assessments
+        .flatMap(({ ageMonths, findings }) =>
+            findings.filter(finding => finding.indicator === indicator).map(finding => ({ ageMonths, value: finding.value })))
+        .sort((a, b) => a.ageMonths - b.ageMonths);
+
+const GrowthCharts = () => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState({
+        gender: 'male' as BiologicalSex,
+        birthDate: '',
+        measuredOn: toDateKey(),
+        weight: '',
+        height: '',
+    });
+    const [assessment, setAssessment] = useState<GrowthAssessment | null>(null);
+    // The charts stay on the sex the result was worked out for while the form is edited.
+    const [assessedSex, setAssessedSex] = useState<BiologicalSex>('male');
+    // Earlier measurements of the same child, recognised by birth date and sex.
+    const [earlier, setEarlier] = useState<GrowthAssessment[]>([]);
+    const [error, setError] = useState('');
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        const { gender, birthDate, measuredOn } = formData;
+        const ageMonths = ageInMonths(birthDate, measuredOn);
+        if (ageMonths < 0) {
+            setError(t('growth.dateOrder'));
+            return;
+        }
+        if (ageMonths > maxAgeMonths('height-for-age', gender)) {
+            setError(t('growth.tooOld'));
+            return;
+        }
+        const weightKg = parseOptional(formData.weight);
+        const heightCm = parseOptional(formData.height);
+        if (!weightKg && !heightCm) {
+            setError(t('growth.valueRequired'));
+            return;
+        }
+        const result = assessGrowth({ sex: gender, ageMonths, weightKg, heightCm });
+        setAssessment(result);
+        setAssessedSex(gender);
+        setEarlier([]);
+        const id = saveAnalysis('growth', { ...formData }, result);
+        try {
+            const history = await loadHistory();
+            const sameChild = (entry: HistoryEntry) =>
+                entry.feature === 'growth' && entry.id !== id && entry.inputs.birthDate === birthDate && entry.inputs.gender === gender
+                // A measurement entered again for the same day replaces the earlier one on the chart.
+                && entry.inputs.measuredOn !== measuredOn;
+            setEarlier(history.filter(sameChild).map(entry => entry.result as GrowthAssessment));
+        } catch (e) {
+            console.error("Failed to load earlier growth measurements", e);
+        }
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('growth.title')}</h1>
+                <p>{t('growth.subtitle')}</p>
+            </div>
+            <div className="card">
+                <form onSubmit={handleSubmit}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="gender">{t('calculator.gender')}</label>
+                            <select id="gender" name="gender" value={formData.gender} onChange={handleChange}>
+                                <option value="male">{t('calculator.male')}</option>
+                                <option value="female">{t('calculator.female')}</option>
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="birthDate">{t('growth.birthDate')}</label>
+                            <input type="date" id="birthDate" name="birthDate" max={toDateKey()} value={formData.birthDate} onChange={handleChange} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="measuredOn">{t('growth.measuredOn')}</label>
+                            <input type="date" id="measuredOn" name="measuredOn" max={toDateKey()} value={formData.measuredOn} onChange={handleChange} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="weight">{t('calculator.weight')}</label>
+                            <input type="number" step="0.01" min="0.5" id="weight" name="weight" value={formData.weight} onChange={handleChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="height">{t('growth.height')}</label>
+                            <input type="number" step="0.1" min="30" id="height" name="height" value={formData.height} onChange={handleChange} />
+                        </div>
+                    </div>
+                    <p className="interaction-note">{t('growth.heightNote')}</p>
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary">{t('growth.submit')}</button>
+                    </div>
+                </form>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {assessment && (
+                <ResultCard title={t('growth.resultTitle')}>
+                    <GrowthAssessmentView assessment={assessment} />
+                    {assessment.findings.map(({ indicator }) => (
+                        <div className="growth-chart" key={indicator}>
+                            <h4 className="analysis-heading">{t(growthIndicatorLabels[indicator])}</h4>
+                            <GrowthChart
+                                indicator={indicator}
+                                sex={assessedSex}
+                                range={chartAgeRange(indicator, assessedSex, assessment.ageMonths)}
+                                readings={readingsFor(indicator, [...earlier, assessment])}
+                                unit={growthUnits[indicator]}
+                                label={t('growth.chartLabel', { indicator: t(growthIndicatorLabels[indicator]) })}
+                            />
+                        </div>
+                    ))}
+                    <p className="interaction-note">{t('growth.legend')}</p>
+                    <p className="interaction-note">
+                        <Link to="/calculator">{t('growth.openCalculator')}</Link>
+                    </p>
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default GrowthCharts;
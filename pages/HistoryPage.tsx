@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import type { ScanResult } from '../services/ai';
+import { deleteHistoryEntry, HISTORY_FEATURES, HistoryEntry, HistoryFeature, isHistoryFeature, loadHistory } from '../services/history';
+import { getLanguageInfo, MessageKey, Translate, useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader } from '../components/common';
+import { AnalysisView } from '../components/AnalysisView';
+import { vitalLabels } from '../components/VitalsFields';
+import { Link, navigate, useLocation } from '../components/router';
+
+const featureLabels: Record<HistoryFeature, MessageKey> = {
+    assistant: 'history.feature.assistant',
+    calculator: 'history.feature.calculator',
+    scanner: 'history.feature.scanner',
+    imaging: 'history.feature.imaging',
+    biometric: 'history.feature.biometric',
+    growth: 'history.feature.growth',
+};
+
+// The inputs worth showing for each feature, in display order. Unit fields such as
+// `temperatureUnit` are shown with their value rather than on their own.
+const inputLabels: Record<HistoryFeature, Record<string, MessageKey>> = {
+    assistant: {
+        age: 'assistant.age',
+        symptoms: 'assistant.symptoms',
+        medications: 'assistant.medications',
+        ...vitalLabels,
+    },
+    calculator: {
+        age: 'calculator.age',
+        gender: 'calculator.gender',
+        weight: 'calculator.weight',
+        height: 'calculator.height',
+        bodyFat: 'calculator.bodyFat',
+        activity: 'calculator.activity',
+        formula: 'calculator.formula',
+    },
+    scanner: {},
+    imaging: {
+        fileName: 'history.fileName',
+    },
+    biometric: {
+        age: 'assistant.age',
+        height: 'calculator.height',
+        ...vitalLabels,
+    },
+    growth: {
+        gender: 'calculator.gender',
+        birthDate: 'growth.birthDate',
+        measuredOn: 'growth.measuredOn',
+        weight: 'calculator.weight',
+        height: 'growth.height',
+    },
+};
+
+const choiceLabels: Record<string, Record<string, MessageKey>> = {
+    gender: { male: 'calculator.male', female: 'calculator.female' },
+    activity: {
+        sedentary: 'calculator.activity.sedentary',
+        light: 'calculator.activity.light',
+        moderate: 'calculator.activity.moderate',
+        active: 'calculator.activity.active',
+        extra: 'calculator.activity.extra',
+    },
+    formula: {
+        mifflin: 'calculator.formula.mifflin',
+        harris: 'calculator.formula.harris',
+        katch: 'calculator.formula.katch',
+        child: 'calculator.formula.child',
+    },
+    glucoseTiming: { fasting: 'vitals.glucose.fasting', random: 'vitals.glucose.random' },
+};
+
+const formatChoice = (field: string, value: string, t: Translate) => {
+    const label = choiceLabels[field]?.[value];
+    return label ? t(label) : value;
+};
+
+const formatInput = (key: string, inputs: Record<string, string>, t: Translate) => {
+    const unit = inputs[`${key}Unit`];
+    const timing = key === 'glucose' && inputs.glucoseTiming ? ` (${formatChoice('glucoseTiming', inputs.glucoseTiming, t)})` : '';
+    return `${formatChoice(key, inputs[key], t)}${unit ? ` ${unit}` : ''}${timing}`;
+};
+
+const describeInputs = ({ feature, inputs }: HistoryEntry, t: Translate): [string, string][] =>
+    Object.entries(inputLabels[feature])
+        .filter(([key]) => inputs[key]?.trim())
+        .map(([key, label]) => [t(label), formatInput(key, inputs, t)]);
+
+/** One line for the list: what the entry was about. */
+const entrySummary = (entry: HistoryEntry, t: Translate) => {
+    switch (entry.feature) {
+        case 'assistant':
+            return entry.inputs.symptoms;
+        case 'scanner': {
+            const scan = entry.result as ScanResult;
+            return scan.medications.join(', ') || scan.extractedText;
+        }
+        case 'imaging':
+            return entry.inputs.fileName;
+        default:
+            return describeInputs(entry, t).map(([label, value]) => `${label}: ${value}`).join(' · ');
+    }
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(getLanguageInfo().speechLang, { dateStyle: 'medium', timeStyle: 'short' });
+
+const EntryDetail = ({ entry, onDelete }: { entry: HistoryEntry; onDelete: (entry: HistoryEntry) => void }) => {
+    const { t } = useTranslation();
+    const inputs = describeInputs(entry, t);
+    return (
+        <div className="card history-entry">
+            <div className="history-entry-header">
+                <span className="history-feature">{t(featureLabels[entry.feature])}</span>
+                <time dateTime={entry.createdAt}>{formatDate(entry.createdAt)}</time>
+            </div>
+            {inputs.length > 0 && (
+                <>
+                    <h4 className="analysis-heading">{t('history.inputs')}</h4>
+                    <dl className="history-inputs">
+                        {inputs.map(([label, value]) => (
+                            <React.Fragment key={label}>
+                                <dt>{label}</dt>
+                                <dd>{value}</dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                </>
+            )}
+            <h4 className="analysis-heading">{t('history.result')}</h4>
+            <AnalysisView feature={entry.feature} result={entry.result} />
+            <div className="form-actions">
+                <button className="btn btn-outline" onClick={() => onDelete(entry)}>{t('history.delete')}</button>
+            </div>
+        </div>
+    );
+};
+
+interface HistoryPageProps {
+    /** Show a single entry (`/history/:id`). */
+    entryId?: string;
+    /** Show the entries in `?ids=` side by side (`/history/compare`). */
+    compare?: boolean;
+}
+
+const HistoryPage = ({ entryId, compare }: HistoryPageProps) => {
+    const { t } = useTranslation();
+    const { searchParams } = useLocation();
+    const featureParam = searchParams.get('feature') ?? '';
+    const featureFilter = isHistoryFeature(featureParam) ? featureParam : null;
+    const compareIds = (searchParams.get('ids') ?? '').split(',').filter(Boolean);
+    const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+    const [selected, setSelected] = useState<string[]>([]);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        loadHistory()
+            .then(loaded => {
+                if (!cancelled) setEntries(loaded);
+            })
+            .catch(e => {
+                console.error("Failed to load history", e);
+                if (!cancelled) setError(t('history.loadError'));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleDelete = async (entry: HistoryEntry) => {
+        if (!window.confirm(t('history.confirmDelete'))) return;
+        setError('');
+        try {
+            await deleteHistoryEntry(entry);
+            setEntries(entries.filter(e => e.id !== entry.id));
+            setSelected(selected.filter(id => id !== entry.id));
+            if (entryId || compare) navigate('/history');
+        } catch (e) {
+            console.error("Failed to delete history entry", e);
+            setError(t('history.deleteError'));
+        }
+    };
+
+    // Only two entries can be compared; picking a third replaces the oldest pick.
+    const toggleSelected = (id: string) => {
+        setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id].slice(-2));
+    };
+
+    const renderContent = () => {
+        if (!entries) return error ? null : <Loader />;
+
+        if (entryId || compare) {
+            const shown = compare
+                ? compareIds.map(id => entries.find(e => e.id === id)).filter(Boolean)
+                : entries.filter(e => e.id === entryId);
+            return (
+                <>
+                    <Link to="/history" className="back-link">{t('history.back')}</Link>
+                    {shown.length === 0 || (compare && shown.length < 2) ? (
+                        <p>{t('history.notFound')}</p>
+                    ) : (
+                        <div className={compare ? 'history-compare' : ''}>
+                            {shown.map(entry => (
+                                <React.Fragment key={entry.id}>
+                                    <EntryDetail entry={entry} onDelete={handleDelete} />
+                                </React.Fragment>
+                            ))}
+                        </div>
+                    )}
+                </>
+            );
+        }
+
+        const visible = featureFilter ? entries.filter(e => e.feature === featureFilter) : entries;
+        return (
+            <>
+                <div className="mode-switch">
+                    <Link to="/history" className={featureFilter ? '' : 'active'}>{t('history.all')}</Link>
+                    {HISTORY_FEATURES.map(feature => (
+                        <React.Fragment key={feature}>
+                            <Link to={`/history?feature=${feature}`} className={featureFilter === feature ? 'active' : ''}>{t(featureLabels[feature])}</Link>
+                        </React.Fragment>
+                    ))}
+                </div>
+                {visible.length === 0 ? (
+                    <p>{t('history.empty')}</p>
+                ) : (
+                    <>
+                        <div className="history-toolbar">
+                            <span>{t('history.compareHint')}</span>
+                            <button
+                                className="btn btn-primary"
+                                disabled={selected.length !== 2}
+                                onClick={() => navigate(`/history/compare?ids=${selected.join(',')}`)}
+                            >
+                                {t('history.compareSelected', { count: selected.length })}
+                            </button>
+                        </div>
+                        <ul className="history-list">
+                            {visible.map(entry => (
+                                <li key={entry.id} className="card history-item">
+                                    <input
+                                        type="checkbox"
+                                        className="history-select"
+                                        aria-label={t('history.compare')}
+                                        checked={selected.includes(entry.id)}
+                                        onChange={() => toggleSelected(entry.id)}
+                                    />
+                                    <div className="history-item-body">
+                                        <div className="history-entry-header">
+                                            <span className="history-feature">{t(featureLabels[entry.feature])}</span>
+                                            <time dateTime={entry.createdAt}>{formatDate(entry.createdAt)}</time>
+                                        </div>
+                                        <Link to={`/history/${entry.id}`} className="history-summary">{entrySummary(entry, t) || t('history.view')}</Link>
+                                    </div>
+                                    <button className="btn btn-outline" onClick={() => handleDelete(entry)}>{t('history.delete')}</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </>
+        );
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t(compare ? 'history.compareTitle' : 'history.title')}</h1>
+                <p>{t('history.subtitle')}</p>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {renderContent()}
+        </div>
+    );
+};
+
+export default HistoryPage;
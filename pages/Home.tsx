@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../services/i18n';
+import { Link } from '../components/router';
+
+const mockArticles = [
+    {
+        id: 1,
+        title: "The Importance of a Balanced Diet",
+        summary: "Discover how a balanced diet with essential nutrients can boost your immune system and overall health.",
+        content: "A balanced diet provides your body with the nutrients it needs to function correctly. To get the nutrition you need, most of your daily calories should come from fresh fruits, fresh vegetables, whole grains, legumes, nuts, and lean proteins. The benefits of a healthy diet include weight loss, reduced cancer risk, diabetes management, and improved heart health and stroke prevention.",
+        image: "https://images.unsplash.com/photo-1540420773420-226c2fdc3806?ixlib=rb-4.0.3&auto=format&fit=crop&w=600&q=60"
+    },
+    {
+        id: 2,
+        title: "Benefits of Regular Exercise",
+        summary: "Learn how regular physical activity can improve your mental and physical health, from reducing stress to strengthening bones.",
+        content: "Regular exercise is one of the most important things you can do for your health. It can help control your weight, reduce your risk of heart diseases, help your body manage blood sugar and insulin levels, improve your mental health and mood, and help keep your thinking, learning, and judgment skills sharp as you age. Aim for at least 30 minutes of moderate physical activity every day.",
+        image: "https://images.unsplash.com/photo-1517836357463-d25dfeac3438?ixlib=rb-4.0.3&auto=format&fit=crop&w=600&q=60"
+    },
+    {
+        id: 3,
+        title: "Understanding Mental Health",
+        summary: "An introduction to mental health, common disorders, and the importance of seeking help when needed.",
+        content: "Mental health includes our emotional, psychological, and social well-being. It affects how we think, feel, and act. It also helps determine how we handle stress, relate to others, and make choices. Mental health is important at every stage of life, from childhood and adolescence through adulthood. It's okay to not be okay, and seeking help is a sign of strength.",
+        image: "https://images.unsplash.com/photo-1579548122213-53d368e72769?ixlib=rb-4.0.3&auto=format&fit=crop&w=600&q=60"
+    }
+];
+
+// Articles are editorial content and are not translated yet.
+const MedicalArticles = () => {
+    const { t } = useTranslation();
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+
+    const toggleArticle = (id: number) => {
+        setExpandedId(expandedId === id ? null : id);
+    };
+
+    return (
+        <section className="articles-section">
+            <h2>{t('home.articles')}</h2>
+            <div className="articles-grid">
+                {mockArticles.map(article => (
+                    <div key={article.id} className={`article-card ${expandedId === article.id ? 'expanded' : ''}`}>
+                        <img src={article.image} alt={article.title} />
+                        <div className="article-content">
+                            <div
+                                className="article-header"
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => toggleArticle(article.id)}
+                                onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && toggleArticle(article.id)}
+                            >
+                                <h3>{article.title}</h3>
+                                <span className="expand-icon">▼</span>
+                            </div>
+                            <p className="article-summary">{article.summary}</p>
+                            <div className="article-full-content">
+                                <p>{article.content}</p>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+const features = [
+    { id: 'assistant', path: '/assistant' },
+    { id: 'calculator', path: '/calculator' },
+    { id: 'scanner', path: '/scanner' },
+    { id: 'imaging', path: '/imaging' },
+    { id: 'biometric', path: '/biometric' },
+    { id: 'hospitals', path: '/hospitals' },
+    { id: 'delivery', path: '/delivery' },
+    { id: 'profile', path: '/profile/reminders' },
+] as const;
+
+const Home = () => {
+    const { t } = useTranslation();
+    return (
+        <>
+            <div className="hero-section">
+                <h1>{t('home.title')}</h1>
+                <p>{t('home.intro')}</p>
+                <div className="features-grid">
+                    {features.map(({ id, path }) => (
+                        <div key={id} className="feature-card">
+                            <h3>{t(`home.${id}.title`)}</h3>
+                            <p>{t(`home.${id}.description`)}</p>
+                            <Link to={path} className="btn btn-primary">{t(`home.${id}.action`)}</Link>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <MedicalArticles />
+        </>
+    );
+};
+
+export default Home;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { login, logout, register, requestPasswordReset, resetPassword, Session, User } from '../services/auth';
+import { rekeyVault, resetVault, VaultPasswordError } from '../services/vault';
+import { MessageKey, useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, Logo } from '../components/common';
+import { LanguagePicker } from '../components/LanguagePicker';
+
+type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'unlock' | 'recover';
+
+const authCopy: Record<AuthMode, { subtitle: MessageKey; submit: MessageKey }> = {
+    login: { subtitle: 'login.login.subtitle', submit: 'login.login.submit' },
+    register: { subtitle: 'login.register.subtitle', submit: 'login.register.submit' },
+    forgot: { subtitle: 'login.forgot.subtitle', submit: 'login.forgot.submit' },
+    reset: { subtitle: 'login.reset.subtitle', submit: 'login.reset.submit' },
+    unlock: { subtitle: 'login.unlock.subtitle', submit: 'login.unlock.submit' },
+    recover: { subtitle: 'login.recover.subtitle', submit: 'login.recover.submit' },
+};
+
+interface LoginPageProps {
+    /** Rejects with `VaultPasswordError` when the password does not unlock the on-device records. */
+    onLogin: (session: Session, password: string) => Promise<void>;
+    onSignOut: () => void;
+    /** Set when a session was restored but the health vault still needs the password. */
+    lockedUser?: User | null;
+}
+
+const LoginPage = ({ onLogin, onSignOut, lockedUser }: LoginPageProps) => {
+    const { t } = useTranslation();
+    const [mode, setMode] = useState<AuthMode>(lockedUser ? 'unlock' : 'login');
+    const [username, setUsername] = useState(lockedUser?.username ?? '');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [resetCode, setResetCode] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+    // A signed-in session whose vault was locked with an older password, kept while
+    // the user recovers or resets their on-device records.
+    const [pendingSignIn, setPendingSignIn] = useState<{ session: Session; password: string } | null>(null);
+
+    const switchMode = (next: AuthMode) => {
+        setMode(next);
+        setPassword('');
+        setConfirmPassword('');
+        setError('');
+        setNotice('');
+    };
+
+    const signIn = async (session: Session, signInPassword: string) => {
+        try {
+            await onLogin(session, signInPassword);
+        } catch (err) {
+            if (!(err instanceof VaultPasswordError)) throw err;
+            setPendingSignIn({ session, password: signInPassword });
+            switchMode('recover');
+        }
+    };
+
+    const handleStartOver = async () => {
+        if (!pendingSignIn) return;
+        if (!window.confirm(t('login.confirmStartOver'))) return;
+        setError('');
+        setLoading(true);
+        try {
+            await resetVault(pendingSignIn.session.user);
+            await signIn(pendingSignIn.session, pendingSignIn.password);
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('common.unknownError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSignOut = () => {
+        onSignOut();
+        setPendingSignIn(null);
+        setUsername('');
+        switchMode('login');
+    };
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+        if ((mode === 'register' || mode === 'reset') && password !== confirmPassword) {
+            setError(t('login.passwordsMismatch'));
+            return;
+        }
+        setLoading(true);
+        try {
+            switch (mode) {
+                case 'login':
+                    await signIn(await login(username.trim(), password), password);
+                    break;
+                case 'unlock': {
+                    // Signing in again checks the password on the server. The restored session
+                    // is then ended, so it does not stay valid alongside the new one.
+                    const session = await login(username.trim(), password);
+                    await logout().catch(e => console.error("Failed to end the restored session", e));
+                    await signIn(session, password);
+                    break;
+                }
+                case 'register':
+                    await signIn(await register(username.trim(), password), password);
+                    break;
+                case 'recover':
+                    if (!pendingSignIn) break;
+                    await rekeyVault(pendingSignIn.session.user, password, pendingSignIn.password);
+                    await signIn(pendingSignIn.session, pendingSignIn.password);
+                    break;
+                case 'forgot': {
+                    const message = await requestPasswordReset(username.trim());
+                    switchMode('reset');
+                    setNotice(message);
+                    break;
+                }
+                case 'reset':
+                    await resetPassword(resetCode.trim(), password);
+                    switchMode('login');
+                    setNotice(t('login.resetDone'));
+                    break;
+            }
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('common.unknownError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const isNewPassword = mode === 'register' || mode === 'reset';
+    const passwordLabel = t(mode === 'reset' ? 'login.newPassword' : mode === 'recover' ? 'login.previousPassword' : 'login.password');
+
+    return (
+        <div className="login-container">
+            <div className="login-card">
+                <LanguagePicker />
+                <Logo />
+                <h2>{mode === 'unlock' ? t('login.welcomeBack', { name: username }) : t('login.title')}</h2>
+                <p>{t(authCopy[mode].subtitle)}</p>
+                {notice && <div className="auth-notice">{notice}</div>}
+                {error && <ErrorMessage message={error} />}
+                <form onSubmit={handleSubmit}>
+                    {(mode === 'login' || mode === 'register' || mode === 'forgot') && (
+                        <div className="form-group">
+                            <label htmlFor="username">{t('login.username')}</label>
+                            <input type="text" id="username" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} required />
+                        </div>
+                    )}
+                    {mode === 'reset' && (
+                        <div className="form-group">
+                            <label htmlFor="resetCode">{t('login.resetCode')}</label>
+                            <input type="text" id="resetCode" value={resetCode} onChange={e => setResetCode(e.target.value)} required />
+                        </div>
+                    )}
+                    {mode !== 'forgot' && (
+                        <div className="form-group">
+                            <label htmlFor="password">{passwordLabel}</label>
+                            <input type="password" id="password" autoComplete={isNewPassword ? 'new-password' : 'current-password'} minLength={isNewPassword ? 8 : undefined} value={password} onChange={e => setPassword(e.target.value)} required />
+                        </div>
+                    )}
+                    {(mode === 'register' || mode === 'reset') && (
+                        <div className="form-group">
+                            <label htmlFor="confirmPassword">{t('login.confirmPassword')}</label>
+                            <input type="password" id="confirmPassword" autoComplete="new-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required />
+                        </div>
+                    )}
+                     <div className="form-actions" style={{ justifyContent: 'center' }}>
+                        <button type="submit" className="btn btn-primary" disabled={loading}>
+                            {loading && <Loader small />}
+                            {t(authCopy[mode].submit)}
+                        </button>
+                    </div>
+                </form>
+                <div className="auth-links">
+                    {mode === 'login' ? (
+                        <>
+                            <button type="button" onClick={() => switchMode('register')}>{t('login.createAccount')}</button>
+                            <button type="button" onClick={() => switchMode('forgot')}>{t('login.forgotPassword')}</button>
+                        </>
+                    ) : mode === 'unlock' || mode === 'recover' ? (
+                        <>
+                            {mode === 'recover' && <button type="button" onClick={handleStartOver} disabled={loading}>{t('login.startOver')}</button>}
+                            <button type="button" onClick={handleSignOut}>{t('login.signOut')}</button>
+                        </>
+                    ) : (
+                        <>
+                            {mode === 'forgot' && <button type="button" onClick={() => switchMode('reset')}>{t('login.haveResetCode')}</button>}
+                            <button type="button" onClick={() => switchMode('login')}>{t('login.backToSignIn')}</button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LoginPage;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { DIET_PREFERENCES, DietPreference, generateMealPlan, MealPlan, shoppingList } from '../services/mealPlan';
+import { FoodComponent, loadCalorieTarget, toDateKey } from '../services/nutrition';
+import { loadMedicationNames, splitMedicationList } from '../services/interactions';
+import { getVault } from '../services/vault';
+import type { CalorieTarget } from '../services/vault';
+import { getLanguageInfo, MessageKey, useTranslation } from '../services/i18n';
+import { ErrorMessage, ResultCard } from '../components/common';
+import { drugLabel, effectLabels, severityLabels } from '../components/InteractionTable';
+import { Link } from '../components/router';
+import { mealLabels } from './FoodDiary';
+
+const preferenceLabels: Record<DietPreference, MessageKey> = {
+    vegetarian: 'mealPlan.preference.vegetarian',
+    jain: 'mealPlan.preference.jain',
+    diabetic: 'mealPlan.preference.diabetic',
+    'low-sodium': 'mealPlan.preference.lowSodium',
+};
+
+const componentLabels: Record<FoodComponent, MessageKey> = {
+    'meat': 'mealPlan.component.meat',
+    'fish': 'mealPlan.component.fish',
+    'egg': 'mealPlan.component.egg',
+    'dairy': 'mealPlan.component.dairy',
+    'wheat': 'mealPlan.component.wheat',
+    'peanut': 'mealPlan.component.peanut',
+    'tree-nut': 'mealPlan.component.treeNut',
+    'onion-garlic': 'mealPlan.component.onionGarlic',
+    'root-vegetable': 'mealPlan.component.rootVegetable',
+    'added-sugar': 'mealPlan.component.addedSugar',
+    'high-sodium': 'mealPlan.component.highSodium',
+    'vitamin-k': 'mealPlan.component.vitaminK',
+    'potassium': 'mealPlan.component.potassium',
+    'grapefruit': 'mealPlan.component.grapefruit',
+};
+
+// Conditions in the profile that suggest a preference, which the user can still untick.
+const CONDITION_PREFERENCES: [RegExp, DietPreference][] = [
+    [/diabet|sugar/i, 'diabetic'],
+    [/hypertension|blood pressure|\bbp\b/i, 'low-sodium'],
+];
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const formatDay = (dateKey: string) =>
+    new Date(`${dateKey}T00:00`).toLocaleDateString(getLanguageInfo().speechLang, { weekday: 'long', day: 'numeric', month: 'short' });
+
+const downloadText = (filename: string, text: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const MealPlanner = () => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState({ calories: '', allergies: '', medications: '' });
+    const [preferences, setPreferences] = useState<DietPreference[]>([]);
+    const [target, setTarget] = useState<CalorieTarget | null>(null);
+    const [plan, setPlan] = useState<MealPlan | null>(null);
+    const [variant, setVariant] = useState(0);
+    const [error, setError] = useState('');
+
+    // Start from the daily target, the profile and the medication list, all still editable.
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([loadCalorieTarget(), getVault().getProfile(), loadMedicationNames()])
+            .then(([loadedTarget, profile, medications]) => {
+                if (cancelled) return;
+                setTarget(loadedTarget ?? null);
+                setFormData(prev => ({
+                    calories: prev.calories || (loadedTarget?.calories.toString() ?? ''),
+                    allergies: prev.allergies || profile.allergies.join(', '),
+                    medications: prev.medications || [...new Set(medications)].join(', '),
+                }));
+                setPreferences(prev => [...new Set([
+                    ...prev,
+                    ...CONDITION_PREFERENCES
+                        .filter(([pattern]) => profile.conditions.some(condition => pattern.test(condition)))
+                        .map(([, preference]) => preference),
+                ])]);
+            })
+            .catch(e => console.error("Failed to load meal plan inputs", e));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+
+    const togglePreference = (preference: DietPreference) =>
+        setPreferences(current => (current.includes(preference) ? current.filter(p => p !== preference) : [...current, preference]));
+
+    const createPlan = (nextVariant: number) => {
+        setError('');
+        const calories = parseFloat(formData.calories);
+        if (!(calories > 0)) {
+            setError(t('mealPlan.caloriesRequired'));
+            return;
+        }
+        setVariant(nextVariant);
+        setPlan(generateMealPlan({
+            calories,
+            preferences,
+            allergies: splitList(formData.allergies),
+            medications: splitMedicationList(formData.medications),
+            start: toDateKey(),
+            variant: nextVariant,
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        createPlan(0);
+    };
+
+    const calorieTarget = parseFloat(formData.calories);
+    const items = plan ? shoppingList(plan) : [];
+
+    const downloadShoppingList = () => {
+        const lines = items.map(({ food, servings, grams }) =>
+            `- ${t('mealPlan.item', { name: food.name, servings, unit: food.serving.unit, grams })}`);
+        const from = formatDay(plan.days[0].date);
+        const to = formatDay(plan.days[plan.days.length - 1].date);
+        const text = [t('mealPlan.shoppingTitle'), t('diary.weekTitle', { from, to }), '', ...lines, '', t('mealPlan.shoppingNote')].join('\n');
+        downloadText(`shopping-list-${plan.days[0].date}.txt`, text);
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('mealPlan.title')}</h1>
+                <p>{t('mealPlan.subtitle')}</p>
+            </div>
+            <div className="card">
+                <form onSubmit={handleSubmit}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="calories">{t('mealPlan.calories')}</label>
+                            <input type="number" id="calories" name="calories" min="800" value={formData.calories} onChange={handleChange} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="allergies">{t('mealPlan.allergies')}</label>
+                            <input type="text" id="allergies" name="allergies" placeholder={t('mealPlan.allergiesPlaceholder')} value={formData.allergies} onChange={handleChange} />
+                        </div>
+                    </div>
+                    {target ? (
+                        <p className="interaction-note">
+                            {t('mealPlan.targetFrom', { calories: target.calories })} <Link to="/calculator">{t('diary.changeTarget')}</Link>
+                        </p>
+                    ) : (
+                        <p className="interaction-note">
+                            {t('diary.noTarget')} <Link to="/calculator">{t('diary.setTarget')}</Link>
+                        </p>
+                    )}
+                    <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="medications">{t('mealPlan.medications')}</label>
+                        <input type="text" id="medications" name="medications" placeholder={t('mealPlan.medicationsPlaceholder')} value={formData.medications} onChange={handleChange} />
+                    </div>
+                    <fieldset className="meal-plan-preferences">
+                        <legend>{t('mealPlan.preferences')}</legend>
+                        {DIET_PREFERENCES.map(preference => (
+                            <label key={preference}>
+                                <input type="checkbox" checked={preferences.includes(preference)} onChange={() => togglePreference(preference)} />
+                                {t(preferenceLabels[preference])}
+                            </label>
+                        ))}
+                    </fieldset>
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary">{t('mealPlan.submit')}</button>
+                    </div>
+                </form>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {plan && (
+                <ResultCard title={t('mealPlan.resultTitle')}>
+                    {plan.foodInteractions.length > 0 && (
+                        <>
+                            <h3>{t('mealPlan.interactionsTitle')}</h3>
+                            <table className="interaction-table">
+                                <thead>
+                                    <tr>
+                                        <th>{t('mealPlan.column.medicine')}</th>
+                                        <th>{t('mealPlan.column.food')}</th>
+                                        <th>{t('interactions.column.severity')}</th>
+                                        <th>{t('interactions.column.effect')}</th>
+                                        <th>{t('mealPlan.column.inPlan')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {plan.foodInteractions.map(({ drug, rule }, i) => (
+                                        <tr key={i}>
+                                            <td>{drugLabel(drug)}</td>
+                                            <td>{t(componentLabels[rule.component])}</td>
+                                            <td><span className={`severity-tag severity-${rule.severity}`}>{t(severityLabels[rule.severity])}</span></td>
+                                            <td>{t(effectLabels[rule.effect])}</td>
+                                            <td>{t(rule.advice === 'avoid' ? 'mealPlan.advice.avoid' : 'mealPlan.advice.separate')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="interaction-note">{t('interactions.reference')}</p>
+                        </>
+                    )}
+                    {plan.unplanned.length > 0 && (
+                        <p className="interaction-warning">
+                            {t('mealPlan.unplanned', { meals: plan.unplanned.map(meal => t(mealLabels[meal])).join(', ') })}
+                        </p>
+                    )}
+                    {plan.days.map(day => (
+                        <div className="meal-plan-day" key={day.date}>
+                            <div className="diary-meal-header">
+                                <h3>{formatDay(day.date)}</h3>
+                                <span>{t('diary.progressKcal', { value: day.totals.calories, target: calorieTarget })}</span>
+                            </div>
+                            <p className="diary-entry-detail">
+                                {t('mealPlan.dayMacros', { protein: day.totals.proteinG, carbs: day.totals.carbsG, fat: day.totals.fatG })}
+                            </p>
+                            {day.meals.map(meal => (
+                                <div className="meal-plan-meal" key={meal.meal}>
+                                    <h4>{t(mealLabels[meal.meal])} · {t('diary.kcal', { value: meal.totals.calories })}</h4>
+                                    <ul>
+                                        {meal.items.map(item => (
+                                            <li key={item.food.id}>
+                                                {t('mealPlan.item', { name: item.food.name, servings: item.servings, unit: item.food.serving.unit, grams: item.grams })}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                    <div className="meal-plan-shopping">
+                        <h3>{t('mealPlan.shoppingTitle')}</h3>
+                        <ul>
+                            {items.map(({ food, servings, grams }) => (
+                                <li key={food.id}>{t('mealPlan.item', { name: food.name, servings, unit: food.serving.unit, grams })}</li>
+                            ))}
+                        </ul>
+                        <p className="interaction-note">{t('mealPlan.shoppingNote')}</p>
+                    </div>
+                    <div className="form-actions">
+                        <button type="button" className="btn btn-outline" onClick={() => createPlan(variant + 1)}>{t('mealPlan.another')}</button>
+                        <button type="button" className="btn btn-primary" onClick={downloadShoppingList}>{t('mealPlan.download')}</button>
+                    </div>
+                    <p className="interaction-note">{t('mealPlan.disclaimer')}</p>
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default MealPlanner;
@@ -0,0 +1,165 @@
+import React, { useState, useCallback } from 'react';
+import { generateStructured, SymptomAnalysis } from '../services/ai';
+import { saveAnalysis } from '../services/history';
+import { evaluateRedFlags, parseVital, recordRedFlags, RedFlagRule } from '../services/triage';
+import { checkInteractions, InteractionCheck, splitMedicationList } from '../services/interactions';
+import { emptyVitalsInput, recordVitals, toVitals } from '../services/vitals';
+import { Translate, useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, ResultCard, VoiceInputButton } from '../components/common';
+import { EmergencyBanner } from '../components/EmergencyBanner';
+import { InteractionTable } from '../components/InteractionTable';
+import { SymptomAnalysisView, urgencyLabels } from '../components/AnalysisView';
+import { SymptomInterview, SymptomReport } from '../components/SymptomInterview';
+import { VitalsFields } from '../components/VitalsFields';
+import { Link } from '../components/router';
+
+export type AssistantMode = 'form' | 'interview';
+
+/** Plain-text version of the analysis for text-to-speech. */
+const toSpeechText = (analysis: SymptomAnalysis, t: Translate) => [
+    analysis.summary.replace(/[*_`#]/g, ''),
+    t('assistant.urgency', { level: t(urgencyLabels[analysis.urgency]) }),
+    ...analysis.potentialInteractions.map(i => `${i.medications.join(' and ')}: ${i.description}`),
+    ...analysis.concerns,
+    ...analysis.wellnessSuggestions,
+].join(' ');
+
+const MedicalAssistant = ({ mode = 'form' }: { mode?: AssistantMode }) => {
+    const { t } = useTranslation();
+    const [formData, setFormData] = useState<SymptomReport>({
+        ...emptyVitalsInput(),
+        age: '',
+        symptoms: '',
+        medications: ''
+    });
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState<SymptomAnalysis | null>(null);
+    const [error, setError] = useState('');
+    const [redFlags, setRedFlags] = useState<RedFlagRule[]>([]);
+    const [interactionCheck, setInteractionCheck] = useState<InteractionCheck | null>(null);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+    };
+    
+    const handleVoiceResult = useCallback((transcript: string) => {
+        setFormData(prev => ({ ...prev, symptoms: transcript }));
+    }, []);
+
+    const runAnalysis = async (inputs: SymptomReport) => {
+        setLoading(true);
+        setResult(null);
+        setError('');
+        try {
+            const { data } = await generateStructured('assistant', {
+                age: inputs.age,
+                symptoms: inputs.symptoms,
+                medications: inputs.medications,
+                vitals: toVitals(inputs),
+            });
+            setResult(data);
+            saveAnalysis('assistant', inputs, data);
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('common.unknownError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Red flags are checked locally first; on a match the emergency banner replaces the
+    // AI call unless the user explicitly chooses to continue. Flags the interview already
+    // showed and the user continued past are not raised again.
+    const submit = (inputs: SymptomReport, acknowledgedFlags: string[] = []) => {
+        const medications = splitMedicationList(inputs.medications);
+        setInteractionCheck(medications.length > 0 ? checkInteractions(medications) : null);
+        const vitals = toVitals(inputs);
+        recordVitals('assistant', vitals, parseVital(inputs.age));
+        const flags = evaluateRedFlags({
+            text: inputs.symptoms,
+            temperature: vitals.temperature,
+            age: parseVital(inputs.age),
+        }).filter(rule => !acknowledgedFlags.includes(rule.id));
+        setRedFlags(flags);
+        if (flags.length > 0) {
+            setResult(null);
+            setError('');
+            recordRedFlags('assistant', flags);
+            return;
+        }
+        runAnalysis(inputs);
+    };
+
+    const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        submit(formData);
+    };
+
+    const handleInterviewComplete = (report: SymptomReport, acknowledgedFlags: string[]) => {
+        setFormData(report);
+        submit(report, acknowledgedFlags);
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('assistant.title')}</h1>
+                <p>{t('assistant.subtitle')}</p>
+            </div>
+            <div className="mode-switch">
+                <Link to="/assistant" className={mode === 'form' ? 'active' : ''}>{t('assistant.mode.form')}</Link>
+                <Link to="/assistant/interview" className={mode === 'interview' ? 'active' : ''}>{t('assistant.mode.interview')}</Link>
+            </div>
+            {mode === 'interview' ? (
+                <SymptomInterview loading={loading} onComplete={handleInterviewComplete} />
+            ) : (
+                <div className="card">
+                    <form onSubmit={handleSubmit}>
+                        <div className="form-group">
+                            <label htmlFor="age">{t('assistant.age')}</label>
+                            <input type="number" id="age" name="age" value={formData.age} onChange={handleChange} required />
+                        </div>
+                        <VitalsFields value={formData} onChange={vitals => setFormData({ ...formData, ...vitals })} age={parseVital(formData.age)} />
+                        <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                            <label htmlFor="symptoms">{t('assistant.symptoms')}</label>
+                            <textarea id="symptoms" name="symptoms" value={formData.symptoms} onChange={handleChange} required></textarea>
+                             <VoiceInputButton onResult={handleVoiceResult} />
+                        </div>
+                        <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                            <label htmlFor="medications">{t('assistant.medications')}</label>
+                            <input type="text" id="medications" name="medications" value={formData.medications} onChange={handleChange} />
+                        </div>
+                        <div className="form-actions">
+                            <button type="submit" className="btn btn-primary" disabled={loading}>
+                                {loading && <Loader small />}
+                                {t('assistant.submit')}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+            {redFlags.length > 0 && <EmergencyBanner rules={redFlags} onContinue={loading || result ? undefined : () => runAnalysis(formData)} />}
+            {interactionCheck && (
+                <div className="card" style={{ marginTop: '2rem' }}>
+                    <h3>{t('interactions.title')}</h3>
+                    {interactionCheck.findings.length > 0 ? (
+                        <InteractionTable findings={interactionCheck.findings} />
+                    ) : (
+                        <p>{t('interactions.none')}</p>
+                    )}
+                    {interactionCheck.unrecognized.length > 0 && (
+                        <p className="interaction-note">{t('interactions.unrecognized', { names: interactionCheck.unrecognized.join(', ') })}</p>
+                    )}
+                    <p className="interaction-note">{t('interactions.reference')}</p>
+                </div>
+            )}
+            {error && <ErrorMessage message={error} />}
+            {result && (
+                <ResultCard title={t('assistant.resultTitle')} disclaimer speakText={toSpeechText(result, t)}>
+                    <SymptomAnalysisView analysis={result} />
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default MedicalAssistant;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { generateStructured, AnalysisResult } from '../services/ai';
+import { saveAnalysis } from '../services/history';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, ResultCard } from '../components/common';
+import { MarkdownRenderer } from '../components/MarkdownRenderer';
+
+const ThreeCanvas = ({ fractureCoords }: { fractureCoords?: [number, number, number] }) => {
+    const mountRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!mountRef.current) return;
+
+        // Scene setup
+        const scene = new THREE.Scene();
+        scene.background = new THREE.Color(0xf0f0f0);
+        const camera = new THREE.PerspectiveCamera(75, mountRef.current.clientWidth / mountRef.current.clientHeight, 0.1, 1000);
+        const renderer = new THREE.WebGLRenderer({ antialias: true });
+        renderer.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
+        mountRef.current.innerHTML = ''; // Clear previous renders
+        mountRef.current.appendChild(renderer.domElement);
+
+        // Lighting
+        const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
+        scene.add(ambientLight);
+        const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+        directionalLight.position.set(5, 10, 7.5);
+        scene.add(directionalLight);
+
+        // Skeleton materials
+        const boneMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff });
+        const jointMaterial = new THREE.MeshStandardMaterial({ color: 0xe0e0e0 });
+
+        // Create skeleton parts
+        const skeleton = new THREE.Group();
+        const createLimb = (length: number) => {
+            const group = new THREE.Group();
+            const bone = new THREE.Mesh(new THREE.CylinderGeometry(0.2, 0.2, length, 8), boneMaterial);
+            const joint1 = new THREE.Mesh(new THREE.SphereGeometry(0.3), jointMaterial);
+            const joint2 = new THREE.Mesh(new THREE.SphereGeometry(0.3), jointMaterial);
+            joint1.position.y = length / 2;
+            joint2.position.y = -length / 2;
+            group.add(bone, joint1, joint2);
+            return group;
+        };
+
+        const torso = new THREE.Mesh(new THREE.CylinderGeometry(1, 1, 3.5, 8), boneMaterial);
+        torso.position.y = 2.75;
+        const head = new THREE.Mesh(new THREE.SphereGeometry(1), boneMaterial);
+        head.position.y = 5.5;
+
+        const leftArm = createLimb(2.5); leftArm.position.set(-1.5, 3.5, 0);
+        const rightArm = createLimb(2.5); rightArm.position.set(1.5, 3.5, 0);
+        const leftLeg = createLimb(3); leftLeg.position.set(-0.6, -0.5, 0);
+        const rightLeg = createLimb(3); rightLeg.position.set(0.6, -0.5, 0);
+        
+        skeleton.add(torso, head, leftArm, rightArm, leftLeg, rightLeg);
+        scene.add(skeleton);
+
+        // Add fracture marker
+        if (fractureCoords) {
+            const fractureMaterial = new THREE.MeshBasicMaterial({ color: 0xff0000 });
+            const fractureSphere = new THREE.Mesh(new THREE.SphereGeometry(0.4), fractureMaterial);
+            fractureSphere.position.set(...fractureCoords);
+            // Add a simple glow effect
+            const glowMaterial = new THREE.SpriteMaterial({
+                map: new THREE.CanvasTexture(generateGlowTexture()),
+                color: 0xff0000, transparent: true, blending: THREE.AdditiveBlending
+            });
+            const glowSprite = new THREE.Sprite(glowMaterial);
+            glowSprite.scale.set(3, 3, 3);
+            fractureSphere.add(glowSprite);
+            scene.add(fractureSphere);
+        }
+
+        camera.position.z = 12;
+
+        // Mouse controls
+        let isDragging = false;
+        let previousMousePosition = { x: 0, y: 0 };
+        
+        const onMouseDown = (e: MouseEvent) => { isDragging = true; previousMousePosition = { x: e.offsetX, y: e.offsetY }; };
+        const onMouseUp = () => { isDragging = false; };
+        const onMouseMove = (e: MouseEvent) => {
+            if (!isDragging) return;
+            const deltaMove = {
+                x: e.offsetX - previousMousePosition.x,
+                y: e.offsetY - previousMousePosition.y
+            };
+            skeleton.rotation.y += deltaMove.x * 0.01;
+            skeleton.rotation.x += deltaMove.y * 0.01;
+            previousMousePosition = { x: e.offsetX, y: e.offsetY };
+        };
+        const currentMount = mountRef.current;
+        currentMount.addEventListener('mousedown', onMouseDown);
+        currentMount.addEventListener('mouseup', onMouseUp);
+        currentMount.addEventListener('mousemove', onMouseMove);
+        
+        // Animation loop
+        const animate = () => {
+            requestAnimationFrame(animate);
+            renderer.render(scene, camera);
+        };
+        animate();
+
+        // Cleanup
+        return () => {
+            if (currentMount) {
+                currentMount.removeEventListener('mousedown', onMouseDown);
+                currentMount.removeEventListener('mouseup', onMouseUp);
+                currentMount.removeEventListener('mousemove', onMouseMove);
+            }
+        };
+    }, [fractureCoords]);
+    
+    // Helper for glow effect
+    function generateGlowTexture() {
+        const canvas = document.createElement('canvas');
+        canvas.width = 128;
+        canvas.height = 128;
+        const context = canvas.getContext('2d');
+        if(!context) return canvas;
+        const gradient = context.createRadialGradient(64, 64, 0, 64, 64, 64);
+        gradient.addColorStop(0, 'rgba(255,255,255,1)');
+        gradient.addColorStop(1, 'rgba(255,255,255,0)');
+        context.fillStyle = gradient;
+        context.fillRect(0, 0, 128, 128);
+        return canvas;
+    }
+
+    return <div ref={mountRef} className="canvas-wrapper" />;
+};
+
+const MedicalImagingAnalyzer = () => {
+    const { t } = useTranslation();
+    const [file, setFile] = useState<File | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [result, setResult] = useState<AnalysisResult | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selectedFile = e.target.files?.[0];
+        if (selectedFile) {
+            setFile(selectedFile);
+            handleAnalysis(selectedFile);
+        }
+    };
+
+    const handleAnalysis = async (fileToAnalyze: File) => {
+        setLoading(true);
+        setError('');
+        setResult(null);
+
+        const fileExtension = fileToAnalyze.name.split('.').pop()?.toLowerCase();
+
+        try {
+            if (['png', 'jpg', 'jpeg'].includes(fileExtension || '')) {
+                // Simulate image analysis
+                await new Promise(resolve => setTimeout(resolve, 2000));
+                setResult({
+                    diagnosis: "Simple fracture of the tibia (shinbone).",
+                    recovery_timeline: "6-8 weeks in a cast, followed by physical therapy.",
+                    fracture_coordinates: [0.6, -1.0, 0] // Coordinates on the right leg
+                });
+            } else if (['txt', 'pdf'].includes(fileExtension || '')) {
+                const textContent = await fileToAnalyze.text();
+                const { data } = await generateStructured('imaging', { report: textContent });
+                setResult(data);
+                saveAnalysis('imaging', { fileName: fileToAnalyze.name }, data);
+            } else {
+                throw new Error(t('imaging.unsupported'));
+            }
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('imaging.error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('imaging.title')}</h1>
+                <p>{t('imaging.subtitle')}</p>
+            </div>
+            <div className="card">
+                <input type="file" accept=".png,.jpg,.jpeg,.txt,.pdf" ref={fileInputRef} onChange={handleFileChange} style={{ display: 'none' }} />
+                <div className="file-upload-area" onClick={() => fileInputRef.current?.click()} role="button" tabIndex={0}>
+                    <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                        <polyline points="17 8 12 3 7 8" />
+                        <line x1="12" y1="3" x2="12" y2="15" />
+                    </svg>
+                    <p>{t('imaging.upload')}</p>
+                    <span>{t('imaging.formats')}</span>
+                </div>
+            </div>
+            {loading && <Loader />}
+            {error && <ErrorMessage message={error} />}
+            {result && (
+                <ResultCard title={t('imaging.resultTitle')} disclaimer speakText={t('imaging.speakText', { diagnosis: result.diagnosis, recovery: result.recovery_timeline })}>
+                    <h4>{t('imaging.diagnosis')}</h4>
+                    <MarkdownRenderer text={result.diagnosis} />
+                    <h4>{t('imaging.recovery')}</h4>
+                    <MarkdownRenderer text={result.recovery_timeline} />
+                    {result.fracture_coordinates && (
+                        <>
+                            <h4 style={{ marginTop: '1.5rem' }}>{t('imaging.visualization')}</h4>
+                            <ThreeCanvas fractureCoords={result.fracture_coordinates} />
+                        </>
+                    )}
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default MedicalImagingAnalyzer;
@@ -0,0 +1,128 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import { generateContent, orderPrompt } from '../services/ai';
+import { useTranslation } from '../services/i18n';
+import { findConflicts, InteractionFinding, loadMedicationNames, splitMedicationList } from '../services/interactions';
+import { medicationName, normalizeMedication } from '../services/drugs';
+import { redactField, Redaction, redactText, rehydrate, useKnownNames } from '../services/redaction';
+import { ErrorMessage, Loader, ResultCard, VoiceInputButton } from '../components/common';
+import { MarkdownRenderer } from '../components/MarkdownRenderer';
+import { OutboundPreview } from '../components/OutboundPreview';
+import { InteractionWarning } from '../components/InteractionTable';
+import { DrugMatchTable } from '../components/DrugMatches';
+import { useLocation } from '../components/router';
+
+/**
+ * The order with the address and any personal details in the medication list redacted.
+ * Medicines the drug dictionary is sure of are named by generic name and brand.
+ */
+const buildOrder = (address: string, medications: string[], hasPrescription: boolean, names: string[]) => {
+    const redactedAddress = redactField('address', address);
+    const redactedMedications = redactText(medications.join(', '), { names, entities: redactedAddress.entities });
+    const input = { address: redactedAddress.text, medications: redactedMedications.text, hasPrescription };
+    const preview: Redaction = { text: orderPrompt(input), entities: redactedMedications.entities };
+    return { input, preview };
+};
+
+const MedicineDelivery = () => {
+    const { t } = useTranslation();
+    const { searchParams } = useLocation();
+    // The prescription scanner links here with the medicines it read.
+    const [formData, setFormData] = useState({ address: '', medications: searchParams.get('medications') ?? '' });
+    const [prescriptionFile, setPrescriptionFile] = useState<File | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState('');
+    const [error, setError] = useState('');
+    const names = useKnownNames();
+    const [currentMedications, setCurrentMedications] = useState<string[]>([]);
+    // Set once the order is found to interact with the user's medicines; submitting again orders anyway.
+    const [conflicts, setConflicts] = useState<InteractionFinding[] | null>(null);
+    const medications = splitMedicationList(formData.medications).map(normalizeMedication);
+    const order = buildOrder(formData.address, medications.map(drug => medicationName(drug)), !!prescriptionFile, names);
+    const outbound = order.preview;
+    
+    useEffect(() => {
+        loadMedicationNames()
+            .then(setCurrentMedications)
+            .catch(e => console.error("Failed to load medications", e));
+    }, []);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        setFormData({ ...formData, [e.target.name]: e.target.value });
+        if (e.target.name === 'medications') setConflicts(null);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files) setPrescriptionFile(e.target.files[0]);
+    };
+    
+    const handleVoiceResult = useCallback((transcript: string) => {
+        setFormData(prev => ({ ...prev, address: transcript }));
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!conflicts) {
+            const found = findConflicts(medications.map(drug => drug.input), currentMedications);
+            if (found.length > 0) {
+                setConflicts(found);
+                return;
+            }
+        }
+        setLoading(true);
+        setResult('');
+        setError('');
+        try {
+            const response = await generateContent('delivery', order.input);
+            // The model only ever saw the placeholder; show the real address in the confirmation.
+            setResult(rehydrate(response.text, outbound.entities));
+            setConflicts(null);
+        } catch (err: any) {
+            setError(err.message || t('common.unknownError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+    
+    return (
+        <div className="page">
+             <div className="page-header">
+                <h1>{t('delivery.title')}</h1>
+                <p>{t('delivery.subtitle')}</p>
+            </div>
+            <div className="card">
+                <form onSubmit={handleSubmit}>
+                    <div className="form-group">
+                        <label htmlFor="address">{t('delivery.address')}</label>
+                        <textarea id="address" name="address" value={formData.address} onChange={handleChange} required></textarea>
+                        <VoiceInputButton onResult={handleVoiceResult} />
+                    </div>
+                     <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="medications">{t('delivery.medications')}</label>
+                        <textarea id="medications" name="medications" value={formData.medications} onChange={handleChange} placeholder={t('delivery.medicationsPlaceholder')}></textarea>
+                    </div>
+                    {medications.length > 0 && <DrugMatchTable medications={medications} />}
+                     <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                        <label htmlFor="prescription">{t('delivery.prescription')}</label>
+                        <input type="file" id="prescription" onChange={handleFileChange} />
+                    </div>
+                    {conflicts && <InteractionWarning findings={conflicts} />}
+                    {(formData.address || formData.medications) && <OutboundPreview text={outbound.text} entities={outbound.entities} />}
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary" disabled={loading}>
+                            {loading && <Loader small />}
+                            {t(conflicts ? 'interactions.orderAnyway' : 'delivery.submit')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            {result && (
+                <ResultCard title={t('delivery.resultTitle')} speakText={result}>
+                     <MarkdownRenderer text={result} />
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default MedicineDelivery;
@@ -0,0 +1,352 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    generateStructured,
+    hospitalSearchPrompt,
+    AISource,
+    BookingConfirmation,
+    Hospital as HospitalInfo,
+} from '../services/ai';
+import { speak } from '../services/speech';
+import { createId, getVault } from '../services/vault';
+import { useTranslation } from '../services/i18n';
+import { generalizeLocation, Redaction, useKnownNames } from '../services/redaction';
+import { ErrorMessage, Loader, VoiceInputButton } from '../components/common';
+import { OutboundPreview } from '../components/OutboundPreview';
+import { Link, navigate, useLocation } from '../components/router';
+
+interface Hospital extends HospitalInfo {
+    id: string;
+}
+
+interface Confirmation extends BookingConfirmation {
+    bookingDetails: {
+        hospitalName: string;
+        date: string;
+        time: string;
+    };
+}
+
+interface CachedSearch {
+    query: string;
+    emergency: boolean;
+    hospitals: Hospital[];
+    sources: AISource[];
+}
+
+// The last search is kept for the tab's lifetime so `/hospitals/:id/book` links and
+// back-navigation work without re-running the AI search.
+const SEARCH_CACHE_KEY = 'hospitalSearch';
+
+const readCachedSearch = (): CachedSearch | null => {
+    try {
+        return JSON.parse(sessionStorage.getItem(SEARCH_CACHE_KEY) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'hospital';
+
+/** Gives each hospital a URL-safe id derived from its name, de-duplicated within the list. */
+const withIds = (list: HospitalInfo[]): Hospital[] => {
+    const seen = new Map<string, number>();
+    return list.map(h => {
+        const base = slugify(h.name);
+        const count = (seen.get(base) ?? 0) + 1;
+        seen.set(base, count);
+        return { ...h, id: count > 1 ? `${base}-${count}` : base };
+    });
+};
+
+const searchPath = (query: string, emergency: boolean) => {
+    const params = new URLSearchParams();
+    if (query) params.set('q', query);
+    if (emergency) params.set('emergency', '1');
+    const search = params.toString();
+    return search ? `/hospitals?${search}` : '/hospitals';
+};
+
+/** Only the area is sent: house and flat numbers never leave the device. */
+const buildSearch = (location: string, emergencyOnly: boolean, names: string[]) => {
+    const area = generalizeLocation(location, { names });
+    const input = { area: area.text, emergencyOnly };
+    const preview: Redaction = { text: hospitalSearchPrompt(input), entities: area.entities };
+    return { input, preview };
+};
+
+const NearbyHospitals = ({ bookingHospitalId }: { bookingHospitalId?: string }) => {
+    const { t } = useTranslation();
+    const { searchParams } = useLocation();
+    const query = searchParams.get('q') ?? '';
+    // `?emergency=1` (linked from the red-flag banner) limits results to 24/7 emergency care.
+    const emergency = searchParams.get('emergency') === '1';
+    const [cached] = useState(readCachedSearch);
+
+    const [location, setLocation] = useState(query || cached?.query || '');
+    const [searchedQuery, setSearchedQuery] = useState(cached?.query ?? '');
+    const [searchedEmergency, setSearchedEmergency] = useState(cached?.emergency ?? false);
+    const [hospitals, setHospitals] = useState<Hospital[]>(cached?.hospitals ?? []);
+    const [sources, setSources] = useState<AISource[]>(cached?.sources ?? []);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+    const names = useKnownNames();
+
+    const [bookingDate, setBookingDate] = useState('');
+    const [selectedTime, setSelectedTime] = useState('');
+    const [isBooking, setIsBooking] = useState(false);
+    const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+    const [reminderSet, setReminderSet] = useState(false);
+
+    const selectedHospital = bookingHospitalId ? hospitals.find(h => h.id === bookingHospitalId) ?? null : null;
+    const listPath = searchPath(searchedQuery, searchedEmergency);
+    const outboundSearch = location.trim() ? buildSearch(location.trim(), emergency, names).preview : null;
+
+    const handleVoiceResult = useCallback((transcript: string) => {
+        setLocation(transcript);
+    }, []);
+
+    const runSearch = async (searchLocation: string, emergencyOnly: boolean) => {
+        setLoading(true);
+        setError('');
+        setHospitals([]);
+        setSources([]);
+        setConfirmation(null);
+
+        try {
+            const { input } = buildSearch(searchLocation, emergencyOnly, names);
+            const { data, sources: searchSources } = await generateStructured('hospitals', input);
+
+            const parsedHospitals = withIds(data);
+            setHospitals(parsedHospitals);
+            setSources(searchSources);
+            setSearchedQuery(searchLocation);
+            setSearchedEmergency(emergencyOnly);
+            const cache: CachedSearch = { query: searchLocation, emergency: emergencyOnly, hospitals: parsedHospitals, sources: searchSources };
+            sessionStorage.setItem(SEARCH_CACHE_KEY, JSON.stringify(cache));
+
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('hospitals.searchError'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Searches are driven by the `?q=` parameter so results can be bookmarked and shared.
+    useEffect(() => {
+        if (query && (query !== searchedQuery || emergency !== searchedEmergency)) {
+            setLocation(query);
+            runSearch(query, emergency);
+        }
+    }, [query, emergency]);
+
+    const searchHospitals = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const trimmed = location.trim();
+        if (trimmed === query) {
+            runSearch(trimmed, emergency);
+        } else {
+            navigate(searchPath(trimmed, emergency));
+        }
+    };
+
+    const handleBookAppointment = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsBooking(true);
+        setError('');
+        try {
+            const { data } = await generateStructured('booking', {
+                hospital: selectedHospital?.name || '',
+                date: bookingDate,
+                time: selectedTime,
+            });
+            getVault().put('appointments', {
+                id: createId(),
+                hospitalName: selectedHospital?.name || '',
+                date: bookingDate,
+                time: selectedTime,
+                confirmationNumber: data.confirmationNumber,
+                createdAt: new Date().toISOString(),
+            }).catch(e => console.error("Failed to save appointment", e));
+
+            setConfirmation({
+                ...data,
+                bookingDetails: {
+                    hospitalName: selectedHospital?.name || '',
+                    date: bookingDate,
+                    time: selectedTime,
+                }
+            });
+            navigate(listPath); // Hide booking form
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('hospitals.bookingError'));
+        } finally {
+            setIsBooking(false);
+        }
+    };
+    
+    const handleSetReminder = () => {
+        if (!confirmation) return;
+        const { hospitalName, date, time } = confirmation.bookingDetails;
+        const [hours, minutes] = time.split(':').map(Number);
+        const appointmentDateTime = new Date(date);
+        appointmentDateTime.setHours(hours, minutes, 0, 0);
+
+        const reminderDateTime = new Date(appointmentDateTime.getTime() - 24 * 60 * 60 * 1000);
+        const now = new Date();
+
+        if (reminderDateTime > now) {
+            const timeout = reminderDateTime.getTime() - now.getTime();
+            setTimeout(() => {
+                const reminderMsg = t('hospitals.reminderMessage', { hospital: hospitalName, time });
+                alert(reminderMsg);
+                speak(reminderMsg);
+            }, timeout);
+            setReminderSet(true);
+        } else {
+            alert(t('hospitals.reminderTooLate'));
+        }
+    };
+
+    const timeSlots = ["09:00", "10:00", "11:00", "13:00", "14:00", "15:00", "16:00", "17:00"];
+    
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('hospitals.title')}</h1>
+                <p>{t('hospitals.subtitle')}</p>
+            </div>
+            <div className="card">
+                <form onSubmit={searchHospitals}>
+                    <div className="form-group">
+                        <label htmlFor="location">{t('hospitals.location')}</label>
+                        <input type="text" id="location" value={location} onChange={e => setLocation(e.target.value)} required />
+                        <VoiceInputButton onResult={handleVoiceResult} />
+                    </div>
+                    {outboundSearch && <OutboundPreview text={outboundSearch.text} entities={outboundSearch.entities} />}
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary" disabled={loading}>
+                            {loading && <Loader small />}
+                            {t('hospitals.search')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+            {emergency && (
+                <div className="emergency-filter-notice">
+                    <span>{t('hospitals.emergencyOnly')}</span>
+                    <Link to={searchPath(query, false)}>{t('hospitals.showAll')}</Link>
+                </div>
+            )}
+            {error && <ErrorMessage message={error} />}
+            {!loading && hospitals.length > 0 && (
+                <div className="results-container">
+                    <h3>{t('hospitals.resultsFor', { location: searchedQuery })}</h3>
+                    <div className="hospitals-grid">
+                        {hospitals.map((h, i) => (
+                            <div key={i} className="hospital-card">
+                                <div>
+                                    <h4>{h.name}</h4>
+                                    {h.emergency24x7 && <span className="emergency-badge">{t('hospitals.emergencyBadge')}</span>}
+                                    <p className="hospital-address">{h.address}</p>
+                                </div>
+                                <div>
+                                    <div className="hospital-details">
+                                        {h.phone && <span className="hospital-phone">{h.phone}</span>}
+                                        {h.distance && <span className="hospital-distance">{h.distance}</span>}
+                                    </div>
+                                    <div className="card-actions">
+                                        {h.latitude && h.longitude &&
+                                            <a href={`https://www.google.com/maps?q=${h.latitude},${h.longitude}`} target="_blank" rel="noopener noreferrer" className="btn btn-outline">{t('hospitals.viewMap')}</a>}
+                                        <button className="btn btn-primary" onClick={() => { setConfirmation(null); navigate(`/hospitals/${h.id}/book`); }}>{t('hospitals.book')}</button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    {sources.length > 0 && (
+                        <div className="sources-container">
+                            <h4>{t('hospitals.sources')}</h4>
+                            <ul>
+                                {sources.map((source, i) => (
+                                    <li key={i}><a href={source.uri} target="_blank" rel="noopener noreferrer">{source.title}</a></li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+            {bookingHospitalId && !selectedHospital && !loading && (
+                <div className="card">
+                    <p>{t('hospitals.notInSearch')}</p>
+                    <div className="form-actions">
+                        <Link to={listPath} className="btn btn-outline">{t('hospitals.backToSearch')}</Link>
+                    </div>
+                </div>
+            )}
+            {selectedHospital && (
+                <div className="booking-container card">
+                    <h3>{t('hospitals.bookAt', { name: selectedHospital.name })}</h3>
+                    <form onSubmit={handleBookAppointment}>
+                        <div className="form-grid">
+                            <div className="form-group">
+                                <label htmlFor="booking-date">{t('hospitals.date')}</label>
+                                <input type="date" id="booking-date" min={new Date().toISOString().split("T")[0]} value={bookingDate} onChange={e => setBookingDate(e.target.value)} required />
+                            </div>
+                        </div>
+                        <div className="form-group" style={{ marginTop: '1.5rem' }}>
+                            <label>{t('hospitals.time')}</label>
+                            <div className="time-slot-grid">
+                                {timeSlots.map(time => (
+                                    <button
+                                        type="button"
+                                        key={time}
+                                        className={`time-slot ${selectedTime === time ? 'selected' : ''}`}
+                                        onClick={() => setSelectedTime(time)}
+                                    >
+                                        {time}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="form-actions">
+                            <button type="button" className="btn btn-outline" onClick={() => navigate(listPath)}>{t('hospitals.cancel')}</button>
+                            <button type="submit" className="btn btn-primary" disabled={isBooking || !bookingDate || !selectedTime}>
+                                {isBooking && <Loader small />}
+                                {t('hospitals.confirm')}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+            {confirmation && (
+                <div className="card confirmation-highlight-card">
+                    <div className="confirmation-header">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
+                            <polyline points="22 4 12 14.01 9 11.01" />
+                        </svg>
+                        <h3>{confirmation.message}</h3>
+                    </div>
+                    <p>
+                        {t('hospitals.confirmed', {
+                            hospital: confirmation.bookingDetails.hospitalName,
+                            date: confirmation.bookingDetails.date,
+                            time: confirmation.bookingDetails.time,
+                        })}
+                    </p>
+                    <div className="confirmation-number-wrapper">
+                        <strong>{t('hospitals.confirmationNumber')}</strong>
+                        <span className="confirmation-number">{confirmation.confirmationNumber}</span>
+                    </div>
+                    <div className="form-actions" style={{ justifyContent: 'center' }}>
+                        <button className="btn btn-primary" onClick={handleSetReminder} disabled={reminderSet}>
+                            {t(reminderSet ? 'hospitals.reminderSet' : 'hospitals.setReminder')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NearbyHospitals;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useTranslation } from '../services/i18n';
+import { Link } from '../components/router';
+
+const NotFound = () => {
+    const { t } = useTranslation();
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('notFound.title')}</h1>
+                <p>{t('notFound.message')}</p>
+            </div>
+            <div className="form-actions" style={{ justifyContent: 'center' }}>
+                <Link to="/" className="btn btn-primary">{t('notFound.back')}</Link>
+            </div>
+        </div>
+    );
+};
+
+export default NotFound;
@@ -0,0 +1,369 @@
+import React, { useState, useRef } from 'react';
+import { generateStructured, ScanResult } from '../services/ai';
+import { findConflicts, InteractionFinding, loadMedicationNames } from '../services/interactions';
+import { medicineLabel, parsePrescription, planReminders } from '../services/prescription';
+import { normalizeMedication } from '../services/drugs';
+import { toDateKey } from '../services/nutrition';
+import { readAsDataUrl, toInlineData } from '../services/images';
+import type { Quad } from '../services/documentImage';
+import { createId, getVault, ScanRecord } from '../services/vault';
+import { useTranslation } from '../services/i18n';
+import { ErrorMessage, Loader, ResultCard } from '../components/common';
+import { applyMasks, ImageRedactor, MaskBox } from '../components/ImageRedactor';
+import { CameraCapture } from '../components/CameraCapture';
+import { CropEditor } from '../components/CropEditor';
+import { cleanUpPage, createScanPage, isPdf, isScannableFile, ScanPage, ScanPageList } from '../components/ScanPages';
+import { InteractionWarning } from '../components/InteractionTable';
+import { PrescriptionHeader, PrescriptionTable } from '../components/PrescriptionTable';
+import { DrugMatchTable } from '../components/DrugMatches';
+import { ScanReview } from '../components/ScanReview';
+import { Link } from '../components/router';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// The server takes up to 8 MB per scan request; the base64 pages must leave room for the rest of it.
+const MAX_UPLOAD_CHARS = 7.5 * 1024 * 1024;
+
+/** The course starts on the prescription's date when it is readable and not in the future, else today. */
+const courseStart = (prescribedOn?: string) => (prescribedOn && DATE_KEY.test(prescribedOn) && prescribedOn <= toDateKey() ? prescribedOn : toDateKey());
+
+const PrescriptionScanner = () => {
+    const { t } = useTranslation();
+    // Sent in order as one document.
+    const [pages, setPages] = useState<ScanPage[]>([]);
+    const [selectedId, setSelectedId] = useState('');
+    const [cameraOpen, setCameraOpen] = useState(false);
+    // Photos are cleaned up as they are added and again whenever their crop changes.
+    const [preparing, setPreparing] = useState(false);
+    const [loading, setLoading] = useState(false);
+    // Only what the user has confirmed is used for reminders, matches and orders.
+    const [result, setResult] = useState<ScanRecord | null>(null);
+    const [confirming, setConfirming] = useState(false);
+    const [error, setError] = useState('');
+    const [startDate, setStartDate] = useState(toDateKey());
+    // Set once the new reminders are found to interact with the user's medicines; creating again adds them anyway.
+    const [reminderConflicts, setReminderConflicts] = useState<InteractionFinding[] | null>(null);
+    const [remindersCreated, setRemindersCreated] = useState<number | null>(null);
+    const [creatingReminders, setCreatingReminders] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const selectedPage = pages.find(page => page.id === selectedId) ?? pages[0];
+
+    const updatePages = (next: ScanPage[]) => {
+        setPages(next);
+        setResult(null);
+    };
+
+    // Pages are cleaned up before they are added, so these take the latest pages rather than those from when cleanup began.
+    const addPages = (added: ScanPage[]) => {
+        if (added.length === 0) return;
+        setPages(current => [...current, ...added]);
+        setResult(null);
+        setSelectedId(added[0].id);
+    };
+
+    const replacePage = (updated: ScanPage) => {
+        setPages(current => current.map(page => (page.id === updated.id ? updated : page)));
+        setResult(null);
+    };
+
+    const setMasks = (masks: MaskBox[]) => replacePage({ ...selectedPage, masks });
+
+    const recrop = async (page: ScanPage, corners?: Quad) => {
+        setPreparing(true);
+        setError('');
+        try {
+            replacePage(await cleanUpPage(page, corners));
+        } catch (e) {
+            console.error("Failed to clean up page", e);
+            setError(t('scanner.cleanUpError'));
+        } finally {
+            setPreparing(false);
+        }
+    };
+
+    const toggleCleanUp = (page: ScanPage, cleanUp: boolean) =>
+        cleanUp ? recrop(page) : replacePage({ ...page, src: page.original, corners: undefined, masks: [] });
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files ?? []);
+        // Lets the same file be picked again after it is removed.
+        e.target.value = '';
+        const unsupported = files.filter(file => !isScannableFile(file));
+        setError(unsupported.length > 0 ? t('scanner.unsupported', { names: unsupported.map(file => file.name).join(', ') }) : '');
+        setPreparing(true);
+        try {
+            // One at a time: each photo is worked on at full size.
+            const added: ScanPage[] = [];
+            for (const file of files.filter(isScannableFile)) {
+                added.push(await createScanPage(await readAsDataUrl(file), file.name));
+            }
+            addPages(added);
+        } catch (e) {
+            console.error("Failed to read prescription pages", e);
+            setError(t('scanner.readError'));
+        } finally {
+            setPreparing(false);
+        }
+    };
+
+    const handleCapture = async (dataUrl: string) => {
+        setError('');
+        setPreparing(true);
+        try {
+            addPages([await createScanPage(dataUrl, '')]);
+        } catch (e) {
+            console.error("Failed to read captured page", e);
+            setError(t('scanner.readError'));
+        } finally {
+            setPreparing(false);
+        }
+    };
+
+    const scanImage = async () => {
+        setLoading(true);
+        setResult(null);
+        setError('');
+        try {
+            const scanPages = await Promise.all(pages.map(async page => toInlineData(isPdf(page) ? page.src : await applyMasks(page.src, page.masks))));
+            if (scanPages.reduce((total, page) => total + page.data.length, 0) > MAX_UPLOAD_CHARS) {
+                setError(t('scanner.tooLarge'));
+                return;
+            }
+            const { data } = await generateStructured('scanner', { pages: scanPages });
+            const record: ScanRecord = {
+                ...data,
+                // Names found without a line of their own can still be corrected and completed.
+                lines: data.lines?.length > 0 ? data.lines : data.medications.map(name => ({ name })),
+                id: createId(),
+                createdAt: new Date().toISOString(),
+            };
+            setResult(record);
+            setReminderConflicts(null);
+            setRemindersCreated(null);
+            getVault().put('scans', record).catch(e => console.error("Failed to save scan", e));
+
+        } catch (err: any) {
+            setError(err instanceof Error ? err.message : t('scanner.error'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const confirmed = !!result?.confirmedAt;
+    const medicines = parsePrescription(confirmed ? result.lines : []);
+    const plan = planReminders(medicines, startDate);
+
+    const createReminders = async () => {
+        setError('');
+        setCreatingReminders(true);
+        try {
+            if (!reminderConflicts) {
+                const names = [...new Set(plan.reminders.map(reminder => reminder.name))];
+                const conflicts = findConflicts(names, await loadMedicationNames());
+                if (conflicts.length > 0) {
+                    setReminderConflicts(conflicts);
+                    return;
+                }
+            }
+            const vault = getVault();
+            await Promise.all(plan.reminders.map(reminder => vault.put('reminders', { id: createId(), ...reminder })));
+            setRemindersCreated(plan.reminders.length);
+            setReminderConflicts(null);
+        } catch (e) {
+            console.error("Failed to create reminders", e);
+            setError(t('scanner.remindersError'));
+        } finally {
+            setCreatingReminders(false);
+        }
+    };
+
+    const editScan = (scan: ScanResult) => setResult({ ...result, ...scan });
+
+    const confirmScan = async () => {
+        setError('');
+        setConfirming(true);
+        const lines = result.lines.filter(line => line.name?.trim());
+        const record: ScanRecord = {
+            ...result,
+            lines,
+            medications: lines.map(line => line.name.trim()),
+            prescribedOn: result.prescribedOn || undefined,
+            prescriber: result.prescriber?.trim() || undefined,
+            confirmedAt: new Date().toISOString(),
+        };
+        try {
+            await getVault().put('scans', record);
+            setResult(record);
+            setStartDate(courseStart(record.prescribedOn));
+        } catch (e) {
+            console.error("Failed to save scan", e);
+            setError(t('scanner.review.saveError'));
+        } finally {
+            setConfirming(false);
+        }
+    };
+
+    // The saved scan stays as confirmed until it is confirmed again.
+    const reopenScan = () => {
+        setResult({ ...result, confirmedAt: undefined });
+        setReminderConflicts(null);
+        setRemindersCreated(null);
+    };
+
+    const handleCopy = () => {
+        if (result?.extractedText) {
+            navigator.clipboard.writeText(result.extractedText);
+            alert(t('scanner.copied'));
+        }
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header">
+                <h1>{t('scanner.title')}</h1>
+                <p>{t('scanner.subtitle')}</p>
+            </div>
+            <div className="card">
+                <input type="file" accept="image/*,application/pdf" multiple ref={fileInputRef} onChange={handleFileChange} style={{ display: 'none' }} />
+                <div className="image-uploader" onClick={() => fileInputRef.current?.click()} role="button" tabIndex={0}>
+                     <svg xmlns="http://www.w3.org/2000/svg" width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+                        <polyline points="17 8 12 3 7 8" />
+                        <line x1="12" y1="3" x2="12" y2="15" />
+                     </svg>
+                    <p>{t('scanner.upload')}</p>
+                    <span>{t('scanner.formats')}</span>
+                </div>
+                {cameraOpen ? (
+                    <CameraCapture onCapture={handleCapture} onClose={() => setCameraOpen(false)} nextPage={pages.length + 1} />
+                ) : (
+                    <div className="ocr-actions">
+                        <button type="button" className="btn btn-outline" onClick={() => setCameraOpen(true)}>{t('scanner.camera')}</button>
+                    </div>
+                )}
+                {preparing && (
+                    <div className="scan-preparing">
+                        <Loader small />
+                        <span>{t('scanner.preparing')}</span>
+                    </div>
+                )}
+                {selectedPage && (
+                    <>
+                        <ScanPageList pages={pages} selectedId={selectedPage.id} onSelect={setSelectedId} onChange={updatePages} />
+                        {isPdf(selectedPage) ? (
+                            <p className="outbound-note">{t('scanner.pdfNote', { name: selectedPage.name })}</p>
+                        ) : (
+                            <>
+                                <label className="scan-cleanup-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!selectedPage.corners}
+                                        onChange={e => toggleCleanUp(selectedPage, e.target.checked)}
+                                        disabled={preparing}
+                                    />
+                                    {t('scanner.cleanUp')}
+                                </label>
+                                <div className={selectedPage.corners ? 'scan-compare' : undefined}>
+                                    {selectedPage.corners && (
+                                        <figure>
+                                            <figcaption>{t('scanner.before')}</figcaption>
+                                            <CropEditor
+                                                src={selectedPage.original}
+                                                corners={selectedPage.corners}
+                                                onChange={corners => recrop(selectedPage, corners)}
+                                                disabled={preparing}
+                                            />
+                                        </figure>
+                                    )}
+                                    <figure>
+                                        {selectedPage.corners && <figcaption>{t('scanner.after')}</figcaption>}
+                                        <ImageRedactor
+                                            src={selectedPage.src}
+                                            alt={t('scanner.preview')}
+                                            boxes={selectedPage.masks}
+                                            onChange={setMasks}
+                                        />
+                                    </figure>
+                                </div>
+                            </>
+                        )}
+                        <div className="form-actions">
+                            <button className="btn btn-primary" onClick={scanImage} disabled={loading || preparing}>
+                                {loading && <Loader small />}
+                                {t('scanner.scan')}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+            {loading && <Loader />}
+            {error && <ErrorMessage message={error} />}
+            {result && !confirmed && (
+                <ResultCard title={t('scanner.review.title')}>
+                    <ScanReview pages={pages} scan={result} onChange={editScan} onConfirm={confirmScan} confirming={confirming} />
+                </ResultCard>
+            )}
+            {result && confirmed && (
+                <ResultCard title={t('scanner.resultTitle')} speakText={t('scanner.speakText', { text: result.extractedText || t('scanner.noText') })}>
+                    <p className="interaction-note">{t('scanner.review.confirmed')}</p>
+                    <h4>{t('scanner.extractedText')}</h4>
+                    <p className="extracted-text">{result.extractedText || t('scanner.noText')}</p>
+                    <div className="ocr-actions">
+                        <button className="btn btn-outline" onClick={handleCopy}>{t('scanner.copy')}</button>
+                        <button className="btn btn-outline" onClick={reopenScan}>{t('scanner.review.edit')}</button>
+                    </div>
+                    <PrescriptionHeader scan={result} />
+                    {medicines.length > 0 && (
+                        <div className="prescription-reminders">
+                            <h4 className="analysis-heading">{t('scanner.schedule')}</h4>
+                            <PrescriptionTable medicines={medicines} />
+                            <p className="interaction-note">{t('prescription.note')}</p>
+                            {plan.reminders.length > 0 ? (
+                                <>
+                                    <div className="form-group">
+                                        <label htmlFor="startDate">{t('scanner.startDate')}</label>
+                                        <input type="date" id="startDate" value={startDate} onChange={e => { setStartDate(e.target.value || toDateKey()); setRemindersCreated(null); }} />
+                                    </div>
+                                    <p className="interaction-note">{t('scanner.remindersNote')}</p>
+                                </>
+                            ) : (
+                                <p className="interaction-note">{t('scanner.noSchedule')}</p>
+                            )}
+                            {plan.unscheduled.length > 0 && plan.reminders.length > 0 && (
+                                <p className="interaction-note">
+                                    {t('scanner.unscheduled', { names: plan.unscheduled.map(({ line }) => medicineLabel(line)).join(', ') })}
+                                </p>
+                            )}
+                            {reminderConflicts && <InteractionWarning findings={reminderConflicts} />}
+                            {remindersCreated !== null ? (
+                                <p className="interaction-note">
+                                    {t('scanner.remindersCreated', { count: remindersCreated })} <Link to="/profile/reminders">{t('scanner.openReminders')}</Link>
+                                </p>
+                            ) : plan.reminders.length > 0 && (
+                                <div className="form-actions">
+                                    <button className="btn btn-primary" onClick={createReminders} disabled={creatingReminders}>
+                                        {t(reminderConflicts ? 'interactions.addAnyway' : 'scanner.createReminders', { count: plan.reminders.length })}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {result.medications.length > 0 && (
+                        <div className="medication-matches">
+                            <h4>{t('scanner.medications')}</h4>
+                            <DrugMatchTable medications={result.medications.map(normalizeMedication)} />
+                            <div className="ocr-actions">
+                                <Link to={`/delivery?medications=${encodeURIComponent(result.medications.join(', '))}`} className="btn btn-outline">
+                                    {t('scanner.orderMedicines')}
+                                </Link>
+                            </div>
+                        </div>
+                    )}
+                </ResultCard>
+            )}
+        </div>
+    );
+};
+
+export default PrescriptionScanner;
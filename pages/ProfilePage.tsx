@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Appointment, createId, getVault, Medication, Profile, Reminder as StoredReminder, Sex } from '../services/vault';
+import { speak } from '../services/speech';
+import { translate, useTranslation } from '../services/i18n';
+import { findConflicts, InteractionFinding } from '../services/interactions';
+import { hasEnded, reminderDelay } from '../services/reminders';
+import { ErrorMessage, VoiceInputButton } from '../components/common';
+import { InteractionWarning } from '../components/InteractionTable';
+import { BodyTrends } from '../components/BodyTrends';
+
+interface Reminder extends StoredReminder {
+    // Fix: Replaced `NodeJS.Timeout` with the cross-environment compatible `ReturnType<typeof setTimeout>` as this is a browser-based application.
+    timeoutId?: ReturnType<typeof setTimeout>;
+}
+
+export type ProfileSection = 'reminders';
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const parseOptionalNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+const ProfilePage = ({ currentUser, section }: { currentUser: string, section?: ProfileSection }) => {
+    const { t } = useTranslation();
+    const [reminders, setReminders] = useState<Reminder[]>([]);
+    const [medName, setMedName] = useState('');
+    const [medTime, setMedTime] = useState('');
+    const [medications, setMedications] = useState<Medication[]>([]);
+    const [newMedication, setNewMedication] = useState({ name: '', dosage: '' });
+    // Set once a new medicine is found to interact with the list; submitting again adds it anyway.
+    const [medicationConflicts, setMedicationConflicts] = useState<InteractionFinding[] | null>(null);
+    const [reminderConflicts, setReminderConflicts] = useState<InteractionFinding[] | null>(null);
+    const [appointments, setAppointments] = useState<Appointment[]>([]);
+    const [profileForm, setProfileForm] = useState({
+        displayName: '',
+        age: '',
+        sex: '',
+        heightCm: '',
+        weightKg: '',
+        goalWeightKg: '',
+        allergies: '',
+        conditions: '',
+    });
+    const [profileSaved, setProfileSaved] = useState(false);
+    const [error, setError] = useState('');
+    const remindersRef = useRef<HTMLDivElement>(null);
+
+    // Deep links such as /profile/reminders jump straight to their section.
+    useEffect(() => {
+        if (section === 'reminders') {
+            remindersRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+    }, [section]);
+
+    const scheduleReminder = (reminder: StoredReminder) => {
+        // Nothing to schedule once a course is over or before the next dose is in reach.
+        const timeout = reminderDelay(reminder);
+        if (timeout === undefined) return undefined;
+        return setTimeout(() => {
+            // Resolved when the reminder fires, so it uses the language chosen by then.
+            const msg = translate('profile.reminderAlert', { name: reminder.name });
+            alert(msg);
+            speak(msg);
+        }, timeout);
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        let scheduled: Reminder[] = [];
+        const vault = getVault();
+        Promise.all([vault.getProfile(), vault.list('medications'), vault.list('reminders'), vault.list('appointments')])
+            .then(([profile, storedMedications, storedReminders, storedAppointments]) => {
+                if (cancelled) return;
+                setProfileForm({
+                    displayName: profile.displayName ?? '',
+                    age: profile.age?.toString() ?? '',
+                    sex: profile.sex ?? '',
+                    heightCm: profile.heightCm?.toString() ?? '',
+                    weightKg: profile.weightKg?.toString() ?? '',
+                    goalWeightKg: profile.goalWeightKg?.toString() ?? '',
+                    allergies: profile.allergies.join(', '),
+                    conditions: profile.conditions.join(', '),
+                });
+                setMedications(storedMedications.sort((a, b) => a.addedAt.localeCompare(b.addedAt)));
+                setAppointments(storedAppointments.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)));
+                // Reschedule notifications on load
+                scheduled = storedReminders
+                    .sort((a, b) => a.time.localeCompare(b.time))
+                    .map(r => ({ ...r, timeoutId: scheduleReminder(r) }));
+                setReminders(scheduled);
+            })
+            .catch(e => {
+                console.error("Failed to load health records", e);
+                if (!cancelled) setError(t('profile.loadError'));
+            });
+        return () => {
+            cancelled = true;
+            scheduled.forEach(r => clearTimeout(r.timeoutId));
+        };
+    }, [currentUser]);
+
+    /** Applies a change optimistically, then writes it to the vault. */
+    const persist = async (apply: () => void, write: () => Promise<void>) => {
+        apply();
+        setError('');
+        try {
+            await write();
+        } catch (e) {
+            console.error("Failed to save health records", e);
+            setError(t('profile.saveError'));
+        }
+    };
+
+    const handleProfileChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setProfileForm({ ...profileForm, [e.target.name]: e.target.value });
+        setProfileSaved(false);
+    };
+
+    const saveProfile = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const profile: Profile = {
+            displayName: profileForm.displayName.trim() || undefined,
+            age: parseOptionalNumber(profileForm.age),
+            sex: (profileForm.sex || undefined) as Sex | undefined,
+            heightCm: parseOptionalNumber(profileForm.heightCm),
+            weightKg: parseOptionalNumber(profileForm.weightKg),
+            goalWeightKg: parseOptionalNumber(profileForm.goalWeightKg),
+            allergies: splitList(profileForm.allergies),
+            conditions: splitList(profileForm.conditions),
+        };
+        setError('');
+        try {
+            await getVault().saveProfile(profile);
+            setProfileSaved(true);
+        } catch (e) {
+            console.error("Failed to save profile", e);
+            setError(t('profile.saveProfileError'));
+        }
+    };
+
+    const currentMedicationNames = () => [...medications.map(m => m.name), ...reminders.map(r => r.name)];
+
+    /** Holds the addition back the first time it would introduce a known interaction. */
+    const heldForConflicts = (name: string, confirmed: InteractionFinding[] | null, hold: (findings: InteractionFinding[]) => void) => {
+        if (confirmed) return false;
+        const conflicts = findConflicts([name], currentMedicationNames());
+        if (conflicts.length === 0) return false;
+        hold(conflicts);
+        return true;
+    };
+
+    const addMedication = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!newMedication.name.trim()) return;
+        if (heldForConflicts(newMedication.name.trim(), medicationConflicts, setMedicationConflicts)) return;
+        const medication: Medication = {
+            id: createId(),
+            name: newMedication.name.trim(),
+            dosage: newMedication.dosage.trim() || undefined,
+            addedAt: new Date().toISOString(),
+        };
+        persist(() => setMedications([...medications, medication]), () => getVault().put('medications', medication));
+        setNewMedication({ name: '', dosage: '' });
+        setMedicationConflicts(null);
+    };
+
+    const removeMedication = (id: string) => {
+        persist(() => setMedications(medications.filter(m => m.id !== id)), () => getVault().delete('medications', id));
+    };
+
+    const handleVoiceResult = useCallback((transcript: string) => {
+        setMedName(transcript);
+        setReminderConflicts(null);
+    }, []);
+
+    const addReminder = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!medName || !medTime) return;
+        if (heldForConflicts(medName, reminderConflicts, setReminderConflicts)) return;
+
+        const stored: StoredReminder = { id: createId(), name: medName, time: medTime };
+        const timeoutId = scheduleReminder(stored);
+        persist(() => setReminders([...reminders, { ...stored, timeoutId }]), () => getVault().put('reminders', stored));
+        setMedName('');
+        setMedTime('');
+        setReminderConflicts(null);
+    };
+
+    const removeReminder = (id: string) => {
+        const reminderToRemove = reminders.find(r => r.id === id);
+        if (reminderToRemove && reminderToRemove.timeoutId) {
+            clearTimeout(reminderToRemove.timeoutId);
+        }
+        persist(() => setReminders(reminders.filter(r => r.id !== id)), () => getVault().delete('reminders', id));
+    };
+
+    const removeAppointment = (id: string) => {
+        persist(() => setAppointments(appointments.filter(a => a.id !== id)), () => getVault().delete('appointments', id));
+    };
+
+    return (
+        <div className="page">
+            <div className="page-header profile-header">
+                <h1>{t('profile.welcome', { name: profileForm.displayName || currentUser })}</h1>
+                <p>{t('profile.subtitle')}</p>
+            </div>
+            {error && <ErrorMessage message={error} />}
+            <div className="card" style={{ marginTop: '2rem' }}>
+                <h3>{t('profile.healthProfile')}</h3>
+                <form onSubmit={saveProfile}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="displayName">{t('profile.name')}</label>
+                            <input type="text" id="displayName" name="displayName" value={profileForm.displayName} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="age">{t('profile.age')}</label>
+                            <input type="number" id="age" name="age" min="0" value={profileForm.age} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="sex">{t('profile.sex')}</label>
+                            <select id="sex" name="sex" value={profileForm.sex} onChange={handleProfileChange}>
+                                <option value="">{t('profile.sex.unspecified')}</option>
+                                <option value="female">{t('profile.sex.female')}</option>
+                                <option value="male">{t('profile.sex.male')}</option>
+                                <option value="other">{t('profile.sex.other')}</option>
+                            </select>
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="heightCm">{t('profile.height')}</label>
+                            <input type="number" id="heightCm" name="heightCm" min="0" step="0.1" value={profileForm.heightCm} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="weightKg">{t('profile.weight')}</label>
+                            <input type="number" id="weightKg" name="weightKg" min="0" step="0.1" value={profileForm.weightKg} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="goalWeightKg">{t('profile.goalWeight')}</label>
+                            <input type="number" id="goalWeightKg" name="goalWeightKg" min="0" step="0.1" value={profileForm.goalWeightKg} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="allergies">{t('profile.allergies')}</label>
+                            <input type="text" id="allergies" name="allergies" value={profileForm.allergies} onChange={handleProfileChange} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="conditions">{t('profile.conditions')}</label>
+                            <input type="text" id="conditions" name="conditions" value={profileForm.conditions} onChange={handleProfileChange} />
+                        </div>
+                    </div>
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary" disabled={profileSaved}>
+                            {t(profileSaved ? 'profile.saved' : 'profile.save')}
+                        </button>
+                    </div>
+                </form>
+            </div>
+            <BodyTrends goalWeightKg={parseOptionalNumber(profileForm.goalWeightKg)} />
+            <div className="card" style={{ marginTop: '2rem' }}>
+                <h3>{t('profile.medications')}</h3>
+                <form onSubmit={addMedication}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="medicationName">{t('profile.medication')}</label>
+                            <input type="text" id="medicationName" value={newMedication.name} onChange={e => { setNewMedication({ ...newMedication, name: e.target.value }); setMedicationConflicts(null); }} required />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="medicationDosage">{t('profile.dosage')}</label>
+                            <input type="text" id="medicationDosage" placeholder={t('profile.dosagePlaceholder')} value={newMedication.dosage} onChange={e => setNewMedication({ ...newMedication, dosage: e.target.value })} />
+                        </div>
+                    </div>
+                    {medicationConflicts && <InteractionWarning findings={medicationConflicts} />}
+                    <div className="form-actions">
+                        <button type="submit" className="btn btn-primary">{t(medicationConflicts ? 'interactions.addAnyway' : 'profile.addMedication')}</button>
+                    </div>
+                </form>
+                {medications.length > 0 && (
+                    <ul className="reminders-list">
+                        {medications.map(m => (
+                            <li key={m.id} className="reminder-item">
+                                <div>
+                                    <strong>{m.name}</strong>
+                                    {m.dosage && <p>{m.dosage}</p>}
+                                </div>
+                                <button className="btn btn-outline" onClick={() => removeMedication(m.id)}>{t('profile.remove')}</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="card" style={{ marginTop: '2rem' }} ref={remindersRef}>
+                 <h3>{t('profile.addReminderTitle')}</h3>
+                <form onSubmit={addReminder}>
+                    <div className="form-grid">
+                        <div className="form-group">
+                            <label htmlFor="medName">{t('profile.reminderName')}</label>
+                            <input type="text" id="medName" value={medName} onChange={e => { setMedName(e.target.value); setReminderConflicts(null); }} required />
+                            <VoiceInputButton onResult={handleVoiceResult} />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="medTime">{t('profile.reminderTime')}</label>
+                            <input type="time" id="medTime" value={medTime} onChange={e => setMedTime(e.target.value)} required />
+                        </div>
+                    </div>
+                    {reminderConflicts && <InteractionWarning findings={reminderConflicts} />}
+                     <div className="form-actions">
+                        <button type="submit" className="btn btn-primary">{t(reminderConflicts ? 'interactions.addAnyway' : 'profile.addReminder')}</button>
+                    </div>
+                </form>
+            </div>
+            <div style={{ marginTop: '2rem' }}>
+                <h3>{t('profile.activeReminders')}</h3>
+                {reminders.length > 0 ? (
+                    <ul className="reminders-list">
+                        {reminders.map(r => (
+                            <li key={r.id} className="reminder-item">
+                                <div>
+                                    <strong>{r.name}</strong>
+                                    <p>
+                                        {r.everyDays ? t('profile.scheduledEvery', { time: r.time, days: r.everyDays }) : t('profile.scheduledFor', { time: r.time })}
+                                        {r.dose && ` · ${t('profile.reminderDose', { dose: r.dose })}`}
+                                    </p>
+                                    {hasEnded(r) ? (
+                                        <p>{t('profile.courseEnded', { end: r.endDate })}</p>
+                                    ) : r.startDate && (
+                                        <p>{r.endDate ? t('profile.courseDates', { start: r.startDate, end: r.endDate }) : t('profile.courseFrom', { start: r.startDate })}</p>
+                                    )}
+                                </div>
+                                <button className="btn btn-outline" onClick={() => removeReminder(r.id)}>{t('profile.delete')}</button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p>{t('profile.noReminders')}</p>
+                )}
+            </div>
+            <div style={{ marginTop: '2rem' }}>
+                <h3>{t('profile.appointments')}</h3>
+                {appointments.length > 0 ? (
+                    <ul className="reminders-list">
+                        {appointments.map(a => (
+                            <li key={a.id} className="reminder-item">
+                                <div>
+                                    <strong>{a.hospitalName}</strong>
+                                    <p>{t('profile.appointmentDetails', { date: a.date, time: a.time, number: a.confirmationNumber })}</p>
+                                </div>
+                                <button className="btn btn-outline" onClick={() => removeAppointment(a.id)}>{t('profile.remove')}</button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p>{t('profile.noAppointments')}</p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ProfilePage;
@@ -0,0 +1,119 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import { getBodyLimit, serverConfig } from './config';
+import { clientIp, HttpError, readJsonBody, sendJson } from './http';
+import { enforceQuota, QuotaTracker } from './quota';
+import { isAIFeature, resolveFeature } from '../services/ai/config';
+import { chatOptions, OneShotFeature, parseChatInput, parseFeatureInput, runFeature } from '../services/ai/features';
+import { GeminiProvider } from '../services/ai/geminiProvider';
+import { MockProvider } from '../services/ai/mockProvider';
+import { StructuredResponseError } from '../services/ai/structured';
+import type { AIFeature, AIProvider } from '../services/ai/types';
+import { isLanguageCode, LanguageCode } from '../services/i18n/languages';
+
+const providers: Record<'gemini' | 'mock', AIProvider> = {
+    gemini: new GeminiProvider(serverConfig.geminiApiKey),
+    mock: new MockProvider(),
+};
+
+const quota = new QuotaTracker(serverConfig.quotaRequests, serverConfig.quotaWindowMs);
+const ipQuota = new QuotaTracker(serverConfig.ipQuotaRequests, serverConfig.quotaWindowMs);
+
+// Prompts, system instructions and model settings are built here from the feature's input,
+// so a body carrying anything else is refused rather than quietly ignored.
+const GENERATE_FIELDS = ['input', 'language'];
+const CHAT_FIELDS = ['message', 'history', 'language'];
+
+const readBody = async (feature: AIFeature, req: IncomingMessage, fields: string[]) => {
+    const body = await readJsonBody<Record<string, unknown>>(req, getBodyLimit(feature));
+    const unknown = Object.keys(body).filter(key => !fields.includes(key));
+    if (unknown.length > 0) {
+        throw new HttpError(400, `Unexpected field${unknown.length > 1 ? 's' : ''} ${unknown.map(key => `\`${key}\``).join(', ')}; only ${fields.map(key => `\`${key}\``).join(', ')} may be sent.`);
+    }
+    return body;
+};
+
+const readLanguage = (value: unknown): LanguageCode => {
+    if (value === undefined) return 'en';
+    if (typeof value !== 'string' || !isLanguageCode(value)) throw new HttpError(400, '`language` is not a supported language code.');
+    return value;
+};
+
+const invalidInput = (errors: string[]) => new HttpError(400, `Invalid input: ${errors.slice(0, 10).join('; ')}`);
+
+const getProvider = (feature: AIFeature) => {
+    const { provider, model } = resolveFeature(feature);
+    return { provider: providers[provider], context: { feature, model } };
+};
+
+const handleGenerate = async (feature: OneShotFeature, req: IncomingMessage, res: ServerResponse) => {
+    const body = await readBody(feature, req, GENERATE_FIELDS);
+    const language = readLanguage(body.language);
+    const input = parseFeatureInput(feature, body.input);
+    if (!input.ok) throw invalidInput(input.errors);
+
+    const { provider, context } = getProvider(feature);
+    try {
+        sendJson(res, 200, await runFeature(provider, { ...context, feature }, input.value!, language));
+    } catch (err) {
+        if (err instanceof StructuredResponseError) throw new HttpError(502, err.message);
+        throw err;
+    }
+};
+
+const handleChatStream = async (feature: AIFeature, req: IncomingMessage, res: ServerResponse) => {
+    const body = await readBody(feature, req, CHAT_FIELDS);
+    const language = readLanguage(body.language);
+    const input = parseChatInput({ message: body.message, history: body.history ?? [] });
+    if (!input.ok) throw invalidInput(input.errors);
+    const { message, history } = input.value!;
+    if (!message.trim()) throw new HttpError(400, '`message` must be a non-empty string.');
+
+    const { provider, context } = getProvider(feature);
+    const chat = provider.createChat(context, chatOptions(history, language));
+    const stream = chat.sendMessageStream(message);
+
+    // Pull the first chunk before committing to a 200 so upstream failures still surface as errors.
+    const first = await stream.next();
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+    if (!first.done) res.write(first.value);
+    try {
+        for await (const chunk of stream) {
+            res.write(chunk);
+        }
+    } catch (err) {
+        console.error(`Chat stream for ${feature} failed mid-response:`, err);
+    }
+    res.end();
+};
+
+/**
+ * Handles `/api/ai/:feature` (one-shot generation) and `/api/ai/chat/stream`.
+ * Returns false when the path does not belong to the AI routes.
+ */
+export const handleAiRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> => {
+    const match = pathname.match(/^\/api\/ai\/([a-z]+)(\/stream)?$/);
+    if (!match) return false;
+
+    const [, feature, stream] = match;
+    if (!isAIFeature(feature)) {
+        throw new HttpError(404, `Unknown AI feature "${feature}".`);
+    }
+    if (req.method !== 'POST') {
+        throw new HttpError(405, 'Method not allowed.', { Allow: 'POST' });
+    }
+    if (stream && feature !== 'chat') throw new HttpError(404, `Streaming is not available for "${feature}".`);
+    if (!stream && feature === 'chat') throw new HttpError(404, 'The chat is only available at `/api/ai/chat/stream`.');
+    // Authenticate before reading the body so anonymous callers cannot push large uploads.
+    const user = await authenticate(req);
+    enforceQuota(ipQuota, clientIp(req), 'Too many AI requests from this network. Please try again later.');
+    const { remaining } = enforceQuota(quota, user.id, 'You have reached your AI request quota. Please try again later.');
+    res.setHeader('X-RateLimit-Remaining', String(remaining));
+
+    if (feature === 'chat') {
+        await handleChatStream(feature, req, res);
+    } else {
+        await handleGenerate(feature, req, res);
+    }
+    return true;
+};
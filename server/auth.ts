@@ -0,0 +1,177 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { promisify } from 'node:util';
+import { serverConfig } from './config';
+import { HttpError } from './http';
+import { JsonFileStore } from './store';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+
+interface UserRecord {
+    id: string;
+    username: string;
+    passwordHash: string;
+    salt: string;
+    createdAt: string;
+}
+
+interface TokenRecord {
+    userId: string;
+    expiresAt: number;
+}
+
+interface AuthData {
+    users: UserRecord[];
+    /** Keyed by SHA-256 of the token so a leaked data file does not leak live sessions. */
+    sessions: Record<string, TokenRecord>;
+    passwordResets: Record<string, TokenRecord>;
+}
+
+export interface PublicUser {
+    id: string;
+    username: string;
+}
+
+export interface Session {
+    token: string;
+    expiresAt: number;
+    user: PublicUser;
+}
+
+const store = new JsonFileStore<AuthData>('auth.json', () => ({ users: [], sessions: {}, passwordResets: {} }));
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hashPassword = async (password: string, salt: Buffer) => (await scryptAsync(password, salt, KEY_LENGTH)).toString('hex');
+
+const verifyPassword = async (password: string, user: UserRecord) => {
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = Buffer.from(await hashPassword(password, Buffer.from(user.salt, 'hex')), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const toPublicUser = ({ id, username }: UserRecord): PublicUser => ({ id, username });
+
+const findUser = (data: AuthData, username: string) =>
+    data.users.find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+
+const validatePassword = (password: unknown): string => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+    }
+    return password;
+};
+
+const pruneExpired = (records: Record<string, TokenRecord>, now: number) => {
+    for (const [key, record] of Object.entries(records)) {
+        if (record.expiresAt <= now) delete records[key];
+    }
+};
+
+const createSession = (data: AuthData, user: UserRecord): Session => {
+    const now = Date.now();
+    pruneExpired(data.sessions, now);
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = now + serverConfig.sessionTtlMs;
+    data.sessions[hashToken(token)] = { userId: user.id, expiresAt };
+    return { token, expiresAt, user: toPublicUser(user) };
+};
+
+export const register = async (username: unknown, password: unknown): Promise<Session> => {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username.trim())) {
+        throw new HttpError(400, 'Username must be 3-32 characters: letters, numbers, dots, dashes or underscores.');
+    }
+    const validPassword = validatePassword(password);
+    const salt = randomBytes(16);
+    const passwordHash = await hashPassword(validPassword, salt);
+
+    return store.update(data => {
+        if (findUser(data, username)) {
+            throw new HttpError(409, 'That username is already taken.');
+        }
+        const user: UserRecord = {
+            id: randomUUID(),
+            username: username.trim(),
+            passwordHash,
+            salt: salt.toString('hex'),
+            createdAt: new Date().toISOString(),
+        };
+        data.users.push(user);
+        return createSession(data, user);
+    });
+};
+
+// Unknown usernames are hashed against this salt, so a failed login takes as long whether or not the account exists.
+const DUMMY_SALT = randomBytes(16);
+
+export const login = async (username: unknown, password: unknown): Promise<Session> => {
+    const data = await store.read();
+    const user = typeof username === 'string' ? findUser(data, username) : undefined;
+    if (!user) {
+        await hashPassword(typeof password === 'string' ? password : '', DUMMY_SALT);
+        throw new HttpError(401, 'Incorrect username or password.');
+    }
+    if (typeof password !== 'string' || !(await verifyPassword(password, user))) {
+        throw new HttpError(401, 'Incorrect username or password.');
+    }
+    return store.update(current => createSession(current, user));
+};
+
+export const logout = (token: string) =>
+    store.update(data => {
+        delete data.sessions[hashToken(token)];
+    });
+
+/** Resolves the bearer token on the request to its user, or throws 401. */
+export const authenticate = async (req: IncomingMessage): Promise<PublicUser & { token: string }> => {
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+    if (!token) throw new HttpError(401, 'Please sign in to continue.');
+
+    const data = await store.read();
+    const session = data.sessions[hashToken(token)];
+    const user = session && session.expiresAt > Date.now() ? data.users.find(u => u.id === session.userId) : undefined;
+    if (!user) throw new HttpError(401, 'Your session has expired. Please sign in again.');
+    return { ...toPublicUser(user), token };
+};
+
+/**
+ * Issues a single-use reset token. There is no mail service, so the token is written to
+ * the server log for the operator to pass on; the response never reveals whether the user exists.
+ */
+export const requestPasswordReset = async (username: unknown): Promise<void> => {
+    if (typeof username !== 'string') return;
+    await store.update(data => {
+        const user = findUser(data, username);
+        if (!user) return;
+        pruneExpired(data.passwordResets, Date.now());
+        const token = randomBytes(24).toString('base64url');
+        data.passwordResets[hashToken(token)] = { userId: user.id, expiresAt: Date.now() + serverConfig.passwordResetTtlMs };
+        console.log(`Password reset token for "${user.username}": ${token}`);
+    });
+};
+
+/** Sets a new password from a reset token and signs the user out everywhere. */
+export const resetPassword = async (token: unknown, newPassword: unknown): Promise<void> => {
+    const validPassword = validatePassword(newPassword);
+    const salt = randomBytes(16);
+    const passwordHash = await hashPassword(validPassword, salt);
+
+    await store.update(data => {
+        const key = typeof token === 'string' ? hashToken(token.trim()) : '';
+        const reset = data.passwordResets[key];
+        const user = reset && reset.expiresAt > Date.now() ? data.users.find(u => u.id === reset.userId) : undefined;
+        if (!user) throw new HttpError(400, 'This reset code is invalid or has expired.');
+
+        user.passwordHash = passwordHash;
+        user.salt = salt.toString('hex');
+        delete data.passwordResets[key];
+        for (const [sessionKey, session] of Object.entries(data.sessions)) {
+            if (session.userId === user.id) delete data.sessions[sessionKey];
+        }
+    });
+};
@@ -0,0 +1,59 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate, login, logout, register, requestPasswordReset, resetPassword } from './auth';
+import { serverConfig } from './config';
+import { clientIp, HttpError, readJsonBody, sendJson } from './http';
+import { enforceQuota, QuotaTracker } from './quota';
+
+const AUTH_BODY_LIMIT = 4 * 1024;
+
+const registrations = new QuotaTracker(serverConfig.registrationsPerIp, serverConfig.registrationWindowMs);
+
+type Credentials = { username?: unknown; password?: unknown };
+
+/**
+ * Handles `/api/auth/*`: register, login, logout, current user and password reset.
+ * Returns false when the path does not belong to the auth routes.
+ */
+export const handleAuthRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> => {
+    if (!pathname.startsWith('/api/auth/')) return false;
+    const route = `${req.method} ${pathname.slice('/api/auth'.length)}`;
+
+    switch (route) {
+        case 'POST /register': {
+            enforceQuota(registrations, clientIp(req), 'Too many accounts have been created from this network. Please try again later.');
+            const { username, password } = await readJsonBody<Credentials>(req, AUTH_BODY_LIMIT);
+            sendJson(res, 201, await register(username, password));
+            return true;
+        }
+        case 'POST /login': {
+            const { username, password } = await readJsonBody<Credentials>(req, AUTH_BODY_LIMIT);
+            sendJson(res, 200, await login(username, password));
+            return true;
+        }
+        case 'POST /logout': {
+            const { token } = await authenticate(req);
+            await logout(token);
+            res.writeHead(204).end();
+            return true;
+        }
+        case 'GET /me': {
+            const { id, username } = await authenticate(req);
+            sendJson(res, 200, { id, username });
+            return true;
+        }
+        case 'POST /password-reset/request': {
+            const { username } = await readJsonBody<Credentials>(req, AUTH_BODY_LIMIT);
+            await requestPasswordReset(username);
+            sendJson(res, 202, { message: 'If that account exists, a reset code has been issued. Contact your administrator to receive it.' });
+            return true;
+        }
+        case 'POST /password-reset/confirm': {
+            const { token, password } = await readJsonBody<{ token?: unknown; password?: unknown }>(req, AUTH_BODY_LIMIT);
+            await resetPassword(token, password);
+            res.writeHead(204).end();
+            return true;
+        }
+        default:
+            throw new HttpError(404, 'Not found.');
+    }
+};
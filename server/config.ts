@@ -0,0 +1,45 @@
+import { existsSync } from 'node:fs';
+import type { AIFeature } from '../services/ai/types';
+
+// Load .env.local the same way Vite does for the client, so one file configures both.
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+}
+
+const readInt = (name: string, fallback: number) => {
+    const value = Number.parseInt(process.env[name] ?? '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+export const serverConfig = {
+    port: readInt('PORT', 8787),
+    geminiApiKey: process.env.GEMINI_API_KEY,
+    /** Maximum model requests a single user may make per rolling window. */
+    quotaRequests: readInt('QUOTA_REQUESTS', 100),
+    quotaWindowMs: readInt('QUOTA_WINDOW_MINUTES', 24 * 60) * 60 * 1000,
+    /** Per-address limits, so opening new accounts does not get around the per-user quota. */
+    ipQuotaRequests: readInt('IP_QUOTA_REQUESTS', 300),
+    registrationsPerIp: readInt('REGISTRATIONS_PER_IP', 5),
+    registrationWindowMs: readInt('REGISTRATION_WINDOW_HOURS', 24) * 60 * 60 * 1000,
+    /** Set when a reverse proxy in front of the server sets X-Forwarded-For. */
+    trustProxy: process.env.TRUST_PROXY === 'true',
+    /** Where user accounts, sessions and health data are stored. */
+    dataDir: process.env.DATA_DIR || 'server/data',
+    sessionTtlMs: readInt('SESSION_TTL_HOURS', 12) * 60 * 60 * 1000,
+    passwordResetTtlMs: readInt('PASSWORD_RESET_TTL_MINUTES', 30) * 60 * 1000,
+};
+
+// Request body caps per feature. Image-bearing features get more room than text-only ones.
+const DEFAULT_BODY_LIMIT = 32 * KB;
+const featureBodyLimits: Partial<Record<AIFeature, number>> = {
+    scanner: 8 * MB,
+    imaging: 2 * MB,
+    // Meal photos are downscaled in the browser before they are sent.
+    meal: 2 * MB,
+    chat: 256 * KB,
+};
+
+export const getBodyLimit = (feature: AIFeature) => featureBodyLimits[feature] ?? DEFAULT_BODY_LIMIT;
@@ -0,0 +1,49 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authenticate } from './auth';
+import { HttpError, sendJson } from './http';
+import { JsonFileStore } from './store';
+
+interface StoredReminder {
+    id: number;
+    name: string;
+    time: string;
+}
+
+interface HealthData {
+    reminders: StoredReminder[];
+}
+
+// One file per user; the user id comes from the session, never from the request.
+const stores = new Map<string, JsonFileStore<HealthData>>();
+const getStore = (userId: string) => {
+    let store = stores.get(userId);
+    if (!store) {
+        store = new JsonFileStore<HealthData>(`health/${userId}.json`, () => ({ reminders: [] }));
+        stores.set(userId, store);
+    }
+    return store;
+};
+
+/**
+ * Handles `/api/health/*`. Health records now live in the encrypted on-device vault;
+ * these routes only let the client fetch and then delete reminders stored by older
+ * builds. Every route requires a session and only touches the signed-in user's own
+ * records. Returns false for unrelated paths.
+ */
+export const handleHealthRoute = async (req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> => {
+    if (pathname !== '/api/health/reminders') return false;
+    const user = await authenticate(req);
+    const store = getStore(user.id);
+
+    if (req.method === 'GET') {
+        sendJson(res, 200, (await store.read()).reminders);
+    } else if (req.method === 'DELETE') {
+        await store.update(data => {
+            data.reminders = [];
+        });
+        res.writeHead(204).end();
+    } else {
+        throw new HttpError(405, 'Method not allowed.', { Allow: 'GET, DELETE' });
+    }
+    return true;
+};
@@ -0,0 +1,54 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { serverConfig } from './config';
+
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+/** Reads and parses a JSON object body, rejecting it as soon as it grows past `limit` bytes. */
+export const readJsonBody = async <T>(req: IncomingMessage, limit: number): Promise<T> => {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > limit) {
+        throw new HttpError(413, `Request body exceeds the ${Math.round(limit / 1024)} KB limit.`);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > limit) {
+            throw new HttpError(413, `Request body exceeds the ${Math.round(limit / 1024)} KB limit.`);
+        }
+        chunks.push(chunk);
+    }
+
+    let body: unknown;
+    try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw new HttpError(400, 'Request body must be valid JSON.');
+    }
+    // Handlers destructure the body, which would throw on `null` or a bare string or number.
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'Request body must be a JSON object.');
+    }
+    return body as T;
+};
+
+/**
+ * The caller's address. Behind a trusted proxy it is the last X-Forwarded-For entry, the one
+ * the proxy added; earlier entries come from the client and could be anything.
+ */
+export const clientIp = (req: IncomingMessage) => {
+    const forwarded = serverConfig.trustProxy ? req.headers['x-forwarded-for'] : undefined;
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+    return last || req.socket.remoteAddress || 'unknown';
+};
@@ -0,0 +1,50 @@
+import { createServer } from 'node:http';
+import { serverConfig } from './config';
+import { handleAiRoute } from './aiRoutes';
+import { handleAuthRoute } from './authRoutes';
+import { handleHealthRoute } from './healthRoutes';
+import { HttpError, sendJson } from './http';
+import { aiConfig } from '../services/ai/config';
+
+// --- Dhanvantari API Server ---
+// Holds the Gemini key and proxies model calls for the React app, which only ever
+// talks to /api/*. In development Vite forwards /api to this server.
+
+if (aiConfig.provider === 'gemini' && !serverConfig.geminiApiKey) {
+    console.error('GEMINI_API_KEY is not set. Add it to .env.local or run with AI_PROVIDER=mock.');
+    process.exit(1);
+}
+
+const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        if (pathname === '/api/status') {
+            sendJson(res, 200, { status: 'ok', provider: aiConfig.provider });
+            return;
+        }
+        if (await handleAuthRoute(req, res, pathname)) return;
+        if (await handleHealthRoute(req, res, pathname)) return;
+        if (await handleAiRoute(req, res, pathname)) return;
+        throw new HttpError(404, 'Not found.');
+    } catch (err) {
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        if (err instanceof HttpError) {
+            sendJson(res, err.status, { error: err.message }, err.headers);
+        } else {
+            console.error(`Unhandled error for ${req.method} ${pathname}:`, err);
+            // Only the AI routes call out to the model; anything else that fails is the server's own fault.
+            if (pathname.startsWith('/api/ai/')) {
+                sendJson(res, 502, { error: 'The AI service failed to respond. Please try again.' });
+            } else {
+                sendJson(res, 500, { error: 'Something went wrong on the server. Please try again.' });
+            }
+        }
+    }
+});
+
+server.listen(serverConfig.port, () => {
+    console.log(`Dhanvantari API listening on http://localhost:${serverConfig.port} (provider: ${aiConfig.provider})`);
+});
@@ -0,0 +1,43 @@
+import { HttpError } from './http';
+
+interface QuotaWindow {
+    count: number;
+    resetAt: number;
+}
+
+export interface QuotaResult {
+    allowed: boolean;
+    remaining: number;
+    resetAt: number;
+}
+
+/** Fixed-window request counter keyed by user or address. State is in memory and resets with the server. */
+export class QuotaTracker {
+    private windows = new Map<string, QuotaWindow>();
+
+    constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+    consume(key: string, now = Date.now()): QuotaResult {
+        let window = this.windows.get(key);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + this.windowMs };
+            this.windows.set(key, window);
+        }
+
+        if (window.count >= this.limit) {
+            return { allowed: false, remaining: 0, resetAt: window.resetAt };
+        }
+        window.count++;
+        return { allowed: true, remaining: this.limit - window.count, resetAt: window.resetAt };
+    }
+}
+
+/** Counts a request against `key`, answering 429 with Retry-After once the limit is reached. */
+export const enforceQuota = (tracker: QuotaTracker, key: string, message: string): QuotaResult => {
+    const result = tracker.consume(key);
+    if (!result.allowed) {
+        const retryAfter = Math.ceil((result.resetAt - Date.now()) / 1000);
+        throw new HttpError(429, message, { 'Retry-After': String(retryAfter) });
+    }
+    return result;
+};
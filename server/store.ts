@@ -0,0 +1,44 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { serverConfig } from './config';
+
+/**
+ * A JSON document persisted to a single file under DATA_DIR. Reads are served from
+ * memory; writes are serialized and replace the file atomically.
+ */
+export class JsonFileStore<T> {
+    private data: T | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private readonly filePath: string;
+
+    constructor(fileName: string, private readonly createEmpty: () => T) {
+        this.filePath = path.join(serverConfig.dataDir, fileName);
+    }
+
+    async read(): Promise<T> {
+        if (this.data === null) {
+            try {
+                this.data = JSON.parse(await readFile(this.filePath, 'utf8')) as T;
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+                this.data = this.createEmpty();
+            }
+        }
+        return this.data;
+    }
+
+    /** Applies `mutate` to the document and persists the result. */
+    async update<R>(mutate: (data: T) => R): Promise<R> {
+        const data = await this.read();
+        const result = mutate(data);
+        const write = this.writeQueue.then(async () => {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.tmp`;
+            await writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+            await rename(tmpPath, this.filePath);
+        });
+        this.writeQueue = write.catch(() => undefined);
+        await write;
+        return result;
+    }
+}
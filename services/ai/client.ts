@@ -0,0 +1,35 @@
+import { getLanguage } from '../i18n';
+import { resolveFeature } from './config';
+import { AIFeatureInputs, AIFeatureResult, AIStructuredOutputs, chatOptions, OneShotFeature, runFeature, StructuredFeature, TextFeature } from './features';
+import { MockProvider } from './mockProvider';
+import { ProxyProvider } from './proxyProvider';
+import type { StructuredResponse } from './structured';
+import type { AIChatMessage, AIChatSession, AIGenerateResponse, AIProvider } from './types';
+
+// The browser never talks to Gemini directly: features routed to `gemini` send their input
+// to the API server, which holds the key and builds the prompt. `mock` features are answered locally.
+const proxy = new ProxyProvider();
+const mock: AIProvider = new MockProvider();
+
+const run = <F extends OneShotFeature>(feature: F, input: AIFeatureInputs[F]): Promise<AIFeatureResult<F>> => {
+    const { provider, model } = resolveFeature(feature);
+    return provider === 'mock'
+        ? runFeature(mock, { feature, model }, input, getLanguage())
+        : proxy.runFeature(feature, input, getLanguage());
+};
+
+/** Runs a feature that answers in free text (usually markdown). */
+export const generateContent = <F extends TextFeature>(feature: F, input: AIFeatureInputs[F]): Promise<AIGenerateResponse> =>
+    run(feature, input) as Promise<AIGenerateResponse>;
+
+/** Runs a feature whose answer is validated against its response schema. */
+export const generateStructured = <F extends StructuredFeature>(feature: F, input: AIFeatureInputs[F]): Promise<StructuredResponse<AIStructuredOutputs[F]>> =>
+    run(feature, input) as Promise<StructuredResponse<AIStructuredOutputs[F]>>;
+
+/** The answer language is fixed when the session is created; start a new session after switching. */
+export const createChat = (history: AIChatMessage[] = []): AIChatSession => {
+    const { provider, model } = resolveFeature('chat');
+    return provider === 'mock'
+        ? mock.createChat({ feature: 'chat', model }, chatOptions(history, getLanguage()))
+        : proxy.createChat(history, getLanguage());
+};
@@ -0,0 +1,49 @@
+import type { AIFeature, AIProviderName } from './types';
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+type BackendProviderName = Exclude<AIProviderName, 'proxy'>;
+
+interface FeatureConfig {
+    provider?: BackendProviderName;
+    model?: string;
+}
+
+interface AIConfig {
+    provider: BackendProviderName;
+    features: Partial<Record<AIFeature, FeatureConfig>>;
+}
+
+const parseProvider = (value: string | undefined): BackendProviderName | null =>
+    value === 'gemini' || value === 'mock' ? value : null;
+
+// AI_PROVIDER picks the default backend for both the browser and the API server.
+// `mock` keeps everything offline; anything else means Gemini via the server.
+export const aiConfig: AIConfig = {
+    provider: parseProvider(process.env.AI_PROVIDER) ?? 'gemini',
+    // Per-feature routing. Anything not listed uses the default provider and DEFAULT_MODEL.
+    features: {
+        assistant: { model: 'gemini-2.5-flash' },
+        calculator: { model: 'gemini-2.5-flash' },
+        scanner: { model: 'gemini-2.5-flash' },
+        hospitals: { model: 'gemini-2.5-flash' },
+        booking: { model: 'gemini-2.5-flash' },
+        delivery: { model: 'gemini-2.5-flash' },
+        biometric: { model: 'gemini-2.5-flash' },
+        imaging: { model: 'gemini-2.5-flash' },
+        meal: { model: 'gemini-2.5-flash' },
+        chat: { model: 'gemini-2.5-flash' },
+    },
+};
+
+export const AI_FEATURES = Object.keys(aiConfig.features) as AIFeature[];
+
+export const isAIFeature = (value: string): value is AIFeature => (AI_FEATURES as string[]).includes(value);
+
+export const resolveFeature = (feature: AIFeature): { provider: BackendProviderName; model: string } => {
+    const featureConfig = aiConfig.features[feature] ?? {};
+    return {
+        provider: featureConfig.provider ?? aiConfig.provider,
+        model: featureConfig.model ?? DEFAULT_MODEL,
+    };
+};
@@ -0,0 +1,355 @@
+import { ACTIVITY_LEVELS, ActivityLevel, BMR_FORMULAS, BodyMetrics, calculateCalories, calculateChildCalories, canUseFormula, EnergyFormula, isChild } from '../calories';
+import { LANGUAGES, LanguageCode } from '../i18n/languages';
+import { checkInteractions, splitMedicationList } from '../interactions';
+import { parseVital } from '../triage';
+import { describeVitals, Vitals } from '../vitals';
+import {
+    AnalysisResult,
+    analysisResultSchema,
+    BookingConfirmation,
+    bookingConfirmationSchema,
+    Hospital,
+    hospitalListSchema,
+    MealRecognition,
+    mealRecognitionSchema,
+    ScanResult,
+    scanResultSchema,
+    SymptomAnalysis,
+    symptomAnalysisSchema,
+} from './responseSchemas';
+import { defineSchema, ResponseSchema, Schema, validate, ValidationResult } from './schema';
+import { generateStructured, StructuredResponse } from './structured';
+import type { AIChatMessage, AIChatOptions, AIFeature, AIGenerateRequest, AIGenerateResponse, AIProvider } from './types';
+
+// --- Feature Requests ---
+// What each feature sends and how it becomes a model request. Clients send only a
+// feature's typed input; the API server checks it against the feature's input schema and
+// builds the prompt, system instruction, response schema and search setting here, so the
+// model can only be asked what the app itself asks.
+
+/** A file sent inline, base64-encoded. */
+export interface InlineFile {
+    mimeType: string;
+    data: string;
+}
+
+export interface AIFeatureInputs {
+    /** The interactions the bundled reference finds are added on the server. */
+    assistant: { age: string; symptoms: string; medications: string; vitals: Vitals };
+    /** The figures are worked out again on the server, so the model comments on the real ones. */
+    calculator: { formula: EnergyFormula; activity: ActivityLevel; metrics: BodyMetrics };
+    scanner: { pages: InlineFile[] };
+    /** `area` is the generalised location shown to the user before it is sent. */
+    hospitals: { area: string; emergencyOnly: boolean };
+    booking: { hospital: string; date: string; time: string };
+    /** Personal details are already placeholders. */
+    delivery: { address: string; medications: string; hasPrescription: boolean };
+    biometric: { age: string; heightCm?: number; vitals: Vitals };
+    imaging: { report: string };
+    meal: { photo: InlineFile };
+    /** Personal details are already placeholders; `history` is oldest first. */
+    chat: { message: string; history: AIChatMessage[] };
+}
+
+export interface AIStructuredOutputs {
+    assistant: SymptomAnalysis;
+    scanner: ScanResult;
+    hospitals: Hospital[];
+    booking: BookingConfirmation;
+    imaging: AnalysisResult;
+    meal: MealRecognition;
+}
+
+export type StructuredFeature = keyof AIStructuredOutputs;
+export type TextFeature = 'calculator' | 'delivery' | 'biometric';
+/** Features answered in one response; `chat` streams instead. */
+export type OneShotFeature = StructuredFeature | TextFeature;
+
+export type AIFeatureResult<F extends OneShotFeature> = F extends StructuredFeature ? StructuredResponse<AIStructuredOutputs[F]> : AIGenerateResponse;
+
+export type ChatInput = AIFeatureInputs['chat'];
+
+interface FeatureSpec<F extends OneShotFeature> {
+    input: ResponseSchema<AIFeatureInputs[F]>;
+    /** Problems the input schema cannot express. */
+    check?: (input: AIFeatureInputs[F]) => string[];
+    request: (input: AIFeatureInputs[F]) => AIGenerateRequest;
+}
+
+/** Added to system instructions and prompts that may contain placeholders. */
+export const PLACEHOLDER_INSTRUCTION =
+    'Personal details in the user\'s text have been replaced with placeholders such as [NAME_1], [PHONE_1] or [ADDRESS_1]. Keep any placeholder you need exactly as written and never guess what it stands for.';
+
+const CHAT_INSTRUCTION = 'You are a helpful and knowledgeable AI medical assistant named Dhanvantari. Provide clear, concise, and safe medical information. Always remind the user that you are not a real doctor and they should consult a professional for any serious health concerns. ' + PLACEHOLDER_INSTRUCTION;
+
+// Prompt names for the formulas, which the model knows in English.
+const FORMULA_NAMES: Record<EnergyFormula, string> = {
+    mifflin: 'Mifflin-St Jeor',
+    harris: 'revised Harris-Benedict',
+    katch: 'Katch-McArdle',
+    child: "Institute of Medicine children's energy requirement",
+};
+
+// --- Input Schemas ---
+
+const PDF_TYPE = 'application/pdf';
+const MAX_SCAN_PAGES = 20;
+const MAX_CHAT_TURNS = 200;
+
+const text = (maxLength: number): Schema => ({ type: 'string', maxLength });
+
+const INLINE_FILE: Schema = {
+    type: 'object',
+    properties: { mimeType: text(100), data: { type: 'string' } },
+    required: ['mimeType', 'data'],
+};
+
+const isImage = ({ mimeType }: InlineFile) => mimeType.startsWith('image/');
+
+const VITALS: Schema = {
+    type: 'object',
+    properties: {
+        temperature: { type: 'number' },
+        systolic: { type: 'number' },
+        diastolic: { type: 'number' },
+        heartRate: { type: 'number' },
+        spo2: { type: 'number' },
+        respiratoryRate: { type: 'number' },
+        glucose: { type: 'number' },
+        glucoseTiming: { type: 'string', enum: ['fasting', 'random'] },
+        weight: { type: 'number' },
+    },
+};
+
+const inputSchema = <F extends OneShotFeature>(feature: F, properties: Record<string, Schema>, required = Object.keys(properties)) =>
+    defineSchema<AIFeatureInputs[F]>(`${feature} input`, { type: 'object', properties, required });
+
+const chatInputSchema = defineSchema<ChatInput>('chat input', {
+    type: 'object',
+    properties: {
+        message: text(8000),
+        history: {
+            type: 'array',
+            maxItems: MAX_CHAT_TURNS,
+            items: { type: 'object', properties: { role: { type: 'string', enum: ['user', 'model'] }, text: text(32000) }, required: ['role', 'text'] },
+        },
+    },
+    required: ['message', 'history'],
+});
+
+// --- Prompts ---
+
+/** The hospital search as the model gets it; also shown to the user before it is sent. */
+export const hospitalSearchPrompt = ({ area, emergencyOnly }: AIFeatureInputs['hospitals']) => {
+    const filter = emergencyOnly
+        ? ' Only include hospitals with an emergency department that is open 24 hours a day, 7 days a week, nearest first.'
+        : '';
+    return `Find hospitals near ${area}.${filter} For each hospital, provide the name, full address, phone number, latitude, longitude, approximate distance from the location, and whether it has a 24/7 emergency department.`;
+};
+
+/** The medicine order as the model gets it; also shown to the user before it is sent. */
+export const orderPrompt = ({ address, medications, hasPrescription }: AIFeatureInputs['delivery']) => [
+    'A user is placing a medicine order.',
+    `- Delivery Address: ${address}`,
+    `- Medications Requested: ${medications}`,
+    `- A prescription file ${hasPrescription ? 'has been' : 'has not been'} uploaded.`,
+    '',
+    'Please confirm the order and provide an estimated delivery time.',
+    'Respond with a friendly confirmation message in markdown format.',
+    PLACEHOLDER_INSTRUCTION,
+].join('\n');
+
+const FEATURES: { [F in OneShotFeature]: FeatureSpec<F> } = {
+    assistant: {
+        input: inputSchema('assistant', { age: text(20), symptoms: text(4000), medications: text(2000), vitals: VITALS }),
+        request: ({ age, symptoms, medications, vitals }) => {
+            // Interactions from the bundled reference are shown as-is; the model only adds to them.
+            const known = checkInteractions(splitMedicationList(medications)).findings
+                .map(f => `${f.drugs[0].drug.name} + ${f.drugs[1].drug.name} (${f.severity}, ${f.effect})`);
+            return {
+                contents: `
+                    Act as a helpful medical assistant. Analyze the following patient information and provide a brief, clear analysis.
+                    - Patient Age: ${age}
+                    - Vitals: ${describeVitals(vitals, parseVital(age)) || 'not measured'}
+                    - Symptoms: ${symptoms}
+                    - Current Medications: ${medications}
+                    - Interactions already found in a reference list: ${known.length > 0 ? known.join('; ') : 'none'}
+
+                    Based on this information:
+                    1. Identify any other potential drug interactions, without repeating those already found.
+                    2. Note any concerns based on the combination of symptoms, age, and medications.
+                    3. Suggest general, non-prescriptive wellness actions (e.g., rest, hydration).
+                    4. Rate how urgently the patient should seek care.
+                `,
+            };
+        },
+    },
+    calculator: {
+        input: inputSchema('calculator', {
+            formula: { type: 'string', enum: [...BMR_FORMULAS, 'child'] },
+            activity: { type: 'string', enum: ACTIVITY_LEVELS },
+            metrics: {
+                type: 'object',
+                properties: {
+                    age: { type: 'number', minimum: 0, maximum: 130 },
+                    sex: { type: 'string', enum: ['male', 'female'] },
+                    weightKg: { type: 'number', minimum: 0.5, maximum: 500 },
+                    heightCm: { type: 'number', minimum: 20, maximum: 280 },
+                    bodyFatPercent: { type: 'number', minimum: 0, maximum: 100 },
+                },
+                required: ['age', 'sex', 'weightKg', 'heightCm'],
+            },
+        }),
+        check: ({ formula, metrics }) => {
+            if ((formula === 'child') !== isChild(metrics.age)) return [`$.formula: "${formula}" does not apply at age ${metrics.age}`];
+            return formula !== 'child' && !canUseFormula(formula, metrics) ? ['$.metrics.bodyFatPercent: is required for Katch-McArdle'] : [];
+        },
+        request: ({ formula, activity, metrics }) => {
+            const result = formula === 'child' ? calculateChildCalories(activity, metrics) : calculateCalories(formula, activity, metrics);
+            return {
+                contents: `
+                    The following daily energy figures were calculated with the ${FORMULA_NAMES[result.formula]} equation for a
+                    ${metrics.age}-year-old ${metrics.sex}, ${metrics.weightKg.toFixed(1)} kg, ${metrics.heightCm.toFixed(0)} cm${metrics.bodyFatPercent ? `, ${metrics.bodyFatPercent}% body fat` : ''},
+                    activity level "${result.activity}":
+                    - Basal metabolic rate: ${result.bmr} kcal/day
+                    - Total daily energy expenditure: ${result.tdee} kcal/day
+                    ${result.targets.map(target => `- Goal "${target.goal}": ${target.calories} kcal/day, protein ${target.proteinG} g, carbohydrate ${target.carbsG} g, fat ${target.fatG} g`).join('\n')}
+                    ${result.formula === 'child' ? 'This is a child, and the daily figure includes the energy needed for growth. Do not suggest weight loss or calorie restriction; refer any weight concern to a paediatrician.' : ''}
+
+                    Do not recalculate or change any of these numbers. Add brief, practical commentary:
+                    what the figures mean, sensible ways to reach these targets with everyday Indian foods,
+                    and any caveats for this person. Format the response in markdown.
+                `,
+            };
+        },
+    },
+    scanner: {
+        input: inputSchema('scanner', {
+            pages: { type: 'array', items: INLINE_FILE, minItems: 1, maxItems: MAX_SCAN_PAGES },
+        }),
+        check: ({ pages }) => pages.flatMap((page, i) => (isImage(page) || page.mimeType === PDF_TYPE ? [] : [`$.pages[${i}].mimeType: must be an image or a PDF`])),
+        request: ({ pages }) => {
+            const documentNote = pages.length > 1
+                ? `The ${pages.length} attached files are the pages of one prescription, in order; read them as a single document.\n`
+                : '';
+            const textPart = { text: `${documentNote}Extract all the text from this prescription as 'extractedText', then list the names of every medication it mentions as 'medications'.
+                In 'lines', give one entry per medication with its strength, form, dose, frequency, duration, route and other instructions,
+                each copied exactly as written, including shorthand such as "1-0-1", "BD", "TDS", "HS", "SOS" or "5/7"; leave out any part that is not written.
+                For each entry also give the page it is on as 'page', the box around the whole entry on that page as 'box', and in 'unclear' every part you could not read with confidence.
+                Give the prescribing doctor's name as 'prescriber' and the date of the prescription as 'prescribedOn' in YYYY-MM-DD format, if shown.` };
+            // Each page keeps its own type, so PDFs and PNGs are not labelled as JPEGs.
+            return { contents: { parts: [...pages.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })), textPart] } };
+        },
+    },
+    hospitals: {
+        input: inputSchema('hospitals', { area: text(200), emergencyOnly: { type: 'boolean' } }),
+        request: input => ({ contents: hospitalSearchPrompt(input), config: { useSearch: true } }),
+    },
+    booking: {
+        input: inputSchema('booking', { hospital: text(200), date: text(10), time: text(20) }),
+        request: ({ hospital, date, time }) => ({
+            contents: `The user wants to book a medical appointment.
+                - Hospital: ${hospital}
+                - Date: ${date}
+                - Time: ${time}
+
+                Please confirm the booking and generate a unique 8-character alphanumeric confirmation number.
+            `,
+        }),
+    },
+    delivery: {
+        input: inputSchema('delivery', { address: text(1000), medications: text(2000), hasPrescription: { type: 'boolean' } }),
+        request: input => ({ contents: orderPrompt(input) }),
+    },
+    biometric: {
+        input: inputSchema('biometric', { age: text(20), heightCm: { type: 'number', minimum: 0, maximum: 300 }, vitals: VITALS }, ['age', 'vitals']),
+        request: ({ age, heightCm, vitals }) => ({
+            contents: `
+                Perform a brief, general health analysis based on the following biometric data.
+                - Age: ${age}
+                - Estimated Height: ${heightCm !== undefined ? `${heightCm} cm` : 'not measured'}
+                - Vitals: ${describeVitals(vitals, parseVital(age)) || 'not measured'}
+
+                Provide a general wellness observation and a simple suggestion.
+                Format the response in markdown.
+            `,
+        }),
+    },
+    imaging: {
+        input: inputSchema('imaging', { report: text(1_000_000) }),
+        request: ({ report }) => ({
+            contents: `Analyze the following medical report and provide a diagnosis and an estimated recovery timeline. Use Google Search to ensure the recovery information is up-to-date. Report content: "${report}"`,
+            config: { useSearch: true },
+        }),
+    },
+    meal: {
+        input: inputSchema('meal', { photo: INLINE_FILE }),
+        check: ({ photo }) => (isImage(photo) ? [] : ['$.photo.mimeType: must be an image']),
+        request: ({ photo: { mimeType, data } }) => ({
+            contents: {
+                parts: [
+                    { inlineData: { mimeType, data } },
+                    {
+                        text: "Identify every food and drink on this plate or table. For each, estimate the visible portion, its weight in grams, "
+                            + "and the calories, protein, carbohydrate and fat for that portion. Count separate pieces (e.g. 2 rotis) as one item. "
+                            + "Use the common Indian name where there is one.",
+                    },
+                ],
+            },
+        }),
+    },
+};
+
+const OUTPUT_SCHEMAS: { [F in StructuredFeature]: ResponseSchema<AIStructuredOutputs[F]> } = {
+    assistant: symptomAnalysisSchema,
+    scanner: scanResultSchema,
+    hospitals: hospitalListSchema,
+    booking: bookingConfirmationSchema,
+    imaging: analysisResultSchema,
+    meal: mealRecognitionSchema,
+};
+
+export const isStructuredFeature = (feature: AIFeature): feature is StructuredFeature => feature in OUTPUT_SCHEMAS;
+
+/** Asks the model to answer in the user's chosen language. JSON keys and enum values must stay as specified. */
+const withResponseLanguage = (systemInstruction: string | undefined, language: LanguageCode) => {
+    const { code, englishName } = LANGUAGES.find(l => l.code === language) ?? LANGUAGES[0];
+    if (code === 'en') return systemInstruction;
+    const note = `Always respond in ${englishName}. When responding with JSON, write the text values in ${englishName} but keep property names and enum values exactly as specified in English.`;
+    return systemInstruction ? `${systemInstruction}\n\n${note}` : note;
+};
+
+/** Checks what a client sent for a feature against its input schema. */
+export const parseFeatureInput = <F extends OneShotFeature>(feature: F, value: unknown): ValidationResult<AIFeatureInputs[F]> => {
+    const spec = FEATURES[feature] as FeatureSpec<F>;
+    const result = validate(spec.input, value);
+    const errors = result.ok && spec.check ? spec.check(result.value!) : [];
+    return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const parseChatInput = (value: unknown): ValidationResult<ChatInput> => validate(chatInputSchema, value);
+
+/**
+ * Builds the feature's request from its input and runs it. Structured features come back
+ * validated against their response schema, with one repair attempt.
+ */
+export const runFeature = <F extends OneShotFeature>(
+    provider: AIProvider,
+    context: { feature: F; model: string },
+    input: AIFeatureInputs[F],
+    language: LanguageCode,
+): Promise<AIFeatureResult<F>> => {
+    const { feature } = context;
+    const request = (FEATURES[feature] as FeatureSpec<F>).request(input);
+    const localized = { ...request, config: { ...request.config, systemInstruction: withResponseLanguage(request.config?.systemInstruction, language) } };
+    const result = isStructuredFeature(feature)
+        ? generateStructured(provider, context, localized, OUTPUT_SCHEMAS[feature] as ResponseSchema<unknown>)
+        : provider.generateContent(context, localized);
+    return result as Promise<AIFeatureResult<F>>;
+};
+
+/** The answer language is fixed when the session is created; start a new session after switching. */
+export const chatOptions = (history: AIChatMessage[], language: LanguageCode): AIChatOptions => ({
+    systemInstruction: withResponseLanguage(CHAT_INSTRUCTION, language),
+    history,
+});
@@ -0,0 +1,99 @@
+import type { AIFeature, AIGenerateResponse } from './types';
+
+// --- Offline Fixtures ---
+// Canned responses used by the mock provider. They mirror the shape each page
+// expects from the real model so screens can be developed and demoed offline.
+
+const hospitals = [
+    {
+        name: "City General Hospital",
+        address: "12 MG Road, Bengaluru, Karnataka 560001",
+        phone: "+91 80 2222 1111",
+        latitude: 12.9756,
+        longitude: 77.6050,
+        distance: "1.2 km",
+        emergency24x7: true,
+    },
+    {
+        name: "Sunrise Multispeciality Clinic",
+        address: "45 Residency Road, Bengaluru, Karnataka 560025",
+        phone: "+91 80 3333 2222",
+        latitude: 12.9680,
+        longitude: 77.6010,
+        distance: "2.8 km",
+        emergency24x7: false,
+    },
+    {
+        name: "Lakeview Emergency Care Centre",
+        address: "7 Ulsoor Lake Road, Bengaluru, Karnataka 560008",
+        phone: "+91 80 4444 3333",
+        latitude: 12.9830,
+        longitude: 77.6190,
+        distance: "3.5 km",
+        emergency24x7: true,
+    },
+];
+
+const textFixtures: Record<AIFeature, string> = {
+    assistant: JSON.stringify({
+        summary: "The reported symptoms are consistent with a **mild viral illness**. No urgent warning signs were identified from the information provided.",
+        urgency: "self-care",
+        potentialInteractions: [],
+        concerns: ["Fever lasting more than three days should be reviewed by a doctor."],
+        wellnessSuggestions: [
+            "Rest and stay well hydrated.",
+            "Monitor your temperature twice a day.",
+            "Seek care if symptoms worsen or last longer than three days.",
+        ],
+    }),
+    calculator: `### What these figures mean
+Your daily energy use is an estimate; track your weight for two to three weeks and adjust by about 100-200 kcal if it moves differently than expected.
+
+### Reaching your targets
+- Build meals around dal, curd, paneer, eggs or chicken to meet the protein target.
+- Prefer whole grains such as millets, brown rice and whole-wheat roti for carbohydrates.
+`,
+    scanner: JSON.stringify({
+        extractedText: "Rx\nTab. Paracetamol 500mg - 1 tablet twice daily for 5 days\nTab. Cetirizine 10mg - 1 tablet at night for 3 days",
+        medications: ["Paracetamol", "Cetirizine"],
+        lines: [
+            { name: "Paracetamol", strength: "500mg", form: "Tab", dose: "1 tablet", frequency: "twice daily", duration: "5 days", page: 1, box: [180, 90, 260, 900] },
+            { name: "Cetirizine", strength: "10mg", form: "Tab", dose: "1 tablet", frequency: "at night", duration: "3 days", page: 1, box: [280, 90, 360, 900], unclear: ["strength"] },
+        ],
+    }),
+    hospitals: "Here are hospitals near the requested location:\n```json\n" + JSON.stringify(hospitals, null, 2) + "\n```\n",
+    booking: JSON.stringify({
+        message: "Your appointment has been booked!",
+        confirmationNumber: "MOCK1234",
+    }),
+    delivery: `**Order confirmed!** Your medicines will be delivered within **24 hours**. You will receive an SMS when the rider is on the way.
+`,
+    biometric: `### Wellness Observation
+Your estimated height and temperature are within typical ranges.
+
+### Suggestion
+- Keep up regular activity and stay hydrated.
+`,
+    imaging: "```json\n" + JSON.stringify({
+        diagnosis: "Mild iron-deficiency anaemia suggested by low haemoglobin and ferritin.",
+        recovery_timeline: "Levels typically improve within 4-8 weeks of iron supplementation.",
+    }, null, 2) + "\n```\n",
+    meal: JSON.stringify({
+        items: [
+            { name: "Roti", lookupName: "roti", portion: "2 rotis", grams: 80, calories: 238, proteinG: 8.8, carbsG: 36.8, fatG: 6 },
+            { name: "Dal tadka", lookupName: "dal tadka", portion: "1 bowl", grams: 150, calories: 165, proteinG: 9, carbsG: 21, fatG: 5.3 },
+            { name: "Cucumber and onion salad", lookupName: "salad", portion: "small side", grams: 60, calories: 10, proteinG: 0.4, carbsG: 2.2, fatG: 0.1 },
+        ],
+    }),
+    chat: "I'm running in offline demo mode, so I can't give a real answer right now. Remember, I'm not a substitute for a doctor - please consult a professional for any serious health concerns.",
+};
+
+export const getFixtureResponse = (feature: AIFeature): AIGenerateResponse => ({
+    text: textFixtures[feature],
+    sources: feature === 'hospitals'
+        ? [{ uri: 'https://example.com/hospital-directory', title: 'Offline hospital directory (mock)' }]
+        : [],
+});
+
+export const getFixtureChatReply = (message: string): string =>
+    `You asked: "${message.trim()}". ${textFixtures.chat}`;
@@ -0,0 +1,54 @@
+import { GoogleGenAI } from "@google/genai";
+import { toGeminiSchema } from './schema';
+import type { AIChatOptions, AIChatSession, AIGenerateRequest, AIGenerateResponse, AIProvider, AIRequestContext, AISource } from './types';
+
+export class GeminiProvider implements AIProvider {
+    readonly name = 'gemini' as const;
+    private client: GoogleGenAI | null = null;
+
+    constructor(private readonly apiKey: string | undefined) {}
+
+    // The client is created lazily so that selecting the mock provider never requires a key.
+    private getClient(): GoogleGenAI {
+        if (!this.client) {
+            this.client = new GoogleGenAI({ apiKey: this.apiKey });
+        }
+        return this.client;
+    }
+
+    async generateContent(context: AIRequestContext, request: AIGenerateRequest): Promise<AIGenerateResponse> {
+        const { responseMimeType, responseSchema, useSearch, systemInstruction } = request.config ?? {};
+        const response = await this.getClient().models.generateContent({
+            model: context.model,
+            contents: request.contents,
+            config: {
+                ...(responseMimeType && { responseMimeType }),
+                ...(responseSchema && { responseSchema: toGeminiSchema(responseSchema) }),
+                ...(systemInstruction && { systemInstruction }),
+                ...(useSearch && { tools: [{ googleSearch: {} }] }),
+            },
+        });
+
+        const sources: AISource[] = (response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [])
+            .filter(chunk => chunk.web?.uri)
+            .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web!.title || chunk.web!.uri! }));
+
+        return { text: response.text ?? '', sources };
+    }
+
+    createChat(context: AIRequestContext, options: AIChatOptions): AIChatSession {
+        const chat = this.getClient().chats.create({
+            model: context.model,
+            config: { systemInstruction: options.systemInstruction },
+            history: (options.history ?? []).map(({ role, text }) => ({ role, parts: [{ text }] })),
+        });
+        return {
+            async *sendMessageStream(message: string) {
+                const stream = await chat.sendMessageStream({ message });
+                for await (const chunk of stream) {
+                    if (chunk.text) yield chunk.text;
+                }
+            },
+        };
+    }
+}
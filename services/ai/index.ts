@@ -0,0 +1,8 @@
+export type * from './types';
+export { aiConfig, DEFAULT_MODEL } from './config';
+export { createChat, generateContent, generateStructured } from './client';
+export { hospitalSearchPrompt, orderPrompt } from './features';
+export type { AIFeatureInputs, InlineFile, StructuredFeature, TextFeature } from './features';
+export { StructuredResponseError } from './structured';
+export type { StructuredResponse } from './structured';
+export * from './responseSchemas';
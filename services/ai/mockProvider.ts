@@ -0,0 +1,29 @@
+import { getFixtureChatReply, getFixtureResponse } from './fixtures';
+import type { AIChatSession, AIGenerateResponse, AIProvider, AIRequestContext } from './types';
+
+const MOCK_LATENCY_MS = 400;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Deterministic, network-free provider backed by the fixtures in ./fixtures. */
+export class MockProvider implements AIProvider {
+    readonly name = 'mock' as const;
+
+    async generateContent(context: AIRequestContext): Promise<AIGenerateResponse> {
+        await delay(MOCK_LATENCY_MS);
+        return getFixtureResponse(context.feature);
+    }
+
+    createChat(): AIChatSession {
+        return {
+            async *sendMessageStream(message: string) {
+                // Stream word by word so the chat UI behaves like it does against a real model.
+                const words = getFixtureChatReply(message).split(/(?<= )/);
+                for (const word of words) {
+                    await delay(30);
+                    yield word;
+                }
+            },
+        };
+    }
+}
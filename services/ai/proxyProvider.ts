@@ -0,0 +1,47 @@
+import { apiFetch } from '../api';
+import type { LanguageCode } from '../i18n/languages';
+import type { AIFeatureInputs, AIFeatureResult, OneShotFeature } from './features';
+import type { AIChatMessage, AIChatSession } from './types';
+
+/**
+ * Browser-side provider that forwards each feature's input to the API server. The server
+ * builds the prompt and picks the real provider and model, so only the input and the
+ * answer language are sent.
+ */
+export class ProxyProvider {
+    readonly name = 'proxy' as const;
+
+    async runFeature<F extends OneShotFeature>(feature: F, input: AIFeatureInputs[F], language: LanguageCode): Promise<AIFeatureResult<F>> {
+        const response = await apiFetch(`/ai/${feature}`, {
+            method: 'POST',
+            body: JSON.stringify({ input, language }),
+        });
+        return response.json();
+    }
+
+    createChat(history: AIChatMessage[], language: LanguageCode): AIChatSession {
+        // The server is stateless, so the session keeps the transcript and replays it each turn.
+        const transcript: AIChatMessage[] = [...history];
+        return {
+            async *sendMessageStream(message: string) {
+                const response = await apiFetch('/ai/chat/stream', {
+                    method: 'POST',
+                    body: JSON.stringify({ message, history: transcript, language }),
+                });
+                if (!response.body) throw new Error('Streaming is not supported by this browser.');
+
+                const reader = response.body.getReader();
+                const decoder = new TextDecoder();
+                let reply = '';
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    const chunk = decoder.decode(value, { stream: true });
+                    reply += chunk;
+                    yield chunk;
+                }
+                transcript.push({ role: 'user', text: message }, { role: 'model', text: reply });
+            },
+        };
+    }
+}
@@ -0,0 +1,224 @@
+import { defineSchema } from './schema';
+
+// --- Structured Response Types ---
+
+export interface Hospital {
+    name: string;
+    address: string;
+    phone?: string;
+    latitude?: number;
+    longitude?: number;
+    distance?: string;
+    emergency24x7?: boolean;
+}
+
+/** The parts of a prescription line, in the order they are usually written. */
+export const PRESCRIPTION_FIELDS = ['name', 'strength', 'form', 'dose', 'frequency', 'duration', 'route', 'instructions'] as const;
+
+export type PrescriptionField = typeof PRESCRIPTION_FIELDS[number];
+
+/** One medicine on a prescription, each part as written; services/prescription.ts reads the shorthand. */
+export interface PrescriptionLine {
+    name: string;
+    strength?: string;
+    form?: string;
+    dose?: string;
+    /** e.g. "1-0-1", "BD", "TDS", "SOS". */
+    frequency?: string;
+    /** e.g. "5 days", "1/52", "continue". */
+    duration?: string;
+    route?: string;
+    instructions?: string;
+    /** The 1-based page the medicine is written on. */
+    page?: number;
+    /** Where it is written on that page: `[top, left, bottom, right]`, each from 0 to 1000. */
+    box?: [number, number, number, number];
+    /** Parts that were hard to read. */
+    unclear?: PrescriptionField[];
+}
+
+export interface ScanResult {
+    extractedText: string;
+    medications: string[];
+    /** Missing from scans made before prescriptions were read line by line. */
+    lines?: PrescriptionLine[];
+    prescriber?: string;
+    /** `YYYY-MM-DD`, when the prescription is dated. */
+    prescribedOn?: string;
+}
+
+export interface AnalysisResult {
+    diagnosis: string;
+    recovery_timeline: string;
+    fracture_coordinates?: [number, number, number];
+}
+
+export interface BookingConfirmation {
+    message: string;
+    confirmationNumber: string;
+}
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+export type Urgency = 'self-care' | 'see-doctor' | 'urgent';
+
+export interface SymptomAnalysis {
+    summary: string;
+    urgency: Urgency;
+    potentialInteractions: { medications: string[]; severity: InteractionSeverity; description: string }[];
+    concerns: string[];
+    wellnessSuggestions: string[];
+}
+
+/** One food seen in a meal photo, with the model's estimates for the visible portion. */
+export interface MealItemEstimate {
+    name: string;
+    /** English or transliterated name, for matching the bundled nutrition reference. */
+    lookupName: string;
+    portion: string;
+    grams: number;
+    calories: number;
+    proteinG: number;
+    carbsG: number;
+    fatG: number;
+}
+
+export interface MealRecognition {
+    items: MealItemEstimate[];
+}
+
+// --- Schemas ---
+
+export const hospitalListSchema = defineSchema<Hospital[]>('hospital list', {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            address: { type: 'string', description: 'Full street address' },
+            phone: { type: 'string', nullable: true },
+            latitude: { type: 'number', minimum: -90, maximum: 90, nullable: true },
+            longitude: { type: 'number', minimum: -180, maximum: 180, nullable: true },
+            distance: { type: 'string', description: 'Approximate distance, e.g. "2.5 km"', nullable: true },
+            emergency24x7: { type: 'boolean', description: 'Whether it has an emergency department open 24/7', nullable: true },
+        },
+        required: ['name', 'address'],
+    },
+});
+
+export const scanResultSchema = defineSchema<ScanResult>('prescription scan', {
+    type: 'object',
+    properties: {
+        extractedText: { type: 'string', description: 'All text found on the prescription' },
+        medications: { type: 'array', items: { type: 'string' }, description: 'Names of the medications listed' },
+        lines: {
+            type: 'array',
+            description: 'One entry per medication, each part copied as written',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string' },
+                    strength: { type: 'string', description: 'e.g. "500 mg"', nullable: true },
+                    form: { type: 'string', description: 'e.g. "Tab", "Syp", "Inj"', nullable: true },
+                    dose: { type: 'string', description: 'Amount per dose, e.g. "1 tab", "5 ml"', nullable: true },
+                    frequency: { type: 'string', description: 'e.g. "1-0-1", "BD", "TDS", "HS", "SOS"', nullable: true },
+                    duration: { type: 'string', description: 'e.g. "5 days", "x 1/52", "continue"', nullable: true },
+                    route: { type: 'string', description: 'e.g. "PO", "SL", "topical"', nullable: true },
+                    instructions: { type: 'string', description: 'e.g. "after food"', nullable: true },
+                    page: { type: 'integer', minimum: 1, description: 'Page the medication is written on, counting from 1', nullable: true },
+                    box: {
+                        type: 'array',
+                        items: { type: 'number', minimum: 0, maximum: 1000 },
+                        minItems: 4,
+                        maxItems: 4,
+                        nullable: true,
+                        description: 'Bounding box of the whole entry on its page as [ymin, xmin, ymax, xmax], scaled to 0-1000',
+                    },
+                    unclear: {
+                        type: 'array',
+                        items: { type: 'string', enum: [...PRESCRIPTION_FIELDS] },
+                        nullable: true,
+                        description: 'Fields of this entry whose handwriting or print was hard to read',
+                    },
+                },
+                required: ['name'],
+            },
+            nullable: true,
+        },
+        prescriber: { type: 'string', description: 'Name of the prescribing doctor', nullable: true },
+        prescribedOn: { type: 'string', description: 'Date of the prescription as YYYY-MM-DD', nullable: true },
+    },
+    required: ['extractedText', 'medications'],
+});
+
+export const analysisResultSchema = defineSchema<AnalysisResult>('imaging analysis', {
+    type: 'object',
+    properties: {
+        diagnosis: { type: 'string' },
+        recovery_timeline: { type: 'string' },
+        fracture_coordinates: {
+            type: 'array',
+            items: { type: 'number' },
+            minItems: 3,
+            maxItems: 3,
+            nullable: true,
+            description: 'Optional [x, y, z] marker position on the 3D skeleton',
+        },
+    },
+    required: ['diagnosis', 'recovery_timeline'],
+});
+
+export const bookingConfirmationSchema = defineSchema<BookingConfirmation>('booking confirmation', {
+    type: 'object',
+    properties: {
+        message: { type: 'string' },
+        confirmationNumber: { type: 'string', description: 'Unique 8-character alphanumeric code' },
+    },
+    required: ['message', 'confirmationNumber'],
+});
+
+export const symptomAnalysisSchema = defineSchema<SymptomAnalysis>('symptom analysis', {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'Brief overview of the situation; markdown allowed' },
+        urgency: { type: 'string', enum: ['self-care', 'see-doctor', 'urgent'] },
+        potentialInteractions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    medications: { type: 'array', items: { type: 'string' } },
+                    severity: { type: 'string', enum: ['minor', 'moderate', 'major'] },
+                    description: { type: 'string' },
+                },
+                required: ['medications', 'severity', 'description'],
+            },
+        },
+        concerns: { type: 'array', items: { type: 'string' } },
+        wellnessSuggestions: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['summary', 'urgency', 'potentialInteractions', 'concerns', 'wellnessSuggestions'],
+});
+
+export const mealRecognitionSchema = defineSchema<MealRecognition>('meal recognition', {
+    type: 'object',
+    properties: {
+        items: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    name: { type: 'string', description: 'The food as the user would call it' },
+                    lookupName: { type: 'string', description: 'Common English or transliterated Indian name, e.g. "roti", "dal", "chicken biryani"' },
+                    portion: { type: 'string', description: 'The visible portion, e.g. "2 pieces" or "1 bowl"' },
+                    grams: { type: 'number', minimum: 1, description: 'Estimated weight of the portion in grams' },
+                    calories: { type: 'number', minimum: 0, description: 'Estimated kcal for the portion' },
+                    proteinG: { type: 'number', minimum: 0 },
+                    carbsG: { type: 'number', minimum: 0 },
+                    fatG: { type: 'number', minimum: 0 },
+                },
+                required: ['name', 'lookupName', 'portion', 'grams', 'calories', 'proteinG', 'carbsG', 'fatG'],
+            },
+        },
+    },
+    required: ['items'],
+});
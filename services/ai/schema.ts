@@ -0,0 +1,130 @@
+// --- Response Schemas ---
+// A small JSON-schema subset that is both sent to the model as its response schema
+// and used to validate the reply at runtime, so the two can never drift apart. The API
+// server checks what each feature is sent against one too.
+
+export type Schema =
+    | { type: 'string'; description?: string; enum?: string[]; maxLength?: number; nullable?: boolean }
+    | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number; nullable?: boolean }
+    | { type: 'boolean'; description?: string; nullable?: boolean }
+    | { type: 'array'; description?: string; items: Schema; minItems?: number; maxItems?: number; nullable?: boolean }
+    | { type: 'object'; description?: string; properties: Record<string, Schema>; required?: string[]; nullable?: boolean };
+
+/** A schema tagged with the TypeScript type it validates to. */
+export interface ResponseSchema<T> {
+    name: string;
+    schema: Schema;
+    /** Type-only marker; never set at runtime. */
+    readonly __type?: T;
+}
+
+export const defineSchema = <T>(name: string, schema: Schema): ResponseSchema<T> => ({ name, schema });
+
+export interface ValidationResult<T> {
+    ok: boolean;
+    /** Set only when `ok`. */
+    value?: T;
+    errors: string[];
+}
+
+const typeOf = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const collectErrors = (schema: Schema, value: unknown, path: string, errors: string[]) => {
+    if (value === null || value === undefined) {
+        if (!schema.nullable) errors.push(`${path}: expected ${schema.type}, got ${typeOf(value)}`);
+        return;
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                errors.push(`${path}: expected string, got ${typeOf(value)}`);
+            } else if (schema.enum && !schema.enum.includes(value)) {
+                errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+            } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+                errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+            }
+            return;
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || Number.isNaN(value)) {
+                errors.push(`${path}: expected ${schema.type}, got ${typeOf(value)}`);
+            } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+                errors.push(`${path}: expected an integer`);
+            } else if (schema.minimum !== undefined && value < schema.minimum) {
+                errors.push(`${path}: must be at least ${schema.minimum}`);
+            } else if (schema.maximum !== undefined && value > schema.maximum) {
+                errors.push(`${path}: must be at most ${schema.maximum}`);
+            }
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') errors.push(`${path}: expected boolean, got ${typeOf(value)}`);
+            return;
+        case 'array':
+            if (!Array.isArray(value)) {
+                errors.push(`${path}: expected array, got ${typeOf(value)}`);
+                return;
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${path}: expected at least ${schema.minItems} item(s)`);
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                errors.push(`${path}: expected at most ${schema.maxItems} item(s)`);
+            }
+            value.forEach((item, i) => collectErrors(schema.items, item, `${path}[${i}]`, errors));
+            return;
+        case 'object':
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                errors.push(`${path}: expected object, got ${typeOf(value)}`);
+                return;
+            }
+            for (const key of schema.required ?? []) {
+                if ((value as Record<string, unknown>)[key] === undefined) errors.push(`${path}.${key}: is required`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                const propertyValue = (value as Record<string, unknown>)[key];
+                if (propertyValue !== undefined) collectErrors(propertySchema, propertyValue, `${path}.${key}`, errors);
+            }
+            return;
+    }
+};
+
+export const validate = <T>({ schema }: ResponseSchema<T>, value: unknown): ValidationResult<T> => {
+    const errors: string[] = [];
+    collectErrors(schema, value, '$', errors);
+    return errors.length ? { ok: false, errors } : { ok: true, value: value as T, errors };
+};
+
+/** Converts to the OpenAPI-style schema Gemini expects (`type: 'OBJECT'`, ...). */
+export const toGeminiSchema = (schema: Schema): Record<string, unknown> => {
+    const { type, ...rest } = schema;
+    const converted: Record<string, unknown> = { ...rest, type: type.toUpperCase() };
+    if (schema.type === 'array') converted.items = toGeminiSchema(schema.items);
+    if (schema.type === 'object') {
+        converted.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]));
+        converted.propertyOrdering = Object.keys(schema.properties);
+    }
+    return converted;
+};
+
+/**
+ * Pulls a JSON value out of model text: a ```json fence if present, otherwise the
+ * outermost object/array. Returns undefined when nothing parses.
+ */
+export const extractJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+    const candidates = [fenced?.[1], text.trim()];
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate.
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,59 @@
+import { extractJson, ResponseSchema, validate, ValidationResult } from './schema';
+import type { AIContents, AIGenerateRequest, AIProvider, AIRequestContext, AISource } from './types';
+
+/** Thrown when the model's reply still does not match the schema after the repair attempt. */
+export class StructuredResponseError extends Error {
+    constructor(readonly schemaName: string, readonly errors: string[]) {
+        super(`The AI returned an unexpected ${schemaName} format. Please try again.`);
+        this.name = 'StructuredResponseError';
+    }
+}
+
+export interface StructuredResponse<T> {
+    data: T;
+    sources: AISource[];
+}
+
+const appendText = (contents: AIContents, text: string): AIContents =>
+    typeof contents === 'string'
+        ? `${contents}\n\n${text}`
+        : { parts: [...contents.parts, { text }] };
+
+const parseAndValidate = <T>(schema: ResponseSchema<T>, text: string): ValidationResult<T> => {
+    const json = extractJson(text);
+    if (json === undefined) return { ok: false, errors: ['response is not valid JSON'] };
+    return validate(schema, json);
+};
+
+/**
+ * Requests a response matching `schema` and validates it. Search-grounded requests cannot
+ * use a native response schema, so the schema is described in the prompt instead.
+ * If validation fails, the model gets one chance to repair its answer.
+ */
+export const generateStructured = async <T>(
+    provider: AIProvider,
+    context: AIRequestContext,
+    request: AIGenerateRequest,
+    schema: ResponseSchema<T>,
+): Promise<StructuredResponse<T>> => {
+    const config = request.config ?? {};
+    const contents = config.useSearch
+        ? appendText(request.contents, `Respond only with JSON matching this JSON schema, with no other text:\n${JSON.stringify(schema.schema)}`)
+        : request.contents;
+    const structuredConfig = config.useSearch
+        ? config
+        : { ...config, responseMimeType: 'application/json', responseSchema: schema.schema };
+
+    const first = await provider.generateContent(context, { contents, config: structuredConfig });
+    const firstResult = parseAndValidate(schema, first.text);
+    if (firstResult.ok) return { data: firstResult.value as T, sources: first.sources };
+
+    console.warn(`Invalid ${schema.name} response, retrying once:`, firstResult.errors);
+    const repairPrompt = `Your previous answer did not match the required format.\nProblems:\n- ${firstResult.errors.slice(0, 10).join('\n- ')}\nPrevious answer:\n${first.text.slice(0, 4000)}\n\nReturn the corrected JSON only.`;
+    const second = await provider.generateContent(context, { contents: appendText(contents, repairPrompt), config: structuredConfig });
+    const secondResult = parseAndValidate(schema, second.text);
+    if (secondResult.ok) return { data: secondResult.value as T, sources: second.sources.length ? second.sources : first.sources };
+
+    console.error(`Invalid ${schema.name} response after repair:`, secondResult.errors);
+    throw new StructuredResponseError(schema.name, secondResult.errors);
+};
@@ -0,0 +1,81 @@
+import type { Schema } from './schema';
+
+// --- AI Provider Types ---
+// Every feature talks to the model through these types so that the backing
+// provider (Gemini, offline mock, ...) can be swapped without touching pages.
+
+export type AIFeature =
+    | 'assistant'
+    | 'calculator'
+    | 'scanner'
+    | 'hospitals'
+    | 'booking'
+    | 'delivery'
+    | 'biometric'
+    | 'imaging'
+    | 'meal'
+    | 'chat';
+
+/**
+ * `gemini` and `mock` do the actual work; `proxy` is the browser-side provider that
+ * forwards each feature's input to the backend in /server, which holds the API key.
+ */
+export type AIProviderName = 'gemini' | 'mock' | 'proxy';
+
+export interface AIPart {
+    text?: string;
+    inlineData?: { mimeType: string; data: string };
+}
+
+export type AIContents = string | { parts: AIPart[] };
+
+export interface AIGenerateConfig {
+    responseMimeType?: string;
+    /** Ground the answer with Google Search (ignored by providers without search). */
+    useSearch?: boolean;
+    systemInstruction?: string;
+    /** Constrains the reply to JSON matching this schema; see ./schema. */
+    responseSchema?: Schema;
+}
+
+export interface AIGenerateRequest {
+    contents: AIContents;
+    config?: AIGenerateConfig;
+}
+
+export interface AISource {
+    uri: string;
+    title: string;
+}
+
+export interface AIGenerateResponse {
+    text: string;
+    sources: AISource[];
+}
+
+export interface AIChatMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface AIChatOptions {
+    systemInstruction?: string;
+    /** Earlier turns of the conversation, oldest first. */
+    history?: AIChatMessage[];
+}
+
+export interface AIChatSession {
+    sendMessageStream(message: string): AsyncGenerator<string>;
+}
+
+/** Which feature is calling and which model it was routed to. */
+export interface AIRequestContext {
+    feature: AIFeature;
+    model: string;
+}
+
+export interface AIProvider {
+    readonly name: AIProviderName;
+    generateContent(context: AIRequestContext, request: AIGenerateRequest): Promise<AIGenerateResponse>;
+    createChat(context: AIRequestContext, options: AIChatOptions): AIChatSession;
+}
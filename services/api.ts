@@ -0,0 +1,48 @@
+// --- Backend API Client ---
+// Thin fetch wrapper for the Dhanvantari API server (see /server). Every request
+// carries the session token so the server can authenticate the user and apply quotas.
+
+export const API_BASE = '/api';
+
+let sessionToken: string | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+export const setSessionToken = (token: string | null) => {
+    sessionToken = token;
+};
+
+/** Registers a callback for 401 responses, e.g. to send the user back to the login page. */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+    onUnauthorized = handler;
+};
+
+export class ApiError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (init.body && !headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+    }
+    if (sessionToken) {
+        headers.set('Authorization', `Bearer ${sessionToken}`);
+    }
+
+    const response = await fetch(`${API_BASE}${path}`, { ...init, headers });
+    if (!response.ok) {
+        let message = `Request failed with status ${response.status}.`;
+        try {
+            const body = await response.json();
+            if (typeof body?.error === 'string') message = body.error;
+        } catch {
+            // Non-JSON error body; keep the generic message.
+        }
+        if (response.status === 401 && sessionToken) onUnauthorized?.();
+        throw new ApiError(message, response.status);
+    }
+    return response;
+};
@@ -0,0 +1,33 @@
+import { apiFetch } from './api';
+
+export interface User {
+    id: string;
+    username: string;
+}
+
+export interface Session {
+    token: string;
+    expiresAt: number;
+    user: User;
+}
+
+const post = (path: string, body: unknown) => apiFetch(path, { method: 'POST', body: JSON.stringify(body) });
+
+export const register = async (username: string, password: string): Promise<Session> =>
+    (await post('/auth/register', { username, password })).json();
+
+export const login = async (username: string, password: string): Promise<Session> =>
+    (await post('/auth/login', { username, password })).json();
+
+export const logout = async (): Promise<void> => {
+    await apiFetch('/auth/logout', { method: 'POST' });
+};
+
+export const fetchCurrentUser = async (): Promise<User> => (await apiFetch('/auth/me')).json();
+
+export const requestPasswordReset = async (username: string): Promise<string> =>
+    (await (await post('/auth/password-reset/request', { username })).json()).message;
+
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+    await post('/auth/password-reset/confirm', { token, password });
+};
@@ -0,0 +1,101 @@
+import { shiftDate, toDateKey } from './nutrition';
+import { BodyMeasurement, CalorieTarget, createId, getVault } from './vault';
+
+// --- Body Trends ---
+// Weight, waist and body-fat readings over time: a trailing moving average that smooths
+// out day-to-day swings in water and food, the current rate of change, and when a goal
+// weight would be reached at the calorie calculator's planned deficit or surplus.
+
+export type BodyMeasure = 'weightKg' | 'waistCm' | 'bodyFatPercent';
+
+export const BODY_MEASURES: BodyMeasure[] = ['weightKg', 'waistCm', 'bodyFatPercent'];
+
+export interface TrendPoint {
+    date: string;
+    value: number;
+    /** Mean of the readings in the window ending on this day. */
+    average: number;
+}
+
+export type GoalProjection =
+    | { status: 'on-track'; date: string; days: number; kgPerWeek: number }
+    /** Within 0.1 kg of the goal already. */
+    | { status: 'reached' }
+    /** No calorie target, or one saved before targets kept the energy need they came from. */
+    | { status: 'no-target' }
+    /** The target maintains weight, or moves it away from the goal. */
+    | { status: 'wrong-direction' };
+
+export const AVERAGE_WINDOW_DAYS = 7;
+// The rate is fitted over the last four weeks, and only once readings span at least one.
+const RATE_WINDOW_DAYS = 28;
+const MIN_RATE_SPAN_DAYS = 7;
+
+// About 7,700 kcal per kg of body weight, as in the calorie calculator.
+const KCAL_PER_KG = 7700;
+
+// Losing more than about 1% of body weight a week, or 1 kg, risks muscle loss and gallstones.
+const SAFE_WEEKLY_LOSS_FRACTION = 0.01;
+const SAFE_WEEKLY_LOSS_KG = 1;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Whole days from one `YYYY-MM-DD` to another; date-only strings parse as UTC, so there is no DST drift. */
+export const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+
+/** Oldest first; readings on the same day keep the order they were taken in. */
+export const compareMeasurements = (a: BodyMeasurement, b: BodyMeasurement) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+export const loadMeasurements = async (): Promise<BodyMeasurement[]> => {
+    const measurements = await getVault().list('bodyMeasurements');
+    return measurements.sort(compareMeasurements);
+};
+
+export const saveMeasurement = async (values: Omit<BodyMeasurement, 'id' | 'createdAt'>): Promise<BodyMeasurement> => {
+    const measurement = { ...values, id: createId(), createdAt: new Date().toISOString() };
+    await getVault().put('bodyMeasurements', measurement);
+    return measurement;
+};
+
+export const deleteMeasurement = (id: string) => getVault().delete('bodyMeasurements', id);
+
+/** One measure's readings with a trailing moving average over `windowDays` calendar days. */
+export const trend = (measurements: BodyMeasurement[], measure: BodyMeasure, windowDays = AVERAGE_WINDOW_DAYS): TrendPoint[] => {
+    const readings = measurements
+        .filter(measurement => measurement[measure] !== undefined)
+        .map(measurement => ({ date: measurement.date, value: measurement[measure] }));
+    return readings.map(({ date, value }) => {
+        const window = readings.filter(other => other.date <= date && daysBetween(other.date, date) < windowDays);
+        return { date, value, average: round1(window.reduce((sum, other) => sum + other.value, 0) / window.length) };
+    });
+};
+
+/** Change per week over the last four weeks, by least squares; undefined until readings span a week. */
+export const weeklyRate = (points: TrendPoint[]): number | undefined => {
+    if (points.length < 2) return undefined;
+    const last = points[points.length - 1].date;
+    const recent = points.filter(point => daysBetween(point.date, last) <= RATE_WINDOW_DAYS);
+    if (daysBetween(recent[0].date, last) < MIN_RATE_SPAN_DAYS) return undefined;
+    const xs = recent.map(point => daysBetween(recent[0].date, point.date));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = recent.reduce((sum, point) => sum + point.value, 0) / recent.length;
+    const covariance = recent.reduce((sum, point, i) => sum + (xs[i] - meanX) * (point.value - meanY), 0);
+    const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    return Math.round((covariance / variance) * 7 * 100) / 100;
+};
+
+/** The most weight a week it is safe to lose without medical supervision. */
+export const safeWeeklyLoss = (weightKg: number) => round1(Math.min(SAFE_WEEKLY_LOSS_KG, weightKg * SAFE_WEEKLY_LOSS_FRACTION));
+
+export const isLossTooFast = (kgPerWeek: number, weightKg: number) => -kgPerWeek > safeWeeklyLoss(weightKg);
+
+/** When `goalKg` would be reached from `currentKg` at the target's daily deficit or surplus. */
+export const projectGoal = (currentKg: number, goalKg: number, target: CalorieTarget | undefined, from = toDateKey()): GoalProjection => {
+    const change = goalKg - currentKg;
+    if (Math.abs(change) < 0.1) return { status: 'reached' };
+    if (!target?.tdee) return { status: 'no-target' };
+    const dailyBalance = target.calories - target.tdee;
+    if (dailyBalance === 0 || Math.sign(dailyBalance) !== Math.sign(change)) return { status: 'wrong-direction' };
+    const days = Math.ceil((change * KCAL_PER_KG) / dailyBalance);
+    return { status: 'on-track', date: shiftDate(from, days), days, kgPerWeek: Math.round(((dailyBalance * 7) / KCAL_PER_KG) * 100) / 100 };
+};
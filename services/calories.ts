@@ -0,0 +1,183 @@
+import { toKg } from './vitals';
+
+// --- Energy & Macro Calculator ---
+// Resting (BMR) and daily (TDEE) energy needs, calorie targets for weight goals and
+// protein/carb/fat targets, all computed on the device so the same inputs always give
+// the same figures. The model only comments on the result.
+
+export type BmrFormula = 'mifflin' | 'harris' | 'katch';
+/** The adult BMR formulas, or the children's equations used under `ADULT_AGE`. */
+export type EnergyFormula = BmrFormula | 'child';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'extra';
+export type WeightGoal = 'lose-fast' | 'lose' | 'maintain' | 'gain' | 'gain-fast';
+export type BiologicalSex = 'male' | 'female';
+export type UnitSystem = 'metric' | 'imperial';
+
+export const BMR_FORMULAS: BmrFormula[] = ['mifflin', 'harris', 'katch'];
+export const ACTIVITY_LEVELS: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'extra'];
+export const WEIGHT_GOALS: WeightGoal[] = ['lose-fast', 'lose', 'maintain', 'gain', 'gain-fast'];
+
+// Below this age the adult formulas do not apply and children's energy requirements are used.
+export const ADULT_AGE = 19;
+
+export interface BodyMetrics {
+    /** In years; fractions are used for babies, e.g. 0.5 for six months. */
+    age: number;
+    sex: BiologicalSex;
+    weightKg: number;
+    heightCm: number;
+    /** Needed only for Katch-McArdle, which works from lean body mass. */
+    bodyFatPercent?: number;
+}
+
+export interface MacroTargets {
+    proteinG: number;
+    carbsG: number;
+    fatG: number;
+}
+
+export interface GoalTarget extends MacroTargets {
+    goal: WeightGoal;
+    calories: number;
+    /** The target was raised to the minimum intake considered safe without supervision. */
+    atMinimum: boolean;
+}
+
+export interface CalorieResult {
+    formula: EnergyFormula;
+    activity: ActivityLevel;
+    bmr: number;
+    tdee: number;
+    targets: GoalTarget[];
+    /** Optional AI remarks on the figures; never used to compute them. */
+    commentary?: string;
+}
+
+// Standard multipliers for daily activity on top of the resting rate.
+const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+    sedentary: 1.2,
+    light: 1.375,
+    moderate: 1.55,
+    active: 1.725,
+    extra: 1.9,
+};
+
+// About 7,700 kcal per kg of body weight, so 0.25 kg a week is roughly 275 kcal a day.
+const GOAL_ADJUSTMENTS: Record<WeightGoal, number> = {
+    'lose-fast': -550,
+    'lose': -275,
+    'maintain': 0,
+    'gain': 275,
+    'gain-fast': 550,
+};
+
+// Protein per kg of body weight: more while losing weight to preserve muscle, and while gaining to build it.
+const PROTEIN_PER_KG: Record<WeightGoal, number> = {
+    'lose-fast': 2.0,
+    'lose': 1.8,
+    'maintain': 1.6,
+    'gain': 1.8,
+    'gain-fast': 2.0,
+};
+
+const FAT_SHARE = 0.25;
+const KCAL_PER_G = { protein: 4, carbs: 4, fat: 9 };
+
+const MINIMUM_CALORIES: Record<BiologicalSex, number> = { female: 1200, male: 1500 };
+
+// Physical activity coefficients of the Institute of Medicine (2005) equations for ages 3–18,
+// from sedentary to very active; the two most active levels share the top one.
+const CHILD_ACTIVITY_COEFFICIENTS: Record<BiologicalSex, Record<ActivityLevel, number>> = {
+    male: { sedentary: 1.0, light: 1.13, moderate: 1.26, active: 1.42, extra: 1.42 },
+    female: { sedentary: 1.0, light: 1.16, moderate: 1.31, active: 1.56, extra: 1.56 },
+};
+
+// Recommended protein per kg of body weight and fat share of calories for children, by age in years.
+const CHILD_PROTEIN_PER_KG: [number, number][] = [[0.5, 1.52], [1, 1.2], [4, 1.05], [14, 0.95], [ADULT_AGE, 0.85]];
+const CHILD_FAT_SHARE: [number, number][] = [[1, 0.45], [4, 0.35], [ADULT_AGE, 0.3]];
+
+/** The value for the first bracket whose upper age bound is above `age`. */
+const byAge = (brackets: [number, number][], age: number) => (brackets.find(([below]) => age < below) ?? brackets[brackets.length - 1])[1];
+
+export const CM_PER_INCH = 2.54;
+
+export const feetAndInchesToCm = (feet: number, inches: number) => (feet * 12 + inches) * CM_PER_INCH;
+
+export const poundsToKg = (pounds: number) => toKg(pounds, 'lb');
+
+/** Whether a formula can be used with the given metrics (Katch-McArdle needs body fat). */
+export const canUseFormula = (formula: BmrFormula, metrics: BodyMetrics) =>
+    formula !== 'katch' || (metrics.bodyFatPercent !== undefined && metrics.bodyFatPercent > 0 && metrics.bodyFatPercent < 100);
+
+/** Basal metabolic rate in kcal/day. */
+export const calculateBmr = (formula: BmrFormula, { age, sex, weightKg, heightCm, bodyFatPercent }: BodyMetrics) => {
+    switch (formula) {
+        // Mifflin-St Jeor (1990).
+        case 'mifflin':
+            return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === 'male' ? 5 : -161);
+        // Harris-Benedict, as revised by Roza and Shizgal (1984).
+        case 'harris':
+            return sex === 'male'
+                ? 88.362 + 13.397 * weightKg + 4.799 * heightCm - 5.677 * age
+                : 447.593 + 9.247 * weightKg + 3.098 * heightCm - 4.33 * age;
+        // Katch-McArdle, from lean body mass; the same for both sexes.
+        case 'katch':
+            return 370 + 21.6 * weightKg * (1 - bodyFatPercent / 100);
+    }
+};
+
+export const isChild = (age: number) => age < ADULT_AGE;
+
+/** Schofield (1985) basal metabolic rate in kcal/day, which unlike the adult formulas has equations for children. */
+export const calculateChildBmr = ({ age, sex, weightKg }: BodyMetrics) => {
+    if (age < 3) return sex === 'male' ? 59.512 * weightKg - 30.4 : 58.317 * weightKg - 31.1;
+    if (age < 10) return sex === 'male' ? 22.706 * weightKg + 504.3 : 20.315 * weightKg + 485.9;
+    if (age < 18) return sex === 'male' ? 17.686 * weightKg + 658.2 : 13.384 * weightKg + 692.6;
+    return sex === 'male' ? 15.057 * weightKg + 692.2 : 14.818 * weightKg + 486.6;
+};
+
+/** Institute of Medicine (2005) estimated energy requirement in kcal/day, including the energy deposited in growth. */
+export const calculateChildEnergy = (activity: ActivityLevel, { age, sex, weightKg, heightCm }: BodyMetrics) => {
+    const months = age * 12;
+    if (age < 3) {
+        const growth = months < 4 ? 175 : months < 7 ? 56 : months < 13 ? 22 : 20;
+        return 89 * weightKg - 100 + growth;
+    }
+    const coefficient = CHILD_ACTIVITY_COEFFICIENTS[sex][activity];
+    const heightM = heightCm / 100;
+    const growth = age < 9 ? 20 : 25;
+    return sex === 'male'
+        ? 88.5 - 61.9 * age + coefficient * (26.7 * weightKg + 903 * heightM) + growth
+        : 135.3 - 30.8 * age + coefficient * (10 * weightKg + 934 * heightM) + growth;
+};
+
+const splitMacros = (calories: number, proteinG: number, fatShare: number): MacroTargets => {
+    const fatG = Math.round((calories * fatShare) / KCAL_PER_G.fat);
+    const carbsG = Math.max(0, Math.round((calories - proteinG * KCAL_PER_G.protein - fatG * KCAL_PER_G.fat) / KCAL_PER_G.carbs));
+    return { proteinG, carbsG, fatG };
+};
+
+export const calculateMacros = (calories: number, weightKg: number, goal: WeightGoal): MacroTargets =>
+    splitMacros(calories, Math.round(weightKg * PROTEIN_PER_KG[goal]), FAT_SHARE);
+
+export const calculateCalories = (formula: BmrFormula, activity: ActivityLevel, metrics: BodyMetrics): CalorieResult => {
+    const bmr = calculateBmr(formula, metrics);
+    const tdee = bmr * ACTIVITY_FACTORS[activity];
+    const targets = WEIGHT_GOALS.map(goal => {
+        const wanted = Math.round(tdee + GOAL_ADJUSTMENTS[goal]);
+        const calories = Math.max(wanted, MINIMUM_CALORIES[metrics.sex]);
+        return { goal, calories, atMinimum: calories > wanted, ...calculateMacros(calories, metrics.weightKg, goal) };
+    });
+    return { formula, activity, bmr: Math.round(bmr), tdee: Math.round(tdee), targets };
+};
+
+/**
+ * Energy need for a child: enough to keep growing, so there are no weight-loss or gain
+ * targets. Any change to a child's weight should be guided by a paediatrician.
+ */
+export const calculateChildCalories = (activity: ActivityLevel, metrics: BodyMetrics): CalorieResult => {
+    const tdee = Math.round(calculateChildEnergy(activity, metrics));
+    const proteinG = Math.round(metrics.weightKg * byAge(CHILD_PROTEIN_PER_KG, metrics.age));
+    const target: GoalTarget = { goal: 'maintain', calories: tdee, atMinimum: false, ...splitMacros(tdee, proteinG, byAge(CHILD_FAT_SHARE, metrics.age)) };
+    return { formula: 'child', activity, bmr: Math.round(calculateChildBmr(metrics)), tdee, targets: [target] };
+};
@@ -0,0 +1,296 @@
+import { loadImage } from './images';
+
+// --- Document Cleanup ---
+// Prepares a phone photo of a paper document for reading: finds the page against the
+// table it lies on, straightens it with a perspective transform, removes any remaining
+// tilt of the lines of writing, stretches the brightness to the full range and shrinks
+// the result to a size the model reads well. Runs on canvas pixels in the browser.
+
+/** A point on the image, as fractions of its width and height. */
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** The page's corners: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+/** Pixels in RGBA order; `ImageData` is one. */
+export interface Raster {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export interface PreparedDocument {
+    /** JPEG data URL. */
+    src: string;
+    /** Where the page was cut from; the whole photo when no page was found. */
+    corners: Quad;
+}
+
+export const FULL_FRAME: Quad = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// Page detection works on a small copy; the page is cut from a larger one.
+const DETECT_MAX_SIDE = 400;
+const SOURCE_MAX_SIDE = 3000;
+/** Longer side of the image sent, in pixels. */
+export const OUTPUT_MAX_SIDE = 2000;
+const OUTPUT_QUALITY = 0.85;
+
+// A page covering less of the photo than this is more likely a bright patch than the paper.
+const MIN_PAGE_AREA = 0.2;
+// Tilts are searched within this many degrees, and smaller ones are left alone.
+const MAX_SKEW = 8;
+const SKEW_STEP = 0.25;
+const MIN_SKEW = 0.5;
+const SKEW_SAMPLES = 20_000;
+// The darkest and brightest 1% are clipped when the levels are stretched.
+const LEVELS_CLIP = 0.01;
+
+export const toGray = ({ width, height, data }: Raster) => {
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    return gray;
+};
+
+/** The threshold that best splits the pixels into a dark and a light group (Otsu's method). */
+export const otsuThreshold = (gray: Uint8Array) => {
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const total = gray.length;
+    const sumAll = histogram.reduce((sum, count, value) => sum + count * value, 0);
+    let darkCount = 0;
+    let darkSum = 0;
+    let best = 0;
+    let threshold = 127;
+    for (let t = 0; t < 256; t++) {
+        darkCount += histogram[t];
+        if (darkCount === 0 || darkCount === total) continue;
+        darkSum += t * histogram[t];
+        const darkMean = darkSum / darkCount;
+        const lightMean = (sumAll - darkSum) / (total - darkCount);
+        const between = darkCount * (total - darkCount) * (darkMean - lightMean) ** 2;
+        if (between > best) {
+            best = between;
+            threshold = t;
+        }
+    }
+    return threshold;
+};
+
+const quadArea = (quad: Quad) =>
+    Math.abs(quad.reduce((sum, p, i) => {
+        const q = quad[(i + 1) % 4];
+        return sum + p.x * q.y - q.x * p.y;
+    }, 0)) / 2;
+
+/**
+ * The corners of the largest bright region, taken to be the paper. The corners are its
+ * extreme points along the two diagonals, which holds for any convex four-sided shape.
+ */
+export const findPageCorners = (image: Raster): Quad | undefined => {
+    const { width, height } = image;
+    const gray = toGray(image);
+    const threshold = otsuThreshold(gray);
+    const label = new Int32Array(width * height);
+    const queue = new Int32Array(width * height);
+    let largest: number[] = [];
+    let region = 0;
+    for (let start = 0; start < gray.length; start++) {
+        if (gray[start] <= threshold || label[start]) continue;
+        region++;
+        const pixels: number[] = [];
+        let head = 0;
+        let tail = 0;
+        queue[tail++] = start;
+        label[start] = region;
+        while (head < tail) {
+            const i = queue[head++];
+            pixels.push(i);
+            const x = i % width;
+            const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+            for (const n of neighbours) {
+                if (n >= 0 && n < gray.length && !label[n] && gray[n] > threshold) {
+                    label[n] = region;
+                    queue[tail++] = n;
+                }
+            }
+        }
+        if (pixels.length > largest.length) largest = pixels;
+    }
+    if (largest.length === 0) return undefined;
+
+    const extremes = { tl: Infinity, tr: -Infinity, br: -Infinity, bl: Infinity };
+    const corners = { tl: 0, tr: 0, br: 0, bl: 0 };
+    for (const i of largest) {
+        const x = i % width;
+        const y = (i - x) / width;
+        if (x + y < extremes.tl) { extremes.tl = x + y; corners.tl = i; }
+        if (x - y > extremes.tr) { extremes.tr = x - y; corners.tr = i; }
+        if (x + y > extremes.br) { extremes.br = x + y; corners.br = i; }
+        if (x - y < extremes.bl) { extremes.bl = x - y; corners.bl = i; }
+    }
+    // Pixel centres, so a page filling the photo maps to the full frame.
+    const toPoint = (i: number): Point => ({ x: ((i % width) + 0.5) / width, y: (Math.floor(i / width) + 0.5) / height });
+    const quad: Quad = [toPoint(corners.tl), toPoint(corners.tr), toPoint(corners.br), toPoint(corners.bl)];
+    return quadArea(quad) >= MIN_PAGE_AREA ? quad : undefined;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Size of the straightened page, keeping its proportions, with the longer side at most `maxSide`. */
+export const pageSize = (corners: Quad, width: number, height: number, maxSide: number) => {
+    const pixels = corners.map(({ x, y }) => ({ x: x * width, y: y * height }));
+    const [tl, tr, br, bl] = pixels;
+    const pageWidth = Math.max(distance(tl, tr), distance(bl, br));
+    const pageHeight = Math.max(distance(tl, bl), distance(tr, br));
+    const scale = Math.min(1, maxSide / Math.max(pageWidth, pageHeight));
+    return { width: Math.max(1, Math.round(pageWidth * scale)), height: Math.max(1, Math.round(pageHeight * scale)) };
+};
+
+/** Maps the unit square onto the quad (Heckbert's square-to-quad projection). */
+const squareToQuad = ([p0, p1, p2, p3]: Point[]) => {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    const g = den === 0 ? 0 : (dx3 * dy2 - dx2 * dy3) / den;
+    const h = den === 0 ? 0 : (dx1 * dy3 - dx3 * dy1) / den;
+    const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x;
+    const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y;
+    return (u: number, v: number) => {
+        const w = g * u + h * v + 1;
+        return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+    };
+};
+
+/** Cuts the quad out of the image and stretches it to a `width` × `height` rectangle. */
+export const warpPerspective = (source: Raster, corners: Quad, width: number, height: number): Raster => {
+    const map = squareToQuad(corners.map(({ x, y }) => ({ x: x * source.width - 0.5, y: y * source.height - 0.5 })));
+    const data = new Uint8ClampedArray(width * height * 4);
+    const { data: src, width: sw, height: sh } = source;
+    for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+            const { x, y } = map((i + 0.5) / width, (j + 0.5) / height);
+            // Bilinear sampling, clamped to the edge of the source.
+            const x0 = Math.min(sw - 1, Math.max(0, Math.floor(x)));
+            const y0 = Math.min(sh - 1, Math.max(0, Math.floor(y)));
+            const x1 = Math.min(sw - 1, x0 + 1);
+            const y1 = Math.min(sh - 1, y0 + 1);
+            const fx = Math.min(1, Math.max(0, x - x0));
+            const fy = Math.min(1, Math.max(0, y - y0));
+            const out = (j * width + i) * 4;
+            for (let c = 0; c < 4; c++) {
+                const top = src[(y0 * sw + x0) * 4 + c] * (1 - fx) + src[(y0 * sw + x1) * 4 + c] * fx;
+                const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - fx) + src[(y1 * sw + x1) * 4 + c] * fx;
+                data[out + c] = top * (1 - fy) + bottom * fy;
+            }
+        }
+    }
+    return { width, height, data };
+};
+
+/**
+ * The tilt of the lines of writing, in degrees, positive when they run down to the right.
+ * Dark pixels are projected onto rows at each candidate angle; the lines of writing stack
+ * up into the sharpest peaks when the angle matches their tilt.
+ */
+export const estimateSkew = (image: Raster) => {
+    const { width, height } = image;
+    const gray = toGray(image);
+    const threshold = otsuThreshold(gray);
+    const dark: number[] = [];
+    for (let i = 0; i < gray.length; i++) {
+        if (gray[i] <= threshold) dark.push(i);
+    }
+    const stride = Math.max(1, Math.ceil(dark.length / SKEW_SAMPLES));
+    const points = dark.filter((_, k) => k % stride === 0).map(i => [i % width, Math.floor(i / width)]);
+    if (points.length === 0) return 0;
+    const diagonal = Math.ceil(Math.hypot(width, height));
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+        const radians = (angle * Math.PI) / 180;
+        const sin = Math.sin(radians);
+        const cos = Math.cos(radians);
+        const rows = new Uint32Array(2 * diagonal + 1);
+        for (const [x, y] of points) rows[Math.round(y * cos - x * sin) + diagonal]++;
+        const score = rows.reduce((sum, count) => sum + count * count, 0);
+        // Ties go to the smaller correction.
+        if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+            bestScore = score;
+            bestAngle = angle;
+        }
+    }
+    return bestAngle;
+};
+
+/** Stretches brightness so the darkest ink is black and the paper white; changes the pixels in place. */
+export const normalizeLevels = (image: Raster) => {
+    const gray = toGray(image);
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const clip = gray.length * LEVELS_CLIP;
+    let low = 0;
+    for (let seen = 0; low < 255 && seen + histogram[low] <= clip; low++) seen += histogram[low];
+    let high = 255;
+    for (let seen = 0; high > 0 && seen + histogram[high] <= clip; high--) seen += histogram[high];
+    // A blank or single-tone image has nothing to stretch.
+    if (high - low < 16) return;
+    const lut = Array.from({ length: 256 }, (_, value) => ((value - low) * 255) / (high - low));
+    const { data } = image;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = lut[data[i]];
+        data[i + 1] = lut[data[i + 1]];
+        data[i + 2] = lut[data[i + 2]];
+    }
+};
+
+const canvasOf = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const pixelsAt = (img: HTMLImageElement, maxSide: number) => {
+    const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = canvasOf(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Runs the whole cleanup on a photo. Pass `corners` to cut the page from where the user put
+ * them instead of where it was detected.
+ */
+export const prepareDocument = async (src: string, corners?: Quad): Promise<PreparedDocument> => {
+    const img = await loadImage(src);
+    const page = corners ?? findPageCorners(pixelsAt(img, DETECT_MAX_SIDE)) ?? FULL_FRAME;
+    const source = pixelsAt(img, SOURCE_MAX_SIDE);
+    const { width, height } = pageSize(page, source.width, source.height, OUTPUT_MAX_SIDE);
+    const warped = warpPerspective(source, page, width, height);
+
+    const straight = canvasOf(width, height);
+    const ctx = straight.getContext('2d');
+    ctx.putImageData(new ImageData(warped.data, width, height), 0, 0);
+    const skew = estimateSkew(warped);
+    if (Math.abs(skew) >= MIN_SKEW) {
+        const tilted = canvasOf(width, height);
+        tilted.getContext('2d').drawImage(straight, 0, 0);
+        // The corners uncovered by the rotation are filled with white, like the paper.
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+        ctx.translate(width / 2, height / 2);
+        ctx.rotate((-skew * Math.PI) / 180);
+        ctx.drawImage(tilted, -width / 2, -height / 2);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+    }
+    const pixels = ctx.getImageData(0, 0, width, height);
+    normalizeLevels(pixels);
+    ctx.putImageData(pixels, 0, 0);
+    return { src: straight.toDataURL('image/jpeg', OUTPUT_QUALITY), corners: page };
+};
@@ -0,0 +1,203 @@
+// --- Bundled Drug Dictionary ---
+// Common Indian brands with their active ingredients, strengths and dosage forms, and the
+// generic medicines they contain that the interaction reference does not list. Generic
+// ids match `services/interactions/data.ts`, where the rest of the generics and many
+// more brand names live. A brand missing here can still be matched by its generic name.
+
+export type DosageForm =
+    | 'tablet'
+    | 'capsule'
+    | 'syrup'
+    | 'suspension'
+    | 'drops'
+    | 'eye-drops'
+    | 'nasal-spray'
+    | 'inhaler'
+    | 'injection'
+    | 'cream'
+    | 'ointment'
+    | 'gel'
+    | 'sachet';
+
+export interface Generic {
+    id: string;
+    name: string;
+    /** Lower-case other names and spellings. */
+    aliases: string[];
+}
+
+export interface ProductIngredient {
+    /** A generic id, from here or the interaction reference. */
+    generic: string;
+    /** Per tablet, capsule, 5 ml, puff or gram, as printed on the pack; unset for mixtures like vitamin B complex. */
+    strength?: string;
+}
+
+export interface Product {
+    /** As printed on the pack, e.g. "Montair LC". */
+    name: string;
+    ingredients: ProductIngredient[];
+    form: DosageForm;
+}
+
+export const GENERICS: Generic[] = [
+    // Antibiotics
+    { id: 'amoxicillin', name: 'Amoxicillin', aliases: ['amoxycillin', 'amox'] },
+    { id: 'clavulanic-acid', name: 'Clavulanic acid', aliases: ['clavulanate', 'potassium clavulanate'] },
+    { id: 'cefixime', name: 'Cefixime', aliases: [] },
+    { id: 'cefuroxime', name: 'Cefuroxime', aliases: [] },
+    { id: 'cefpodoxime', name: 'Cefpodoxime', aliases: [] },
+    { id: 'cephalexin', name: 'Cephalexin', aliases: ['cefalexin'] },
+    { id: 'framycetin', name: 'Framycetin', aliases: [] },
+    { id: 'clotrimazole', name: 'Clotrimazole', aliases: [] },
+
+    // Allergy, cough and cold
+    { id: 'cetirizine', name: 'Cetirizine', aliases: [] },
+    { id: 'levocetirizine', name: 'Levocetirizine', aliases: ['levocetrizine'] },
+    { id: 'fexofenadine', name: 'Fexofenadine', aliases: [] },
+    { id: 'chlorpheniramine', name: 'Chlorpheniramine', aliases: ['chlorphenamine', 'cpm'] },
+    { id: 'montelukast', name: 'Montelukast', aliases: [] },
+    { id: 'ambroxol', name: 'Ambroxol', aliases: [] },
+    { id: 'guaifenesin', name: 'Guaifenesin', aliases: ['guaiphenesin'] },
+    { id: 'xylometazoline', name: 'Xylometazoline', aliases: [] },
+
+    // Asthma
+    { id: 'salbutamol', name: 'Salbutamol', aliases: ['albuterol'] },
+    { id: 'levosalbutamol', name: 'Levosalbutamol', aliases: ['levalbuterol'] },
+    { id: 'budesonide', name: 'Budesonide', aliases: [] },
+    { id: 'formoterol', name: 'Formoterol', aliases: ['eformoterol'] },
+
+    // Steroids
+    { id: 'prednisolone', name: 'Prednisolone', aliases: [] },
+    { id: 'dexamethasone', name: 'Dexamethasone', aliases: [] },
+    { id: 'betamethasone', name: 'Betamethasone', aliases: [] },
+
+    // Gastrointestinal and pain
+    { id: 'rabeprazole', name: 'Rabeprazole', aliases: [] },
+    { id: 'famotidine', name: 'Famotidine', aliases: [] },
+    { id: 'dicyclomine', name: 'Dicyclomine', aliases: ['dicycloverine'] },
+    { id: 'drotaverine', name: 'Drotaverine', aliases: [] },
+    { id: 'serratiopeptidase', name: 'Serratiopeptidase', aliases: ['serrapeptase'] },
+    { id: 'oral-rehydration-salts', name: 'Oral rehydration salts', aliases: ['ors'] },
+
+    // Vitamins
+    { id: 'cholecalciferol', name: 'Cholecalciferol', aliases: ['vitamin d3', 'vitamin d', 'vit d3'] },
+    { id: 'folic-acid', name: 'Folic acid', aliases: ['folate'] },
+    { id: 'vitamin-b-complex', name: 'Vitamin B complex', aliases: ['b complex', 'b-complex'] },
+    { id: 'ascorbic-acid', name: 'Ascorbic acid', aliases: ['vitamin c', 'vit c'] },
+];
+
+export const PRODUCTS: Product[] = [
+    // Pain and fever
+    { name: 'Dolo 650', ingredients: [{ generic: 'paracetamol', strength: '650 mg' }], form: 'tablet' },
+    { name: 'Crocin Advance', ingredients: [{ generic: 'paracetamol', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Calpol 500', ingredients: [{ generic: 'paracetamol', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Calpol 250', ingredients: [{ generic: 'paracetamol', strength: '250 mg/5 ml' }], form: 'suspension' },
+    { name: 'Combiflam', ingredients: [{ generic: 'ibuprofen', strength: '400 mg' }, { generic: 'paracetamol', strength: '325 mg' }], form: 'tablet' },
+    { name: 'Brufen 400', ingredients: [{ generic: 'ibuprofen', strength: '400 mg' }], form: 'tablet' },
+    { name: 'Zerodol-P', ingredients: [{ generic: 'aceclofenac', strength: '100 mg' }, { generic: 'paracetamol', strength: '325 mg' }], form: 'tablet' },
+    {
+        name: 'Zerodol-SP',
+        ingredients: [{ generic: 'aceclofenac', strength: '100 mg' }, { generic: 'paracetamol', strength: '325 mg' }, { generic: 'serratiopeptidase', strength: '15 mg' }],
+        form: 'tablet',
+    },
+    { name: 'Hifenac-P', ingredients: [{ generic: 'aceclofenac', strength: '100 mg' }, { generic: 'paracetamol', strength: '325 mg' }], form: 'tablet' },
+    { name: 'Voveran 50', ingredients: [{ generic: 'diclofenac', strength: '50 mg' }], form: 'tablet' },
+    { name: 'Voveran SR 100', ingredients: [{ generic: 'diclofenac', strength: '100 mg' }], form: 'tablet' },
+    { name: 'Meftal-Spas', ingredients: [{ generic: 'mefenamic-acid', strength: '250 mg' }, { generic: 'dicyclomine', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Drotin 40', ingredients: [{ generic: 'drotaverine', strength: '40 mg' }], form: 'tablet' },
+    { name: 'Ultracet', ingredients: [{ generic: 'tramadol', strength: '37.5 mg' }, { generic: 'paracetamol', strength: '325 mg' }], form: 'tablet' },
+    { name: 'Tramazac 50', ingredients: [{ generic: 'tramadol', strength: '50 mg' }], form: 'capsule' },
+
+    // Heart and blood
+    { name: 'Ecosprin 75', ingredients: [{ generic: 'aspirin', strength: '75 mg' }], form: 'tablet' },
+    { name: 'Ecosprin 150', ingredients: [{ generic: 'aspirin', strength: '150 mg' }], form: 'tablet' },
+    { name: 'Ecosprin AV 75', ingredients: [{ generic: 'aspirin', strength: '75 mg' }, { generic: 'atorvastatin', strength: '10 mg' }], form: 'capsule' },
+    { name: 'Ecosprin AV 150', ingredients: [{ generic: 'aspirin', strength: '150 mg' }, { generic: 'atorvastatin', strength: '20 mg' }], form: 'capsule' },
+    { name: 'Clopilet 75', ingredients: [{ generic: 'clopidogrel', strength: '75 mg' }], form: 'tablet' },
+    { name: 'Atorva 10', ingredients: [{ generic: 'atorvastatin', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Atorva 20', ingredients: [{ generic: 'atorvastatin', strength: '20 mg' }], form: 'tablet' },
+    { name: 'Storvas 10', ingredients: [{ generic: 'atorvastatin', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Rosuvas 10', ingredients: [{ generic: 'rosuvastatin', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Telma 40', ingredients: [{ generic: 'telmisartan', strength: '40 mg' }], form: 'tablet' },
+    { name: 'Telma 80', ingredients: [{ generic: 'telmisartan', strength: '80 mg' }], form: 'tablet' },
+    { name: 'Telma-H', ingredients: [{ generic: 'telmisartan', strength: '40 mg' }, { generic: 'hydrochlorothiazide', strength: '12.5 mg' }], form: 'tablet' },
+    { name: 'Telma-H 80', ingredients: [{ generic: 'telmisartan', strength: '80 mg' }, { generic: 'hydrochlorothiazide', strength: '12.5 mg' }], form: 'tablet' },
+    { name: 'Telma-AM', ingredients: [{ generic: 'telmisartan', strength: '40 mg' }, { generic: 'amlodipine', strength: '5 mg' }], form: 'tablet' },
+    { name: 'Amlong 5', ingredients: [{ generic: 'amlodipine', strength: '5 mg' }], form: 'tablet' },
+    { name: 'Stamlo 5', ingredients: [{ generic: 'amlodipine', strength: '5 mg' }], form: 'tablet' },
+
+    // Diabetes and thyroid
+    { name: 'Glycomet 500', ingredients: [{ generic: 'metformin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Glycomet-GP 1', ingredients: [{ generic: 'glimepiride', strength: '1 mg' }, { generic: 'metformin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Glycomet-GP 2', ingredients: [{ generic: 'glimepiride', strength: '2 mg' }, { generic: 'metformin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Thyronorm 50', ingredients: [{ generic: 'levothyroxine', strength: '50 mcg' }], form: 'tablet' },
+    { name: 'Eltroxin 50', ingredients: [{ generic: 'levothyroxine', strength: '50 mcg' }], form: 'tablet' },
+
+    // Stomach
+    { name: 'Pan 40', ingredients: [{ generic: 'pantoprazole', strength: '40 mg' }], form: 'tablet' },
+    { name: 'Pan-D', ingredients: [{ generic: 'pantoprazole', strength: '40 mg' }, { generic: 'domperidone', strength: '30 mg' }], form: 'capsule' },
+    { name: 'Pantocid 40', ingredients: [{ generic: 'pantoprazole', strength: '40 mg' }], form: 'tablet' },
+    { name: 'Omez 20', ingredients: [{ generic: 'omeprazole', strength: '20 mg' }], form: 'capsule' },
+    { name: 'Omez-D', ingredients: [{ generic: 'omeprazole', strength: '20 mg' }, { generic: 'domperidone', strength: '10 mg' }], form: 'capsule' },
+    { name: 'Razo 20', ingredients: [{ generic: 'rabeprazole', strength: '20 mg' }], form: 'tablet' },
+    { name: 'Razo-D', ingredients: [{ generic: 'rabeprazole', strength: '20 mg' }, { generic: 'domperidone', strength: '30 mg' }], form: 'capsule' },
+    { name: 'Famocid 20', ingredients: [{ generic: 'famotidine', strength: '20 mg' }], form: 'tablet' },
+    { name: 'Domstal 10', ingredients: [{ generic: 'domperidone', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Emeset 4', ingredients: [{ generic: 'ondansetron', strength: '4 mg' }], form: 'tablet' },
+    { name: 'Ondem 4', ingredients: [{ generic: 'ondansetron', strength: '4 mg' }], form: 'tablet' },
+    { name: 'Electral', ingredients: [{ generic: 'oral-rehydration-salts' }], form: 'sachet' },
+
+    // Antibiotics and antifungals
+    { name: 'Augmentin 625', ingredients: [{ generic: 'amoxicillin', strength: '500 mg' }, { generic: 'clavulanic-acid', strength: '125 mg' }], form: 'tablet' },
+    { name: 'Moxikind-CV 625', ingredients: [{ generic: 'amoxicillin', strength: '500 mg' }, { generic: 'clavulanic-acid', strength: '125 mg' }], form: 'tablet' },
+    { name: 'Mox 500', ingredients: [{ generic: 'amoxicillin', strength: '500 mg' }], form: 'capsule' },
+    { name: 'Azithral 500', ingredients: [{ generic: 'azithromycin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Azee 500', ingredients: [{ generic: 'azithromycin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Taxim-O 200', ingredients: [{ generic: 'cefixime', strength: '200 mg' }], form: 'tablet' },
+    { name: 'Zifi 200', ingredients: [{ generic: 'cefixime', strength: '200 mg' }], form: 'tablet' },
+    { name: 'Ciplox 500', ingredients: [{ generic: 'ciprofloxacin', strength: '500 mg' }], form: 'tablet' },
+    { name: 'Ciplox Eye Drops', ingredients: [{ generic: 'ciprofloxacin', strength: '0.3%' }], form: 'eye-drops' },
+    { name: 'Moxicip Eye Drops', ingredients: [{ generic: 'moxifloxacin', strength: '0.5%' }], form: 'eye-drops' },
+    { name: 'Metrogyl 400', ingredients: [{ generic: 'metronidazole', strength: '400 mg' }], form: 'tablet' },
+    { name: 'Candid Cream', ingredients: [{ generic: 'clotrimazole', strength: '1%' }], form: 'cream' },
+    { name: 'Soframycin', ingredients: [{ generic: 'framycetin', strength: '1%' }], form: 'cream' },
+
+    // Allergy, cough, cold and asthma
+    { name: 'Cetzine 10', ingredients: [{ generic: 'cetirizine', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Levocet 5', ingredients: [{ generic: 'levocetirizine', strength: '5 mg' }], form: 'tablet' },
+    { name: 'Allegra 120', ingredients: [{ generic: 'fexofenadine', strength: '120 mg' }], form: 'tablet' },
+    { name: 'Allegra 180', ingredients: [{ generic: 'fexofenadine', strength: '180 mg' }], form: 'tablet' },
+    { name: 'Montair 10', ingredients: [{ generic: 'montelukast', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Montair LC', ingredients: [{ generic: 'montelukast', strength: '10 mg' }, { generic: 'levocetirizine', strength: '5 mg' }], form: 'tablet' },
+    { name: 'Montek LC', ingredients: [{ generic: 'montelukast', strength: '10 mg' }, { generic: 'levocetirizine', strength: '5 mg' }], form: 'tablet' },
+    {
+        name: 'Ascoril LS',
+        ingredients: [{ generic: 'ambroxol', strength: '30 mg/5 ml' }, { generic: 'levosalbutamol', strength: '1 mg/5 ml' }, { generic: 'guaifenesin', strength: '50 mg/5 ml' }],
+        form: 'syrup',
+    },
+    { name: 'Otrivin', ingredients: [{ generic: 'xylometazoline', strength: '0.1%' }], form: 'nasal-spray' },
+    { name: 'Asthalin', ingredients: [{ generic: 'salbutamol', strength: '100 mcg' }], form: 'inhaler' },
+    { name: 'Budecort 200', ingredients: [{ generic: 'budesonide', strength: '200 mcg' }], form: 'inhaler' },
+    { name: 'Foracort 200', ingredients: [{ generic: 'formoterol', strength: '6 mcg' }, { generic: 'budesonide', strength: '200 mcg' }], form: 'inhaler' },
+
+    // Steroids
+    { name: 'Wysolone 10', ingredients: [{ generic: 'prednisolone', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Omnacortil 10', ingredients: [{ generic: 'prednisolone', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Dexona 0.5', ingredients: [{ generic: 'dexamethasone', strength: '0.5 mg' }], form: 'tablet' },
+    { name: 'Betnovate', ingredients: [{ generic: 'betamethasone', strength: '0.1%' }], form: 'cream' },
+
+    // Mind and sleep
+    { name: 'Alprax 0.25', ingredients: [{ generic: 'alprazolam', strength: '0.25 mg' }], form: 'tablet' },
+    { name: 'Clonotril 0.5', ingredients: [{ generic: 'clonazepam', strength: '0.5 mg' }], form: 'tablet' },
+    { name: 'Nexito 10', ingredients: [{ generic: 'escitalopram', strength: '10 mg' }], form: 'tablet' },
+    { name: 'Lyrica 75', ingredients: [{ generic: 'pregabalin', strength: '75 mg' }], form: 'capsule' },
+
+    // Vitamins and supplements
+    { name: 'Shelcal 500', ingredients: [{ generic: 'calcium', strength: '500 mg' }, { generic: 'cholecalciferol', strength: '250 IU' }], form: 'tablet' },
+    { name: 'Uprise-D3 60K', ingredients: [{ generic: 'cholecalciferol', strength: '60000 IU' }], form: 'capsule' },
+    { name: 'Folvite 5', ingredients: [{ generic: 'folic-acid', strength: '5 mg' }], form: 'tablet' },
+    { name: 'Fefol', ingredients: [{ generic: 'iron', strength: '150 mg' }, { generic: 'folic-acid', strength: '0.5 mg' }], form: 'capsule' },
+    { name: 'Becosules', ingredients: [{ generic: 'vitamin-b-complex' }], form: 'capsule' },
+    { name: 'Limcee', ingredients: [{ generic: 'ascorbic-acid', strength: '500 mg' }], form: 'tablet' },
+];
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isConfident, medicationName, normalizeMedication } from './index';
+
+const ingredientIds = (input: string) => normalizeMedication(input).match?.ingredients.map(({ id }) => id).sort();
+
+describe('normalizeMedication', () => {
+    it('reads brands with their strength and form', () => {
+        assert.equal(medicationName(normalizeMedication('Tab Dolo 650')), 'Paracetamol 650 mg (Dolo 650)');
+        assert.equal(normalizeMedication('Tab Dolo 650').match?.form, 'tablet');
+    });
+
+    it('allows for typos', () => {
+        const { match } = normalizeMedication('augmentn 625');
+        assert.equal(match?.product, 'Augmentin 625');
+        assert.ok(isConfident(match));
+    });
+
+    it('keeps every ingredient of a combination brand', () => {
+        assert.deepEqual(ingredientIds('Telma H 80'), ['hydrochlorothiazide', 'telmisartan']);
+        assert.deepEqual(ingredientIds('Glycomet GP 2'), ['glimepiride', 'metformin']);
+        assert.deepEqual(ingredientIds('Ecosprin AV 150'), ['aspirin', 'atorvastatin']);
+        assert.equal(
+            medicationName(normalizeMedication('Telma H 80')),
+            'Telmisartan 80 mg + Hydrochlorothiazide 12.5 mg (Telma-H 80)',
+        );
+    });
+
+    it('is never confident of fewer ingredients than a combination the name spells out', () => {
+        for (const input of ['Telma H 20', 'Glycomet GP 3', 'Ecosprin AV 300']) {
+            const { match, alternatives } = normalizeMedication(input);
+            assert.ok(match && match.ingredients.length > 1, input);
+            [match, ...alternatives]
+                .filter(candidate => candidate.ingredients.length === 1)
+                .forEach(candidate => assert.ok(!isConfident(candidate), input));
+        }
+    });
+
+    it('keeps the name as written when the strength disagrees with the product', () => {
+        const normalized = normalizeMedication('Augmentin 1000');
+        assert.ok(!isConfident(normalized.match));
+        assert.equal(medicationName(normalized), 'Augmentin 1000');
+    });
+
+    it('keeps an unknown name as written', () => {
+        const normalized = normalizeMedication('Zyxolin 5');
+        assert.equal(normalized.match, undefined);
+        assert.equal(medicationName(normalized), 'Zyxolin 5');
+    });
+});
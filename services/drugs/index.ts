@@ -0,0 +1,256 @@
+import { DRUGS } from '../interactions/data';
+import { DosageForm, GENERICS, PRODUCTS } from './data';
+
+// --- Medication Name Normalization ---
+// Resolves a medicine as written ("Tab Dolo 650", "augmentn 625", "Montair LC") to its
+// active ingredients, strengths and dosage form using the bundled dictionary. Names are
+// matched word by word, allowing for typos, and every match carries a confidence so
+// uncertain ones can be shown with the alternatives. Runs on the device.
+
+export type { DosageForm } from './data';
+
+export interface Ingredient {
+    /** The generic id shared with the interaction reference. */
+    id: string;
+    name: string;
+    strength?: string;
+}
+
+export interface DrugMatch {
+    ingredients: Ingredient[];
+    form?: DosageForm;
+    /** The bundled product the name matched, e.g. "Dolo 650"; unset for generic and other names. */
+    product?: string;
+    /** Matched by a generic name or its spelling, rather than a brand. */
+    byGenericName: boolean;
+    /** From 0 to 1: how closely the name, strength and form agree. */
+    confidence: number;
+}
+
+export interface NormalizedMedication {
+    /** As written. */
+    input: string;
+    /** Unset when nothing in the dictionary comes close. */
+    match?: DrugMatch;
+    /** Other medicines the name could be, most likely first. */
+    alternatives: DrugMatch[];
+}
+
+/** Matches at least this close are used in place of the name as written. */
+export const CONFIDENT = 0.85;
+const MIN_CONFIDENCE = 0.6;
+const MAX_ALTERNATIVES = 3;
+// A strength or dosage form that disagrees with the product's lowers the confidence; a wrong
+// strength always takes it below CONFIDENT, so the product's strength is never used in its place.
+const STRENGTH_MISMATCH = 0.8;
+const FORM_MISMATCH = 0.9;
+// A medicine without every ingredient of a combination the name spells out, like Telma for "Telma H".
+const MISSING_INGREDIENT = 0.7;
+
+const FORM_WORDS: Record<string, DosageForm> = {
+    tab: 'tablet', tabs: 'tablet', tablet: 'tablet', tablets: 'tablet',
+    cap: 'capsule', caps: 'capsule', capsule: 'capsule', capsules: 'capsule',
+    syp: 'syrup', syr: 'syrup', syrup: 'syrup',
+    susp: 'suspension', suspension: 'suspension',
+    drop: 'drops', drops: 'drops', eye: 'eye-drops',
+    spray: 'nasal-spray', nasal: 'nasal-spray',
+    inhaler: 'inhaler', puff: 'inhaler', puffs: 'inhaler', rotacap: 'inhaler', rotacaps: 'inhaler',
+    inj: 'injection', injection: 'injection',
+    cream: 'cream', oint: 'ointment', ointment: 'ointment', gel: 'gel',
+    sachet: 'sachet', sachets: 'sachet',
+};
+
+// Release types, pack words and schedules carry no part of the name.
+const NOISE = new Set([
+    'sr', 'er', 'xr', 'cr', 'xl', 'mr', 'ds', 'od', 'bd', 'bid', 'tds', 'tid', 'qid', 'hs', 'sos', 'prn',
+    'mg', 'mcg', 'g', 'ml', 'iu', 'x', 'strip', 'strips', 'pack', 'packs', 'bottle', 'bottles', 'of', 'for', 'the',
+]);
+
+// Strengths such as "650", "0.5mg", "60K", "250 mg/5 ml" or "1%", but not the 3 in "D3".
+const STRENGTH = /(?<![\p{L}\d.])(\d+(?:\.\d+)?)\s*(mg|mcg|µg|g|ml|iu|k|%)?(?![\p{L}\d])/giu;
+
+const strengthLabel = (value: string, unit?: string) =>
+    !unit ? value : unit === '%' ? `${value}%` : unit === 'k' ? `${value}K` : `${value} ${unit === 'iu' ? 'IU' : unit}`;
+
+interface ParsedName {
+    tokens: string[];
+    /** Every number written, in the units written; "60K" is 60000. */
+    numbers: number[];
+    strength?: string;
+    form?: DosageForm;
+}
+
+const parseName = (text: string): ParsedName => {
+    const numbers: number[] = [];
+    const strengths: string[] = [];
+    const rest = text.toLowerCase().replace(STRENGTH, (_, value: string, unit?: string) => {
+        numbers.push(Number(value) * (unit === 'k' ? 1000 : 1));
+        strengths.push(strengthLabel(value, unit));
+        return ' ';
+    });
+    const words = rest.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const forms = words.map(word => FORM_WORDS[word]).filter(Boolean);
+    return {
+        tokens: words.filter(word => !FORM_WORDS[word] && !NOISE.has(word)),
+        numbers,
+        strength: strengths.length === 1 ? strengths[0] : undefined,
+        // "Eye drops" is more specific than "drops".
+        form: forms.includes('eye-drops') ? 'eye-drops' : forms[0],
+    };
+};
+
+interface Candidate {
+    tokens: string[];
+    ingredients: Ingredient[];
+    form?: DosageForm;
+    product?: string;
+    byGenericName: boolean;
+    /** Numbers in the product's name and strengths. */
+    numbers: number[];
+}
+
+const GENERIC_NAMES = new Map([...DRUGS, ...GENERICS].map(drug => [drug.id, drug.name]));
+
+const PRODUCT_CANDIDATES: Candidate[] = PRODUCTS.map(product => ({
+    tokens: parseName(product.name).tokens,
+    ingredients: product.ingredients.map(({ generic, strength }) => ({ id: generic, name: GENERIC_NAMES.get(generic), strength })),
+    form: product.form,
+    product: product.name,
+    byGenericName: false,
+    numbers: parseName([product.name, ...product.ingredients.map(i => i.strength ?? '')].join(' ')).numbers,
+}));
+
+const nameCandidates = (): Candidate[] => {
+    // A name listed under several drugs is a combination brand, such as Combiflam.
+    const byName = new Map<string, { ids: string[], generic: boolean }>();
+    const add = (name: string, id: string, generic: boolean) => {
+        const entry = byName.get(name.toLowerCase()) ?? { ids: [], generic: false };
+        byName.set(name.toLowerCase(), { ids: [...new Set([...entry.ids, id])], generic: entry.generic || generic });
+    };
+    for (const drug of DRUGS) {
+        [drug.name, drug.id.replace(/-/g, ' ')].forEach(name => add(name, drug.id, true));
+        // The interaction reference mixes brands with other generic names.
+        drug.aliases.forEach(alias => add(alias, drug.id, false));
+    }
+    for (const generic of GENERICS) {
+        [generic.name, generic.id.replace(/-/g, ' '), ...generic.aliases].forEach(name => add(name, generic.id, true));
+    }
+    const sameWords = (a: string[], b: string[]) => a.join(' ') === b.join(' ');
+    return [...byName]
+        .map(([name, { ids, generic }]) => ({
+            tokens: parseName(name).tokens,
+            ingredients: ids.map(id => ({ id, name: GENERIC_NAMES.get(id) })),
+            byGenericName: generic,
+            numbers: [],
+        }))
+        // Brands the interaction reference lists under only some of their ingredients, like
+        // "Ecosprin AV" under atorvastatin, are left to the product with all of them.
+        .filter(candidate => !PRODUCT_CANDIDATES.some(product =>
+            product.ingredients.length > candidate.ingredients.length && sameWords(product.tokens, candidate.tokens)));
+};
+
+// Products come first so they win ties with the bare brand names in the interaction reference.
+const CANDIDATES = [...PRODUCT_CANDIDATES, ...nameCandidates()].filter(candidate => candidate.tokens.length > 0);
+
+export const editDistance = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/** 1 for the same word; for words of five letters or more, less for each typo, up to one (two from eight letters). */
+const wordSimilarity = (written: string, known: string) => {
+    if (written === known) return 1;
+    const longer = Math.max(written.length, known.length);
+    if (Math.min(written.length, known.length) < 5 || Math.abs(written.length - known.length) > 2) return 0;
+    const distance = editDistance(written, known);
+    return distance <= (longer >= 8 ? 2 : 1) ? 1 - distance / longer : 0;
+};
+
+/** Whether every one of the `known` words is written, allowing for typos. */
+const namesAll = (written: string[], known: string[]) =>
+    known.every(word => written.some(writtenWord => wordSimilarity(writtenWord, word) > 0));
+
+/**
+ * How well the written words name the candidate. A candidate whose words are all there
+ * scores highest, less for each written word it leaves unaccounted for: "Telma H" is
+ * at most 0.75 for Telma. One only partly there scores less than 0.8.
+ */
+const nameScore = (written: string[], candidate: string[]) => {
+    const similarities = candidate.map(known => Math.max(0, ...written.map(word => wordSimilarity(word, known))));
+    const candidateCoverage = similarities.reduce((sum, similarity) => sum + similarity, 0) / candidate.length;
+    const writtenCoverage = written.filter(word => namesAll(candidate, [word])).length / written.length;
+    return similarities.every(similarity => similarity > 0)
+        ? candidateCoverage * (0.5 + 0.5 * writtenCoverage)
+        : 0.4 * candidateCoverage + 0.4 * writtenCoverage;
+};
+
+const formsAgree = (written: DosageForm, known: DosageForm) => written === known || (written === 'drops' && known === 'eye-drops');
+
+const hasIngredients = (candidate: Candidate, ingredients: Ingredient[]) =>
+    ingredients.every(({ id }) => candidate.ingredients.some(ingredient => ingredient.id === id));
+
+const score = (parsed: ParsedName, candidate: Candidate, combinations: Candidate[]) => {
+    let confidence = nameScore(parsed.tokens, candidate.tokens);
+    if (combinations.some(combination => !hasIngredients(candidate, combination.ingredients))) confidence *= MISSING_INGREDIENT;
+    if (parsed.numbers.length > 0 && candidate.numbers.length > 0 && !parsed.numbers.some(n => candidate.numbers.includes(n))) {
+        confidence *= STRENGTH_MISMATCH;
+    }
+    if (parsed.form && candidate.form && !formsAgree(parsed.form, candidate.form)) confidence *= FORM_MISMATCH;
+    return confidence;
+};
+
+const toMatch = (parsed: ParsedName, candidate: Candidate, confidence: number): DrugMatch => {
+    // A single medicine named without a product takes the strength written with it, as long
+    // as its name is all that was written: the 1 in "Glycomet GP 1" is not metformin's.
+    const takesStrength = !candidate.product && candidate.ingredients.length === 1 && parsed.strength
+        && namesAll(candidate.tokens, parsed.tokens);
+    return {
+        ingredients: takesStrength ? [{ ...candidate.ingredients[0], strength: parsed.strength }] : candidate.ingredients,
+        form: candidate.form ?? parsed.form,
+        product: candidate.product,
+        byGenericName: candidate.byGenericName,
+        confidence,
+    };
+};
+
+const ingredientKey = (match: DrugMatch) => match.ingredients.map(ingredient => ingredient.id).sort().join('+');
+
+export const normalizeMedication = (input: string): NormalizedMedication => {
+    const parsed = parseName(input);
+    if (parsed.tokens.length === 0) return { input, alternatives: [] };
+    // Combination products whose whole name is written: a match must have all their ingredients to be confident.
+    const combinations = PRODUCT_CANDIDATES.filter(product => product.ingredients.length > 1 && namesAll(parsed.tokens, product.tokens));
+    const ranked = CANDIDATES
+        .map(candidate => ({ candidate, confidence: score(parsed, candidate, combinations) }))
+        .filter(({ confidence }) => confidence >= MIN_CONFIDENCE)
+        .sort((a, b) => b.confidence - a.confidence);
+    // Names for the same ingredients are one medicine; only the best of them is kept.
+    const seen = new Set<string>();
+    const matches = ranked
+        .map(({ candidate, confidence }) => toMatch(parsed, candidate, confidence))
+        .filter(match => !seen.has(ingredientKey(match)) && !!seen.add(ingredientKey(match)));
+    return { input, match: matches[0], alternatives: matches.slice(1, MAX_ALTERNATIVES + 1) };
+};
+
+/** "Amoxicillin 500 mg + Clavulanic acid 125 mg". */
+export const genericLabel = (match: DrugMatch) =>
+    match.ingredients.map(({ name, strength }) => [name, strength].filter(Boolean).join(' ')).join(' + ');
+
+export const isConfident = (match?: DrugMatch) => !!match && match.confidence >= CONFIDENT;
+
+/**
+ * The name to keep for a medicine when the match is confident, and otherwise `asWritten`:
+ * the generic name, followed by the brand it was written as, as in "Paracetamol 650 mg (Dolo 650)".
+ */
+export const medicationName = ({ input, match }: NormalizedMedication, asWritten = input) => {
+    if (!isConfident(match)) return asWritten;
+    const generic = genericLabel(match);
+    return match.byGenericName ? generic : `${generic} (${match.product ?? asWritten})`;
+};
@@ -0,0 +1,183 @@
+// --- Bundled Growth Reference ---
+// WHO growth references in LMS form: the WHO Child Growth Standards (2006) from birth to
+// five years, which IAP also recommends for Indian children under five, and the WHO
+// growth reference (2007) from five to nineteen. Rows are condensed to monthly values for
+// the first quarter, then every three to twelve months, and yearly from five years; ages
+// in between are interpolated, so percentiles can differ slightly from the full tables.
+// Each row is the WHO's published LMS values for that month, with the standing-height
+// tables at 24 months.
+//
+// For a measurement X, z = ((X / M)^L - 1) / (L × S). Length is measured lying down
+// before two years and height standing after.
+
+export type GrowthIndicator = 'weight-for-age' | 'height-for-age' | 'bmi-for-age';
+
+export const GROWTH_INDICATORS: GrowthIndicator[] = ['weight-for-age', 'height-for-age', 'bmi-for-age'];
+
+/** Age in months, then the Box-Cox power (L), median (M) and coefficient of variation (S). */
+export type LmsRow = [ageMonths: number, l: number, m: number, s: number];
+
+interface GrowthTable {
+    male: LmsRow[];
+    female: LmsRow[];
+}
+
+// The 2007 reference has no weight-for-age past ten years, where BMI-for-age is used instead.
+export const GROWTH_TABLES: Record<GrowthIndicator, GrowthTable> = {
+    'weight-for-age': {
+        male: [
+            [0, 0.3487, 3.3464, 0.14602],
+            [1, 0.2297, 4.4709, 0.13395],
+            [2, 0.197, 5.5675, 0.12385],
+            [3, 0.1738, 6.3762, 0.11727],
+            [6, 0.1257, 7.934, 0.10958],
+            [9, 0.0917, 8.9014, 0.10881],
+            [12, 0.0644, 9.6479, 0.10925],
+            [18, 0.0211, 10.9385, 0.11119],
+            [24, -0.0137, 12.1515, 0.11426],
+            [36, -0.0689, 14.3429, 0.12116],
+            [48, -0.1131, 16.3489, 0.12759],
+            [60, -0.1506, 18.3366, 0.13517],
+            [72, -0.318, 20.5137, 0.13372],
+            [84, -0.4402, 22.8915, 0.13759],
+            [96, -0.5482, 25.4163, 0.14344],
+            [108, -0.6337, 28.1092, 0.15233],
+            [120, -0.6764, 31.1586, 0.16305],
+        ],
+        female: [
+            [0, 0.3809, 3.2322, 0.14171],
+            [1, 0.1714, 4.1873, 0.13724],
+            [2, 0.0962, 5.1282, 0.13],
+            [3, 0.0402, 5.8458, 0.12619],
+            [6, -0.0756, 7.297, 0.12204],
+            [9, -0.1507, 8.2254, 0.12199],
+            [12, -0.2024, 8.9481, 0.12268],
+            [18, -0.2637, 10.2315, 0.12309],
+            [24, -0.2941, 11.4775, 0.1239],
+            [36, -0.3201, 13.8503, 0.12919],
+            [48, -0.3361, 16.0697, 0.13884],
+            [60, -0.3518, 18.2193, 0.14821],
+            [72, -0.5013, 20.1639, 0.149],
+            [84, -0.5347, 22.374, 0.15556],
+            [96, -0.5627, 25.0262, 0.16186],
+            [108, -0.5833, 28.204, 0.16764],
+            [120, -0.5958, 31.8578, 0.17262],
+        ],
+    },
+    'height-for-age': {
+        male: [
+            [0, 1, 49.8842, 0.03795],
+            [1, 1, 54.7244, 0.03557],
+            [2, 1, 58.4249, 0.03424],
+            [3, 1, 61.4292, 0.03328],
+            [6, 1, 67.6236, 0.03165],
+            [9, 1, 71.9687, 0.03117],
+            [12, 1, 75.7488, 0.03137],
+            [18, 1, 82.2587, 0.03279],
+            [24, 1, 87.1161, 0.03507],
+            [36, 1, 96.0835, 0.03858],
+            [48, 1, 103.3273, 0.04059],
+            [60, 1, 109.9638, 0.04214],
+            [72, 1, 115.9509, 0.04249],
+            [84, 1, 121.7338, 0.04342],
+            [96, 1, 127.2651, 0.04438],
+            [108, 1, 132.5652, 0.04535],
+            [120, 1, 137.7795, 0.04626],
+            [132, 1, 143.1126, 0.04703],
+            [144, 1, 149.0807, 0.04753],
+            [156, 1, 156.0426, 0.0476],
+            [168, 1, 163.1816, 0.04714],
+            [180, 1, 168.958, 0.04619],
+            [192, 1, 172.8967, 0.04495],
+            [204, 1, 175.1609, 0.04364],
+            [216, 1, 176.1449, 0.04241],
+            [228, 1, 176.5432, 0.04134],
+        ],
+        female: [
+            [0, 1, 49.1477, 0.0379],
+            [1, 1, 53.6872, 0.0364],
+            [2, 1, 57.0673, 0.03568],
+            [3, 1, 59.8029, 0.0352],
+            [6, 1, 65.7311, 0.03448],
+            [9, 1, 70.1435, 0.03444],
+            [12, 1, 74.015, 0.03479],
+            [18, 1, 80.7079, 0.03598],
+            [24, 1, 85.7153, 0.03764],
+            [36, 1, 95.0515, 0.04006],
+            [48, 1, 102.7312, 0.04193],
+            [60, 1, 109.4233, 0.04347],
+            [72, 1, 115.1244, 0.04447],
+            [84, 1, 120.8105, 0.04525],
+            [96, 1, 126.5558, 0.04581],
+            [108, 1, 132.4944, 0.04612],
+            [120, 1, 138.6363, 0.04614],
+            [132, 1, 144.9929, 0.04584],
+            [144, 1, 151.2327, 0.04523],
+            [156, 1, 156.3748, 0.04439],
+            [168, 1, 159.789, 0.04345],
+            [180, 1, 161.6692, 0.04255],
+            [192, 1, 162.5156, 0.04176],
+            [204, 1, 162.8545, 0.04109],
+            [216, 1, 163.0595, 0.04053],
+            [228, 1, 163.1548, 0.04009],
+        ],
+    },
+    'bmi-for-age': {
+        male: [
+            [0, -0.3053, 13.4069, 0.0956],
+            [1, 0.2708, 14.9441, 0.09027],
+            [2, 0.1118, 16.3195, 0.08677],
+            [3, 0.0068, 16.8987, 0.08495],
+            [6, -0.1913, 17.3422, 0.08234],
+            [9, -0.3176, 17.1662, 0.08102],
+            [12, -0.4115, 16.7981, 0.08009],
+            [18, -0.5484, 16.1392, 0.07873],
+            [24, -0.6187, 16.0189, 0.07785],
+            [36, -0.3101, 15.5988, 0.07931],
+            [48, -0.3622, 15.3326, 0.08238],
+            [60, -0.6892, 15.1916, 0.087],
+            [72, -0.9921, 15.3062, 0.08682],
+            [84, -1.246, 15.4832, 0.09068],
+            [96, -1.4629, 15.7368, 0.09526],
+            [108, -1.6318, 16.049, 0.10038],
+            [120, -1.7407, 16.4433, 0.10566],
+            [132, -1.7862, 16.9392, 0.1107],
+            [144, -1.7751, 17.5334, 0.11522],
+            [156, -1.7168, 18.233, 0.11898],
+            [168, -1.6211, 19.005, 0.12191],
+            [180, -1.4961, 19.7744, 0.12412],
+            [192, -1.3529, 20.4951, 0.12579],
+            [204, -1.1962, 21.1423, 0.12715],
+            [216, -1.026, 21.7077, 0.12836],
+            [228, -0.8419, 22.1883, 0.12948],
+        ],
+        female: [
+            [0, -0.0631, 13.3363, 0.09272],
+            [1, 0.3448, 14.5679, 0.09556],
+            [2, 0.1749, 15.7679, 0.09371],
+            [3, 0.0643, 16.3574, 0.09254],
+            [6, -0.1429, 16.9083, 0.09036],
+            [9, -0.2725, 16.7406, 0.08898],
+            [12, -0.3667, 16.3568, 0.08797],
+            [18, -0.5017, 15.7263, 0.0865],
+            [24, -0.5684, 15.6881, 0.08454],
+            [36, -0.5684, 15.3968, 0.08535],
+            [48, -0.5684, 15.2602, 0.09168],
+            [60, -0.5684, 15.2747, 0.09789],
+            [72, -1.0794, 15.2697, 0.10195],
+            [84, -1.2565, 15.4036, 0.10746],
+            [96, -1.388, 15.681, 0.11291],
+            [108, -1.465, 16.0964, 0.11816],
+            [120, -1.4864, 16.6133, 0.12307],
+            [132, -1.4606, 17.2459, 0.12748],
+            [144, -1.4006, 17.9966, 0.13129],
+            [156, -1.3195, 18.8012, 0.13445],
+            [168, -1.2266, 19.5647, 0.137],
+            [180, -1.1311, 20.2125, 0.13904],
+            [192, -1.0368, 20.7008, 0.1407],
+            [204, -0.9423, 21.0367, 0.14208],
+            [216, -0.8462, 21.2603, 0.1433],
+            [228, -0.7496, 21.4269, 0.14441],
+        ],
+    },
+};
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BiologicalSex } from '../calories';
+import { assessGrowth, CURVE_PERCENTILES, GrowthIndicator } from './index';
+
+const [P3, P50, P97] = [3, 50, 97].map(percentile => CURVE_PERCENTILES.find(curve => curve.percentile === percentile)!.z);
+
+/** The z-score of a value, giving BMI as a weight at 1 m tall. */
+const zFor = (indicator: GrowthIndicator, sex: BiologicalSex, ageMonths: number, value: number) => {
+    const measurement = indicator === 'height-for-age' ? { heightCm: value } : indicator === 'bmi-for-age' ? { weightKg: value, heightCm: 100 } : { weightKg: value };
+    return assessGrowth({ sex, ageMonths, ...measurement }).findings.find(finding => finding.indicator === indicator)!.zScore;
+};
+
+// [indicator, sex, age in months, P3, P50, P97] from the WHO percentile tables. The 2006
+// standards give weights to 0.1 kg, so they are checked less closely than the 2007 reference.
+const PUBLISHED: [GrowthIndicator, BiologicalSex, number, number, number, number, number][] = [
+    ['weight-for-age', 'female', 6, 5.8, 7.3, 9.2, 0.07],
+    ['weight-for-age', 'male', 12, 7.8, 9.6, 11.8, 0.07],
+    ['weight-for-age', 'female', 36, 11, 13.9, 17.8, 0.07],
+    ['weight-for-age', 'male', 48, 12.9, 16.3, 20.9, 0.07],
+    ['weight-for-age', 'male', 72, 16.105, 20.514, 26.661, 0.015],
+    ['weight-for-age', 'female', 96, 18.896, 25.026, 34.947, 0.015],
+    ['weight-for-age', 'male', 120, 23.581, 31.159, 43.938, 0.015],
+    ['height-for-age', 'male', 156, 142.073, 156.043, 170.012, 0.015],
+    ['height-for-age', 'female', 180, 148.731, 161.669, 174.607, 0.015],
+    ['bmi-for-age', 'male', 108, 13.614, 16.049, 20.112, 0.015],
+    ['bmi-for-age', 'female', 144, 14.558, 17.997, 24.366, 0.015],
+    ['bmi-for-age', 'male', 204, 17.132, 21.142, 28.021, 0.015],
+];
+
+describe('assessGrowth', () => {
+    for (const [indicator, sex, ageMonths, p3, p50, p97, tolerance] of PUBLISHED) {
+        it(`matches the WHO ${indicator} percentiles for a ${sex} child at ${ageMonths} months`, () => {
+            for (const [value, z] of [[p3, P3], [p50, P50], [p97, P97]]) {
+                const actual = zFor(indicator, sex, ageMonths, value);
+                assert.ok(Math.abs(actual - z) <= tolerance, `${value}: z ${actual}, expected ${z}`);
+            }
+        });
+    }
+});
@@ -0,0 +1,177 @@
+import type { BiologicalSex } from '../calories';
+import { daysBetween } from '../bodyTrends';
+import { GROWTH_TABLES, GrowthIndicator } from './data';
+
+// --- Child Growth ---
+// Weight-for-age, height-for-age and BMI-for-age z-scores and percentiles against the
+// bundled WHO reference, with the WHO cut-offs for each, and the reference curves to
+// plot a child's measurements on. Runs on the device.
+
+export { GROWTH_INDICATORS } from './data';
+export type { GrowthIndicator } from './data';
+
+export interface GrowthMeasurement {
+    sex: BiologicalSex;
+    ageMonths: number;
+    weightKg?: number;
+    /** Length lying down before two years, height standing after. */
+    heightCm?: number;
+}
+
+export type GrowthStatus =
+    | 'normal'
+    | 'severely-underweight'
+    | 'underweight'
+    | 'above-range'
+    | 'severely-stunted'
+    | 'stunted'
+    | 'very-tall'
+    | 'severely-wasted'
+    | 'wasted'
+    | 'overweight-risk'
+    | 'severe-thinness'
+    | 'thinness'
+    | 'overweight'
+    | 'obese';
+
+export interface GrowthFinding {
+    indicator: GrowthIndicator;
+    value: number;
+    zScore: number;
+    /** 0–100. */
+    percentile: number;
+    status: GrowthStatus;
+}
+
+export interface GrowthAssessment {
+    ageMonths: number;
+    findings: GrowthFinding[];
+    /** Indicators that were measured but have no reference values at this age. */
+    outOfRange: GrowthIndicator[];
+}
+
+interface Lms {
+    l: number;
+    m: number;
+    s: number;
+}
+
+/** The lines drawn on a growth chart, with their z-scores. */
+export const CURVE_PERCENTILES = [
+    { percentile: 3, z: -1.881 },
+    { percentile: 15, z: -1.036 },
+    { percentile: 50, z: 0 },
+    { percentile: 85, z: 1.036 },
+    { percentile: 97, z: 1.881 },
+];
+
+const MONTHS_PER_DAY = 12 / 365.25;
+
+// The WHO classifies BMI differently before and after five years.
+const UNDER_FIVE_MONTHS = 60;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Age in months, with the fraction, from a birth date to a measurement date, both `YYYY-MM-DD`. */
+export const ageInMonths = (birthDate: string, measuredOn: string) => daysBetween(birthDate, measuredOn) * MONTHS_PER_DAY;
+
+/** The oldest age, in months, the reference covers for an indicator. */
+export const maxAgeMonths = (indicator: GrowthIndicator, sex: BiologicalSex) => {
+    const rows = GROWTH_TABLES[indicator][sex];
+    return rows[rows.length - 1][0];
+};
+
+/** L, M and S at an age, interpolated between rows; undefined outside the reference. */
+const lmsAt = (indicator: GrowthIndicator, sex: BiologicalSex, ageMonths: number): Lms | undefined => {
+    const rows = GROWTH_TABLES[indicator][sex];
+    if (ageMonths < 0 || ageMonths > maxAgeMonths(indicator, sex)) return undefined;
+    const next = rows.findIndex(([age]) => age >= ageMonths);
+    const [age1, l1, m1, s1] = rows[next];
+    if (age1 === ageMonths || next === 0) return { l: l1, m: m1, s: s1 };
+    const [age0, l0, m0, s0] = rows[next - 1];
+    const f = (ageMonths - age0) / (age1 - age0);
+    return { l: l0 + (l1 - l0) * f, m: m0 + (m1 - m0) * f, s: s0 + (s1 - s0) * f };
+};
+
+const valueAtZ = ({ l, m, s }: Lms, z: number) => (l === 0 ? m * Math.exp(s * z) : m * (1 + l * s * z) ** (1 / l));
+
+/**
+ * The LMS z-score. Beyond ±3 the WHO measures weight and BMI in units of the distance
+ * between the 2 and 3 SD lines, since the skewed curves spread out there.
+ */
+const zScore = (value: number, lms: Lms, indicator: GrowthIndicator) => {
+    const { l, m, s } = lms;
+    const z = l === 0 ? Math.log(value / m) / s : ((value / m) ** l - 1) / (l * s);
+    if (indicator === 'height-for-age' || Math.abs(z) <= 3) return z;
+    const sd3 = valueAtZ(lms, Math.sign(z) * 3);
+    const sd23 = Math.abs(sd3 - valueAtZ(lms, Math.sign(z) * 2));
+    return Math.sign(z) * 3 + (value - sd3) / sd23;
+};
+
+// Abramowitz and Stegun 7.1.26; accurate to about 1e-7.
+const erf = (x: number) => {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    return Math.sign(x) * (1 - poly * Math.exp(-x * x));
+};
+
+/** The share of children at or below a z-score, as a percentage. */
+export const zToPercentile = (z: number) => 50 * (1 + erf(z / Math.SQRT2));
+
+const classify = (indicator: GrowthIndicator, z: number, ageMonths: number): GrowthStatus => {
+    switch (indicator) {
+        case 'weight-for-age':
+            return z < -3 ? 'severely-underweight' : z < -2 ? 'underweight' : z > 2 ? 'above-range' : 'normal';
+        case 'height-for-age':
+            return z < -3 ? 'severely-stunted' : z < -2 ? 'stunted' : z > 3 ? 'very-tall' : 'normal';
+        case 'bmi-for-age':
+            if (ageMonths < UNDER_FIVE_MONTHS) {
+                return z < -3 ? 'severely-wasted' : z < -2 ? 'wasted' : z > 3 ? 'obese' : z > 2 ? 'overweight' : z > 1 ? 'overweight-risk' : 'normal';
+            }
+            return z < -3 ? 'severe-thinness' : z < -2 ? 'thinness' : z > 2 ? 'obese' : z > 1 ? 'overweight' : 'normal';
+    }
+};
+
+const bmi = (weightKg: number, heightCm: number) => weightKg / (heightCm / 100) ** 2;
+
+/** The value of each indicator that can be worked out from a measurement. */
+const indicatorValues = ({ weightKg, heightCm }: GrowthMeasurement) => {
+    const values: [GrowthIndicator, number][] = [];
+    if (weightKg) values.push(['weight-for-age', weightKg]);
+    if (heightCm) values.push(['height-for-age', heightCm]);
+    if (weightKg && heightCm) values.push(['bmi-for-age', round2(bmi(weightKg, heightCm))]);
+    return values;
+};
+
+export const assessGrowth = (measurement: GrowthMeasurement): GrowthAssessment => {
+    const { sex, ageMonths } = measurement;
+    const findings: GrowthFinding[] = [];
+    const outOfRange: GrowthIndicator[] = [];
+    indicatorValues(measurement).forEach(([indicator, value]) => {
+        const lms = lmsAt(indicator, sex, ageMonths);
+        if (!lms) {
+            outOfRange.push(indicator);
+            return;
+        }
+        const z = zScore(value, lms, indicator);
+        findings.push({
+            indicator,
+            value,
+            zScore: round2(z),
+            percentile: Math.round(zToPercentile(z) * 10) / 10,
+            status: classify(indicator, z, ageMonths),
+        });
+    });
+    return { ageMonths: Math.round(ageMonths * 10) / 10, findings, outOfRange };
+};
+
+/** The stretch of the reference a chart shows for a child of this age, in months. */
+export const chartAgeRange = (indicator: GrowthIndicator, sex: BiologicalSex, ageMonths: number): [number, number] => {
+    if (ageMonths < 24) return [0, 24];
+    if (ageMonths < UNDER_FIVE_MONTHS) return [0, UNDER_FIVE_MONTHS];
+    return [UNDER_FIVE_MONTHS, maxAgeMonths(indicator, sex)];
+};
+
+/** A reference line as [age in months, value] points, one per month. */
+export const growthCurve = (indicator: GrowthIndicator, sex: BiologicalSex, z: number, [from, to]: [number, number]): [number, number][] =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i).map(age => [age, round2(valueAtZ(lmsAt(indicator, sex, age), z))]);
@@ -0,0 +1,52 @@
+import { createId, getVault } from './vault';
+
+// --- Analysis History ---
+// Results from the symptom checker, calorie calculator, prescription scanner, imaging,
+// biometric and growth pages are kept in the vault so they survive navigation. Prescription scans
+// have always had their own collection, so the timeline merges it with `analyses`.
+
+export type HistoryFeature = 'assistant' | 'calculator' | 'scanner' | 'imaging' | 'biometric' | 'growth';
+
+export const HISTORY_FEATURES: HistoryFeature[] = ['assistant', 'calculator', 'scanner', 'imaging', 'biometric', 'growth'];
+
+export const isHistoryFeature = (value: string): value is HistoryFeature => (HISTORY_FEATURES as string[]).includes(value);
+
+export interface HistoryEntry {
+    id: string;
+    feature: HistoryFeature;
+    /** The form values the result was produced from; empty for scans, whose image is not kept. */
+    inputs: Record<string, string>;
+    result: unknown;
+    createdAt: string;
+}
+
+/**
+ * Saves a result to the history in the background; a failed save is only logged.
+ * Returns the entry id, which can be passed back in to replace the entry with an updated result.
+ */
+export const saveAnalysis = (feature: Exclude<HistoryFeature, 'scanner'>, inputs: Record<string, string>, result: unknown, id = createId()) => {
+    getVault().put('analyses', { id, feature, inputs, result, createdAt: new Date().toISOString() })
+        .catch(e => console.error("Failed to save analysis", e));
+    return id;
+};
+
+/** Every saved result, newest first. */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+    const vault = getVault();
+    const [analyses, scans] = await Promise.all([vault.list('analyses'), vault.list('scans')]);
+    const entries: HistoryEntry[] = [
+        ...analyses.flatMap(({ id, feature, inputs, result, createdAt }) =>
+            isHistoryFeature(feature) ? [{ id, feature, inputs, result, createdAt }] : []),
+        ...scans.map(({ id, createdAt, ...scan }): HistoryEntry => ({
+            id,
+            feature: 'scanner',
+            inputs: {},
+            result: scan,
+            createdAt,
+        })),
+    ];
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteHistoryEntry = (entry: HistoryEntry) =>
+    getVault().delete(entry.feature === 'scanner' ? 'scans' : 'analyses', entry.id);
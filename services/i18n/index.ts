@@ -0,0 +1,80 @@
+import { useSyncExternalStore } from 'react';
+import { en, MessageKey, Messages } from './locales/en';
+import { isLanguageCode, LanguageCode, LanguageInfo, LANGUAGES } from './languages';
+
+// --- Localization ---
+// The chosen language drives UI strings, speech recognition/synthesis and the language
+// the AI is asked to answer in. English is bundled; other catalogs load on demand, and
+// any key a catalog lacks falls back to English.
+
+export type { MessageKey } from './locales/en';
+
+export { LANGUAGES } from './languages';
+export type { LanguageCode, LanguageInfo } from './languages';
+
+const catalogLoaders: Record<Exclude<LanguageCode, 'en'>, () => Promise<Messages>> = {
+    hi: () => import('./locales/hi').then(m => m.hi),
+    ta: () => import('./locales/ta').then(m => m.ta),
+    te: () => import('./locales/te').then(m => m.te),
+    bn: () => import('./locales/bn').then(m => m.bn),
+    kn: () => import('./locales/kn').then(m => m.kn),
+    mr: () => import('./locales/mr').then(m => m.mr),
+};
+
+const LANGUAGE_STORAGE_KEY = 'language';
+
+const catalogs: Partial<Record<LanguageCode, Messages>> = { en };
+let currentLanguage: LanguageCode = 'en';
+
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const getLanguage = (): LanguageCode => currentLanguage;
+
+export const getLanguageInfo = (code: LanguageCode = currentLanguage): LanguageInfo =>
+    LANGUAGES.find(l => l.code === code) ?? LANGUAGES[0];
+
+/** Loads the catalog if needed, then switches every subscriber to `code`. */
+export const setLanguage = async (code: LanguageCode): Promise<void> => {
+    if (!catalogs[code] && code !== 'en') {
+        try {
+            catalogs[code] = await catalogLoaders[code]();
+        } catch (e) {
+            // Untranslated strings fall back to English anyway, so carry on without the catalog.
+            console.error(`Failed to load the ${code} translations`, e);
+        }
+    }
+    currentLanguage = code;
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, code);
+    document.documentElement.lang = code;
+    listeners.forEach(listener => listener());
+};
+
+/** Restores the saved language, or the closest match to the browser's, before first render. */
+export const initLanguage = (): Promise<void> => {
+    const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    const browserMatch = navigator.languages
+        .map(tag => tag.split('-')[0])
+        .find(isLanguageCode);
+    return setLanguage(isLanguageCode(stored) ? stored : browserMatch ?? 'en');
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+export const translate = (key: MessageKey, params?: TranslationParams): string => {
+    const template = catalogs[currentLanguage]?.[key] ?? en[key];
+    return params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+};
+
+export type Translate = typeof translate;
+
+export const useTranslation = () => {
+    const language = useSyncExternalStore(subscribe, getLanguage);
+    return { language, setLanguage, t: translate };
+};
@@ -0,0 +1,27 @@
+// --- Languages ---
+// The languages the app is offered in, kept apart from the catalogs and React bindings
+// so the API server can check the language a request asks to be answered in.
+
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'te' | 'bn' | 'kn' | 'mr';
+
+export interface LanguageInfo {
+    code: LanguageCode;
+    /** Name shown in the picker, in the language itself. */
+    nativeName: string;
+    /** Name used when asking the model to answer in this language. */
+    englishName: string;
+    /** BCP 47 tag for speech recognition and synthesis. */
+    speechLang: string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+    { code: 'en', nativeName: 'English', englishName: 'English', speechLang: 'en-IN' },
+    { code: 'hi', nativeName: 'हिन्दी', englishName: 'Hindi', speechLang: 'hi-IN' },
+    { code: 'ta', nativeName: 'தமிழ்', englishName: 'Tamil', speechLang: 'ta-IN' },
+    { code: 'te', nativeName: 'తెలుగు', englishName: 'Telugu', speechLang: 'te-IN' },
+    { code: 'bn', nativeName: 'বাংলা', englishName: 'Bengali', speechLang: 'bn-IN' },
+    { code: 'kn', nativeName: 'ಕನ್ನಡ', englishName: 'Kannada', speechLang: 'kn-IN' },
+    { code: 'mr', nativeName: 'मराठी', englishName: 'Marathi', speechLang: 'mr-IN' },
+];
+
+export const isLanguageCode = (value: unknown): value is LanguageCode => LANGUAGES.some(l => l.code === value);
@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const bn: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'সহকারী',
+    'nav.calculator': 'ক্যালোরি',
+    'nav.diary': 'খাদ্য ডায়েরি',
+    'nav.mealPlan': 'খাবারের পরিকল্পনা',
+    'nav.growth': 'বৃদ্ধির চার্ট',
+    'nav.scanner': 'প্রেসক্রিপশন',
+    'nav.imaging': 'ইমেজিং',
+    'nav.biometric': 'বায়োমেট্রিক',
+    'nav.hospitals': 'হাসপাতাল',
+    'nav.delivery': 'ডেলিভারি',
+    'nav.history': 'ইতিহাস',
+    'nav.profile': 'প্রোফাইল',
+    'nav.logout': 'লগ আউট',
+    'language.label': 'ভাষা',
+
+    // --- Shared ---
+    'common.disclaimer': 'দাবিত্যাগ: এটি AI-তৈরি বিশ্লেষণ এবং পেশাদার চিকিৎসা পরামর্শের বিকল্প নয়। যেকোনো স্বাস্থ্য সংক্রান্ত উদ্বেগের জন্য একজন যোগ্য স্বাস্থ্যসেবা প্রদানকারীর পরামর্শ নিন।',
+    'common.startRecording': 'রেকর্ডিং শুরু করুন',
+    'common.stopRecording': 'রেকর্ডিং বন্ধ করুন',
+    'common.readAloud': 'ফলাফল জোরে পড়ুন',
+    'common.unknownError': 'একটি অজানা ত্রুটি ঘটেছে।',
+
+    // --- Home ---
+    'home.title': 'ধন্বন্তরিতে স্বাগতম',
+    'home.intro': 'আরও ভালো স্বাস্থ্য বোঝার জন্য আপনার AI চিকিৎসা সহকারী। উপসর্গ বিশ্লেষণ করুন, পুষ্টির চাহিদা হিসাব করুন এবং সহজেই প্রেসক্রিপশন স্ক্যান করুন।',
+    'home.assistant.title': 'চিকিৎসা সহকারী',
+    'home.assistant.description': 'উপসর্গ বিশ্লেষণ করুন এবং ওষুধের পারস্পরিক ক্রিয়া পরীক্ষা করুন।',
+    'home.assistant.action': 'শুরু করুন',
+    'home.calculator.title': 'ক্যালোরি কাউন্টার',
+    'home.calculator.description': 'বিভিন্ন স্বাস্থ্য লক্ষ্যের জন্য আপনার দৈনিক ক্যালোরির চাহিদা অনুমান করুন।',
+    'home.calculator.action': 'এখনই হিসাব করুন',
+    'home.scanner.title': 'প্রেসক্রিপশন স্ক্যানার',
+    'home.scanner.description': 'লেখা বের করতে এবং ওষুধ শনাক্ত করতে প্রেসক্রিপশন আপলোড করুন।',
+    'home.scanner.action': 'এখনই স্ক্যান করুন',
+    'home.imaging.title': 'ইমেজিং বিশ্লেষণ',
+    'home.imaging.description': 'AI বিশ্লেষণ ও 3D ভিজ্যুয়ালাইজেশনের জন্য স্ক্যান (এক্স-রে, MRI) আপলোড করুন।',
+    'home.imaging.action': 'স্ক্যান বিশ্লেষণ করুন',
+    'home.biometric.title': 'বায়োমেট্রিক স্ক্যান',
+    'home.biometric.description': 'আপনার ক্যামেরা দিয়ে রিয়েল-টাইম বায়োমেট্রিক বিশ্লেষণ করুন।',
+    'home.biometric.action': 'স্ক্যান শুরু করুন',
+    'home.hospitals.title': 'কাছাকাছি হাসপাতাল',
+    'home.hospitals.description': 'হাসপাতাল খুঁজুন এবং অ্যাপয়েন্টমেন্ট বুক করুন।',
+    'home.hospitals.action': 'হাসপাতাল খুঁজুন',
+    'home.delivery.title': 'ওষুধ ডেলিভারি',
+    'home.delivery.description': 'ওষুধ অর্ডার করুন এবং ডেলিভারির জন্য প্রেসক্রিপশন আপলোড করুন।',
+    'home.delivery.action': 'এখনই অর্ডার করুন',
+    'home.profile.title': 'প্রোফাইল ও রিমাইন্ডার',
+    'home.profile.description': 'আপনার প্রোফাইল পরিচালনা করুন এবং ওষুধের রিমাইন্ডার সেট করুন।',
+    'home.profile.action': 'প্রোফাইল দেখুন',
+    'home.articles': 'সাম্প্রতিক চিকিৎসা নিবন্ধ',
+
+    // --- Not found ---
+    'notFound.title': 'পৃষ্ঠা পাওয়া যায়নি',
+    'notFound.message': 'আপনি যে পৃষ্ঠাটি খুঁজছেন সেটি নেই বা সরানো হয়েছে।',
+    'notFound.back': 'হোমে ফিরে যান',
+
+    // --- Login ---
+    'login.title': 'ধন্বন্তরিতে স্বাগতম',
+    'login.welcomeBack': 'আবার স্বাগতম, {name}',
+    'login.login.subtitle': 'আপনার চিকিৎসা সহকারী ব্যবহার করতে সাইন ইন করুন।',
+    'login.login.submit': 'লগ ইন',
+    'login.register.subtitle': 'আপনার স্বাস্থ্য তথ্য গোপন রাখতে একটি অ্যাকাউন্ট তৈরি করুন।',
+    'login.register.submit': 'অ্যাকাউন্ট তৈরি করুন',
+    'login.forgot.subtitle': 'পাসওয়ার্ড রিসেট কোড পেতে আপনার ইউজারনেম লিখুন।',
+    'login.forgot.submit': 'রিসেট কোড চান',
+    'login.reset.subtitle': 'আপনার রিসেট কোড লিখুন এবং একটি নতুন পাসওয়ার্ড বেছে নিন।',
+    'login.reset.submit': 'পাসওয়ার্ড রিসেট করুন',
+    'login.unlock.subtitle': 'এই ডিভাইসে আপনার স্বাস্থ্য রেকর্ড আনলক করতে পাসওয়ার্ড লিখুন।',
+    'login.unlock.submit': 'আনলক করুন',
+    'login.recover.subtitle': 'এই ডিভাইসে আপনার স্বাস্থ্য রেকর্ড আগের পাসওয়ার্ড দিয়ে লক করা আছে। সেগুলি রাখতে সেই পাসওয়ার্ডটি লিখুন।',
+    'login.recover.submit': 'রেকর্ড পুনরুদ্ধার করুন',
+    'login.username': 'ইউজারনেম',
+    'login.password': 'পাসওয়ার্ড',
+    'login.newPassword': 'নতুন পাসওয়ার্ড',
+    'login.previousPassword': 'আগের পাসওয়ার্ড',
+    'login.confirmPassword': 'পাসওয়ার্ড নিশ্চিত করুন',
+    'login.resetCode': 'রিসেট কোড',
+    'login.createAccount': 'অ্যাকাউন্ট তৈরি করুন',
+    'login.forgotPassword': 'পাসওয়ার্ড ভুলে গেছেন?',
+    'login.haveResetCode': 'আমার কাছে রিসেট কোড আছে',
+    'login.backToSignIn': 'সাইন ইনে ফিরে যান',
+    'login.startOver': 'খালি রেকর্ড দিয়ে শুরু করুন',
+    'login.signOut': 'সাইন আউট',
+    'login.passwordsMismatch': 'পাসওয়ার্ড মিলছে না।',
+    'login.resetDone': 'আপনার পাসওয়ার্ড রিসেট হয়েছে। অনুগ্রহ করে নতুন পাসওয়ার্ড দিয়ে সাইন ইন করুন।',
+    'login.confirmStartOver': 'এটি এই ডিভাইসে সংরক্ষিত স্বাস্থ্য রেকর্ড স্থায়ীভাবে মুছে ফেলবে। চালিয়ে যাবেন?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'চিকিৎসা সহকারী',
+    'assistant.subtitle': 'উপসর্গ ও ওষুধের পারস্পরিক ক্রিয়ার AI বিশ্লেষণের জন্য রোগীর তথ্য লিখুন।',
+    'assistant.age': 'বয়স',
+    'assistant.symptoms': 'উপসর্গ',
+    'assistant.medications': 'বর্তমান ওষুধ (কমা দিয়ে আলাদা করুন)',
+    'assistant.submit': 'উপসর্গ বিশ্লেষণ করুন',
+    'assistant.resultTitle': 'AI বিশ্লেষণ',
+    'assistant.interactions': 'সম্ভাব্য পারস্পরিক ক্রিয়া',
+    'assistant.noInteractions': 'কোনো পারস্পরিক ক্রিয়া পাওয়া যায়নি।',
+    'assistant.concerns': 'উদ্বেগ',
+    'assistant.suggestions': 'স্বাস্থ্য পরামর্শ',
+    'assistant.urgency': 'জরুরিতা: {level}।',
+    'assistant.mode.form': 'দ্রুত ফর্ম',
+    'assistant.mode.interview': 'নির্দেশিত সাক্ষাৎকার',
+    'urgency.self-care': 'নিজে যত্ন নিন',
+    'urgency.see-doctor': 'ডাক্তার দেখান',
+    'urgency.urgent': 'অবিলম্বে চিকিৎসা নিন',
+    'severity.minor': 'সামান্য',
+    'severity.moderate': 'মাঝারি',
+    'severity.major': 'গুরুতর',
+    'severity.contraindicated': 'নিষিদ্ধ',
+
+    // --- Symptom interview ---
+    'interview.progress': 'প্রশ্ন {current} / {total}',
+    'interview.question.complaint': 'প্রধান উপসর্গ বা সমস্যা কী?',
+    'interview.question.onset': 'এটি কীভাবে শুরু হয়েছিল?',
+    'interview.question.duration': 'কতদিন ধরে এটি আছে?',
+    'interview.question.severity': 'এখন এটি কতটা তীব্র, ১ থেকে ১০-এর মধ্যে?',
+    'interview.question.location': 'শরীরের কোথায় অনুভব করছেন?',
+    'interview.question.associated': 'আর কোনো উপসর্গ আছে কি?',
+    'interview.question.history': 'আপনার চিকিৎসার ইতিহাসে প্রাসঙ্গিক কিছু?',
+    'interview.question.medications': 'আপনি কোন ওষুধগুলি খাচ্ছেন?',
+    'interview.question.vitals': 'আপনার সম্পর্কে কিছু তথ্য',
+    'interview.hint.complaint': 'যেমন, মাথাব্যথা, পেটব্যথা, কাশি',
+    'interview.hint.onset': 'ঠিক কখন, এবং তখন আপনি কী করছিলেন? (ঐচ্ছিক)',
+    'interview.hint.duration': 'যেমন, গতকাল সকাল থেকে',
+    'interview.hint.location': 'যেমন, পেটের নিচের ডান দিকে',
+    'interview.hint.associated': 'প্রযোজ্যগুলিতে ট্যাপ করুন, বা বর্ণনা করুন',
+    'interview.hint.history': 'দীর্ঘমেয়াদী রোগ, অ্যালার্জি, সাম্প্রতিক আঘাত, অস্ত্রোপচার বা ভ্রমণ',
+    'interview.hint.medications': 'ওষুধগুলি কমা দিয়ে আলাদা করুন',
+    'interview.onset.sudden': 'হঠাৎ',
+    'interview.onset.gradual': 'ধীরে ধীরে',
+    'interview.duration.hours': 'এক দিনের কম',
+    'interview.duration.days': '১–৩ দিন',
+    'interview.duration.week': '৪–৭ দিন',
+    'interview.duration.longer': 'এক সপ্তাহের বেশি',
+    'interview.severity.scale': '১ = প্রায় টের পাওয়া যায় না, ১০ = অসহনীয়',
+    'interview.associated.fever': 'জ্বর',
+    'interview.associated.nausea': 'বমি বমি ভাব',
+    'interview.associated.vomiting': 'বমি',
+    'interview.associated.headache': 'মাথাব্যথা',
+    'interview.associated.cough': 'কাশি',
+    'interview.associated.dizziness': 'মাথা ঘোরা',
+    'interview.associated.fatigue': 'ক্লান্তি',
+    'interview.associated.rash': 'ফুসকুড়ি',
+    'interview.associated.diarrhoea': 'ডায়রিয়া',
+    'interview.associated.breathlessness': 'শ্বাসকষ্ট',
+    'interview.history.conditions': 'জানা রোগ: {list}',
+    'interview.history.allergies': 'অ্যালার্জি: {list}',
+    'interview.back': 'পিছনে',
+    'interview.next': 'পরবর্তী',
+    'interview.skip': 'এড়িয়ে যান',
+    'interview.review': 'সারাংশ দেখুন',
+    'interview.summaryTitle': 'আপনার উত্তরগুলি যাচাই করুন',
+    'interview.summaryHint': 'বিশ্লেষণ এই সারাংশের উপর ভিত্তি করে হবে। এগোনোর আগে কিছু সংশোধন বা যোগ করুন।',
+    'interview.summary.complaint': 'প্রধান উপসর্গ',
+    'interview.summary.onset': 'শুরু',
+    'interview.summary.duration': 'সময়কাল',
+    'interview.summary.severity': 'তীব্রতা',
+    'interview.summary.location': 'অবস্থান',
+    'interview.summary.associated': 'অন্যান্য উপসর্গ',
+    'interview.summary.history': 'ইতিহাস',
+    'interview.startOver': 'আবার শুরু করুন',
+
+    // --- Vitals ---
+    'vitals.title': 'ভাইটালস (ঐচ্ছিক)',
+    'vitals.temperature': 'শরীরের তাপমাত্রা',
+    'vitals.bloodPressure': 'রক্তচাপ (mmHg)',
+    'vitals.systolic': 'সিস্টোলিক',
+    'vitals.diastolic': 'ডায়াস্টোলিক',
+    'vitals.heartRate': 'হৃদস্পন্দন (স্পন্দন/মিনিট)',
+    'vitals.spo2': 'অক্সিজেন স্যাচুরেশন (SpO₂ %)',
+    'vitals.respiratoryRate': 'শ্বাসের হার (শ্বাস/মিনিট)',
+    'vitals.glucose': 'রক্তে গ্লুকোজ',
+    'vitals.glucoseTiming': 'কখন মাপা হয়েছে',
+    'vitals.glucose.random': 'র‍্যান্ডম / খাওয়ার পরে',
+    'vitals.glucose.fasting': 'খালি পেটে',
+    'vitals.weight': 'ওজন',
+    'vitals.unit': 'একক',
+    'vitals.low': 'কম – স্বাভাবিক {range}',
+    'vitals.high': 'বেশি – স্বাভাবিক {range}',
+    'vitals.note': 'স্বাভাবিক সীমা বয়স অনুযায়ী নির্ধারিত। এর বাইরের রিডিং আবার মাপার বা ডাক্তার দেখানোর কারণ, রোগনির্ণয় নয়।',
+
+    // --- History ---
+    'history.title': 'বিশ্লেষণের ইতিহাস',
+    'history.subtitle': 'আগের বিশ্লেষণ, হিসাব ও স্ক্যান, এই ডিভাইসে সংরক্ষিত।',
+    'history.all': 'সব',
+    'history.feature.assistant': 'উপসর্গ বিশ্লেষণ',
+    'history.feature.calculator': 'ক্যালোরি হিসাব',
+    'history.feature.scanner': 'প্রেসক্রিপশন স্ক্যান',
+    'history.feature.imaging': 'ইমেজিং রিপোর্ট',
+    'history.feature.biometric': 'বায়োমেট্রিক বিশ্লেষণ',
+    'history.feature.growth': 'বৃদ্ধি পরীক্ষা',
+    'history.empty': 'এখনও কিছু সংরক্ষিত হয়নি। বিশ্লেষণ চালানোর পরে ফলাফল এখানে দেখা যাবে।',
+    'history.view': 'ফলাফল দেখুন',
+    'history.delete': 'মুছুন',
+    'history.confirmDelete': 'এই এন্ট্রি মুছবেন? এটি ফেরানো যাবে না।',
+    'history.compare': 'তুলনার জন্য বেছে নিন',
+    'history.compareHint': 'দুটি এন্ট্রি বেছে নিয়ে পাশাপাশি তুলনা করুন।',
+    'history.compareSelected': 'বেছে নেওয়াগুলির তুলনা করুন ({count}/2)',
+    'history.compareTitle': 'বিশ্লেষণের তুলনা',
+    'history.inputs': 'ইনপুট',
+    'history.result': 'ফলাফল',
+    'history.fileName': 'ফাইল',
+    'history.back': '← ইতিহাসে ফিরুন',
+    'history.notFound': 'এই এন্ট্রি আর নেই।',
+    'history.loadError': 'আপনার ইতিহাস লোড করা যায়নি।',
+    'history.deleteError': 'এন্ট্রি মোছা যায়নি।',
+
+    // --- Food diary ---
+    'diary.title': 'খাদ্য ডায়েরি',
+    'diary.subtitle': 'যা খান তা লিখে রাখুন এবং দৈনিক ক্যালোরি ও ম্যাক্রো লক্ষ্যের সঙ্গে মিলিয়ে দেখুন।',
+    'diary.view.day': 'দিন',
+    'diary.view.week': 'সপ্তাহ',
+    'diary.previous': '← আগের',
+    'diary.next': 'পরের →',
+    'diary.date': 'তারিখ',
+    'diary.dayTotals': 'আজকের মোট',
+    'diary.addFood': 'খাবার যোগ করুন',
+    'diary.meal': 'খাবারের সময়',
+    'diary.meal.breakfast': 'প্রাতরাশ',
+    'diary.meal.lunch': 'দুপুরের খাবার',
+    'diary.meal.dinner': 'রাতের খাবার',
+    'diary.meal.snack': 'জলখাবার',
+    'diary.whatDidYouEat': 'আপনি কী খেয়েছেন?',
+    'diary.foodPlaceholder': 'যেমন 2 roti, 1 bowl dal and a banana',
+    'diary.add': 'ডায়েরিতে যোগ করুন',
+    'diary.barcode': 'বারকোড নম্বর',
+    'diary.servings': 'পরিবেশন',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'বারকোড দিয়ে যোগ করুন',
+    'diary.barcodeInvalid': 'এটি সঠিক বারকোড নম্বর নয়। দাগগুলির নিচে ছাপা সংখ্যাগুলি দেখুন।',
+    'diary.barcodeUnknown': 'এই পণ্যটি এখনও খাদ্য ডেটাবেসে নেই।',
+    'diary.nothingRecognized': 'এর কোনো খাবারই ডেটাবেসে নেই। "roti" বা "dal"-এর মতো সহজ নাম চেষ্টা করুন।',
+    'diary.unrecognized': 'খাদ্য ডেটাবেসে নেই, তাই যোগ করা হয়নি: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · প্রোটিন {protein} g · কার্ব {carbs} g · চর্বি {fat} g',
+    'diary.deleteEntry': '{name} সরান',
+    'diary.empty': 'এই দিনের জন্য এখনও কিছু লেখা হয়নি।',
+    'diary.calories': 'ক্যালোরি',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'আজকের জন্য {value} kcal বাকি',
+    'diary.over': 'লক্ষ্যের চেয়ে {value} kcal বেশি',
+    'diary.noTarget': 'আপনার এখনও কোনো দৈনিক লক্ষ্য নেই।',
+    'diary.setTarget': 'ক্যালোরি ক্যালকুলেটরে একটি বেছে নিন →',
+    'diary.targetFrom': 'লক্ষ্য: {goal}।',
+    'diary.changeTarget': 'বদলান',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'দিন',
+    'diary.vsTarget': 'লক্ষ্যের তুলনায়',
+    'diary.notLogged': 'কিছু লেখা হয়নি',
+    'diary.daysLogged': 'লেখা দিন',
+    'diary.daysLoggedValue': '{total}-এর মধ্যে {count}',
+    'diary.average': 'লেখা দিনগুলির গড়',
+    'diary.averageVsTarget': 'গড় বনাম লক্ষ্য',
+    'diary.loadError': 'আপনার খাদ্য ডায়েরি লোড করা যায়নি।',
+    'diary.saveError': 'খাদ্য ডায়েরিতে সংরক্ষণ করা যায়নি।',
+    'diary.deleteError': 'এন্ট্রি সরানো যায়নি।',
+    'diary.photo.title': 'ছবি থেকে',
+    'diary.photo.hint': 'আপনার থালার ছবি তুলুন; AI খাবার ও পরিমাণের তালিকা করবে, লেখার আগে আপনি যাচাই করতে পারবেন।',
+    'diary.photo.take': 'ছবি তুলুন বা বেছে নিন',
+    'diary.photo.preview': 'খাবারের ছবি',
+    'diary.photo.recognize': 'খাবার চিনুন',
+    'diary.photo.discard': 'বাতিল করুন',
+    'diary.photo.reviewHint': 'প্রতিটি খাবার ও তার ওজন যাচাই করুন। পুষ্টি ডেটাবেসে থাকা খাবার তার মান ব্যবহার করে; বাকিগুলি AI-এর অনুমান।',
+    'diary.photo.food': 'খাবার',
+    'diary.photo.grams': 'গ্রাম',
+    'diary.photo.fromDatabase': 'ডেটাবেস',
+    'diary.photo.estimated': 'AI অনুমান',
+    'diary.photo.unknown': 'ডেটাবেসে নেই',
+    'diary.photo.addItem': 'আইটেম যোগ করুন',
+    'diary.photo.save': '{count}টি আইটেম লিখুন',
+    'diary.photo.error': 'এই ছবির খাবার চেনা যায়নি।',
+    'diary.photo.saveError': 'খাবারের ছবি সংরক্ষণ করা যায়নি।',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'খাবার পরিকল্পনাকারী',
+    'mealPlan.subtitle': 'আপনার ক্যালোরি লক্ষ্য, খাদ্যাভ্যাস, অ্যালার্জি ও ওষুধ অনুযায়ী এক সপ্তাহের রোজকার ভারতীয় খাবার, কেনাকাটার তালিকাসহ।',
+    'mealPlan.calories': 'দৈনিক ক্যালোরি (kcal)',
+    'mealPlan.allergies': 'খাবারে অ্যালার্জি',
+    'mealPlan.allergiesPlaceholder': 'যেমন চিনাবাদাম, ল্যাকটোজ',
+    'mealPlan.targetFrom': 'আপনার দৈনিক লক্ষ্য {calories} kcal।',
+    'mealPlan.medications': 'বর্তমান ওষুধ',
+    'mealPlan.medicationsPlaceholder': 'যেমন ওয়ারফারিন, অ্যাটোরভাস্টাটিন',
+    'mealPlan.preferences': 'খাদ্যাভ্যাস',
+    'mealPlan.preference.vegetarian': 'নিরামিষ',
+    'mealPlan.preference.jain': 'জৈন (পেঁয়াজ, রসুন বা কন্দ নয়)',
+    'mealPlan.preference.diabetic': 'ডায়াবেটিস (বাড়তি চিনি নয়)',
+    'mealPlan.preference.lowSodium': 'কম লবণ',
+    'mealPlan.submit': 'খাবারের পরিকল্পনা তৈরি করুন',
+    'mealPlan.caloriesRequired': 'দৈনিক ক্যালোরি লক্ষ্য লিখুন।',
+    'mealPlan.resultTitle': 'আপনার সাপ্তাহিক খাবারের পরিকল্পনা',
+    'mealPlan.interactionsTitle': 'খাবার ও ওষুধের মিথস্ক্রিয়া',
+    'mealPlan.column.medicine': 'ওষুধ',
+    'mealPlan.column.food': 'খাবার',
+    'mealPlan.column.inPlan': 'এই পরিকল্পনায়',
+    'mealPlan.advice.avoid': 'বাদ দেওয়া হয়েছে',
+    'mealPlan.advice.separate': 'রাখা হয়েছে; ওষুধ অন্তত ২ ঘণ্টা ব্যবধানে নিন',
+    'mealPlan.component.meat': 'মাংস',
+    'mealPlan.component.fish': 'মাছ',
+    'mealPlan.component.egg': 'ডিম',
+    'mealPlan.component.dairy': 'দুগ্ধজাত খাবার',
+    'mealPlan.component.wheat': 'গম',
+    'mealPlan.component.peanut': 'চিনাবাদাম',
+    'mealPlan.component.treeNut': 'বাদাম',
+    'mealPlan.component.onionGarlic': 'পেঁয়াজ ও রসুন',
+    'mealPlan.component.rootVegetable': 'কন্দ সবজি',
+    'mealPlan.component.addedSugar': 'বাড়তি চিনি',
+    'mealPlan.component.highSodium': 'নোনতা খাবার',
+    'mealPlan.component.vitaminK': 'ভিটামিন K সমৃদ্ধ শাক',
+    'mealPlan.component.potassium': 'পটাশিয়াম সমৃদ্ধ খাবার',
+    'mealPlan.component.grapefruit': 'জাম্বুরা (গ্রেপফ্রুট)',
+    'mealPlan.unplanned': 'এগুলির জন্য আপনার পছন্দের সঙ্গে কোনো পদ মেলেনি: {meals}। এগুলি নিজে পরিকল্পনা করুন।',
+    'mealPlan.dayMacros': 'প্রোটিন {protein} গ্রা · কার্বস {carbs} গ্রা · ফ্যাট {fat} গ্রা',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} গ্রা)',
+    'mealPlan.shoppingTitle': 'কেনাকাটার তালিকা',
+    'mealPlan.shoppingNote': 'পরিমাণগুলি পুরো সপ্তাহের রান্না করা পদের; সেগুলির উপকরণ কিনুন।',
+    'mealPlan.another': 'অন্য পরিকল্পনা দেখুন',
+    'mealPlan.download': 'কেনাকাটার তালিকা ডাউনলোড করুন',
+    'mealPlan.disclaimer': 'পরিমাণগুলি মানক খাদ্য তালিকা থেকে আনুমানিক। কোনো অসুখের জন্য খাদ্য বদলানোর আগে ডাক্তার বা পুষ্টিবিদকে জিজ্ঞাসা করুন।',
+
+    // --- Body measurements ---
+    'body.title': 'ওজন ও শরীরের মাপ',
+    'body.date': 'তারিখ',
+    'body.weight': 'ওজন (kg)',
+    'body.waist': 'কোমর (cm)',
+    'body.bodyFat': 'শরীরের চর্বি (%)',
+    'body.add': 'মাপ যোগ করুন',
+    'body.valueRequired': 'অন্তত একটি মাপ লিখুন।',
+    'body.show': 'দেখান',
+    'body.measure.weight': 'ওজন',
+    'body.measure.waist': 'কোমর',
+    'body.measure.bodyFat': 'শরীরের চর্বি',
+    'body.empty': 'এখনও কোনো মাপ নেই।',
+    'body.chartLabel': 'সময়ের সঙ্গে {measure}',
+    'body.legend': 'বিন্দুগুলি মাপ; রেখাটি {days} দিনের গড়।',
+    'body.current': 'প্রবণতা ওজন: {value} kg',
+    'body.rate': 'গত ৪ সপ্তাহে সপ্তাহে {rate} kg',
+    'body.tooFast': 'আপনি সপ্তাহে প্রায় {rate} kg কমাচ্ছেন, যা চিকিৎসকের তত্ত্বাবধান ছাড়া নিরাপদ সপ্তাহে {limit} kg-এর চেয়ে দ্রুত। একটু বেশি খান, আর ওজন কমানোর চেষ্টা না করলে ডাক্তার দেখান।',
+    'body.noGoal': 'কবে লক্ষ্যে পৌঁছবেন দেখতে আপনার স্বাস্থ্য প্রোফাইলে লক্ষ্য ওজন যোগ করুন।',
+    'body.projection': 'আপনার ক্যালোরি লক্ষ্যে আপনি প্রায় {date} নাগাদ {goal} kg-এ পৌঁছবেন, সপ্তাহে {rate} kg হারে প্রায় {weeks} সপ্তাহে।',
+    'body.goalReached': 'আপনি আপনার লক্ষ্য ওজন {goal} kg-এ পৌঁছে গেছেন।',
+    'body.noTarget': 'লক্ষ্যের তারিখের জন্য ক্যালোরি ক্যালকুলেটর থেকে দৈনিক লক্ষ্য দরকার।',
+    'body.wrongDirection': 'আপনার ক্যালোরি লক্ষ্য আপনার ওজনকে লক্ষ্যের দিকে নেবে না।',
+    'body.loadError': 'আপনার শরীরের মাপ লোড করা যায়নি।',
+    'body.saveError': 'মাপ সংরক্ষণ করা যায়নি।',
+    'body.deleteError': 'মাপ মোছা যায়নি।',
+
+    // --- Growth charts ---
+    'growth.title': 'বৃদ্ধির চার্ট',
+    'growth.subtitle': 'জন্ম থেকে 19 বছর পর্যন্ত, শিশুর ওজন, উচ্চতা ও BMI WHO বৃদ্ধি রেফারেন্সের সঙ্গে মিলিয়ে দেখুন।',
+    'growth.birthDate': 'জন্ম তারিখ',
+    'growth.measuredOn': 'মাপার তারিখ',
+    'growth.height': 'দৈর্ঘ্য বা উচ্চতা (cm)',
+    'growth.heightNote': '2 বছরের আগে শুইয়ে দৈর্ঘ্য আর পরে দাঁড় করিয়ে উচ্চতা মাপুন।',
+    'growth.submit': 'বৃদ্ধি পরীক্ষা করুন',
+    'growth.valueRequired': 'ওজন, উচ্চতা বা দুটোই লিখুন।',
+    'growth.dateOrder': 'মাপার তারিখ জন্ম তারিখের পরে হতে হবে।',
+    'growth.tooOld': 'বৃদ্ধি রেফারেন্স 19 বছর পর্যন্ত শিশুদের জন্য। প্রাপ্তবয়স্কদের জন্য ক্যালোরি ক্যালকুলেটর ও শরীরের মাপ ব্যবহার করুন।',
+    'growth.resultTitle': 'বৃদ্ধির পার্সেন্টাইল',
+    'growth.ageYears': 'বয়স: {years} বছর {months} মাস',
+    'growth.ageMonths': 'বয়স: {months} মাস',
+    'growth.column.indicator': 'মাপ',
+    'growth.column.value': 'মান',
+    'growth.column.zScore': 'Z-স্কোর',
+    'growth.column.percentile': 'পার্সেন্টাইল',
+    'growth.column.status': 'মূল্যায়ন',
+    'growth.indicator.weight': 'বয়স অনুযায়ী ওজন',
+    'growth.indicator.height': 'বয়স অনুযায়ী উচ্চতা',
+    'growth.indicator.bmi': 'বয়স অনুযায়ী BMI',
+    'growth.status.normal': 'স্বাভাবিক সীমার মধ্যে',
+    'growth.status.severelyUnderweight': 'গুরুতর কম ওজন',
+    'growth.status.underweight': 'কম ওজন',
+    'growth.status.aboveRange': 'স্বাভাবিক সীমার উপরে; বয়স অনুযায়ী BMI দেখুন',
+    'growth.status.severelyStunted': 'গুরুতর খর্বতা',
+    'growth.status.stunted': 'খর্বতা',
+    'growth.status.veryTall': 'খুব লম্বা',
+    'growth.status.severelyWasted': 'গুরুতর কৃশতা (wasting)',
+    'growth.status.wasted': 'কৃশতা (wasting)',
+    'growth.status.overweightRisk': 'অতিরিক্ত ওজনের সম্ভাব্য ঝুঁকি',
+    'growth.status.severeThinness': 'গুরুতর রোগা',
+    'growth.status.thinness': 'রোগা',
+    'growth.status.overweight': 'অতিরিক্ত ওজন',
+    'growth.status.obese': 'স্থূলতা',
+    'growth.noWeightForAge': 'WHO রেফারেন্সে 10 বছরের পরে বয়স অনুযায়ী ওজন নেই; তার বদলে বয়স অনুযায়ী BMI ব্যবহার করা হয়।',
+    'growth.reference': 'WHO শিশু বৃদ্ধি মান (5 বছরের কম) ও WHO বৃদ্ধি রেফারেন্স (5–19 বছর) এর সঙ্গে তুলনা। 3য়–97তম পার্সেন্টাইলের বাইরের মাপ, বা সময়ের সঙ্গে শিশুর পার্সেন্টাইল রেখা পার হওয়া, শিশু বিশেষজ্ঞের সঙ্গে আলোচনা করার মতো।',
+    'growth.chartLabel': '{indicator} বৃদ্ধির চার্ট',
+    'growth.legend': 'রেখাগুলি 3য়, 15তম, 50তম, 85তম ও 97তম পার্সেন্টাইল। বিন্দুগুলি এই শিশুর মাপ, একই জন্ম তারিখে সংরক্ষিত আগের মাপ সহ।',
+    'growth.axisMonths': '{months} মা',
+    'growth.axisYears': '{years} ব',
+    'growth.openCalculator': 'এই শিশুর দৈনিক শক্তির প্রয়োজন হিসাব করুন →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'জানা মিথস্ক্রিয়া',
+    'interactions.none': 'চেনা ওষুধগুলির মধ্যে রেফারেন্স তালিকায় কোনো মিথস্ক্রিয়া নেই।',
+    'interactions.unrecognized': 'রেফারেন্স তালিকায় নেই, তাই পরীক্ষা করা হয়নি: {names}',
+    'interactions.reference': 'সুপরিচিত মিথস্ক্রিয়ার একটি অন্তর্নির্মিত তালিকার সঙ্গে এই ডিভাইসেই পরীক্ষা করা হয়েছে। তালিকাটি সম্পূর্ণ নয়, তাই ওষুধ শুরু, বন্ধ বা একসঙ্গে খাওয়ার আগে ডাক্তার বা ফার্মাসিস্টকে জিজ্ঞাসা করুন।',
+    'interactions.column.medicines': 'ওষুধ',
+    'interactions.column.severity': 'গুরুত্ব',
+    'interactions.column.effect': 'কী হতে পারে',
+    'interactions.effect.bleeding': 'রক্তপাতের ঝুঁকি বেশি',
+    'interactions.effect.serotoninSyndrome': 'সেরোটোনিন সিনড্রোমের ঝুঁকি (অস্থিরতা, জ্বর, কাঁপুনি)',
+    'interactions.effect.respiratoryDepression': 'প্রবল ঝিমুনি ও ধীর শ্বাস',
+    'interactions.effect.myopathy': 'পেশির ক্ষতি (পেশিতে ব্যথা বা দুর্বলতা)',
+    'interactions.effect.toxicity': 'ওষুধের মাত্রা ও পার্শ্বপ্রতিক্রিয়া বৃদ্ধি',
+    'interactions.effect.hyperkalemia': 'পটাশিয়ামের উচ্চ মাত্রা',
+    'interactions.effect.kidneyInjury': 'কিডনির ক্ষতি',
+    'interactions.effect.qtProlongation': 'অস্বাভাবিক হৃৎস্পন্দন (QT দীর্ঘায়ন)',
+    'interactions.effect.bradycardia': 'খুব ধীর হৃৎস্পন্দন',
+    'interactions.effect.hypotension': 'বিপজ্জনকভাবে কম রক্তচাপ',
+    'interactions.effect.reducedAbsorption': 'একটি ওষুধ কম শোষিত হয়; কয়েক ঘণ্টার ব্যবধানে খান',
+    'interactions.effect.reducedEffect': 'একটি ওষুধ কম কাজ করতে পারে',
+    'interactions.effect.hypoglycemia': 'রক্তে শর্করা কম',
+    'interactions.warningTitle': 'এটি আপনার চলতি ওষুধের সঙ্গে মিথস্ক্রিয়া করতে পারে',
+    'interactions.addAnyway': 'তবুও যোগ করুন',
+    'interactions.orderAnyway': 'তবুও অর্ডার করুন',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'ট্যাবলেট',
+    'drugs.form.capsule': 'ক্যাপসুল',
+    'drugs.form.syrup': 'সিরাপ',
+    'drugs.form.suspension': 'সাসপেনশন',
+    'drugs.form.drops': 'ড্রপ',
+    'drugs.form.eyeDrops': 'চোখের ড্রপ',
+    'drugs.form.nasalSpray': 'নাকের স্প্রে',
+    'drugs.form.inhaler': 'ইনহেলার',
+    'drugs.form.injection': 'ইনজেকশন',
+    'drugs.form.cream': 'ক্রিম',
+    'drugs.form.ointment': 'মলম',
+    'drugs.form.gel': 'জেল',
+    'drugs.form.sachet': 'স্যাশে',
+    'drugs.column.written': 'যেমন লেখা',
+    'drugs.column.medicine': 'ওষুধ',
+    'drugs.confidence': '{percent}% মিল',
+    'drugs.lowConfidence': '{percent}% মিল – এটি যাচাই করুন',
+    'drugs.alternatives': 'এটিও হতে পারে: {names}',
+    'drugs.unmatched': 'ওষুধের অভিধানে পাওয়া যায়নি',
+    'drugs.note': 'নামগুলি এই ডিভাইসেই সাধারণ ব্র্যান্ড ও জেনেরিক ওষুধের অন্তর্ভুক্ত অভিধানের সঙ্গে মেলানো হয়। প্রতিটি প্যাক বা প্রেসক্রিপশনের সঙ্গে মিলিয়ে দেখুন; শুধু নিশ্চিত মিলগুলিই রিমাইন্ডার ও অর্ডারে নাম হিসেবে ব্যবহার হয়।',
+
+    // --- Red-flag triage ---
+    'triage.title': 'এটি একটি চিকিৎসা জরুরি অবস্থা হতে পারে',
+    'triage.message': 'আপনি যা লিখেছেন তার ভিত্তিতে, AI-এর উত্তরের অপেক্ষা না করে এখনই জরুরি সাহায্য নিন।',
+    'triage.reason.cardiac': 'বুকে ব্যথা বা চাপ হার্ট অ্যাটাকের লক্ষণ হতে পারে।',
+    'triage.reason.breathing': 'শ্বাস নিতে তীব্র কষ্টের জন্য জরুরি চিকিৎসা প্রয়োজন।',
+    'triage.reason.stroke': 'হঠাৎ দুর্বলতা, মুখ ঝুলে পড়া, জড়ানো কথা বা হঠাৎ তীব্র মাথাব্যথা স্ট্রোকের লক্ষণ হতে পারে।',
+    'triage.reason.selfHarm': 'আপনি নিজের ক্ষতি করার চিন্তার কথা বলেছেন। আপনি একা নন; প্রশিক্ষিত কাউন্সেলররা এখনই সাহায্যের জন্য আছেন।',
+    'triage.reason.bleeding': 'অতিরিক্ত বা না থামা রক্তপাতের জন্য অবিলম্বে চিকিৎসা প্রয়োজন।',
+    'triage.reason.consciousness': 'অজ্ঞান হওয়া, খিঁচুনি বা সাড়া না দেওয়ার ক্ষেত্রে অবিলম্বে চিকিৎসা প্রয়োজন।',
+    'triage.reason.allergy': 'গলা, জিভ বা মুখ ফুলে যাওয়া গুরুতর অ্যালার্জির প্রতিক্রিয়া হতে পারে।',
+    'triage.reason.highFever': '40 °C বা তার বেশি তাপমাত্রার জন্য জরুরি চিকিৎসা প্রয়োজন।',
+    'triage.reason.infantFever': 'এক বছরের কম বয়সী শিশুর জ্বর হলে দ্রুত ডাক্তার দেখানো উচিত।',
+    'triage.reason.hypothermia': '35 °C-এর কম শরীরের তাপমাত্রার জন্য জরুরি চিকিৎসা প্রয়োজন।',
+    'triage.reason.meningitis': 'জ্বরের সাথে ঘাড় শক্ত হয়ে যাওয়া মেনিনজাইটিসের লক্ষণ হতে পারে।',
+    'triage.call': '{number}-এ কল করুন',
+    'triage.number.emergency': 'সব জরুরি অবস্থা',
+    'triage.number.ambulance': 'অ্যাম্বুলেন্স',
+    'triage.number.mentalHealth': 'টেলি-মানস মানসিক স্বাস্থ্য হেল্পলাইন',
+    'triage.findEmergency': '24/7 জরুরি চিকিৎসা খুঁজুন',
+    'triage.continue': 'বুঝেছি, তবুও চালিয়ে যান',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'যা পাঠানো হবে',
+    'privacy.hiddenCount': 'লুকানো ব্যক্তিগত তথ্য: {count}',
+    'privacy.previewNote': 'শুধু নিচের লেখাটি এই ডিভাইস থেকে বাইরে যায়। লুকানো তথ্য এই ডিভাইসেই উত্তরে আবার বসিয়ে দেওয়া হয়।',
+    'privacy.removed': 'সরানো হয়েছে',
+    'privacy.type.name': 'নাম',
+    'privacy.type.phone': 'ফোন নম্বর',
+    'privacy.type.email': 'ই-মেল',
+    'privacy.type.address': 'ঠিকানা',
+    'privacy.type.id': 'পরিচয় নম্বর',
+    'privacy.type.dob': 'জন্মতারিখ',
+    'privacy.imageNote': 'এই ছবিটি যেমন দেখা যাচ্ছে তেমনই পাঠানো হবে। আগে নাম, ঠিকানা বা পরিচয় নম্বরের উপর টেনে সেগুলি ঢেকে দিন।',
+    'privacy.undoCover': 'শেষ আবরণ সরান',
+    'privacy.clearCovers': 'সব আবরণ সরান',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'ক্যালোরি কাউন্টার',
+    'calculator.subtitle': 'আপনার বয়স, লিঙ্গ, সক্রিয়তার মাত্রা ও শারীরিক মাপের ভিত্তিতে দৈনিক ক্যালোরির চাহিদা অনুমান করুন।',
+    'calculator.age': 'বয়স',
+    'calculator.gender': 'লিঙ্গ',
+    'calculator.male': 'পুরুষ',
+    'calculator.female': 'মহিলা',
+    'calculator.weight': 'ওজন (kg)',
+    'calculator.height': 'উচ্চতা (cm)',
+    'calculator.activity': 'সক্রিয়তার মাত্রা',
+    'calculator.activity.sedentary': 'নিষ্ক্রিয় (সামান্য বা কোনো ব্যায়াম নেই)',
+    'calculator.activity.light': 'হালকা সক্রিয় (সপ্তাহে ১-৩ দিন হালকা ব্যায়াম)',
+    'calculator.activity.moderate': 'মাঝারি সক্রিয় (সপ্তাহে ৩-৫ দিন মাঝারি ব্যায়াম)',
+    'calculator.activity.active': 'খুব সক্রিয় (সপ্তাহে ৬-৭ দিন কঠোর ব্যায়াম)',
+    'calculator.activity.extra': 'অত্যন্ত সক্রিয় (খুব কঠোর ব্যায়াম/শারীরিক পরিশ্রমের কাজ)',
+    'calculator.submit': 'ক্যালোরি হিসাব করুন',
+    'calculator.resultTitle': 'ক্যালোরির চাহিদা',
+    'calculator.units': 'একক',
+    'calculator.units.metric': 'মেট্রিক (kg, cm)',
+    'calculator.units.imperial': 'ইম্পেরিয়াল (lb, ft/in)',
+    'calculator.weightLb': 'ওজন (lb)',
+    'calculator.heightImperial': 'উচ্চতা (ft, in)',
+    'calculator.feet': 'ফুট',
+    'calculator.inches': 'ইঞ্চি',
+    'calculator.bodyFat': 'শরীরের চর্বি (%)',
+    'calculator.bodyFatRequired': 'ক্যাচ-ম্যাকআর্ডলের জন্য শরীরের চর্বির শতাংশ প্রয়োজন।',
+    'calculator.formula': 'BMR সূত্র',
+    'calculator.formula.mifflin': 'মিফলিন-সেন্ট জিওর',
+    'calculator.formula.harris': 'হ্যারিস-বেনেডিক্ট (সংশোধিত)',
+    'calculator.formula.katch': 'ক্যাচ-ম্যাকআর্ডল (শরীরের চর্বি ব্যবহার করে)',
+    'calculator.formula.child': 'শিশুদের শক্তির প্রয়োজন (IOM)',
+    'calculator.formulaUsed': '{formula} সমীকরণ দিয়ে হিসাব করা হয়েছে।',
+    'calculator.bmr': 'বেসাল মেটাবলিক রেট (BMR)',
+    'calculator.tdee': 'দৈনিক শক্তি ব্যয় (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/দিন',
+    'calculator.column.goal': 'লক্ষ্য',
+    'calculator.column.calories': 'kcal/দিন',
+    'calculator.column.protein': 'প্রোটিন',
+    'calculator.column.carbs': 'কার্বোহাইড্রেট',
+    'calculator.column.fat': 'চর্বি',
+    'calculator.goal.lose-fast': 'সপ্তাহে 0.5 kg কমান',
+    'calculator.goal.lose': 'সপ্তাহে 0.25 kg কমান',
+    'calculator.goal.maintain': 'ওজন বজায় রাখুন',
+    'calculator.goal.gain': 'সপ্তাহে 0.25 kg বাড়ান',
+    'calculator.goal.gain-fast': 'সপ্তাহে 0.5 kg বাড়ান',
+    'calculator.goal.growth': 'সুস্থ বৃদ্ধি',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'চিকিৎসকের তত্ত্বাবধান ছাড়া প্রস্তাবিত ন্যূনতম দৈনিক গ্রহণে বাড়ানো হয়েছে।',
+    'calculator.macroNote': 'প্রোটিন শরীরের ওজনের প্রতি kg অনুযায়ী, চর্বি ক্যালোরির 25% এবং বাকি কার্বোহাইড্রেট থেকে।',
+    'calculator.childFormulaUsed': 'দৈনিক শক্তির প্রয়োজন শিশুদের জন্য Institute of Medicine সমীকরণ থেকে, বৃদ্ধিতে লাগা শক্তি সহ; BMR Schofield সমীকরণ থেকে।',
+    'calculator.childMacroNote': 'প্রোটিন শিশুর বয়সের জন্য প্রস্তাবিত পরিমাণে প্রতি kg, চর্বি বয়স অনুযায়ী ক্যালোরির 30–45%, বাকিটা কার্বোহাইড্রেট থেকে।',
+    'calculator.childNote': '19 বছরের কম বয়সে ক্যালকুলেটর বৃদ্ধির শক্তি সহ শিশুদের শক্তির প্রয়োজন ব্যবহার করে এবং ওজন কমানোর লক্ষ্য দেয় না। শিশুর বয়স বছরের ভগ্নাংশে লিখুন, যেমন ছয় মাসের জন্য 0.5। শিশুর ওজন নিয়ে যেকোনো চিন্তায় শিশু বিশেষজ্ঞের সঙ্গে কথা বলুন।',
+    'calculator.openGrowth': 'বৃদ্ধির পার্সেন্টাইল দেখুন →',
+    'calculator.commentary': 'AI মন্তব্য নিন',
+    'calculator.commentaryTitle': 'মন্তব্য',
+    'calculator.commentaryError': 'এই সংখ্যাগুলির উপর মন্তব্য পাওয়া যায়নি।',
+    'calculator.useAsTarget': 'ডায়েরির লক্ষ্য করুন',
+    'calculator.targetSet': 'ডায়েরির লক্ষ্য ✓',
+    'calculator.targetError': 'ডায়েরির লক্ষ্য সংরক্ষণ করা যায়নি।',
+    'calculator.openDiary': 'খাদ্য ডায়েরি খুলুন →',
+    'calculator.openMealPlan': 'এক সপ্তাহের খাবার পরিকল্পনা করুন →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'প্রেসক্রিপশন স্ক্যানার',
+    'scanner.subtitle': 'লেখা বের করতে ও ওষুধ শনাক্ত করতে আপনার প্রেসক্রিপশনের ছবি আপলোড করুন।',
+    'scanner.upload': 'ছবি বা PDF যোগ করতে ক্লিক করুন',
+    'scanner.formats': 'PNG, JPG বা PDF। একাধিক পাতার প্রেসক্রিপশনের জন্য কয়েকটি যোগ করুন।',
+    'scanner.preview': 'প্রেসক্রিপশনের প্রিভিউ',
+    'scanner.resultTitle': 'স্ক্যানের ফলাফল',
+    'scanner.extractedText': 'বের করা লেখা',
+    'scanner.speakText': 'বের করা লেখা: {text}',
+    'scanner.noText': 'কোনো লেখা পাওয়া যায়নি।',
+    'scanner.copy': 'লেখা কপি করুন',
+    'scanner.copied': 'ক্লিপবোর্ডে কপি হয়েছে!',
+    'scanner.medications': 'শনাক্ত করা ওষুধ',
+    'scanner.orderMedicines': 'এই ওষুধগুলি অর্ডার করুন',
+    'scanner.error': 'প্রেসক্রিপশন স্ক্যান করা যায়নি।',
+    'scanner.scan': 'প্রেসক্রিপশন স্ক্যান করুন',
+    'scanner.camera': 'ক্যামেরা ব্যবহার করুন',
+    'scanner.cameraView': 'ক্যামেরার দৃশ্য',
+    'scanner.cameraHint': 'পাতাটি ফ্রেমের ভিতরে রাখুন, তারপর ছবি তুলুন। প্রতিটি পাতা একে একে তুলুন।',
+    'scanner.capture': 'পাতা {number} তুলুন',
+    'scanner.cameraDone': 'হয়ে গেছে',
+    'scanner.cameraError': 'ক্যামেরা খোলা যায়নি। ক্যামেরার অনুমতি দেওয়া আছে কিনা দেখুন।',
+    'scanner.page': 'পাতা {number}',
+    'scanner.moveEarlier': 'পাতা {number} আগে আনুন',
+    'scanner.removePage': 'সরান',
+    'scanner.pdfNote': '{name} যেমন আছে তেমনই পাঠানো হয়, তাই PDF-এর তথ্য ঢাকা যায় না। PDF তৈরির আগে নাম ও ঠিকানা ঢেকে দিন, বা পাতাগুলির ছবি তুলুন।',
+    'scanner.unsupported': '{names}: শুধু ছবি ও PDF স্ক্যান করা যায়।',
+    'scanner.readError': 'বেছে নেওয়া ফাইলগুলি পড়া যায়নি।',
+    'scanner.tooLarge': 'এই পাতাগুলি একসঙ্গে পাঠানোর জন্য খুব বড়। একটি পাতা সরান বা ছোট ছবি ব্যবহার করুন।',
+    'scanner.cleanUp': 'ছবি পরিষ্কার করুন: পাতা পর্যন্ত কাটুন, সোজা করুন ও আলো সমান করুন',
+    'scanner.before': 'আসল',
+    'scanner.after': 'পরিষ্কার করা, যেমন পাঠানো হবে',
+    'scanner.original': 'আসল ছবি',
+    'scanner.cropHint': 'কোণগুলি কাগজের কিনারায় টেনে আনুন। কাটা বদলালে এই পাতার ঢাকনাগুলি মুছে যায়।',
+    'scanner.detectPage': 'আবার পাতা খুঁজুন',
+    'scanner.wholePhoto': 'পুরো ছবি ব্যবহার করুন',
+    'scanner.cornerTopLeft': 'উপরের বাম কোণ',
+    'scanner.cornerTopRight': 'উপরের ডান কোণ',
+    'scanner.cornerBottomRight': 'নিচের ডান কোণ',
+    'scanner.cornerBottomLeft': 'নিচের বাম কোণ',
+    'scanner.preparing': 'পাতাগুলি তৈরি হচ্ছে…',
+    'scanner.cleanUpError': 'এই ছবিটি পরিষ্কার করা যায়নি। অন্যভাবে কেটে দেখুন, বা যেমন আছে তেমনই পাঠান।',
+    'scanner.schedule': 'ডোজের সময়সূচি',
+    'scanner.startDate': 'কোর্সের প্রথম দিন',
+    'scanner.remindersNote': 'রিমাইন্ডার সকাল 08:00, দুপুর 14:00, সন্ধ্যা 18:00 এবং রাত 21:00-এ সেট হয়, এবং প্রতিটি কোর্স শেষে বন্ধ হয়ে যায়।',
+    'scanner.noSchedule': 'এই ওষুধগুলির কোনোটির রিমাইন্ডার দেওয়ার মতো নিয়মিত সময়সূচি নেই।',
+    'scanner.unscheduled': '{names}-এর জন্য কোনো রিমাইন্ডার নেই, কারণ এগুলি শুধু প্রয়োজনে, একবার, বা এমন সময়সূচিতে নেওয়া হয় যা পড়া যায়নি।',
+    'scanner.createReminders': '{count}টি রিমাইন্ডার তৈরি করুন',
+    'scanner.remindersCreated': '{count}টি রিমাইন্ডার তৈরি হয়েছে।',
+    'scanner.openReminders': 'রিমাইন্ডার দেখুন →',
+    'scanner.remindersError': 'রিমাইন্ডার তৈরি করা যায়নি।',
+    'scanner.review.title': 'যা পড়া হয়েছে তা যাচাই করুন',
+    'scanner.review.hint': 'প্রতিটি ওষুধ প্রেসক্রিপশনের সঙ্গে মিলিয়ে দেখুন এবং ভুল পড়া কিছু থাকলে ঠিক করুন। পাতায় একটি বাক্স বেছে নিলে তার ওষুধে যাবেন। আপনি নিশ্চিত না করা পর্যন্ত কিছুই রিমাইন্ডার, মিল বা অর্ডারে ব্যবহার হয় না।',
+    'scanner.review.prescriber': 'প্রেসক্রিপশন লেখা ডাক্তার',
+    'scanner.review.date': 'প্রেসক্রিপশনের তারিখ',
+    'scanner.review.unreadDate': '"{date}" পড়া হয়েছে – তারিখ বেছে নিন',
+    'scanner.review.medicine': 'ওষুধ {number}',
+    'scanner.review.field.name': 'নাম',
+    'scanner.review.field.strength': 'শক্তি',
+    'scanner.review.field.form': 'ধরন',
+    'scanner.review.field.dose': 'মাত্রা',
+    'scanner.review.field.frequency': 'কতবার',
+    'scanner.review.field.duration': 'কতদিন',
+    'scanner.review.field.route': 'পথ',
+    'scanner.review.field.instructions': 'নির্দেশ',
+    'scanner.review.check': 'এটি যাচাই করুন',
+    'scanner.review.region': 'ওষুধ {number}: {name}',
+    'scanner.review.pdfNote': 'প্রতিটি ওষুধ কোথায় লেখা তা শুধু ছবিতে দেখানো যায়, PDF-এ নয়।',
+    'scanner.review.addMedicine': 'ওষুধ যোগ করুন',
+    'scanner.review.removeMedicine': 'ওষুধ {number} সরান',
+    'scanner.review.toCheck': 'চিহ্নিত {count}টি অংশ পড়া কঠিন ছিল বা বোঝা যায়নি।',
+    'scanner.review.confirm': 'নিশ্চিত করুন',
+    'scanner.review.saveError': 'যাচাই করা স্ক্যান সংরক্ষণ করা যায়নি।',
+    'scanner.review.confirmed': 'আপনি এই পাঠ প্রেসক্রিপশনের সঙ্গে মিলিয়ে যাচাই করেছেন।',
+    'scanner.review.edit': 'সম্পাদনা',
+    'scanner.review.unconfirmed': 'এই পাঠ প্রেসক্রিপশনের সঙ্গে মিলিয়ে যাচাই করা হয়নি।',
+    'prescription.column.medicine': 'ওষুধ',
+    'prescription.column.dose': 'ডোজ',
+    'prescription.column.frequency': 'কতবার',
+    'prescription.column.duration': 'কতদিন',
+    'prescription.column.route': 'নেওয়ার পথ',
+    'prescription.column.instructions': 'নির্দেশনা',
+    'prescription.at': '{times}-এ',
+    'prescription.everyDays': 'প্রতি {days} দিন অন্তর {times}-এ',
+    'prescription.asNeeded': 'শুধু প্রয়োজনে',
+    'prescription.once': 'এখনই একটি ডোজ',
+    'prescription.days': '{days} দিন',
+    'prescription.ongoing': 'চলবে',
+    'prescription.unread': 'চেনা যায়নি',
+    'prescription.prescriber': 'চিকিৎসক: {name}',
+    'prescription.date': 'তারিখ {date}',
+    'prescription.note': 'কতবার ও কতদিন, প্রেসক্রিপশনের সংক্ষিপ্ত রূপ থেকে পড়া হয়; যেমন 1-0-1 মানে সকাল ও রাত, আর 5/7 মানে পাঁচ দিন। এগুলি প্রেসক্রিপশনের সঙ্গে মিলিয়ে নিন, এবং কিছু অস্পষ্ট হলে আপনার চিকিৎসক বা ফার্মাসিস্টকে জিজ্ঞাসা করুন।',
+    'prescription.route.oral': 'মুখ দিয়ে',
+    'prescription.route.sublingual': 'জিভের নিচে',
+    'prescription.route.topical': 'ত্বকে',
+    'prescription.route.eye': 'চোখে',
+    'prescription.route.ear': 'কানে',
+    'prescription.route.nasal': 'নাকে',
+    'prescription.route.inhaled': 'শ্বাসের মাধ্যমে',
+    'prescription.route.injection': 'ইনজেকশন',
+    'prescription.route.rectal': 'মলদ্বার দিয়ে',
+    'prescription.route.vaginal': 'যোনিপথে',
+    'prescription.food.beforeFood': 'খাবারের আগে',
+    'prescription.food.afterFood': 'খাবারের পরে',
+    'prescription.food.withFood': 'খাবারের সঙ্গে',
+
+    // --- Hospitals ---
+    'hospitals.title': 'কাছাকাছি হাসপাতাল',
+    'hospitals.subtitle': 'আপনার এলাকার চিকিৎসা কেন্দ্র খুঁজুন এবং সরাসরি অ্যাপয়েন্টমেন্ট বুক করুন।',
+    'hospitals.location': 'আপনার শহর বা ঠিকানা লিখুন',
+    'hospitals.search': 'খুঁজুন',
+    'hospitals.resultsFor': '{location}-এর কাছে হাসপাতাল',
+    'hospitals.viewMap': 'মানচিত্রে দেখুন',
+    'hospitals.book': 'অ্যাপয়েন্টমেন্ট বুক করুন',
+    'hospitals.sources': 'উৎস:',
+    'hospitals.notInSearch': 'আপনার সাম্প্রতিক অনুসন্ধানে সেই হাসপাতালটি পাওয়া যায়নি। অ্যাপয়েন্টমেন্ট বুক করতে অনুগ্রহ করে আবার খুঁজুন।',
+    'hospitals.backToSearch': 'অনুসন্ধানে ফিরে যান',
+    'hospitals.bookAt': '{name}-এ অ্যাপয়েন্টমেন্ট বুক করুন',
+    'hospitals.date': 'তারিখ বেছে নিন',
+    'hospitals.time': 'সময় বেছে নিন',
+    'hospitals.cancel': 'বাতিল',
+    'hospitals.confirm': 'বুকিং নিশ্চিত করুন',
+    'hospitals.confirmed': '{hospital}-এ {date} তারিখে {time}-এ আপনার অ্যাপয়েন্টমেন্ট নিশ্চিত হয়েছে।',
+    'hospitals.confirmationNumber': 'আপনার নিশ্চিতকরণ নম্বর:',
+    'hospitals.setReminder': 'রিমাইন্ডার সেট করুন (২৪ ঘণ্টা আগে)',
+    'hospitals.reminderSet': 'রিমাইন্ডার সেট হয়েছে!',
+    'hospitals.reminderMessage': 'রিমাইন্ডার: আগামীকাল {time}-এ {hospital}-এ আপনার অ্যাপয়েন্টমেন্ট আছে।',
+    'hospitals.reminderTooLate': 'অ্যাপয়েন্টমেন্টের আর ২৪ ঘণ্টারও কম বাকি। অতীতের সময়ের জন্য রিমাইন্ডার সেট করা যায় না।',
+    'hospitals.searchError': 'হাসপাতাল খুঁজে পাওয়া যায়নি।',
+    'hospitals.bookingError': 'অ্যাপয়েন্টমেন্ট বুক করা যায়নি।',
+    'hospitals.emergencyOnly': '24/7 জরুরি বিভাগ আছে এমন হাসপাতাল দেখানো হচ্ছে।',
+    'hospitals.showAll': 'সব হাসপাতাল দেখান',
+    'hospitals.emergencyBadge': '24/7 জরুরি বিভাগ',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'ওষুধ ডেলিভারি',
+    'delivery.subtitle': 'অনলাইনে ওষুধ অর্ডার করুন এবং বাড়িতে পৌঁছে নিন।',
+    'delivery.address': 'ডেলিভারির ঠিকানা',
+    'delivery.medications': 'ওষুধ (কমা দিয়ে আলাদা করুন)',
+    'delivery.medicationsPlaceholder': 'যেমন, প্যারাসিটামল 500mg, ভিটামিন C',
+    'delivery.prescription': 'প্রেসক্রিপশন আপলোড করুন (ঐচ্ছিক)',
+    'delivery.submit': 'অর্ডার করুন',
+    'delivery.resultTitle': 'অর্ডার নিশ্চিতকরণ',
+
+    // --- Profile ---
+    'profile.welcome': 'স্বাগতম, {name}',
+    'profile.subtitle': 'আপনার স্বাস্থ্য প্রোফাইল, ওষুধ ও রিমাইন্ডার পরিচালনা করুন। এগুলি শুধু এই ডিভাইসে এনক্রিপ্ট করে রাখা হয়।',
+    'profile.healthProfile': 'স্বাস্থ্য প্রোফাইল',
+    'profile.name': 'নাম',
+    'profile.age': 'বয়স',
+    'profile.sex': 'লিঙ্গ',
+    'profile.sex.unspecified': 'বলতে চাই না',
+    'profile.sex.female': 'মহিলা',
+    'profile.sex.male': 'পুরুষ',
+    'profile.sex.other': 'অন্যান্য',
+    'profile.height': 'উচ্চতা (cm)',
+    'profile.weight': 'ওজন (kg)',
+    'profile.goalWeight': 'লক্ষ্য ওজন (kg)',
+    'profile.allergies': 'অ্যালার্জি (কমা দিয়ে আলাদা করুন)',
+    'profile.conditions': 'রোগ (কমা দিয়ে আলাদা করুন)',
+    'profile.save': 'প্রোফাইল সংরক্ষণ করুন',
+    'profile.saved': 'সংরক্ষিত',
+    'profile.medications': 'বর্তমান ওষুধ',
+    'profile.medication': 'ওষুধ',
+    'profile.dosage': 'মাত্রা',
+    'profile.dosagePlaceholder': 'যেমন, 500 mg দিনে দুবার',
+    'profile.addMedication': 'ওষুধ যোগ করুন',
+    'profile.remove': 'সরান',
+    'profile.addReminderTitle': 'ওষুধের রিমাইন্ডার যোগ করুন',
+    'profile.reminderName': 'ওষুধের নাম',
+    'profile.reminderTime': 'সময়',
+    'profile.addReminder': 'রিমাইন্ডার যোগ করুন',
+    'profile.activeReminders': 'সক্রিয় রিমাইন্ডার',
+    'profile.scheduledFor': 'প্রতিদিন {time}-এ নির্ধারিত',
+    'profile.scheduledEvery': 'প্রতি {days} দিন অন্তর {time}-এ নির্ধারিত',
+    'profile.reminderDose': 'ডোজ: {dose}',
+    'profile.courseDates': '{start} থেকে {end}',
+    'profile.courseFrom': '{start} থেকে',
+    'profile.courseEnded': 'কোর্স {end}-এ শেষ হয়েছে',
+    'profile.delete': 'মুছুন',
+    'profile.noReminders': 'আপনার কোনো সক্রিয় রিমাইন্ডার নেই।',
+    'profile.reminderAlert': 'আপনার {name} নেওয়ার সময় হয়েছে!',
+    'profile.appointments': 'অ্যাপয়েন্টমেন্ট',
+    'profile.appointmentDetails': '{date} তারিখে {time}-এ · নিশ্চিতকরণ {number}',
+    'profile.noAppointments': 'আপনার কোনো বুক করা অ্যাপয়েন্টমেন্ট নেই।',
+    'profile.loadError': 'আপনার স্বাস্থ্য রেকর্ড লোড করা যায়নি। অনুগ্রহ করে পরে আবার চেষ্টা করুন।',
+    'profile.saveError': 'আপনার পরিবর্তন সংরক্ষণ করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+    'profile.saveProfileError': 'আপনার প্রোফাইল সংরক্ষণ করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'বায়োমেট্রিক স্ক্যান',
+    'biometric.subtitle': 'উচ্চতা ও শরীরের তাপমাত্রার রিয়েল-টাইম অনুমানের জন্য আপনার ক্যামেরা ব্যবহার করুন।',
+    'biometric.start': 'বায়োমেট্রিক বিশ্লেষণ শুরু করুন',
+    'biometric.proceed': 'চিকিৎসা বিশ্লেষণে এগোবেন?',
+    'biometric.no': 'না',
+    'biometric.yes': 'হ্যাঁ',
+    'biometric.analysisTitle': 'চিকিৎসা বিশ্লেষণ',
+    'biometric.analysisSubtitle': 'বায়োমেট্রিক স্ক্যানের ভিত্তিতে চূড়ান্ত বিশ্লেষণের জন্য আপনার বয়স লিখুন।',
+    'biometric.scanResults': 'স্ক্যানের ফলাফল:',
+    'biometric.scanSummary': 'উচ্চতা: {height} cm, তাপমাত্রা: {temperature}',
+    'biometric.notAvailable': 'পাওয়া যায়নি',
+    'biometric.age': 'আপনার বয়স লিখুন',
+    'biometric.submit': 'বিশ্লেষণ পান',
+    'biometric.resultTitle': 'বায়োমেট্রিক বিশ্লেষণ',
+    'biometric.libraryError': 'ভঙ্গি শনাক্তকরণ লাইব্রেরি লোড করা যায়নি। আপনার সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+    'biometric.cameraError': 'বায়োমেট্রিক স্ক্যানের জন্য ক্যামেরার অনুমতি প্রয়োজন।',
+    'biometric.analysisError': 'বিশ্লেষণ পাওয়া যায়নি।',
+
+    // --- Imaging ---
+    'imaging.title': 'চিকিৎসা ইমেজিং বিশ্লেষণ',
+    'imaging.subtitle': 'AI বিশ্লেষণ ও 3D ভিজ্যুয়ালাইজেশনের জন্য এক্স-রে, MRI বা রক্ত পরীক্ষার রিপোর্ট আপলোড করুন।',
+    'imaging.upload': 'চিকিৎসা ফাইল আপলোড করতে ক্লিক করুন',
+    'imaging.formats': 'এক্স-রে, MRI, TXT বা PDF',
+    'imaging.resultTitle': 'বিশ্লেষণ রিপোর্ট',
+    'imaging.diagnosis': 'রোগনির্ণয়',
+    'imaging.recovery': 'আনুমানিক সেরে ওঠার সময়',
+    'imaging.visualization': '3D ভিজ্যুয়ালাইজেশন',
+    'imaging.speakText': 'রোগনির্ণয়: {diagnosis}। সেরে ওঠা: {recovery}',
+    'imaging.unsupported': 'অসমর্থিত ফাইলের ধরন। অনুগ্রহ করে ছবি (PNG, JPG) বা টেক্সট রিপোর্ট (TXT, PDF) আপলোড করুন।',
+    'imaging.error': 'বিশ্লেষণের সময় একটি ত্রুটি ঘটেছে।',
+
+    // --- Chatbot ---
+    'chat.title': 'AI চিকিৎসা সহকারী',
+    'chat.greeting': 'নমস্কার! আমি ধন্বন্তরি, আপনার AI চিকিৎসা সহকারী। আজ আমি আপনাকে কীভাবে সাহায্য করতে পারি? মনে রাখবেন, এটি পেশাদার চিকিৎসা পরামর্শের বিকল্প নয়।',
+    'chat.placeholder': 'একটি প্রশ্ন করুন...',
+    'chat.inputLabel': 'চ্যাট ইনপুট',
+    'chat.send': 'বার্তা পাঠান',
+    'chat.close': 'চ্যাট বন্ধ করুন',
+    'chat.toggle': 'চ্যাট খুলুন/বন্ধ করুন',
+    'chat.error': 'দুঃখিত, একটি ত্রুটি ঘটেছে। অনুগ্রহ করে আবার চেষ্টা করুন।',
+};
@@ -0,0 +1,776 @@
+// English is the reference catalog: every key must exist here, and other languages
+// may omit keys they have not translated yet.
+
+export const en = {
+    // --- App shell ---
+    'nav.assistant': 'Assistant',
+    'nav.calculator': 'Calories',
+    'nav.diary': 'Diary',
+    'nav.mealPlan': 'Meal plan',
+    'nav.growth': 'Growth charts',
+    'nav.scanner': 'Scan Rx',
+    'nav.imaging': 'Imaging',
+    'nav.biometric': 'Biometric',
+    'nav.hospitals': 'Hospitals',
+    'nav.delivery': 'Delivery',
+    'nav.history': 'History',
+    'nav.profile': 'Profile',
+    'nav.logout': 'Logout',
+    'language.label': 'Language',
+
+    // --- Shared ---
+    'common.disclaimer': 'Disclaimer: This is an AI-generated analysis and not a substitute for professional medical advice. Consult with a qualified healthcare provider for any health concerns.',
+    'common.startRecording': 'Start recording',
+    'common.stopRecording': 'Stop recording',
+    'common.readAloud': 'Read result aloud',
+    'common.unknownError': 'An unknown error occurred.',
+
+    // --- Home ---
+    'home.title': 'Welcome to Dhanvantari',
+    'home.intro': 'Your AI-powered medical assistant for smarter health insights. Analyze symptoms, calculate nutritional needs, and scan prescriptions with ease.',
+    'home.assistant.title': 'Medical Assistant',
+    'home.assistant.description': 'Analyze symptoms and check for potential drug interactions.',
+    'home.assistant.action': 'Get Started',
+    'home.calculator.title': 'Calorie Counter',
+    'home.calculator.description': 'Estimate your daily calorie needs for various health goals.',
+    'home.calculator.action': 'Calculate Now',
+    'home.scanner.title': 'Prescription Scanner',
+    'home.scanner.description': 'Upload a prescription to extract text and identify medications.',
+    'home.scanner.action': 'Scan Now',
+    'home.imaging.title': 'Imaging Analysis',
+    'home.imaging.description': 'Upload scans (X-ray, MRI) for AI analysis and 3D visualization.',
+    'home.imaging.action': 'Analyze Scan',
+    'home.biometric.title': 'Biometric Scan',
+    'home.biometric.description': 'Perform a real-time biometric analysis using your camera.',
+    'home.biometric.action': 'Start Scan',
+    'home.hospitals.title': 'Nearby Hospitals',
+    'home.hospitals.description': 'Find hospitals and book appointments with healthcare facilities.',
+    'home.hospitals.action': 'Find Hospitals',
+    'home.delivery.title': 'Medicine Delivery',
+    'home.delivery.description': 'Order medications and upload prescriptions for delivery.',
+    'home.delivery.action': 'Order Now',
+    'home.profile.title': 'Profile & Reminders',
+    'home.profile.description': 'Manage your profile and set medication reminders.',
+    'home.profile.action': 'View Profile',
+    'home.articles': 'Latest Medical Articles',
+
+    // --- Not found ---
+    'notFound.title': 'Page Not Found',
+    'notFound.message': 'The page you are looking for does not exist or may have moved.',
+    'notFound.back': 'Back to Home',
+
+    // --- Login ---
+    'login.title': 'Welcome to Dhanvantari',
+    'login.welcomeBack': 'Welcome back, {name}',
+    'login.login.subtitle': 'Sign in to access your medical assistant.',
+    'login.login.submit': 'Login',
+    'login.register.subtitle': 'Create an account to keep your health data private.',
+    'login.register.submit': 'Create Account',
+    'login.forgot.subtitle': 'Enter your username to request a password reset code.',
+    'login.forgot.submit': 'Request Reset Code',
+    'login.reset.subtitle': 'Enter your reset code and choose a new password.',
+    'login.reset.submit': 'Reset Password',
+    'login.unlock.subtitle': 'Enter your password to unlock your health records on this device.',
+    'login.unlock.submit': 'Unlock',
+    'login.recover.subtitle': 'Your health records on this device are locked with your previous password. Enter it to keep them.',
+    'login.recover.submit': 'Recover Records',
+    'login.username': 'Username',
+    'login.password': 'Password',
+    'login.newPassword': 'New Password',
+    'login.previousPassword': 'Previous Password',
+    'login.confirmPassword': 'Confirm Password',
+    'login.resetCode': 'Reset Code',
+    'login.createAccount': 'Create an account',
+    'login.forgotPassword': 'Forgot password?',
+    'login.haveResetCode': 'I have a reset code',
+    'login.backToSignIn': 'Back to sign in',
+    'login.startOver': 'Start with empty records',
+    'login.signOut': 'Sign out',
+    'login.passwordsMismatch': 'Passwords do not match.',
+    'login.resetDone': 'Your password has been reset. Please sign in with your new password.',
+    'login.confirmStartOver': 'This permanently deletes the health records saved on this device. Continue?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'Medical Assistant',
+    'assistant.subtitle': 'Enter patient details to get an AI-powered analysis of symptoms and potential drug interactions.',
+    'assistant.age': 'Age',
+    'assistant.symptoms': 'Symptoms',
+    'assistant.medications': 'Current Medications (comma-separated)',
+    'assistant.submit': 'Analyze Symptoms',
+    'assistant.resultTitle': 'AI Analysis',
+    'assistant.interactions': 'Potential Interactions',
+    'assistant.noInteractions': 'No interactions identified.',
+    'assistant.concerns': 'Concerns',
+    'assistant.suggestions': 'Wellness Suggestions',
+    'assistant.urgency': 'Urgency: {level}.',
+    'assistant.mode.form': 'Quick form',
+    'assistant.mode.interview': 'Guided interview',
+    'urgency.self-care': 'Self-care',
+    'urgency.see-doctor': 'See a doctor',
+    'urgency.urgent': 'Seek urgent care',
+    'severity.minor': 'Minor',
+    'severity.moderate': 'Moderate',
+    'severity.major': 'Major',
+    'severity.contraindicated': 'Contraindicated',
+
+    // --- Symptom interview ---
+    'interview.progress': 'Question {current} of {total}',
+    'interview.question.complaint': 'What is the main symptom or problem?',
+    'interview.question.onset': 'How did it start?',
+    'interview.question.duration': 'How long have you had it?',
+    'interview.question.severity': 'How bad is it right now, from 1 to 10?',
+    'interview.question.location': 'Where in the body do you feel it?',
+    'interview.question.associated': 'Do you have any other symptoms?',
+    'interview.question.history': 'Anything relevant in your medical history?',
+    'interview.question.medications': 'Which medicines are you taking?',
+    'interview.question.vitals': 'A few details about you',
+    'interview.hint.complaint': 'e.g., headache, stomach pain, cough',
+    'interview.hint.onset': 'When exactly, and what were you doing? (optional)',
+    'interview.hint.duration': 'e.g., since yesterday morning',
+    'interview.hint.location': 'e.g., lower right side of the belly',
+    'interview.hint.associated': 'Tap any that apply, or describe them',
+    'interview.hint.history': 'Long-term conditions, allergies, recent injuries, surgery or travel',
+    'interview.hint.medications': 'Separate medicines with commas',
+    'interview.onset.sudden': 'Suddenly',
+    'interview.onset.gradual': 'Gradually',
+    'interview.duration.hours': 'Less than a day',
+    'interview.duration.days': '1–3 days',
+    'interview.duration.week': '4–7 days',
+    'interview.duration.longer': 'More than a week',
+    'interview.severity.scale': '1 = barely noticeable, 10 = worst imaginable',
+    'interview.associated.fever': 'Fever',
+    'interview.associated.nausea': 'Nausea',
+    'interview.associated.vomiting': 'Vomiting',
+    'interview.associated.headache': 'Headache',
+    'interview.associated.cough': 'Cough',
+    'interview.associated.dizziness': 'Dizziness',
+    'interview.associated.fatigue': 'Tiredness',
+    'interview.associated.rash': 'Rash',
+    'interview.associated.diarrhoea': 'Diarrhoea',
+    'interview.associated.breathlessness': 'Shortness of breath',
+    'interview.history.conditions': 'Known conditions: {list}',
+    'interview.history.allergies': 'Allergies: {list}',
+    'interview.back': 'Back',
+    'interview.next': 'Next',
+    'interview.skip': 'Skip',
+    'interview.review': 'Review summary',
+    'interview.summaryTitle': 'Review your answers',
+    'interview.summaryHint': 'The analysis will be based on this summary. Correct or add anything before continuing.',
+    'interview.summary.complaint': 'Main symptom',
+    'interview.summary.onset': 'Onset',
+    'interview.summary.duration': 'Duration',
+    'interview.summary.severity': 'Severity',
+    'interview.summary.location': 'Location',
+    'interview.summary.associated': 'Other symptoms',
+    'interview.summary.history': 'History',
+    'interview.startOver': 'Start over',
+
+    // --- Vitals ---
+    'vitals.title': 'Vitals (optional)',
+    'vitals.temperature': 'Body temperature',
+    'vitals.bloodPressure': 'Blood pressure (mmHg)',
+    'vitals.systolic': 'Systolic',
+    'vitals.diastolic': 'Diastolic',
+    'vitals.heartRate': 'Heart rate (beats/min)',
+    'vitals.spo2': 'Oxygen saturation (SpO₂ %)',
+    'vitals.respiratoryRate': 'Breathing rate (breaths/min)',
+    'vitals.glucose': 'Blood glucose',
+    'vitals.glucoseTiming': 'When measured',
+    'vitals.glucose.random': 'Random / after food',
+    'vitals.glucose.fasting': 'Fasting',
+    'vitals.weight': 'Weight',
+    'vitals.unit': 'Unit',
+    'vitals.low': 'Low – normal is {range}',
+    'vitals.high': 'High – normal is {range}',
+    'vitals.note': 'Normal ranges are adjusted for age. A reading outside them is a reason to measure again or check with a doctor, not a diagnosis.',
+
+    // --- History ---
+    'history.title': 'Analysis History',
+    'history.subtitle': 'Past analyses, calculations and scans, saved on this device.',
+    'history.all': 'All',
+    'history.feature.assistant': 'Symptom analysis',
+    'history.feature.calculator': 'Calorie calculation',
+    'history.feature.scanner': 'Prescription scan',
+    'history.feature.imaging': 'Imaging report',
+    'history.feature.biometric': 'Biometric analysis',
+    'history.feature.growth': 'Growth check',
+    'history.empty': 'Nothing saved yet. Results appear here after you run an analysis.',
+    'history.view': 'View result',
+    'history.delete': 'Delete',
+    'history.confirmDelete': 'Delete this entry? This cannot be undone.',
+    'history.compare': 'Select for comparison',
+    'history.compareHint': 'Tick two entries to compare them side by side.',
+    'history.compareSelected': 'Compare selected ({count}/2)',
+    'history.compareTitle': 'Compare Analyses',
+    'history.inputs': 'Inputs',
+    'history.result': 'Result',
+    'history.fileName': 'File',
+    'history.back': '← Back to history',
+    'history.notFound': 'This entry no longer exists.',
+    'history.loadError': 'Could not load your history.',
+    'history.deleteError': 'Could not delete the entry.',
+
+    // --- Food diary ---
+    'diary.title': 'Food Diary',
+    'diary.subtitle': 'Log what you eat and see your daily calories and macros against your target.',
+    'diary.view.day': 'Day',
+    'diary.view.week': 'Week',
+    'diary.previous': '← Previous',
+    'diary.next': 'Next →',
+    'diary.date': 'Date',
+    'diary.dayTotals': 'Today\'s totals',
+    'diary.addFood': 'Add food',
+    'diary.meal': 'Meal',
+    'diary.meal.breakfast': 'Breakfast',
+    'diary.meal.lunch': 'Lunch',
+    'diary.meal.dinner': 'Dinner',
+    'diary.meal.snack': 'Snack',
+    'diary.whatDidYouEat': 'What did you eat?',
+    'diary.foodPlaceholder': 'e.g. 2 roti, 1 bowl dal and a banana',
+    'diary.add': 'Add to diary',
+    'diary.barcode': 'Barcode number',
+    'diary.servings': 'Servings',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'Add by barcode',
+    'diary.barcodeInvalid': 'That is not a valid barcode number. Check the digits printed under the bars.',
+    'diary.barcodeUnknown': 'This product is not in the food database yet.',
+    'diary.nothingRecognized': 'None of these foods are in the food database. Try a simpler name, such as "roti" or "dal".',
+    'diary.unrecognized': 'Not in the food database, so not added: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · protein {protein} g · carbs {carbs} g · fat {fat} g',
+    'diary.deleteEntry': 'Remove {name}',
+    'diary.empty': 'Nothing logged for this day yet.',
+    'diary.calories': 'Calories',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': '{value} kcal left for the day',
+    'diary.over': '{value} kcal over the target',
+    'diary.noTarget': 'You have no daily target yet.',
+    'diary.setTarget': 'Pick one in the calorie calculator →',
+    'diary.targetFrom': 'Target: {goal}.',
+    'diary.changeTarget': 'Change',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'Day',
+    'diary.vsTarget': 'vs target',
+    'diary.notLogged': 'Nothing logged',
+    'diary.daysLogged': 'Days logged',
+    'diary.daysLoggedValue': '{count} of {total}',
+    'diary.average': 'Average on logged days',
+    'diary.averageVsTarget': 'Average vs target',
+    'diary.loadError': 'Could not load your food diary.',
+    'diary.saveError': 'Could not save to your food diary.',
+    'diary.deleteError': 'Could not remove the entry.',
+    'diary.photo.title': 'From a photo',
+    'diary.photo.hint': 'Photograph your plate; the AI lists the foods and portions for you to check before anything is logged.',
+    'diary.photo.take': 'Take or choose a photo',
+    'diary.photo.preview': 'Meal photo',
+    'diary.photo.recognize': 'Recognize foods',
+    'diary.photo.discard': 'Discard',
+    'diary.photo.reviewHint': 'Check each food and its weight. Foods in the nutrition database use its values; others use the AI estimate.',
+    'diary.photo.food': 'Food',
+    'diary.photo.grams': 'Grams',
+    'diary.photo.fromDatabase': 'database',
+    'diary.photo.estimated': 'AI estimate',
+    'diary.photo.unknown': 'not in the database',
+    'diary.photo.addItem': 'Add item',
+    'diary.photo.save': 'Log {count} items',
+    'diary.photo.error': 'Could not recognize the foods in this photo.',
+    'diary.photo.saveError': 'Could not save the meal photo.',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'Meal Planner',
+    'mealPlan.subtitle': 'A week of everyday Indian meals for your calorie target, diet, allergies and medicines, with a shopping list.',
+    'mealPlan.calories': 'Daily calories (kcal)',
+    'mealPlan.allergies': 'Food allergies',
+    'mealPlan.allergiesPlaceholder': 'e.g. peanuts, lactose',
+    'mealPlan.targetFrom': 'Your daily target is {calories} kcal.',
+    'mealPlan.medications': 'Current medicines',
+    'mealPlan.medicationsPlaceholder': 'e.g. warfarin, atorvastatin',
+    'mealPlan.preferences': 'Diet',
+    'mealPlan.preference.vegetarian': 'Vegetarian',
+    'mealPlan.preference.jain': 'Jain (no onion, garlic or root vegetables)',
+    'mealPlan.preference.diabetic': 'Diabetic (no added sugar)',
+    'mealPlan.preference.lowSodium': 'Low sodium',
+    'mealPlan.submit': 'Create meal plan',
+    'mealPlan.caloriesRequired': 'Enter a daily calorie target.',
+    'mealPlan.resultTitle': 'Your Weekly Meal Plan',
+    'mealPlan.interactionsTitle': 'Food and medicine interactions',
+    'mealPlan.column.medicine': 'Medicine',
+    'mealPlan.column.food': 'Food',
+    'mealPlan.column.inPlan': 'In this plan',
+    'mealPlan.advice.avoid': 'Left out',
+    'mealPlan.advice.separate': 'Kept; take the medicine at least 2 hours apart',
+    'mealPlan.component.meat': 'Meat',
+    'mealPlan.component.fish': 'Fish',
+    'mealPlan.component.egg': 'Egg',
+    'mealPlan.component.dairy': 'Milk products',
+    'mealPlan.component.wheat': 'Wheat',
+    'mealPlan.component.peanut': 'Peanuts',
+    'mealPlan.component.treeNut': 'Tree nuts',
+    'mealPlan.component.onionGarlic': 'Onion and garlic',
+    'mealPlan.component.rootVegetable': 'Root vegetables',
+    'mealPlan.component.addedSugar': 'Added sugar',
+    'mealPlan.component.highSodium': 'Salty foods',
+    'mealPlan.component.vitaminK': 'Vitamin K–rich greens',
+    'mealPlan.component.potassium': 'Potassium-rich foods',
+    'mealPlan.component.grapefruit': 'Grapefruit and pomelo',
+    'mealPlan.unplanned': 'No dish fits your choices for: {meals}. Plan these meals yourself.',
+    'mealPlan.dayMacros': 'Protein {protein} g · carbs {carbs} g · fat {fat} g',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} g)',
+    'mealPlan.shoppingTitle': 'Shopping list',
+    'mealPlan.shoppingNote': 'Amounts are for the cooked dishes over the whole week; buy the ingredients for them.',
+    'mealPlan.another': 'Try another plan',
+    'mealPlan.download': 'Download shopping list',
+    'mealPlan.disclaimer': 'Portions are estimates from standard food tables. Check with a doctor or dietitian before changing your diet for a medical condition.',
+
+    // --- Body measurements ---
+    'body.title': 'Weight and Body Measurements',
+    'body.date': 'Date',
+    'body.weight': 'Weight (kg)',
+    'body.waist': 'Waist (cm)',
+    'body.bodyFat': 'Body fat (%)',
+    'body.add': 'Add reading',
+    'body.valueRequired': 'Enter at least one measurement.',
+    'body.show': 'Show',
+    'body.measure.weight': 'Weight',
+    'body.measure.waist': 'Waist',
+    'body.measure.bodyFat': 'Body fat',
+    'body.empty': 'No readings yet.',
+    'body.chartLabel': '{measure} over time',
+    'body.legend': 'Dots are readings; the line is the {days}-day average.',
+    'body.current': 'Trend weight: {value} kg',
+    'body.rate': '{rate} kg a week over the last 4 weeks',
+    'body.tooFast': 'You are losing about {rate} kg a week, faster than the {limit} kg a week that is safe without medical supervision. Eat a little more, and see a doctor if you are not trying to lose weight.',
+    'body.noGoal': 'Add a goal weight to your health profile to see when you would reach it.',
+    'body.projection': 'At your calorie target you would reach {goal} kg around {date}, in about {weeks} weeks at {rate} kg a week.',
+    'body.goalReached': 'You have reached your goal weight of {goal} kg.',
+    'body.noTarget': 'A goal date needs a daily target from the calorie calculator.',
+    'body.wrongDirection': 'Your calorie target will not move your weight towards your goal.',
+    'body.loadError': 'Could not load your body measurements.',
+    'body.saveError': 'Could not save the reading.',
+    'body.deleteError': 'Could not remove the reading.',
+
+    // --- Growth charts ---
+    'growth.title': 'Growth Charts',
+    'growth.subtitle': 'Check a child\'s weight, height and BMI against WHO growth references, from birth to 19 years.',
+    'growth.birthDate': 'Date of birth',
+    'growth.measuredOn': 'Measured on',
+    'growth.height': 'Length or height (cm)',
+    'growth.heightNote': 'Measure length lying down before 2 years and height standing after.',
+    'growth.submit': 'Check growth',
+    'growth.valueRequired': 'Enter a weight, a height or both.',
+    'growth.dateOrder': 'The measurement date must be after the date of birth.',
+    'growth.tooOld': 'Growth references cover children up to 19 years. For adults, use the calorie calculator and body measurements.',
+    'growth.resultTitle': 'Growth Percentiles',
+    'growth.ageYears': 'Age: {years} years {months} months',
+    'growth.ageMonths': 'Age: {months} months',
+    'growth.column.indicator': 'Measure',
+    'growth.column.value': 'Value',
+    'growth.column.zScore': 'Z-score',
+    'growth.column.percentile': 'Percentile',
+    'growth.column.status': 'Assessment',
+    'growth.indicator.weight': 'Weight-for-age',
+    'growth.indicator.height': 'Height-for-age',
+    'growth.indicator.bmi': 'BMI-for-age',
+    'growth.status.normal': 'Within normal range',
+    'growth.status.severelyUnderweight': 'Severely underweight',
+    'growth.status.underweight': 'Underweight',
+    'growth.status.aboveRange': 'Above the usual range; check BMI-for-age',
+    'growth.status.severelyStunted': 'Severely stunted',
+    'growth.status.stunted': 'Stunted',
+    'growth.status.veryTall': 'Very tall',
+    'growth.status.severelyWasted': 'Severely wasted',
+    'growth.status.wasted': 'Wasted',
+    'growth.status.overweightRisk': 'Possible risk of overweight',
+    'growth.status.severeThinness': 'Severe thinness',
+    'growth.status.thinness': 'Thinness',
+    'growth.status.overweight': 'Overweight',
+    'growth.status.obese': 'Obese',
+    'growth.noWeightForAge': 'The WHO reference has no weight-for-age after 10 years; BMI-for-age is used instead.',
+    'growth.reference': 'Compared with the WHO Child Growth Standards (under 5 years) and the WHO growth reference (5–19 years). A measurement outside the 3rd–97th percentiles, or a child crossing percentile lines over time, is worth discussing with a paediatrician.',
+    'growth.chartLabel': '{indicator} growth chart',
+    'growth.legend': 'Lines are the 3rd, 15th, 50th, 85th and 97th percentiles. Dots are this child\'s measurements, including earlier ones saved with the same date of birth.',
+    'growth.axisMonths': '{months} m',
+    'growth.axisYears': '{years} y',
+    'growth.openCalculator': 'Work out this child\'s daily energy needs →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'Known Interactions',
+    'interactions.none': 'None of the recognised medicines interact in the reference list.',
+    'interactions.unrecognized': 'Not in the reference list, so not checked: {names}',
+    'interactions.reference': 'Checked on this device against a built-in list of well-known interactions. The list is not complete, so ask a doctor or pharmacist before starting, stopping or combining medicines.',
+    'interactions.column.medicines': 'Medicines',
+    'interactions.column.severity': 'Severity',
+    'interactions.column.effect': 'What can happen',
+    'interactions.effect.bleeding': 'Higher risk of bleeding',
+    'interactions.effect.serotoninSyndrome': 'Risk of serotonin syndrome (agitation, fever, tremor)',
+    'interactions.effect.respiratoryDepression': 'Heavy drowsiness and slowed breathing',
+    'interactions.effect.myopathy': 'Muscle damage (muscle pain or weakness)',
+    'interactions.effect.toxicity': 'Raised drug levels and side effects',
+    'interactions.effect.hyperkalemia': 'High potassium levels',
+    'interactions.effect.kidneyInjury': 'Kidney damage',
+    'interactions.effect.qtProlongation': 'Abnormal heart rhythm (QT prolongation)',
+    'interactions.effect.bradycardia': 'Very slow heart rate',
+    'interactions.effect.hypotension': 'Dangerously low blood pressure',
+    'interactions.effect.reducedAbsorption': 'One medicine is absorbed less; take them a few hours apart',
+    'interactions.effect.reducedEffect': 'One medicine may work less well',
+    'interactions.effect.hypoglycemia': 'Low blood sugar',
+    'interactions.warningTitle': 'This may interact with medicines you already take',
+    'interactions.addAnyway': 'Add anyway',
+    'interactions.orderAnyway': 'Place order anyway',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'Tablet',
+    'drugs.form.capsule': 'Capsule',
+    'drugs.form.syrup': 'Syrup',
+    'drugs.form.suspension': 'Suspension',
+    'drugs.form.drops': 'Drops',
+    'drugs.form.eyeDrops': 'Eye drops',
+    'drugs.form.nasalSpray': 'Nasal spray',
+    'drugs.form.inhaler': 'Inhaler',
+    'drugs.form.injection': 'Injection',
+    'drugs.form.cream': 'Cream',
+    'drugs.form.ointment': 'Ointment',
+    'drugs.form.gel': 'Gel',
+    'drugs.form.sachet': 'Sachet',
+    'drugs.column.written': 'As written',
+    'drugs.column.medicine': 'Medicine',
+    'drugs.confidence': '{percent}% match',
+    'drugs.lowConfidence': '{percent}% match – check this',
+    'drugs.alternatives': 'Could also be: {names}',
+    'drugs.unmatched': 'Not found in the drug dictionary',
+    'drugs.note': 'Names are matched on this device against a bundled dictionary of common brands and generic medicines. Check each one against the pack or prescription; only matches marked as certain are used by name in reminders and orders.',
+
+    // --- Red-flag triage ---
+    'triage.title': 'This may be a medical emergency',
+    'triage.message': 'Based on what you entered, get emergency help now instead of waiting for an AI answer.',
+    'triage.reason.cardiac': 'Chest pain or pressure can be a sign of a heart attack.',
+    'triage.reason.breathing': 'Severe difficulty breathing needs urgent care.',
+    'triage.reason.stroke': 'Sudden weakness, a drooping face, slurred speech or a sudden severe headache can be signs of a stroke.',
+    'triage.reason.selfHarm': 'You mentioned thoughts of harming yourself. You are not alone, and trained counsellors are available right now.',
+    'triage.reason.bleeding': 'Heavy or uncontrolled bleeding needs immediate care.',
+    'triage.reason.consciousness': 'Fainting, seizures or being unresponsive need immediate care.',
+    'triage.reason.allergy': 'Swelling of the throat, tongue or face can be a severe allergic reaction.',
+    'triage.reason.highFever': 'A temperature of 40 °C or higher needs urgent care.',
+    'triage.reason.infantFever': 'A fever in a baby under one year old should be checked by a doctor urgently.',
+    'triage.reason.hypothermia': 'A body temperature below 35 °C needs urgent care.',
+    'triage.reason.meningitis': 'Fever with a stiff neck can be a sign of meningitis.',
+    'triage.call': 'Call {number}',
+    'triage.number.emergency': 'All emergencies',
+    'triage.number.ambulance': 'Ambulance',
+    'triage.number.mentalHealth': 'Tele-MANAS mental health helpline',
+    'triage.findEmergency': 'Find 24/7 emergency care',
+    'triage.continue': 'I understand, continue anyway',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'What will be sent',
+    'privacy.hiddenCount': 'Personal details hidden: {count}',
+    'privacy.previewNote': 'Only the text below leaves this device. Hidden details are put back into the answer on this device.',
+    'privacy.removed': 'removed',
+    'privacy.type.name': 'Name',
+    'privacy.type.phone': 'Phone number',
+    'privacy.type.email': 'E-mail',
+    'privacy.type.address': 'Address',
+    'privacy.type.id': 'ID number',
+    'privacy.type.dob': 'Date of birth',
+    'privacy.imageNote': 'This image is sent as shown. Drag over names, addresses or ID numbers to cover them first.',
+    'privacy.undoCover': 'Undo last cover',
+    'privacy.clearCovers': 'Remove all covers',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'Calorie Counter',
+    'calculator.subtitle': 'Estimate your daily calorie needs based on your age, gender, activity level, and body measurements.',
+    'calculator.age': 'Age',
+    'calculator.gender': 'Gender',
+    'calculator.male': 'Male',
+    'calculator.female': 'Female',
+    'calculator.weight': 'Weight (kg)',
+    'calculator.height': 'Height (cm)',
+    'calculator.activity': 'Activity Level',
+    'calculator.activity.sedentary': 'Sedentary (little or no exercise)',
+    'calculator.activity.light': 'Lightly active (light exercise/sports 1-3 days/week)',
+    'calculator.activity.moderate': 'Moderately active (moderate exercise/sports 3-5 days/week)',
+    'calculator.activity.active': 'Very active (hard exercise/sports 6-7 days a week)',
+    'calculator.activity.extra': 'Extra active (very hard exercise/physical job)',
+    'calculator.submit': 'Calculate Calories',
+    'calculator.resultTitle': 'Calorie Needs',
+    'calculator.units': 'Units',
+    'calculator.units.metric': 'Metric (kg, cm)',
+    'calculator.units.imperial': 'Imperial (lb, ft/in)',
+    'calculator.weightLb': 'Weight (lb)',
+    'calculator.heightImperial': 'Height (ft, in)',
+    'calculator.feet': 'Feet',
+    'calculator.inches': 'Inches',
+    'calculator.bodyFat': 'Body fat (%)',
+    'calculator.bodyFatRequired': 'Katch-McArdle needs your body fat percentage.',
+    'calculator.formula': 'BMR formula',
+    'calculator.formula.mifflin': 'Mifflin-St Jeor',
+    'calculator.formula.harris': 'Harris-Benedict (revised)',
+    'calculator.formula.katch': 'Katch-McArdle (uses body fat)',
+    'calculator.formula.child': 'Children\'s energy requirement (IOM)',
+    'calculator.formulaUsed': 'Calculated with the {formula} equation.',
+    'calculator.bmr': 'Basal metabolic rate (BMR)',
+    'calculator.tdee': 'Daily energy expenditure (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/day',
+    'calculator.column.goal': 'Goal',
+    'calculator.column.calories': 'kcal/day',
+    'calculator.column.protein': 'Protein',
+    'calculator.column.carbs': 'Carbohydrates',
+    'calculator.column.fat': 'Fat',
+    'calculator.goal.lose-fast': 'Lose 0.5 kg/week',
+    'calculator.goal.lose': 'Lose 0.25 kg/week',
+    'calculator.goal.maintain': 'Maintain weight',
+    'calculator.goal.gain': 'Gain 0.25 kg/week',
+    'calculator.goal.gain-fast': 'Gain 0.5 kg/week',
+    'calculator.goal.growth': 'Healthy growth',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'Raised to the minimum daily intake advised without medical supervision.',
+    'calculator.macroNote': 'Protein is set per kg of body weight, fat at 25% of calories and the rest from carbohydrates.',
+    'calculator.childFormulaUsed': 'Daily energy need from the Institute of Medicine equations for children, including the energy used for growth; BMR from the Schofield equations.',
+    'calculator.childMacroNote': 'Protein is set at the recommended amount per kg for the child\'s age, fat at 30–45% of calories depending on age and the rest from carbohydrates.',
+    'calculator.childNote': 'Under 19, the calculator uses children\'s energy requirements, which include energy for growth, and gives no weight-loss targets. Enter a baby\'s age as a fraction of a year, e.g. 0.5 for six months. Talk to a paediatrician about any concern with a child\'s weight.',
+    'calculator.openGrowth': 'Check growth percentiles →',
+    'calculator.commentary': 'Get AI commentary',
+    'calculator.commentaryTitle': 'Commentary',
+    'calculator.commentaryError': 'Could not get commentary on these figures.',
+    'calculator.useAsTarget': 'Use as diary target',
+    'calculator.targetSet': 'Diary target ✓',
+    'calculator.targetError': 'Could not save the diary target.',
+    'calculator.openDiary': 'Open the food diary →',
+    'calculator.openMealPlan': 'Plan a week of meals →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'Prescription Scanner',
+    'scanner.subtitle': 'Upload a photo of your prescription to extract the text and identify medications.',
+    'scanner.upload': 'Click to add photos or a PDF',
+    'scanner.formats': 'PNG, JPG or PDF. Add several for a prescription with more than one page.',
+    'scanner.preview': 'Prescription preview',
+    'scanner.resultTitle': 'Scan Results',
+    'scanner.extractedText': 'Extracted Text',
+    'scanner.speakText': 'Extracted text: {text}',
+    'scanner.noText': 'No text found.',
+    'scanner.copy': 'Copy Text',
+    'scanner.copied': 'Copied to clipboard!',
+    'scanner.medications': 'Identified Medications',
+    'scanner.orderMedicines': 'Order these medicines',
+    'scanner.error': 'Failed to scan prescription.',
+    'scanner.scan': 'Scan Prescription',
+    'scanner.camera': 'Use camera',
+    'scanner.cameraView': 'Camera view',
+    'scanner.cameraHint': 'Line the page up inside the frame, then capture it. Capture each page in turn.',
+    'scanner.capture': 'Capture page {number}',
+    'scanner.cameraDone': 'Done',
+    'scanner.cameraError': 'Could not open the camera. Check that camera access is allowed.',
+    'scanner.page': 'Page {number}',
+    'scanner.moveEarlier': 'Move page {number} earlier',
+    'scanner.removePage': 'Remove',
+    'scanner.pdfNote': '{name} is sent as it is, so details in a PDF cannot be covered. Cover names and addresses before making the PDF, or photograph the pages instead.',
+    'scanner.unsupported': '{names}: only images and PDFs can be scanned.',
+    'scanner.readError': 'Could not read the selected files.',
+    'scanner.tooLarge': 'These pages are too large to send together. Remove a page or use smaller photos.',
+    'scanner.cleanUp': 'Clean up photo: crop to the page, straighten it and even out the lighting',
+    'scanner.before': 'Original',
+    'scanner.after': 'Cleaned up, as sent',
+    'scanner.original': 'Original photo',
+    'scanner.cropHint': 'Drag the corners onto the edges of the paper. Changing the crop removes the covers on this page.',
+    'scanner.detectPage': 'Find page again',
+    'scanner.wholePhoto': 'Use whole photo',
+    'scanner.cornerTopLeft': 'Top-left corner',
+    'scanner.cornerTopRight': 'Top-right corner',
+    'scanner.cornerBottomRight': 'Bottom-right corner',
+    'scanner.cornerBottomLeft': 'Bottom-left corner',
+    'scanner.preparing': 'Preparing pages…',
+    'scanner.cleanUpError': 'Could not clean up this photo. Try another crop, or send it as it is.',
+    'scanner.schedule': 'Dosing Schedule',
+    'scanner.startDate': 'First day of the course',
+    'scanner.remindersNote': 'Reminders are set for 08:00 in the morning, 14:00 in the afternoon, 18:00 in the evening and 21:00 at night, and stop at the end of each course.',
+    'scanner.noSchedule': 'None of these medicines has a regular schedule to set reminders for.',
+    'scanner.unscheduled': 'No reminders for {names}, which are taken only when needed, once, or on a schedule that could not be read.',
+    'scanner.createReminders': 'Create {count} reminders',
+    'scanner.remindersCreated': '{count} reminders created.',
+    'scanner.openReminders': 'View reminders →',
+    'scanner.remindersError': 'Failed to create reminders.',
+    'scanner.review.title': 'Check what was read',
+    'scanner.review.hint': 'Compare each medicine with the prescription and correct anything that was misread. Select a box on the page to go to its medicine. Nothing is used for reminders, matches or orders until you confirm.',
+    'scanner.review.prescriber': 'Prescribing doctor',
+    'scanner.review.date': 'Date of prescription',
+    'scanner.review.unreadDate': 'Read as "{date}" – pick the date',
+    'scanner.review.medicine': 'Medicine {number}',
+    'scanner.review.field.name': 'Name',
+    'scanner.review.field.strength': 'Strength',
+    'scanner.review.field.form': 'Form',
+    'scanner.review.field.dose': 'Dose',
+    'scanner.review.field.frequency': 'How often',
+    'scanner.review.field.duration': 'How long',
+    'scanner.review.field.route': 'Route',
+    'scanner.review.field.instructions': 'Instructions',
+    'scanner.review.check': 'Check this',
+    'scanner.review.region': 'Medicine {number}: {name}',
+    'scanner.review.pdfNote': 'Where each medicine is written can only be shown on photos, not on PDFs.',
+    'scanner.review.addMedicine': 'Add medicine',
+    'scanner.review.removeMedicine': 'Remove medicine {number}',
+    'scanner.review.toCheck': '{count} marked parts were hard to read or could not be understood.',
+    'scanner.review.confirm': 'Confirm',
+    'scanner.review.saveError': 'Could not save the checked scan.',
+    'scanner.review.confirmed': 'You checked this reading against the prescription.',
+    'scanner.review.edit': 'Edit',
+    'scanner.review.unconfirmed': 'This reading was not checked against the prescription.',
+    'prescription.column.medicine': 'Medicine',
+    'prescription.column.dose': 'Dose',
+    'prescription.column.frequency': 'How often',
+    'prescription.column.duration': 'How long',
+    'prescription.column.route': 'Route',
+    'prescription.column.instructions': 'Instructions',
+    'prescription.at': 'at {times}',
+    'prescription.everyDays': 'every {days} days at {times}',
+    'prescription.asNeeded': 'only when needed',
+    'prescription.once': 'one dose straight away',
+    'prescription.days': '{days} days',
+    'prescription.ongoing': 'ongoing',
+    'prescription.unread': 'not recognised',
+    'prescription.prescriber': 'Prescribed by {name}',
+    'prescription.date': 'Dated {date}',
+    'prescription.note': 'How often and how long are read from the prescription\'s shorthand; for example 1-0-1 is morning and night and 5/7 is five days. Check them against the prescription, and ask your doctor or pharmacist if anything is unclear.',
+    'prescription.route.oral': 'By mouth',
+    'prescription.route.sublingual': 'Under the tongue',
+    'prescription.route.topical': 'On the skin',
+    'prescription.route.eye': 'In the eye',
+    'prescription.route.ear': 'In the ear',
+    'prescription.route.nasal': 'In the nose',
+    'prescription.route.inhaled': 'Inhaled',
+    'prescription.route.injection': 'Injection',
+    'prescription.route.rectal': 'Rectal',
+    'prescription.route.vaginal': 'Vaginal',
+    'prescription.food.beforeFood': 'before food',
+    'prescription.food.afterFood': 'after food',
+    'prescription.food.withFood': 'with food',
+
+    // --- Hospitals ---
+    'hospitals.title': 'Nearby Hospitals',
+    'hospitals.subtitle': 'Find healthcare facilities in your area and book appointments directly.',
+    'hospitals.location': 'Enter your city or address',
+    'hospitals.search': 'Search',
+    'hospitals.resultsFor': 'Hospitals near {location}',
+    'hospitals.viewMap': 'View Map',
+    'hospitals.book': 'Book Appointment',
+    'hospitals.sources': 'Sources:',
+    'hospitals.notInSearch': "We couldn't find that hospital in your recent search. Please search again to book an appointment.",
+    'hospitals.backToSearch': 'Back to Search',
+    'hospitals.bookAt': 'Book an Appointment at {name}',
+    'hospitals.date': 'Select Date',
+    'hospitals.time': 'Select Time Slot',
+    'hospitals.cancel': 'Cancel',
+    'hospitals.confirm': 'Confirm Booking',
+    'hospitals.confirmed': 'Your appointment at {hospital} on {date} at {time} is confirmed.',
+    'hospitals.confirmationNumber': 'Your Confirmation Number:',
+    'hospitals.setReminder': 'Set a Reminder (24h prior)',
+    'hospitals.reminderSet': 'Reminder Set!',
+    'hospitals.reminderMessage': 'Reminder: You have an appointment at {hospital} tomorrow at {time}.',
+    'hospitals.reminderTooLate': 'The appointment is less than 24 hours away. A reminder cannot be set for a past time.',
+    'hospitals.searchError': 'Failed to find hospitals.',
+    'hospitals.bookingError': 'Failed to book appointment.',
+    'hospitals.emergencyOnly': 'Showing hospitals with a 24/7 emergency department.',
+    'hospitals.showAll': 'Show all hospitals',
+    'hospitals.emergencyBadge': '24/7 emergency',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'Medicine Delivery',
+    'delivery.subtitle': 'Order your medications online and get them delivered to your doorstep.',
+    'delivery.address': 'Delivery Address',
+    'delivery.medications': 'Medications (comma-separated)',
+    'delivery.medicationsPlaceholder': 'e.g., Paracetamol 500mg, Vitamin C',
+    'delivery.prescription': 'Upload Prescription (optional)',
+    'delivery.submit': 'Place Order',
+    'delivery.resultTitle': 'Order Confirmation',
+
+    // --- Profile ---
+    'profile.welcome': 'Welcome, {name}',
+    'profile.subtitle': 'Manage your health profile, medications and reminders. They are stored encrypted on this device only.',
+    'profile.healthProfile': 'Health Profile',
+    'profile.name': 'Name',
+    'profile.age': 'Age',
+    'profile.sex': 'Sex',
+    'profile.sex.unspecified': 'Prefer not to say',
+    'profile.sex.female': 'Female',
+    'profile.sex.male': 'Male',
+    'profile.sex.other': 'Other',
+    'profile.height': 'Height (cm)',
+    'profile.weight': 'Weight (kg)',
+    'profile.goalWeight': 'Goal weight (kg)',
+    'profile.allergies': 'Allergies (comma-separated)',
+    'profile.conditions': 'Conditions (comma-separated)',
+    'profile.save': 'Save Profile',
+    'profile.saved': 'Saved',
+    'profile.medications': 'Current Medications',
+    'profile.medication': 'Medication',
+    'profile.dosage': 'Dosage',
+    'profile.dosagePlaceholder': 'e.g. 500 mg twice daily',
+    'profile.addMedication': 'Add Medication',
+    'profile.remove': 'Remove',
+    'profile.addReminderTitle': 'Add Medicine Reminder',
+    'profile.reminderName': 'Medication Name',
+    'profile.reminderTime': 'Time',
+    'profile.addReminder': 'Add Reminder',
+    'profile.activeReminders': 'Active Reminders',
+    'profile.scheduledFor': 'Scheduled for {time} daily',
+    'profile.scheduledEvery': 'Scheduled for {time} every {days} days',
+    'profile.reminderDose': 'Dose: {dose}',
+    'profile.courseDates': '{start} to {end}',
+    'profile.courseFrom': 'From {start}',
+    'profile.courseEnded': 'Course finished on {end}',
+    'profile.delete': 'Delete',
+    'profile.noReminders': 'You have no active reminders.',
+    'profile.reminderAlert': 'Time to take your {name}!',
+    'profile.appointments': 'Appointments',
+    'profile.appointmentDetails': '{date} at {time} · Confirmation {number}',
+    'profile.noAppointments': 'You have no booked appointments.',
+    'profile.loadError': 'Could not load your health records. Please try again later.',
+    'profile.saveError': 'Could not save your changes. Please try again.',
+    'profile.saveProfileError': 'Could not save your profile. Please try again.',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'Biometric Scan',
+    'biometric.subtitle': 'Use your camera for a real-time estimation of height and body temperature.',
+    'biometric.start': 'Start Biometric Analysis',
+    'biometric.proceed': 'Proceed to medical analysis?',
+    'biometric.no': 'No',
+    'biometric.yes': 'Yes',
+    'biometric.analysisTitle': 'Medical Analysis',
+    'biometric.analysisSubtitle': 'Enter your age for a final analysis based on the biometric scan.',
+    'biometric.scanResults': 'Scan Results:',
+    'biometric.scanSummary': 'Height: {height} cm, Temperature: {temperature}',
+    'biometric.notAvailable': 'N/A',
+    'biometric.age': 'Enter Your Age',
+    'biometric.submit': 'Get Analysis',
+    'biometric.resultTitle': 'Biometric Analysis',
+    'biometric.libraryError': 'Could not load the pose detection library. Please check your connection and try again.',
+    'biometric.cameraError': 'Camera access is required for biometric scanning.',
+    'biometric.analysisError': 'Failed to get analysis.',
+
+    // --- Imaging ---
+    'imaging.title': 'Medical Imaging Analysis',
+    'imaging.subtitle': 'Upload an X-ray, MRI, or blood report for an AI-powered analysis and 3D visualization.',
+    'imaging.upload': 'Click to upload a medical file',
+    'imaging.formats': 'X-ray, MRI, TXT, or PDF',
+    'imaging.resultTitle': 'Analysis Report',
+    'imaging.diagnosis': 'Diagnosis',
+    'imaging.recovery': 'Estimated Recovery Timeline',
+    'imaging.visualization': '3D Visualization',
+    'imaging.speakText': 'Diagnosis: {diagnosis}. Recovery: {recovery}',
+    'imaging.unsupported': 'Unsupported file type. Please upload an image (PNG, JPG) or a text report (TXT, PDF).',
+    'imaging.error': 'An error occurred during analysis.',
+
+    // --- Chatbot ---
+    'chat.title': 'AI Medical Assistant',
+    'chat.greeting': 'Hello! I am Dhanvantari, your AI medical assistant. How can I help you today? Remember, this is not a substitute for professional medical advice.',
+    'chat.placeholder': 'Ask a question...',
+    'chat.inputLabel': 'Chat input',
+    'chat.send': 'Send message',
+    'chat.close': 'Close chat',
+    'chat.toggle': 'Toggle chat',
+    'chat.error': 'Sorry, I encountered an error. Please try again.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Partial<Record<MessageKey, string>>;
@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const hi: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'सहायक',
+    'nav.calculator': 'कैलोरी',
+    'nav.diary': 'भोजन डायरी',
+    'nav.mealPlan': 'भोजन योजना',
+    'nav.growth': 'विकास चार्ट',
+    'nav.scanner': 'पर्चा स्कैन',
+    'nav.imaging': 'इमेजिंग',
+    'nav.biometric': 'बायोमेट्रिक',
+    'nav.hospitals': 'अस्पताल',
+    'nav.delivery': 'डिलीवरी',
+    'nav.history': 'इतिहास',
+    'nav.profile': 'प्रोफ़ाइल',
+    'nav.logout': 'लॉग आउट',
+    'language.label': 'भाषा',
+
+    // --- Shared ---
+    'common.disclaimer': 'अस्वीकरण: यह AI द्वारा तैयार किया गया विश्लेषण है और पेशेवर चिकित्सा सलाह का विकल्प नहीं है। किसी भी स्वास्थ्य संबंधी चिंता के लिए योग्य स्वास्थ्य सेवा प्रदाता से परामर्श करें।',
+    'common.startRecording': 'रिकॉर्डिंग शुरू करें',
+    'common.stopRecording': 'रिकॉर्डिंग रोकें',
+    'common.readAloud': 'परिणाम पढ़कर सुनाएँ',
+    'common.unknownError': 'एक अज्ञात त्रुटि हुई।',
+
+    // --- Home ---
+    'home.title': 'धन्वंतरि में आपका स्वागत है',
+    'home.intro': 'बेहतर स्वास्थ्य जानकारी के लिए आपका AI चिकित्सा सहायक। लक्षणों का विश्लेषण करें, पोषण संबंधी ज़रूरतों की गणना करें और पर्चे आसानी से स्कैन करें।',
+    'home.assistant.title': 'चिकित्सा सहायक',
+    'home.assistant.description': 'लक्षणों का विश्लेषण करें और संभावित दवा परस्पर क्रियाओं की जाँच करें।',
+    'home.assistant.action': 'शुरू करें',
+    'home.calculator.title': 'कैलोरी काउंटर',
+    'home.calculator.description': 'विभिन्न स्वास्थ्य लक्ष्यों के लिए अपनी दैनिक कैलोरी ज़रूरतों का अनुमान लगाएँ।',
+    'home.calculator.action': 'अभी गणना करें',
+    'home.scanner.title': 'पर्चा स्कैनर',
+    'home.scanner.description': 'पाठ निकालने और दवाओं की पहचान के लिए पर्चा अपलोड करें।',
+    'home.scanner.action': 'अभी स्कैन करें',
+    'home.imaging.title': 'इमेजिंग विश्लेषण',
+    'home.imaging.description': 'AI विश्लेषण और 3D विज़ुअलाइज़ेशन के लिए स्कैन (एक्स-रे, MRI) अपलोड करें।',
+    'home.imaging.action': 'स्कैन का विश्लेषण करें',
+    'home.biometric.title': 'बायोमेट्रिक स्कैन',
+    'home.biometric.description': 'अपने कैमरे से रीयल-टाइम बायोमेट्रिक विश्लेषण करें।',
+    'home.biometric.action': 'स्कैन शुरू करें',
+    'home.hospitals.title': 'नज़दीकी अस्पताल',
+    'home.hospitals.description': 'अस्पताल खोजें और स्वास्थ्य केंद्रों में अपॉइंटमेंट बुक करें।',
+    'home.hospitals.action': 'अस्पताल खोजें',
+    'home.delivery.title': 'दवा डिलीवरी',
+    'home.delivery.description': 'दवाएँ ऑर्डर करें और डिलीवरी के लिए पर्चे अपलोड करें।',
+    'home.delivery.action': 'अभी ऑर्डर करें',
+    'home.profile.title': 'प्रोफ़ाइल और रिमाइंडर',
+    'home.profile.description': 'अपनी प्रोफ़ाइल प्रबंधित करें और दवा रिमाइंडर सेट करें।',
+    'home.profile.action': 'प्रोफ़ाइल देखें',
+    'home.articles': 'नवीनतम चिकित्सा लेख',
+
+    // --- Not found ---
+    'notFound.title': 'पेज नहीं मिला',
+    'notFound.message': 'आप जिस पेज को खोज रहे हैं वह मौजूद नहीं है या कहीं और चला गया है।',
+    'notFound.back': 'होम पर वापस जाएँ',
+
+    // --- Login ---
+    'login.title': 'धन्वंतरि में आपका स्वागत है',
+    'login.welcomeBack': 'फिर से स्वागत है, {name}',
+    'login.login.subtitle': 'अपने चिकित्सा सहायक तक पहुँचने के लिए साइन इन करें।',
+    'login.login.submit': 'लॉग इन',
+    'login.register.subtitle': 'अपना स्वास्थ्य डेटा निजी रखने के लिए खाता बनाएँ।',
+    'login.register.submit': 'खाता बनाएँ',
+    'login.forgot.subtitle': 'पासवर्ड रीसेट कोड पाने के लिए अपना उपयोगकर्ता नाम दर्ज करें।',
+    'login.forgot.submit': 'रीसेट कोड माँगें',
+    'login.reset.subtitle': 'अपना रीसेट कोड दर्ज करें और नया पासवर्ड चुनें।',
+    'login.reset.submit': 'पासवर्ड रीसेट करें',
+    'login.unlock.subtitle': 'इस डिवाइस पर अपने स्वास्थ्य रिकॉर्ड अनलॉक करने के लिए पासवर्ड दर्ज करें।',
+    'login.unlock.submit': 'अनलॉक करें',
+    'login.recover.subtitle': 'इस डिवाइस पर आपके स्वास्थ्य रिकॉर्ड आपके पिछले पासवर्ड से लॉक हैं। उन्हें रखने के लिए वह पासवर्ड दर्ज करें।',
+    'login.recover.submit': 'रिकॉर्ड पुनर्प्राप्त करें',
+    'login.username': 'उपयोगकर्ता नाम',
+    'login.password': 'पासवर्ड',
+    'login.newPassword': 'नया पासवर्ड',
+    'login.previousPassword': 'पिछला पासवर्ड',
+    'login.confirmPassword': 'पासवर्ड की पुष्टि करें',
+    'login.resetCode': 'रीसेट कोड',
+    'login.createAccount': 'खाता बनाएँ',
+    'login.forgotPassword': 'पासवर्ड भूल गए?',
+    'login.haveResetCode': 'मेरे पास रीसेट कोड है',
+    'login.backToSignIn': 'साइन इन पर वापस जाएँ',
+    'login.startOver': 'खाली रिकॉर्ड से शुरू करें',
+    'login.signOut': 'साइन आउट',
+    'login.passwordsMismatch': 'पासवर्ड मेल नहीं खाते।',
+    'login.resetDone': 'आपका पासवर्ड रीसेट हो गया है। कृपया नए पासवर्ड से साइन इन करें।',
+    'login.confirmStartOver': 'इससे इस डिवाइस पर सहेजे गए स्वास्थ्य रिकॉर्ड स्थायी रूप से हट जाएँगे। जारी रखें?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'चिकित्सा सहायक',
+    'assistant.subtitle': 'लक्षणों और संभावित दवा परस्पर क्रियाओं के AI विश्लेषण के लिए रोगी का विवरण दर्ज करें।',
+    'assistant.age': 'आयु',
+    'assistant.symptoms': 'लक्षण',
+    'assistant.medications': 'वर्तमान दवाएँ (अल्पविराम से अलग करें)',
+    'assistant.submit': 'लक्षणों का विश्लेषण करें',
+    'assistant.resultTitle': 'AI विश्लेषण',
+    'assistant.interactions': 'संभावित परस्पर क्रियाएँ',
+    'assistant.noInteractions': 'कोई परस्पर क्रिया नहीं मिली।',
+    'assistant.concerns': 'चिंताएँ',
+    'assistant.suggestions': 'स्वास्थ्य सुझाव',
+    'assistant.urgency': 'तात्कालिकता: {level}।',
+    'assistant.mode.form': 'त्वरित फ़ॉर्म',
+    'assistant.mode.interview': 'निर्देशित साक्षात्कार',
+    'urgency.self-care': 'स्व-देखभाल',
+    'urgency.see-doctor': 'डॉक्टर से मिलें',
+    'urgency.urgent': 'तुरंत चिकित्सा सहायता लें',
+    'severity.minor': 'मामूली',
+    'severity.moderate': 'मध्यम',
+    'severity.major': 'गंभीर',
+    'severity.contraindicated': 'वर्जित',
+
+    // --- Symptom interview ---
+    'interview.progress': 'प्रश्न {current} / {total}',
+    'interview.question.complaint': 'मुख्य लक्षण या समस्या क्या है?',
+    'interview.question.onset': 'यह कैसे शुरू हुआ?',
+    'interview.question.duration': 'यह कितने समय से है?',
+    'interview.question.severity': 'अभी यह कितना गंभीर है, 1 से 10 में?',
+    'interview.question.location': 'शरीर में यह कहाँ महसूस होता है?',
+    'interview.question.associated': 'क्या कोई और लक्षण हैं?',
+    'interview.question.history': 'आपके चिकित्सा इतिहास में कुछ प्रासंगिक?',
+    'interview.question.medications': 'आप कौन सी दवाइयाँ ले रहे हैं?',
+    'interview.question.vitals': 'आपके बारे में कुछ जानकारी',
+    'interview.hint.complaint': 'जैसे, सिरदर्द, पेट दर्द, खाँसी',
+    'interview.hint.onset': 'ठीक कब, और आप क्या कर रहे थे? (वैकल्पिक)',
+    'interview.hint.duration': 'जैसे, कल सुबह से',
+    'interview.hint.location': 'जैसे, पेट के निचले दाएँ हिस्से में',
+    'interview.hint.associated': 'जो लागू हों उन्हें चुनें, या उनका वर्णन करें',
+    'interview.hint.history': 'पुरानी बीमारियाँ, एलर्जी, हाल की चोट, सर्जरी या यात्रा',
+    'interview.hint.medications': 'दवाइयों को अल्पविराम से अलग करें',
+    'interview.onset.sudden': 'अचानक',
+    'interview.onset.gradual': 'धीरे-धीरे',
+    'interview.duration.hours': 'एक दिन से कम',
+    'interview.duration.days': '1–3 दिन',
+    'interview.duration.week': '4–7 दिन',
+    'interview.duration.longer': 'एक सप्ताह से अधिक',
+    'interview.severity.scale': '1 = मुश्किल से महसूस होता है, 10 = असहनीय',
+    'interview.associated.fever': 'बुखार',
+    'interview.associated.nausea': 'जी मिचलाना',
+    'interview.associated.vomiting': 'उल्टी',
+    'interview.associated.headache': 'सिरदर्द',
+    'interview.associated.cough': 'खाँसी',
+    'interview.associated.dizziness': 'चक्कर आना',
+    'interview.associated.fatigue': 'थकान',
+    'interview.associated.rash': 'चकत्ते',
+    'interview.associated.diarrhoea': 'दस्त',
+    'interview.associated.breathlessness': 'साँस फूलना',
+    'interview.history.conditions': 'ज्ञात बीमारियाँ: {list}',
+    'interview.history.allergies': 'एलर्जी: {list}',
+    'interview.back': 'पीछे',
+    'interview.next': 'आगे',
+    'interview.skip': 'छोड़ें',
+    'interview.review': 'सारांश देखें',
+    'interview.summaryTitle': 'अपने उत्तर जाँचें',
+    'interview.summaryHint': 'विश्लेषण इसी सारांश पर आधारित होगा। आगे बढ़ने से पहले कुछ भी सुधारें या जोड़ें।',
+    'interview.summary.complaint': 'मुख्य लक्षण',
+    'interview.summary.onset': 'शुरुआत',
+    'interview.summary.duration': 'अवधि',
+    'interview.summary.severity': 'गंभीरता',
+    'interview.summary.location': 'स्थान',
+    'interview.summary.associated': 'अन्य लक्षण',
+    'interview.summary.history': 'इतिहास',
+    'interview.startOver': 'फिर से शुरू करें',
+
+    // --- Vitals ---
+    'vitals.title': 'वाइटल्स (वैकल्पिक)',
+    'vitals.temperature': 'शरीर का तापमान',
+    'vitals.bloodPressure': 'रक्तचाप (mmHg)',
+    'vitals.systolic': 'सिस्टोलिक',
+    'vitals.diastolic': 'डायस्टोलिक',
+    'vitals.heartRate': 'हृदय गति (धड़कन/मिनट)',
+    'vitals.spo2': 'ऑक्सीजन सैचुरेशन (SpO₂ %)',
+    'vitals.respiratoryRate': 'साँस की दर (साँस/मिनट)',
+    'vitals.glucose': 'ब्लड ग्लूकोज़',
+    'vitals.glucoseTiming': 'कब मापा गया',
+    'vitals.glucose.random': 'रैंडम / खाने के बाद',
+    'vitals.glucose.fasting': 'खाली पेट',
+    'vitals.weight': 'वज़न',
+    'vitals.unit': 'इकाई',
+    'vitals.low': 'कम – सामान्य {range} है',
+    'vitals.high': 'अधिक – सामान्य {range} है',
+    'vitals.note': 'सामान्य सीमाएँ उम्र के अनुसार तय की गई हैं। इनसे बाहर की रीडिंग दोबारा मापने या डॉक्टर से जाँच कराने का कारण है, निदान नहीं।',
+
+    // --- History ---
+    'history.title': 'विश्लेषण इतिहास',
+    'history.subtitle': 'पिछले विश्लेषण, गणनाएँ और स्कैन, इसी डिवाइस पर सहेजे गए।',
+    'history.all': 'सभी',
+    'history.feature.assistant': 'लक्षण विश्लेषण',
+    'history.feature.calculator': 'कैलोरी गणना',
+    'history.feature.scanner': 'पर्चा स्कैन',
+    'history.feature.imaging': 'इमेजिंग रिपोर्ट',
+    'history.feature.biometric': 'बायोमेट्रिक विश्लेषण',
+    'history.feature.growth': 'विकास जाँच',
+    'history.empty': 'अभी कुछ सहेजा नहीं गया। विश्लेषण चलाने के बाद परिणाम यहाँ दिखेंगे।',
+    'history.view': 'परिणाम देखें',
+    'history.delete': 'हटाएँ',
+    'history.confirmDelete': 'यह प्रविष्टि हटाएँ? इसे वापस नहीं लाया जा सकता।',
+    'history.compare': 'तुलना के लिए चुनें',
+    'history.compareHint': 'दो प्रविष्टियाँ चुनें ताकि उनकी साथ-साथ तुलना हो सके।',
+    'history.compareSelected': 'चुनी हुई की तुलना करें ({count}/2)',
+    'history.compareTitle': 'विश्लेषणों की तुलना',
+    'history.inputs': 'इनपुट',
+    'history.result': 'परिणाम',
+    'history.fileName': 'फ़ाइल',
+    'history.back': '← इतिहास पर वापस',
+    'history.notFound': 'यह प्रविष्टि अब मौजूद नहीं है।',
+    'history.loadError': 'आपका इतिहास लोड नहीं हो सका।',
+    'history.deleteError': 'प्रविष्टि हटाई नहीं जा सकी।',
+
+    // --- Food diary ---
+    'diary.title': 'भोजन डायरी',
+    'diary.subtitle': 'जो खाते हैं उसे दर्ज करें और अपनी दैनिक कैलोरी व मैक्रो को लक्ष्य से मिलाएँ।',
+    'diary.view.day': 'दिन',
+    'diary.view.week': 'सप्ताह',
+    'diary.previous': '← पिछला',
+    'diary.next': 'अगला →',
+    'diary.date': 'तारीख',
+    'diary.dayTotals': 'आज का कुल',
+    'diary.addFood': 'भोजन जोड़ें',
+    'diary.meal': 'भोजन का समय',
+    'diary.meal.breakfast': 'नाश्ता',
+    'diary.meal.lunch': 'दोपहर का भोजन',
+    'diary.meal.dinner': 'रात का भोजन',
+    'diary.meal.snack': 'स्नैक',
+    'diary.whatDidYouEat': 'आपने क्या खाया?',
+    'diary.foodPlaceholder': 'जैसे 2 roti, 1 bowl dal and a banana',
+    'diary.add': 'डायरी में जोड़ें',
+    'diary.barcode': 'बारकोड नंबर',
+    'diary.servings': 'सर्विंग',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'बारकोड से जोड़ें',
+    'diary.barcodeInvalid': 'यह मान्य बारकोड नंबर नहीं है। पट्टियों के नीचे छपे अंक जाँचें।',
+    'diary.barcodeUnknown': 'यह उत्पाद अभी भोजन डेटाबेस में नहीं है।',
+    'diary.nothingRecognized': 'इनमें से कोई भोजन डेटाबेस में नहीं है। "roti" या "dal" जैसा सरल नाम आज़माएँ।',
+    'diary.unrecognized': 'भोजन डेटाबेस में नहीं, इसलिए नहीं जोड़ा गया: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · प्रोटीन {protein} g · कार्ब {carbs} g · वसा {fat} g',
+    'diary.deleteEntry': '{name} हटाएँ',
+    'diary.empty': 'इस दिन के लिए अभी कुछ दर्ज नहीं है।',
+    'diary.calories': 'कैलोरी',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'आज के लिए {value} kcal बाकी',
+    'diary.over': 'लक्ष्य से {value} kcal अधिक',
+    'diary.noTarget': 'आपका अभी कोई दैनिक लक्ष्य नहीं है।',
+    'diary.setTarget': 'कैलोरी कैलकुलेटर में एक चुनें →',
+    'diary.targetFrom': 'लक्ष्य: {goal}।',
+    'diary.changeTarget': 'बदलें',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'दिन',
+    'diary.vsTarget': 'लक्ष्य से अंतर',
+    'diary.notLogged': 'कुछ दर्ज नहीं',
+    'diary.daysLogged': 'दर्ज किए गए दिन',
+    'diary.daysLoggedValue': '{total} में से {count}',
+    'diary.average': 'दर्ज दिनों का औसत',
+    'diary.averageVsTarget': 'औसत बनाम लक्ष्य',
+    'diary.loadError': 'आपकी भोजन डायरी लोड नहीं हो सकी।',
+    'diary.saveError': 'भोजन डायरी में सहेजा नहीं जा सका।',
+    'diary.deleteError': 'प्रविष्टि हटाई नहीं जा सकी।',
+    'diary.photo.title': 'फ़ोटो से',
+    'diary.photo.hint': 'अपनी थाली की फ़ोटो लें; AI भोजन और मात्रा की सूची बनाएगा, जिसे दर्ज करने से पहले आप जाँच सकते हैं।',
+    'diary.photo.take': 'फ़ोटो लें या चुनें',
+    'diary.photo.preview': 'भोजन की फ़ोटो',
+    'diary.photo.recognize': 'भोजन पहचानें',
+    'diary.photo.discard': 'हटाएँ',
+    'diary.photo.reviewHint': 'हर भोजन और उसका वज़न जाँचें। पोषण डेटाबेस वाले भोजन उसके मान लेते हैं; बाकी AI का अनुमान।',
+    'diary.photo.food': 'भोजन',
+    'diary.photo.grams': 'ग्राम',
+    'diary.photo.fromDatabase': 'डेटाबेस',
+    'diary.photo.estimated': 'AI अनुमान',
+    'diary.photo.unknown': 'डेटाबेस में नहीं',
+    'diary.photo.addItem': 'आइटम जोड़ें',
+    'diary.photo.save': '{count} आइटम दर्ज करें',
+    'diary.photo.error': 'इस फ़ोटो में भोजन पहचाना नहीं जा सका।',
+    'diary.photo.saveError': 'भोजन की फ़ोटो सहेजी नहीं जा सकी।',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'भोजन योजनाकार',
+    'mealPlan.subtitle': 'आपके कैलोरी लक्ष्य, आहार, एलर्जी और दवाओं के अनुसार एक हफ़्ते का रोज़मर्रा का भारतीय भोजन, खरीदारी सूची के साथ।',
+    'mealPlan.calories': 'रोज़ की कैलोरी (kcal)',
+    'mealPlan.allergies': 'भोजन से एलर्जी',
+    'mealPlan.allergiesPlaceholder': 'जैसे मूँगफली, लैक्टोज़',
+    'mealPlan.targetFrom': 'आपका दैनिक लक्ष्य {calories} kcal है।',
+    'mealPlan.medications': 'अभी ली जा रही दवाएँ',
+    'mealPlan.medicationsPlaceholder': 'जैसे वारफ़रिन, एटोरवास्टेटिन',
+    'mealPlan.preferences': 'आहार',
+    'mealPlan.preference.vegetarian': 'शाकाहारी',
+    'mealPlan.preference.jain': 'जैन (प्याज़, लहसुन या कंद-मूल नहीं)',
+    'mealPlan.preference.diabetic': 'मधुमेह (अतिरिक्त चीनी नहीं)',
+    'mealPlan.preference.lowSodium': 'कम नमक',
+    'mealPlan.submit': 'भोजन योजना बनाएँ',
+    'mealPlan.caloriesRequired': 'दैनिक कैलोरी लक्ष्य दर्ज करें।',
+    'mealPlan.resultTitle': 'आपकी साप्ताहिक भोजन योजना',
+    'mealPlan.interactionsTitle': 'भोजन और दवा की परस्पर क्रियाएँ',
+    'mealPlan.column.medicine': 'दवा',
+    'mealPlan.column.food': 'भोजन',
+    'mealPlan.column.inPlan': 'इस योजना में',
+    'mealPlan.advice.avoid': 'छोड़ दिया गया',
+    'mealPlan.advice.separate': 'रखा गया; दवा कम से कम 2 घंटे के अंतर पर लें',
+    'mealPlan.component.meat': 'मांस',
+    'mealPlan.component.fish': 'मछली',
+    'mealPlan.component.egg': 'अंडा',
+    'mealPlan.component.dairy': 'दूध से बनी चीज़ें',
+    'mealPlan.component.wheat': 'गेहूँ',
+    'mealPlan.component.peanut': 'मूँगफली',
+    'mealPlan.component.treeNut': 'मेवे',
+    'mealPlan.component.onionGarlic': 'प्याज़ और लहसुन',
+    'mealPlan.component.rootVegetable': 'कंद-मूल',
+    'mealPlan.component.addedSugar': 'अतिरिक्त चीनी',
+    'mealPlan.component.highSodium': 'नमकीन चीज़ें',
+    'mealPlan.component.vitaminK': 'विटामिन K वाली हरी सब्ज़ियाँ',
+    'mealPlan.component.potassium': 'पोटैशियम वाले खाद्य',
+    'mealPlan.component.grapefruit': 'चकोतरा (ग्रेपफ़्रूट)',
+    'mealPlan.unplanned': 'इनके लिए आपकी पसंद से कोई व्यंजन मेल नहीं खाता: {meals}। इन्हें स्वयं तय करें।',
+    'mealPlan.dayMacros': 'प्रोटीन {protein} ग्रा · कार्ब्स {carbs} ग्रा · वसा {fat} ग्रा',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} ग्रा)',
+    'mealPlan.shoppingTitle': 'खरीदारी सूची',
+    'mealPlan.shoppingNote': 'मात्राएँ पूरे हफ़्ते के पके व्यंजनों की हैं; इनकी सामग्री खरीदें।',
+    'mealPlan.another': 'दूसरी योजना देखें',
+    'mealPlan.download': 'खरीदारी सूची डाउनलोड करें',
+    'mealPlan.disclaimer': 'मात्राएँ मानक खाद्य तालिकाओं से अनुमानित हैं। किसी बीमारी के लिए आहार बदलने से पहले डॉक्टर या आहार विशेषज्ञ से पूछें।',
+
+    // --- Body measurements ---
+    'body.title': 'वज़न और शरीर के माप',
+    'body.date': 'तारीख़',
+    'body.weight': 'वज़न (kg)',
+    'body.waist': 'कमर (cm)',
+    'body.bodyFat': 'शरीर में वसा (%)',
+    'body.add': 'माप जोड़ें',
+    'body.valueRequired': 'कम से कम एक माप दर्ज करें।',
+    'body.show': 'दिखाएँ',
+    'body.measure.weight': 'वज़न',
+    'body.measure.waist': 'कमर',
+    'body.measure.bodyFat': 'शरीर में वसा',
+    'body.empty': 'अभी कोई माप नहीं।',
+    'body.chartLabel': 'समय के साथ {measure}',
+    'body.legend': 'बिंदु माप हैं; रेखा {days} दिन का औसत है।',
+    'body.current': 'रुझान वज़न: {value} kg',
+    'body.rate': 'पिछले 4 हफ़्तों में {rate} kg प्रति हफ़्ता',
+    'body.tooFast': 'आप हर हफ़्ते लगभग {rate} kg घटा रहे हैं, जो बिना डॉक्टरी निगरानी के सुरक्षित {limit} kg प्रति हफ़्ते से तेज़ है। थोड़ा अधिक खाएँ, और यदि आप वज़न घटाने की कोशिश नहीं कर रहे तो डॉक्टर से मिलें।',
+    'body.noGoal': 'यह देखने के लिए कि लक्ष्य कब पूरा होगा, अपनी स्वास्थ्य प्रोफ़ाइल में लक्ष्य वज़न जोड़ें।',
+    'body.projection': 'आपके कैलोरी लक्ष्य पर आप लगभग {date} तक {goal} kg तक पहुँचेंगे, यानी {rate} kg प्रति हफ़्ते पर लगभग {weeks} हफ़्तों में।',
+    'body.goalReached': 'आप अपने लक्ष्य वज़न {goal} kg तक पहुँच गए हैं।',
+    'body.noTarget': 'लक्ष्य की तारीख़ के लिए कैलोरी कैलकुलेटर से दैनिक लक्ष्य चाहिए।',
+    'body.wrongDirection': 'आपका कैलोरी लक्ष्य आपके वज़न को लक्ष्य की ओर नहीं ले जाएगा।',
+    'body.loadError': 'आपके शरीर के माप लोड नहीं हो सके।',
+    'body.saveError': 'माप सहेजा नहीं जा सका।',
+    'body.deleteError': 'माप हटाया नहीं जा सका।',
+
+    // --- Growth charts ---
+    'growth.title': 'विकास चार्ट',
+    'growth.subtitle': 'जन्म से 19 वर्ष तक, बच्चे के वज़न, लंबाई और BMI की तुलना WHO विकास संदर्भों से करें।',
+    'growth.birthDate': 'जन्म तिथि',
+    'growth.measuredOn': 'मापने की तारीख़',
+    'growth.height': 'लंबाई या ऊँचाई (cm)',
+    'growth.heightNote': '2 वर्ष से पहले लिटाकर लंबाई और उसके बाद खड़े करके ऊँचाई मापें।',
+    'growth.submit': 'विकास जाँचें',
+    'growth.valueRequired': 'वज़न, ऊँचाई या दोनों दर्ज करें।',
+    'growth.dateOrder': 'मापने की तारीख़ जन्म तिथि के बाद होनी चाहिए।',
+    'growth.tooOld': 'विकास संदर्भ 19 वर्ष तक के बच्चों के लिए हैं। वयस्कों के लिए कैलोरी कैलकुलेटर और शरीर के माप का उपयोग करें।',
+    'growth.resultTitle': 'विकास पर्सेंटाइल',
+    'growth.ageYears': 'उम्र: {years} वर्ष {months} महीने',
+    'growth.ageMonths': 'उम्र: {months} महीने',
+    'growth.column.indicator': 'माप',
+    'growth.column.value': 'मान',
+    'growth.column.zScore': 'Z-स्कोर',
+    'growth.column.percentile': 'पर्सेंटाइल',
+    'growth.column.status': 'आकलन',
+    'growth.indicator.weight': 'उम्र के अनुसार वज़न',
+    'growth.indicator.height': 'उम्र के अनुसार ऊँचाई',
+    'growth.indicator.bmi': 'उम्र के अनुसार BMI',
+    'growth.status.normal': 'सामान्य सीमा में',
+    'growth.status.severelyUnderweight': 'गंभीर रूप से कम वज़न',
+    'growth.status.underweight': 'कम वज़न',
+    'growth.status.aboveRange': 'सामान्य सीमा से ऊपर; उम्र के अनुसार BMI देखें',
+    'growth.status.severelyStunted': 'गंभीर रूप से ठिगनापन',
+    'growth.status.stunted': 'ठिगनापन',
+    'growth.status.veryTall': 'बहुत लंबा',
+    'growth.status.severelyWasted': 'गंभीर दुबलापन (wasting)',
+    'growth.status.wasted': 'दुबलापन (wasting)',
+    'growth.status.overweightRisk': 'अधिक वज़न का संभावित जोखिम',
+    'growth.status.severeThinness': 'गंभीर पतलापन',
+    'growth.status.thinness': 'पतलापन',
+    'growth.status.overweight': 'अधिक वज़न',
+    'growth.status.obese': 'मोटापा',
+    'growth.noWeightForAge': 'WHO संदर्भ में 10 वर्ष के बाद उम्र के अनुसार वज़न नहीं है; इसके बजाय उम्र के अनुसार BMI का उपयोग होता है।',
+    'growth.reference': 'WHO बाल विकास मानकों (5 वर्ष से कम) और WHO विकास संदर्भ (5–19 वर्ष) से तुलना। 3वें–97वें पर्सेंटाइल से बाहर का माप, या समय के साथ बच्चे का पर्सेंटाइल रेखाएँ पार करना, बाल रोग विशेषज्ञ से चर्चा योग्य है।',
+    'growth.chartLabel': '{indicator} विकास चार्ट',
+    'growth.legend': 'रेखाएँ 3वाँ, 15वाँ, 50वाँ, 85वाँ और 97वाँ पर्सेंटाइल हैं। बिंदु इस बच्चे के माप हैं, जिनमें उसी जन्म तिथि के साथ सहेजे गए पुराने माप भी शामिल हैं।',
+    'growth.axisMonths': '{months} मा',
+    'growth.axisYears': '{years} व',
+    'growth.openCalculator': 'इस बच्चे की दैनिक ऊर्जा आवश्यकता निकालें →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'ज्ञात परस्पर क्रियाएँ',
+    'interactions.none': 'पहचानी गई दवाओं के बीच संदर्भ सूची में कोई परस्पर क्रिया नहीं है।',
+    'interactions.unrecognized': 'संदर्भ सूची में नहीं, इसलिए जाँची नहीं गईं: {names}',
+    'interactions.reference': 'इस डिवाइस पर जानी-मानी परस्पर क्रियाओं की अंतर्निहित सूची से जाँचा गया। यह सूची पूरी नहीं है, इसलिए दवाएँ शुरू करने, बंद करने या साथ लेने से पहले डॉक्टर या फ़ार्मासिस्ट से पूछें।',
+    'interactions.column.medicines': 'दवाएँ',
+    'interactions.column.severity': 'गंभीरता',
+    'interactions.column.effect': 'क्या हो सकता है',
+    'interactions.effect.bleeding': 'रक्तस्राव का अधिक जोखिम',
+    'interactions.effect.serotoninSyndrome': 'सेरोटोनिन सिंड्रोम का जोखिम (बेचैनी, बुखार, कंपन)',
+    'interactions.effect.respiratoryDepression': 'अत्यधिक सुस्ती और धीमी साँस',
+    'interactions.effect.myopathy': 'मांसपेशियों को नुकसान (मांसपेशियों में दर्द या कमज़ोरी)',
+    'interactions.effect.toxicity': 'दवा का स्तर और दुष्प्रभाव बढ़ना',
+    'interactions.effect.hyperkalemia': 'पोटैशियम का उच्च स्तर',
+    'interactions.effect.kidneyInjury': 'गुर्दे को नुकसान',
+    'interactions.effect.qtProlongation': 'असामान्य हृदय गति (QT लंबा होना)',
+    'interactions.effect.bradycardia': 'बहुत धीमी हृदय गति',
+    'interactions.effect.hypotension': 'ख़तरनाक रूप से कम रक्तचाप',
+    'interactions.effect.reducedAbsorption': 'एक दवा कम अवशोषित होती है; इन्हें कुछ घंटों के अंतर पर लें',
+    'interactions.effect.reducedEffect': 'एक दवा कम असर कर सकती है',
+    'interactions.effect.hypoglycemia': 'कम रक्त शर्करा',
+    'interactions.warningTitle': 'यह आपकी मौजूदा दवाओं के साथ परस्पर क्रिया कर सकती है',
+    'interactions.addAnyway': 'फिर भी जोड़ें',
+    'interactions.orderAnyway': 'फिर भी ऑर्डर करें',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'गोली',
+    'drugs.form.capsule': 'कैप्सूल',
+    'drugs.form.syrup': 'सिरप',
+    'drugs.form.suspension': 'सस्पेंशन',
+    'drugs.form.drops': 'ड्रॉप्स',
+    'drugs.form.eyeDrops': 'आँख की ड्रॉप्स',
+    'drugs.form.nasalSpray': 'नाक का स्प्रे',
+    'drugs.form.inhaler': 'इनहेलर',
+    'drugs.form.injection': 'इंजेक्शन',
+    'drugs.form.cream': 'क्रीम',
+    'drugs.form.ointment': 'मरहम',
+    'drugs.form.gel': 'जेल',
+    'drugs.form.sachet': 'पाउच',
+    'drugs.column.written': 'जैसा लिखा है',
+    'drugs.column.medicine': 'दवा',
+    'drugs.confidence': '{percent}% मेल',
+    'drugs.lowConfidence': '{percent}% मेल – इसे जाँचें',
+    'drugs.alternatives': 'यह भी हो सकता है: {names}',
+    'drugs.unmatched': 'दवा शब्दकोश में नहीं मिला',
+    'drugs.note': 'नाम इसी डिवाइस पर आम ब्रांड और जेनेरिक दवाओं के साथ आए शब्दकोश से मिलाए जाते हैं। हर एक को पैक या पर्चे से जाँचें; रिमाइंडर और ऑर्डर में केवल पक्के मेल ही नाम से इस्तेमाल होते हैं।',
+
+    // --- Red-flag triage ---
+    'triage.title': 'यह एक चिकित्सा आपातकाल हो सकता है',
+    'triage.message': 'आपने जो बताया है उसके आधार पर, AI के उत्तर की प्रतीक्षा करने के बजाय अभी आपातकालीन सहायता लें।',
+    'triage.reason.cardiac': 'सीने में दर्द या दबाव दिल के दौरे का संकेत हो सकता है।',
+    'triage.reason.breathing': 'सांस लेने में गंभीर कठिनाई के लिए तुरंत देखभाल ज़रूरी है।',
+    'triage.reason.stroke': 'अचानक कमज़ोरी, चेहरे का लटकना, लड़खड़ाती बोली या अचानक तेज़ सिरदर्द स्ट्रोक के संकेत हो सकते हैं।',
+    'triage.reason.selfHarm': 'आपने खुद को नुकसान पहुँचाने के विचारों का ज़िक्र किया है। आप अकेले नहीं हैं, प्रशिक्षित परामर्शदाता अभी उपलब्ध हैं।',
+    'triage.reason.bleeding': 'ज़्यादा या न रुकने वाले रक्तस्राव के लिए तुरंत देखभाल ज़रूरी है।',
+    'triage.reason.consciousness': 'बेहोशी, दौरे या प्रतिक्रिया न देने पर तुरंत देखभाल ज़रूरी है।',
+    'triage.reason.allergy': 'गले, जीभ या चेहरे की सूजन गंभीर एलर्जी प्रतिक्रिया हो सकती है।',
+    'triage.reason.highFever': '40 °C या उससे अधिक तापमान के लिए तुरंत देखभाल ज़रूरी है।',
+    'triage.reason.infantFever': 'एक साल से कम उम्र के बच्चे के बुखार की डॉक्टर से तुरंत जाँच करानी चाहिए।',
+    'triage.reason.hypothermia': '35 °C से कम शरीर के तापमान के लिए तुरंत देखभाल ज़रूरी है।',
+    'triage.reason.meningitis': 'बुखार के साथ गर्दन में अकड़न मेनिन्जाइटिस का संकेत हो सकती है।',
+    'triage.call': '{number} पर कॉल करें',
+    'triage.number.emergency': 'सभी आपात स्थितियाँ',
+    'triage.number.ambulance': 'एम्बुलेंस',
+    'triage.number.mentalHealth': 'टेली-मानस मानसिक स्वास्थ्य हेल्पलाइन',
+    'triage.findEmergency': '24/7 आपातकालीन सेवा खोजें',
+    'triage.continue': 'मैं समझता/समझती हूँ, फिर भी जारी रखें',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'क्या भेजा जाएगा',
+    'privacy.hiddenCount': 'छिपाए गए निजी विवरण: {count}',
+    'privacy.previewNote': 'केवल नीचे दिया गया टेक्स्ट इस डिवाइस से बाहर जाता है। छिपाए गए विवरण इसी डिवाइस पर उत्तर में वापस जोड़ दिए जाते हैं।',
+    'privacy.removed': 'हटाया गया',
+    'privacy.type.name': 'नाम',
+    'privacy.type.phone': 'फ़ोन नंबर',
+    'privacy.type.email': 'ई-मेल',
+    'privacy.type.address': 'पता',
+    'privacy.type.id': 'पहचान संख्या',
+    'privacy.type.dob': 'जन्म तिथि',
+    'privacy.imageNote': 'यह छवि जैसी दिख रही है वैसी ही भेजी जाएगी। पहले नाम, पते या पहचान संख्या पर खींचकर उन्हें ढक दें।',
+    'privacy.undoCover': 'पिछला आवरण हटाएँ',
+    'privacy.clearCovers': 'सभी आवरण हटाएँ',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'कैलोरी काउंटर',
+    'calculator.subtitle': 'अपनी आयु, लिंग, गतिविधि स्तर और शारीरिक माप के आधार पर दैनिक कैलोरी ज़रूरतों का अनुमान लगाएँ।',
+    'calculator.age': 'आयु',
+    'calculator.gender': 'लिंग',
+    'calculator.male': 'पुरुष',
+    'calculator.female': 'महिला',
+    'calculator.weight': 'वज़न (kg)',
+    'calculator.height': 'लंबाई (cm)',
+    'calculator.activity': 'गतिविधि स्तर',
+    'calculator.activity.sedentary': 'निष्क्रिय (बहुत कम या कोई व्यायाम नहीं)',
+    'calculator.activity.light': 'हल्का सक्रिय (हल्का व्यायाम/खेल सप्ताह में 1-3 दिन)',
+    'calculator.activity.moderate': 'मध्यम सक्रिय (मध्यम व्यायाम/खेल सप्ताह में 3-5 दिन)',
+    'calculator.activity.active': 'बहुत सक्रिय (कठिन व्यायाम/खेल सप्ताह में 6-7 दिन)',
+    'calculator.activity.extra': 'अत्यधिक सक्रिय (बहुत कठिन व्यायाम/शारीरिक श्रम वाला काम)',
+    'calculator.submit': 'कैलोरी की गणना करें',
+    'calculator.resultTitle': 'कैलोरी ज़रूरतें',
+    'calculator.units': 'इकाइयाँ',
+    'calculator.units.metric': 'मीट्रिक (kg, cm)',
+    'calculator.units.imperial': 'इंपीरियल (lb, ft/in)',
+    'calculator.weightLb': 'वज़न (lb)',
+    'calculator.heightImperial': 'लंबाई (ft, in)',
+    'calculator.feet': 'फ़ुट',
+    'calculator.inches': 'इंच',
+    'calculator.bodyFat': 'शरीर में वसा (%)',
+    'calculator.bodyFatRequired': 'कैच-मैकआर्डल के लिए शरीर में वसा का प्रतिशत चाहिए।',
+    'calculator.formula': 'BMR सूत्र',
+    'calculator.formula.mifflin': 'मिफ़्लिन-सेंट जेओर',
+    'calculator.formula.harris': 'हैरिस-बेनेडिक्ट (संशोधित)',
+    'calculator.formula.katch': 'कैच-मैकआर्डल (शरीर की वसा से)',
+    'calculator.formula.child': 'बच्चों की ऊर्जा आवश्यकता (IOM)',
+    'calculator.formulaUsed': '{formula} समीकरण से गणना की गई।',
+    'calculator.bmr': 'बेसल मेटाबॉलिक रेट (BMR)',
+    'calculator.tdee': 'दैनिक ऊर्जा व्यय (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/दिन',
+    'calculator.column.goal': 'लक्ष्य',
+    'calculator.column.calories': 'kcal/दिन',
+    'calculator.column.protein': 'प्रोटीन',
+    'calculator.column.carbs': 'कार्बोहाइड्रेट',
+    'calculator.column.fat': 'वसा',
+    'calculator.goal.lose-fast': '0.5 kg/सप्ताह घटाएँ',
+    'calculator.goal.lose': '0.25 kg/सप्ताह घटाएँ',
+    'calculator.goal.maintain': 'वज़न बनाए रखें',
+    'calculator.goal.gain': '0.25 kg/सप्ताह बढ़ाएँ',
+    'calculator.goal.gain-fast': '0.5 kg/सप्ताह बढ़ाएँ',
+    'calculator.goal.growth': 'स्वस्थ विकास',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'चिकित्सकीय देखरेख के बिना सुझाए गए न्यूनतम दैनिक सेवन तक बढ़ाया गया।',
+    'calculator.macroNote': 'प्रोटीन शरीर के वज़न के प्रति kg तय है, वसा कैलोरी का 25% और बाकी कार्बोहाइड्रेट से।',
+    'calculator.childFormulaUsed': 'दैनिक ऊर्जा आवश्यकता बच्चों के लिए Institute of Medicine समीकरणों से, जिसमें विकास में लगने वाली ऊर्जा शामिल है; BMR Schofield समीकरणों से।',
+    'calculator.childMacroNote': 'प्रोटीन बच्चे की उम्र के लिए सुझाई गई मात्रा प्रति kg पर, वसा उम्र के अनुसार कैलोरी का 30–45% और बाकी कार्बोहाइड्रेट से।',
+    'calculator.childNote': '19 वर्ष से कम उम्र के लिए कैलकुलेटर बच्चों की ऊर्जा आवश्यकता का उपयोग करता है, जिसमें विकास की ऊर्जा शामिल है, और वज़न घटाने के लक्ष्य नहीं देता। शिशु की उम्र वर्ष के भाग में लिखें, जैसे छह महीने के लिए 0.5। बच्चे के वज़न को लेकर किसी भी चिंता पर बाल रोग विशेषज्ञ से बात करें।',
+    'calculator.openGrowth': 'विकास पर्सेंटाइल देखें →',
+    'calculator.commentary': 'AI टिप्पणी लें',
+    'calculator.commentaryTitle': 'टिप्पणी',
+    'calculator.commentaryError': 'इन आँकड़ों पर टिप्पणी नहीं मिल सकी।',
+    'calculator.useAsTarget': 'डायरी लक्ष्य बनाएँ',
+    'calculator.targetSet': 'डायरी लक्ष्य ✓',
+    'calculator.targetError': 'डायरी लक्ष्य सहेजा नहीं जा सका।',
+    'calculator.openDiary': 'भोजन डायरी खोलें →',
+    'calculator.openMealPlan': 'एक हफ़्ते का भोजन तय करें →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'पर्चा स्कैनर',
+    'scanner.subtitle': 'पाठ निकालने और दवाओं की पहचान के लिए अपने पर्चे की फ़ोटो अपलोड करें।',
+    'scanner.upload': 'फ़ोटो या PDF जोड़ने के लिए क्लिक करें',
+    'scanner.formats': 'PNG, JPG या PDF। एक से अधिक पन्नों वाले पर्चे के लिए कई जोड़ें।',
+    'scanner.preview': 'पर्चे का पूर्वावलोकन',
+    'scanner.resultTitle': 'स्कैन परिणाम',
+    'scanner.extractedText': 'निकाला गया पाठ',
+    'scanner.speakText': 'निकाला गया पाठ: {text}',
+    'scanner.noText': 'कोई पाठ नहीं मिला।',
+    'scanner.copy': 'पाठ कॉपी करें',
+    'scanner.copied': 'क्लिपबोर्ड पर कॉपी हो गया!',
+    'scanner.medications': 'पहचानी गई दवाएँ',
+    'scanner.orderMedicines': 'ये दवाएँ ऑर्डर करें',
+    'scanner.error': 'पर्चा स्कैन नहीं हो सका।',
+    'scanner.scan': 'पर्चा स्कैन करें',
+    'scanner.camera': 'कैमरा इस्तेमाल करें',
+    'scanner.cameraView': 'कैमरा दृश्य',
+    'scanner.cameraHint': 'पन्ने को फ़्रेम के अंदर रखें, फिर कैप्चर करें। हर पन्ना बारी-बारी से कैप्चर करें।',
+    'scanner.capture': 'पन्ना {number} कैप्चर करें',
+    'scanner.cameraDone': 'हो गया',
+    'scanner.cameraError': 'कैमरा नहीं खुल सका। जाँचें कि कैमरे की अनुमति दी गई है।',
+    'scanner.page': 'पन्ना {number}',
+    'scanner.moveEarlier': 'पन्ना {number} पहले करें',
+    'scanner.removePage': 'हटाएँ',
+    'scanner.pdfNote': '{name} जैसा है वैसा भेजा जाता है, इसलिए PDF में जानकारी छिपाई नहीं जा सकती। PDF बनाने से पहले नाम और पते छिपाएँ, या पन्नों की फ़ोटो लें।',
+    'scanner.unsupported': '{names}: केवल छवियाँ और PDF स्कैन किए जा सकते हैं।',
+    'scanner.readError': 'चुनी गई फ़ाइलें पढ़ी नहीं जा सकीं।',
+    'scanner.tooLarge': 'ये पन्ने एक साथ भेजने के लिए बहुत बड़े हैं। कोई पन्ना हटाएँ या छोटी फ़ोटो इस्तेमाल करें।',
+    'scanner.cleanUp': 'फ़ोटो साफ़ करें: पन्ने तक काटें, सीधा करें और रोशनी एक-सी करें',
+    'scanner.before': 'मूल',
+    'scanner.after': 'साफ़ की गई, जैसी भेजी जाएगी',
+    'scanner.original': 'मूल फ़ोटो',
+    'scanner.cropHint': 'कोनों को कागज़ के किनारों पर खींचें। काट बदलने से इस पन्ने पर लगे ढक्कन हट जाते हैं।',
+    'scanner.detectPage': 'पन्ना फिर से खोजें',
+    'scanner.wholePhoto': 'पूरी फ़ोटो इस्तेमाल करें',
+    'scanner.cornerTopLeft': 'ऊपरी बायाँ कोना',
+    'scanner.cornerTopRight': 'ऊपरी दायाँ कोना',
+    'scanner.cornerBottomRight': 'निचला दायाँ कोना',
+    'scanner.cornerBottomLeft': 'निचला बायाँ कोना',
+    'scanner.preparing': 'पन्ने तैयार हो रहे हैं…',
+    'scanner.cleanUpError': 'यह फ़ोटो साफ़ नहीं की जा सकी। कोई दूसरी काट आज़माएँ, या इसे जैसी है वैसी भेजें।',
+    'scanner.schedule': 'खुराक की समय-सारणी',
+    'scanner.startDate': 'कोर्स का पहला दिन',
+    'scanner.remindersNote': 'रिमाइंडर सुबह 08:00, दोपहर 14:00, शाम 18:00 और रात 21:00 बजे के लिए लगते हैं, और हर कोर्स के अंत में बंद हो जाते हैं।',
+    'scanner.noSchedule': 'इनमें से किसी दवा की नियमित समय-सारणी नहीं है जिसके लिए रिमाइंडर लगाए जा सकें।',
+    'scanner.unscheduled': '{names} के लिए कोई रिमाइंडर नहीं, क्योंकि ये केवल ज़रूरत पड़ने पर, एक बार, या ऐसी समय-सारणी पर ली जाती हैं जो पढ़ी नहीं जा सकी।',
+    'scanner.createReminders': '{count} रिमाइंडर बनाएँ',
+    'scanner.remindersCreated': '{count} रिमाइंडर बनाए गए।',
+    'scanner.openReminders': 'रिमाइंडर देखें →',
+    'scanner.remindersError': 'रिमाइंडर नहीं बनाए जा सके।',
+    'scanner.review.title': 'जो पढ़ा गया उसे जाँचें',
+    'scanner.review.hint': 'हर दवा को पर्चे से मिलाएँ और जो गलत पढ़ा गया हो उसे ठीक करें। पेज पर किसी बॉक्स को चुनकर उसकी दवा पर जाएँ। पुष्टि करने तक कुछ भी रिमाइंडर, मिलान या ऑर्डर के लिए इस्तेमाल नहीं होता।',
+    'scanner.review.prescriber': 'पर्चा लिखने वाले डॉक्टर',
+    'scanner.review.date': 'पर्चे की तारीख',
+    'scanner.review.unreadDate': '"{date}" पढ़ा गया – तारीख चुनें',
+    'scanner.review.medicine': 'दवा {number}',
+    'scanner.review.field.name': 'नाम',
+    'scanner.review.field.strength': 'शक्ति',
+    'scanner.review.field.form': 'रूप',
+    'scanner.review.field.dose': 'खुराक',
+    'scanner.review.field.frequency': 'कितनी बार',
+    'scanner.review.field.duration': 'कितने दिन',
+    'scanner.review.field.route': 'तरीका',
+    'scanner.review.field.instructions': 'निर्देश',
+    'scanner.review.check': 'इसे जाँचें',
+    'scanner.review.region': 'दवा {number}: {name}',
+    'scanner.review.pdfNote': 'हर दवा कहाँ लिखी है, यह सिर्फ़ फ़ोटो पर दिखाया जा सकता है, PDF पर नहीं।',
+    'scanner.review.addMedicine': 'दवा जोड़ें',
+    'scanner.review.removeMedicine': 'दवा {number} हटाएँ',
+    'scanner.review.toCheck': 'चिह्नित {count} हिस्से पढ़ने में कठिन थे या समझे नहीं जा सके।',
+    'scanner.review.confirm': 'पुष्टि करें',
+    'scanner.review.saveError': 'जाँचा गया स्कैन सहेजा नहीं जा सका।',
+    'scanner.review.confirmed': 'आपने यह पढ़ाई पर्चे से मिलाकर जाँची है।',
+    'scanner.review.edit': 'बदलें',
+    'scanner.review.unconfirmed': 'यह पढ़ाई पर्चे से मिलाकर नहीं जाँची गई।',
+    'prescription.column.medicine': 'दवा',
+    'prescription.column.dose': 'खुराक',
+    'prescription.column.frequency': 'कितनी बार',
+    'prescription.column.duration': 'कितने दिन',
+    'prescription.column.route': 'लेने का तरीका',
+    'prescription.column.instructions': 'निर्देश',
+    'prescription.at': '{times} बजे',
+    'prescription.everyDays': 'हर {days} दिन में {times} बजे',
+    'prescription.asNeeded': 'केवल ज़रूरत पड़ने पर',
+    'prescription.once': 'तुरंत एक खुराक',
+    'prescription.days': '{days} दिन',
+    'prescription.ongoing': 'जारी रखें',
+    'prescription.unread': 'पहचाना नहीं गया',
+    'prescription.prescriber': 'डॉक्टर: {name}',
+    'prescription.date': 'दिनांक {date}',
+    'prescription.note': 'कितनी बार और कितने दिन, पर्चे के संक्षिप्त रूपों से पढ़े जाते हैं; जैसे 1-0-1 का अर्थ सुबह और रात, और 5/7 का अर्थ पाँच दिन। इन्हें पर्चे से मिलाएँ, और कुछ भी अस्पष्ट हो तो अपने डॉक्टर या फ़ार्मासिस्ट से पूछें।',
+    'prescription.route.oral': 'मुँह से',
+    'prescription.route.sublingual': 'जीभ के नीचे',
+    'prescription.route.topical': 'त्वचा पर',
+    'prescription.route.eye': 'आँख में',
+    'prescription.route.ear': 'कान में',
+    'prescription.route.nasal': 'नाक में',
+    'prescription.route.inhaled': 'साँस से',
+    'prescription.route.injection': 'इंजेक्शन',
+    'prescription.route.rectal': 'गुदा मार्ग से',
+    'prescription.route.vaginal': 'योनि मार्ग से',
+    'prescription.food.beforeFood': 'खाने से पहले',
+    'prescription.food.afterFood': 'खाने के बाद',
+    'prescription.food.withFood': 'खाने के साथ',
+
+    // --- Hospitals ---
+    'hospitals.title': 'नज़दीकी अस्पताल',
+    'hospitals.subtitle': 'अपने क्षेत्र में स्वास्थ्य केंद्र खोजें और सीधे अपॉइंटमेंट बुक करें।',
+    'hospitals.location': 'अपना शहर या पता दर्ज करें',
+    'hospitals.search': 'खोजें',
+    'hospitals.resultsFor': '{location} के पास अस्पताल',
+    'hospitals.viewMap': 'मानचित्र देखें',
+    'hospitals.book': 'अपॉइंटमेंट बुक करें',
+    'hospitals.sources': 'स्रोत:',
+    'hospitals.notInSearch': 'हमें आपकी हाल की खोज में वह अस्पताल नहीं मिला। अपॉइंटमेंट बुक करने के लिए कृपया फिर से खोजें।',
+    'hospitals.backToSearch': 'खोज पर वापस जाएँ',
+    'hospitals.bookAt': '{name} में अपॉइंटमेंट बुक करें',
+    'hospitals.date': 'तारीख चुनें',
+    'hospitals.time': 'समय स्लॉट चुनें',
+    'hospitals.cancel': 'रद्द करें',
+    'hospitals.confirm': 'बुकिंग की पुष्टि करें',
+    'hospitals.confirmed': '{hospital} में {date} को {time} बजे आपका अपॉइंटमेंट पक्का हो गया है।',
+    'hospitals.confirmationNumber': 'आपका पुष्टि नंबर:',
+    'hospitals.setReminder': 'रिमाइंडर सेट करें (24 घंटे पहले)',
+    'hospitals.reminderSet': 'रिमाइंडर सेट हो गया!',
+    'hospitals.reminderMessage': 'रिमाइंडर: कल {time} बजे {hospital} में आपका अपॉइंटमेंट है।',
+    'hospitals.reminderTooLate': 'अपॉइंटमेंट में 24 घंटे से कम समय बचा है। बीते समय के लिए रिमाइंडर सेट नहीं किया जा सकता।',
+    'hospitals.searchError': 'अस्पताल नहीं मिल सके।',
+    'hospitals.bookingError': 'अपॉइंटमेंट बुक नहीं हो सका।',
+    'hospitals.emergencyOnly': '24/7 आपातकालीन विभाग वाले अस्पताल दिखाए जा रहे हैं।',
+    'hospitals.showAll': 'सभी अस्पताल दिखाएँ',
+    'hospitals.emergencyBadge': '24/7 आपातकालीन',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'दवा डिलीवरी',
+    'delivery.subtitle': 'अपनी दवाएँ ऑनलाइन ऑर्डर करें और घर पर पाएँ।',
+    'delivery.address': 'डिलीवरी का पता',
+    'delivery.medications': 'दवाएँ (अल्पविराम से अलग करें)',
+    'delivery.medicationsPlaceholder': 'जैसे, पैरासिटामोल 500mg, विटामिन C',
+    'delivery.prescription': 'पर्चा अपलोड करें (वैकल्पिक)',
+    'delivery.submit': 'ऑर्डर करें',
+    'delivery.resultTitle': 'ऑर्डर की पुष्टि',
+
+    // --- Profile ---
+    'profile.welcome': 'स्वागत है, {name}',
+    'profile.subtitle': 'अपनी स्वास्थ्य प्रोफ़ाइल, दवाएँ और रिमाइंडर प्रबंधित करें। ये केवल इसी डिवाइस पर एन्क्रिप्ट करके रखे जाते हैं।',
+    'profile.healthProfile': 'स्वास्थ्य प्रोफ़ाइल',
+    'profile.name': 'नाम',
+    'profile.age': 'आयु',
+    'profile.sex': 'लिंग',
+    'profile.sex.unspecified': 'बताना नहीं चाहते',
+    'profile.sex.female': 'महिला',
+    'profile.sex.male': 'पुरुष',
+    'profile.sex.other': 'अन्य',
+    'profile.height': 'लंबाई (cm)',
+    'profile.weight': 'वज़न (kg)',
+    'profile.goalWeight': 'लक्ष्य वज़न (kg)',
+    'profile.allergies': 'एलर्जी (अल्पविराम से अलग करें)',
+    'profile.conditions': 'बीमारियाँ (अल्पविराम से अलग करें)',
+    'profile.save': 'प्रोफ़ाइल सहेजें',
+    'profile.saved': 'सहेजा गया',
+    'profile.medications': 'वर्तमान दवाएँ',
+    'profile.medication': 'दवा',
+    'profile.dosage': 'खुराक',
+    'profile.dosagePlaceholder': 'जैसे, 500 mg दिन में दो बार',
+    'profile.addMedication': 'दवा जोड़ें',
+    'profile.remove': 'हटाएँ',
+    'profile.addReminderTitle': 'दवा रिमाइंडर जोड़ें',
+    'profile.reminderName': 'दवा का नाम',
+    'profile.reminderTime': 'समय',
+    'profile.addReminder': 'रिमाइंडर जोड़ें',
+    'profile.activeReminders': 'सक्रिय रिमाइंडर',
+    'profile.scheduledFor': 'रोज़ {time} बजे निर्धारित',
+    'profile.scheduledEvery': 'हर {days} दिन में {time} बजे निर्धारित',
+    'profile.reminderDose': 'खुराक: {dose}',
+    'profile.courseDates': '{start} से {end} तक',
+    'profile.courseFrom': '{start} से',
+    'profile.courseEnded': 'कोर्स {end} को पूरा हुआ',
+    'profile.delete': 'हटाएँ',
+    'profile.noReminders': 'आपके पास कोई सक्रिय रिमाइंडर नहीं है।',
+    'profile.reminderAlert': 'आपकी {name} लेने का समय हो गया है!',
+    'profile.appointments': 'अपॉइंटमेंट',
+    'profile.appointmentDetails': '{date} को {time} बजे · पुष्टि {number}',
+    'profile.noAppointments': 'आपका कोई अपॉइंटमेंट बुक नहीं है।',
+    'profile.loadError': 'आपके स्वास्थ्य रिकॉर्ड लोड नहीं हो सके। कृपया बाद में फिर से प्रयास करें।',
+    'profile.saveError': 'आपके बदलाव सहेजे नहीं जा सके। कृपया फिर से प्रयास करें।',
+    'profile.saveProfileError': 'आपकी प्रोफ़ाइल सहेजी नहीं जा सकी। कृपया फिर से प्रयास करें।',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'बायोमेट्रिक स्कैन',
+    'biometric.subtitle': 'लंबाई और शरीर के तापमान के रीयल-टाइम अनुमान के लिए अपने कैमरे का उपयोग करें।',
+    'biometric.start': 'बायोमेट्रिक विश्लेषण शुरू करें',
+    'biometric.proceed': 'चिकित्सा विश्लेषण पर आगे बढ़ें?',
+    'biometric.no': 'नहीं',
+    'biometric.yes': 'हाँ',
+    'biometric.analysisTitle': 'चिकित्सा विश्लेषण',
+    'biometric.analysisSubtitle': 'बायोमेट्रिक स्कैन पर आधारित अंतिम विश्लेषण के लिए अपनी आयु दर्ज करें।',
+    'biometric.scanResults': 'स्कैन परिणाम:',
+    'biometric.scanSummary': 'लंबाई: {height} cm, तापमान: {temperature}',
+    'biometric.notAvailable': 'उपलब्ध नहीं',
+    'biometric.age': 'अपनी आयु दर्ज करें',
+    'biometric.submit': 'विश्लेषण पाएँ',
+    'biometric.resultTitle': 'बायोमेट्रिक विश्लेषण',
+    'biometric.libraryError': 'पोज़ पहचान लाइब्रेरी लोड नहीं हो सकी। कृपया अपना कनेक्शन जाँचें और फिर से प्रयास करें।',
+    'biometric.cameraError': 'बायोमेट्रिक स्कैन के लिए कैमरे की अनुमति आवश्यक है।',
+    'biometric.analysisError': 'विश्लेषण प्राप्त नहीं हो सका।',
+
+    // --- Imaging ---
+    'imaging.title': 'चिकित्सा इमेजिंग विश्लेषण',
+    'imaging.subtitle': 'AI विश्लेषण और 3D विज़ुअलाइज़ेशन के लिए एक्स-रे, MRI या रक्त रिपोर्ट अपलोड करें।',
+    'imaging.upload': 'चिकित्सा फ़ाइल अपलोड करने के लिए क्लिक करें',
+    'imaging.formats': 'एक्स-रे, MRI, TXT या PDF',
+    'imaging.resultTitle': 'विश्लेषण रिपोर्ट',
+    'imaging.diagnosis': 'निदान',
+    'imaging.recovery': 'ठीक होने की अनुमानित समय-सीमा',
+    'imaging.visualization': '3D विज़ुअलाइज़ेशन',
+    'imaging.speakText': 'निदान: {diagnosis}। ठीक होना: {recovery}',
+    'imaging.unsupported': 'असमर्थित फ़ाइल प्रकार। कृपया छवि (PNG, JPG) या पाठ रिपोर्ट (TXT, PDF) अपलोड करें।',
+    'imaging.error': 'विश्लेषण के दौरान एक त्रुटि हुई।',
+
+    // --- Chatbot ---
+    'chat.title': 'AI चिकित्सा सहायक',
+    'chat.greeting': 'नमस्ते! मैं धन्वंतरि हूँ, आपका AI चिकित्सा सहायक। आज मैं आपकी क्या मदद कर सकता हूँ? याद रखें, यह पेशेवर चिकित्सा सलाह का विकल्प नहीं है।',
+    'chat.placeholder': 'प्रश्न पूछें...',
+    'chat.inputLabel': 'चैट इनपुट',
+    'chat.send': 'संदेश भेजें',
+    'chat.close': 'चैट बंद करें',
+    'chat.toggle': 'चैट खोलें/बंद करें',
+    'chat.error': 'क्षमा करें, एक त्रुटि हुई। कृपया फिर से प्रयास करें।',
+};
@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const kn: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'ಸಹಾಯಕ',
+    'nav.calculator': 'ಕ್ಯಾಲೊರಿ',
+    'nav.diary': 'ಆಹಾರ ದಿನಚರಿ',
+    'nav.mealPlan': 'ಊಟದ ಯೋಜನೆ',
+    'nav.growth': 'ಬೆಳವಣಿಗೆ ಚಾರ್ಟ್‌ಗಳು',
+    'nav.scanner': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್',
+    'nav.imaging': 'ಇಮೇಜಿಂಗ್',
+    'nav.biometric': 'ಬಯೋಮೆಟ್ರಿಕ್',
+    'nav.hospitals': 'ಆಸ್ಪತ್ರೆಗಳು',
+    'nav.delivery': 'ವಿತರಣೆ',
+    'nav.history': 'ಇತಿಹಾಸ',
+    'nav.profile': 'ಪ್ರೊಫೈಲ್',
+    'nav.logout': 'ಲಾಗ್ ಔಟ್',
+    'language.label': 'ಭಾಷೆ',
+
+    // --- Shared ---
+    'common.disclaimer': 'ಹಕ್ಕು ನಿರಾಕರಣೆ: ಇದು AI ರಚಿಸಿದ ವಿಶ್ಲೇಷಣೆ ಮತ್ತು ವೃತ್ತಿಪರ ವೈದ್ಯಕೀಯ ಸಲಹೆಗೆ ಬದಲಿಯಲ್ಲ. ಯಾವುದೇ ಆರೋಗ್ಯ ಕಾಳಜಿಗಳಿಗೆ ಅರ್ಹ ವೈದ್ಯರನ್ನು ಸಂಪರ್ಕಿಸಿ.',
+    'common.startRecording': 'ರೆಕಾರ್ಡಿಂಗ್ ಪ್ರಾರಂಭಿಸಿ',
+    'common.stopRecording': 'ರೆಕಾರ್ಡಿಂಗ್ ನಿಲ್ಲಿಸಿ',
+    'common.readAloud': 'ಫಲಿತಾಂಶವನ್ನು ಜೋರಾಗಿ ಓದಿ',
+    'common.unknownError': 'ಅಜ್ಞಾತ ದೋಷ ಸಂಭವಿಸಿದೆ.',
+
+    // --- Home ---
+    'home.title': 'ಧನ್ವಂತರಿಗೆ ಸುಸ್ವಾಗತ',
+    'home.intro': 'ಉತ್ತಮ ಆರೋಗ್ಯ ಅರಿವಿಗಾಗಿ ನಿಮ್ಮ AI ವೈದ್ಯಕೀಯ ಸಹಾಯಕ. ಲಕ್ಷಣಗಳನ್ನು ವಿಶ್ಲೇಷಿಸಿ, ಪೌಷ್ಟಿಕಾಂಶದ ಅಗತ್ಯಗಳನ್ನು ಲೆಕ್ಕಹಾಕಿ ಮತ್ತು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ಗಳನ್ನು ಸುಲಭವಾಗಿ ಸ್ಕ್ಯಾನ್ ಮಾಡಿ.',
+    'home.assistant.title': 'ವೈದ್ಯಕೀಯ ಸಹಾಯಕ',
+    'home.assistant.description': 'ಲಕ್ಷಣಗಳನ್ನು ವಿಶ್ಲೇಷಿಸಿ ಮತ್ತು ಔಷಧ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳನ್ನು ಪರಿಶೀಲಿಸಿ.',
+    'home.assistant.action': 'ಪ್ರಾರಂಭಿಸಿ',
+    'home.calculator.title': 'ಕ್ಯಾಲೊರಿ ಕೌಂಟರ್',
+    'home.calculator.description': 'ವಿವಿಧ ಆರೋಗ್ಯ ಗುರಿಗಳಿಗಾಗಿ ನಿಮ್ಮ ದೈನಂದಿನ ಕ್ಯಾಲೊರಿ ಅಗತ್ಯವನ್ನು ಅಂದಾಜು ಮಾಡಿ.',
+    'home.calculator.action': 'ಈಗ ಲೆಕ್ಕಹಾಕಿ',
+    'home.scanner.title': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಸ್ಕ್ಯಾನರ್',
+    'home.scanner.description': 'ಪಠ್ಯವನ್ನು ಹೊರತೆಗೆಯಲು ಮತ್ತು ಔಷಧಗಳನ್ನು ಗುರುತಿಸಲು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'home.scanner.action': 'ಈಗ ಸ್ಕ್ಯಾನ್ ಮಾಡಿ',
+    'home.imaging.title': 'ಇಮೇಜಿಂಗ್ ವಿಶ್ಲೇಷಣೆ',
+    'home.imaging.description': 'AI ವಿಶ್ಲೇಷಣೆ ಮತ್ತು 3D ದೃಶ್ಯೀಕರಣಕ್ಕಾಗಿ ಸ್ಕ್ಯಾನ್‌ಗಳನ್ನು (ಎಕ್ಸ್-ರೇ, MRI) ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'home.imaging.action': 'ಸ್ಕ್ಯಾನ್ ವಿಶ್ಲೇಷಿಸಿ',
+    'home.biometric.title': 'ಬಯೋಮೆಟ್ರಿಕ್ ಸ್ಕ್ಯಾನ್',
+    'home.biometric.description': 'ನಿಮ್ಮ ಕ್ಯಾಮೆರಾ ಬಳಸಿ ನೈಜ-ಸಮಯದ ಬಯೋಮೆಟ್ರಿಕ್ ವಿಶ್ಲೇಷಣೆ ಮಾಡಿ.',
+    'home.biometric.action': 'ಸ್ಕ್ಯಾನ್ ಪ್ರಾರಂಭಿಸಿ',
+    'home.hospitals.title': 'ಹತ್ತಿರದ ಆಸ್ಪತ್ರೆಗಳು',
+    'home.hospitals.description': 'ಆಸ್ಪತ್ರೆಗಳನ್ನು ಹುಡುಕಿ ಮತ್ತು ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಿ.',
+    'home.hospitals.action': 'ಆಸ್ಪತ್ರೆಗಳನ್ನು ಹುಡುಕಿ',
+    'home.delivery.title': 'ಔಷಧ ವಿತರಣೆ',
+    'home.delivery.description': 'ಔಷಧಗಳನ್ನು ಆರ್ಡರ್ ಮಾಡಿ ಮತ್ತು ವಿತರಣೆಗಾಗಿ ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'home.delivery.action': 'ಈಗ ಆರ್ಡರ್ ಮಾಡಿ',
+    'home.profile.title': 'ಪ್ರೊಫೈಲ್ ಮತ್ತು ಜ್ಞಾಪನೆಗಳು',
+    'home.profile.description': 'ನಿಮ್ಮ ಪ್ರೊಫೈಲ್ ನಿರ್ವಹಿಸಿ ಮತ್ತು ಔಷಧ ಜ್ಞಾಪನೆಗಳನ್ನು ಹೊಂದಿಸಿ.',
+    'home.profile.action': 'ಪ್ರೊಫೈಲ್ ನೋಡಿ',
+    'home.articles': 'ಇತ್ತೀಚಿನ ವೈದ್ಯಕೀಯ ಲೇಖನಗಳು',
+
+    // --- Not found ---
+    'notFound.title': 'ಪುಟ ಕಂಡುಬಂದಿಲ್ಲ',
+    'notFound.message': 'ನೀವು ಹುಡುಕುತ್ತಿರುವ ಪುಟ ಅಸ್ತಿತ್ವದಲ್ಲಿಲ್ಲ ಅಥವಾ ಸ್ಥಳಾಂತರಗೊಂಡಿದೆ.',
+    'notFound.back': 'ಮುಖಪುಟಕ್ಕೆ ಹಿಂತಿರುಗಿ',
+
+    // --- Login ---
+    'login.title': 'ಧನ್ವಂತರಿಗೆ ಸುಸ್ವಾಗತ',
+    'login.welcomeBack': 'ಮರಳಿ ಸ್ವಾಗತ, {name}',
+    'login.login.subtitle': 'ನಿಮ್ಮ ವೈದ್ಯಕೀಯ ಸಹಾಯಕವನ್ನು ಬಳಸಲು ಸೈನ್ ಇನ್ ಮಾಡಿ.',
+    'login.login.submit': 'ಲಾಗಿನ್',
+    'login.register.subtitle': 'ನಿಮ್ಮ ಆರೋಗ್ಯ ಡೇಟಾವನ್ನು ಖಾಸಗಿಯಾಗಿಡಲು ಖಾತೆ ರಚಿಸಿ.',
+    'login.register.submit': 'ಖಾತೆ ರಚಿಸಿ',
+    'login.forgot.subtitle': 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಕೆ ಕೋಡ್ ಪಡೆಯಲು ನಿಮ್ಮ ಬಳಕೆದಾರ ಹೆಸರನ್ನು ನಮೂದಿಸಿ.',
+    'login.forgot.submit': 'ಮರುಹೊಂದಿಕೆ ಕೋಡ್ ವಿನಂತಿಸಿ',
+    'login.reset.subtitle': 'ನಿಮ್ಮ ಮರುಹೊಂದಿಕೆ ಕೋಡ್ ನಮೂದಿಸಿ ಮತ್ತು ಹೊಸ ಪಾಸ್‌ವರ್ಡ್ ಆಯ್ಕೆಮಾಡಿ.',
+    'login.reset.submit': 'ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಿ',
+    'login.unlock.subtitle': 'ಈ ಸಾಧನದಲ್ಲಿ ನಿಮ್ಮ ಆರೋಗ್ಯ ದಾಖಲೆಗಳನ್ನು ಅನ್‌ಲಾಕ್ ಮಾಡಲು ಪಾಸ್‌ವರ್ಡ್ ನಮೂದಿಸಿ.',
+    'login.unlock.submit': 'ಅನ್‌ಲಾಕ್ ಮಾಡಿ',
+    'login.recover.subtitle': 'ಈ ಸಾಧನದಲ್ಲಿರುವ ನಿಮ್ಮ ಆರೋಗ್ಯ ದಾಖಲೆಗಳು ಹಿಂದಿನ ಪಾಸ್‌ವರ್ಡ್‌ನಿಂದ ಲಾಕ್ ಆಗಿವೆ. ಅವುಗಳನ್ನು ಉಳಿಸಿಕೊಳ್ಳಲು ಆ ಪಾಸ್‌ವರ್ಡ್ ನಮೂದಿಸಿ.',
+    'login.recover.submit': 'ದಾಖಲೆಗಳನ್ನು ಮರುಪಡೆಯಿರಿ',
+    'login.username': 'ಬಳಕೆದಾರ ಹೆಸರು',
+    'login.password': 'ಪಾಸ್‌ವರ್ಡ್',
+    'login.newPassword': 'ಹೊಸ ಪಾಸ್‌ವರ್ಡ್',
+    'login.previousPassword': 'ಹಿಂದಿನ ಪಾಸ್‌ವರ್ಡ್',
+    'login.confirmPassword': 'ಪಾಸ್‌ವರ್ಡ್ ದೃಢೀಕರಿಸಿ',
+    'login.resetCode': 'ಮರುಹೊಂದಿಕೆ ಕೋಡ್',
+    'login.createAccount': 'ಖಾತೆ ರಚಿಸಿ',
+    'login.forgotPassword': 'ಪಾಸ್‌ವರ್ಡ್ ಮರೆತಿರಾ?',
+    'login.haveResetCode': 'ನನ್ನ ಬಳಿ ಮರುಹೊಂದಿಕೆ ಕೋಡ್ ಇದೆ',
+    'login.backToSignIn': 'ಸೈನ್ ಇನ್‌ಗೆ ಹಿಂತಿರುಗಿ',
+    'login.startOver': 'ಖಾಲಿ ದಾಖಲೆಗಳೊಂದಿಗೆ ಪ್ರಾರಂಭಿಸಿ',
+    'login.signOut': 'ಸೈನ್ ಔಟ್',
+    'login.passwordsMismatch': 'ಪಾಸ್‌ವರ್ಡ್‌ಗಳು ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ.',
+    'login.resetDone': 'ನಿಮ್ಮ ಪಾಸ್‌ವರ್ಡ್ ಮರುಹೊಂದಿಸಲಾಗಿದೆ. ದಯವಿಟ್ಟು ಹೊಸ ಪಾಸ್‌ವರ್ಡ್‌ನೊಂದಿಗೆ ಸೈನ್ ಇನ್ ಮಾಡಿ.',
+    'login.confirmStartOver': 'ಇದು ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿಸಿದ ಆರೋಗ್ಯ ದಾಖಲೆಗಳನ್ನು ಶಾಶ್ವತವಾಗಿ ಅಳಿಸುತ್ತದೆ. ಮುಂದುವರಿಸಬೇಕೆ?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'ವೈದ್ಯಕೀಯ ಸಹಾಯಕ',
+    'assistant.subtitle': 'ಲಕ್ಷಣಗಳು ಮತ್ತು ಔಷಧ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳ AI ವಿಶ್ಲೇಷಣೆಗಾಗಿ ರೋಗಿಯ ವಿವರಗಳನ್ನು ನಮೂದಿಸಿ.',
+    'assistant.age': 'ವಯಸ್ಸು',
+    'assistant.symptoms': 'ಲಕ್ಷಣಗಳು',
+    'assistant.medications': 'ಪ್ರಸ್ತುತ ಔಷಧಗಳು (ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ)',
+    'assistant.submit': 'ಲಕ್ಷಣಗಳನ್ನು ವಿಶ್ಲೇಷಿಸಿ',
+    'assistant.resultTitle': 'AI ವಿಶ್ಲೇಷಣೆ',
+    'assistant.interactions': 'ಸಂಭಾವ್ಯ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳು',
+    'assistant.noInteractions': 'ಯಾವುದೇ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳು ಕಂಡುಬಂದಿಲ್ಲ.',
+    'assistant.concerns': 'ಕಾಳಜಿಗಳು',
+    'assistant.suggestions': 'ಆರೋಗ್ಯ ಸಲಹೆಗಳು',
+    'assistant.urgency': 'ತುರ್ತು ಮಟ್ಟ: {level}.',
+    'assistant.mode.form': 'ತ್ವರಿತ ಫಾರ್ಮ್',
+    'assistant.mode.interview': 'ಮಾರ್ಗದರ್ಶಿತ ಸಂದರ್ಶನ',
+    'urgency.self-care': 'ಸ್ವಯಂ ಆರೈಕೆ',
+    'urgency.see-doctor': 'ವೈದ್ಯರನ್ನು ಭೇಟಿ ಮಾಡಿ',
+    'urgency.urgent': 'ತಕ್ಷಣ ವೈದ್ಯಕೀಯ ನೆರವು ಪಡೆಯಿರಿ',
+    'severity.minor': 'ಸಣ್ಣ',
+    'severity.moderate': 'ಮಧ್ಯಮ',
+    'severity.major': 'ಗಂಭೀರ',
+    'severity.contraindicated': 'ನಿಷಿದ್ಧ',
+
+    // --- Symptom interview ---
+    'interview.progress': 'ಪ್ರಶ್ನೆ {current} / {total}',
+    'interview.question.complaint': 'ಮುಖ್ಯ ಲಕ್ಷಣ ಅಥವಾ ಸಮಸ್ಯೆ ಏನು?',
+    'interview.question.onset': 'ಇದು ಹೇಗೆ ಶುರುವಾಯಿತು?',
+    'interview.question.duration': 'ಇದು ಎಷ್ಟು ಸಮಯದಿಂದ ಇದೆ?',
+    'interview.question.severity': 'ಈಗ ಇದು ಎಷ್ಟು ತೀವ್ರವಾಗಿದೆ, 1 ರಿಂದ 10 ರಲ್ಲಿ?',
+    'interview.question.location': 'ದೇಹದಲ್ಲಿ ಎಲ್ಲಿ ಅನಿಸುತ್ತದೆ?',
+    'interview.question.associated': 'ಬೇರೆ ಯಾವುದೇ ಲಕ್ಷಣಗಳಿವೆಯೇ?',
+    'interview.question.history': 'ನಿಮ್ಮ ವೈದ್ಯಕೀಯ ಇತಿಹಾಸದಲ್ಲಿ ಸಂಬಂಧಿತವಾದದ್ದು ಏನಾದರೂ?',
+    'interview.question.medications': 'ನೀವು ಯಾವ ಔಷಧಿಗಳನ್ನು ತೆಗೆದುಕೊಳ್ಳುತ್ತಿದ್ದೀರಿ?',
+    'interview.question.vitals': 'ನಿಮ್ಮ ಬಗ್ಗೆ ಕೆಲವು ವಿವರಗಳು',
+    'interview.hint.complaint': 'ಉದಾ., ತಲೆನೋವು, ಹೊಟ್ಟೆ ನೋವು, ಕೆಮ್ಮು',
+    'interview.hint.onset': 'ನಿಖರವಾಗಿ ಯಾವಾಗ, ಆಗ ನೀವು ಏನು ಮಾಡುತ್ತಿದ್ದಿರಿ? (ಐಚ್ಛಿಕ)',
+    'interview.hint.duration': 'ಉದಾ., ನಿನ್ನೆ ಬೆಳಿಗ್ಗೆಯಿಂದ',
+    'interview.hint.location': 'ಉದಾ., ಹೊಟ್ಟೆಯ ಕೆಳಗಿನ ಬಲಭಾಗ',
+    'interview.hint.associated': 'ಅನ್ವಯವಾಗುವುದನ್ನು ಟ್ಯಾಪ್ ಮಾಡಿ, ಅಥವಾ ವಿವರಿಸಿ',
+    'interview.hint.history': 'ದೀರ್ಘಕಾಲದ ಕಾಯಿಲೆಗಳು, ಅಲರ್ಜಿಗಳು, ಇತ್ತೀಚಿನ ಗಾಯಗಳು, ಶಸ್ತ್ರಚಿಕಿತ್ಸೆ ಅಥವಾ ಪ್ರಯಾಣ',
+    'interview.hint.medications': 'ಔಷಧಿಗಳನ್ನು ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ',
+    'interview.onset.sudden': 'ಇದ್ದಕ್ಕಿದ್ದಂತೆ',
+    'interview.onset.gradual': 'ಕ್ರಮೇಣ',
+    'interview.duration.hours': 'ಒಂದು ದಿನಕ್ಕಿಂತ ಕಡಿಮೆ',
+    'interview.duration.days': '1–3 ದಿನಗಳು',
+    'interview.duration.week': '4–7 ದಿನಗಳು',
+    'interview.duration.longer': 'ಒಂದು ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು',
+    'interview.severity.scale': '1 = ಅಷ್ಟೇನೂ ಗೊತ್ತಾಗುವುದಿಲ್ಲ, 10 = ಸಹಿಸಲಾಗದು',
+    'interview.associated.fever': 'ಜ್ವರ',
+    'interview.associated.nausea': 'ವಾಕರಿಕೆ',
+    'interview.associated.vomiting': 'ವಾಂತಿ',
+    'interview.associated.headache': 'ತಲೆನೋವು',
+    'interview.associated.cough': 'ಕೆಮ್ಮು',
+    'interview.associated.dizziness': 'ತಲೆಸುತ್ತು',
+    'interview.associated.fatigue': 'ಆಯಾಸ',
+    'interview.associated.rash': 'ದದ್ದು',
+    'interview.associated.diarrhoea': 'ಅತಿಸಾರ',
+    'interview.associated.breathlessness': 'ಉಸಿರಾಟದ ತೊಂದರೆ',
+    'interview.history.conditions': 'ತಿಳಿದಿರುವ ಕಾಯಿಲೆಗಳು: {list}',
+    'interview.history.allergies': 'ಅಲರ್ಜಿಗಳು: {list}',
+    'interview.back': 'ಹಿಂದೆ',
+    'interview.next': 'ಮುಂದೆ',
+    'interview.skip': 'ಬಿಟ್ಟುಬಿಡಿ',
+    'interview.review': 'ಸಾರಾಂಶ ನೋಡಿ',
+    'interview.summaryTitle': 'ನಿಮ್ಮ ಉತ್ತರಗಳನ್ನು ಪರಿಶೀಲಿಸಿ',
+    'interview.summaryHint': 'ವಿಶ್ಲೇಷಣೆ ಈ ಸಾರಾಂಶವನ್ನು ಆಧರಿಸಿರುತ್ತದೆ. ಮುಂದುವರಿಯುವ ಮೊದಲು ಏನನ್ನಾದರೂ ಸರಿಪಡಿಸಿ ಅಥವಾ ಸೇರಿಸಿ.',
+    'interview.summary.complaint': 'ಮುಖ್ಯ ಲಕ್ಷಣ',
+    'interview.summary.onset': 'ಆರಂಭ',
+    'interview.summary.duration': 'ಅವಧಿ',
+    'interview.summary.severity': 'ತೀವ್ರತೆ',
+    'interview.summary.location': 'ಸ್ಥಳ',
+    'interview.summary.associated': 'ಇತರ ಲಕ್ಷಣಗಳು',
+    'interview.summary.history': 'ಇತಿಹಾಸ',
+    'interview.startOver': 'ಮತ್ತೆ ಪ್ರಾರಂಭಿಸಿ',
+
+    // --- Vitals ---
+    'vitals.title': 'ವೈಟಲ್ಸ್ (ಐಚ್ಛಿಕ)',
+    'vitals.temperature': 'ದೇಹದ ಉಷ್ಣತೆ',
+    'vitals.bloodPressure': 'ರಕ್ತದೊತ್ತಡ (mmHg)',
+    'vitals.systolic': 'ಸಿಸ್ಟೋಲಿಕ್',
+    'vitals.diastolic': 'ಡಯಾಸ್ಟೋಲಿಕ್',
+    'vitals.heartRate': 'ಹೃದಯ ಬಡಿತ (ಬಡಿತ/ನಿಮಿಷ)',
+    'vitals.spo2': 'ಆಮ್ಲಜನಕ ಸ್ಯಾಚುರೇಶನ್ (SpO₂ %)',
+    'vitals.respiratoryRate': 'ಉಸಿರಾಟದ ದರ (ಉಸಿರು/ನಿಮಿಷ)',
+    'vitals.glucose': 'ರಕ್ತದ ಗ್ಲೂಕೋಸ್',
+    'vitals.glucoseTiming': 'ಯಾವಾಗ ಅಳೆಯಲಾಗಿದೆ',
+    'vitals.glucose.random': 'ರ್ಯಾಂಡಮ್ / ಊಟದ ನಂತರ',
+    'vitals.glucose.fasting': 'ಖಾಲಿ ಹೊಟ್ಟೆಯಲ್ಲಿ',
+    'vitals.weight': 'ತೂಕ',
+    'vitals.unit': 'ಘಟಕ',
+    'vitals.low': 'ಕಡಿಮೆ – ಸಾಮಾನ್ಯ {range}',
+    'vitals.high': 'ಹೆಚ್ಚು – ಸಾಮಾನ್ಯ {range}',
+    'vitals.note': 'ಸಾಮಾನ್ಯ ಶ್ರೇಣಿಗಳನ್ನು ವಯಸ್ಸಿಗೆ ತಕ್ಕಂತೆ ಹೊಂದಿಸಲಾಗಿದೆ. ಅವುಗಳ ಹೊರಗಿನ ರೀಡಿಂಗ್ ಮತ್ತೆ ಅಳೆಯಲು ಅಥವಾ ವೈದ್ಯರನ್ನು ಸಂಪರ್ಕಿಸಲು ಕಾರಣ, ರೋಗನಿರ್ಣಯವಲ್ಲ.',
+
+    // --- History ---
+    'history.title': 'ವಿಶ್ಲೇಷಣೆ ಇತಿಹಾಸ',
+    'history.subtitle': 'ಹಿಂದಿನ ವಿಶ್ಲೇಷಣೆಗಳು, ಲೆಕ್ಕಾಚಾರಗಳು ಮತ್ತು ಸ್ಕ್ಯಾನ್‌ಗಳು, ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿಸಲಾಗಿದೆ.',
+    'history.all': 'ಎಲ್ಲಾ',
+    'history.feature.assistant': 'ಲಕ್ಷಣ ವಿಶ್ಲೇಷಣೆ',
+    'history.feature.calculator': 'ಕ್ಯಾಲೊರಿ ಲೆಕ್ಕಾಚಾರ',
+    'history.feature.scanner': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಸ್ಕ್ಯಾನ್',
+    'history.feature.imaging': 'ಇಮೇಜಿಂಗ್ ವರದಿ',
+    'history.feature.biometric': 'ಬಯೋಮೆಟ್ರಿಕ್ ವಿಶ್ಲೇಷಣೆ',
+    'history.feature.growth': 'ಬೆಳವಣಿಗೆ ಪರಿಶೀಲನೆ',
+    'history.empty': 'ಇನ್ನೂ ಏನೂ ಉಳಿಸಿಲ್ಲ. ವಿಶ್ಲೇಷಣೆ ನಡೆಸಿದ ನಂತರ ಫಲಿತಾಂಶಗಳು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತವೆ.',
+    'history.view': 'ಫಲಿತಾಂಶ ನೋಡಿ',
+    'history.delete': 'ಅಳಿಸಿ',
+    'history.confirmDelete': 'ಈ ನಮೂದನ್ನು ಅಳಿಸುವುದೇ? ಇದನ್ನು ಮರಳಿ ಪಡೆಯಲಾಗುವುದಿಲ್ಲ.',
+    'history.compare': 'ಹೋಲಿಕೆಗಾಗಿ ಆಯ್ಕೆಮಾಡಿ',
+    'history.compareHint': 'ಎರಡು ನಮೂದುಗಳನ್ನು ಆಯ್ಕೆಮಾಡಿ ಅಕ್ಕಪಕ್ಕದಲ್ಲಿ ಹೋಲಿಸಿ.',
+    'history.compareSelected': 'ಆಯ್ಕೆ ಮಾಡಿದವನ್ನು ಹೋಲಿಸಿ ({count}/2)',
+    'history.compareTitle': 'ವಿಶ್ಲೇಷಣೆಗಳನ್ನು ಹೋಲಿಸಿ',
+    'history.inputs': 'ಇನ್‌ಪುಟ್‌ಗಳು',
+    'history.result': 'ಫಲಿತಾಂಶ',
+    'history.fileName': 'ಫೈಲ್',
+    'history.back': '← ಇತಿಹಾಸಕ್ಕೆ ಹಿಂತಿರುಗಿ',
+    'history.notFound': 'ಈ ನಮೂದು ಇನ್ನು ಇಲ್ಲ.',
+    'history.loadError': 'ನಿಮ್ಮ ಇತಿಹಾಸವನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ.',
+    'history.deleteError': 'ನಮೂದನ್ನು ಅಳಿಸಲಾಗಲಿಲ್ಲ.',
+
+    // --- Food diary ---
+    'diary.title': 'ಆಹಾರ ದಿನಚರಿ',
+    'diary.subtitle': 'ನೀವು ತಿನ್ನುವುದನ್ನು ದಾಖಲಿಸಿ ಮತ್ತು ದೈನಂದಿನ ಕ್ಯಾಲೊರಿ ಹಾಗೂ ಮ್ಯಾಕ್ರೋಗಳನ್ನು ಗುರಿಯೊಂದಿಗೆ ಹೋಲಿಸಿ.',
+    'diary.view.day': 'ದಿನ',
+    'diary.view.week': 'ವಾರ',
+    'diary.previous': '← ಹಿಂದಿನ',
+    'diary.next': 'ಮುಂದಿನ →',
+    'diary.date': 'ದಿನಾಂಕ',
+    'diary.dayTotals': 'ಇಂದಿನ ಒಟ್ಟು',
+    'diary.addFood': 'ಆಹಾರ ಸೇರಿಸಿ',
+    'diary.meal': 'ಊಟದ ಸಮಯ',
+    'diary.meal.breakfast': 'ಬೆಳಗಿನ ಉಪಾಹಾರ',
+    'diary.meal.lunch': 'ಮಧ್ಯಾಹ್ನದ ಊಟ',
+    'diary.meal.dinner': 'ರಾತ್ರಿಯ ಊಟ',
+    'diary.meal.snack': 'ತಿಂಡಿ',
+    'diary.whatDidYouEat': 'ನೀವು ಏನು ತಿಂದಿರಿ?',
+    'diary.foodPlaceholder': 'ಉದಾ. 2 idli, 1 bowl sambar and a banana',
+    'diary.add': 'ದಿನಚರಿಗೆ ಸೇರಿಸಿ',
+    'diary.barcode': 'ಬಾರ್‌ಕೋಡ್ ಸಂಖ್ಯೆ',
+    'diary.servings': 'ಸರ್ವಿಂಗ್‌ಗಳು',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'ಬಾರ್‌ಕೋಡ್ ಮೂಲಕ ಸೇರಿಸಿ',
+    'diary.barcodeInvalid': 'ಇದು ಮಾನ್ಯ ಬಾರ್‌ಕೋಡ್ ಸಂಖ್ಯೆಯಲ್ಲ. ಗೆರೆಗಳ ಕೆಳಗೆ ಮುದ್ರಿಸಿದ ಅಂಕಿಗಳನ್ನು ಪರಿಶೀಲಿಸಿ.',
+    'diary.barcodeUnknown': 'ಈ ಉತ್ಪನ್ನ ಇನ್ನೂ ಆಹಾರ ಡೇಟಾಬೇಸ್‌ನಲ್ಲಿ ಇಲ್ಲ.',
+    'diary.nothingRecognized': 'ಇವುಗಳಲ್ಲಿ ಯಾವ ಆಹಾರವೂ ಡೇಟಾಬೇಸ್‌ನಲ್ಲಿ ಇಲ್ಲ. "idli" ಅಥವಾ "dal" ನಂತಹ ಸರಳ ಹೆಸರನ್ನು ಪ್ರಯತ್ನಿಸಿ.',
+    'diary.unrecognized': 'ಆಹಾರ ಡೇಟಾಬೇಸ್‌ನಲ್ಲಿ ಇಲ್ಲದ ಕಾರಣ ಸೇರಿಸಲಾಗಿಲ್ಲ: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · ಪ್ರೋಟೀನ್ {protein} g · ಕಾರ್ಬ್ಸ್ {carbs} g · ಕೊಬ್ಬು {fat} g',
+    'diary.deleteEntry': '{name} ತೆಗೆದುಹಾಕಿ',
+    'diary.empty': 'ಈ ದಿನಕ್ಕೆ ಇನ್ನೂ ಏನೂ ದಾಖಲಾಗಿಲ್ಲ.',
+    'diary.calories': 'ಕ್ಯಾಲೊರಿಗಳು',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'ಇಂದಿಗೆ {value} kcal ಉಳಿದಿದೆ',
+    'diary.over': 'ಗುರಿಗಿಂತ {value} kcal ಹೆಚ್ಚು',
+    'diary.noTarget': 'ನಿಮಗೆ ಇನ್ನೂ ದೈನಂದಿನ ಗುರಿ ಇಲ್ಲ.',
+    'diary.setTarget': 'ಕ್ಯಾಲೊರಿ ಕ್ಯಾಲ್ಕುಲೇಟರ್‌ನಲ್ಲಿ ಒಂದನ್ನು ಆಯ್ಕೆಮಾಡಿ →',
+    'diary.targetFrom': 'ಗುರಿ: {goal}.',
+    'diary.changeTarget': 'ಬದಲಾಯಿಸಿ',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'ದಿನ',
+    'diary.vsTarget': 'ಗುರಿಯೊಂದಿಗೆ ವ್ಯತ್ಯಾಸ',
+    'diary.notLogged': 'ದಾಖಲಾಗಿಲ್ಲ',
+    'diary.daysLogged': 'ದಾಖಲಾದ ದಿನಗಳು',
+    'diary.daysLoggedValue': '{total} ರಲ್ಲಿ {count}',
+    'diary.average': 'ದಾಖಲಾದ ದಿನಗಳ ಸರಾಸರಿ',
+    'diary.averageVsTarget': 'ಸರಾಸರಿ ಮತ್ತು ಗುರಿ',
+    'diary.loadError': 'ನಿಮ್ಮ ಆಹಾರ ದಿನಚರಿಯನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ.',
+    'diary.saveError': 'ಆಹಾರ ದಿನಚರಿಗೆ ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+    'diary.deleteError': 'ನಮೂದನ್ನು ತೆಗೆದುಹಾಕಲಾಗಲಿಲ್ಲ.',
+    'diary.photo.title': 'ಫೋಟೋದಿಂದ',
+    'diary.photo.hint': 'ನಿಮ್ಮ ತಟ್ಟೆಯ ಫೋಟೋ ತೆಗೆಯಿರಿ; AI ಆಹಾರಗಳು ಮತ್ತು ಪ್ರಮಾಣಗಳನ್ನು ಪಟ್ಟಿ ಮಾಡುತ್ತದೆ, ದಾಖಲಿಸುವ ಮೊದಲು ನೀವು ಪರಿಶೀಲಿಸಬಹುದು.',
+    'diary.photo.take': 'ಫೋಟೋ ತೆಗೆಯಿರಿ ಅಥವಾ ಆಯ್ಕೆಮಾಡಿ',
+    'diary.photo.preview': 'ಊಟದ ಫೋಟೋ',
+    'diary.photo.recognize': 'ಆಹಾರಗಳನ್ನು ಗುರುತಿಸಿ',
+    'diary.photo.discard': 'ತ್ಯಜಿಸಿ',
+    'diary.photo.reviewHint': 'ಪ್ರತಿ ಆಹಾರ ಮತ್ತು ಅದರ ತೂಕವನ್ನು ಪರಿಶೀಲಿಸಿ. ಪೋಷಣೆ ಡೇಟಾಬೇಸ್‌ನಲ್ಲಿರುವ ಆಹಾರಗಳು ಅದರ ಮೌಲ್ಯಗಳನ್ನು ಬಳಸುತ್ತವೆ; ಉಳಿದವು AI ಅಂದಾಜನ್ನು.',
+    'diary.photo.food': 'ಆಹಾರ',
+    'diary.photo.grams': 'ಗ್ರಾಂ',
+    'diary.photo.fromDatabase': 'ಡೇಟಾಬೇಸ್',
+    'diary.photo.estimated': 'AI ಅಂದಾಜು',
+    'diary.photo.unknown': 'ಡೇಟಾಬೇಸ್‌ನಲ್ಲಿ ಇಲ್ಲ',
+    'diary.photo.addItem': 'ಐಟಂ ಸೇರಿಸಿ',
+    'diary.photo.save': '{count} ಐಟಂಗಳನ್ನು ದಾಖಲಿಸಿ',
+    'diary.photo.error': 'ಈ ಫೋಟೋದಲ್ಲಿನ ಆಹಾರಗಳನ್ನು ಗುರುತಿಸಲಾಗಲಿಲ್ಲ.',
+    'diary.photo.saveError': 'ಊಟದ ಫೋಟೋವನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'ಊಟದ ಯೋಜಕ',
+    'mealPlan.subtitle': 'ನಿಮ್ಮ ಕ್ಯಾಲೋರಿ ಗುರಿ, ಆಹಾರ ಪದ್ಧತಿ, ಅಲರ್ಜಿಗಳು ಮತ್ತು ಔಷಧಿಗಳಿಗೆ ತಕ್ಕ ಒಂದು ವಾರದ ದಿನನಿತ್ಯದ ಭಾರತೀಯ ಊಟ, ಖರೀದಿ ಪಟ್ಟಿಯೊಂದಿಗೆ.',
+    'mealPlan.calories': 'ದೈನಂದಿನ ಕ್ಯಾಲೋರಿ (kcal)',
+    'mealPlan.allergies': 'ಆಹಾರ ಅಲರ್ಜಿಗಳು',
+    'mealPlan.allergiesPlaceholder': 'ಉದಾ. ಕಡಲೆಕಾಯಿ, ಲ್ಯಾಕ್ಟೋಸ್',
+    'mealPlan.targetFrom': 'ನಿಮ್ಮ ದೈನಂದಿನ ಗುರಿ {calories} kcal.',
+    'mealPlan.medications': 'ಪ್ರಸ್ತುತ ಔಷಧಿಗಳು',
+    'mealPlan.medicationsPlaceholder': 'ಉದಾ. ವಾರ್ಫರಿನ್, ಅಟೊರ್ವಾಸ್ಟಾಟಿನ್',
+    'mealPlan.preferences': 'ಆಹಾರ ಪದ್ಧತಿ',
+    'mealPlan.preference.vegetarian': 'ಸಸ್ಯಾಹಾರಿ',
+    'mealPlan.preference.jain': 'ಜೈನ (ಈರುಳ್ಳಿ, ಬೆಳ್ಳುಳ್ಳಿ, ಗೆಡ್ಡೆಗಳಿಲ್ಲ)',
+    'mealPlan.preference.diabetic': 'ಮಧುಮೇಹ (ಹೆಚ್ಚುವರಿ ಸಕ್ಕರೆ ಇಲ್ಲ)',
+    'mealPlan.preference.lowSodium': 'ಕಡಿಮೆ ಉಪ್ಪು',
+    'mealPlan.submit': 'ಊಟದ ಯೋಜನೆ ರಚಿಸಿ',
+    'mealPlan.caloriesRequired': 'ದೈನಂದಿನ ಕ್ಯಾಲೋರಿ ಗುರಿಯನ್ನು ನಮೂದಿಸಿ.',
+    'mealPlan.resultTitle': 'ನಿಮ್ಮ ವಾರದ ಊಟದ ಯೋಜನೆ',
+    'mealPlan.interactionsTitle': 'ಆಹಾರ ಮತ್ತು ಔಷಧಿ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳು',
+    'mealPlan.column.medicine': 'ಔಷಧಿ',
+    'mealPlan.column.food': 'ಆಹಾರ',
+    'mealPlan.column.inPlan': 'ಈ ಯೋಜನೆಯಲ್ಲಿ',
+    'mealPlan.advice.avoid': 'ಬಿಡಲಾಗಿದೆ',
+    'mealPlan.advice.separate': 'ಇರಿಸಲಾಗಿದೆ; ಔಷಧಿಯನ್ನು ಕನಿಷ್ಠ 2 ಗಂಟೆಗಳ ಅಂತರದಲ್ಲಿ ತೆಗೆದುಕೊಳ್ಳಿ',
+    'mealPlan.component.meat': 'ಮಾಂಸ',
+    'mealPlan.component.fish': 'ಮೀನು',
+    'mealPlan.component.egg': 'ಮೊಟ್ಟೆ',
+    'mealPlan.component.dairy': 'ಹಾಲಿನ ಉತ್ಪನ್ನಗಳು',
+    'mealPlan.component.wheat': 'ಗೋಧಿ',
+    'mealPlan.component.peanut': 'ಕಡಲೆಕಾಯಿ',
+    'mealPlan.component.treeNut': 'ಬೀಜಗಳು',
+    'mealPlan.component.onionGarlic': 'ಈರುಳ್ಳಿ ಮತ್ತು ಬೆಳ್ಳುಳ್ಳಿ',
+    'mealPlan.component.rootVegetable': 'ಗೆಡ್ಡೆ ತರಕಾರಿಗಳು',
+    'mealPlan.component.addedSugar': 'ಹೆಚ್ಚುವರಿ ಸಕ್ಕರೆ',
+    'mealPlan.component.highSodium': 'ಉಪ್ಪು ಹೆಚ್ಚಿರುವ ಆಹಾರಗಳು',
+    'mealPlan.component.vitaminK': 'ವಿಟಮಿನ್ K ಸಮೃದ್ಧ ಸೊಪ್ಪುಗಳು',
+    'mealPlan.component.potassium': 'ಪೊಟ್ಯಾಸಿಯಮ್ ಸಮೃದ್ಧ ಆಹಾರಗಳು',
+    'mealPlan.component.grapefruit': 'ಗ್ರೇಪ್‌ಫ್ರೂಟ್, ಚಕ್ಕೋತ',
+    'mealPlan.unplanned': 'ಇವುಗಳಿಗೆ ನಿಮ್ಮ ಆಯ್ಕೆಗಳಿಗೆ ಹೊಂದುವ ಖಾದ್ಯವಿಲ್ಲ: {meals}. ಇವುಗಳನ್ನು ನೀವೇ ಯೋಜಿಸಿ.',
+    'mealPlan.dayMacros': 'ಪ್ರೋಟೀನ್ {protein} ಗ್ರಾಂ · ಕಾರ್ಬ್ಸ್ {carbs} ಗ್ರಾಂ · ಕೊಬ್ಬು {fat} ಗ್ರಾಂ',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} ಗ್ರಾಂ)',
+    'mealPlan.shoppingTitle': 'ಖರೀದಿ ಪಟ್ಟಿ',
+    'mealPlan.shoppingNote': 'ಪ್ರಮಾಣಗಳು ಇಡೀ ವಾರದ ಬೇಯಿಸಿದ ಖಾದ್ಯಗಳದ್ದು; ಅವುಗಳ ಪದಾರ್ಥಗಳನ್ನು ಖರೀದಿಸಿ.',
+    'mealPlan.another': 'ಬೇರೆ ಯೋಜನೆ ತೋರಿಸಿ',
+    'mealPlan.download': 'ಖರೀದಿ ಪಟ್ಟಿ ಡೌನ್‌ಲೋಡ್ ಮಾಡಿ',
+    'mealPlan.disclaimer': 'ಪ್ರಮಾಣಗಳು ಪ್ರಮಾಣಿತ ಆಹಾರ ಕೋಷ್ಟಕಗಳಿಂದ ಅಂದಾಜು. ಕಾಯಿಲೆಗಾಗಿ ಆಹಾರ ಬದಲಿಸುವ ಮೊದಲು ವೈದ್ಯರು ಅಥವಾ ಆಹಾರ ತಜ್ಞರನ್ನು ಕೇಳಿ.',
+
+    // --- Body measurements ---
+    'body.title': 'ತೂಕ ಮತ್ತು ದೇಹದ ಅಳತೆಗಳು',
+    'body.date': 'ದಿನಾಂಕ',
+    'body.weight': 'ತೂಕ (kg)',
+    'body.waist': 'ಸೊಂಟ (cm)',
+    'body.bodyFat': 'ದೇಹದ ಕೊಬ್ಬು (%)',
+    'body.add': 'ಅಳತೆ ಸೇರಿಸಿ',
+    'body.valueRequired': 'ಕನಿಷ್ಠ ಒಂದು ಅಳತೆಯನ್ನು ನಮೂದಿಸಿ.',
+    'body.show': 'ತೋರಿಸಿ',
+    'body.measure.weight': 'ತೂಕ',
+    'body.measure.waist': 'ಸೊಂಟ',
+    'body.measure.bodyFat': 'ದೇಹದ ಕೊಬ್ಬು',
+    'body.empty': 'ಇನ್ನೂ ಅಳತೆಗಳಿಲ್ಲ.',
+    'body.chartLabel': 'ಕಾಲಕ್ರಮೇಣ {measure}',
+    'body.legend': 'ಚುಕ್ಕೆಗಳು ಅಳತೆಗಳು; ಗೆರೆ {days} ದಿನಗಳ ಸರಾಸರಿ.',
+    'body.current': 'ಪ್ರವೃತ್ತಿ ತೂಕ: {value} kg',
+    'body.rate': 'ಕಳೆದ 4 ವಾರಗಳಲ್ಲಿ ವಾರಕ್ಕೆ {rate} kg',
+    'body.tooFast': 'ನೀವು ವಾರಕ್ಕೆ ಸುಮಾರು {rate} kg ಇಳಿಸುತ್ತಿದ್ದೀರಿ; ಇದು ವೈದ್ಯಕೀಯ ಮೇಲ್ವಿಚಾರಣೆ ಇಲ್ಲದೆ ಸುರಕ್ಷಿತವಾದ ವಾರಕ್ಕೆ {limit} kg ಗಿಂತ ವೇಗ. ಸ್ವಲ್ಪ ಹೆಚ್ಚು ತಿನ್ನಿ; ತೂಕ ಇಳಿಸಲು ಪ್ರಯತ್ನಿಸದಿದ್ದರೆ ವೈದ್ಯರನ್ನು ಕಾಣಿ.',
+    'body.noGoal': 'ಗುರಿಯನ್ನು ಯಾವಾಗ ತಲುಪುತ್ತೀರಿ ಎಂದು ನೋಡಲು ನಿಮ್ಮ ಆರೋಗ್ಯ ಪ್ರೊಫೈಲ್‌ಗೆ ಗುರಿ ತೂಕವನ್ನು ಸೇರಿಸಿ.',
+    'body.projection': 'ನಿಮ್ಮ ಕ್ಯಾಲೋರಿ ಗುರಿಯಲ್ಲಿ ನೀವು ಸುಮಾರು {date} ರ ವೇಳೆಗೆ {goal} kg ತಲುಪುತ್ತೀರಿ, ವಾರಕ್ಕೆ {rate} kg ದರದಲ್ಲಿ ಸುಮಾರು {weeks} ವಾರಗಳಲ್ಲಿ.',
+    'body.goalReached': 'ನೀವು ನಿಮ್ಮ ಗುರಿ ತೂಕ {goal} kg ತಲುಪಿದ್ದೀರಿ.',
+    'body.noTarget': 'ಗುರಿ ದಿನಾಂಕಕ್ಕೆ ಕ್ಯಾಲೋರಿ ಕ್ಯಾಲ್ಕುಲೇಟರ್‌ನಿಂದ ದೈನಂದಿನ ಗುರಿ ಬೇಕು.',
+    'body.wrongDirection': 'ನಿಮ್ಮ ಕ್ಯಾಲೋರಿ ಗುರಿ ನಿಮ್ಮ ತೂಕವನ್ನು ಗುರಿಯ ಕಡೆಗೆ ಸಾಗಿಸುವುದಿಲ್ಲ.',
+    'body.loadError': 'ನಿಮ್ಮ ದೇಹದ ಅಳತೆಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ.',
+    'body.saveError': 'ಅಳತೆಯನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+    'body.deleteError': 'ಅಳತೆಯನ್ನು ತೆಗೆದುಹಾಕಲಾಗಲಿಲ್ಲ.',
+
+    // --- Growth charts ---
+    'growth.title': 'ಬೆಳವಣಿಗೆ ಚಾರ್ಟ್‌ಗಳು',
+    'growth.subtitle': 'ಹುಟ್ಟಿನಿಂದ 19 ವರ್ಷಗಳವರೆಗೆ, ಮಗುವಿನ ತೂಕ, ಎತ್ತರ ಮತ್ತು BMI ಅನ್ನು WHO ಬೆಳವಣಿಗೆ ಮಾನದಂಡಗಳೊಂದಿಗೆ ಹೋಲಿಸಿ.',
+    'growth.birthDate': 'ಹುಟ್ಟಿದ ದಿನಾಂಕ',
+    'growth.measuredOn': 'ಅಳತೆ ಮಾಡಿದ ದಿನಾಂಕ',
+    'growth.height': 'ಉದ್ದ ಅಥವಾ ಎತ್ತರ (cm)',
+    'growth.heightNote': '2 ವರ್ಷಕ್ಕಿಂತ ಮೊದಲು ಮಲಗಿಸಿ ಉದ್ದ, ನಂತರ ನಿಲ್ಲಿಸಿ ಎತ್ತರ ಅಳೆಯಿರಿ.',
+    'growth.submit': 'ಬೆಳವಣಿಗೆ ಪರಿಶೀಲಿಸಿ',
+    'growth.valueRequired': 'ತೂಕ, ಎತ್ತರ ಅಥವಾ ಎರಡನ್ನೂ ನಮೂದಿಸಿ.',
+    'growth.dateOrder': 'ಅಳತೆ ದಿನಾಂಕ ಹುಟ್ಟಿದ ದಿನಾಂಕದ ನಂತರ ಇರಬೇಕು.',
+    'growth.tooOld': 'ಬೆಳವಣಿಗೆ ಮಾನದಂಡಗಳು 19 ವರ್ಷದವರೆಗಿನ ಮಕ್ಕಳಿಗೆ ಮಾತ್ರ. ವಯಸ್ಕರಿಗೆ ಕ್ಯಾಲೋರಿ ಕ್ಯಾಲ್ಕುಲೇಟರ್ ಮತ್ತು ದೇಹದ ಅಳತೆಗಳನ್ನು ಬಳಸಿ.',
+    'growth.resultTitle': 'ಬೆಳವಣಿಗೆ ಪರ್ಸೆಂಟೈಲ್‌ಗಳು',
+    'growth.ageYears': 'ವಯಸ್ಸು: {years} ವರ್ಷ {months} ತಿಂಗಳು',
+    'growth.ageMonths': 'ವಯಸ್ಸು: {months} ತಿಂಗಳು',
+    'growth.column.indicator': 'ಅಳತೆ',
+    'growth.column.value': 'ಮೌಲ್ಯ',
+    'growth.column.zScore': 'Z-ಸ್ಕೋರ್',
+    'growth.column.percentile': 'ಪರ್ಸೆಂಟೈಲ್',
+    'growth.column.status': 'ಮೌಲ್ಯಮಾಪನ',
+    'growth.indicator.weight': 'ವಯಸ್ಸಿಗೆ ತಕ್ಕ ತೂಕ',
+    'growth.indicator.height': 'ವಯಸ್ಸಿಗೆ ತಕ್ಕ ಎತ್ತರ',
+    'growth.indicator.bmi': 'ವಯಸ್ಸಿಗೆ ತಕ್ಕ BMI',
+    'growth.status.normal': 'ಸಾಮಾನ್ಯ ವ್ಯಾಪ್ತಿಯಲ್ಲಿ',
+    'growth.status.severelyUnderweight': 'ತೀವ್ರ ಕಡಿಮೆ ತೂಕ',
+    'growth.status.underweight': 'ಕಡಿಮೆ ತೂಕ',
+    'growth.status.aboveRange': 'ಸಾಮಾನ್ಯ ವ್ಯಾಪ್ತಿಗಿಂತ ಮೇಲೆ; ವಯಸ್ಸಿಗೆ ತಕ್ಕ BMI ನೋಡಿ',
+    'growth.status.severelyStunted': 'ತೀವ್ರ ಕುಂಠಿತ ಬೆಳವಣಿಗೆ',
+    'growth.status.stunted': 'ಕುಂಠಿತ ಬೆಳವಣಿಗೆ',
+    'growth.status.veryTall': 'ತುಂಬಾ ಎತ್ತರ',
+    'growth.status.severelyWasted': 'ತೀವ್ರ ಕ್ಷೀಣತೆ (wasting)',
+    'growth.status.wasted': 'ಕ್ಷೀಣತೆ (wasting)',
+    'growth.status.overweightRisk': 'ಅಧಿಕ ತೂಕದ ಸಂಭವನೀಯ ಅಪಾಯ',
+    'growth.status.severeThinness': 'ತೀವ್ರ ತೆಳ್ಳಗೆ',
+    'growth.status.thinness': 'ತೆಳ್ಳಗೆ',
+    'growth.status.overweight': 'ಅಧಿಕ ತೂಕ',
+    'growth.status.obese': 'ಸ್ಥೂಲಕಾಯ',
+    'growth.noWeightForAge': 'WHO ಮಾನದಂಡದಲ್ಲಿ 10 ವರ್ಷಗಳ ನಂತರ ವಯಸ್ಸಿಗೆ ತಕ್ಕ ತೂಕ ಇಲ್ಲ; ಬದಲಿಗೆ ವಯಸ್ಸಿಗೆ ತಕ್ಕ BMI ಬಳಸಲಾಗುತ್ತದೆ.',
+    'growth.reference': 'WHO ಮಕ್ಕಳ ಬೆಳವಣಿಗೆ ಮಾನದಂಡಗಳು (5 ವರ್ಷದೊಳಗೆ) ಮತ್ತು WHO ಬೆಳವಣಿಗೆ ಉಲ್ಲೇಖ (5–19 ವರ್ಷ) ದೊಂದಿಗೆ ಹೋಲಿಸಲಾಗಿದೆ. 3ನೇ–97ನೇ ಪರ್ಸೆಂಟೈಲ್‌ಗಳ ಹೊರಗಿನ ಅಳತೆ, ಅಥವಾ ಕಾಲಕ್ರಮೇಣ ಪರ್ಸೆಂಟೈಲ್ ಗೆರೆಗಳನ್ನು ದಾಟುವ ಮಗು, ಮಕ್ಕಳ ವೈದ್ಯರೊಂದಿಗೆ ಚರ್ಚಿಸಬೇಕಾದವು.',
+    'growth.chartLabel': '{indicator} ಬೆಳವಣಿಗೆ ಚಾರ್ಟ್',
+    'growth.legend': 'ಗೆರೆಗಳು 3ನೇ, 15ನೇ, 50ನೇ, 85ನೇ ಮತ್ತು 97ನೇ ಪರ್ಸೆಂಟೈಲ್‌ಗಳು. ಚುಕ್ಕೆಗಳು ಈ ಮಗುವಿನ ಅಳತೆಗಳು, ಅದೇ ಹುಟ್ಟಿದ ದಿನಾಂಕದೊಂದಿಗೆ ಉಳಿಸಿದ ಹಿಂದಿನ ಅಳತೆಗಳೂ ಸೇರಿ.',
+    'growth.axisMonths': '{months} ತಿ',
+    'growth.axisYears': '{years} ವ',
+    'growth.openCalculator': 'ಈ ಮಗುವಿನ ದೈನಂದಿನ ಶಕ್ತಿ ಅಗತ್ಯವನ್ನು ಲೆಕ್ಕಹಾಕಿ →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'ತಿಳಿದಿರುವ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳು',
+    'interactions.none': 'ಗುರುತಿಸಿದ ಔಷಧಿಗಳ ನಡುವೆ ಉಲ್ಲೇಖ ಪಟ್ಟಿಯಲ್ಲಿ ಯಾವುದೇ ಪರಸ್ಪರ ಕ್ರಿಯೆ ಇಲ್ಲ.',
+    'interactions.unrecognized': 'ಉಲ್ಲೇಖ ಪಟ್ಟಿಯಲ್ಲಿಲ್ಲ, ಆದ್ದರಿಂದ ಪರಿಶೀಲಿಸಲಾಗಿಲ್ಲ: {names}',
+    'interactions.reference': 'ಚಿರಪರಿಚಿತ ಪರಸ್ಪರ ಕ್ರಿಯೆಗಳ ಅಂತರ್ನಿರ್ಮಿತ ಪಟ್ಟಿಯೊಂದಿಗೆ ಈ ಸಾಧನದಲ್ಲೇ ಪರಿಶೀಲಿಸಲಾಗಿದೆ. ಈ ಪಟ್ಟಿ ಸಂಪೂರ್ಣವಲ್ಲ; ಔಷಧಿಗಳನ್ನು ಪ್ರಾರಂಭಿಸುವ, ನಿಲ್ಲಿಸುವ ಅಥವಾ ಒಟ್ಟಿಗೆ ತೆಗೆದುಕೊಳ್ಳುವ ಮೊದಲು ವೈದ್ಯರು ಅಥವಾ ಫಾರ್ಮಸಿಸ್ಟ್ ಅವರನ್ನು ಕೇಳಿ.',
+    'interactions.column.medicines': 'ಔಷಧಿಗಳು',
+    'interactions.column.severity': 'ತೀವ್ರತೆ',
+    'interactions.column.effect': 'ಏನಾಗಬಹುದು',
+    'interactions.effect.bleeding': 'ರಕ್ತಸ್ರಾವದ ಅಪಾಯ ಹೆಚ್ಚು',
+    'interactions.effect.serotoninSyndrome': 'ಸೆರೊಟೋನಿನ್ ಸಿಂಡ್ರೋಮ್ ಅಪಾಯ (ಚಡಪಡಿಕೆ, ಜ್ವರ, ನಡುಕ)',
+    'interactions.effect.respiratoryDepression': 'ತೀವ್ರ ಮಂಪರು ಮತ್ತು ನಿಧಾನ ಉಸಿರಾಟ',
+    'interactions.effect.myopathy': 'ಸ್ನಾಯು ಹಾನಿ (ಸ್ನಾಯು ನೋವು ಅಥವಾ ದೌರ್ಬಲ್ಯ)',
+    'interactions.effect.toxicity': 'ಔಷಧಿ ಮಟ್ಟ ಮತ್ತು ಅಡ್ಡಪರಿಣಾಮಗಳು ಹೆಚ್ಚಳ',
+    'interactions.effect.hyperkalemia': 'ಅಧಿಕ ಪೊಟ್ಯಾಸಿಯಮ್ ಮಟ್ಟ',
+    'interactions.effect.kidneyInjury': 'ಮೂತ್ರಪಿಂಡ ಹಾನಿ',
+    'interactions.effect.qtProlongation': 'ಅಸಹಜ ಹೃದಯ ಲಯ (QT ದೀರ್ಘತೆ)',
+    'interactions.effect.bradycardia': 'ತುಂಬಾ ನಿಧಾನ ಹೃದಯ ಬಡಿತ',
+    'interactions.effect.hypotension': 'ಅಪಾಯಕಾರಿಯಾಗಿ ಕಡಿಮೆ ರಕ್ತದೊತ್ತಡ',
+    'interactions.effect.reducedAbsorption': 'ಒಂದು ಔಷಧಿ ಕಡಿಮೆ ಹೀರಲ್ಪಡುತ್ತದೆ; ಕೆಲವು ಗಂಟೆಗಳ ಅಂತರದಲ್ಲಿ ತೆಗೆದುಕೊಳ್ಳಿ',
+    'interactions.effect.reducedEffect': 'ಒಂದು ಔಷಧಿ ಕಡಿಮೆ ಪರಿಣಾಮ ಬೀರಬಹುದು',
+    'interactions.effect.hypoglycemia': 'ಕಡಿಮೆ ರಕ್ತದ ಸಕ್ಕರೆ',
+    'interactions.warningTitle': 'ಇದು ನೀವು ಈಗಾಗಲೇ ತೆಗೆದುಕೊಳ್ಳುತ್ತಿರುವ ಔಷಧಿಗಳೊಂದಿಗೆ ಪರಸ್ಪರ ಕ್ರಿಯೆ ಮಾಡಬಹುದು',
+    'interactions.addAnyway': 'ಆದರೂ ಸೇರಿಸಿ',
+    'interactions.orderAnyway': 'ಆದರೂ ಆರ್ಡರ್ ಮಾಡಿ',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'ಮಾತ್ರೆ',
+    'drugs.form.capsule': 'ಕ್ಯಾಪ್ಸೂಲ್',
+    'drugs.form.syrup': 'ಸಿರಪ್',
+    'drugs.form.suspension': 'ಸಸ್ಪೆನ್ಷನ್',
+    'drugs.form.drops': 'ಹನಿಗಳು',
+    'drugs.form.eyeDrops': 'ಕಣ್ಣಿನ ಹನಿಗಳು',
+    'drugs.form.nasalSpray': 'ಮೂಗಿನ ಸ್ಪ್ರೇ',
+    'drugs.form.inhaler': 'ಇನ್‌ಹೇಲರ್',
+    'drugs.form.injection': 'ಚುಚ್ಚುಮದ್ದು',
+    'drugs.form.cream': 'ಕ್ರೀಮ್',
+    'drugs.form.ointment': 'ಮುಲಾಮು',
+    'drugs.form.gel': 'ಜೆಲ್',
+    'drugs.form.sachet': 'ಸ್ಯಾಶೆ',
+    'drugs.column.written': 'ಬರೆದಂತೆ',
+    'drugs.column.medicine': 'ಔಷಧ',
+    'drugs.confidence': '{percent}% ಹೊಂದಾಣಿಕೆ',
+    'drugs.lowConfidence': '{percent}% ಹೊಂದಾಣಿಕೆ – ಇದನ್ನು ಪರಿಶೀಲಿಸಿ',
+    'drugs.alternatives': 'ಇದೂ ಆಗಿರಬಹುದು: {names}',
+    'drugs.unmatched': 'ಔಷಧ ನಿಘಂಟಿನಲ್ಲಿ ಸಿಗಲಿಲ್ಲ',
+    'drugs.note': 'ಹೆಸರುಗಳನ್ನು ಈ ಸಾಧನದಲ್ಲೇ ಸಾಮಾನ್ಯ ಬ್ರ್ಯಾಂಡ್ ಮತ್ತು ಜೆನೆರಿಕ್ ಔಷಧಗಳ ಒಳಗೊಂಡ ನಿಘಂಟಿನೊಂದಿಗೆ ಹೊಂದಿಸಲಾಗುತ್ತದೆ. ಪ್ರತಿಯೊಂದನ್ನೂ ಪ್ಯಾಕ್ ಅಥವಾ ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನೊಂದಿಗೆ ಪರಿಶೀಲಿಸಿ; ಖಚಿತ ಹೊಂದಾಣಿಕೆಗಳನ್ನು ಮಾತ್ರ ಜ್ಞಾಪನೆಗಳು ಮತ್ತು ಆರ್ಡರ್‌ಗಳಲ್ಲಿ ಹೆಸರಿನಿಂದ ಬಳಸಲಾಗುತ್ತದೆ.',
+
+    // --- Red-flag triage ---
+    'triage.title': 'ಇದು ವೈದ್ಯಕೀಯ ತುರ್ತು ಪರಿಸ್ಥಿತಿ ಆಗಿರಬಹುದು',
+    'triage.message': 'ನೀವು ನಮೂದಿಸಿದ ಮಾಹಿತಿಯ ಆಧಾರದ ಮೇಲೆ, AI ಉತ್ತರಕ್ಕಾಗಿ ಕಾಯದೆ ಈಗಲೇ ತುರ್ತು ನೆರವು ಪಡೆಯಿರಿ.',
+    'triage.reason.cardiac': 'ಎದೆ ನೋವು ಅಥವಾ ಒತ್ತಡ ಹೃದಯಾಘಾತದ ಲಕ್ಷಣವಾಗಿರಬಹುದು.',
+    'triage.reason.breathing': 'ತೀವ್ರ ಉಸಿರಾಟದ ತೊಂದರೆಗೆ ತಕ್ಷಣದ ಚಿಕಿತ್ಸೆ ಬೇಕು.',
+    'triage.reason.stroke': 'ಹಠಾತ್ ದೌರ್ಬಲ್ಯ, ಮುಖ ಜೋತುಬೀಳುವುದು, ತೊದಲು ಮಾತು ಅಥವಾ ಹಠಾತ್ ತೀವ್ರ ತಲೆನೋವು ಪಾರ್ಶ್ವವಾಯುವಿನ ಲಕ್ಷಣಗಳಾಗಿರಬಹುದು.',
+    'triage.reason.selfHarm': 'ನಿಮಗೆ ನೀವೇ ಹಾನಿ ಮಾಡಿಕೊಳ್ಳುವ ಆಲೋಚನೆಗಳನ್ನು ಉಲ್ಲೇಖಿಸಿದ್ದೀರಿ. ನೀವು ಒಂಟಿಯಲ್ಲ; ತರಬೇತಿ ಪಡೆದ ಸಲಹೆಗಾರರು ಈಗಲೇ ಲಭ್ಯರಿದ್ದಾರೆ.',
+    'triage.reason.bleeding': 'ಅಧಿಕ ಅಥವಾ ನಿಲ್ಲದ ರಕ್ತಸ್ರಾವಕ್ಕೆ ತಕ್ಷಣದ ಚಿಕಿತ್ಸೆ ಬೇಕು.',
+    'triage.reason.consciousness': 'ಮೂರ್ಛೆ, ಸೆಳೆತ ಅಥವಾ ಪ್ರತಿಕ್ರಿಯಿಸದಿರುವುದಕ್ಕೆ ತಕ್ಷಣದ ಚಿಕಿತ್ಸೆ ಬೇಕು.',
+    'triage.reason.allergy': 'ಗಂಟಲು, ನಾಲಿಗೆ ಅಥವಾ ಮುಖದ ಊತ ತೀವ್ರ ಅಲರ್ಜಿ ಪ್ರತಿಕ್ರಿಯೆಯಾಗಿರಬಹುದು.',
+    'triage.reason.highFever': '40 °C ಅಥವಾ ಅದಕ್ಕಿಂತ ಹೆಚ್ಚಿನ ತಾಪಮಾನಕ್ಕೆ ತಕ್ಷಣದ ಚಿಕಿತ್ಸೆ ಬೇಕು.',
+    'triage.reason.infantFever': 'ಒಂದು ವರ್ಷದೊಳಗಿನ ಮಗುವಿಗೆ ಜ್ವರ ಬಂದರೆ ತಕ್ಷಣ ವೈದ್ಯರಿಗೆ ತೋರಿಸಬೇಕು.',
+    'triage.reason.hypothermia': '35 °C ಗಿಂತ ಕಡಿಮೆ ದೇಹದ ತಾಪಮಾನಕ್ಕೆ ತಕ್ಷಣದ ಚಿಕಿತ್ಸೆ ಬೇಕು.',
+    'triage.reason.meningitis': 'ಜ್ವರದೊಂದಿಗೆ ಕುತ್ತಿಗೆ ಬಿಗಿತ ಮೆನಿಂಜೈಟಿಸ್‌ನ ಲಕ್ಷಣವಾಗಿರಬಹುದು.',
+    'triage.call': '{number} ಗೆ ಕರೆ ಮಾಡಿ',
+    'triage.number.emergency': 'ಎಲ್ಲಾ ತುರ್ತು ಪರಿಸ್ಥಿತಿಗಳು',
+    'triage.number.ambulance': 'ಆಂಬ್ಯುಲೆನ್ಸ್',
+    'triage.number.mentalHealth': 'ಟೆಲಿ-ಮಾನಸ್ ಮಾನಸಿಕ ಆರೋಗ್ಯ ಸಹಾಯವಾಣಿ',
+    'triage.findEmergency': '24/7 ತುರ್ತು ಚಿಕಿತ್ಸೆ ಹುಡುಕಿ',
+    'triage.continue': 'ಅರ್ಥವಾಯಿತು, ಆದರೂ ಮುಂದುವರಿಸಿ',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'ಏನು ಕಳುಹಿಸಲಾಗುತ್ತದೆ',
+    'privacy.hiddenCount': 'ಮರೆಮಾಡಿದ ವೈಯಕ್ತಿಕ ವಿವರಗಳು: {count}',
+    'privacy.previewNote': 'ಕೆಳಗಿನ ಪಠ್ಯ ಮಾತ್ರ ಈ ಸಾಧನದಿಂದ ಹೊರಗೆ ಹೋಗುತ್ತದೆ. ಮರೆಮಾಡಿದ ವಿವರಗಳನ್ನು ಈ ಸಾಧನದಲ್ಲೇ ಉತ್ತರಕ್ಕೆ ಮರಳಿ ಸೇರಿಸಲಾಗುತ್ತದೆ.',
+    'privacy.removed': 'ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+    'privacy.type.name': 'ಹೆಸರು',
+    'privacy.type.phone': 'ಫೋನ್ ಸಂಖ್ಯೆ',
+    'privacy.type.email': 'ಇ-ಮೇಲ್',
+    'privacy.type.address': 'ವಿಳಾಸ',
+    'privacy.type.id': 'ಗುರುತಿನ ಸಂಖ್ಯೆ',
+    'privacy.type.dob': 'ಹುಟ್ಟಿದ ದಿನಾಂಕ',
+    'privacy.imageNote': 'ಈ ಚಿತ್ರವನ್ನು ತೋರಿಸಿದಂತೆಯೇ ಕಳುಹಿಸಲಾಗುತ್ತದೆ. ಮೊದಲು ಹೆಸರುಗಳು, ವಿಳಾಸಗಳು ಅಥವಾ ಗುರುತಿನ ಸಂಖ್ಯೆಗಳ ಮೇಲೆ ಎಳೆದು ಅವುಗಳನ್ನು ಮುಚ್ಚಿ.',
+    'privacy.undoCover': 'ಕೊನೆಯ ಮುಚ್ಚಳ ರದ್ದುಮಾಡಿ',
+    'privacy.clearCovers': 'ಎಲ್ಲ ಮುಚ್ಚಳಗಳನ್ನು ತೆಗೆದುಹಾಕಿ',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'ಕ್ಯಾಲೊರಿ ಕೌಂಟರ್',
+    'calculator.subtitle': 'ನಿಮ್ಮ ವಯಸ್ಸು, ಲಿಂಗ, ಚಟುವಟಿಕೆ ಮಟ್ಟ ಮತ್ತು ದೇಹದ ಅಳತೆಗಳ ಆಧಾರದ ಮೇಲೆ ದೈನಂದಿನ ಕ್ಯಾಲೊರಿ ಅಗತ್ಯವನ್ನು ಅಂದಾಜು ಮಾಡಿ.',
+    'calculator.age': 'ವಯಸ್ಸು',
+    'calculator.gender': 'ಲಿಂಗ',
+    'calculator.male': 'ಪುರುಷ',
+    'calculator.female': 'ಮಹಿಳೆ',
+    'calculator.weight': 'ತೂಕ (kg)',
+    'calculator.height': 'ಎತ್ತರ (cm)',
+    'calculator.activity': 'ಚಟುವಟಿಕೆ ಮಟ್ಟ',
+    'calculator.activity.sedentary': 'ಜಡ (ಕಡಿಮೆ ಅಥವಾ ವ್ಯಾಯಾಮವಿಲ್ಲ)',
+    'calculator.activity.light': 'ಲಘು ಚಟುವಟಿಕೆ (ವಾರಕ್ಕೆ 1-3 ದಿನ ಲಘು ವ್ಯಾಯಾಮ)',
+    'calculator.activity.moderate': 'ಮಧ್ಯಮ ಚಟುವಟಿಕೆ (ವಾರಕ್ಕೆ 3-5 ದಿನ ಮಧ್ಯಮ ವ್ಯಾಯಾಮ)',
+    'calculator.activity.active': 'ಹೆಚ್ಚು ಚಟುವಟಿಕೆ (ವಾರಕ್ಕೆ 6-7 ದಿನ ಕಠಿಣ ವ್ಯಾಯಾಮ)',
+    'calculator.activity.extra': 'ಅತಿ ಹೆಚ್ಚು ಚಟುವಟಿಕೆ (ಅತಿ ಕಠಿಣ ವ್ಯಾಯಾಮ/ದೈಹಿಕ ಶ್ರಮದ ಕೆಲಸ)',
+    'calculator.submit': 'ಕ್ಯಾಲೊರಿ ಲೆಕ್ಕಹಾಕಿ',
+    'calculator.resultTitle': 'ಕ್ಯಾಲೊರಿ ಅಗತ್ಯಗಳು',
+    'calculator.units': 'ಘಟಕಗಳು',
+    'calculator.units.metric': 'ಮೆಟ್ರಿಕ್ (kg, cm)',
+    'calculator.units.imperial': 'ಇಂಪೀರಿಯಲ್ (lb, ft/in)',
+    'calculator.weightLb': 'ತೂಕ (lb)',
+    'calculator.heightImperial': 'ಎತ್ತರ (ft, in)',
+    'calculator.feet': 'ಅಡಿ',
+    'calculator.inches': 'ಇಂಚು',
+    'calculator.bodyFat': 'ದೇಹದ ಕೊಬ್ಬು (%)',
+    'calculator.bodyFatRequired': 'ಕ್ಯಾಚ್-ಮ್ಯಾಕ್‌ಆರ್ಡಲ್‌ಗೆ ದೇಹದ ಕೊಬ್ಬಿನ ಶೇಕಡಾವಾರು ಬೇಕು.',
+    'calculator.formula': 'BMR ಸೂತ್ರ',
+    'calculator.formula.mifflin': 'ಮಿಫ್ಲಿನ್-ಸೇಂಟ್ ಜಿಯೋರ್',
+    'calculator.formula.harris': 'ಹ್ಯಾರಿಸ್-ಬೆನೆಡಿಕ್ಟ್ (ಪರಿಷ್ಕೃತ)',
+    'calculator.formula.katch': 'ಕ್ಯಾಚ್-ಮ್ಯಾಕ್‌ಆರ್ಡಲ್ (ದೇಹದ ಕೊಬ್ಬು ಬಳಸುತ್ತದೆ)',
+    'calculator.formula.child': 'ಮಕ್ಕಳ ಶಕ್ತಿ ಅಗತ್ಯ (IOM)',
+    'calculator.formulaUsed': '{formula} ಸಮೀಕರಣದಿಂದ ಲೆಕ್ಕಹಾಕಲಾಗಿದೆ.',
+    'calculator.bmr': 'ಬೇಸಲ್ ಮೆಟಾಬಾಲಿಕ್ ದರ (BMR)',
+    'calculator.tdee': 'ದೈನಂದಿನ ಶಕ್ತಿ ವೆಚ್ಚ (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/ದಿನ',
+    'calculator.column.goal': 'ಗುರಿ',
+    'calculator.column.calories': 'kcal/ದಿನ',
+    'calculator.column.protein': 'ಪ್ರೋಟೀನ್',
+    'calculator.column.carbs': 'ಕಾರ್ಬೋಹೈಡ್ರೇಟ್',
+    'calculator.column.fat': 'ಕೊಬ್ಬು',
+    'calculator.goal.lose-fast': 'ವಾರಕ್ಕೆ 0.5 kg ಇಳಿಸಿ',
+    'calculator.goal.lose': 'ವಾರಕ್ಕೆ 0.25 kg ಇಳಿಸಿ',
+    'calculator.goal.maintain': 'ತೂಕ ಕಾಯ್ದುಕೊಳ್ಳಿ',
+    'calculator.goal.gain': 'ವಾರಕ್ಕೆ 0.25 kg ಹೆಚ್ಚಿಸಿ',
+    'calculator.goal.gain-fast': 'ವಾರಕ್ಕೆ 0.5 kg ಹೆಚ್ಚಿಸಿ',
+    'calculator.goal.growth': 'ಆರೋಗ್ಯಕರ ಬೆಳವಣಿಗೆ',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'ವೈದ್ಯಕೀಯ ಮೇಲ್ವಿಚಾರಣೆ ಇಲ್ಲದೆ ಸೂಚಿಸುವ ಕನಿಷ್ಠ ದೈನಂದಿನ ಸೇವನೆಗೆ ಏರಿಸಲಾಗಿದೆ.',
+    'calculator.macroNote': 'ಪ್ರೋಟೀನ್ ದೇಹದ ತೂಕದ ಪ್ರತಿ kgಗೆ, ಕೊಬ್ಬು ಕ್ಯಾಲೊರಿಯ 25%, ಉಳಿದದ್ದು ಕಾರ್ಬೋಹೈಡ್ರೇಟ್‌ನಿಂದ.',
+    'calculator.childFormulaUsed': 'ದೈನಂದಿನ ಶಕ್ತಿ ಅಗತ್ಯ ಮಕ್ಕಳಿಗಾಗಿ Institute of Medicine ಸಮೀಕರಣಗಳಿಂದ, ಬೆಳವಣಿಗೆಗೆ ಬಳಸುವ ಶಕ್ತಿ ಸೇರಿ; BMR Schofield ಸಮೀಕರಣಗಳಿಂದ.',
+    'calculator.childMacroNote': 'ಪ್ರೋಟೀನ್ ಮಗುವಿನ ವಯಸ್ಸಿಗೆ ಶಿಫಾರಸು ಮಾಡಿದ ಪ್ರಮಾಣದಲ್ಲಿ ಪ್ರತಿ kg ಗೆ, ಕೊಬ್ಬು ವಯಸ್ಸಿಗೆ ಅನುಗುಣವಾಗಿ ಕ್ಯಾಲೊರಿಗಳ 30–45%, ಉಳಿದದ್ದು ಕಾರ್ಬೋಹೈಡ್ರೇಟ್‌ಗಳಿಂದ.',
+    'calculator.childNote': '19 ವರ್ಷಕ್ಕಿಂತ ಕಡಿಮೆ ವಯಸ್ಸಿಗೆ, ಕ್ಯಾಲ್ಕುಲೇಟರ್ ಬೆಳವಣಿಗೆಯ ಶಕ್ತಿ ಸೇರಿದ ಮಕ್ಕಳ ಶಕ್ತಿ ಅಗತ್ಯವನ್ನು ಬಳಸುತ್ತದೆ ಮತ್ತು ತೂಕ ಇಳಿಕೆ ಗುರಿಗಳನ್ನು ನೀಡುವುದಿಲ್ಲ. ಮಗುವಿನ ವಯಸ್ಸನ್ನು ವರ್ಷದ ಭಾಗವಾಗಿ ನಮೂದಿಸಿ, ಉದಾ. ಆರು ತಿಂಗಳಿಗೆ 0.5. ಮಗುವಿನ ತೂಕದ ಬಗ್ಗೆ ಯಾವುದೇ ಚಿಂತೆಗೆ ಮಕ್ಕಳ ವೈದ್ಯರೊಂದಿಗೆ ಮಾತನಾಡಿ.',
+    'calculator.openGrowth': 'ಬೆಳವಣಿಗೆ ಪರ್ಸೆಂಟೈಲ್‌ಗಳನ್ನು ನೋಡಿ →',
+    'calculator.commentary': 'AI ಟಿಪ್ಪಣಿ ಪಡೆಯಿರಿ',
+    'calculator.commentaryTitle': 'ಟಿಪ್ಪಣಿ',
+    'calculator.commentaryError': 'ಈ ಅಂಕಿಅಂಶಗಳ ಬಗ್ಗೆ ಟಿಪ್ಪಣಿ ಪಡೆಯಲಾಗಲಿಲ್ಲ.',
+    'calculator.useAsTarget': 'ದಿನಚರಿ ಗುರಿಯಾಗಿ ಬಳಸಿ',
+    'calculator.targetSet': 'ದಿನಚರಿ ಗುರಿ ✓',
+    'calculator.targetError': 'ದಿನಚರಿ ಗುರಿಯನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+    'calculator.openDiary': 'ಆಹಾರ ದಿನಚರಿ ತೆರೆಯಿರಿ →',
+    'calculator.openMealPlan': 'ಒಂದು ವಾರದ ಊಟ ಯೋಜಿಸಿ →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಸ್ಕ್ಯಾನರ್',
+    'scanner.subtitle': 'ಪಠ್ಯವನ್ನು ಹೊರತೆಗೆಯಲು ಮತ್ತು ಔಷಧಗಳನ್ನು ಗುರುತಿಸಲು ನಿಮ್ಮ ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಚಿತ್ರವನ್ನು ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'scanner.upload': 'ಫೋಟೋಗಳು ಅಥವಾ PDF ಸೇರಿಸಲು ಕ್ಲಿಕ್ ಮಾಡಿ',
+    'scanner.formats': 'PNG, JPG ಅಥವಾ PDF. ಒಂದಕ್ಕಿಂತ ಹೆಚ್ಚು ಪುಟಗಳ ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ಗೆ ಹಲವನ್ನು ಸೇರಿಸಿ.',
+    'scanner.preview': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಮುನ್ನೋಟ',
+    'scanner.resultTitle': 'ಸ್ಕ್ಯಾನ್ ಫಲಿತಾಂಶಗಳು',
+    'scanner.extractedText': 'ಹೊರತೆಗೆದ ಪಠ್ಯ',
+    'scanner.speakText': 'ಹೊರತೆಗೆದ ಪಠ್ಯ: {text}',
+    'scanner.noText': 'ಯಾವುದೇ ಪಠ್ಯ ಕಂಡುಬಂದಿಲ್ಲ.',
+    'scanner.copy': 'ಪಠ್ಯ ನಕಲಿಸಿ',
+    'scanner.copied': 'ಕ್ಲಿಪ್‌ಬೋರ್ಡ್‌ಗೆ ನಕಲಿಸಲಾಗಿದೆ!',
+    'scanner.medications': 'ಗುರುತಿಸಿದ ಔಷಧಗಳು',
+    'scanner.orderMedicines': 'ಈ ಔಷಧಗಳನ್ನು ಆರ್ಡರ್ ಮಾಡಿ',
+    'scanner.error': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಸ್ಕ್ಯಾನ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+    'scanner.scan': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಸ್ಕ್ಯಾನ್ ಮಾಡಿ',
+    'scanner.camera': 'ಕ್ಯಾಮೆರಾ ಬಳಸಿ',
+    'scanner.cameraView': 'ಕ್ಯಾಮೆರಾ ನೋಟ',
+    'scanner.cameraHint': 'ಪುಟವನ್ನು ಚೌಕಟ್ಟಿನೊಳಗೆ ಇರಿಸಿ, ನಂತರ ಸೆರೆಹಿಡಿಯಿರಿ. ಪ್ರತಿ ಪುಟವನ್ನು ಒಂದೊಂದಾಗಿ ಸೆರೆಹಿಡಿಯಿರಿ.',
+    'scanner.capture': 'ಪುಟ {number} ಸೆರೆಹಿಡಿಯಿರಿ',
+    'scanner.cameraDone': 'ಮುಗಿದಿದೆ',
+    'scanner.cameraError': 'ಕ್ಯಾಮೆರಾ ತೆರೆಯಲು ಆಗಲಿಲ್ಲ. ಕ್ಯಾಮೆರಾ ಅನುಮತಿ ನೀಡಲಾಗಿದೆಯೇ ಎಂದು ಪರಿಶೀಲಿಸಿ.',
+    'scanner.page': 'ಪುಟ {number}',
+    'scanner.moveEarlier': 'ಪುಟ {number} ಅನ್ನು ಮುಂದಕ್ಕೆ ಸರಿಸಿ',
+    'scanner.removePage': 'ತೆಗೆದುಹಾಕಿ',
+    'scanner.pdfNote': '{name} ಅನ್ನು ಇದ್ದಂತೆಯೇ ಕಳುಹಿಸಲಾಗುತ್ತದೆ, ಆದ್ದರಿಂದ PDF ನಲ್ಲಿನ ವಿವರಗಳನ್ನು ಮುಚ್ಚಲು ಸಾಧ್ಯವಿಲ್ಲ. PDF ಮಾಡುವ ಮೊದಲು ಹೆಸರು ಮತ್ತು ವಿಳಾಸಗಳನ್ನು ಮುಚ್ಚಿ, ಅಥವಾ ಪುಟಗಳ ಫೋಟೋ ತೆಗೆಯಿರಿ.',
+    'scanner.unsupported': '{names}: ಚಿತ್ರಗಳು ಮತ್ತು PDF ಗಳನ್ನು ಮಾತ್ರ ಸ್ಕ್ಯಾನ್ ಮಾಡಬಹುದು.',
+    'scanner.readError': 'ಆಯ್ಕೆಮಾಡಿದ ಫೈಲ್‌ಗಳನ್ನು ಓದಲು ಆಗಲಿಲ್ಲ.',
+    'scanner.tooLarge': 'ಈ ಪುಟಗಳು ಒಟ್ಟಿಗೆ ಕಳುಹಿಸಲು ತುಂಬಾ ದೊಡ್ಡದಾಗಿವೆ. ಒಂದು ಪುಟ ತೆಗೆದುಹಾಕಿ ಅಥವಾ ಚಿಕ್ಕ ಫೋಟೋಗಳನ್ನು ಬಳಸಿ.',
+    'scanner.cleanUp': 'ಫೋಟೋ ಸ್ವಚ್ಛಗೊಳಿಸಿ: ಪುಟಕ್ಕೆ ಕತ್ತರಿಸಿ, ನೇರಗೊಳಿಸಿ ಮತ್ತು ಬೆಳಕನ್ನು ಸಮಗೊಳಿಸಿ',
+    'scanner.before': 'ಮೂಲ',
+    'scanner.after': 'ಸ್ವಚ್ಛಗೊಳಿಸಿದ್ದು, ಕಳುಹಿಸುವಂತೆ',
+    'scanner.original': 'ಮೂಲ ಫೋಟೋ',
+    'scanner.cropHint': 'ಮೂಲೆಗಳನ್ನು ಕಾಗದದ ಅಂಚುಗಳ ಮೇಲೆ ಎಳೆಯಿರಿ. ಕತ್ತರಿಸುವಿಕೆ ಬದಲಾಯಿಸಿದರೆ ಈ ಪುಟದ ಮುಚ್ಚುಗಳು ತೆಗೆದುಹೋಗುತ್ತವೆ.',
+    'scanner.detectPage': 'ಪುಟವನ್ನು ಮತ್ತೆ ಹುಡುಕಿ',
+    'scanner.wholePhoto': 'ಪೂರ್ಣ ಫೋಟೋ ಬಳಸಿ',
+    'scanner.cornerTopLeft': 'ಮೇಲಿನ ಎಡ ಮೂಲೆ',
+    'scanner.cornerTopRight': 'ಮೇಲಿನ ಬಲ ಮೂಲೆ',
+    'scanner.cornerBottomRight': 'ಕೆಳಗಿನ ಬಲ ಮೂಲೆ',
+    'scanner.cornerBottomLeft': 'ಕೆಳಗಿನ ಎಡ ಮೂಲೆ',
+    'scanner.preparing': 'ಪುಟಗಳನ್ನು ಸಿದ್ಧಪಡಿಸಲಾಗುತ್ತಿದೆ…',
+    'scanner.cleanUpError': 'ಈ ಫೋಟೋವನ್ನು ಸ್ವಚ್ಛಗೊಳಿಸಲು ಆಗಲಿಲ್ಲ. ಬೇರೆ ರೀತಿ ಕತ್ತರಿಸಿ ನೋಡಿ, ಅಥವಾ ಇದ್ದಂತೆಯೇ ಕಳುಹಿಸಿ.',
+    'scanner.schedule': 'ಡೋಸ್ ವೇಳಾಪಟ್ಟಿ',
+    'scanner.startDate': 'ಕೋರ್ಸ್‌ನ ಮೊದಲ ದಿನ',
+    'scanner.remindersNote': 'ಜ್ಞಾಪನೆಗಳನ್ನು ಬೆಳಿಗ್ಗೆ 08:00, ಮಧ್ಯಾಹ್ನ 14:00, ಸಂಜೆ 18:00 ಮತ್ತು ರಾತ್ರಿ 21:00 ಕ್ಕೆ ಹೊಂದಿಸಲಾಗುತ್ತದೆ, ಮತ್ತು ಪ್ರತಿ ಕೋರ್ಸ್ ಕೊನೆಯಲ್ಲಿ ನಿಲ್ಲುತ್ತವೆ.',
+    'scanner.noSchedule': 'ಈ ಔಷಧಿಗಳಲ್ಲಿ ಯಾವುದಕ್ಕೂ ಜ್ಞಾಪನೆ ಹೊಂದಿಸಬಹುದಾದ ನಿಯಮಿತ ವೇಳಾಪಟ್ಟಿ ಇಲ್ಲ.',
+    'scanner.unscheduled': '{names} ಗೆ ಜ್ಞಾಪನೆಗಳಿಲ್ಲ; ಇವುಗಳನ್ನು ಅಗತ್ಯವಿದ್ದಾಗ ಮಾತ್ರ, ಒಮ್ಮೆ, ಅಥವಾ ಓದಲಾಗದ ವೇಳಾಪಟ್ಟಿಯಲ್ಲಿ ತೆಗೆದುಕೊಳ್ಳಲಾಗುತ್ತದೆ.',
+    'scanner.createReminders': '{count} ಜ್ಞಾಪನೆಗಳನ್ನು ರಚಿಸಿ',
+    'scanner.remindersCreated': '{count} ಜ್ಞಾಪನೆಗಳನ್ನು ರಚಿಸಲಾಗಿದೆ.',
+    'scanner.openReminders': 'ಜ್ಞಾಪನೆಗಳನ್ನು ನೋಡಿ →',
+    'scanner.remindersError': 'ಜ್ಞಾಪನೆಗಳನ್ನು ರಚಿಸಲು ವಿಫಲವಾಗಿದೆ.',
+    'scanner.review.title': 'ಓದಿದ್ದನ್ನು ಪರಿಶೀಲಿಸಿ',
+    'scanner.review.hint': 'ಪ್ರತಿ ಔಷಧವನ್ನು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನೊಂದಿಗೆ ಹೋಲಿಸಿ, ತಪ್ಪಾಗಿ ಓದಿದ್ದನ್ನು ಸರಿಪಡಿಸಿ. ಪುಟದಲ್ಲಿನ ಪೆಟ್ಟಿಗೆಯನ್ನು ಆರಿಸಿದರೆ ಅದರ ಔಷಧಕ್ಕೆ ಹೋಗುತ್ತೀರಿ. ನೀವು ದೃಢೀಕರಿಸುವವರೆಗೆ ಏನನ್ನೂ ಜ್ಞಾಪನೆಗಳು, ಹೊಂದಾಣಿಕೆಗಳು ಅಥವಾ ಆರ್ಡರ್‌ಗಳಿಗೆ ಬಳಸಲಾಗುವುದಿಲ್ಲ.',
+    'scanner.review.prescriber': 'ಔಷಧ ಬರೆದ ವೈದ್ಯರು',
+    'scanner.review.date': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ದಿನಾಂಕ',
+    'scanner.review.unreadDate': '"{date}" ಎಂದು ಓದಲಾಗಿದೆ – ದಿನಾಂಕ ಆರಿಸಿ',
+    'scanner.review.medicine': 'ಔಷಧ {number}',
+    'scanner.review.field.name': 'ಹೆಸರು',
+    'scanner.review.field.strength': 'ಸಾಮರ್ಥ್ಯ',
+    'scanner.review.field.form': 'ರೂಪ',
+    'scanner.review.field.dose': 'ಪ್ರಮಾಣ',
+    'scanner.review.field.frequency': 'ಎಷ್ಟು ಬಾರಿ',
+    'scanner.review.field.duration': 'ಎಷ್ಟು ದಿನ',
+    'scanner.review.field.route': 'ಮಾರ್ಗ',
+    'scanner.review.field.instructions': 'ಸೂಚನೆಗಳು',
+    'scanner.review.check': 'ಇದನ್ನು ಪರಿಶೀಲಿಸಿ',
+    'scanner.review.region': 'ಔಷಧ {number}: {name}',
+    'scanner.review.pdfNote': 'ಪ್ರತಿ ಔಷಧ ಎಲ್ಲಿ ಬರೆದಿದೆ ಎಂಬುದನ್ನು ಫೋಟೋಗಳಲ್ಲಿ ಮಾತ್ರ ತೋರಿಸಬಹುದು, PDFಗಳಲ್ಲಿ ಅಲ್ಲ.',
+    'scanner.review.addMedicine': 'ಔಷಧ ಸೇರಿಸಿ',
+    'scanner.review.removeMedicine': 'ಔಷಧ {number} ತೆಗೆದುಹಾಕಿ',
+    'scanner.review.toCheck': 'ಗುರುತಿಸಿದ {count} ಭಾಗಗಳನ್ನು ಓದಲು ಕಷ್ಟವಾಗಿತ್ತು ಅಥವಾ ಅರ್ಥವಾಗಲಿಲ್ಲ.',
+    'scanner.review.confirm': 'ದೃಢೀಕರಿಸಿ',
+    'scanner.review.saveError': 'ಪರಿಶೀಲಿಸಿದ ಸ್ಕ್ಯಾನ್ ಉಳಿಸಲಾಗಲಿಲ್ಲ.',
+    'scanner.review.confirmed': 'ನೀವು ಈ ಓದುವಿಕೆಯನ್ನು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನೊಂದಿಗೆ ಪರಿಶೀಲಿಸಿದ್ದೀರಿ.',
+    'scanner.review.edit': 'ಸಂಪಾದಿಸಿ',
+    'scanner.review.unconfirmed': 'ಈ ಓದುವಿಕೆಯನ್ನು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನೊಂದಿಗೆ ಪರಿಶೀಲಿಸಿಲ್ಲ.',
+    'prescription.column.medicine': 'ಔಷಧಿ',
+    'prescription.column.dose': 'ಡೋಸ್',
+    'prescription.column.frequency': 'ಎಷ್ಟು ಬಾರಿ',
+    'prescription.column.duration': 'ಎಷ್ಟು ದಿನ',
+    'prescription.column.route': 'ತೆಗೆದುಕೊಳ್ಳುವ ವಿಧಾನ',
+    'prescription.column.instructions': 'ಸೂಚನೆಗಳು',
+    'prescription.at': '{times} ಕ್ಕೆ',
+    'prescription.everyDays': 'ಪ್ರತಿ {days} ದಿನಗಳಿಗೊಮ್ಮೆ {times} ಕ್ಕೆ',
+    'prescription.asNeeded': 'ಅಗತ್ಯವಿದ್ದಾಗ ಮಾತ್ರ',
+    'prescription.once': 'ತಕ್ಷಣ ಒಂದು ಡೋಸ್',
+    'prescription.days': '{days} ದಿನಗಳು',
+    'prescription.ongoing': 'ಮುಂದುವರಿಸಿ',
+    'prescription.unread': 'ಗುರುತಿಸಲಾಗಿಲ್ಲ',
+    'prescription.prescriber': 'ವೈದ್ಯರು: {name}',
+    'prescription.date': 'ದಿನಾಂಕ {date}',
+    'prescription.note': 'ಎಷ್ಟು ಬಾರಿ ಮತ್ತು ಎಷ್ಟು ದಿನ ಎಂಬುದನ್ನು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನ ಸಂಕ್ಷಿಪ್ತ ರೂಪಗಳಿಂದ ಓದಲಾಗುತ್ತದೆ; ಉದಾ. 1-0-1 ಎಂದರೆ ಬೆಳಿಗ್ಗೆ ಮತ್ತು ರಾತ್ರಿ, 5/7 ಎಂದರೆ ಐದು ದಿನಗಳು. ಇವುಗಳನ್ನು ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್‌ನೊಂದಿಗೆ ಹೋಲಿಸಿ, ಏನಾದರೂ ಸ್ಪಷ್ಟವಿಲ್ಲದಿದ್ದರೆ ನಿಮ್ಮ ವೈದ್ಯರು ಅಥವಾ ಫಾರ್ಮಸಿಸ್ಟ್ ಅವರನ್ನು ಕೇಳಿ.',
+    'prescription.route.oral': 'ಬಾಯಿಯ ಮೂಲಕ',
+    'prescription.route.sublingual': 'ನಾಲಿಗೆಯ ಕೆಳಗೆ',
+    'prescription.route.topical': 'ಚರ್ಮದ ಮೇಲೆ',
+    'prescription.route.eye': 'ಕಣ್ಣಿಗೆ',
+    'prescription.route.ear': 'ಕಿವಿಗೆ',
+    'prescription.route.nasal': 'ಮೂಗಿಗೆ',
+    'prescription.route.inhaled': 'ಉಸಿರಾಟದ ಮೂಲಕ',
+    'prescription.route.injection': 'ಚುಚ್ಚುಮದ್ದು',
+    'prescription.route.rectal': 'ಗುದದ್ವಾರದ ಮೂಲಕ',
+    'prescription.route.vaginal': 'ಯೋನಿಯ ಮೂಲಕ',
+    'prescription.food.beforeFood': 'ಊಟಕ್ಕೆ ಮೊದಲು',
+    'prescription.food.afterFood': 'ಊಟದ ನಂತರ',
+    'prescription.food.withFood': 'ಊಟದೊಂದಿಗೆ',
+
+    // --- Hospitals ---
+    'hospitals.title': 'ಹತ್ತಿರದ ಆಸ್ಪತ್ರೆಗಳು',
+    'hospitals.subtitle': 'ನಿಮ್ಮ ಪ್ರದೇಶದ ವೈದ್ಯಕೀಯ ಕೇಂದ್ರಗಳನ್ನು ಹುಡುಕಿ ಮತ್ತು ನೇರವಾಗಿ ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಿ.',
+    'hospitals.location': 'ನಿಮ್ಮ ನಗರ ಅಥವಾ ವಿಳಾಸ ನಮೂದಿಸಿ',
+    'hospitals.search': 'ಹುಡುಕಿ',
+    'hospitals.resultsFor': '{location} ಹತ್ತಿರದ ಆಸ್ಪತ್ರೆಗಳು',
+    'hospitals.viewMap': 'ನಕ್ಷೆಯಲ್ಲಿ ನೋಡಿ',
+    'hospitals.book': 'ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಿ',
+    'hospitals.sources': 'ಮೂಲಗಳು:',
+    'hospitals.notInSearch': 'ನಿಮ್ಮ ಇತ್ತೀಚಿನ ಹುಡುಕಾಟದಲ್ಲಿ ಆ ಆಸ್ಪತ್ರೆ ಕಂಡುಬಂದಿಲ್ಲ. ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಲು ದಯವಿಟ್ಟು ಮತ್ತೆ ಹುಡುಕಿ.',
+    'hospitals.backToSearch': 'ಹುಡುಕಾಟಕ್ಕೆ ಹಿಂತಿರುಗಿ',
+    'hospitals.bookAt': '{name} ನಲ್ಲಿ ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಿ',
+    'hospitals.date': 'ದಿನಾಂಕ ಆಯ್ಕೆಮಾಡಿ',
+    'hospitals.time': 'ಸಮಯ ಆಯ್ಕೆಮಾಡಿ',
+    'hospitals.cancel': 'ರದ್ದುಮಾಡಿ',
+    'hospitals.confirm': 'ಬುಕಿಂಗ್ ದೃಢೀಕರಿಸಿ',
+    'hospitals.confirmed': '{hospital} ನಲ್ಲಿ {date} ರಂದು {time} ಕ್ಕೆ ನಿಮ್ಮ ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ದೃಢೀಕರಿಸಲಾಗಿದೆ.',
+    'hospitals.confirmationNumber': 'ನಿಮ್ಮ ದೃಢೀಕರಣ ಸಂಖ್ಯೆ:',
+    'hospitals.setReminder': 'ಜ್ಞಾಪನೆ ಹೊಂದಿಸಿ (24 ಗಂಟೆ ಮೊದಲು)',
+    'hospitals.reminderSet': 'ಜ್ಞಾಪನೆ ಹೊಂದಿಸಲಾಗಿದೆ!',
+    'hospitals.reminderMessage': 'ಜ್ಞಾಪನೆ: ನಾಳೆ {time} ಕ್ಕೆ {hospital} ನಲ್ಲಿ ನಿಮಗೆ ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಇದೆ.',
+    'hospitals.reminderTooLate': 'ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್‌ಗೆ 24 ಗಂಟೆಗಿಂತ ಕಡಿಮೆ ಸಮಯವಿದೆ. ಕಳೆದ ಸಮಯಕ್ಕೆ ಜ್ಞಾಪನೆ ಹೊಂದಿಸಲು ಸಾಧ್ಯವಿಲ್ಲ.',
+    'hospitals.searchError': 'ಆಸ್ಪತ್ರೆಗಳನ್ನು ಹುಡುಕಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+    'hospitals.bookingError': 'ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್ ಬುಕ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+    'hospitals.emergencyOnly': '24/7 ತುರ್ತು ವಿಭಾಗ ಇರುವ ಆಸ್ಪತ್ರೆಗಳನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ.',
+    'hospitals.showAll': 'ಎಲ್ಲಾ ಆಸ್ಪತ್ರೆಗಳನ್ನು ತೋರಿಸಿ',
+    'hospitals.emergencyBadge': '24/7 ತುರ್ತು ಸೇವೆ',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'ಔಷಧ ವಿತರಣೆ',
+    'delivery.subtitle': 'ನಿಮ್ಮ ಔಷಧಗಳನ್ನು ಆನ್‌ಲೈನ್‌ನಲ್ಲಿ ಆರ್ಡರ್ ಮಾಡಿ ಮತ್ತು ಮನೆಗೆ ತರಿಸಿಕೊಳ್ಳಿ.',
+    'delivery.address': 'ವಿತರಣಾ ವಿಳಾಸ',
+    'delivery.medications': 'ಔಷಧಗಳು (ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ)',
+    'delivery.medicationsPlaceholder': 'ಉದಾ., ಪ್ಯಾರಸಿಟಮಾಲ್ 500mg, ವಿಟಮಿನ್ C',
+    'delivery.prescription': 'ಪ್ರಿಸ್ಕ್ರಿಪ್ಷನ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ (ಐಚ್ಛಿಕ)',
+    'delivery.submit': 'ಆರ್ಡರ್ ಮಾಡಿ',
+    'delivery.resultTitle': 'ಆರ್ಡರ್ ದೃಢೀಕರಣ',
+
+    // --- Profile ---
+    'profile.welcome': 'ಸ್ವಾಗತ, {name}',
+    'profile.subtitle': 'ನಿಮ್ಮ ಆರೋಗ್ಯ ಪ್ರೊಫೈಲ್, ಔಷಧಗಳು ಮತ್ತು ಜ್ಞಾಪನೆಗಳನ್ನು ನಿರ್ವಹಿಸಿ. ಇವುಗಳನ್ನು ಈ ಸಾಧನದಲ್ಲಿ ಮಾತ್ರ ಎನ್‌ಕ್ರಿಪ್ಟ್ ಮಾಡಿ ಇರಿಸಲಾಗುತ್ತದೆ.',
+    'profile.healthProfile': 'ಆರೋಗ್ಯ ಪ್ರೊಫೈಲ್',
+    'profile.name': 'ಹೆಸರು',
+    'profile.age': 'ವಯಸ್ಸು',
+    'profile.sex': 'ಲಿಂಗ',
+    'profile.sex.unspecified': 'ಹೇಳಲು ಇಚ್ಛಿಸುವುದಿಲ್ಲ',
+    'profile.sex.female': 'ಮಹಿಳೆ',
+    'profile.sex.male': 'ಪುರುಷ',
+    'profile.sex.other': 'ಇತರೆ',
+    'profile.height': 'ಎತ್ತರ (cm)',
+    'profile.weight': 'ತೂಕ (kg)',
+    'profile.goalWeight': 'ಗುರಿ ತೂಕ (kg)',
+    'profile.allergies': 'ಅಲರ್ಜಿಗಳು (ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ)',
+    'profile.conditions': 'ಕಾಯಿಲೆಗಳು (ಅಲ್ಪವಿರಾಮದಿಂದ ಬೇರ್ಪಡಿಸಿ)',
+    'profile.save': 'ಪ್ರೊಫೈಲ್ ಉಳಿಸಿ',
+    'profile.saved': 'ಉಳಿಸಲಾಗಿದೆ',
+    'profile.medications': 'ಪ್ರಸ್ತುತ ಔಷಧಗಳು',
+    'profile.medication': 'ಔಷಧ',
+    'profile.dosage': 'ಡೋಸೇಜ್',
+    'profile.dosagePlaceholder': 'ಉದಾ., 500 mg ದಿನಕ್ಕೆ ಎರಡು ಬಾರಿ',
+    'profile.addMedication': 'ಔಷಧ ಸೇರಿಸಿ',
+    'profile.remove': 'ತೆಗೆದುಹಾಕಿ',
+    'profile.addReminderTitle': 'ಔಷಧ ಜ್ಞಾಪನೆ ಸೇರಿಸಿ',
+    'profile.reminderName': 'ಔಷಧದ ಹೆಸರು',
+    'profile.reminderTime': 'ಸಮಯ',
+    'profile.addReminder': 'ಜ್ಞಾಪನೆ ಸೇರಿಸಿ',
+    'profile.activeReminders': 'ಸಕ್ರಿಯ ಜ್ಞಾಪನೆಗಳು',
+    'profile.scheduledFor': 'ಪ್ರತಿದಿನ {time} ಕ್ಕೆ ನಿಗದಿಪಡಿಸಲಾಗಿದೆ',
+    'profile.scheduledEvery': 'ಪ್ರತಿ {days} ದಿನಗಳಿಗೊಮ್ಮೆ {time} ಕ್ಕೆ ನಿಗದಿಪಡಿಸಲಾಗಿದೆ',
+    'profile.reminderDose': 'ಡೋಸ್: {dose}',
+    'profile.courseDates': '{start} ರಿಂದ {end} ವರೆಗೆ',
+    'profile.courseFrom': '{start} ರಿಂದ',
+    'profile.courseEnded': 'ಕೋರ್ಸ್ {end} ರಂದು ಮುಗಿದಿದೆ',
+    'profile.delete': 'ಅಳಿಸಿ',
+    'profile.noReminders': 'ನಿಮಗೆ ಯಾವುದೇ ಸಕ್ರಿಯ ಜ್ಞಾಪನೆಗಳಿಲ್ಲ.',
+    'profile.reminderAlert': 'ನಿಮ್ಮ {name} ತೆಗೆದುಕೊಳ್ಳುವ ಸಮಯ!',
+    'profile.appointments': 'ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್‌ಗಳು',
+    'profile.appointmentDetails': '{date} ರಂದು {time} ಕ್ಕೆ · ದೃಢೀಕರಣ {number}',
+    'profile.noAppointments': 'ನಿಮಗೆ ಯಾವುದೇ ಬುಕ್ ಮಾಡಿದ ಅಪಾಯಿಂಟ್‌ಮೆಂಟ್‌ಗಳಿಲ್ಲ.',
+    'profile.loadError': 'ನಿಮ್ಮ ಆರೋಗ್ಯ ದಾಖಲೆಗಳನ್ನು ಲೋಡ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'profile.saveError': 'ನಿಮ್ಮ ಬದಲಾವಣೆಗಳನ್ನು ಉಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'profile.saveProfileError': 'ನಿಮ್ಮ ಪ್ರೊಫೈಲ್ ಉಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'ಬಯೋಮೆಟ್ರಿಕ್ ಸ್ಕ್ಯಾನ್',
+    'biometric.subtitle': 'ಎತ್ತರ ಮತ್ತು ದೇಹದ ತಾಪಮಾನದ ನೈಜ-ಸಮಯದ ಅಂದಾಜಿಗಾಗಿ ನಿಮ್ಮ ಕ್ಯಾಮೆರಾ ಬಳಸಿ.',
+    'biometric.start': 'ಬಯೋಮೆಟ್ರಿಕ್ ವಿಶ್ಲೇಷಣೆ ಪ್ರಾರಂಭಿಸಿ',
+    'biometric.proceed': 'ವೈದ್ಯಕೀಯ ವಿಶ್ಲೇಷಣೆಗೆ ಮುಂದುವರಿಯಬೇಕೆ?',
+    'biometric.no': 'ಇಲ್ಲ',
+    'biometric.yes': 'ಹೌದು',
+    'biometric.analysisTitle': 'ವೈದ್ಯಕೀಯ ವಿಶ್ಲೇಷಣೆ',
+    'biometric.analysisSubtitle': 'ಬಯೋಮೆಟ್ರಿಕ್ ಸ್ಕ್ಯಾನ್ ಆಧಾರಿತ ಅಂತಿಮ ವಿಶ್ಲೇಷಣೆಗಾಗಿ ನಿಮ್ಮ ವಯಸ್ಸನ್ನು ನಮೂದಿಸಿ.',
+    'biometric.scanResults': 'ಸ್ಕ್ಯಾನ್ ಫಲಿತಾಂಶಗಳು:',
+    'biometric.scanSummary': 'ಎತ್ತರ: {height} cm, ತಾಪಮಾನ: {temperature}',
+    'biometric.notAvailable': 'ಲಭ್ಯವಿಲ್ಲ',
+    'biometric.age': 'ನಿಮ್ಮ ವಯಸ್ಸನ್ನು ನಮೂದಿಸಿ',
+    'biometric.submit': 'ವಿಶ್ಲೇಷಣೆ ಪಡೆಯಿರಿ',
+    'biometric.resultTitle': 'ಬಯೋಮೆಟ್ರಿಕ್ ವಿಶ್ಲೇಷಣೆ',
+    'biometric.libraryError': 'ಭಂಗಿ ಪತ್ತೆ ಲೈಬ್ರರಿ ಲೋಡ್ ಆಗಲಿಲ್ಲ. ನಿಮ್ಮ ಸಂಪರ್ಕ ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+    'biometric.cameraError': 'ಬಯೋಮೆಟ್ರಿಕ್ ಸ್ಕ್ಯಾನ್‌ಗೆ ಕ್ಯಾಮೆರಾ ಅನುಮತಿ ಅಗತ್ಯವಿದೆ.',
+    'biometric.analysisError': 'ವಿಶ್ಲೇಷಣೆ ಪಡೆಯಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+
+    // --- Imaging ---
+    'imaging.title': 'ವೈದ್ಯಕೀಯ ಇಮೇಜಿಂಗ್ ವಿಶ್ಲೇಷಣೆ',
+    'imaging.subtitle': 'AI ವಿಶ್ಲೇಷಣೆ ಮತ್ತು 3D ದೃಶ್ಯೀಕರಣಕ್ಕಾಗಿ ಎಕ್ಸ್-ರೇ, MRI ಅಥವಾ ರಕ್ತ ಪರೀಕ್ಷೆ ವರದಿ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'imaging.upload': 'ವೈದ್ಯಕೀಯ ಫೈಲ್ ಅಪ್‌ಲೋಡ್ ಮಾಡಲು ಕ್ಲಿಕ್ ಮಾಡಿ',
+    'imaging.formats': 'ಎಕ್ಸ್-ರೇ, MRI, TXT ಅಥವಾ PDF',
+    'imaging.resultTitle': 'ವಿಶ್ಲೇಷಣಾ ವರದಿ',
+    'imaging.diagnosis': 'ರೋಗನಿರ್ಣಯ',
+    'imaging.recovery': 'ಅಂದಾಜು ಚೇತರಿಕೆ ಅವಧಿ',
+    'imaging.visualization': '3D ದೃಶ್ಯೀಕರಣ',
+    'imaging.speakText': 'ರೋಗನಿರ್ಣಯ: {diagnosis}. ಚೇತರಿಕೆ: {recovery}',
+    'imaging.unsupported': 'ಬೆಂಬಲವಿಲ್ಲದ ಫೈಲ್ ಪ್ರಕಾರ. ದಯವಿಟ್ಟು ಚಿತ್ರ (PNG, JPG) ಅಥವಾ ಪಠ್ಯ ವರದಿ (TXT, PDF) ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.',
+    'imaging.error': 'ವಿಶ್ಲೇಷಣೆಯ ಸಮಯದಲ್ಲಿ ದೋಷ ಸಂಭವಿಸಿದೆ.',
+
+    // --- Chatbot ---
+    'chat.title': 'AI ವೈದ್ಯಕೀಯ ಸಹಾಯಕ',
+    'chat.greeting': 'ನಮಸ್ಕಾರ! ನಾನು ಧನ್ವಂತರಿ, ನಿಮ್ಮ AI ವೈದ್ಯಕೀಯ ಸಹಾಯಕ. ಇಂದು ನಾನು ನಿಮಗೆ ಹೇಗೆ ಸಹಾಯ ಮಾಡಬಹುದು? ಇದು ವೃತ್ತಿಪರ ವೈದ್ಯಕೀಯ ಸಲಹೆಗೆ ಬದಲಿಯಲ್ಲ ಎಂಬುದನ್ನು ನೆನಪಿಡಿ.',
+    'chat.placeholder': 'ಪ್ರಶ್ನೆ ಕೇಳಿ...',
+    'chat.inputLabel': 'ಚಾಟ್ ಇನ್‌ಪುಟ್',
+    'chat.send': 'ಸಂದೇಶ ಕಳುಹಿಸಿ',
+    'chat.close': 'ಚಾಟ್ ಮುಚ್ಚಿ',
+    'chat.toggle': 'ಚಾಟ್ ತೆರೆಯಿರಿ/ಮುಚ್ಚಿ',
+    'chat.error': 'ಕ್ಷಮಿಸಿ, ದೋಷ ಸಂಭವಿಸಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+};
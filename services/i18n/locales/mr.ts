@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const mr: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'सहाय्यक',
+    'nav.calculator': 'कॅलरी',
+    'nav.diary': 'आहार डायरी',
+    'nav.mealPlan': 'जेवण योजना',
+    'nav.growth': 'वाढ तक्ते',
+    'nav.scanner': 'प्रिस्क्रिप्शन',
+    'nav.imaging': 'इमेजिंग',
+    'nav.biometric': 'बायोमेट्रिक',
+    'nav.hospitals': 'रुग्णालये',
+    'nav.delivery': 'डिलिव्हरी',
+    'nav.history': 'इतिहास',
+    'nav.profile': 'प्रोफाइल',
+    'nav.logout': 'लॉग आउट',
+    'language.label': 'भाषा',
+
+    // --- Shared ---
+    'common.disclaimer': 'अस्वीकरण: हे AI ने तयार केलेले विश्लेषण आहे आणि व्यावसायिक वैद्यकीय सल्ल्याचा पर्याय नाही. कोणत्याही आरोग्यविषयक चिंतेसाठी पात्र आरोग्य सेवा प्रदात्याचा सल्ला घ्या.',
+    'common.startRecording': 'रेकॉर्डिंग सुरू करा',
+    'common.stopRecording': 'रेकॉर्डिंग थांबवा',
+    'common.readAloud': 'निकाल मोठ्याने वाचा',
+    'common.unknownError': 'अज्ञात त्रुटी आली.',
+
+    // --- Home ---
+    'home.title': 'धन्वंतरीमध्ये आपले स्वागत आहे',
+    'home.intro': 'अधिक चांगल्या आरोग्य माहितीसाठी तुमचा AI वैद्यकीय सहाय्यक. लक्षणांचे विश्लेषण करा, पोषणविषयक गरजा मोजा आणि प्रिस्क्रिप्शन सहज स्कॅन करा.',
+    'home.assistant.title': 'वैद्यकीय सहाय्यक',
+    'home.assistant.description': 'लक्षणांचे विश्लेषण करा आणि औषधांच्या परस्परक्रिया तपासा.',
+    'home.assistant.action': 'सुरू करा',
+    'home.calculator.title': 'कॅलरी काउंटर',
+    'home.calculator.description': 'विविध आरोग्य उद्दिष्टांसाठी तुमच्या दैनंदिन कॅलरी गरजेचा अंदाज घ्या.',
+    'home.calculator.action': 'आता मोजा',
+    'home.scanner.title': 'प्रिस्क्रिप्शन स्कॅनर',
+    'home.scanner.description': 'मजकूर काढण्यासाठी आणि औषधे ओळखण्यासाठी प्रिस्क्रिप्शन अपलोड करा.',
+    'home.scanner.action': 'आता स्कॅन करा',
+    'home.imaging.title': 'इमेजिंग विश्लेषण',
+    'home.imaging.description': 'AI विश्लेषण आणि 3D व्हिज्युअलायझेशनसाठी स्कॅन (एक्स-रे, MRI) अपलोड करा.',
+    'home.imaging.action': 'स्कॅनचे विश्लेषण करा',
+    'home.biometric.title': 'बायोमेट्रिक स्कॅन',
+    'home.biometric.description': 'तुमच्या कॅमेऱ्याने रिअल-टाइम बायोमेट्रिक विश्लेषण करा.',
+    'home.biometric.action': 'स्कॅन सुरू करा',
+    'home.hospitals.title': 'जवळची रुग्णालये',
+    'home.hospitals.description': 'रुग्णालये शोधा आणि अपॉइंटमेंट बुक करा.',
+    'home.hospitals.action': 'रुग्णालये शोधा',
+    'home.delivery.title': 'औषध डिलिव्हरी',
+    'home.delivery.description': 'औषधे ऑर्डर करा आणि डिलिव्हरीसाठी प्रिस्क्रिप्शन अपलोड करा.',
+    'home.delivery.action': 'आता ऑर्डर करा',
+    'home.profile.title': 'प्रोफाइल आणि स्मरणपत्रे',
+    'home.profile.description': 'तुमचे प्रोफाइल व्यवस्थापित करा आणि औषधांची स्मरणपत्रे सेट करा.',
+    'home.profile.action': 'प्रोफाइल पहा',
+    'home.articles': 'नवीनतम वैद्यकीय लेख',
+
+    // --- Not found ---
+    'notFound.title': 'पृष्ठ सापडले नाही',
+    'notFound.message': 'तुम्ही शोधत असलेले पृष्ठ अस्तित्वात नाही किंवा हलवले गेले आहे.',
+    'notFound.back': 'मुख्यपृष्ठावर परत जा',
+
+    // --- Login ---
+    'login.title': 'धन्वंतरीमध्ये आपले स्वागत आहे',
+    'login.welcomeBack': 'पुन्हा स्वागत आहे, {name}',
+    'login.login.subtitle': 'तुमचा वैद्यकीय सहाय्यक वापरण्यासाठी साइन इन करा.',
+    'login.login.submit': 'लॉग इन',
+    'login.register.subtitle': 'तुमचा आरोग्य डेटा खाजगी ठेवण्यासाठी खाते तयार करा.',
+    'login.register.submit': 'खाते तयार करा',
+    'login.forgot.subtitle': 'पासवर्ड रीसेट कोड मिळवण्यासाठी तुमचे वापरकर्तानाव टाका.',
+    'login.forgot.submit': 'रीसेट कोड मागवा',
+    'login.reset.subtitle': 'तुमचा रीसेट कोड टाका आणि नवीन पासवर्ड निवडा.',
+    'login.reset.submit': 'पासवर्ड रीसेट करा',
+    'login.unlock.subtitle': 'या डिव्हाइसवरील तुमच्या आरोग्य नोंदी अनलॉक करण्यासाठी पासवर्ड टाका.',
+    'login.unlock.submit': 'अनलॉक करा',
+    'login.recover.subtitle': 'या डिव्हाइसवरील तुमच्या आरोग्य नोंदी तुमच्या मागील पासवर्डने लॉक आहेत. त्या ठेवण्यासाठी तो पासवर्ड टाका.',
+    'login.recover.submit': 'नोंदी परत मिळवा',
+    'login.username': 'वापरकर्तानाव',
+    'login.password': 'पासवर्ड',
+    'login.newPassword': 'नवीन पासवर्ड',
+    'login.previousPassword': 'मागील पासवर्ड',
+    'login.confirmPassword': 'पासवर्डची पुष्टी करा',
+    'login.resetCode': 'रीसेट कोड',
+    'login.createAccount': 'खाते तयार करा',
+    'login.forgotPassword': 'पासवर्ड विसरलात?',
+    'login.haveResetCode': 'माझ्याकडे रीसेट कोड आहे',
+    'login.backToSignIn': 'साइन इनवर परत जा',
+    'login.startOver': 'रिकाम्या नोंदींसह सुरू करा',
+    'login.signOut': 'साइन आउट',
+    'login.passwordsMismatch': 'पासवर्ड जुळत नाहीत.',
+    'login.resetDone': 'तुमचा पासवर्ड रीसेट झाला आहे. कृपया नवीन पासवर्डने साइन इन करा.',
+    'login.confirmStartOver': 'यामुळे या डिव्हाइसवर जतन केलेल्या आरोग्य नोंदी कायमच्या हटवल्या जातील. पुढे जायचे?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'वैद्यकीय सहाय्यक',
+    'assistant.subtitle': 'लक्षणे आणि औषधांच्या परस्परक्रियांच्या AI विश्लेषणासाठी रुग्णाचा तपशील टाका.',
+    'assistant.age': 'वय',
+    'assistant.symptoms': 'लक्षणे',
+    'assistant.medications': 'सध्याची औषधे (स्वल्पविरामाने वेगळी करा)',
+    'assistant.submit': 'लक्षणांचे विश्लेषण करा',
+    'assistant.resultTitle': 'AI विश्लेषण',
+    'assistant.interactions': 'संभाव्य परस्परक्रिया',
+    'assistant.noInteractions': 'कोणतीही परस्परक्रिया आढळली नाही.',
+    'assistant.concerns': 'चिंता',
+    'assistant.suggestions': 'आरोग्य सूचना',
+    'assistant.urgency': 'तातडी: {level}.',
+    'assistant.mode.form': 'जलद फॉर्म',
+    'assistant.mode.interview': 'मार्गदर्शित मुलाखत',
+    'urgency.self-care': 'स्वतःची काळजी',
+    'urgency.see-doctor': 'डॉक्टरांना भेटा',
+    'urgency.urgent': 'त्वरित वैद्यकीय मदत घ्या',
+    'severity.minor': 'किरकोळ',
+    'severity.moderate': 'मध्यम',
+    'severity.major': 'गंभीर',
+    'severity.contraindicated': 'निषिद्ध',
+
+    // --- Symptom interview ---
+    'interview.progress': 'प्रश्न {current} / {total}',
+    'interview.question.complaint': 'मुख्य लक्षण किंवा समस्या काय आहे?',
+    'interview.question.onset': 'हे कसे सुरू झाले?',
+    'interview.question.duration': 'हे किती काळापासून आहे?',
+    'interview.question.severity': 'आत्ता हे किती तीव्र आहे, 1 ते 10 मध्ये?',
+    'interview.question.location': 'शरीरात कुठे जाणवते?',
+    'interview.question.associated': 'आणखी काही लक्षणे आहेत का?',
+    'interview.question.history': 'तुमच्या वैद्यकीय इतिहासात काही संबंधित?',
+    'interview.question.medications': 'तुम्ही कोणती औषधे घेत आहात?',
+    'interview.question.vitals': 'तुमच्याबद्दल काही माहिती',
+    'interview.hint.complaint': 'उदा., डोकेदुखी, पोटदुखी, खोकला',
+    'interview.hint.onset': 'नक्की कधी, आणि तेव्हा तुम्ही काय करत होता? (ऐच्छिक)',
+    'interview.hint.duration': 'उदा., काल सकाळपासून',
+    'interview.hint.location': 'उदा., पोटाच्या खालच्या उजव्या बाजूला',
+    'interview.hint.associated': 'लागू असलेले निवडा, किंवा त्यांचे वर्णन करा',
+    'interview.hint.history': 'दीर्घकालीन आजार, ॲलर्जी, अलीकडील दुखापत, शस्त्रक्रिया किंवा प्रवास',
+    'interview.hint.medications': 'औषधे स्वल्पविरामाने वेगळी करा',
+    'interview.onset.sudden': 'अचानक',
+    'interview.onset.gradual': 'हळूहळू',
+    'interview.duration.hours': 'एका दिवसापेक्षा कमी',
+    'interview.duration.days': '1–3 दिवस',
+    'interview.duration.week': '4–7 दिवस',
+    'interview.duration.longer': 'एका आठवड्यापेक्षा जास्त',
+    'interview.severity.scale': '1 = जेमतेम जाणवते, 10 = असह्य',
+    'interview.associated.fever': 'ताप',
+    'interview.associated.nausea': 'मळमळ',
+    'interview.associated.vomiting': 'उलटी',
+    'interview.associated.headache': 'डोकेदुखी',
+    'interview.associated.cough': 'खोकला',
+    'interview.associated.dizziness': 'चक्कर',
+    'interview.associated.fatigue': 'थकवा',
+    'interview.associated.rash': 'पुरळ',
+    'interview.associated.diarrhoea': 'जुलाब',
+    'interview.associated.breathlessness': 'धाप लागणे',
+    'interview.history.conditions': 'ज्ञात आजार: {list}',
+    'interview.history.allergies': 'ॲलर्जी: {list}',
+    'interview.back': 'मागे',
+    'interview.next': 'पुढे',
+    'interview.skip': 'वगळा',
+    'interview.review': 'सारांश पहा',
+    'interview.summaryTitle': 'तुमची उत्तरे तपासा',
+    'interview.summaryHint': 'विश्लेषण या सारांशावर आधारित असेल. पुढे जाण्यापूर्वी काहीही दुरुस्त करा किंवा जोडा.',
+    'interview.summary.complaint': 'मुख्य लक्षण',
+    'interview.summary.onset': 'सुरुवात',
+    'interview.summary.duration': 'कालावधी',
+    'interview.summary.severity': 'तीव्रता',
+    'interview.summary.location': 'ठिकाण',
+    'interview.summary.associated': 'इतर लक्षणे',
+    'interview.summary.history': 'इतिहास',
+    'interview.startOver': 'पुन्हा सुरू करा',
+
+    // --- Vitals ---
+    'vitals.title': 'व्हायटल्स (ऐच्छिक)',
+    'vitals.temperature': 'शरीराचे तापमान',
+    'vitals.bloodPressure': 'रक्तदाब (mmHg)',
+    'vitals.systolic': 'सिस्टोलिक',
+    'vitals.diastolic': 'डायस्टोलिक',
+    'vitals.heartRate': 'हृदय गती (ठोके/मिनिट)',
+    'vitals.spo2': 'ऑक्सिजन सॅच्युरेशन (SpO₂ %)',
+    'vitals.respiratoryRate': 'श्वसन दर (श्वास/मिनिट)',
+    'vitals.glucose': 'रक्तातील ग्लुकोज',
+    'vitals.glucoseTiming': 'कधी मोजले',
+    'vitals.glucose.random': 'रँडम / जेवणानंतर',
+    'vitals.glucose.fasting': 'उपाशीपोटी',
+    'vitals.weight': 'वजन',
+    'vitals.unit': 'एकक',
+    'vitals.low': 'कमी – सामान्य {range} आहे',
+    'vitals.high': 'जास्त – सामान्य {range} आहे',
+    'vitals.note': 'सामान्य मर्यादा वयानुसार ठरवल्या आहेत. त्याबाहेरील रीडिंग पुन्हा मोजण्याचे किंवा डॉक्टरांना दाखवण्याचे कारण आहे, निदान नाही.',
+
+    // --- History ---
+    'history.title': 'विश्लेषण इतिहास',
+    'history.subtitle': 'मागील विश्लेषणे, गणना आणि स्कॅन, या डिव्हाइसवर जतन केलेले.',
+    'history.all': 'सर्व',
+    'history.feature.assistant': 'लक्षण विश्लेषण',
+    'history.feature.calculator': 'कॅलरी गणना',
+    'history.feature.scanner': 'प्रिस्क्रिप्शन स्कॅन',
+    'history.feature.imaging': 'इमेजिंग अहवाल',
+    'history.feature.biometric': 'बायोमेट्रिक विश्लेषण',
+    'history.feature.growth': 'वाढ तपासणी',
+    'history.empty': 'अजून काहीही जतन केलेले नाही. विश्लेषण केल्यानंतर निकाल येथे दिसतील.',
+    'history.view': 'निकाल पहा',
+    'history.delete': 'हटवा',
+    'history.confirmDelete': 'ही नोंद हटवायची? ती परत मिळवता येणार नाही.',
+    'history.compare': 'तुलनेसाठी निवडा',
+    'history.compareHint': 'दोन नोंदी निवडा आणि शेजारी-शेजारी तुलना करा.',
+    'history.compareSelected': 'निवडलेल्यांची तुलना करा ({count}/2)',
+    'history.compareTitle': 'विश्लेषणांची तुलना',
+    'history.inputs': 'इनपुट',
+    'history.result': 'निकाल',
+    'history.fileName': 'फाइल',
+    'history.back': '← इतिहासाकडे परत',
+    'history.notFound': 'ही नोंद आता अस्तित्वात नाही.',
+    'history.loadError': 'तुमचा इतिहास लोड करता आला नाही.',
+    'history.deleteError': 'नोंद हटवता आली नाही.',
+
+    // --- Food diary ---
+    'diary.title': 'आहार डायरी',
+    'diary.subtitle': 'तुम्ही काय खाता ते नोंदवा आणि दैनिक कॅलरी व मॅक्रो उद्दिष्टाशी तुलना करा.',
+    'diary.view.day': 'दिवस',
+    'diary.view.week': 'आठवडा',
+    'diary.previous': '← मागील',
+    'diary.next': 'पुढील →',
+    'diary.date': 'तारीख',
+    'diary.dayTotals': 'आजची एकूण',
+    'diary.addFood': 'अन्न जोडा',
+    'diary.meal': 'जेवणाची वेळ',
+    'diary.meal.breakfast': 'न्याहारी',
+    'diary.meal.lunch': 'दुपारचे जेवण',
+    'diary.meal.dinner': 'रात्रीचे जेवण',
+    'diary.meal.snack': 'अल्पोपहार',
+    'diary.whatDidYouEat': 'तुम्ही काय खाल्ले?',
+    'diary.foodPlaceholder': 'उदा. 2 chapati, 1 bowl dal and a banana',
+    'diary.add': 'डायरीत जोडा',
+    'diary.barcode': 'बारकोड क्रमांक',
+    'diary.servings': 'सर्व्हिंग',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'बारकोडने जोडा',
+    'diary.barcodeInvalid': 'हा वैध बारकोड क्रमांक नाही. पट्ट्यांखाली छापलेले अंक तपासा.',
+    'diary.barcodeUnknown': 'हे उत्पादन अजून आहार डेटाबेसमध्ये नाही.',
+    'diary.nothingRecognized': 'यापैकी कोणतेही अन्न डेटाबेसमध्ये नाही. "chapati" किंवा "dal" सारखे सोपे नाव वापरून पहा.',
+    'diary.unrecognized': 'आहार डेटाबेसमध्ये नसल्याने जोडले नाही: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · प्रथिने {protein} g · कर्बोदके {carbs} g · चरबी {fat} g',
+    'diary.deleteEntry': '{name} काढा',
+    'diary.empty': 'या दिवसासाठी अजून काहीही नोंदवलेले नाही.',
+    'diary.calories': 'कॅलरी',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'आजसाठी {value} kcal शिल्लक',
+    'diary.over': 'उद्दिष्टापेक्षा {value} kcal जास्त',
+    'diary.noTarget': 'तुमचे अजून दैनिक उद्दिष्ट नाही.',
+    'diary.setTarget': 'कॅलरी कॅल्क्युलेटरमध्ये एक निवडा →',
+    'diary.targetFrom': 'उद्दिष्ट: {goal}.',
+    'diary.changeTarget': 'बदला',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'दिवस',
+    'diary.vsTarget': 'उद्दिष्टाशी फरक',
+    'diary.notLogged': 'नोंद नाही',
+    'diary.daysLogged': 'नोंदवलेले दिवस',
+    'diary.daysLoggedValue': '{total} पैकी {count}',
+    'diary.average': 'नोंदवलेल्या दिवसांची सरासरी',
+    'diary.averageVsTarget': 'सरासरी विरुद्ध उद्दिष्ट',
+    'diary.loadError': 'तुमची आहार डायरी लोड करता आली नाही.',
+    'diary.saveError': 'आहार डायरीत जतन करता आले नाही.',
+    'diary.deleteError': 'नोंद काढता आली नाही.',
+    'diary.photo.title': 'फोटोवरून',
+    'diary.photo.hint': 'तुमच्या ताटाचा फोटो घ्या; AI पदार्थ व प्रमाणांची यादी करेल, नोंदवण्यापूर्वी तुम्ही ती तपासू शकता.',
+    'diary.photo.take': 'फोटो घ्या किंवा निवडा',
+    'diary.photo.preview': 'जेवणाचा फोटो',
+    'diary.photo.recognize': 'पदार्थ ओळखा',
+    'diary.photo.discard': 'रद्द करा',
+    'diary.photo.reviewHint': 'प्रत्येक पदार्थ व त्याचे वजन तपासा. पोषण डेटाबेसमधील पदार्थ त्याची मूल्ये वापरतात; इतर AI चा अंदाज.',
+    'diary.photo.food': 'पदार्थ',
+    'diary.photo.grams': 'ग्रॅम',
+    'diary.photo.fromDatabase': 'डेटाबेस',
+    'diary.photo.estimated': 'AI अंदाज',
+    'diary.photo.unknown': 'डेटाबेसमध्ये नाही',
+    'diary.photo.addItem': 'पदार्थ जोडा',
+    'diary.photo.save': '{count} पदार्थ नोंदवा',
+    'diary.photo.error': 'या फोटोतील पदार्थ ओळखता आले नाहीत.',
+    'diary.photo.saveError': 'जेवणाचा फोटो जतन करता आला नाही.',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'जेवण नियोजक',
+    'mealPlan.subtitle': 'तुमचे कॅलरी लक्ष्य, आहार, ॲलर्जी आणि औषधांनुसार आठवडाभराचे रोजचे भारतीय जेवण, खरेदी यादीसह.',
+    'mealPlan.calories': 'रोजच्या कॅलरी (kcal)',
+    'mealPlan.allergies': 'अन्नाची ॲलर्जी',
+    'mealPlan.allergiesPlaceholder': 'उदा. शेंगदाणे, लॅक्टोज',
+    'mealPlan.targetFrom': 'तुमचे दैनिक लक्ष्य {calories} kcal आहे.',
+    'mealPlan.medications': 'सध्याची औषधे',
+    'mealPlan.medicationsPlaceholder': 'उदा. वॉरफरिन, ॲटोरव्हास्टॅटिन',
+    'mealPlan.preferences': 'आहार',
+    'mealPlan.preference.vegetarian': 'शाकाहारी',
+    'mealPlan.preference.jain': 'जैन (कांदा, लसूण किंवा कंदमुळे नाहीत)',
+    'mealPlan.preference.diabetic': 'मधुमेह (अतिरिक्त साखर नाही)',
+    'mealPlan.preference.lowSodium': 'कमी मीठ',
+    'mealPlan.submit': 'जेवण योजना तयार करा',
+    'mealPlan.caloriesRequired': 'दैनिक कॅलरी लक्ष्य लिहा.',
+    'mealPlan.resultTitle': 'तुमची साप्ताहिक जेवण योजना',
+    'mealPlan.interactionsTitle': 'अन्न आणि औषधांच्या परस्परक्रिया',
+    'mealPlan.column.medicine': 'औषध',
+    'mealPlan.column.food': 'अन्न',
+    'mealPlan.column.inPlan': 'या योजनेत',
+    'mealPlan.advice.avoid': 'वगळले',
+    'mealPlan.advice.separate': 'ठेवले; औषध किमान 2 तासांच्या अंतराने घ्या',
+    'mealPlan.component.meat': 'मांस',
+    'mealPlan.component.fish': 'मासे',
+    'mealPlan.component.egg': 'अंडी',
+    'mealPlan.component.dairy': 'दुग्धजन्य पदार्थ',
+    'mealPlan.component.wheat': 'गहू',
+    'mealPlan.component.peanut': 'शेंगदाणे',
+    'mealPlan.component.treeNut': 'सुकामेवा',
+    'mealPlan.component.onionGarlic': 'कांदा आणि लसूण',
+    'mealPlan.component.rootVegetable': 'कंदमुळे',
+    'mealPlan.component.addedSugar': 'अतिरिक्त साखर',
+    'mealPlan.component.highSodium': 'खारट पदार्थ',
+    'mealPlan.component.vitaminK': 'व्हिटॅमिन K युक्त पालेभाज्या',
+    'mealPlan.component.potassium': 'पोटॅशियमयुक्त पदार्थ',
+    'mealPlan.component.grapefruit': 'ग्रेपफ्रूट, पपनस',
+    'mealPlan.unplanned': 'यांसाठी तुमच्या निवडींशी जुळणारा पदार्थ नाही: {meals}. हे जेवण स्वतः ठरवा.',
+    'mealPlan.dayMacros': 'प्रथिने {protein} ग्रॅ · कर्बोदके {carbs} ग्रॅ · स्निग्ध {fat} ग्रॅ',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} ग्रॅ)',
+    'mealPlan.shoppingTitle': 'खरेदी यादी',
+    'mealPlan.shoppingNote': 'प्रमाण संपूर्ण आठवड्याच्या शिजवलेल्या पदार्थांचे आहे; त्यांचे साहित्य खरेदी करा.',
+    'mealPlan.another': 'दुसरी योजना पाहा',
+    'mealPlan.download': 'खरेदी यादी डाउनलोड करा',
+    'mealPlan.disclaimer': 'प्रमाण प्रमाणित अन्न तक्त्यांवरून अंदाजे आहे. आजारासाठी आहार बदलण्यापूर्वी डॉक्टर किंवा आहारतज्ज्ञांना विचारा.',
+
+    // --- Body measurements ---
+    'body.title': 'वजन आणि शरीराची मापे',
+    'body.date': 'तारीख',
+    'body.weight': 'वजन (kg)',
+    'body.waist': 'कंबर (cm)',
+    'body.bodyFat': 'शरीरातील चरबी (%)',
+    'body.add': 'माप जोडा',
+    'body.valueRequired': 'किमान एक माप लिहा.',
+    'body.show': 'दाखवा',
+    'body.measure.weight': 'वजन',
+    'body.measure.waist': 'कंबर',
+    'body.measure.bodyFat': 'शरीरातील चरबी',
+    'body.empty': 'अजून मापे नाहीत.',
+    'body.chartLabel': 'कालानुसार {measure}',
+    'body.legend': 'ठिपके म्हणजे मापे; रेषा {days} दिवसांची सरासरी आहे.',
+    'body.current': 'कल वजन: {value} kg',
+    'body.rate': 'मागील 4 आठवड्यांत दर आठवड्याला {rate} kg',
+    'body.tooFast': 'तुम्ही दर आठवड्याला सुमारे {rate} kg कमी करत आहात, जे वैद्यकीय देखरेखीशिवाय सुरक्षित दर आठवड्याला {limit} kg पेक्षा जलद आहे. थोडे जास्त खा, आणि वजन कमी करण्याचा प्रयत्न करत नसाल तर डॉक्टरांना भेटा.',
+    'body.noGoal': 'लक्ष्य कधी गाठाल ते पाहण्यासाठी तुमच्या आरोग्य प्रोफाइलमध्ये लक्ष्य वजन जोडा.',
+    'body.projection': 'तुमच्या कॅलरी लक्ष्यावर तुम्ही सुमारे {date} पर्यंत {goal} kg गाठाल, दर आठवड्याला {rate} kg प्रमाणे सुमारे {weeks} आठवड्यांत.',
+    'body.goalReached': 'तुम्ही तुमचे लक्ष्य वजन {goal} kg गाठले आहे.',
+    'body.noTarget': 'लक्ष्य तारखेसाठी कॅलरी कॅल्क्युलेटरमधील दैनिक लक्ष्य हवे.',
+    'body.wrongDirection': 'तुमचे कॅलरी लक्ष्य तुमचे वजन लक्ष्याकडे नेणार नाही.',
+    'body.loadError': 'तुमची शरीराची मापे लोड करता आली नाहीत.',
+    'body.saveError': 'माप जतन करता आले नाही.',
+    'body.deleteError': 'माप काढता आले नाही.',
+
+    // --- Growth charts ---
+    'growth.title': 'वाढ तक्ते',
+    'growth.subtitle': 'जन्मापासून 19 वर्षांपर्यंत, मुलाचे वजन, उंची आणि BMI WHO वाढ संदर्भांशी तुलना करा.',
+    'growth.birthDate': 'जन्मतारीख',
+    'growth.measuredOn': 'मोजमापाची तारीख',
+    'growth.height': 'लांबी किंवा उंची (cm)',
+    'growth.heightNote': '2 वर्षांपूर्वी झोपवून लांबी आणि नंतर उभे करून उंची मोजा.',
+    'growth.submit': 'वाढ तपासा',
+    'growth.valueRequired': 'वजन, उंची किंवा दोन्ही लिहा.',
+    'growth.dateOrder': 'मोजमापाची तारीख जन्मतारखेनंतरची असावी.',
+    'growth.tooOld': 'वाढ संदर्भ 19 वर्षांपर्यंतच्या मुलांसाठी आहेत. प्रौढांसाठी कॅलरी कॅल्क्युलेटर आणि शरीराची मापे वापरा.',
+    'growth.resultTitle': 'वाढीचे पर्सेंटाइल',
+    'growth.ageYears': 'वय: {years} वर्षे {months} महिने',
+    'growth.ageMonths': 'वय: {months} महिने',
+    'growth.column.indicator': 'माप',
+    'growth.column.value': 'मूल्य',
+    'growth.column.zScore': 'Z-स्कोर',
+    'growth.column.percentile': 'पर्सेंटाइल',
+    'growth.column.status': 'मूल्यांकन',
+    'growth.indicator.weight': 'वयानुसार वजन',
+    'growth.indicator.height': 'वयानुसार उंची',
+    'growth.indicator.bmi': 'वयानुसार BMI',
+    'growth.status.normal': 'सामान्य मर्यादेत',
+    'growth.status.severelyUnderweight': 'तीव्र कमी वजन',
+    'growth.status.underweight': 'कमी वजन',
+    'growth.status.aboveRange': 'नेहमीच्या मर्यादेपेक्षा जास्त; वयानुसार BMI पाहा',
+    'growth.status.severelyStunted': 'तीव्र खुंटलेली वाढ',
+    'growth.status.stunted': 'खुंटलेली वाढ',
+    'growth.status.veryTall': 'खूप उंच',
+    'growth.status.severelyWasted': 'तीव्र कृशता (wasting)',
+    'growth.status.wasted': 'कृशता (wasting)',
+    'growth.status.overweightRisk': 'जास्त वजनाचा संभाव्य धोका',
+    'growth.status.severeThinness': 'तीव्र बारीकपणा',
+    'growth.status.thinness': 'बारीकपणा',
+    'growth.status.overweight': 'जास्त वजन',
+    'growth.status.obese': 'लठ्ठपणा',
+    'growth.noWeightForAge': 'WHO संदर्भात 10 वर्षांनंतर वयानुसार वजन नाही; त्याऐवजी वयानुसार BMI वापरला जातो.',
+    'growth.reference': 'WHO बाल वाढ मानके (5 वर्षांखालील) आणि WHO वाढ संदर्भ (5–19 वर्षे) यांच्याशी तुलना. 3ऱ्या–97व्या पर्सेंटाइलबाहेरचे माप, किंवा कालांतराने पर्सेंटाइल रेषा ओलांडणारे मूल, बालरोगतज्ज्ञांशी चर्चा करण्याजोगे आहे.',
+    'growth.chartLabel': '{indicator} वाढ तक्ता',
+    'growth.legend': 'रेषा 3रा, 15वा, 50वा, 85वा आणि 97वा पर्सेंटाइल आहेत. ठिपके या मुलाची मापे आहेत, त्याच जन्मतारखेसह जतन केलेल्या आधीच्या मापांसह.',
+    'growth.axisMonths': '{months} म',
+    'growth.axisYears': '{years} व',
+    'growth.openCalculator': 'या मुलाची दैनिक ऊर्जा गरज काढा →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'ज्ञात परस्परक्रिया',
+    'interactions.none': 'ओळखलेल्या औषधांमध्ये संदर्भ यादीनुसार कोणतीही परस्परक्रिया नाही.',
+    'interactions.unrecognized': 'संदर्भ यादीत नाहीत, म्हणून तपासली नाहीत: {names}',
+    'interactions.reference': 'सुप्रसिद्ध परस्परक्रियांच्या अंगभूत यादीशी याच डिव्हाइसवर तपासले. ही यादी पूर्ण नाही, म्हणून औषधे सुरू करण्यापूर्वी, थांबवण्यापूर्वी किंवा एकत्र घेण्यापूर्वी डॉक्टर किंवा फार्मासिस्टला विचारा.',
+    'interactions.column.medicines': 'औषधे',
+    'interactions.column.severity': 'तीव्रता',
+    'interactions.column.effect': 'काय होऊ शकते',
+    'interactions.effect.bleeding': 'रक्तस्रावाचा धोका जास्त',
+    'interactions.effect.serotoninSyndrome': 'सेरोटोनिन सिंड्रोमचा धोका (अस्वस्थता, ताप, थरथर)',
+    'interactions.effect.respiratoryDepression': 'तीव्र गुंगी आणि मंद श्वास',
+    'interactions.effect.myopathy': 'स्नायूंचे नुकसान (स्नायूदुखी किंवा अशक्तपणा)',
+    'interactions.effect.toxicity': 'औषधाची पातळी आणि दुष्परिणाम वाढणे',
+    'interactions.effect.hyperkalemia': 'पोटॅशियमची उच्च पातळी',
+    'interactions.effect.kidneyInjury': 'मूत्रपिंडाचे नुकसान',
+    'interactions.effect.qtProlongation': 'असामान्य हृदयलय (QT लांबणे)',
+    'interactions.effect.bradycardia': 'खूप मंद हृदयगती',
+    'interactions.effect.hypotension': 'धोकादायकरीत्या कमी रक्तदाब',
+    'interactions.effect.reducedAbsorption': 'एक औषध कमी शोषले जाते; काही तासांच्या अंतराने घ्या',
+    'interactions.effect.reducedEffect': 'एक औषध कमी परिणामकारक ठरू शकते',
+    'interactions.effect.hypoglycemia': 'रक्तातील साखर कमी',
+    'interactions.warningTitle': 'हे तुम्ही आधीच घेत असलेल्या औषधांशी परस्परक्रिया करू शकते',
+    'interactions.addAnyway': 'तरीही जोडा',
+    'interactions.orderAnyway': 'तरीही ऑर्डर करा',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'गोळी',
+    'drugs.form.capsule': 'कॅप्सूल',
+    'drugs.form.syrup': 'सिरप',
+    'drugs.form.suspension': 'सस्पेन्शन',
+    'drugs.form.drops': 'थेंब',
+    'drugs.form.eyeDrops': 'डोळ्याचे थेंब',
+    'drugs.form.nasalSpray': 'नाकाचा स्प्रे',
+    'drugs.form.inhaler': 'इनहेलर',
+    'drugs.form.injection': 'इंजेक्शन',
+    'drugs.form.cream': 'क्रीम',
+    'drugs.form.ointment': 'मलम',
+    'drugs.form.gel': 'जेल',
+    'drugs.form.sachet': 'सॅशे',
+    'drugs.column.written': 'जसे लिहिले',
+    'drugs.column.medicine': 'औषध',
+    'drugs.confidence': '{percent}% जुळणी',
+    'drugs.lowConfidence': '{percent}% जुळणी – हे तपासा',
+    'drugs.alternatives': 'हेही असू शकते: {names}',
+    'drugs.unmatched': 'औषध शब्दकोशात सापडले नाही',
+    'drugs.note': 'नावे याच उपकरणावर सामान्य ब्रँड आणि जेनेरिक औषधांच्या सोबतच्या शब्दकोशाशी जुळवली जातात. प्रत्येक नाव पॅक किंवा प्रिस्क्रिप्शनशी तपासा; फक्त खात्रीशीर जुळण्याच रिमाइंडर आणि ऑर्डरमध्ये नावाने वापरल्या जातात.',
+
+    // --- Red-flag triage ---
+    'triage.title': 'ही वैद्यकीय आणीबाणी असू शकते',
+    'triage.message': 'तुम्ही दिलेल्या माहितीनुसार, AI उत्तराची वाट न पाहता आत्ताच आपत्कालीन मदत घ्या.',
+    'triage.reason.cardiac': 'छातीत दुखणे किंवा दाब हे हृदयविकाराच्या झटक्याचे लक्षण असू शकते.',
+    'triage.reason.breathing': 'श्वास घेण्यास तीव्र त्रास होत असल्यास तातडीने उपचार आवश्यक आहेत.',
+    'triage.reason.stroke': 'अचानक अशक्तपणा, चेहरा वाकडा होणे, अडखळणारे बोलणे किंवा अचानक तीव्र डोकेदुखी ही पक्षाघाताची लक्षणे असू शकतात.',
+    'triage.reason.selfHarm': 'तुम्ही स्वतःला इजा करण्याच्या विचारांचा उल्लेख केला आहे. तुम्ही एकटे नाही; प्रशिक्षित समुपदेशक आत्ता उपलब्ध आहेत.',
+    'triage.reason.bleeding': 'जास्त किंवा न थांबणाऱ्या रक्तस्रावासाठी त्वरित उपचार आवश्यक आहेत.',
+    'triage.reason.consciousness': 'बेशुद्ध होणे, फिट येणे किंवा प्रतिसाद न देणे यासाठी त्वरित उपचार आवश्यक आहेत.',
+    'triage.reason.allergy': 'घसा, जीभ किंवा चेहऱ्यावरील सूज ही गंभीर ॲलर्जीची प्रतिक्रिया असू शकते.',
+    'triage.reason.highFever': '40 °C किंवा त्याहून अधिक तापमानासाठी तातडीने उपचार आवश्यक आहेत.',
+    'triage.reason.infantFever': 'एक वर्षाखालील बाळाला ताप असल्यास डॉक्टरांकडून त्वरित तपासणी करावी.',
+    'triage.reason.hypothermia': '35 °C पेक्षा कमी शरीराच्या तापमानासाठी तातडीने उपचार आवश्यक आहेत.',
+    'triage.reason.meningitis': 'तापासोबत मान ताठ होणे हे मेंदुज्वराचे लक्षण असू शकते.',
+    'triage.call': '{number} वर कॉल करा',
+    'triage.number.emergency': 'सर्व आपत्कालीन परिस्थिती',
+    'triage.number.ambulance': 'रुग्णवाहिका',
+    'triage.number.mentalHealth': 'टेली-मानस मानसिक आरोग्य हेल्पलाइन',
+    'triage.findEmergency': '24/7 आपत्कालीन सेवा शोधा',
+    'triage.continue': 'समजले, तरीही पुढे चला',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'काय पाठवले जाईल',
+    'privacy.hiddenCount': 'लपवलेले वैयक्तिक तपशील: {count}',
+    'privacy.previewNote': 'फक्त खालील मजकूर या डिव्हाइसबाहेर जातो. लपवलेले तपशील याच डिव्हाइसवर उत्तरात परत भरले जातात.',
+    'privacy.removed': 'काढले',
+    'privacy.type.name': 'नाव',
+    'privacy.type.phone': 'फोन नंबर',
+    'privacy.type.email': 'ई-मेल',
+    'privacy.type.address': 'पत्ता',
+    'privacy.type.id': 'ओळख क्रमांक',
+    'privacy.type.dob': 'जन्मतारीख',
+    'privacy.imageNote': 'ही प्रतिमा दिसते तशीच पाठवली जाईल. आधी नावे, पत्ते किंवा ओळख क्रमांकांवर ओढून ते झाका.',
+    'privacy.undoCover': 'शेवटचे आवरण काढा',
+    'privacy.clearCovers': 'सर्व आवरणे काढा',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'कॅलरी काउंटर',
+    'calculator.subtitle': 'तुमचे वय, लिंग, हालचालींची पातळी आणि शरीराच्या मापांवर आधारित दैनंदिन कॅलरी गरजेचा अंदाज घ्या.',
+    'calculator.age': 'वय',
+    'calculator.gender': 'लिंग',
+    'calculator.male': 'पुरुष',
+    'calculator.female': 'स्त्री',
+    'calculator.weight': 'वजन (kg)',
+    'calculator.height': 'उंची (cm)',
+    'calculator.activity': 'हालचालींची पातळी',
+    'calculator.activity.sedentary': 'बैठी जीवनशैली (कमी किंवा व्यायाम नाही)',
+    'calculator.activity.light': 'हलके सक्रिय (आठवड्यातून 1-3 दिवस हलका व्यायाम)',
+    'calculator.activity.moderate': 'मध्यम सक्रिय (आठवड्यातून 3-5 दिवस मध्यम व्यायाम)',
+    'calculator.activity.active': 'खूप सक्रिय (आठवड्यातून 6-7 दिवस कठोर व्यायाम)',
+    'calculator.activity.extra': 'अतिशय सक्रिय (अतिशय कठोर व्यायाम/शारीरिक श्रमाचे काम)',
+    'calculator.submit': 'कॅलरी मोजा',
+    'calculator.resultTitle': 'कॅलरी गरजा',
+    'calculator.units': 'एकके',
+    'calculator.units.metric': 'मेट्रिक (kg, cm)',
+    'calculator.units.imperial': 'इंपीरियल (lb, ft/in)',
+    'calculator.weightLb': 'वजन (lb)',
+    'calculator.heightImperial': 'उंची (ft, in)',
+    'calculator.feet': 'फूट',
+    'calculator.inches': 'इंच',
+    'calculator.bodyFat': 'शरीरातील चरबी (%)',
+    'calculator.bodyFatRequired': 'कॅच-मॅकआर्डलसाठी शरीरातील चरबीची टक्केवारी आवश्यक आहे.',
+    'calculator.formula': 'BMR सूत्र',
+    'calculator.formula.mifflin': 'मिफ्लिन-सेंट जिओर',
+    'calculator.formula.harris': 'हॅरिस-बेनेडिक्ट (सुधारित)',
+    'calculator.formula.katch': 'कॅच-मॅकआर्डल (शरीरातील चरबी वापरते)',
+    'calculator.formula.child': 'मुलांची ऊर्जा गरज (IOM)',
+    'calculator.formulaUsed': '{formula} समीकरणाने गणना केली.',
+    'calculator.bmr': 'बेसल मेटाबॉलिक रेट (BMR)',
+    'calculator.tdee': 'दैनिक ऊर्जा खर्च (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/दिवस',
+    'calculator.column.goal': 'उद्दिष्ट',
+    'calculator.column.calories': 'kcal/दिवस',
+    'calculator.column.protein': 'प्रथिने',
+    'calculator.column.carbs': 'कर्बोदके',
+    'calculator.column.fat': 'चरबी',
+    'calculator.goal.lose-fast': 'दर आठवड्याला 0.5 kg कमी करा',
+    'calculator.goal.lose': 'दर आठवड्याला 0.25 kg कमी करा',
+    'calculator.goal.maintain': 'वजन टिकवा',
+    'calculator.goal.gain': 'दर आठवड्याला 0.25 kg वाढवा',
+    'calculator.goal.gain-fast': 'दर आठवड्याला 0.5 kg वाढवा',
+    'calculator.goal.growth': 'निरोगी वाढ',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'वैद्यकीय देखरेखीशिवाय सुचवलेल्या किमान दैनिक सेवनापर्यंत वाढवले.',
+    'calculator.macroNote': 'प्रथिने शरीराच्या वजनाच्या प्रति kg, चरबी कॅलरीच्या 25% आणि उरलेले कर्बोदकांमधून.',
+    'calculator.childFormulaUsed': 'दैनिक ऊर्जा गरज मुलांसाठीच्या Institute of Medicine समीकरणांवरून, वाढीसाठी लागणाऱ्या ऊर्जेसह; BMR Schofield समीकरणांवरून.',
+    'calculator.childMacroNote': 'प्रथिने मुलाच्या वयासाठी शिफारस केलेल्या प्रमाणात प्रति kg, चरबी वयानुसार कॅलरीच्या 30–45% आणि उरलेले कर्बोदकांमधून.',
+    'calculator.childNote': '19 वर्षांखालील वयासाठी कॅल्क्युलेटर वाढीच्या ऊर्जेसह मुलांची ऊर्जा गरज वापरतो आणि वजन कमी करण्याची लक्ष्ये देत नाही. बाळाचे वय वर्षाच्या अपूर्णांकात लिहा, उदा. सहा महिन्यांसाठी 0.5. मुलाच्या वजनाबद्दल कोणतीही काळजी असल्यास बालरोगतज्ज्ञांशी बोला.',
+    'calculator.openGrowth': 'वाढीचे पर्सेंटाइल पाहा →',
+    'calculator.commentary': 'AI टिप्पणी मिळवा',
+    'calculator.commentaryTitle': 'टिप्पणी',
+    'calculator.commentaryError': 'या आकड्यांवर टिप्पणी मिळू शकली नाही.',
+    'calculator.useAsTarget': 'डायरीचे उद्दिष्ट करा',
+    'calculator.targetSet': 'डायरीचे उद्दिष्ट ✓',
+    'calculator.targetError': 'डायरीचे उद्दिष्ट जतन करता आले नाही.',
+    'calculator.openDiary': 'आहार डायरी उघडा →',
+    'calculator.openMealPlan': 'आठवड्याचे जेवण ठरवा →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'प्रिस्क्रिप्शन स्कॅनर',
+    'scanner.subtitle': 'मजकूर काढण्यासाठी आणि औषधे ओळखण्यासाठी तुमच्या प्रिस्क्रिप्शनचा फोटो अपलोड करा.',
+    'scanner.upload': 'फोटो किंवा PDF जोडण्यासाठी क्लिक करा',
+    'scanner.formats': 'PNG, JPG किंवा PDF. एकापेक्षा जास्त पानांच्या प्रिस्क्रिप्शनसाठी अनेक जोडा.',
+    'scanner.preview': 'प्रिस्क्रिप्शनचे पूर्वावलोकन',
+    'scanner.resultTitle': 'स्कॅन निकाल',
+    'scanner.extractedText': 'काढलेला मजकूर',
+    'scanner.speakText': 'काढलेला मजकूर: {text}',
+    'scanner.noText': 'कोणताही मजकूर आढळला नाही.',
+    'scanner.copy': 'मजकूर कॉपी करा',
+    'scanner.copied': 'क्लिपबोर्डवर कॉपी केले!',
+    'scanner.medications': 'ओळखलेली औषधे',
+    'scanner.orderMedicines': 'ही औषधे ऑर्डर करा',
+    'scanner.error': 'प्रिस्क्रिप्शन स्कॅन करता आले नाही.',
+    'scanner.scan': 'प्रिस्क्रिप्शन स्कॅन करा',
+    'scanner.camera': 'कॅमेरा वापरा',
+    'scanner.cameraView': 'कॅमेरा दृश्य',
+    'scanner.cameraHint': 'पान चौकटीत बसवा, मग कॅप्चर करा. प्रत्येक पान एकेक करून कॅप्चर करा.',
+    'scanner.capture': 'पान {number} कॅप्चर करा',
+    'scanner.cameraDone': 'झाले',
+    'scanner.cameraError': 'कॅमेरा उघडता आला नाही. कॅमेऱ्याची परवानगी दिली आहे का ते तपासा.',
+    'scanner.page': 'पान {number}',
+    'scanner.moveEarlier': 'पान {number} आधी घ्या',
+    'scanner.removePage': 'काढा',
+    'scanner.pdfNote': '{name} जसे आहे तसे पाठवले जाते, त्यामुळे PDF मधील तपशील झाकता येत नाहीत. PDF बनवण्यापूर्वी नावे आणि पत्ते झाका, किंवा पानांचे फोटो काढा.',
+    'scanner.unsupported': '{names}: फक्त प्रतिमा आणि PDF स्कॅन करता येतात.',
+    'scanner.readError': 'निवडलेल्या फाइल्स वाचता आल्या नाहीत.',
+    'scanner.tooLarge': 'ही पाने एकत्र पाठवण्यासाठी खूप मोठी आहेत. एखादे पान काढा किंवा लहान फोटो वापरा.',
+    'scanner.cleanUp': 'फोटो स्वच्छ करा: पानापर्यंत कापा, सरळ करा आणि प्रकाश एकसारखा करा',
+    'scanner.before': 'मूळ',
+    'scanner.after': 'स्वच्छ केलेला, पाठवला जाईल तसा',
+    'scanner.original': 'मूळ फोटो',
+    'scanner.cropHint': 'कोपरे कागदाच्या कडांवर ओढा. कापणी बदलल्यास या पानावरील झाकणे निघून जातात.',
+    'scanner.detectPage': 'पान पुन्हा शोधा',
+    'scanner.wholePhoto': 'पूर्ण फोटो वापरा',
+    'scanner.cornerTopLeft': 'वरचा डावा कोपरा',
+    'scanner.cornerTopRight': 'वरचा उजवा कोपरा',
+    'scanner.cornerBottomRight': 'खालचा उजवा कोपरा',
+    'scanner.cornerBottomLeft': 'खालचा डावा कोपरा',
+    'scanner.preparing': 'पाने तयार होत आहेत…',
+    'scanner.cleanUpError': 'हा फोटो स्वच्छ करता आला नाही. दुसरी कापणी वापरून पाहा, किंवा जसा आहे तसा पाठवा.',
+    'scanner.schedule': 'डोसचे वेळापत्रक',
+    'scanner.startDate': 'कोर्सचा पहिला दिवस',
+    'scanner.remindersNote': 'रिमाइंडर सकाळी 08:00, दुपारी 14:00, संध्याकाळी 18:00 आणि रात्री 21:00 वाजता लावले जातात, आणि प्रत्येक कोर्सच्या शेवटी थांबतात.',
+    'scanner.noSchedule': 'यापैकी कोणत्याही औषधाचे रिमाइंडर लावण्याजोगे नियमित वेळापत्रक नाही.',
+    'scanner.unscheduled': '{names} साठी रिमाइंडर नाहीत, कारण ती फक्त गरज असताना, एकदाच, किंवा वाचता न आलेल्या वेळापत्रकानुसार घेतली जातात.',
+    'scanner.createReminders': '{count} रिमाइंडर तयार करा',
+    'scanner.remindersCreated': '{count} रिमाइंडर तयार झाले.',
+    'scanner.openReminders': 'रिमाइंडर पाहा →',
+    'scanner.remindersError': 'रिमाइंडर तयार करता आले नाहीत.',
+    'scanner.review.title': 'जे वाचले ते तपासा',
+    'scanner.review.hint': 'प्रत्येक औषध प्रिस्क्रिप्शनशी जुळवून पाहा आणि चुकीचे वाचलेले दुरुस्त करा. पानावरील चौकट निवडल्यास त्या औषधावर जाल. तुम्ही खात्री करेपर्यंत काहीही रिमाइंडर, जुळणी किंवा ऑर्डरसाठी वापरले जात नाही.',
+    'scanner.review.prescriber': 'प्रिस्क्रिप्शन लिहिणारे डॉक्टर',
+    'scanner.review.date': 'प्रिस्क्रिप्शनची तारीख',
+    'scanner.review.unreadDate': '"{date}" असे वाचले – तारीख निवडा',
+    'scanner.review.medicine': 'औषध {number}',
+    'scanner.review.field.name': 'नाव',
+    'scanner.review.field.strength': 'ताकद',
+    'scanner.review.field.form': 'प्रकार',
+    'scanner.review.field.dose': 'मात्रा',
+    'scanner.review.field.frequency': 'किती वेळा',
+    'scanner.review.field.duration': 'किती दिवस',
+    'scanner.review.field.route': 'मार्ग',
+    'scanner.review.field.instructions': 'सूचना',
+    'scanner.review.check': 'हे तपासा',
+    'scanner.review.region': 'औषध {number}: {name}',
+    'scanner.review.pdfNote': 'प्रत्येक औषध कुठे लिहिले आहे हे फक्त फोटोवर दाखवता येते, PDF वर नाही.',
+    'scanner.review.addMedicine': 'औषध जोडा',
+    'scanner.review.removeMedicine': 'औषध {number} काढा',
+    'scanner.review.toCheck': 'खूण केलेले {count} भाग वाचायला कठीण होते किंवा समजले नाहीत.',
+    'scanner.review.confirm': 'खात्री करा',
+    'scanner.review.saveError': 'तपासलेला स्कॅन जतन करता आला नाही.',
+    'scanner.review.confirmed': 'तुम्ही हे वाचन प्रिस्क्रिप्शनशी जुळवून तपासले आहे.',
+    'scanner.review.edit': 'बदला',
+    'scanner.review.unconfirmed': 'हे वाचन प्रिस्क्रिप्शनशी जुळवून तपासलेले नाही.',
+    'prescription.column.medicine': 'औषध',
+    'prescription.column.dose': 'डोस',
+    'prescription.column.frequency': 'किती वेळा',
+    'prescription.column.duration': 'किती दिवस',
+    'prescription.column.route': 'घेण्याचा मार्ग',
+    'prescription.column.instructions': 'सूचना',
+    'prescription.at': '{times} वाजता',
+    'prescription.everyDays': 'दर {days} दिवसांनी {times} वाजता',
+    'prescription.asNeeded': 'फक्त गरज असताना',
+    'prescription.once': 'लगेच एक डोस',
+    'prescription.days': '{days} दिवस',
+    'prescription.ongoing': 'सुरू ठेवा',
+    'prescription.unread': 'ओळखले नाही',
+    'prescription.prescriber': 'डॉक्टर: {name}',
+    'prescription.date': 'दिनांक {date}',
+    'prescription.note': 'किती वेळा आणि किती दिवस हे प्रिस्क्रिप्शनमधील संक्षिप्त रूपांवरून वाचले जाते; उदा. 1-0-1 म्हणजे सकाळी आणि रात्री, आणि 5/7 म्हणजे पाच दिवस. हे प्रिस्क्रिप्शनशी जुळवून पाहा, आणि काही अस्पष्ट असल्यास तुमच्या डॉक्टरांना किंवा फार्मासिस्टला विचारा.',
+    'prescription.route.oral': 'तोंडाने',
+    'prescription.route.sublingual': 'जिभेखाली',
+    'prescription.route.topical': 'त्वचेवर',
+    'prescription.route.eye': 'डोळ्यात',
+    'prescription.route.ear': 'कानात',
+    'prescription.route.nasal': 'नाकात',
+    'prescription.route.inhaled': 'श्वासाद्वारे',
+    'prescription.route.injection': 'इंजेक्शन',
+    'prescription.route.rectal': 'गुदद्वारातून',
+    'prescription.route.vaginal': 'योनीमार्गे',
+    'prescription.food.beforeFood': 'जेवणापूर्वी',
+    'prescription.food.afterFood': 'जेवणानंतर',
+    'prescription.food.withFood': 'जेवणासोबत',
+
+    // --- Hospitals ---
+    'hospitals.title': 'जवळची रुग्णालये',
+    'hospitals.subtitle': 'तुमच्या परिसरातील वैद्यकीय केंद्रे शोधा आणि थेट अपॉइंटमेंट बुक करा.',
+    'hospitals.location': 'तुमचे शहर किंवा पत्ता टाका',
+    'hospitals.search': 'शोधा',
+    'hospitals.resultsFor': '{location} जवळची रुग्णालये',
+    'hospitals.viewMap': 'नकाशावर पहा',
+    'hospitals.book': 'अपॉइंटमेंट बुक करा',
+    'hospitals.sources': 'स्रोत:',
+    'hospitals.notInSearch': 'तुमच्या अलीकडील शोधात ते रुग्णालय सापडले नाही. अपॉइंटमेंट बुक करण्यासाठी कृपया पुन्हा शोधा.',
+    'hospitals.backToSearch': 'शोधाकडे परत जा',
+    'hospitals.bookAt': '{name} येथे अपॉइंटमेंट बुक करा',
+    'hospitals.date': 'तारीख निवडा',
+    'hospitals.time': 'वेळ निवडा',
+    'hospitals.cancel': 'रद्द करा',
+    'hospitals.confirm': 'बुकिंगची पुष्टी करा',
+    'hospitals.confirmed': '{hospital} येथे {date} रोजी {time} वाजता तुमची अपॉइंटमेंट निश्चित झाली आहे.',
+    'hospitals.confirmationNumber': 'तुमचा पुष्टीकरण क्रमांक:',
+    'hospitals.setReminder': 'स्मरणपत्र सेट करा (24 तास आधी)',
+    'hospitals.reminderSet': 'स्मरणपत्र सेट झाले!',
+    'hospitals.reminderMessage': 'स्मरणपत्र: उद्या {time} वाजता {hospital} येथे तुमची अपॉइंटमेंट आहे.',
+    'hospitals.reminderTooLate': 'अपॉइंटमेंटला 24 तासांपेक्षा कमी वेळ उरला आहे. मागील वेळेसाठी स्मरणपत्र सेट करता येत नाही.',
+    'hospitals.searchError': 'रुग्णालये शोधता आली नाहीत.',
+    'hospitals.bookingError': 'अपॉइंटमेंट बुक करता आली नाही.',
+    'hospitals.emergencyOnly': '24/7 आपत्कालीन विभाग असलेली रुग्णालये दाखवली जात आहेत.',
+    'hospitals.showAll': 'सर्व रुग्णालये दाखवा',
+    'hospitals.emergencyBadge': '24/7 आपत्कालीन',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'औषध डिलिव्हरी',
+    'delivery.subtitle': 'तुमची औषधे ऑनलाइन ऑर्डर करा आणि घरपोच मिळवा.',
+    'delivery.address': 'डिलिव्हरीचा पत्ता',
+    'delivery.medications': 'औषधे (स्वल्पविरामाने वेगळी करा)',
+    'delivery.medicationsPlaceholder': 'उदा., पॅरासिटामॉल 500mg, व्हिटॅमिन C',
+    'delivery.prescription': 'प्रिस्क्रिप्शन अपलोड करा (ऐच्छिक)',
+    'delivery.submit': 'ऑर्डर करा',
+    'delivery.resultTitle': 'ऑर्डरची पुष्टी',
+
+    // --- Profile ---
+    'profile.welcome': 'स्वागत आहे, {name}',
+    'profile.subtitle': 'तुमचे आरोग्य प्रोफाइल, औषधे आणि स्मरणपत्रे व्यवस्थापित करा. ती फक्त याच डिव्हाइसवर एन्क्रिप्ट करून ठेवली जातात.',
+    'profile.healthProfile': 'आरोग्य प्रोफाइल',
+    'profile.name': 'नाव',
+    'profile.age': 'वय',
+    'profile.sex': 'लिंग',
+    'profile.sex.unspecified': 'सांगू इच्छित नाही',
+    'profile.sex.female': 'स्त्री',
+    'profile.sex.male': 'पुरुष',
+    'profile.sex.other': 'इतर',
+    'profile.height': 'उंची (cm)',
+    'profile.weight': 'वजन (kg)',
+    'profile.goalWeight': 'लक्ष्य वजन (kg)',
+    'profile.allergies': 'ॲलर्जी (स्वल्पविरामाने वेगळ्या करा)',
+    'profile.conditions': 'आजार (स्वल्पविरामाने वेगळे करा)',
+    'profile.save': 'प्रोफाइल जतन करा',
+    'profile.saved': 'जतन केले',
+    'profile.medications': 'सध्याची औषधे',
+    'profile.medication': 'औषध',
+    'profile.dosage': 'मात्रा',
+    'profile.dosagePlaceholder': 'उदा., 500 mg दिवसातून दोनदा',
+    'profile.addMedication': 'औषध जोडा',
+    'profile.remove': 'काढा',
+    'profile.addReminderTitle': 'औषध स्मरणपत्र जोडा',
+    'profile.reminderName': 'औषधाचे नाव',
+    'profile.reminderTime': 'वेळ',
+    'profile.addReminder': 'स्मरणपत्र जोडा',
+    'profile.activeReminders': 'सक्रिय स्मरणपत्रे',
+    'profile.scheduledFor': 'दररोज {time} वाजता नियोजित',
+    'profile.scheduledEvery': 'दर {days} दिवसांनी {time} वाजता नियोजित',
+    'profile.reminderDose': 'डोस: {dose}',
+    'profile.courseDates': '{start} ते {end}',
+    'profile.courseFrom': '{start} पासून',
+    'profile.courseEnded': 'कोर्स {end} रोजी पूर्ण झाला',
+    'profile.delete': 'हटवा',
+    'profile.noReminders': 'तुमची कोणतीही सक्रिय स्मरणपत्रे नाहीत.',
+    'profile.reminderAlert': 'तुमचे {name} घेण्याची वेळ झाली आहे!',
+    'profile.appointments': 'अपॉइंटमेंट्स',
+    'profile.appointmentDetails': '{date} रोजी {time} वाजता · पुष्टीकरण {number}',
+    'profile.noAppointments': 'तुमची कोणतीही अपॉइंटमेंट बुक केलेली नाही.',
+    'profile.loadError': 'तुमच्या आरोग्य नोंदी लोड करता आल्या नाहीत. कृपया नंतर पुन्हा प्रयत्न करा.',
+    'profile.saveError': 'तुमचे बदल जतन करता आले नाहीत. कृपया पुन्हा प्रयत्न करा.',
+    'profile.saveProfileError': 'तुमचे प्रोफाइल जतन करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'बायोमेट्रिक स्कॅन',
+    'biometric.subtitle': 'उंची आणि शरीराच्या तापमानाच्या रिअल-टाइम अंदाजासाठी तुमचा कॅमेरा वापरा.',
+    'biometric.start': 'बायोमेट्रिक विश्लेषण सुरू करा',
+    'biometric.proceed': 'वैद्यकीय विश्लेषणाकडे पुढे जायचे?',
+    'biometric.no': 'नाही',
+    'biometric.yes': 'होय',
+    'biometric.analysisTitle': 'वैद्यकीय विश्लेषण',
+    'biometric.analysisSubtitle': 'बायोमेट्रिक स्कॅनवर आधारित अंतिम विश्लेषणासाठी तुमचे वय टाका.',
+    'biometric.scanResults': 'स्कॅन निकाल:',
+    'biometric.scanSummary': 'उंची: {height} cm, तापमान: {temperature}',
+    'biometric.notAvailable': 'उपलब्ध नाही',
+    'biometric.age': 'तुमचे वय टाका',
+    'biometric.submit': 'विश्लेषण मिळवा',
+    'biometric.resultTitle': 'बायोमेट्रिक विश्लेषण',
+    'biometric.libraryError': 'पोझ ओळख लायब्ररी लोड करता आली नाही. कृपया तुमचे कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+    'biometric.cameraError': 'बायोमेट्रिक स्कॅनसाठी कॅमेरा परवानगी आवश्यक आहे.',
+    'biometric.analysisError': 'विश्लेषण मिळवता आले नाही.',
+
+    // --- Imaging ---
+    'imaging.title': 'वैद्यकीय इमेजिंग विश्लेषण',
+    'imaging.subtitle': 'AI विश्लेषण आणि 3D व्हिज्युअलायझेशनसाठी एक्स-रे, MRI किंवा रक्त तपासणी अहवाल अपलोड करा.',
+    'imaging.upload': 'वैद्यकीय फाइल अपलोड करण्यासाठी क्लिक करा',
+    'imaging.formats': 'एक्स-रे, MRI, TXT किंवा PDF',
+    'imaging.resultTitle': 'विश्लेषण अहवाल',
+    'imaging.diagnosis': 'निदान',
+    'imaging.recovery': 'बरे होण्याचा अंदाजे कालावधी',
+    'imaging.visualization': '3D व्हिज्युअलायझेशन',
+    'imaging.speakText': 'निदान: {diagnosis}. बरे होणे: {recovery}',
+    'imaging.unsupported': 'असमर्थित फाइल प्रकार. कृपया प्रतिमा (PNG, JPG) किंवा मजकूर अहवाल (TXT, PDF) अपलोड करा.',
+    'imaging.error': 'विश्लेषणादरम्यान त्रुटी आली.',
+
+    // --- Chatbot ---
+    'chat.title': 'AI वैद्यकीय सहाय्यक',
+    'chat.greeting': 'नमस्कार! मी धन्वंतरी, तुमचा AI वैद्यकीय सहाय्यक. आज मी तुमची कशी मदत करू शकतो? लक्षात ठेवा, हा व्यावसायिक वैद्यकीय सल्ल्याचा पर्याय नाही.',
+    'chat.placeholder': 'प्रश्न विचारा...',
+    'chat.inputLabel': 'चॅट इनपुट',
+    'chat.send': 'संदेश पाठवा',
+    'chat.close': 'चॅट बंद करा',
+    'chat.toggle': 'चॅट उघडा/बंद करा',
+    'chat.error': 'क्षमस्व, त्रुटी आली. कृपया पुन्हा प्रयत्न करा.',
+};
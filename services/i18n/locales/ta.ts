@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const ta: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'உதவியாளர்',
+    'nav.calculator': 'கலோரி',
+    'nav.diary': 'உணவு நாட்குறிப்பு',
+    'nav.mealPlan': 'உணவுத் திட்டம்',
+    'nav.growth': 'வளர்ச்சி அட்டவணைகள்',
+    'nav.scanner': 'மருந்துச்சீட்டு',
+    'nav.imaging': 'படவியல்',
+    'nav.biometric': 'உயிரியளவு',
+    'nav.hospitals': 'மருத்துவமனைகள்',
+    'nav.delivery': 'விநியோகம்',
+    'nav.history': 'வரலாறு',
+    'nav.profile': 'சுயவிவரம்',
+    'nav.logout': 'வெளியேறு',
+    'language.label': 'மொழி',
+
+    // --- Shared ---
+    'common.disclaimer': 'பொறுப்புத் துறப்பு: இது AI உருவாக்கிய பகுப்பாய்வு; தொழில்முறை மருத்துவ ஆலோசனைக்கு மாற்றாகாது. எந்த உடல்நலக் கவலைக்கும் தகுதியான மருத்துவரை அணுகவும்.',
+    'common.startRecording': 'பதிவைத் தொடங்கு',
+    'common.stopRecording': 'பதிவை நிறுத்து',
+    'common.readAloud': 'முடிவை உரக்கப் படி',
+    'common.unknownError': 'அறியப்படாத பிழை ஏற்பட்டது.',
+
+    // --- Home ---
+    'home.title': 'தன்வந்தரிக்கு வரவேற்கிறோம்',
+    'home.intro': 'சிறந்த உடல்நல விவரங்களுக்கான உங்கள் AI மருத்துவ உதவியாளர். அறிகுறிகளைப் பகுப்பாய்வு செய்யுங்கள், ஊட்டச்சத்துத் தேவைகளைக் கணக்கிடுங்கள், மருந்துச்சீட்டுகளை எளிதாக ஸ்கேன் செய்யுங்கள்.',
+    'home.assistant.title': 'மருத்துவ உதவியாளர்',
+    'home.assistant.description': 'அறிகுறிகளைப் பகுப்பாய்வு செய்து மருந்து இடைவினைகளைச் சரிபார்க்கவும்.',
+    'home.assistant.action': 'தொடங்கு',
+    'home.calculator.title': 'கலோரி கணக்கி',
+    'home.calculator.description': 'வெவ்வேறு உடல்நல இலக்குகளுக்கான தினசரி கலோரித் தேவையை மதிப்பிடுங்கள்.',
+    'home.calculator.action': 'இப்போது கணக்கிடு',
+    'home.scanner.title': 'மருந்துச்சீட்டு ஸ்கேனர்',
+    'home.scanner.description': 'உரையைப் பிரித்தெடுத்து மருந்துகளை அடையாளம் காண மருந்துச்சீட்டைப் பதிவேற்றவும்.',
+    'home.scanner.action': 'இப்போது ஸ்கேன் செய்',
+    'home.imaging.title': 'படவியல் பகுப்பாய்வு',
+    'home.imaging.description': 'AI பகுப்பாய்வு மற்றும் 3D காட்சிப்படுத்தலுக்கு ஸ்கேன்களை (எக்ஸ்-ரே, MRI) பதிவேற்றவும்.',
+    'home.imaging.action': 'ஸ்கேனைப் பகுப்பாய்வு செய்',
+    'home.biometric.title': 'உயிரியளவு ஸ்கேன்',
+    'home.biometric.description': 'உங்கள் கேமரா மூலம் நிகழ்நேர உயிரியளவு பகுப்பாய்வு செய்யுங்கள்.',
+    'home.biometric.action': 'ஸ்கேனைத் தொடங்கு',
+    'home.hospitals.title': 'அருகிலுள்ள மருத்துவமனைகள்',
+    'home.hospitals.description': 'மருத்துவமனைகளைக் கண்டறிந்து சந்திப்புகளை முன்பதிவு செய்யுங்கள்.',
+    'home.hospitals.action': 'மருத்துவமனைகளைக் கண்டறி',
+    'home.delivery.title': 'மருந்து விநியோகம்',
+    'home.delivery.description': 'மருந்துகளை ஆர்டர் செய்து விநியோகத்திற்கு மருந்துச்சீட்டுகளைப் பதிவேற்றவும்.',
+    'home.delivery.action': 'இப்போது ஆர்டர் செய்',
+    'home.profile.title': 'சுயவிவரம் & நினைவூட்டல்கள்',
+    'home.profile.description': 'உங்கள் சுயவிவரத்தை நிர்வகித்து மருந்து நினைவூட்டல்களை அமைக்கவும்.',
+    'home.profile.action': 'சுயவிவரத்தைக் காண்க',
+    'home.articles': 'சமீபத்திய மருத்துவக் கட்டுரைகள்',
+
+    // --- Not found ---
+    'notFound.title': 'பக்கம் கிடைக்கவில்லை',
+    'notFound.message': 'நீங்கள் தேடும் பக்கம் இல்லை அல்லது நகர்த்தப்பட்டுள்ளது.',
+    'notFound.back': 'முகப்புக்குத் திரும்பு',
+
+    // --- Login ---
+    'login.title': 'தன்வந்தரிக்கு வரவேற்கிறோம்',
+    'login.welcomeBack': 'மீண்டும் வருக, {name}',
+    'login.login.subtitle': 'உங்கள் மருத்துவ உதவியாளரை அணுக உள்நுழையவும்.',
+    'login.login.submit': 'உள்நுழை',
+    'login.register.subtitle': 'உங்கள் உடல்நலத் தரவைத் தனிப்பட்டதாக வைத்திருக்க கணக்கை உருவாக்கவும்.',
+    'login.register.submit': 'கணக்கை உருவாக்கு',
+    'login.forgot.subtitle': 'கடவுச்சொல் மீட்டமைப்புக் குறியீட்டைப் பெற உங்கள் பயனர்பெயரை உள்ளிடவும்.',
+    'login.forgot.submit': 'மீட்டமைப்புக் குறியீட்டைக் கோரு',
+    'login.reset.subtitle': 'உங்கள் மீட்டமைப்புக் குறியீட்டை உள்ளிட்டு புதிய கடவுச்சொல்லைத் தேர்ந்தெடுக்கவும்.',
+    'login.reset.submit': 'கடவுச்சொல்லை மீட்டமை',
+    'login.unlock.subtitle': 'இந்தச் சாதனத்தில் உங்கள் உடல்நலப் பதிவுகளைத் திறக்க கடவுச்சொல்லை உள்ளிடவும்.',
+    'login.unlock.submit': 'திற',
+    'login.recover.subtitle': 'இந்தச் சாதனத்தில் உள்ள உங்கள் உடல்நலப் பதிவுகள் முந்தைய கடவுச்சொல்லால் பூட்டப்பட்டுள்ளன. அவற்றை வைத்திருக்க அந்தக் கடவுச்சொல்லை உள்ளிடவும்.',
+    'login.recover.submit': 'பதிவுகளை மீட்டெடு',
+    'login.username': 'பயனர்பெயர்',
+    'login.password': 'கடவுச்சொல்',
+    'login.newPassword': 'புதிய கடவுச்சொல்',
+    'login.previousPassword': 'முந்தைய கடவுச்சொல்',
+    'login.confirmPassword': 'கடவுச்சொல்லை உறுதிப்படுத்து',
+    'login.resetCode': 'மீட்டமைப்புக் குறியீடு',
+    'login.createAccount': 'கணக்கை உருவாக்கு',
+    'login.forgotPassword': 'கடவுச்சொல் மறந்துவிட்டதா?',
+    'login.haveResetCode': 'என்னிடம் மீட்டமைப்புக் குறியீடு உள்ளது',
+    'login.backToSignIn': 'உள்நுழைவுக்குத் திரும்பு',
+    'login.startOver': 'வெற்றுப் பதிவுகளுடன் தொடங்கு',
+    'login.signOut': 'வெளியேறு',
+    'login.passwordsMismatch': 'கடவுச்சொற்கள் பொருந்தவில்லை.',
+    'login.resetDone': 'உங்கள் கடவுச்சொல் மீட்டமைக்கப்பட்டது. புதிய கடவுச்சொல்லுடன் உள்நுழையவும்.',
+    'login.confirmStartOver': 'இது இந்தச் சாதனத்தில் சேமிக்கப்பட்ட உடல்நலப் பதிவுகளை நிரந்தரமாக நீக்கும். தொடரவா?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'மருத்துவ உதவியாளர்',
+    'assistant.subtitle': 'அறிகுறிகள் மற்றும் மருந்து இடைவினைகளின் AI பகுப்பாய்வுக்கு நோயாளி விவரங்களை உள்ளிடவும்.',
+    'assistant.age': 'வயது',
+    'assistant.symptoms': 'அறிகுறிகள்',
+    'assistant.medications': 'தற்போதைய மருந்துகள் (காற்புள்ளியால் பிரிக்கவும்)',
+    'assistant.submit': 'அறிகுறிகளைப் பகுப்பாய்வு செய்',
+    'assistant.resultTitle': 'AI பகுப்பாய்வு',
+    'assistant.interactions': 'சாத்தியமான இடைவினைகள்',
+    'assistant.noInteractions': 'இடைவினைகள் எதுவும் கண்டறியப்படவில்லை.',
+    'assistant.concerns': 'கவலைகள்',
+    'assistant.suggestions': 'உடல்நலப் பரிந்துரைகள்',
+    'assistant.urgency': 'அவசர நிலை: {level}.',
+    'assistant.mode.form': 'விரைவுப் படிவம்',
+    'assistant.mode.interview': 'வழிகாட்டும் நேர்காணல்',
+    'urgency.self-care': 'சுய பராமரிப்பு',
+    'urgency.see-doctor': 'மருத்துவரைப் பாருங்கள்',
+    'urgency.urgent': 'உடனடியாக மருத்துவ உதவி பெறுங்கள்',
+    'severity.minor': 'சிறிய',
+    'severity.moderate': 'மிதமான',
+    'severity.major': 'கடுமையான',
+    'severity.contraindicated': 'தவிர்க்க வேண்டியது',
+
+    // --- Symptom interview ---
+    'interview.progress': 'கேள்வி {current} / {total}',
+    'interview.question.complaint': 'முக்கிய அறிகுறி அல்லது பிரச்சனை என்ன?',
+    'interview.question.onset': 'இது எப்படித் தொடங்கியது?',
+    'interview.question.duration': 'எவ்வளவு காலமாக இருக்கிறது?',
+    'interview.question.severity': 'இப்போது இது எவ்வளவு கடுமையாக உள்ளது, 1 முதல் 10 வரை?',
+    'interview.question.location': 'உடலில் எங்கே உணர்கிறீர்கள்?',
+    'interview.question.associated': 'வேறு ஏதேனும் அறிகுறிகள் உள்ளதா?',
+    'interview.question.history': 'உங்கள் மருத்துவ வரலாற்றில் தொடர்புடையது ஏதேனும்?',
+    'interview.question.medications': 'நீங்கள் எந்த மருந்துகளை எடுத்துக்கொள்கிறீர்கள்?',
+    'interview.question.vitals': 'உங்களைப் பற்றிய சில விவரங்கள்',
+    'interview.hint.complaint': 'எ.கா., தலைவலி, வயிற்று வலி, இருமல்',
+    'interview.hint.onset': 'சரியாக எப்போது, அப்போது என்ன செய்துகொண்டிருந்தீர்கள்? (விருப்பத்தேர்வு)',
+    'interview.hint.duration': 'எ.கா., நேற்று காலை முதல்',
+    'interview.hint.location': 'எ.கா., வயிற்றின் கீழ் வலது பக்கம்',
+    'interview.hint.associated': 'பொருந்துவதைத் தட்டவும், அல்லது விவரிக்கவும்',
+    'interview.hint.history': 'நீண்டகால நோய்கள், ஒவ்வாமைகள், சமீபத்திய காயங்கள், அறுவை சிகிச்சை அல்லது பயணம்',
+    'interview.hint.medications': 'மருந்துகளைக் காற்புள்ளியால் பிரிக்கவும்',
+    'interview.onset.sudden': 'திடீரென்று',
+    'interview.onset.gradual': 'படிப்படியாக',
+    'interview.duration.hours': 'ஒரு நாளுக்குக் குறைவாக',
+    'interview.duration.days': '1–3 நாட்கள்',
+    'interview.duration.week': '4–7 நாட்கள்',
+    'interview.duration.longer': 'ஒரு வாரத்திற்கு மேல்',
+    'interview.severity.scale': '1 = அரிதாகவே உணரப்படும், 10 = தாங்க முடியாதது',
+    'interview.associated.fever': 'காய்ச்சல்',
+    'interview.associated.nausea': 'குமட்டல்',
+    'interview.associated.vomiting': 'வாந்தி',
+    'interview.associated.headache': 'தலைவலி',
+    'interview.associated.cough': 'இருமல்',
+    'interview.associated.dizziness': 'தலைச்சுற்றல்',
+    'interview.associated.fatigue': 'சோர்வு',
+    'interview.associated.rash': 'தடிப்பு',
+    'interview.associated.diarrhoea': 'வயிற்றுப்போக்கு',
+    'interview.associated.breathlessness': 'மூச்சுத் திணறல்',
+    'interview.history.conditions': 'அறியப்பட்ட நோய்கள்: {list}',
+    'interview.history.allergies': 'ஒவ்வாமைகள்: {list}',
+    'interview.back': 'பின்',
+    'interview.next': 'அடுத்து',
+    'interview.skip': 'தவிர்',
+    'interview.review': 'சுருக்கத்தைப் பார்',
+    'interview.summaryTitle': 'உங்கள் பதில்களைச் சரிபார்க்கவும்',
+    'interview.summaryHint': 'பகுப்பாய்வு இந்தச் சுருக்கத்தின் அடிப்படையில் இருக்கும். தொடரும் முன் எதையும் திருத்தவோ சேர்க்கவோ செய்யுங்கள்.',
+    'interview.summary.complaint': 'முக்கிய அறிகுறி',
+    'interview.summary.onset': 'தொடக்கம்',
+    'interview.summary.duration': 'கால அளவு',
+    'interview.summary.severity': 'தீவிரம்',
+    'interview.summary.location': 'இடம்',
+    'interview.summary.associated': 'பிற அறிகுறிகள்',
+    'interview.summary.history': 'வரலாறு',
+    'interview.startOver': 'மீண்டும் தொடங்கு',
+
+    // --- Vitals ---
+    'vitals.title': 'உயிர்க்குறிகள் (விருப்பத்தேர்வு)',
+    'vitals.temperature': 'உடல் வெப்பநிலை',
+    'vitals.bloodPressure': 'இரத்த அழுத்தம் (mmHg)',
+    'vitals.systolic': 'சிஸ்டாலிக்',
+    'vitals.diastolic': 'டயஸ்டாலிக்',
+    'vitals.heartRate': 'இதயத் துடிப்பு (துடிப்பு/நிமிடம்)',
+    'vitals.spo2': 'ஆக்ஸிஜன் செறிவு (SpO₂ %)',
+    'vitals.respiratoryRate': 'சுவாச விகிதம் (மூச்சு/நிமிடம்)',
+    'vitals.glucose': 'இரத்தச் சர்க்கரை',
+    'vitals.glucoseTiming': 'எப்போது அளக்கப்பட்டது',
+    'vitals.glucose.random': 'சீரற்ற / உணவுக்குப் பின்',
+    'vitals.glucose.fasting': 'வெறும் வயிற்றில்',
+    'vitals.weight': 'எடை',
+    'vitals.unit': 'அலகு',
+    'vitals.low': 'குறைவு – இயல்பு {range}',
+    'vitals.high': 'அதிகம் – இயல்பு {range}',
+    'vitals.note': 'இயல்பு வரம்புகள் வயதுக்கு ஏற்ப சரிசெய்யப்படுகின்றன. அவற்றுக்கு வெளியே உள்ள அளவீடு மீண்டும் அளக்க அல்லது மருத்துவரைப் பார்க்க ஒரு காரணம், நோயறிதல் அல்ல.',
+
+    // --- History ---
+    'history.title': 'பகுப்பாய்வு வரலாறு',
+    'history.subtitle': 'முந்தைய பகுப்பாய்வுகள், கணக்கீடுகள் மற்றும் ஸ்கேன்கள், இந்தச் சாதனத்தில் சேமிக்கப்பட்டவை.',
+    'history.all': 'அனைத்தும்',
+    'history.feature.assistant': 'அறிகுறி பகுப்பாய்வு',
+    'history.feature.calculator': 'கலோரி கணக்கீடு',
+    'history.feature.scanner': 'மருந்துச்சீட்டு ஸ்கேன்',
+    'history.feature.imaging': 'இமேஜிங் அறிக்கை',
+    'history.feature.biometric': 'பயோமெட்ரிக் பகுப்பாய்வு',
+    'history.feature.growth': 'வளர்ச்சி சோதனை',
+    'history.empty': 'இன்னும் எதுவும் சேமிக்கப்படவில்லை. பகுப்பாய்வு செய்த பிறகு முடிவுகள் இங்கே தோன்றும்.',
+    'history.view': 'முடிவைப் பார்',
+    'history.delete': 'நீக்கு',
+    'history.confirmDelete': 'இந்தப் பதிவை நீக்கவா? இதைத் திரும்பப் பெற முடியாது.',
+    'history.compare': 'ஒப்பீட்டுக்குத் தேர்ந்தெடு',
+    'history.compareHint': 'இரண்டு பதிவுகளைத் தேர்ந்தெடுத்து அருகருகே ஒப்பிடுங்கள்.',
+    'history.compareSelected': 'தேர்ந்தெடுத்தவற்றை ஒப்பிடு ({count}/2)',
+    'history.compareTitle': 'பகுப்பாய்வுகளை ஒப்பிடு',
+    'history.inputs': 'உள்ளீடுகள்',
+    'history.result': 'முடிவு',
+    'history.fileName': 'கோப்பு',
+    'history.back': '← வரலாற்றுக்குத் திரும்பு',
+    'history.notFound': 'இந்தப் பதிவு இனி இல்லை.',
+    'history.loadError': 'உங்கள் வரலாற்றை ஏற்ற முடியவில்லை.',
+    'history.deleteError': 'பதிவை நீக்க முடியவில்லை.',
+
+    // --- Food diary ---
+    'diary.title': 'உணவு நாட்குறிப்பு',
+    'diary.subtitle': 'நீங்கள் சாப்பிடுவதைப் பதிவுசெய்து, தினசரி கலோரி மற்றும் மேக்ரோக்களை இலக்குடன் ஒப்பிடுங்கள்.',
+    'diary.view.day': 'நாள்',
+    'diary.view.week': 'வாரம்',
+    'diary.previous': '← முந்தையது',
+    'diary.next': 'அடுத்தது →',
+    'diary.date': 'தேதி',
+    'diary.dayTotals': 'இன்றைய மொத்தம்',
+    'diary.addFood': 'உணவைச் சேர்',
+    'diary.meal': 'உணவு வேளை',
+    'diary.meal.breakfast': 'காலை உணவு',
+    'diary.meal.lunch': 'மதிய உணவு',
+    'diary.meal.dinner': 'இரவு உணவு',
+    'diary.meal.snack': 'சிற்றுண்டி',
+    'diary.whatDidYouEat': 'என்ன சாப்பிட்டீர்கள்?',
+    'diary.foodPlaceholder': 'எ.கா. 2 idli, 1 bowl sambar and a banana',
+    'diary.add': 'நாட்குறிப்பில் சேர்',
+    'diary.barcode': 'பார்கோடு எண்',
+    'diary.servings': 'பரிமாறல்கள்',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'பார்கோடு மூலம் சேர்',
+    'diary.barcodeInvalid': 'இது சரியான பார்கோடு எண் அல்ல. கோடுகளின் கீழ் அச்சிடப்பட்ட இலக்கங்களைச் சரிபாருங்கள்.',
+    'diary.barcodeUnknown': 'இந்தப் பொருள் இன்னும் உணவுத் தரவுத்தளத்தில் இல்லை.',
+    'diary.nothingRecognized': 'இவற்றில் எந்த உணவும் தரவுத்தளத்தில் இல்லை. "idli" அல்லது "dal" போன்ற எளிய பெயரை முயலுங்கள்.',
+    'diary.unrecognized': 'உணவுத் தரவுத்தளத்தில் இல்லாததால் சேர்க்கப்படவில்லை: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · புரதம் {protein} g · கார்ப் {carbs} g · கொழுப்பு {fat} g',
+    'diary.deleteEntry': '{name} நீக்கு',
+    'diary.empty': 'இந்த நாளுக்கு இன்னும் எதுவும் பதிவில்லை.',
+    'diary.calories': 'கலோரிகள்',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'இன்றைக்கு {value} kcal மீதம்',
+    'diary.over': 'இலக்கை விட {value} kcal அதிகம்',
+    'diary.noTarget': 'உங்களுக்கு இன்னும் தினசரி இலக்கு இல்லை.',
+    'diary.setTarget': 'கலோரி கணிப்பானில் ஒன்றைத் தேர்ந்தெடுங்கள் →',
+    'diary.targetFrom': 'இலக்கு: {goal}.',
+    'diary.changeTarget': 'மாற்று',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'நாள்',
+    'diary.vsTarget': 'இலக்குடன் வேறுபாடு',
+    'diary.notLogged': 'பதிவில்லை',
+    'diary.daysLogged': 'பதிவுசெய்த நாட்கள்',
+    'diary.daysLoggedValue': '{total} இல் {count}',
+    'diary.average': 'பதிவுசெய்த நாட்களின் சராசரி',
+    'diary.averageVsTarget': 'சராசரி மற்றும் இலக்கு',
+    'diary.loadError': 'உங்கள் உணவு நாட்குறிப்பை ஏற்ற முடியவில்லை.',
+    'diary.saveError': 'உணவு நாட்குறிப்பில் சேமிக்க முடியவில்லை.',
+    'diary.deleteError': 'பதிவை நீக்க முடியவில்லை.',
+    'diary.photo.title': 'புகைப்படத்திலிருந்து',
+    'diary.photo.hint': 'உங்கள் தட்டைப் புகைப்படம் எடுங்கள்; AI உணவுகளையும் அளவுகளையும் பட்டியலிடும், பதிவு செய்யும் முன் நீங்கள் சரிபார்க்கலாம்.',
+    'diary.photo.take': 'புகைப்படம் எடு அல்லது தேர்ந்தெடு',
+    'diary.photo.preview': 'உணவுப் புகைப்படம்',
+    'diary.photo.recognize': 'உணவுகளை அடையாளம் காண்',
+    'diary.photo.discard': 'நிராகரி',
+    'diary.photo.reviewHint': 'ஒவ்வொரு உணவையும் அதன் எடையையும் சரிபாருங்கள். ஊட்டச்சத்துத் தரவுத்தளத்தில் உள்ளவை அதன் மதிப்புகளைப் பயன்படுத்தும்; மற்றவை AI மதிப்பீட்டை.',
+    'diary.photo.food': 'உணவு',
+    'diary.photo.grams': 'கிராம்',
+    'diary.photo.fromDatabase': 'தரவுத்தளம்',
+    'diary.photo.estimated': 'AI மதிப்பீடு',
+    'diary.photo.unknown': 'தரவுத்தளத்தில் இல்லை',
+    'diary.photo.addItem': 'உருப்படியைச் சேர்',
+    'diary.photo.save': '{count} உருப்படிகளைப் பதிவுசெய்',
+    'diary.photo.error': 'இந்தப் புகைப்படத்தில் உணவுகளை அடையாளம் காண முடியவில்லை.',
+    'diary.photo.saveError': 'உணவுப் புகைப்படத்தைச் சேமிக்க முடியவில்லை.',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'உணவுத் திட்டமிடுபவர்',
+    'mealPlan.subtitle': 'உங்கள் கலோரி இலக்கு, உணவுமுறை, ஒவ்வாமைகள் மற்றும் மருந்துகளுக்கு ஏற்ற ஒரு வார அன்றாட இந்திய உணவு, வாங்கும் பட்டியலுடன்.',
+    'mealPlan.calories': 'தினசரி கலோரி (kcal)',
+    'mealPlan.allergies': 'உணவு ஒவ்வாமைகள்',
+    'mealPlan.allergiesPlaceholder': 'எ.கா. வேர்க்கடலை, லாக்டோஸ்',
+    'mealPlan.targetFrom': 'உங்கள் தினசரி இலக்கு {calories} kcal.',
+    'mealPlan.medications': 'தற்போதைய மருந்துகள்',
+    'mealPlan.medicationsPlaceholder': 'எ.கா. வார்ஃபரின், அடோர்வாஸ்டாடின்',
+    'mealPlan.preferences': 'உணவுமுறை',
+    'mealPlan.preference.vegetarian': 'சைவம்',
+    'mealPlan.preference.jain': 'ஜைனம் (வெங்காயம், பூண்டு, கிழங்குகள் இல்லை)',
+    'mealPlan.preference.diabetic': 'நீரிழிவு (சேர்த்த சர்க்கரை இல்லை)',
+    'mealPlan.preference.lowSodium': 'குறைந்த உப்பு',
+    'mealPlan.submit': 'உணவுத் திட்டம் உருவாக்கு',
+    'mealPlan.caloriesRequired': 'தினசரி கலோரி இலக்கை உள்ளிடவும்.',
+    'mealPlan.resultTitle': 'உங்கள் வாராந்திர உணவுத் திட்டம்',
+    'mealPlan.interactionsTitle': 'உணவு மற்றும் மருந்து இடைவினைகள்',
+    'mealPlan.column.medicine': 'மருந்து',
+    'mealPlan.column.food': 'உணவு',
+    'mealPlan.column.inPlan': 'இந்தத் திட்டத்தில்',
+    'mealPlan.advice.avoid': 'விலக்கப்பட்டது',
+    'mealPlan.advice.separate': 'வைக்கப்பட்டது; மருந்தை குறைந்தது 2 மணி நேர இடைவெளியில் எடுக்கவும்',
+    'mealPlan.component.meat': 'இறைச்சி',
+    'mealPlan.component.fish': 'மீன்',
+    'mealPlan.component.egg': 'முட்டை',
+    'mealPlan.component.dairy': 'பால் பொருட்கள்',
+    'mealPlan.component.wheat': 'கோதுமை',
+    'mealPlan.component.peanut': 'வேர்க்கடலை',
+    'mealPlan.component.treeNut': 'கொட்டைகள்',
+    'mealPlan.component.onionGarlic': 'வெங்காயம், பூண்டு',
+    'mealPlan.component.rootVegetable': 'கிழங்குகள்',
+    'mealPlan.component.addedSugar': 'சேர்த்த சர்க்கரை',
+    'mealPlan.component.highSodium': 'உப்பு அதிகமான உணவுகள்',
+    'mealPlan.component.vitaminK': 'வைட்டமின் K நிறைந்த கீரைகள்',
+    'mealPlan.component.potassium': 'பொட்டாசியம் நிறைந்த உணவுகள்',
+    'mealPlan.component.grapefruit': 'கிரேப்ஃப்ரூட், பம்பளிமாசு',
+    'mealPlan.unplanned': 'இவற்றுக்கு உங்கள் தேர்வுகளுக்குப் பொருந்தும் உணவு இல்லை: {meals}. இவற்றை நீங்களே திட்டமிடுங்கள்.',
+    'mealPlan.dayMacros': 'புரதம் {protein} கி · கார்ப்ஸ் {carbs} கி · கொழுப்பு {fat} கி',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} கி)',
+    'mealPlan.shoppingTitle': 'வாங்கும் பட்டியல்',
+    'mealPlan.shoppingNote': 'அளவுகள் வாரம் முழுவதற்குமான சமைத்த உணவுகளுக்கு; அவற்றுக்கான பொருட்களை வாங்குங்கள்.',
+    'mealPlan.another': 'வேறு திட்டம் காட்டு',
+    'mealPlan.download': 'வாங்கும் பட்டியலைப் பதிவிறக்கு',
+    'mealPlan.disclaimer': 'அளவுகள் நிலையான உணவு அட்டவணைகளிலிருந்து மதிப்பிடப்பட்டவை. ஒரு நோய்க்காக உணவை மாற்றும் முன் மருத்துவர் அல்லது உணவியல் நிபுணரிடம் கேளுங்கள்.',
+
+    // --- Body measurements ---
+    'body.title': 'எடை மற்றும் உடல் அளவீடுகள்',
+    'body.date': 'தேதி',
+    'body.weight': 'எடை (kg)',
+    'body.waist': 'இடுப்பு (cm)',
+    'body.bodyFat': 'உடல் கொழுப்பு (%)',
+    'body.add': 'அளவீட்டைச் சேர்',
+    'body.valueRequired': 'குறைந்தது ஒரு அளவீட்டை உள்ளிடவும்.',
+    'body.show': 'காட்டு',
+    'body.measure.weight': 'எடை',
+    'body.measure.waist': 'இடுப்பு',
+    'body.measure.bodyFat': 'உடல் கொழுப்பு',
+    'body.empty': 'இன்னும் அளவீடுகள் இல்லை.',
+    'body.chartLabel': 'காலப்போக்கில் {measure}',
+    'body.legend': 'புள்ளிகள் அளவீடுகள்; கோடு {days} நாள் சராசரி.',
+    'body.current': 'போக்கு எடை: {value} kg',
+    'body.rate': 'கடந்த 4 வாரங்களில் வாரத்திற்கு {rate} kg',
+    'body.tooFast': 'நீங்கள் வாரத்திற்கு சுமார் {rate} kg குறைகிறீர்கள்; இது மருத்துவக் கண்காணிப்பின்றி பாதுகாப்பான வாரத்திற்கு {limit} kg-ஐ விட வேகம். சற்று அதிகமாகச் சாப்பிடுங்கள்; எடை குறைக்க முயலவில்லை என்றால் மருத்துவரைப் பாருங்கள்.',
+    'body.noGoal': 'இலக்கை எப்போது அடைவீர்கள் என்று பார்க்க, உங்கள் சுகாதார சுயவிவரத்தில் இலக்கு எடையைச் சேர்க்கவும்.',
+    'body.projection': 'உங்கள் கலோரி இலக்கில் நீங்கள் சுமார் {date} அன்று {goal} kg-ஐ அடைவீர்கள், வாரத்திற்கு {rate} kg வீதம் சுமார் {weeks} வாரங்களில்.',
+    'body.goalReached': 'உங்கள் இலக்கு எடையான {goal} kg-ஐ அடைந்துவிட்டீர்கள்.',
+    'body.noTarget': 'இலக்குத் தேதிக்கு கலோரி கால்குலேட்டரில் இருந்து தினசரி இலக்கு தேவை.',
+    'body.wrongDirection': 'உங்கள் கலோரி இலக்கு உங்கள் எடையை இலக்கை நோக்கி நகர்த்தாது.',
+    'body.loadError': 'உங்கள் உடல் அளவீடுகளை ஏற்ற முடியவில்லை.',
+    'body.saveError': 'அளவீட்டைச் சேமிக்க முடியவில்லை.',
+    'body.deleteError': 'அளவீட்டை நீக்க முடியவில்லை.',
+
+    // --- Growth charts ---
+    'growth.title': 'வளர்ச்சி அட்டவணைகள்',
+    'growth.subtitle': 'பிறப்பு முதல் 19 வயது வரை, குழந்தையின் எடை, உயரம் மற்றும் BMI-ஐ WHO வளர்ச்சி குறிப்புகளுடன் ஒப்பிடுங்கள்.',
+    'growth.birthDate': 'பிறந்த தேதி',
+    'growth.measuredOn': 'அளந்த தேதி',
+    'growth.height': 'நீளம் அல்லது உயரம் (cm)',
+    'growth.heightNote': '2 வயதுக்கு முன் படுக்க வைத்து நீளத்தையும், பின்னர் நிற்க வைத்து உயரத்தையும் அளவிடவும்.',
+    'growth.submit': 'வளர்ச்சியைச் சோதி',
+    'growth.valueRequired': 'எடை, உயரம் அல்லது இரண்டையும் உள்ளிடவும்.',
+    'growth.dateOrder': 'அளந்த தேதி பிறந்த தேதிக்குப் பிறகு இருக்க வேண்டும்.',
+    'growth.tooOld': 'வளர்ச்சி குறிப்புகள் 19 வயது வரையிலான குழந்தைகளுக்கு மட்டுமே. பெரியவர்களுக்கு கலோரி கால்குலேட்டரையும் உடல் அளவீடுகளையும் பயன்படுத்தவும்.',
+    'growth.resultTitle': 'வளர்ச்சி சதமானங்கள்',
+    'growth.ageYears': 'வயது: {years} ஆண்டு {months} மாதம்',
+    'growth.ageMonths': 'வயது: {months} மாதம்',
+    'growth.column.indicator': 'அளவு',
+    'growth.column.value': 'மதிப்பு',
+    'growth.column.zScore': 'Z-மதிப்பெண்',
+    'growth.column.percentile': 'சதமானம்',
+    'growth.column.status': 'மதிப்பீடு',
+    'growth.indicator.weight': 'வயதுக்கேற்ற எடை',
+    'growth.indicator.height': 'வயதுக்கேற்ற உயரம்',
+    'growth.indicator.bmi': 'வயதுக்கேற்ற BMI',
+    'growth.status.normal': 'இயல்பான வரம்பில்',
+    'growth.status.severelyUnderweight': 'மிகக் கடுமையான எடைக் குறைவு',
+    'growth.status.underweight': 'எடைக் குறைவு',
+    'growth.status.aboveRange': 'வழக்கமான வரம்புக்கு மேல்; வயதுக்கேற்ற BMI-ஐப் பாருங்கள்',
+    'growth.status.severelyStunted': 'கடுமையான வளர்ச்சிக் குன்றல்',
+    'growth.status.stunted': 'வளர்ச்சிக் குன்றல்',
+    'growth.status.veryTall': 'மிக உயரம்',
+    'growth.status.severelyWasted': 'கடுமையான மெலிவு (wasting)',
+    'growth.status.wasted': 'மெலிவு (wasting)',
+    'growth.status.overweightRisk': 'அதிக எடைக்கான சாத்தியமான அபாயம்',
+    'growth.status.severeThinness': 'கடுமையான ஒல்லி',
+    'growth.status.thinness': 'ஒல்லி',
+    'growth.status.overweight': 'அதிக எடை',
+    'growth.status.obese': 'உடல் பருமன்',
+    'growth.noWeightForAge': 'WHO குறிப்பில் 10 வயதுக்குப் பிறகு வயதுக்கேற்ற எடை இல்லை; அதற்குப் பதில் வயதுக்கேற்ற BMI பயன்படுத்தப்படுகிறது.',
+    'growth.reference': 'WHO குழந்தை வளர்ச்சி தரநிலைகள் (5 வயதுக்குக் கீழ்) மற்றும் WHO வளர்ச்சி குறிப்பு (5–19 வயது) உடன் ஒப்பிடப்பட்டது. 3வது–97வது சதமானங்களுக்கு வெளியே உள்ள அளவு, அல்லது காலப்போக்கில் சதமானக் கோடுகளைக் கடக்கும் குழந்தை, குழந்தை மருத்துவரிடம் பேச வேண்டியவை.',
+    'growth.chartLabel': '{indicator} வளர்ச்சி அட்டவணை',
+    'growth.legend': 'கோடுகள் 3வது, 15வது, 50வது, 85வது மற்றும் 97வது சதமானங்கள். புள்ளிகள் இந்தக் குழந்தையின் அளவுகள், அதே பிறந்த தேதியுடன் சேமித்த முந்தைய அளவுகள் உட்பட.',
+    'growth.axisMonths': '{months} மா',
+    'growth.axisYears': '{years} ஆ',
+    'growth.openCalculator': 'இந்தக் குழந்தையின் தினசரி ஆற்றல் தேவையைக் கணக்கிடுங்கள் →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'அறியப்பட்ட இடைவினைகள்',
+    'interactions.none': 'அடையாளம் காணப்பட்ட மருந்துகளுக்கிடையே குறிப்புப் பட்டியலில் இடைவினை இல்லை.',
+    'interactions.unrecognized': 'குறிப்புப் பட்டியலில் இல்லை, எனவே சரிபார்க்கப்படவில்லை: {names}',
+    'interactions.reference': 'நன்கு அறியப்பட்ட இடைவினைகளின் உள்ளமைந்த பட்டியலுடன் இந்தச் சாதனத்திலேயே சரிபார்க்கப்பட்டது. இந்தப் பட்டியல் முழுமையானது அல்ல; மருந்துகளைத் தொடங்கும், நிறுத்தும் அல்லது சேர்த்து எடுக்கும் முன் மருத்துவர் அல்லது மருந்தாளரிடம் கேளுங்கள்.',
+    'interactions.column.medicines': 'மருந்துகள்',
+    'interactions.column.severity': 'தீவிரம்',
+    'interactions.column.effect': 'என்ன நடக்கலாம்',
+    'interactions.effect.bleeding': 'இரத்தப்போக்கு அபாயம் அதிகம்',
+    'interactions.effect.serotoninSyndrome': 'செரோடோனின் நோய்க்குறி அபாயம் (பதற்றம், காய்ச்சல், நடுக்கம்)',
+    'interactions.effect.respiratoryDepression': 'அதிக மயக்கமும் மெதுவான சுவாசமும்',
+    'interactions.effect.myopathy': 'தசை பாதிப்பு (தசை வலி அல்லது பலவீனம்)',
+    'interactions.effect.toxicity': 'மருந்து அளவும் பக்கவிளைவுகளும் அதிகரிப்பு',
+    'interactions.effect.hyperkalemia': 'அதிக பொட்டாசியம் அளவு',
+    'interactions.effect.kidneyInjury': 'சிறுநீரக பாதிப்பு',
+    'interactions.effect.qtProlongation': 'இயல்பற்ற இதயத் துடிப்பு (QT நீட்சி)',
+    'interactions.effect.bradycardia': 'மிக மெதுவான இதயத் துடிப்பு',
+    'interactions.effect.hypotension': 'ஆபத்தான அளவு குறைந்த இரத்த அழுத்தம்',
+    'interactions.effect.reducedAbsorption': 'ஒரு மருந்து குறைவாக உறிஞ்சப்படும்; சில மணி நேர இடைவெளியில் எடுக்கவும்',
+    'interactions.effect.reducedEffect': 'ஒரு மருந்தின் பலன் குறையலாம்',
+    'interactions.effect.hypoglycemia': 'குறைந்த இரத்தச் சர்க்கரை',
+    'interactions.warningTitle': 'இது நீங்கள் ஏற்கனவே எடுக்கும் மருந்துகளுடன் இடைவினை புரியலாம்',
+    'interactions.addAnyway': 'இருந்தாலும் சேர்',
+    'interactions.orderAnyway': 'இருந்தாலும் ஆர்டர் செய்',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'மாத்திரை',
+    'drugs.form.capsule': 'கேப்ஸ்யூல்',
+    'drugs.form.syrup': 'சிரப்',
+    'drugs.form.suspension': 'சஸ்பென்ஷன்',
+    'drugs.form.drops': 'சொட்டு மருந்து',
+    'drugs.form.eyeDrops': 'கண் சொட்டு மருந்து',
+    'drugs.form.nasalSpray': 'மூக்கு ஸ்ப்ரே',
+    'drugs.form.inhaler': 'இன்ஹேலர்',
+    'drugs.form.injection': 'ஊசி',
+    'drugs.form.cream': 'க்ரீம்',
+    'drugs.form.ointment': 'களிம்பு',
+    'drugs.form.gel': 'ஜெல்',
+    'drugs.form.sachet': 'சாஷே',
+    'drugs.column.written': 'எழுதியபடி',
+    'drugs.column.medicine': 'மருந்து',
+    'drugs.confidence': '{percent}% பொருத்தம்',
+    'drugs.lowConfidence': '{percent}% பொருத்தம் – இதைச் சரிபார்க்கவும்',
+    'drugs.alternatives': 'இதுவாகவும் இருக்கலாம்: {names}',
+    'drugs.unmatched': 'மருந்து அகராதியில் கிடைக்கவில்லை',
+    'drugs.note': 'பெயர்கள் இந்தச் சாதனத்திலேயே பொதுவான பிராண்டுகள் மற்றும் ஜெனரிக் மருந்துகளின் உள்ளமைந்த அகராதியுடன் பொருத்தப்படுகின்றன. ஒவ்வொன்றையும் பேக் அல்லது மருந்துச்சீட்டுடன் சரிபார்க்கவும்; உறுதியான பொருத்தங்கள் மட்டுமே நினைவூட்டல்களிலும் ஆர்டர்களிலும் பெயரால் பயன்படுத்தப்படும்.',
+
+    // --- Red-flag triage ---
+    'triage.title': 'இது மருத்துவ அவசரநிலையாக இருக்கலாம்',
+    'triage.message': 'நீங்கள் உள்ளிட்டதன் அடிப்படையில், AI பதிலுக்காகக் காத்திருக்காமல் இப்போதே அவசர உதவியைப் பெறுங்கள்.',
+    'triage.reason.cardiac': 'நெஞ்சு வலி அல்லது அழுத்தம் மாரடைப்பின் அறிகுறியாக இருக்கலாம்.',
+    'triage.reason.breathing': 'கடுமையான மூச்சுத் திணறலுக்கு உடனடி சிகிச்சை தேவை.',
+    'triage.reason.stroke': 'திடீர் பலவீனம், முகம் தொங்குதல், குழறிய பேச்சு அல்லது திடீர் கடும் தலைவலி பக்கவாதத்தின் அறிகுறிகளாக இருக்கலாம்.',
+    'triage.reason.selfHarm': 'உங்களுக்குத் தீங்கு செய்துகொள்ளும் எண்ணங்களைக் குறிப்பிட்டுள்ளீர்கள். நீங்கள் தனியாக இல்லை; பயிற்சி பெற்ற ஆலோசகர்கள் இப்போதே உதவத் தயாராக உள்ளனர்.',
+    'triage.reason.bleeding': 'அதிகமான அல்லது நிற்காத இரத்தப்போக்குக்கு உடனடி சிகிச்சை தேவை.',
+    'triage.reason.consciousness': 'மயக்கம், வலிப்பு அல்லது பதிலளிக்காத நிலைக்கு உடனடி சிகிச்சை தேவை.',
+    'triage.reason.allergy': 'தொண்டை, நாக்கு அல்லது முக வீக்கம் கடுமையான ஒவ்வாமை எதிர்வினையாக இருக்கலாம்.',
+    'triage.reason.highFever': '40 °C அல்லது அதற்கு மேற்பட்ட வெப்பநிலைக்கு உடனடி சிகிச்சை தேவை.',
+    'triage.reason.infantFever': 'ஒரு வயதுக்குட்பட்ட குழந்தையின் காய்ச்சலை உடனடியாக மருத்துவரிடம் காட்ட வேண்டும்.',
+    'triage.reason.hypothermia': '35 °C க்குக் குறைவான உடல் வெப்பநிலைக்கு உடனடி சிகிச்சை தேவை.',
+    'triage.reason.meningitis': 'காய்ச்சலுடன் கழுத்து விறைப்பு மூளைக்காய்ச்சலின் அறிகுறியாக இருக்கலாம்.',
+    'triage.call': '{number} ஐ அழைக்கவும்',
+    'triage.number.emergency': 'அனைத்து அவசரநிலைகள்',
+    'triage.number.ambulance': 'ஆம்புலன்ஸ்',
+    'triage.number.mentalHealth': 'டெலி-மானஸ் மனநல உதவி எண்',
+    'triage.findEmergency': '24/7 அவசர சிகிச்சையைக் கண்டறி',
+    'triage.continue': 'புரிந்தது, இருந்தாலும் தொடர்',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'அனுப்பப்படுவது',
+    'privacy.hiddenCount': 'மறைக்கப்பட்ட தனிப்பட்ட விவரங்கள்: {count}',
+    'privacy.previewNote': 'கீழே உள்ள உரை மட்டுமே இந்தச் சாதனத்தை விட்டு வெளியேறும். மறைக்கப்பட்ட விவரங்கள் இந்தச் சாதனத்திலேயே பதிலில் மீண்டும் சேர்க்கப்படும்.',
+    'privacy.removed': 'நீக்கப்பட்டது',
+    'privacy.type.name': 'பெயர்',
+    'privacy.type.phone': 'தொலைபேசி எண்',
+    'privacy.type.email': 'மின்னஞ்சல்',
+    'privacy.type.address': 'முகவரி',
+    'privacy.type.id': 'அடையாள எண்',
+    'privacy.type.dob': 'பிறந்த தேதி',
+    'privacy.imageNote': 'இந்தப் படம் காட்டப்படுவது போலவே அனுப்பப்படும். பெயர்கள், முகவரிகள் அல்லது அடையாள எண்களை முதலில் இழுத்து மறைக்கவும்.',
+    'privacy.undoCover': 'கடைசி மறைப்பை நீக்கு',
+    'privacy.clearCovers': 'எல்லா மறைப்புகளையும் நீக்கு',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'கலோரி கணக்கி',
+    'calculator.subtitle': 'உங்கள் வயது, பாலினம், செயல்பாட்டு நிலை மற்றும் உடல் அளவீடுகளின் அடிப்படையில் தினசரி கலோரித் தேவையை மதிப்பிடுங்கள்.',
+    'calculator.age': 'வயது',
+    'calculator.gender': 'பாலினம்',
+    'calculator.male': 'ஆண்',
+    'calculator.female': 'பெண்',
+    'calculator.weight': 'எடை (kg)',
+    'calculator.height': 'உயரம் (cm)',
+    'calculator.activity': 'செயல்பாட்டு நிலை',
+    'calculator.activity.sedentary': 'அமர்ந்தே இருப்பவர் (உடற்பயிற்சி குறைவு அல்லது இல்லை)',
+    'calculator.activity.light': 'லேசான செயல்பாடு (வாரத்தில் 1-3 நாள் லேசான உடற்பயிற்சி)',
+    'calculator.activity.moderate': 'மிதமான செயல்பாடு (வாரத்தில் 3-5 நாள் மிதமான உடற்பயிற்சி)',
+    'calculator.activity.active': 'அதிக செயல்பாடு (வாரத்தில் 6-7 நாள் கடின உடற்பயிற்சி)',
+    'calculator.activity.extra': 'மிக அதிக செயல்பாடு (மிகக் கடின உடற்பயிற்சி/உடலுழைப்பு வேலை)',
+    'calculator.submit': 'கலோரிகளைக் கணக்கிடு',
+    'calculator.resultTitle': 'கலோரித் தேவைகள்',
+    'calculator.units': 'அலகுகள்',
+    'calculator.units.metric': 'மெட்ரிக் (kg, cm)',
+    'calculator.units.imperial': 'இம்பீரியல் (lb, ft/in)',
+    'calculator.weightLb': 'எடை (lb)',
+    'calculator.heightImperial': 'உயரம் (ft, in)',
+    'calculator.feet': 'அடி',
+    'calculator.inches': 'அங்குலம்',
+    'calculator.bodyFat': 'உடல் கொழுப்பு (%)',
+    'calculator.bodyFatRequired': 'கேட்ச்-மெக்ஆர்டிலுக்கு உடல் கொழுப்பு சதவீதம் தேவை.',
+    'calculator.formula': 'BMR சூத்திரம்',
+    'calculator.formula.mifflin': 'மிஃப்லின்-செயின்ட் ஜியோர்',
+    'calculator.formula.harris': 'ஹாரிஸ்-பெனடிக்ட் (திருத்தப்பட்டது)',
+    'calculator.formula.katch': 'கேட்ச்-மெக்ஆர்டில் (உடல் கொழுப்பைப் பயன்படுத்தும்)',
+    'calculator.formula.child': 'குழந்தைகளின் ஆற்றல் தேவை (IOM)',
+    'calculator.formulaUsed': '{formula} சமன்பாட்டால் கணக்கிடப்பட்டது.',
+    'calculator.bmr': 'அடிப்படை வளர்சிதை மாற்ற விகிதம் (BMR)',
+    'calculator.tdee': 'தினசரி ஆற்றல் செலவு (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/நாள்',
+    'calculator.column.goal': 'இலக்கு',
+    'calculator.column.calories': 'kcal/நாள்',
+    'calculator.column.protein': 'புரதம்',
+    'calculator.column.carbs': 'கார்போஹைட்ரேட்',
+    'calculator.column.fat': 'கொழுப்பு',
+    'calculator.goal.lose-fast': 'வாரம் 0.5 kg குறை',
+    'calculator.goal.lose': 'வாரம் 0.25 kg குறை',
+    'calculator.goal.maintain': 'எடையைப் பராமரி',
+    'calculator.goal.gain': 'வாரம் 0.25 kg கூட்டு',
+    'calculator.goal.gain-fast': 'வாரம் 0.5 kg கூட்டு',
+    'calculator.goal.growth': 'ஆரோக்கியமான வளர்ச்சி',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'மருத்துவ மேற்பார்வையின்றி பரிந்துரைக்கப்படும் குறைந்தபட்ச தினசரி அளவுக்கு உயர்த்தப்பட்டது.',
+    'calculator.macroNote': 'புரதம் உடல் எடையின் ஒவ்வொரு kg-க்கும், கொழுப்பு கலோரியில் 25%, மீதி கார்போஹைட்ரேட்டிலிருந்து.',
+    'calculator.childFormulaUsed': 'தினசரி ஆற்றல் தேவை குழந்தைகளுக்கான Institute of Medicine சமன்பாடுகளில் இருந்து, வளர்ச்சிக்கான ஆற்றல் உட்பட; BMR Schofield சமன்பாடுகளில் இருந்து.',
+    'calculator.childMacroNote': 'புரதம் குழந்தையின் வயதுக்குப் பரிந்துரைக்கப்பட்ட அளவில் kg-க்கு, கொழுப்பு வயதைப் பொறுத்து கலோரிகளில் 30–45%, மீதி கார்போஹைட்ரேட்டில் இருந்து.',
+    'calculator.childNote': '19 வயதுக்குக் கீழ், கால்குலேட்டர் வளர்ச்சிக்கான ஆற்றல் உட்பட குழந்தைகளின் ஆற்றல் தேவையைப் பயன்படுத்துகிறது, எடை குறைப்பு இலக்குகள் தருவதில்லை. குழந்தையின் வயதை ஆண்டின் பின்னமாக உள்ளிடவும், எ.கா. ஆறு மாதத்துக்கு 0.5. குழந்தையின் எடை பற்றிய கவலைக்கு குழந்தை மருத்துவரிடம் பேசுங்கள்.',
+    'calculator.openGrowth': 'வளர்ச்சி சதமானங்களைப் பாருங்கள் →',
+    'calculator.commentary': 'AI கருத்துரை பெறு',
+    'calculator.commentaryTitle': 'கருத்துரை',
+    'calculator.commentaryError': 'இந்த எண்களுக்குக் கருத்துரை பெற முடியவில்லை.',
+    'calculator.useAsTarget': 'நாட்குறிப்பு இலக்காக்கு',
+    'calculator.targetSet': 'நாட்குறிப்பு இலக்கு ✓',
+    'calculator.targetError': 'நாட்குறிப்பு இலக்கைச் சேமிக்க முடியவில்லை.',
+    'calculator.openDiary': 'உணவு நாட்குறிப்பைத் திற →',
+    'calculator.openMealPlan': 'ஒரு வார உணவைத் திட்டமிடு →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'மருந்துச்சீட்டு ஸ்கேனர்',
+    'scanner.subtitle': 'உரையைப் பிரித்தெடுத்து மருந்துகளை அடையாளம் காண உங்கள் மருந்துச்சீட்டின் படத்தைப் பதிவேற்றவும்.',
+    'scanner.upload': 'புகைப்படங்கள் அல்லது PDF சேர்க்க கிளிக் செய்யவும்',
+    'scanner.formats': 'PNG, JPG அல்லது PDF. ஒன்றுக்கு மேற்பட்ட பக்கங்கள் உள்ள மருந்துச்சீட்டுக்குப் பலவற்றைச் சேர்க்கவும்.',
+    'scanner.preview': 'மருந்துச்சீட்டு முன்னோட்டம்',
+    'scanner.resultTitle': 'ஸ்கேன் முடிவுகள்',
+    'scanner.extractedText': 'பிரித்தெடுத்த உரை',
+    'scanner.speakText': 'பிரித்தெடுத்த உரை: {text}',
+    'scanner.noText': 'உரை எதுவும் கண்டறியப்படவில்லை.',
+    'scanner.copy': 'உரையை நகலெடு',
+    'scanner.copied': 'கிளிப்போர்டுக்கு நகலெடுக்கப்பட்டது!',
+    'scanner.medications': 'அடையாளம் காணப்பட்ட மருந்துகள்',
+    'scanner.orderMedicines': 'இந்த மருந்துகளை ஆர்டர் செய்',
+    'scanner.error': 'மருந்துச்சீட்டை ஸ்கேன் செய்ய முடியவில்லை.',
+    'scanner.scan': 'மருந்துச்சீட்டை ஸ்கேன் செய்',
+    'scanner.camera': 'கேமராவைப் பயன்படுத்து',
+    'scanner.cameraView': 'கேமரா காட்சி',
+    'scanner.cameraHint': 'பக்கத்தைச் சட்டகத்துக்குள் வைத்து, பிறகு படம் எடுக்கவும். ஒவ்வொரு பக்கத்தையும் வரிசையாக எடுக்கவும்.',
+    'scanner.capture': 'பக்கம் {number} ஐப் படம் எடு',
+    'scanner.cameraDone': 'முடிந்தது',
+    'scanner.cameraError': 'கேமராவைத் திறக்க முடியவில்லை. கேமரா அனுமதி வழங்கப்பட்டுள்ளதா என்று சரிபார்க்கவும்.',
+    'scanner.page': 'பக்கம் {number}',
+    'scanner.moveEarlier': 'பக்கம் {number} ஐ முன்னே நகர்த்து',
+    'scanner.removePage': 'நீக்கு',
+    'scanner.pdfNote': '{name} உள்ளபடியே அனுப்பப்படும், எனவே PDF இல் உள்ள விவரங்களை மறைக்க முடியாது. PDF உருவாக்கும் முன் பெயர்கள் மற்றும் முகவரிகளை மறைக்கவும், அல்லது பக்கங்களைப் புகைப்படம் எடுக்கவும்.',
+    'scanner.unsupported': '{names}: படங்கள் மற்றும் PDF களை மட்டுமே ஸ்கேன் செய்ய முடியும்.',
+    'scanner.readError': 'தேர்ந்தெடுத்த கோப்புகளைப் படிக்க முடியவில்லை.',
+    'scanner.tooLarge': 'இந்தப் பக்கங்கள் ஒன்றாக அனுப்ப மிகப் பெரியவை. ஒரு பக்கத்தை நீக்கவும் அல்லது சிறிய புகைப்படங்களைப் பயன்படுத்தவும்.',
+    'scanner.cleanUp': 'புகைப்படத்தைச் சீராக்கு: பக்கத்துக்கு வெட்டி, நேராக்கி, ஒளியைச் சமமாக்கு',
+    'scanner.before': 'மூலம்',
+    'scanner.after': 'சீராக்கப்பட்டது, அனுப்பப்படுவது',
+    'scanner.original': 'மூலப் புகைப்படம்',
+    'scanner.cropHint': 'மூலைகளைக் காகிதத்தின் ஓரங்களுக்கு இழுக்கவும். வெட்டை மாற்றினால் இந்தப் பக்கத்தில் உள்ள மறைப்புகள் நீக்கப்படும்.',
+    'scanner.detectPage': 'பக்கத்தை மீண்டும் கண்டறி',
+    'scanner.wholePhoto': 'முழுப் புகைப்படத்தையும் பயன்படுத்து',
+    'scanner.cornerTopLeft': 'மேல் இடது மூலை',
+    'scanner.cornerTopRight': 'மேல் வலது மூலை',
+    'scanner.cornerBottomRight': 'கீழ் வலது மூலை',
+    'scanner.cornerBottomLeft': 'கீழ் இடது மூலை',
+    'scanner.preparing': 'பக்கங்கள் தயாராகின்றன…',
+    'scanner.cleanUpError': 'இந்தப் புகைப்படத்தைச் சீராக்க முடியவில்லை. வேறு வெட்டை முயலவும், அல்லது உள்ளபடியே அனுப்பவும்.',
+    'scanner.schedule': 'மருந்தளவு அட்டவணை',
+    'scanner.startDate': 'சிகிச்சையின் முதல் நாள்',
+    'scanner.remindersNote': 'நினைவூட்டல்கள் காலை 08:00, மதியம் 14:00, மாலை 18:00, இரவு 21:00 மணிக்கு அமைக்கப்படும்; ஒவ்வொரு சிகிச்சையின் முடிவில் நின்றுவிடும்.',
+    'scanner.noSchedule': 'இந்த மருந்துகள் எதற்கும் நினைவூட்டல் அமைக்கக்கூடிய வழக்கமான அட்டவணை இல்லை.',
+    'scanner.unscheduled': '{names} க்கு நினைவூட்டல் இல்லை; இவை தேவைப்படும்போது மட்டும், ஒருமுறை, அல்லது படிக்க முடியாத அட்டவணையில் எடுக்கப்படுகின்றன.',
+    'scanner.createReminders': '{count} நினைவூட்டல்களை உருவாக்கு',
+    'scanner.remindersCreated': '{count} நினைவூட்டல்கள் உருவாக்கப்பட்டன.',
+    'scanner.openReminders': 'நினைவூட்டல்களைப் பார் →',
+    'scanner.remindersError': 'நினைவூட்டல்களை உருவாக்க முடியவில்லை.',
+    'scanner.review.title': 'படிக்கப்பட்டதைச் சரிபார்க்கவும்',
+    'scanner.review.hint': 'ஒவ்வொரு மருந்தையும் மருந்துச்சீட்டுடன் ஒப்பிட்டு, தவறாகப் படிக்கப்பட்டதைத் திருத்தவும். பக்கத்தில் ஒரு பெட்டியைத் தேர்ந்தெடுத்தால் அதன் மருந்துக்குச் செல்லலாம். நீங்கள் உறுதிசெய்யும் வரை எதுவும் நினைவூட்டல்கள், பொருத்தங்கள் அல்லது ஆர்டர்களுக்குப் பயன்படுத்தப்படாது.',
+    'scanner.review.prescriber': 'மருந்து எழுதிய மருத்துவர்',
+    'scanner.review.date': 'மருந்துச்சீட்டின் தேதி',
+    'scanner.review.unreadDate': '"{date}" என்று படிக்கப்பட்டது – தேதியைத் தேர்ந்தெடுக்கவும்',
+    'scanner.review.medicine': 'மருந்து {number}',
+    'scanner.review.field.name': 'பெயர்',
+    'scanner.review.field.strength': 'வலிமை',
+    'scanner.review.field.form': 'வடிவம்',
+    'scanner.review.field.dose': 'அளவு',
+    'scanner.review.field.frequency': 'எத்தனை முறை',
+    'scanner.review.field.duration': 'எவ்வளவு நாள்',
+    'scanner.review.field.route': 'வழி',
+    'scanner.review.field.instructions': 'அறிவுறுத்தல்கள்',
+    'scanner.review.check': 'இதைச் சரிபார்க்கவும்',
+    'scanner.review.region': 'மருந்து {number}: {name}',
+    'scanner.review.pdfNote': 'ஒவ்வொரு மருந்தும் எங்கு எழுதப்பட்டுள்ளது என்பதைப் புகைப்படங்களில் மட்டுமே காட்ட முடியும், PDF-களில் அல்ல.',
+    'scanner.review.addMedicine': 'மருந்தைச் சேர்',
+    'scanner.review.removeMedicine': 'மருந்து {number}-ஐ நீக்கு',
+    'scanner.review.toCheck': 'குறிக்கப்பட்ட {count} பகுதிகள் படிக்கக் கடினமாக இருந்தன அல்லது புரிந்துகொள்ள முடியவில்லை.',
+    'scanner.review.confirm': 'உறுதிசெய்',
+    'scanner.review.saveError': 'சரிபார்த்த ஸ்கேனைச் சேமிக்க முடியவில்லை.',
+    'scanner.review.confirmed': 'இந்த வாசிப்பை மருந்துச்சீட்டுடன் சரிபார்த்துள்ளீர்கள்.',
+    'scanner.review.edit': 'திருத்து',
+    'scanner.review.unconfirmed': 'இந்த வாசிப்பு மருந்துச்சீட்டுடன் சரிபார்க்கப்படவில்லை.',
+    'prescription.column.medicine': 'மருந்து',
+    'prescription.column.dose': 'அளவு',
+    'prescription.column.frequency': 'எத்தனை முறை',
+    'prescription.column.duration': 'எத்தனை நாள்',
+    'prescription.column.route': 'எடுக்கும் முறை',
+    'prescription.column.instructions': 'அறிவுறுத்தல்கள்',
+    'prescription.at': '{times} மணிக்கு',
+    'prescription.everyDays': '{days} நாட்களுக்கு ஒருமுறை {times} மணிக்கு',
+    'prescription.asNeeded': 'தேவைப்படும்போது மட்டும்',
+    'prescription.once': 'உடனே ஒரு அளவு',
+    'prescription.days': '{days} நாட்கள்',
+    'prescription.ongoing': 'தொடர்ந்து',
+    'prescription.unread': 'அடையாளம் காணப்படவில்லை',
+    'prescription.prescriber': 'மருத்துவர்: {name}',
+    'prescription.date': 'தேதி {date}',
+    'prescription.note': 'எத்தனை முறை, எத்தனை நாள் என்பது மருந்துச்சீட்டின் சுருக்கக் குறியீடுகளிலிருந்து படிக்கப்படுகிறது; எ.கா. 1-0-1 என்றால் காலை மற்றும் இரவு, 5/7 என்றால் ஐந்து நாட்கள். இவற்றை மருந்துச்சீட்டுடன் ஒப்பிடுங்கள்; ஏதேனும் தெளிவில்லை என்றால் மருத்துவர் அல்லது மருந்தாளரிடம் கேளுங்கள்.',
+    'prescription.route.oral': 'வாய் வழியாக',
+    'prescription.route.sublingual': 'நாக்கின் அடியில்',
+    'prescription.route.topical': 'தோலில்',
+    'prescription.route.eye': 'கண்ணில்',
+    'prescription.route.ear': 'காதில்',
+    'prescription.route.nasal': 'மூக்கில்',
+    'prescription.route.inhaled': 'உள்ளிழுத்தல்',
+    'prescription.route.injection': 'ஊசி',
+    'prescription.route.rectal': 'மலவாய் வழியாக',
+    'prescription.route.vaginal': 'யோனி வழியாக',
+    'prescription.food.beforeFood': 'உணவுக்கு முன்',
+    'prescription.food.afterFood': 'உணவுக்குப் பின்',
+    'prescription.food.withFood': 'உணவுடன்',
+
+    // --- Hospitals ---
+    'hospitals.title': 'அருகிலுள்ள மருத்துவமனைகள்',
+    'hospitals.subtitle': 'உங்கள் பகுதியில் உள்ள மருத்துவ மையங்களைக் கண்டறிந்து நேரடியாகச் சந்திப்புகளை முன்பதிவு செய்யுங்கள்.',
+    'hospitals.location': 'உங்கள் நகரம் அல்லது முகவரியை உள்ளிடவும்',
+    'hospitals.search': 'தேடு',
+    'hospitals.resultsFor': '{location} அருகிலுள்ள மருத்துவமனைகள்',
+    'hospitals.viewMap': 'வரைபடத்தில் காண்க',
+    'hospitals.book': 'சந்திப்பை முன்பதிவு செய்',
+    'hospitals.sources': 'ஆதாரங்கள்:',
+    'hospitals.notInSearch': 'உங்கள் சமீபத்திய தேடலில் அந்த மருத்துவமனை கிடைக்கவில்லை. சந்திப்பை முன்பதிவு செய்ய மீண்டும் தேடவும்.',
+    'hospitals.backToSearch': 'தேடலுக்குத் திரும்பு',
+    'hospitals.bookAt': '{name} இல் சந்திப்பை முன்பதிவு செய்',
+    'hospitals.date': 'தேதியைத் தேர்ந்தெடு',
+    'hospitals.time': 'நேரத்தைத் தேர்ந்தெடு',
+    'hospitals.cancel': 'ரத்து செய்',
+    'hospitals.confirm': 'முன்பதிவை உறுதிசெய்',
+    'hospitals.confirmed': '{hospital} இல் {date} அன்று {time} மணிக்கு உங்கள் சந்திப்பு உறுதி செய்யப்பட்டது.',
+    'hospitals.confirmationNumber': 'உங்கள் உறுதிப்படுத்தல் எண்:',
+    'hospitals.setReminder': 'நினைவூட்டலை அமை (24 மணி நேரம் முன்)',
+    'hospitals.reminderSet': 'நினைவூட்டல் அமைக்கப்பட்டது!',
+    'hospitals.reminderMessage': 'நினைவூட்டல்: நாளை {time} மணிக்கு {hospital} இல் உங்களுக்குச் சந்திப்பு உள்ளது.',
+    'hospitals.reminderTooLate': 'சந்திப்புக்கு 24 மணி நேரத்திற்கும் குறைவாக உள்ளது. கடந்த நேரத்திற்கு நினைவூட்டல் அமைக்க முடியாது.',
+    'hospitals.searchError': 'மருத்துவமனைகளைக் கண்டறிய முடியவில்லை.',
+    'hospitals.bookingError': 'சந்திப்பை முன்பதிவு செய்ய முடியவில்லை.',
+    'hospitals.emergencyOnly': '24/7 அவசர சிகிச்சைப் பிரிவு உள்ள மருத்துவமனைகள் காட்டப்படுகின்றன.',
+    'hospitals.showAll': 'அனைத்து மருத்துவமனைகளையும் காட்டு',
+    'hospitals.emergencyBadge': '24/7 அவசர சிகிச்சை',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'மருந்து விநியோகம்',
+    'delivery.subtitle': 'உங்கள் மருந்துகளை ஆன்லைனில் ஆர்டர் செய்து வீட்டிலேயே பெறுங்கள்.',
+    'delivery.address': 'விநியோக முகவரி',
+    'delivery.medications': 'மருந்துகள் (காற்புள்ளியால் பிரிக்கவும்)',
+    'delivery.medicationsPlaceholder': 'எ.கா., பாராசிட்டமால் 500mg, வைட்டமின் C',
+    'delivery.prescription': 'மருந்துச்சீட்டைப் பதிவேற்று (விருப்பம்)',
+    'delivery.submit': 'ஆர்டர் செய்',
+    'delivery.resultTitle': 'ஆர்டர் உறுதிப்படுத்தல்',
+
+    // --- Profile ---
+    'profile.welcome': 'வரவேற்கிறோம், {name}',
+    'profile.subtitle': 'உங்கள் உடல்நலச் சுயவிவரம், மருந்துகள் மற்றும் நினைவூட்டல்களை நிர்வகிக்கவும். அவை இந்தச் சாதனத்தில் மட்டும் மறையாக்கப்பட்டு சேமிக்கப்படுகின்றன.',
+    'profile.healthProfile': 'உடல்நலச் சுயவிவரம்',
+    'profile.name': 'பெயர்',
+    'profile.age': 'வயது',
+    'profile.sex': 'பாலினம்',
+    'profile.sex.unspecified': 'குறிப்பிட விரும்பவில்லை',
+    'profile.sex.female': 'பெண்',
+    'profile.sex.male': 'ஆண்',
+    'profile.sex.other': 'மற்றவை',
+    'profile.height': 'உயரம் (cm)',
+    'profile.weight': 'எடை (kg)',
+    'profile.goalWeight': 'இலக்கு எடை (kg)',
+    'profile.allergies': 'ஒவ்வாமைகள் (காற்புள்ளியால் பிரிக்கவும்)',
+    'profile.conditions': 'நோய் நிலைகள் (காற்புள்ளியால் பிரிக்கவும்)',
+    'profile.save': 'சுயவிவரத்தைச் சேமி',
+    'profile.saved': 'சேமிக்கப்பட்டது',
+    'profile.medications': 'தற்போதைய மருந்துகள்',
+    'profile.medication': 'மருந்து',
+    'profile.dosage': 'அளவு',
+    'profile.dosagePlaceholder': 'எ.கா., 500 mg தினமும் இருமுறை',
+    'profile.addMedication': 'மருந்தைச் சேர்',
+    'profile.remove': 'அகற்று',
+    'profile.addReminderTitle': 'மருந்து நினைவூட்டலைச் சேர்',
+    'profile.reminderName': 'மருந்தின் பெயர்',
+    'profile.reminderTime': 'நேரம்',
+    'profile.addReminder': 'நினைவூட்டலைச் சேர்',
+    'profile.activeReminders': 'செயலில் உள்ள நினைவூட்டல்கள்',
+    'profile.scheduledFor': 'தினமும் {time} மணிக்குத் திட்டமிடப்பட்டது',
+    'profile.scheduledEvery': '{days} நாட்களுக்கு ஒருமுறை {time} மணிக்குத் திட்டமிடப்பட்டது',
+    'profile.reminderDose': 'அளவு: {dose}',
+    'profile.courseDates': '{start} முதல் {end} வரை',
+    'profile.courseFrom': '{start} முதல்',
+    'profile.courseEnded': 'சிகிச்சை {end} அன்று முடிந்தது',
+    'profile.delete': 'நீக்கு',
+    'profile.noReminders': 'செயலில் உள்ள நினைவூட்டல்கள் எதுவும் இல்லை.',
+    'profile.reminderAlert': '{name} எடுத்துக்கொள்ளும் நேரம் இது!',
+    'profile.appointments': 'சந்திப்புகள்',
+    'profile.appointmentDetails': '{date} அன்று {time} மணிக்கு · உறுதிப்படுத்தல் {number}',
+    'profile.noAppointments': 'முன்பதிவு செய்யப்பட்ட சந்திப்புகள் எதுவும் இல்லை.',
+    'profile.loadError': 'உங்கள் உடல்நலப் பதிவுகளை ஏற்ற முடியவில்லை. பின்னர் மீண்டும் முயற்சிக்கவும்.',
+    'profile.saveError': 'உங்கள் மாற்றங்களைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    'profile.saveProfileError': 'உங்கள் சுயவிவரத்தைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'உயிரியளவு ஸ்கேன்',
+    'biometric.subtitle': 'உயரம் மற்றும் உடல் வெப்பநிலையின் நிகழ்நேர மதிப்பீட்டுக்கு உங்கள் கேமராவைப் பயன்படுத்தவும்.',
+    'biometric.start': 'உயிரியளவு பகுப்பாய்வைத் தொடங்கு',
+    'biometric.proceed': 'மருத்துவப் பகுப்பாய்வுக்குச் செல்லவா?',
+    'biometric.no': 'இல்லை',
+    'biometric.yes': 'ஆம்',
+    'biometric.analysisTitle': 'மருத்துவப் பகுப்பாய்வு',
+    'biometric.analysisSubtitle': 'உயிரியளவு ஸ்கேன் அடிப்படையிலான இறுதிப் பகுப்பாய்வுக்கு உங்கள் வயதை உள்ளிடவும்.',
+    'biometric.scanResults': 'ஸ்கேன் முடிவுகள்:',
+    'biometric.scanSummary': 'உயரம்: {height} cm, வெப்பநிலை: {temperature}',
+    'biometric.notAvailable': 'கிடைக்கவில்லை',
+    'biometric.age': 'உங்கள் வயதை உள்ளிடவும்',
+    'biometric.submit': 'பகுப்பாய்வைப் பெறு',
+    'biometric.resultTitle': 'உயிரியளவு பகுப்பாய்வு',
+    'biometric.libraryError': 'உடல்நிலை கண்டறிதல் நூலகத்தை ஏற்ற முடியவில்லை. உங்கள் இணைப்பைச் சரிபார்த்து மீண்டும் முயற்சிக்கவும்.',
+    'biometric.cameraError': 'உயிரியளவு ஸ்கேனுக்குக் கேமரா அனுமதி தேவை.',
+    'biometric.analysisError': 'பகுப்பாய்வைப் பெற முடியவில்லை.',
+
+    // --- Imaging ---
+    'imaging.title': 'மருத்துவப் படவியல் பகுப்பாய்வு',
+    'imaging.subtitle': 'AI பகுப்பாய்வு மற்றும் 3D காட்சிப்படுத்தலுக்கு எக்ஸ்-ரே, MRI அல்லது இரத்தப் பரிசோதனை அறிக்கையைப் பதிவேற்றவும்.',
+    'imaging.upload': 'மருத்துவக் கோப்பைப் பதிவேற்ற கிளிக் செய்யவும்',
+    'imaging.formats': 'எக்ஸ்-ரே, MRI, TXT அல்லது PDF',
+    'imaging.resultTitle': 'பகுப்பாய்வு அறிக்கை',
+    'imaging.diagnosis': 'நோயறிதல்',
+    'imaging.recovery': 'மதிப்பிடப்பட்ட குணமடையும் காலம்',
+    'imaging.visualization': '3D காட்சிப்படுத்தல்',
+    'imaging.speakText': 'நோயறிதல்: {diagnosis}. குணமடைதல்: {recovery}',
+    'imaging.unsupported': 'ஆதரிக்கப்படாத கோப்பு வகை. படம் (PNG, JPG) அல்லது உரை அறிக்கையை (TXT, PDF) பதிவேற்றவும்.',
+    'imaging.error': 'பகுப்பாய்வின்போது பிழை ஏற்பட்டது.',
+
+    // --- Chatbot ---
+    'chat.title': 'AI மருத்துவ உதவியாளர்',
+    'chat.greeting': 'வணக்கம்! நான் தன்வந்தரி, உங்கள் AI மருத்துவ உதவியாளர். இன்று நான் உங்களுக்கு எப்படி உதவலாம்? இது தொழில்முறை மருத்துவ ஆலோசனைக்கு மாற்றாகாது என்பதை நினைவில் கொள்ளுங்கள்.',
+    'chat.placeholder': 'கேள்வி கேளுங்கள்...',
+    'chat.inputLabel': 'அரட்டை உள்ளீடு',
+    'chat.send': 'செய்தியை அனுப்பு',
+    'chat.close': 'அரட்டையை மூடு',
+    'chat.toggle': 'அரட்டையைத் திற/மூடு',
+    'chat.error': 'மன்னிக்கவும், பிழை ஏற்பட்டது. மீண்டும் முயற்சிக்கவும்.',
+};
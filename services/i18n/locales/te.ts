@@ -0,0 +1,771 @@
+import type { Messages } from './en';
+
+export const te: Messages = {
+    // --- App shell ---
+    'nav.assistant': 'సహాయకుడు',
+    'nav.calculator': 'కేలరీలు',
+    'nav.diary': 'ఆహార డైరీ',
+    'nav.mealPlan': 'భోజన ప్రణాళిక',
+    'nav.growth': 'ఎదుగుదల చార్టులు',
+    'nav.scanner': 'ప్రిస్క్రిప్షన్',
+    'nav.imaging': 'ఇమేజింగ్',
+    'nav.biometric': 'బయోమెట్రిక్',
+    'nav.hospitals': 'ఆసుపత్రులు',
+    'nav.delivery': 'డెలివరీ',
+    'nav.history': 'చరిత్ర',
+    'nav.profile': 'ప్రొఫైల్',
+    'nav.logout': 'లాగ్ అవుట్',
+    'language.label': 'భాష',
+
+    // --- Shared ---
+    'common.disclaimer': 'నిరాకరణ: ఇది AI రూపొందించిన విశ్లేషణ, వృత్తిపరమైన వైద్య సలహాకు ప్రత్యామ్నాయం కాదు. ఏవైనా ఆరోగ్య సమస్యల కోసం అర్హత కలిగిన వైద్యుడిని సంప్రదించండి.',
+    'common.startRecording': 'రికార్డింగ్ ప్రారంభించు',
+    'common.stopRecording': 'రికార్డింగ్ ఆపు',
+    'common.readAloud': 'ఫలితాన్ని బిగ్గరగా చదువు',
+    'common.unknownError': 'తెలియని లోపం సంభవించింది.',
+
+    // --- Home ---
+    'home.title': 'ధన్వంతరికి స్వాగతం',
+    'home.intro': 'మెరుగైన ఆరోగ్య అవగాహన కోసం మీ AI వైద్య సహాయకుడు. లక్షణాలను విశ్లేషించండి, పోషక అవసరాలను లెక్కించండి, ప్రిస్క్రిప్షన్‌లను సులభంగా స్కాన్ చేయండి.',
+    'home.assistant.title': 'వైద్య సహాయకుడు',
+    'home.assistant.description': 'లక్షణాలను విశ్లేషించి, మందుల పరస్పర చర్యలను తనిఖీ చేయండి.',
+    'home.assistant.action': 'ప్రారంభించండి',
+    'home.calculator.title': 'కేలరీ కౌంటర్',
+    'home.calculator.description': 'వివిధ ఆరోగ్య లక్ష్యాల కోసం మీ రోజువారీ కేలరీ అవసరాలను అంచనా వేయండి.',
+    'home.calculator.action': 'ఇప్పుడే లెక్కించు',
+    'home.scanner.title': 'ప్రిస్క్రిప్షన్ స్కానర్',
+    'home.scanner.description': 'పాఠ్యాన్ని సంగ్రహించి మందులను గుర్తించడానికి ప్రిస్క్రిప్షన్‌ను అప్‌లోడ్ చేయండి.',
+    'home.scanner.action': 'ఇప్పుడే స్కాన్ చేయి',
+    'home.imaging.title': 'ఇమేజింగ్ విశ్లేషణ',
+    'home.imaging.description': 'AI విశ్లేషణ మరియు 3D విజువలైజేషన్ కోసం స్కాన్‌లను (ఎక్స్-రే, MRI) అప్‌లోడ్ చేయండి.',
+    'home.imaging.action': 'స్కాన్‌ను విశ్లేషించు',
+    'home.biometric.title': 'బయోమెట్రిక్ స్కాన్',
+    'home.biometric.description': 'మీ కెమెరాతో రియల్-టైమ్ బయోమెట్రిక్ విశ్లేషణ చేయండి.',
+    'home.biometric.action': 'స్కాన్ ప్రారంభించు',
+    'home.hospitals.title': 'సమీప ఆసుపత్రులు',
+    'home.hospitals.description': 'ఆసుపత్రులను కనుగొని అపాయింట్‌మెంట్‌లు బుక్ చేయండి.',
+    'home.hospitals.action': 'ఆసుపత్రులను కనుగొను',
+    'home.delivery.title': 'మందుల డెలివరీ',
+    'home.delivery.description': 'మందులను ఆర్డర్ చేసి, డెలివరీ కోసం ప్రిస్క్రిప్షన్‌లను అప్‌లోడ్ చేయండి.',
+    'home.delivery.action': 'ఇప్పుడే ఆర్డర్ చేయి',
+    'home.profile.title': 'ప్రొఫైల్ & రిమైండర్‌లు',
+    'home.profile.description': 'మీ ప్రొఫైల్‌ను నిర్వహించి మందుల రిమైండర్‌లను సెట్ చేయండి.',
+    'home.profile.action': 'ప్రొఫైల్ చూడు',
+    'home.articles': 'తాజా వైద్య వ్యాసాలు',
+
+    // --- Not found ---
+    'notFound.title': 'పేజీ కనుగొనబడలేదు',
+    'notFound.message': 'మీరు వెతుకుతున్న పేజీ లేదు లేదా తరలించబడింది.',
+    'notFound.back': 'హోమ్‌కు తిరిగి వెళ్లు',
+
+    // --- Login ---
+    'login.title': 'ధన్వంతరికి స్వాగతం',
+    'login.welcomeBack': 'తిరిగి స్వాగతం, {name}',
+    'login.login.subtitle': 'మీ వైద్య సహాయకుడిని ఉపయోగించడానికి సైన్ ఇన్ చేయండి.',
+    'login.login.submit': 'లాగిన్',
+    'login.register.subtitle': 'మీ ఆరోగ్య డేటాను గోప్యంగా ఉంచడానికి ఖాతాను సృష్టించండి.',
+    'login.register.submit': 'ఖాతా సృష్టించు',
+    'login.forgot.subtitle': 'పాస్‌వర్డ్ రీసెట్ కోడ్ పొందడానికి మీ వినియోగదారు పేరును నమోదు చేయండి.',
+    'login.forgot.submit': 'రీసెట్ కోడ్ అభ్యర్థించు',
+    'login.reset.subtitle': 'మీ రీసెట్ కోడ్‌ను నమోదు చేసి కొత్త పాస్‌వర్డ్‌ను ఎంచుకోండి.',
+    'login.reset.submit': 'పాస్‌వర్డ్ రీసెట్ చేయి',
+    'login.unlock.subtitle': 'ఈ పరికరంలో మీ ఆరోగ్య రికార్డులను అన్‌లాక్ చేయడానికి మీ పాస్‌వర్డ్‌ను నమోదు చేయండి.',
+    'login.unlock.submit': 'అన్‌లాక్ చేయి',
+    'login.recover.subtitle': 'ఈ పరికరంలోని మీ ఆరోగ్య రికార్డులు మీ మునుపటి పాస్‌వర్డ్‌తో లాక్ చేయబడ్డాయి. వాటిని ఉంచుకోవడానికి ఆ పాస్‌వర్డ్‌ను నమోదు చేయండి.',
+    'login.recover.submit': 'రికార్డులను తిరిగి పొందు',
+    'login.username': 'వినియోగదారు పేరు',
+    'login.password': 'పాస్‌వర్డ్',
+    'login.newPassword': 'కొత్త పాస్‌వర్డ్',
+    'login.previousPassword': 'మునుపటి పాస్‌వర్డ్',
+    'login.confirmPassword': 'పాస్‌వర్డ్‌ను నిర్ధారించు',
+    'login.resetCode': 'రీసెట్ కోడ్',
+    'login.createAccount': 'ఖాతా సృష్టించు',
+    'login.forgotPassword': 'పాస్‌వర్డ్ మర్చిపోయారా?',
+    'login.haveResetCode': 'నా దగ్గర రీసెట్ కోడ్ ఉంది',
+    'login.backToSignIn': 'సైన్ ఇన్‌కు తిరిగి వెళ్లు',
+    'login.startOver': 'ఖాళీ రికార్డులతో ప్రారంభించు',
+    'login.signOut': 'సైన్ అవుట్',
+    'login.passwordsMismatch': 'పాస్‌వర్డ్‌లు సరిపోలలేదు.',
+    'login.resetDone': 'మీ పాస్‌వర్డ్ రీసెట్ చేయబడింది. దయచేసి కొత్త పాస్‌వర్డ్‌తో సైన్ ఇన్ చేయండి.',
+    'login.confirmStartOver': 'ఇది ఈ పరికరంలో సేవ్ చేసిన ఆరోగ్య రికార్డులను శాశ్వతంగా తొలగిస్తుంది. కొనసాగించాలా?',
+
+    // --- Medical assistant ---
+    'assistant.title': 'వైద్య సహాయకుడు',
+    'assistant.subtitle': 'లక్షణాలు మరియు మందుల పరస్పర చర్యల AI విశ్లేషణ కోసం రోగి వివరాలను నమోదు చేయండి.',
+    'assistant.age': 'వయస్సు',
+    'assistant.symptoms': 'లక్షణాలు',
+    'assistant.medications': 'ప్రస్తుత మందులు (కామాతో వేరు చేయండి)',
+    'assistant.submit': 'లక్షణాలను విశ్లేషించు',
+    'assistant.resultTitle': 'AI విశ్లేషణ',
+    'assistant.interactions': 'సంభావ్య పరస్పర చర్యలు',
+    'assistant.noInteractions': 'పరస్పర చర్యలు ఏవీ కనుగొనబడలేదు.',
+    'assistant.concerns': 'ఆందోళనలు',
+    'assistant.suggestions': 'ఆరోగ్య సూచనలు',
+    'assistant.urgency': 'అత్యవసర స్థాయి: {level}.',
+    'assistant.mode.form': 'త్వరిత ఫారం',
+    'assistant.mode.interview': 'మార్గదర్శక ఇంటర్వ్యూ',
+    'urgency.self-care': 'స్వీయ సంరక్షణ',
+    'urgency.see-doctor': 'వైద్యుడిని సంప్రదించండి',
+    'urgency.urgent': 'వెంటనే వైద్య సహాయం పొందండి',
+    'severity.minor': 'స్వల్ప',
+    'severity.moderate': 'మధ్యస్థ',
+    'severity.major': 'తీవ్ర',
+    'severity.contraindicated': 'నిషిద్ధం',
+
+    // --- Symptom interview ---
+    'interview.progress': 'ప్రశ్న {current} / {total}',
+    'interview.question.complaint': 'ప్రధాన లక్షణం లేదా సమస్య ఏమిటి?',
+    'interview.question.onset': 'ఇది ఎలా మొదలైంది?',
+    'interview.question.duration': 'ఇది ఎంతకాలంగా ఉంది?',
+    'interview.question.severity': 'ఇప్పుడు ఇది ఎంత తీవ్రంగా ఉంది, 1 నుండి 10 వరకు?',
+    'interview.question.location': 'శరీరంలో ఎక్కడ అనిపిస్తోంది?',
+    'interview.question.associated': 'ఇంకా ఏవైనా లక్షణాలు ఉన్నాయా?',
+    'interview.question.history': 'మీ వైద్య చరిత్రలో సంబంధిత విషయం ఏదైనా?',
+    'interview.question.medications': 'మీరు ఏ మందులు వాడుతున్నారు?',
+    'interview.question.vitals': 'మీ గురించి కొన్ని వివరాలు',
+    'interview.hint.complaint': 'ఉదా., తలనొప్పి, కడుపు నొప్పి, దగ్గు',
+    'interview.hint.onset': 'సరిగ్గా ఎప్పుడు, అప్పుడు మీరు ఏం చేస్తున్నారు? (ఐచ్ఛికం)',
+    'interview.hint.duration': 'ఉదా., నిన్న ఉదయం నుండి',
+    'interview.hint.location': 'ఉదా., పొట్ట కింది కుడి వైపు',
+    'interview.hint.associated': 'వర్తించే వాటిని నొక్కండి, లేదా వివరించండి',
+    'interview.hint.history': 'దీర్ఘకాలిక వ్యాధులు, అలర్జీలు, ఇటీవలి గాయాలు, శస్త్రచికిత్స లేదా ప్రయాణం',
+    'interview.hint.medications': 'మందులను కామాలతో వేరు చేయండి',
+    'interview.onset.sudden': 'అకస్మాత్తుగా',
+    'interview.onset.gradual': 'క్రమంగా',
+    'interview.duration.hours': 'ఒక రోజు కంటే తక్కువ',
+    'interview.duration.days': '1–3 రోజులు',
+    'interview.duration.week': '4–7 రోజులు',
+    'interview.duration.longer': 'ఒక వారం కంటే ఎక్కువ',
+    'interview.severity.scale': '1 = అతి తక్కువగా తెలుస్తుంది, 10 = భరించలేనంత',
+    'interview.associated.fever': 'జ్వరం',
+    'interview.associated.nausea': 'వికారం',
+    'interview.associated.vomiting': 'వాంతులు',
+    'interview.associated.headache': 'తలనొప్పి',
+    'interview.associated.cough': 'దగ్గు',
+    'interview.associated.dizziness': 'తల తిరగడం',
+    'interview.associated.fatigue': 'అలసట',
+    'interview.associated.rash': 'దద్దుర్లు',
+    'interview.associated.diarrhoea': 'విరేచనాలు',
+    'interview.associated.breathlessness': 'ఊపిరి ఆడకపోవడం',
+    'interview.history.conditions': 'తెలిసిన వ్యాధులు: {list}',
+    'interview.history.allergies': 'అలర్జీలు: {list}',
+    'interview.back': 'వెనుకకు',
+    'interview.next': 'తదుపరి',
+    'interview.skip': 'దాటవేయి',
+    'interview.review': 'సారాంశం చూడండి',
+    'interview.summaryTitle': 'మీ సమాధానాలను సరిచూసుకోండి',
+    'interview.summaryHint': 'విశ్లేషణ ఈ సారాంశం ఆధారంగా ఉంటుంది. కొనసాగే ముందు ఏదైనా సరిచేయండి లేదా జోడించండి.',
+    'interview.summary.complaint': 'ప్రధాన లక్షణం',
+    'interview.summary.onset': 'ప్రారంభం',
+    'interview.summary.duration': 'వ్యవధి',
+    'interview.summary.severity': 'తీవ్రత',
+    'interview.summary.location': 'స్థానం',
+    'interview.summary.associated': 'ఇతర లక్షణాలు',
+    'interview.summary.history': 'చరిత్ర',
+    'interview.startOver': 'మళ్లీ ప్రారంభించండి',
+
+    // --- Vitals ---
+    'vitals.title': 'వైటల్స్ (ఐచ్ఛికం)',
+    'vitals.temperature': 'శరీర ఉష్ణోగ్రత',
+    'vitals.bloodPressure': 'రక్తపోటు (mmHg)',
+    'vitals.systolic': 'సిస్టోలిక్',
+    'vitals.diastolic': 'డయాస్టోలిక్',
+    'vitals.heartRate': 'గుండె వేగం (కొట్టుకోవడం/నిమిషం)',
+    'vitals.spo2': 'ఆక్సిజన్ సాచురేషన్ (SpO₂ %)',
+    'vitals.respiratoryRate': 'శ్వాస రేటు (శ్వాసలు/నిమిషం)',
+    'vitals.glucose': 'రక్తంలో గ్లూకోజ్',
+    'vitals.glucoseTiming': 'ఎప్పుడు కొలిచారు',
+    'vitals.glucose.random': 'రాండమ్ / భోజనం తర్వాత',
+    'vitals.glucose.fasting': 'పరగడుపున',
+    'vitals.weight': 'బరువు',
+    'vitals.unit': 'యూనిట్',
+    'vitals.low': 'తక్కువ – సాధారణం {range}',
+    'vitals.high': 'ఎక్కువ – సాధారణం {range}',
+    'vitals.note': 'సాధారణ పరిధులు వయస్సుకు అనుగుణంగా సర్దుబాటు చేయబడ్డాయి. వాటి బయట ఉన్న రీడింగ్ మళ్లీ కొలవడానికి లేదా వైద్యుడిని సంప్రదించడానికి కారణం, రోగనిర్ధారణ కాదు.',
+
+    // --- History ---
+    'history.title': 'విశ్లేషణ చరిత్ర',
+    'history.subtitle': 'గత విశ్లేషణలు, లెక్కలు మరియు స్కాన్‌లు, ఈ పరికరంలో సేవ్ చేయబడ్డాయి.',
+    'history.all': 'అన్నీ',
+    'history.feature.assistant': 'లక్షణ విశ్లేషణ',
+    'history.feature.calculator': 'కేలరీ లెక్కింపు',
+    'history.feature.scanner': 'ప్రిస్క్రిప్షన్ స్కాన్',
+    'history.feature.imaging': 'ఇమేజింగ్ నివేదిక',
+    'history.feature.biometric': 'బయోమెట్రిక్ విశ్లేషణ',
+    'history.feature.growth': 'ఎదుగుదల తనిఖీ',
+    'history.empty': 'ఇంకా ఏమీ సేవ్ కాలేదు. విశ్లేషణ చేసిన తర్వాత ఫలితాలు ఇక్కడ కనిపిస్తాయి.',
+    'history.view': 'ఫలితం చూడండి',
+    'history.delete': 'తొలగించు',
+    'history.confirmDelete': 'ఈ ఎంట్రీని తొలగించాలా? దీన్ని తిరిగి పొందలేరు.',
+    'history.compare': 'పోలిక కోసం ఎంచుకోండి',
+    'history.compareHint': 'రెండు ఎంట్రీలను ఎంచుకుని పక్కపక్కనే పోల్చండి.',
+    'history.compareSelected': 'ఎంచుకున్నవాటిని పోల్చండి ({count}/2)',
+    'history.compareTitle': 'విశ్లేషణలను పోల్చండి',
+    'history.inputs': 'ఇన్‌పుట్‌లు',
+    'history.result': 'ఫలితం',
+    'history.fileName': 'ఫైల్',
+    'history.back': '← చరిత్రకు తిరిగి',
+    'history.notFound': 'ఈ ఎంట్రీ ఇప్పుడు లేదు.',
+    'history.loadError': 'మీ చరిత్రను లోడ్ చేయలేకపోయాం.',
+    'history.deleteError': 'ఎంట్రీని తొలగించలేకపోయాం.',
+
+    // --- Food diary ---
+    'diary.title': 'ఆహార డైరీ',
+    'diary.subtitle': 'మీరు తినేది నమోదు చేసి, రోజువారీ కేలరీలు మరియు మాక్రోలను లక్ష్యంతో పోల్చండి.',
+    'diary.view.day': 'రోజు',
+    'diary.view.week': 'వారం',
+    'diary.previous': '← మునుపటి',
+    'diary.next': 'తదుపరి →',
+    'diary.date': 'తేదీ',
+    'diary.dayTotals': 'ఈరోజు మొత్తం',
+    'diary.addFood': 'ఆహారం జోడించండి',
+    'diary.meal': 'భోజన సమయం',
+    'diary.meal.breakfast': 'అల్పాహారం',
+    'diary.meal.lunch': 'మధ్యాహ్న భోజనం',
+    'diary.meal.dinner': 'రాత్రి భోజనం',
+    'diary.meal.snack': 'స్నాక్',
+    'diary.whatDidYouEat': 'మీరు ఏమి తిన్నారు?',
+    'diary.foodPlaceholder': 'ఉదా. 2 idli, 1 bowl sambar and a banana',
+    'diary.add': 'డైరీకి జోడించండి',
+    'diary.barcode': 'బార్‌కోడ్ సంఖ్య',
+    'diary.servings': 'సర్వింగ్‌లు',
+    'diary.barcodeFound': '{name}: {servings} × {unit} ({grams} g)',
+    'diary.addBarcode': 'బార్‌కోడ్‌తో జోడించండి',
+    'diary.barcodeInvalid': 'ఇది సరైన బార్‌కోడ్ సంఖ్య కాదు. గీతల కింద ముద్రించిన అంకెలను తనిఖీ చేయండి.',
+    'diary.barcodeUnknown': 'ఈ ఉత్పత్తి ఇంకా ఆహార డేటాబేస్‌లో లేదు.',
+    'diary.nothingRecognized': 'వీటిలో ఏ ఆహారమూ డేటాబేస్‌లో లేదు. "idli" లేదా "dal" వంటి సరళమైన పేరు ప్రయత్నించండి.',
+    'diary.unrecognized': 'ఆహార డేటాబేస్‌లో లేనందున జోడించలేదు: {items}',
+    'diary.kcal': '{value} kcal',
+    'diary.entryDetail': '{grams} g · ప్రోటీన్ {protein} g · కార్బ్స్ {carbs} g · కొవ్వు {fat} g',
+    'diary.deleteEntry': '{name} తొలగించు',
+    'diary.empty': 'ఈ రోజుకు ఇంకా ఏమీ నమోదు కాలేదు.',
+    'diary.calories': 'కేలరీలు',
+    'diary.progressKcal': '{value} / {target} kcal',
+    'diary.progressGrams': '{value} / {target} g',
+    'diary.remaining': 'ఈరోజుకు {value} kcal మిగిలి ఉంది',
+    'diary.over': 'లక్ష్యం కంటే {value} kcal ఎక్కువ',
+    'diary.noTarget': 'మీకు ఇంకా రోజువారీ లక్ష్యం లేదు.',
+    'diary.setTarget': 'కేలరీ కాలిక్యులేటర్‌లో ఒకటి ఎంచుకోండి →',
+    'diary.targetFrom': 'లక్ష్యం: {goal}.',
+    'diary.changeTarget': 'మార్చు',
+    'diary.weekTitle': '{from} – {to}',
+    'diary.day': 'రోజు',
+    'diary.vsTarget': 'లక్ష్యంతో తేడా',
+    'diary.notLogged': 'నమోదు లేదు',
+    'diary.daysLogged': 'నమోదైన రోజులు',
+    'diary.daysLoggedValue': '{total}లో {count}',
+    'diary.average': 'నమోదైన రోజుల సగటు',
+    'diary.averageVsTarget': 'సగటు vs లక్ష్యం',
+    'diary.loadError': 'మీ ఆహార డైరీని లోడ్ చేయలేకపోయాం.',
+    'diary.saveError': 'ఆహార డైరీలో సేవ్ చేయలేకపోయాం.',
+    'diary.deleteError': 'ఎంట్రీని తొలగించలేకపోయాం.',
+    'diary.photo.title': 'ఫోటో నుండి',
+    'diary.photo.hint': 'మీ ప్లేట్‌ను ఫోటో తీయండి; AI ఆహారాలు మరియు పరిమాణాలను జాబితా చేస్తుంది, నమోదు చేసే ముందు మీరు తనిఖీ చేయవచ్చు.',
+    'diary.photo.take': 'ఫోటో తీయండి లేదా ఎంచుకోండి',
+    'diary.photo.preview': 'భోజనం ఫోటో',
+    'diary.photo.recognize': 'ఆహారాలను గుర్తించండి',
+    'diary.photo.discard': 'వదిలేయండి',
+    'diary.photo.reviewHint': 'ప్రతి ఆహారాన్ని మరియు దాని బరువును తనిఖీ చేయండి. పోషకాహార డేటాబేస్‌లోని ఆహారాలు దాని విలువలను వాడతాయి; మిగతావి AI అంచనాను.',
+    'diary.photo.food': 'ఆహారం',
+    'diary.photo.grams': 'గ్రాములు',
+    'diary.photo.fromDatabase': 'డేటాబేస్',
+    'diary.photo.estimated': 'AI అంచనా',
+    'diary.photo.unknown': 'డేటాబేస్‌లో లేదు',
+    'diary.photo.addItem': 'అంశం జోడించండి',
+    'diary.photo.save': '{count} అంశాలు నమోదు చేయండి',
+    'diary.photo.error': 'ఈ ఫోటోలోని ఆహారాలను గుర్తించలేకపోయాం.',
+    'diary.photo.saveError': 'భోజనం ఫోటోను సేవ్ చేయలేకపోయాం.',
+
+    // --- Meal plan ---
+    'mealPlan.title': 'భోజన ప్రణాళిక',
+    'mealPlan.subtitle': 'మీ క్యాలరీ లక్ష్యం, ఆహార పద్ధతి, అలర్జీలు మరియు మందులకు తగిన వారం రోజుల భారతీయ భోజనం, కొనుగోలు జాబితాతో.',
+    'mealPlan.calories': 'రోజువారీ క్యాలరీలు (kcal)',
+    'mealPlan.allergies': 'ఆహార అలర్జీలు',
+    'mealPlan.allergiesPlaceholder': 'ఉదా. వేరుశనగ, లాక్టోస్',
+    'mealPlan.targetFrom': 'మీ రోజువారీ లక్ష్యం {calories} kcal.',
+    'mealPlan.medications': 'ప్రస్తుత మందులు',
+    'mealPlan.medicationsPlaceholder': 'ఉదా. వార్ఫరిన్, అటోర్వాస్టాటిన్',
+    'mealPlan.preferences': 'ఆహార పద్ధతి',
+    'mealPlan.preference.vegetarian': 'శాకాహారం',
+    'mealPlan.preference.jain': 'జైన (ఉల్లి, వెల్లుల్లి, దుంపలు లేవు)',
+    'mealPlan.preference.diabetic': 'మధుమేహం (అదనపు చక్కెర లేదు)',
+    'mealPlan.preference.lowSodium': 'తక్కువ ఉప్పు',
+    'mealPlan.submit': 'భోజన ప్రణాళిక సృష్టించండి',
+    'mealPlan.caloriesRequired': 'రోజువారీ క్యాలరీ లక్ష్యాన్ని నమోదు చేయండి.',
+    'mealPlan.resultTitle': 'మీ వారపు భోజన ప్రణాళిక',
+    'mealPlan.interactionsTitle': 'ఆహారం మరియు మందుల పరస్పర చర్యలు',
+    'mealPlan.column.medicine': 'మందు',
+    'mealPlan.column.food': 'ఆహారం',
+    'mealPlan.column.inPlan': 'ఈ ప్రణాళికలో',
+    'mealPlan.advice.avoid': 'తొలగించబడింది',
+    'mealPlan.advice.separate': 'ఉంచబడింది; మందును కనీసం 2 గంటల వ్యవధిలో తీసుకోండి',
+    'mealPlan.component.meat': 'మాంసం',
+    'mealPlan.component.fish': 'చేప',
+    'mealPlan.component.egg': 'గుడ్డు',
+    'mealPlan.component.dairy': 'పాల ఉత్పత్తులు',
+    'mealPlan.component.wheat': 'గోధుమ',
+    'mealPlan.component.peanut': 'వేరుశనగ',
+    'mealPlan.component.treeNut': 'గింజలు',
+    'mealPlan.component.onionGarlic': 'ఉల్లి మరియు వెల్లుల్లి',
+    'mealPlan.component.rootVegetable': 'దుంపలు',
+    'mealPlan.component.addedSugar': 'అదనపు చక్కెర',
+    'mealPlan.component.highSodium': 'ఉప్పు ఎక్కువ ఉన్న ఆహారాలు',
+    'mealPlan.component.vitaminK': 'విటమిన్ K అధికంగా ఉన్న ఆకుకూరలు',
+    'mealPlan.component.potassium': 'పొటాషియం అధికంగా ఉన్న ఆహారాలు',
+    'mealPlan.component.grapefruit': 'గ్రేప్‌ఫ్రూట్, పంపర పనస',
+    'mealPlan.unplanned': 'వీటికి మీ ఎంపికలకు సరిపోయే వంటకం లేదు: {meals}. వీటిని మీరే ప్లాన్ చేసుకోండి.',
+    'mealPlan.dayMacros': 'ప్రోటీన్ {protein} గ్రా · కార్బ్స్ {carbs} గ్రా · కొవ్వు {fat} గ్రా',
+    'mealPlan.item': '{name}: {servings} × {unit} ({grams} గ్రా)',
+    'mealPlan.shoppingTitle': 'కొనుగోలు జాబితా',
+    'mealPlan.shoppingNote': 'పరిమాణాలు వారం మొత్తం వండిన వంటకాలకు; వాటి పదార్థాలు కొనండి.',
+    'mealPlan.another': 'మరో ప్రణాళిక చూపండి',
+    'mealPlan.download': 'కొనుగోలు జాబితాను డౌన్‌లోడ్ చేయండి',
+    'mealPlan.disclaimer': 'పరిమాణాలు ప్రామాణిక ఆహార పట్టికల నుండి అంచనాలు. వ్యాధి కోసం ఆహారం మార్చే ముందు వైద్యుడిని లేదా డైటీషియన్‌ను అడగండి.',
+
+    // --- Body measurements ---
+    'body.title': 'బరువు మరియు శరీర కొలతలు',
+    'body.date': 'తేదీ',
+    'body.weight': 'బరువు (kg)',
+    'body.waist': 'నడుము (cm)',
+    'body.bodyFat': 'శరీర కొవ్వు (%)',
+    'body.add': 'కొలత జోడించండి',
+    'body.valueRequired': 'కనీసం ఒక కొలతను నమోదు చేయండి.',
+    'body.show': 'చూపించు',
+    'body.measure.weight': 'బరువు',
+    'body.measure.waist': 'నడుము',
+    'body.measure.bodyFat': 'శరీర కొవ్వు',
+    'body.empty': 'ఇంకా కొలతలు లేవు.',
+    'body.chartLabel': 'కాలక్రమంలో {measure}',
+    'body.legend': 'చుక్కలు కొలతలు; గీత {days} రోజుల సగటు.',
+    'body.current': 'ట్రెండ్ బరువు: {value} kg',
+    'body.rate': 'గత 4 వారాల్లో వారానికి {rate} kg',
+    'body.tooFast': 'మీరు వారానికి సుమారు {rate} kg తగ్గుతున్నారు, ఇది వైద్య పర్యవేక్షణ లేకుండా సురక్షితమైన వారానికి {limit} kg కంటే వేగం. కొంచెం ఎక్కువ తినండి; బరువు తగ్గించే ప్రయత్నం చేయకపోతే వైద్యుడిని కలవండి.',
+    'body.noGoal': 'లక్ష్యాన్ని ఎప్పుడు చేరుతారో చూడటానికి మీ ఆరోగ్య ప్రొఫైల్‌లో లక్ష్య బరువును జోడించండి.',
+    'body.projection': 'మీ క్యాలరీ లక్ష్యంతో మీరు సుమారు {date} నాటికి {goal} kg చేరుతారు, వారానికి {rate} kg చొప్పున సుమారు {weeks} వారాల్లో.',
+    'body.goalReached': 'మీరు మీ లక్ష్య బరువు {goal} kg చేరుకున్నారు.',
+    'body.noTarget': 'లక్ష్య తేదీకి క్యాలరీ కాలిక్యులేటర్ నుండి రోజువారీ లక్ష్యం అవసరం.',
+    'body.wrongDirection': 'మీ క్యాలరీ లక్ష్యం మీ బరువును లక్ష్యం వైపు కదిలించదు.',
+    'body.loadError': 'మీ శరీర కొలతలను లోడ్ చేయలేకపోయాం.',
+    'body.saveError': 'కొలతను సేవ్ చేయలేకపోయాం.',
+    'body.deleteError': 'కొలతను తొలగించలేకపోయాం.',
+
+    // --- Growth charts ---
+    'growth.title': 'ఎదుగుదల చార్టులు',
+    'growth.subtitle': 'పుట్టినప్పటి నుండి 19 ఏళ్ల వరకు, పిల్లల బరువు, ఎత్తు మరియు BMI ని WHO ఎదుగుదల ప్రమాణాలతో పోల్చండి.',
+    'growth.birthDate': 'పుట్టిన తేదీ',
+    'growth.measuredOn': 'కొలిచిన తేదీ',
+    'growth.height': 'పొడవు లేదా ఎత్తు (cm)',
+    'growth.heightNote': '2 ఏళ్ల ముందు పడుకోబెట్టి పొడవు, తర్వాత నిలబెట్టి ఎత్తు కొలవండి.',
+    'growth.submit': 'ఎదుగుదల తనిఖీ చేయండి',
+    'growth.valueRequired': 'బరువు, ఎత్తు లేదా రెండూ నమోదు చేయండి.',
+    'growth.dateOrder': 'కొలిచిన తేదీ పుట్టిన తేదీ తర్వాత ఉండాలి.',
+    'growth.tooOld': 'ఎదుగుదల ప్రమాణాలు 19 ఏళ్ల వరకు పిల్లలకు మాత్రమే. పెద్దలకు క్యాలరీ కాలిక్యులేటర్ మరియు శరీర కొలతలు వాడండి.',
+    'growth.resultTitle': 'ఎదుగుదల పర్సెంటైల్స్',
+    'growth.ageYears': 'వయస్సు: {years} సంవత్సరాలు {months} నెలలు',
+    'growth.ageMonths': 'వయస్సు: {months} నెలలు',
+    'growth.column.indicator': 'కొలత',
+    'growth.column.value': 'విలువ',
+    'growth.column.zScore': 'Z-స్కోర్',
+    'growth.column.percentile': 'పర్సెంటైల్',
+    'growth.column.status': 'అంచనా',
+    'growth.indicator.weight': 'వయస్సుకు బరువు',
+    'growth.indicator.height': 'వయస్సుకు ఎత్తు',
+    'growth.indicator.bmi': 'వయస్సుకు BMI',
+    'growth.status.normal': 'సాధారణ పరిధిలో',
+    'growth.status.severelyUnderweight': 'తీవ్రమైన తక్కువ బరువు',
+    'growth.status.underweight': 'తక్కువ బరువు',
+    'growth.status.aboveRange': 'సాధారణ పరిధి కంటే ఎక్కువ; వయస్సుకు BMI చూడండి',
+    'growth.status.severelyStunted': 'తీవ్రమైన ఎదుగుదల లోపం',
+    'growth.status.stunted': 'ఎదుగుదల లోపం',
+    'growth.status.veryTall': 'చాలా ఎత్తు',
+    'growth.status.severelyWasted': 'తీవ్రమైన క్షీణత (wasting)',
+    'growth.status.wasted': 'క్షీణత (wasting)',
+    'growth.status.overweightRisk': 'అధిక బరువు వచ్చే అవకాశం',
+    'growth.status.severeThinness': 'తీవ్రమైన సన్నదనం',
+    'growth.status.thinness': 'సన్నదనం',
+    'growth.status.overweight': 'అధిక బరువు',
+    'growth.status.obese': 'ఊబకాయం',
+    'growth.noWeightForAge': 'WHO ప్రమాణంలో 10 ఏళ్ల తర్వాత వయస్సుకు బరువు లేదు; బదులుగా వయస్సుకు BMI వాడబడుతుంది.',
+    'growth.reference': 'WHO పిల్లల ఎదుగుదల ప్రమాణాలు (5 ఏళ్ల లోపు) మరియు WHO ఎదుగుదల ప్రమాణం (5–19 ఏళ్లు) తో పోల్చబడింది. 3వ–97వ పర్సెంటైల్స్ బయట ఉన్న కొలత, లేదా కాలక్రమంలో పర్సెంటైల్ గీతలు దాటుతున్న పిల్లవాడు, పిల్లల వైద్యుడితో చర్చించదగినవి.',
+    'growth.chartLabel': '{indicator} ఎదుగుదల చార్ట్',
+    'growth.legend': 'గీతలు 3వ, 15వ, 50వ, 85వ మరియు 97వ పర్సెంటైల్స్. చుక్కలు ఈ పిల్లల కొలతలు, అదే పుట్టిన తేదీతో సేవ్ చేసిన పాత కొలతలతో సహా.',
+    'growth.axisMonths': '{months} నె',
+    'growth.axisYears': '{years} సం',
+    'growth.openCalculator': 'ఈ పిల్లల రోజువారీ శక్తి అవసరాన్ని లెక్కించండి →',
+
+    // --- Interaction checker ---
+    'interactions.title': 'తెలిసిన పరస్పర చర్యలు',
+    'interactions.none': 'గుర్తించిన మందుల మధ్య సూచన జాబితాలో పరస్పర చర్య లేదు.',
+    'interactions.unrecognized': 'సూచన జాబితాలో లేవు, కాబట్టి తనిఖీ చేయలేదు: {names}',
+    'interactions.reference': 'బాగా తెలిసిన పరస్పర చర్యల అంతర్నిర్మిత జాబితాతో ఈ పరికరంలోనే తనిఖీ చేయబడింది. ఈ జాబితా పూర్తి కాదు; మందులు మొదలుపెట్టే, ఆపే లేదా కలిపి వాడే ముందు వైద్యుడిని లేదా ఫార్మసిస్ట్‌ను అడగండి.',
+    'interactions.column.medicines': 'మందులు',
+    'interactions.column.severity': 'తీవ్రత',
+    'interactions.column.effect': 'ఏమి జరగవచ్చు',
+    'interactions.effect.bleeding': 'రక్తస్రావం ప్రమాదం ఎక్కువ',
+    'interactions.effect.serotoninSyndrome': 'సెరోటోనిన్ సిండ్రోమ్ ప్రమాదం (ఆందోళన, జ్వరం, వణుకు)',
+    'interactions.effect.respiratoryDepression': 'తీవ్రమైన మగత, నెమ్మదైన శ్వాస',
+    'interactions.effect.myopathy': 'కండరాల నష్టం (కండరాల నొప్పి లేదా బలహీనత)',
+    'interactions.effect.toxicity': 'మందు స్థాయిలు, దుష్ప్రభావాలు పెరగడం',
+    'interactions.effect.hyperkalemia': 'అధిక పొటాషియం స్థాయి',
+    'interactions.effect.kidneyInjury': 'మూత్రపిండాల నష్టం',
+    'interactions.effect.qtProlongation': 'అసాధారణ గుండె లయ (QT పొడిగింపు)',
+    'interactions.effect.bradycardia': 'చాలా నెమ్మదైన గుండె వేగం',
+    'interactions.effect.hypotension': 'ప్రమాదకరంగా తక్కువ రక్తపోటు',
+    'interactions.effect.reducedAbsorption': 'ఒక మందు తక్కువగా శోషించబడుతుంది; కొన్ని గంటల వ్యవధిలో తీసుకోండి',
+    'interactions.effect.reducedEffect': 'ఒక మందు తక్కువగా పనిచేయవచ్చు',
+    'interactions.effect.hypoglycemia': 'తక్కువ రక్తంలో చక్కెర',
+    'interactions.warningTitle': 'ఇది మీరు ఇప్పటికే వాడుతున్న మందులతో పరస్పర చర్య చేయవచ్చు',
+    'interactions.addAnyway': 'అయినా జోడించు',
+    'interactions.orderAnyway': 'అయినా ఆర్డర్ చేయి',
+
+    // --- Drug dictionary ---
+    'drugs.form.tablet': 'మాత్ర',
+    'drugs.form.capsule': 'క్యాప్సూల్',
+    'drugs.form.syrup': 'సిరప్',
+    'drugs.form.suspension': 'సస్పెన్షన్',
+    'drugs.form.drops': 'చుక్కలు',
+    'drugs.form.eyeDrops': 'కంటి చుక్కలు',
+    'drugs.form.nasalSpray': 'ముక్కు స్ప్రే',
+    'drugs.form.inhaler': 'ఇన్హేలర్',
+    'drugs.form.injection': 'ఇంజెక్షన్',
+    'drugs.form.cream': 'క్రీమ్',
+    'drugs.form.ointment': 'లేపనం',
+    'drugs.form.gel': 'జెల్',
+    'drugs.form.sachet': 'సాషే',
+    'drugs.column.written': 'రాసినట్లు',
+    'drugs.column.medicine': 'మందు',
+    'drugs.confidence': '{percent}% సరిపోలిక',
+    'drugs.lowConfidence': '{percent}% సరిపోలిక – దీన్ని తనిఖీ చేయండి',
+    'drugs.alternatives': 'ఇది కూడా కావచ్చు: {names}',
+    'drugs.unmatched': 'మందుల నిఘంటువులో కనబడలేదు',
+    'drugs.note': 'పేర్లు ఈ పరికరంలోనే సాధారణ బ్రాండ్లు మరియు జెనరిక్ మందుల అంతర్నిర్మిత నిఘంటువుతో సరిపోల్చబడతాయి. ప్రతిదాన్ని ప్యాక్ లేదా ప్రిస్క్రిప్షన్‌తో తనిఖీ చేయండి; ఖచ్చితమైన సరిపోలికలు మాత్రమే రిమైండర్లు మరియు ఆర్డర్లలో పేరుతో ఉపయోగించబడతాయి.',
+
+    // --- Red-flag triage ---
+    'triage.title': 'ఇది వైద్య అత్యవసర పరిస్థితి కావచ్చు',
+    'triage.message': 'మీరు నమోదు చేసిన దాని ఆధారంగా, AI సమాధానం కోసం వేచి ఉండకుండా ఇప్పుడే అత్యవసర సహాయం పొందండి.',
+    'triage.reason.cardiac': 'ఛాతీ నొప్పి లేదా ఒత్తిడి గుండెపోటుకు సంకేతం కావచ్చు.',
+    'triage.reason.breathing': 'తీవ్రమైన శ్వాస ఇబ్బందికి తక్షణ చికిత్స అవసరం.',
+    'triage.reason.stroke': 'ఆకస్మిక బలహీనత, ముఖం వాలిపోవడం, తడబడే మాట లేదా ఆకస్మిక తీవ్ర తలనొప్పి పక్షవాతానికి సంకేతాలు కావచ్చు.',
+    'triage.reason.selfHarm': 'మీకు మీరే హాని చేసుకునే ఆలోచనలను ప్రస్తావించారు. మీరు ఒంటరి కాదు; శిక్షణ పొందిన కౌన్సెలర్లు ఇప్పుడే అందుబాటులో ఉన్నారు.',
+    'triage.reason.bleeding': 'అధిక లేదా ఆగని రక్తస్రావానికి తక్షణ చికిత్స అవసరం.',
+    'triage.reason.consciousness': 'స్పృహ తప్పడం, మూర్ఛలు లేదా స్పందించకపోవడానికి తక్షణ చికిత్స అవసరం.',
+    'triage.reason.allergy': 'గొంతు, నాలుక లేదా ముఖం వాపు తీవ్రమైన అలెర్జీ ప్రతిచర్య కావచ్చు.',
+    'triage.reason.highFever': '40 °C లేదా అంతకంటే ఎక్కువ ఉష్ణోగ్రతకు తక్షణ చికిత్స అవసరం.',
+    'triage.reason.infantFever': 'ఒక సంవత్సరం లోపు శిశువుకు జ్వరం ఉంటే వెంటనే వైద్యుడికి చూపించాలి.',
+    'triage.reason.hypothermia': '35 °C కంటే తక్కువ శరీర ఉష్ణోగ్రతకు తక్షణ చికిత్స అవసరం.',
+    'triage.reason.meningitis': 'జ్వరంతో పాటు మెడ బిగుసుకుపోవడం మెనింజైటిస్‌కు సంకేతం కావచ్చు.',
+    'triage.call': '{number}కి కాల్ చేయండి',
+    'triage.number.emergency': 'అన్ని అత్యవసరాలు',
+    'triage.number.ambulance': 'అంబులెన్స్',
+    'triage.number.mentalHealth': 'టెలి-మానస్ మానసిక ఆరోగ్య హెల్ప్‌లైన్',
+    'triage.findEmergency': '24/7 అత్యవసర చికిత్సను కనుగొను',
+    'triage.continue': 'అర్థమైంది, అయినా కొనసాగించు',
+
+    // --- Outbound privacy ---
+    'privacy.previewTitle': 'ఏమి పంపబడుతుంది',
+    'privacy.hiddenCount': 'దాచిన వ్యక్తిగత వివరాలు: {count}',
+    'privacy.previewNote': 'క్రింది వచనం మాత్రమే ఈ పరికరం నుండి బయటకు వెళ్తుంది. దాచిన వివరాలు ఈ పరికరంలోనే సమాధానంలో తిరిగి చేర్చబడతాయి.',
+    'privacy.removed': 'తీసివేయబడింది',
+    'privacy.type.name': 'పేరు',
+    'privacy.type.phone': 'ఫోన్ నంబర్',
+    'privacy.type.email': 'ఇ-మెయిల్',
+    'privacy.type.address': 'చిరునామా',
+    'privacy.type.id': 'గుర్తింపు సంఖ్య',
+    'privacy.type.dob': 'పుట్టిన తేదీ',
+    'privacy.imageNote': 'ఈ చిత్రం కనిపిస్తున్నట్లే పంపబడుతుంది. ముందుగా పేర్లు, చిరునామాలు లేదా గుర్తింపు సంఖ్యలపై లాగి వాటిని కప్పండి.',
+    'privacy.undoCover': 'చివరి కవర్‌ను రద్దు చేయి',
+    'privacy.clearCovers': 'అన్ని కవర్‌లను తీసివేయి',
+
+    // --- Calorie calculator ---
+    'calculator.title': 'కేలరీ కౌంటర్',
+    'calculator.subtitle': 'మీ వయస్సు, లింగం, కార్యాచరణ స్థాయి మరియు శరీర కొలతల ఆధారంగా రోజువారీ కేలరీ అవసరాలను అంచనా వేయండి.',
+    'calculator.age': 'వయస్సు',
+    'calculator.gender': 'లింగం',
+    'calculator.male': 'పురుషుడు',
+    'calculator.female': 'స్త్రీ',
+    'calculator.weight': 'బరువు (kg)',
+    'calculator.height': 'ఎత్తు (cm)',
+    'calculator.activity': 'కార్యాచరణ స్థాయి',
+    'calculator.activity.sedentary': 'నిష్క్రియ (తక్కువ లేదా వ్యాయామం లేదు)',
+    'calculator.activity.light': 'తేలికపాటి చురుకుదనం (వారానికి 1-3 రోజులు తేలికపాటి వ్యాయామం)',
+    'calculator.activity.moderate': 'మధ్యస్థ చురుకుదనం (వారానికి 3-5 రోజులు మధ్యస్థ వ్యాయామం)',
+    'calculator.activity.active': 'అధిక చురుకుదనం (వారానికి 6-7 రోజులు కఠిన వ్యాయామం)',
+    'calculator.activity.extra': 'అత్యధిక చురుకుదనం (చాలా కఠిన వ్యాయామం/శారీరక శ్రమ ఉద్యోగం)',
+    'calculator.submit': 'కేలరీలను లెక్కించు',
+    'calculator.resultTitle': 'కేలరీ అవసరాలు',
+    'calculator.units': 'యూనిట్లు',
+    'calculator.units.metric': 'మెట్రిక్ (kg, cm)',
+    'calculator.units.imperial': 'ఇంపీరియల్ (lb, ft/in)',
+    'calculator.weightLb': 'బరువు (lb)',
+    'calculator.heightImperial': 'ఎత్తు (ft, in)',
+    'calculator.feet': 'అడుగులు',
+    'calculator.inches': 'అంగుళాలు',
+    'calculator.bodyFat': 'శరీర కొవ్వు (%)',
+    'calculator.bodyFatRequired': 'కాచ్-మెక్‌ఆర్డిల్‌కు శరీర కొవ్వు శాతం అవసరం.',
+    'calculator.formula': 'BMR సూత్రం',
+    'calculator.formula.mifflin': 'మిఫ్లిన్-సెయింట్ జియోర్',
+    'calculator.formula.harris': 'హారిస్-బెనెడిక్ట్ (సవరించినది)',
+    'calculator.formula.katch': 'కాచ్-మెక్‌ఆర్డిల్ (శరీర కొవ్వు ఆధారంగా)',
+    'calculator.formula.child': 'పిల్లల శక్తి అవసరం (IOM)',
+    'calculator.formulaUsed': '{formula} సమీకరణంతో లెక్కించబడింది.',
+    'calculator.bmr': 'బేసల్ మెటబాలిక్ రేట్ (BMR)',
+    'calculator.tdee': 'రోజువారీ శక్తి వ్యయం (TDEE)',
+    'calculator.kcalPerDay': '{value} kcal/రోజు',
+    'calculator.column.goal': 'లక్ష్యం',
+    'calculator.column.calories': 'kcal/రోజు',
+    'calculator.column.protein': 'ప్రోటీన్',
+    'calculator.column.carbs': 'కార్బోహైడ్రేట్లు',
+    'calculator.column.fat': 'కొవ్వు',
+    'calculator.goal.lose-fast': 'వారానికి 0.5 kg తగ్గండి',
+    'calculator.goal.lose': 'వారానికి 0.25 kg తగ్గండి',
+    'calculator.goal.maintain': 'బరువు కొనసాగించండి',
+    'calculator.goal.gain': 'వారానికి 0.25 kg పెరగండి',
+    'calculator.goal.gain-fast': 'వారానికి 0.5 kg పెరగండి',
+    'calculator.goal.growth': 'ఆరోగ్యకరమైన ఎదుగుదల',
+    'calculator.grams': '{value} g',
+    'calculator.minimumNote': 'వైద్య పర్యవేక్షణ లేకుండా సూచించే కనీస రోజువారీ తీసుకోవడానికి పెంచబడింది.',
+    'calculator.macroNote': 'ప్రోటీన్ శరీర బరువు ప్రతి kgకి, కొవ్వు కేలరీలలో 25%, మిగతావి కార్బోహైడ్రేట్ల నుండి.',
+    'calculator.childFormulaUsed': 'రోజువారీ శక్తి అవసరం పిల్లల కోసం Institute of Medicine సమీకరణాల నుండి, ఎదుగుదలకు వాడే శక్తితో కలిపి; BMR Schofield సమీకరణాల నుండి.',
+    'calculator.childMacroNote': 'ప్రోటీన్ పిల్లల వయస్సుకు సిఫార్సు చేసిన మోతాదులో kg కి, కొవ్వు వయస్సును బట్టి క్యాలరీలలో 30–45%, మిగిలినది కార్బోహైడ్రేట్ల నుండి.',
+    'calculator.childNote': '19 ఏళ్ల లోపు, కాలిక్యులేటర్ ఎదుగుదలకు శక్తితో కలిపి పిల్లల శక్తి అవసరాన్ని వాడుతుంది, బరువు తగ్గించే లక్ష్యాలు ఇవ్వదు. శిశువు వయస్సును సంవత్సర భాగంగా నమోదు చేయండి, ఉదా. ఆరు నెలలకు 0.5. పిల్లల బరువుపై ఏ ఆందోళన ఉన్నా పిల్లల వైద్యుడితో మాట్లాడండి.',
+    'calculator.openGrowth': 'ఎదుగుదల పర్సెంటైల్స్ చూడండి →',
+    'calculator.commentary': 'AI వ్యాఖ్యానం పొందండి',
+    'calculator.commentaryTitle': 'వ్యాఖ్యానం',
+    'calculator.commentaryError': 'ఈ గణాంకాలపై వ్యాఖ్యానం పొందలేకపోయాం.',
+    'calculator.useAsTarget': 'డైరీ లక్ష్యంగా పెట్టు',
+    'calculator.targetSet': 'డైరీ లక్ష్యం ✓',
+    'calculator.targetError': 'డైరీ లక్ష్యాన్ని సేవ్ చేయలేకపోయాం.',
+    'calculator.openDiary': 'ఆహార డైరీ తెరవండి →',
+    'calculator.openMealPlan': 'వారం భోజనాన్ని ప్లాన్ చేయండి →',
+
+    // --- Prescription scanner ---
+    'scanner.title': 'ప్రిస్క్రిప్షన్ స్కానర్',
+    'scanner.subtitle': 'పాఠ్యాన్ని సంగ్రహించి మందులను గుర్తించడానికి మీ ప్రిస్క్రిప్షన్ చిత్రాన్ని అప్‌లోడ్ చేయండి.',
+    'scanner.upload': 'ఫోటోలు లేదా PDF జోడించడానికి క్లిక్ చేయండి',
+    'scanner.formats': 'PNG, JPG లేదా PDF. ఒకటి కంటే ఎక్కువ పేజీలు ఉన్న ప్రిస్క్రిప్షన్ కోసం అనేకం జోడించండి.',
+    'scanner.preview': 'ప్రిస్క్రిప్షన్ ప్రివ్యూ',
+    'scanner.resultTitle': 'స్కాన్ ఫలితాలు',
+    'scanner.extractedText': 'సంగ్రహించిన పాఠ్యం',
+    'scanner.speakText': 'సంగ్రహించిన పాఠ్యం: {text}',
+    'scanner.noText': 'పాఠ్యం ఏదీ కనుగొనబడలేదు.',
+    'scanner.copy': 'పాఠ్యాన్ని కాపీ చేయి',
+    'scanner.copied': 'క్లిప్‌బోర్డ్‌కు కాపీ చేయబడింది!',
+    'scanner.medications': 'గుర్తించిన మందులు',
+    'scanner.orderMedicines': 'ఈ మందులను ఆర్డర్ చేయి',
+    'scanner.error': 'ప్రిస్క్రిప్షన్‌ను స్కాన్ చేయడం సాధ్యపడలేదు.',
+    'scanner.scan': 'ప్రిస్క్రిప్షన్‌ను స్కాన్ చేయి',
+    'scanner.camera': 'కెమెరా ఉపయోగించు',
+    'scanner.cameraView': 'కెమెరా దృశ్యం',
+    'scanner.cameraHint': 'పేజీని ఫ్రేమ్ లోపల ఉంచి, ఆపై క్యాప్చర్ చేయండి. ప్రతి పేజీని వరుసగా క్యాప్చర్ చేయండి.',
+    'scanner.capture': 'పేజీ {number} క్యాప్చర్ చేయి',
+    'scanner.cameraDone': 'పూర్తయింది',
+    'scanner.cameraError': 'కెమెరా తెరవలేకపోయాము. కెమెరా అనుమతి ఇవ్వబడిందో లేదో తనిఖీ చేయండి.',
+    'scanner.page': 'పేజీ {number}',
+    'scanner.moveEarlier': 'పేజీ {number}ని ముందుకు జరుపు',
+    'scanner.removePage': 'తీసివేయి',
+    'scanner.pdfNote': '{name} ఉన్నది ఉన్నట్లుగా పంపబడుతుంది, కాబట్టి PDFలోని వివరాలను కప్పలేము. PDF తయారు చేసే ముందు పేర్లు మరియు చిరునామాలను కప్పండి, లేదా పేజీలను ఫోటో తీయండి.',
+    'scanner.unsupported': '{names}: చిత్రాలు మరియు PDFలను మాత్రమే స్కాన్ చేయగలం.',
+    'scanner.readError': 'ఎంచుకున్న ఫైళ్లను చదవలేకపోయాము.',
+    'scanner.tooLarge': 'ఈ పేజీలు కలిసి పంపడానికి చాలా పెద్దవి. ఒక పేజీని తీసివేయండి లేదా చిన్న ఫోటోలను ఉపయోగించండి.',
+    'scanner.cleanUp': 'ఫోటోను శుభ్రపరచు: పేజీ వరకు కత్తిరించి, నిటారుగా చేసి, వెలుతురును సమం చేయి',
+    'scanner.before': 'అసలు',
+    'scanner.after': 'శుభ్రపరచినది, పంపబడేది',
+    'scanner.original': 'అసలు ఫోటో',
+    'scanner.cropHint': 'మూలలను కాగితం అంచులపైకి లాగండి. కత్తిరింపు మార్చితే ఈ పేజీపై ఉన్న కవర్లు తొలగిపోతాయి.',
+    'scanner.detectPage': 'పేజీని మళ్లీ కనుగొను',
+    'scanner.wholePhoto': 'మొత్తం ఫోటో ఉపయోగించు',
+    'scanner.cornerTopLeft': 'ఎగువ ఎడమ మూల',
+    'scanner.cornerTopRight': 'ఎగువ కుడి మూల',
+    'scanner.cornerBottomRight': 'దిగువ కుడి మూల',
+    'scanner.cornerBottomLeft': 'దిగువ ఎడమ మూల',
+    'scanner.preparing': 'పేజీలు సిద్ధమవుతున్నాయి…',
+    'scanner.cleanUpError': 'ఈ ఫోటోను శుభ్రపరచలేకపోయాము. వేరే కత్తిరింపు ప్రయత్నించండి, లేదా ఉన్నది ఉన్నట్లుగా పంపండి.',
+    'scanner.schedule': 'మోతాదు షెడ్యూల్',
+    'scanner.startDate': 'కోర్సు మొదటి రోజు',
+    'scanner.remindersNote': 'రిమైండర్లు ఉదయం 08:00, మధ్యాహ్నం 14:00, సాయంత్రం 18:00, రాత్రి 21:00కి సెట్ చేయబడతాయి, ప్రతి కోర్సు చివరిలో ఆగిపోతాయి.',
+    'scanner.noSchedule': 'ఈ మందులలో దేనికీ రిమైండర్లు సెట్ చేయగల క్రమమైన షెడ్యూల్ లేదు.',
+    'scanner.unscheduled': '{names}కి రిమైండర్లు లేవు; ఇవి అవసరమైనప్పుడు మాత్రమే, ఒక్కసారి, లేదా చదవలేని షెడ్యూల్‌లో తీసుకుంటారు.',
+    'scanner.createReminders': '{count} రిమైండర్లు సృష్టించు',
+    'scanner.remindersCreated': '{count} రిమైండర్లు సృష్టించబడ్డాయి.',
+    'scanner.openReminders': 'రిమైండర్లు చూడండి →',
+    'scanner.remindersError': 'రిమైండర్లు సృష్టించడం విఫలమైంది.',
+    'scanner.review.title': 'చదివినదాన్ని తనిఖీ చేయండి',
+    'scanner.review.hint': 'ప్రతి మందును ప్రిస్క్రిప్షన్‌తో పోల్చి, తప్పుగా చదివినదాన్ని సరిచేయండి. పేజీలో ఒక పెట్టెను ఎంచుకుంటే దాని మందుకు వెళ్తారు. మీరు నిర్ధారించే వరకు ఏదీ రిమైండర్లు, సరిపోలికలు లేదా ఆర్డర్లకు ఉపయోగించబడదు.',
+    'scanner.review.prescriber': 'మందు రాసిన డాక్టర్',
+    'scanner.review.date': 'ప్రిస్క్రిప్షన్ తేదీ',
+    'scanner.review.unreadDate': '"{date}" అని చదవబడింది – తేదీని ఎంచుకోండి',
+    'scanner.review.medicine': 'మందు {number}',
+    'scanner.review.field.name': 'పేరు',
+    'scanner.review.field.strength': 'బలం',
+    'scanner.review.field.form': 'రూపం',
+    'scanner.review.field.dose': 'మోతాదు',
+    'scanner.review.field.frequency': 'ఎన్నిసార్లు',
+    'scanner.review.field.duration': 'ఎన్ని రోజులు',
+    'scanner.review.field.route': 'మార్గం',
+    'scanner.review.field.instructions': 'సూచనలు',
+    'scanner.review.check': 'దీన్ని తనిఖీ చేయండి',
+    'scanner.review.region': 'మందు {number}: {name}',
+    'scanner.review.pdfNote': 'ప్రతి మందు ఎక్కడ రాసి ఉందో ఫోటోలలో మాత్రమే చూపించగలం, PDFలలో కాదు.',
+    'scanner.review.addMedicine': 'మందును జోడించు',
+    'scanner.review.removeMedicine': 'మందు {number}ను తీసివేయి',
+    'scanner.review.toCheck': 'గుర్తించిన {count} భాగాలు చదవడం కష్టంగా ఉన్నాయి లేదా అర్థం కాలేదు.',
+    'scanner.review.confirm': 'నిర్ధారించు',
+    'scanner.review.saveError': 'తనిఖీ చేసిన స్కాన్‌ను సేవ్ చేయలేకపోయాం.',
+    'scanner.review.confirmed': 'మీరు ఈ రీడింగ్‌ను ప్రిస్క్రిప్షన్‌తో తనిఖీ చేశారు.',
+    'scanner.review.edit': 'సవరించు',
+    'scanner.review.unconfirmed': 'ఈ రీడింగ్ ప్రిస్క్రిప్షన్‌తో తనిఖీ చేయబడలేదు.',
+    'prescription.column.medicine': 'మందు',
+    'prescription.column.dose': 'మోతాదు',
+    'prescription.column.frequency': 'ఎన్నిసార్లు',
+    'prescription.column.duration': 'ఎన్ని రోజులు',
+    'prescription.column.route': 'తీసుకునే విధానం',
+    'prescription.column.instructions': 'సూచనలు',
+    'prescription.at': '{times}కి',
+    'prescription.everyDays': 'ప్రతి {days} రోజులకు {times}కి',
+    'prescription.asNeeded': 'అవసరమైనప్పుడు మాత్రమే',
+    'prescription.once': 'వెంటనే ఒక మోతాదు',
+    'prescription.days': '{days} రోజులు',
+    'prescription.ongoing': 'కొనసాగించాలి',
+    'prescription.unread': 'గుర్తించబడలేదు',
+    'prescription.prescriber': 'వైద్యులు: {name}',
+    'prescription.date': 'తేదీ {date}',
+    'prescription.note': 'ఎన్నిసార్లు, ఎన్ని రోజులు అనేవి ప్రిస్క్రిప్షన్ సంక్షిప్త రూపాల నుండి చదవబడతాయి; ఉదా. 1-0-1 అంటే ఉదయం మరియు రాత్రి, 5/7 అంటే ఐదు రోజులు. వీటిని ప్రిస్క్రిప్షన్‌తో సరిచూడండి, ఏదైనా స్పష్టంగా లేకపోతే మీ వైద్యుడిని లేదా ఫార్మసిస్ట్‌ను అడగండి.',
+    'prescription.route.oral': 'నోటి ద్వారా',
+    'prescription.route.sublingual': 'నాలుక కింద',
+    'prescription.route.topical': 'చర్మంపై',
+    'prescription.route.eye': 'కంటిలో',
+    'prescription.route.ear': 'చెవిలో',
+    'prescription.route.nasal': 'ముక్కులో',
+    'prescription.route.inhaled': 'పీల్చడం ద్వారా',
+    'prescription.route.injection': 'ఇంజెక్షన్',
+    'prescription.route.rectal': 'మలద్వారం ద్వారా',
+    'prescription.route.vaginal': 'యోని ద్వారా',
+    'prescription.food.beforeFood': 'భోజనానికి ముందు',
+    'prescription.food.afterFood': 'భోజనం తర్వాత',
+    'prescription.food.withFood': 'భోజనంతో',
+
+    // --- Hospitals ---
+    'hospitals.title': 'సమీప ఆసుపత్రులు',
+    'hospitals.subtitle': 'మీ ప్రాంతంలోని వైద్య కేంద్రాలను కనుగొని నేరుగా అపాయింట్‌మెంట్‌లు బుక్ చేయండి.',
+    'hospitals.location': 'మీ నగరం లేదా చిరునామాను నమోదు చేయండి',
+    'hospitals.search': 'వెతుకు',
+    'hospitals.resultsFor': '{location} సమీపంలోని ఆసుపత్రులు',
+    'hospitals.viewMap': 'మ్యాప్‌లో చూడు',
+    'hospitals.book': 'అపాయింట్‌మెంట్ బుక్ చేయి',
+    'hospitals.sources': 'మూలాలు:',
+    'hospitals.notInSearch': 'మీ ఇటీవలి శోధనలో ఆ ఆసుపత్రి కనుగొనబడలేదు. అపాయింట్‌మెంట్ బుక్ చేయడానికి దయచేసి మళ్లీ వెతకండి.',
+    'hospitals.backToSearch': 'శోధనకు తిరిగి వెళ్లు',
+    'hospitals.bookAt': '{name}లో అపాయింట్‌మెంట్ బుక్ చేయి',
+    'hospitals.date': 'తేదీని ఎంచుకోండి',
+    'hospitals.time': 'సమయాన్ని ఎంచుకోండి',
+    'hospitals.cancel': 'రద్దు చేయి',
+    'hospitals.confirm': 'బుకింగ్‌ను నిర్ధారించు',
+    'hospitals.confirmed': '{hospital}లో {date}న {time}కి మీ అపాయింట్‌మెంట్ నిర్ధారించబడింది.',
+    'hospitals.confirmationNumber': 'మీ నిర్ధారణ సంఖ్య:',
+    'hospitals.setReminder': 'రిమైండర్ సెట్ చేయి (24 గంటల ముందు)',
+    'hospitals.reminderSet': 'రిమైండర్ సెట్ చేయబడింది!',
+    'hospitals.reminderMessage': 'రిమైండర్: రేపు {time}కి {hospital}లో మీకు అపాయింట్‌మెంట్ ఉంది.',
+    'hospitals.reminderTooLate': 'అపాయింట్‌మెంట్‌కు 24 గంటల కంటే తక్కువ సమయం ఉంది. గడిచిన సమయానికి రిమైండర్ సెట్ చేయలేము.',
+    'hospitals.searchError': 'ఆసుపత్రులను కనుగొనడం సాధ్యపడలేదు.',
+    'hospitals.bookingError': 'అపాయింట్‌మెంట్ బుక్ చేయడం సాధ్యపడలేదు.',
+    'hospitals.emergencyOnly': '24/7 అత్యవసర విభాగం ఉన్న ఆసుపత్రులు చూపబడుతున్నాయి.',
+    'hospitals.showAll': 'అన్ని ఆసుపత్రులను చూపు',
+    'hospitals.emergencyBadge': '24/7 అత్యవసర సేవ',
+
+    // --- Medicine delivery ---
+    'delivery.title': 'మందుల డెలివరీ',
+    'delivery.subtitle': 'మీ మందులను ఆన్‌లైన్‌లో ఆర్డర్ చేసి ఇంటి వద్దే పొందండి.',
+    'delivery.address': 'డెలివరీ చిరునామా',
+    'delivery.medications': 'మందులు (కామాతో వేరు చేయండి)',
+    'delivery.medicationsPlaceholder': 'ఉదా., పారాసిటమాల్ 500mg, విటమిన్ C',
+    'delivery.prescription': 'ప్రిస్క్రిప్షన్ అప్‌లోడ్ చేయి (ఐచ్ఛికం)',
+    'delivery.submit': 'ఆర్డర్ చేయి',
+    'delivery.resultTitle': 'ఆర్డర్ నిర్ధారణ',
+
+    // --- Profile ---
+    'profile.welcome': 'స్వాగతం, {name}',
+    'profile.subtitle': 'మీ ఆరోగ్య ప్రొఫైల్, మందులు మరియు రిమైండర్‌లను నిర్వహించండి. ఇవి ఈ పరికరంలో మాత్రమే ఎన్‌క్రిప్ట్ చేసి ఉంచబడతాయి.',
+    'profile.healthProfile': 'ఆరోగ్య ప్రొఫైల్',
+    'profile.name': 'పేరు',
+    'profile.age': 'వయస్సు',
+    'profile.sex': 'లింగం',
+    'profile.sex.unspecified': 'చెప్పడానికి ఇష్టపడను',
+    'profile.sex.female': 'స్త్రీ',
+    'profile.sex.male': 'పురుషుడు',
+    'profile.sex.other': 'ఇతర',
+    'profile.height': 'ఎత్తు (cm)',
+    'profile.weight': 'బరువు (kg)',
+    'profile.goalWeight': 'లక్ష్య బరువు (kg)',
+    'profile.allergies': 'అలెర్జీలు (కామాతో వేరు చేయండి)',
+    'profile.conditions': 'వ్యాధులు (కామాతో వేరు చేయండి)',
+    'profile.save': 'ప్రొఫైల్ సేవ్ చేయి',
+    'profile.saved': 'సేవ్ చేయబడింది',
+    'profile.medications': 'ప్రస్తుత మందులు',
+    'profile.medication': 'మందు',
+    'profile.dosage': 'మోతాదు',
+    'profile.dosagePlaceholder': 'ఉదా., 500 mg రోజుకు రెండుసార్లు',
+    'profile.addMedication': 'మందును జోడించు',
+    'profile.remove': 'తీసివేయి',
+    'profile.addReminderTitle': 'మందుల రిమైండర్ జోడించు',
+    'profile.reminderName': 'మందు పేరు',
+    'profile.reminderTime': 'సమయం',
+    'profile.addReminder': 'రిమైండర్ జోడించు',
+    'profile.activeReminders': 'సక్రియ రిమైండర్‌లు',
+    'profile.scheduledFor': 'ప్రతిరోజూ {time}కి షెడ్యూల్ చేయబడింది',
+    'profile.scheduledEvery': 'ప్రతి {days} రోజులకు {time}కి షెడ్యూల్ చేయబడింది',
+    'profile.reminderDose': 'మోతాదు: {dose}',
+    'profile.courseDates': '{start} నుండి {end} వరకు',
+    'profile.courseFrom': '{start} నుండి',
+    'profile.courseEnded': 'కోర్సు {end}న ముగిసింది',
+    'profile.delete': 'తొలగించు',
+    'profile.noReminders': 'మీకు సక్రియ రిమైండర్‌లు ఏవీ లేవు.',
+    'profile.reminderAlert': 'మీ {name} తీసుకునే సమయం అయింది!',
+    'profile.appointments': 'అపాయింట్‌మెంట్‌లు',
+    'profile.appointmentDetails': '{date}న {time}కి · నిర్ధారణ {number}',
+    'profile.noAppointments': 'మీకు బుక్ చేసిన అపాయింట్‌మెంట్‌లు ఏవీ లేవు.',
+    'profile.loadError': 'మీ ఆరోగ్య రికార్డులను లోడ్ చేయడం సాధ్యపడలేదు. దయచేసి తర్వాత మళ్లీ ప్రయత్నించండి.',
+    'profile.saveError': 'మీ మార్పులను సేవ్ చేయడం సాధ్యపడలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.',
+    'profile.saveProfileError': 'మీ ప్రొఫైల్‌ను సేవ్ చేయడం సాధ్యపడలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.',
+
+    // --- Biometric scanner ---
+    'biometric.title': 'బయోమెట్రిక్ స్కాన్',
+    'biometric.subtitle': 'ఎత్తు మరియు శరీర ఉష్ణోగ్రత యొక్క రియల్-టైమ్ అంచనా కోసం మీ కెమెరాను ఉపయోగించండి.',
+    'biometric.start': 'బయోమెట్రిక్ విశ్లేషణ ప్రారంభించు',
+    'biometric.proceed': 'వైద్య విశ్లేషణకు కొనసాగాలా?',
+    'biometric.no': 'వద్దు',
+    'biometric.yes': 'అవును',
+    'biometric.analysisTitle': 'వైద్య విశ్లేషణ',
+    'biometric.analysisSubtitle': 'బయోమెట్రిక్ స్కాన్ ఆధారంగా తుది విశ్లేషణ కోసం మీ వయస్సును నమోదు చేయండి.',
+    'biometric.scanResults': 'స్కాన్ ఫలితాలు:',
+    'biometric.scanSummary': 'ఎత్తు: {height} cm, ఉష్ణోగ్రత: {temperature}',
+    'biometric.notAvailable': 'అందుబాటులో లేదు',
+    'biometric.age': 'మీ వయస్సును నమోదు చేయండి',
+    'biometric.submit': 'విశ్లేషణ పొందు',
+    'biometric.resultTitle': 'బయోమెట్రిక్ విశ్లేషణ',
+    'biometric.libraryError': 'భంగిమ గుర్తింపు లైబ్రరీని లోడ్ చేయడం సాధ్యపడలేదు. మీ కనెక్షన్‌ను తనిఖీ చేసి మళ్లీ ప్రయత్నించండి.',
+    'biometric.cameraError': 'బయోమెట్రిక్ స్కాన్ కోసం కెమెరా అనుమతి అవసరం.',
+    'biometric.analysisError': 'విశ్లేషణ పొందడం సాధ్యపడలేదు.',
+
+    // --- Imaging ---
+    'imaging.title': 'వైద్య ఇమేజింగ్ విశ్లేషణ',
+    'imaging.subtitle': 'AI విశ్లేషణ మరియు 3D విజువలైజేషన్ కోసం ఎక్స్-రే, MRI లేదా రక్త పరీక్ష నివేదికను అప్‌లోడ్ చేయండి.',
+    'imaging.upload': 'వైద్య ఫైల్‌ను అప్‌లోడ్ చేయడానికి క్లిక్ చేయండి',
+    'imaging.formats': 'ఎక్స్-రే, MRI, TXT లేదా PDF',
+    'imaging.resultTitle': 'విశ్లేషణ నివేదిక',
+    'imaging.diagnosis': 'రోగ నిర్ధారణ',
+    'imaging.recovery': 'అంచనా కోలుకునే కాలం',
+    'imaging.visualization': '3D విజువలైజేషన్',
+    'imaging.speakText': 'రోగ నిర్ధారణ: {diagnosis}. కోలుకోవడం: {recovery}',
+    'imaging.unsupported': 'మద్దతు లేని ఫైల్ రకం. దయచేసి చిత్రం (PNG, JPG) లేదా పాఠ్య నివేదిక (TXT, PDF) అప్‌లోడ్ చేయండి.',
+    'imaging.error': 'విశ్లేషణ సమయంలో లోపం సంభవించింది.',
+
+    // --- Chatbot ---
+    'chat.title': 'AI వైద్య సహాయకుడు',
+    'chat.greeting': 'నమస్కారం! నేను ధన్వంతరి, మీ AI వైద్య సహాయకుడిని. ఈ రోజు నేను మీకు ఎలా సహాయపడగలను? ఇది వృత్తిపరమైన వైద్య సలహాకు ప్రత్యామ్నాయం కాదని గుర్తుంచుకోండి.',
+    'chat.placeholder': 'ప్రశ్న అడగండి...',
+    'chat.inputLabel': 'చాట్ ఇన్‌పుట్',
+    'chat.send': 'సందేశం పంపు',
+    'chat.close': 'చాట్ మూసివేయి',
+    'chat.toggle': 'చాట్ తెరువు/మూసివేయి',
+    'chat.error': 'క్షమించండి, లోపం సంభవించింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+};
@@ -0,0 +1,33 @@
+// --- Image Helpers ---
+// Canvas-based helpers for photos picked or captured in the browser.
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not read the image.'));
+    img.src = src;
+});
+
+export const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+/** Re-encodes an image as a JPEG data URL no larger than `maxSide` pixels on its longer side. */
+export const downscaleImage = async (src: string, maxSide: number, quality = 0.85): Promise<string> => {
+    const img = await loadImage(src);
+    const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+};
+
+/** Splits a base64 data URL into the inline data part the AI client sends. */
+export const toInlineData = (dataUrl: string) => {
+    const [header, data] = dataUrl.split(',');
+    return { mimeType: /^data:([^;]+)/.exec(header)?.[1] ?? 'image/jpeg', data };
+};
@@ -0,0 +1,343 @@
+import type { InteractionSeverity } from '../ai';
+import type { FoodComponent } from '../nutrition/data';
+
+// --- Bundled Interaction Reference ---
+// A curated list of well-known, clinically significant pairwise interactions between
+// commonly used medicines, with Indian and international brand names as aliases, and a
+// few well-known food–drug interactions. It is deliberately small and conservative:
+// absence from this list does not mean a combination is safe.
+
+export type InteractionLevel = 'contraindicated' | InteractionSeverity;
+
+export type InteractionEffect =
+    | 'bleeding'
+    | 'serotonin-syndrome'
+    | 'respiratory-depression'
+    | 'myopathy'
+    | 'toxicity'
+    | 'hyperkalemia'
+    | 'kidney-injury'
+    | 'qt-prolongation'
+    | 'bradycardia'
+    | 'hypotension'
+    | 'reduced-absorption'
+    | 'reduced-effect'
+    | 'hypoglycemia';
+
+export interface Drug {
+    id: string;
+    /** Generic name, as shown to the user. */
+    name: string;
+    /** Drug classes used by the interaction rules; never the same as a drug id. */
+    classes: string[];
+    /** Lower-case brand names and spellings. Combination brands list each ingredient. */
+    aliases: string[];
+}
+
+export interface InteractionRule {
+    /** Each side is a drug id or a drug class. */
+    between: [string, string];
+    severity: InteractionLevel;
+    effect: InteractionEffect;
+}
+
+/**
+ * A medicine and something in food. `avoid` conflicts are left out of meal plans;
+ * `separate` ones only matter when the two are taken together, so the dose is
+ * spaced a few hours from that food instead.
+ */
+export interface FoodInteractionRule {
+    /** A drug id or a drug class. */
+    drug: string;
+    component: FoodComponent;
+    severity: InteractionLevel;
+    effect: InteractionEffect;
+    advice: 'avoid' | 'separate';
+}
+
+export const DRUGS: Drug[] = [
+    // Analgesics and anti-inflammatories
+    { id: 'paracetamol', name: 'Paracetamol', classes: [], aliases: ['acetaminophen', 'crocin', 'dolo', 'calpol', 'tylenol', 'panadol', 'combiflam', 'ultracet', 'percocet', 'vicodin'] },
+    { id: 'ibuprofen', name: 'Ibuprofen', classes: ['nsaid'], aliases: ['brufen', 'advil', 'motrin', 'ibugesic', 'combiflam'] },
+    { id: 'naproxen', name: 'Naproxen', classes: ['nsaid'], aliases: ['naprosyn', 'aleve'] },
+    { id: 'diclofenac', name: 'Diclofenac', classes: ['nsaid'], aliases: ['voveran', 'voltaren', 'dynapar'] },
+    { id: 'aceclofenac', name: 'Aceclofenac', classes: ['nsaid'], aliases: ['zerodol', 'hifenac'] },
+    { id: 'ketorolac', name: 'Ketorolac', classes: ['nsaid'], aliases: ['toradol', 'ketorol'] },
+    { id: 'mefenamic-acid', name: 'Mefenamic acid', classes: ['nsaid'], aliases: ['meftal', 'ponstan'] },
+    { id: 'etoricoxib', name: 'Etoricoxib', classes: ['nsaid'], aliases: ['arcoxia', 'nucoxia'] },
+    { id: 'celecoxib', name: 'Celecoxib', classes: ['nsaid'], aliases: ['celebrex'] },
+    { id: 'piroxicam', name: 'Piroxicam', classes: ['nsaid'], aliases: ['feldene', 'dolonex'] },
+    { id: 'indomethacin', name: 'Indomethacin', classes: ['nsaid'], aliases: ['indomethacine', 'indocin', 'indocap'] },
+    { id: 'colchicine', name: 'Colchicine', classes: [], aliases: ['colcrys'] },
+    { id: 'allopurinol', name: 'Allopurinol', classes: [], aliases: ['zyloprim', 'zyloric'] },
+
+    // Antithrombotics
+    { id: 'aspirin', name: 'Aspirin', classes: ['antiplatelet'], aliases: ['acetylsalicylic acid', 'asa', 'ecosprin', 'disprin', 'loprin'] },
+    { id: 'clopidogrel', name: 'Clopidogrel', classes: ['antiplatelet'], aliases: ['plavix', 'clopilet', 'clavix', 'deplatt'] },
+    { id: 'ticagrelor', name: 'Ticagrelor', classes: ['antiplatelet'], aliases: ['brilinta'] },
+    { id: 'prasugrel', name: 'Prasugrel', classes: ['antiplatelet'], aliases: ['effient'] },
+    { id: 'warfarin', name: 'Warfarin', classes: ['anticoagulant', 'vitamin-k-antagonist'], aliases: ['coumadin', 'warf', 'uniwarfin'] },
+    { id: 'acenocoumarol', name: 'Acenocoumarol', classes: ['anticoagulant', 'vitamin-k-antagonist'], aliases: ['nicoumalone', 'acitrom', 'sintrom'] },
+    { id: 'apixaban', name: 'Apixaban', classes: ['anticoagulant', 'doac'], aliases: ['eliquis'] },
+    { id: 'rivaroxaban', name: 'Rivaroxaban', classes: ['anticoagulant', 'doac'], aliases: ['xarelto'] },
+    { id: 'dabigatran', name: 'Dabigatran', classes: ['anticoagulant', 'doac'], aliases: ['pradaxa'] },
+
+    // Antidepressants and other serotonergic drugs
+    { id: 'fluoxetine', name: 'Fluoxetine', classes: ['serotonergic'], aliases: ['prozac', 'fludac'] },
+    { id: 'sertraline', name: 'Sertraline', classes: ['serotonergic'], aliases: ['zoloft', 'daxid'] },
+    { id: 'escitalopram', name: 'Escitalopram', classes: ['serotonergic', 'qt-prolonging'], aliases: ['lexapro', 'nexito', 'cipralex'] },
+    { id: 'citalopram', name: 'Citalopram', classes: ['serotonergic', 'qt-prolonging'], aliases: ['celexa'] },
+    { id: 'paroxetine', name: 'Paroxetine', classes: ['serotonergic'], aliases: ['paxil'] },
+    { id: 'fluvoxamine', name: 'Fluvoxamine', classes: ['serotonergic'], aliases: ['luvox', 'fluvoxin'] },
+    { id: 'venlafaxine', name: 'Venlafaxine', classes: ['serotonergic'], aliases: ['effexor', 'venlor'] },
+    { id: 'duloxetine', name: 'Duloxetine', classes: ['serotonergic'], aliases: ['cymbalta', 'duzela'] },
+    { id: 'desvenlafaxine', name: 'Desvenlafaxine', classes: ['serotonergic'], aliases: ['pristiq'] },
+    { id: 'phenelzine', name: 'Phenelzine', classes: ['maoi'], aliases: ['nardil'] },
+    { id: 'tranylcypromine', name: 'Tranylcypromine', classes: ['maoi'], aliases: ['parnate'] },
+    { id: 'moclobemide', name: 'Moclobemide', classes: ['maoi'], aliases: ['manerix'] },
+    { id: 'selegiline', name: 'Selegiline', classes: ['maoi'], aliases: ['eldepryl', 'emsam'] },
+    { id: 'rasagiline', name: 'Rasagiline', classes: ['maoi'], aliases: ['azilect', 'rasalect'] },
+    { id: 'linezolid', name: 'Linezolid', classes: ['maoi'], aliases: ['zyvox', 'linospan'] },
+    { id: 'sumatriptan', name: 'Sumatriptan', classes: ['triptan'], aliases: ['imitrex', 'suminat'] },
+    { id: 'rizatriptan', name: 'Rizatriptan', classes: ['triptan'], aliases: ['maxalt', 'rizact'] },
+    { id: 'zolmitriptan', name: 'Zolmitriptan', classes: ['triptan'], aliases: ['zomig'] },
+    { id: 'dextromethorphan', name: 'Dextromethorphan', classes: [], aliases: ['dxm', 'robitussin'] },
+    { id: 'lithium', name: 'Lithium', classes: [], aliases: ['lithium carbonate', 'lithosun', 'eskalith'] },
+
+    // Opioids and sedatives
+    { id: 'tramadol', name: 'Tramadol', classes: ['opioid'], aliases: ['ultram', 'tramazac', 'contramal', 'ultracet'] },
+    { id: 'tapentadol', name: 'Tapentadol', classes: ['opioid'], aliases: ['nucynta', 'tapal'] },
+    { id: 'morphine', name: 'Morphine', classes: ['opioid'], aliases: [] },
+    { id: 'codeine', name: 'Codeine', classes: ['opioid'], aliases: [] },
+    { id: 'oxycodone', name: 'Oxycodone', classes: ['opioid'], aliases: ['oxycontin', 'percocet'] },
+    { id: 'hydrocodone', name: 'Hydrocodone', classes: ['opioid'], aliases: ['vicodin'] },
+    { id: 'fentanyl', name: 'Fentanyl', classes: ['opioid'], aliases: ['duragesic'] },
+    { id: 'alprazolam', name: 'Alprazolam', classes: ['benzodiazepine'], aliases: ['xanax', 'alprax', 'restyl'] },
+    { id: 'diazepam', name: 'Diazepam', classes: ['benzodiazepine'], aliases: ['valium', 'calmpose'] },
+    { id: 'lorazepam', name: 'Lorazepam', classes: ['benzodiazepine'], aliases: ['ativan'] },
+    { id: 'clonazepam', name: 'Clonazepam', classes: ['benzodiazepine'], aliases: ['klonopin', 'rivotril', 'clonotril'] },
+    { id: 'chlordiazepoxide', name: 'Chlordiazepoxide', classes: ['benzodiazepine'], aliases: ['librium'] },
+    { id: 'zolpidem', name: 'Zolpidem', classes: ['z-drug'], aliases: ['ambien', 'stilnox', 'zolfresh'] },
+    { id: 'eszopiclone', name: 'Eszopiclone', classes: ['z-drug'], aliases: ['lunesta'] },
+    { id: 'gabapentin', name: 'Gabapentin', classes: ['gabapentinoid'], aliases: ['neurontin', 'gabapin'] },
+    { id: 'pregabalin', name: 'Pregabalin', classes: ['gabapentinoid'], aliases: ['lyrica'] },
+    { id: 'tizanidine', name: 'Tizanidine', classes: [], aliases: ['zanaflex', 'tizan'] },
+
+    // Cardiovascular
+    { id: 'atorvastatin', name: 'Atorvastatin', classes: ['statin'], aliases: ['lipitor', 'atorva', 'storvas', 'ecosprin av'] },
+    { id: 'rosuvastatin', name: 'Rosuvastatin', classes: ['statin'], aliases: ['crestor', 'rosuvas', 'rozavel'] },
+    { id: 'simvastatin', name: 'Simvastatin', classes: ['statin', 'statin-cyp3a4'], aliases: ['zocor'] },
+    { id: 'lovastatin', name: 'Lovastatin', classes: ['statin', 'statin-cyp3a4'], aliases: ['mevacor'] },
+    { id: 'pravastatin', name: 'Pravastatin', classes: ['statin'], aliases: ['pravachol'] },
+    { id: 'gemfibrozil', name: 'Gemfibrozil', classes: [], aliases: ['lopid'] },
+    { id: 'lisinopril', name: 'Lisinopril', classes: ['ace-inhibitor', 'raas-blocker'], aliases: ['zestril', 'listril'] },
+    { id: 'enalapril', name: 'Enalapril', classes: ['ace-inhibitor', 'raas-blocker'], aliases: ['vasotec', 'envas'] },
+    { id: 'ramipril', name: 'Ramipril', classes: ['ace-inhibitor', 'raas-blocker'], aliases: ['altace', 'cardace'] },
+    { id: 'perindopril', name: 'Perindopril', classes: ['ace-inhibitor', 'raas-blocker'], aliases: ['coversyl'] },
+    { id: 'losartan', name: 'Losartan', classes: ['arb', 'raas-blocker'], aliases: ['cozaar', 'losar'] },
+    { id: 'telmisartan', name: 'Telmisartan', classes: ['arb', 'raas-blocker'], aliases: ['micardis', 'telma'] },
+    { id: 'valsartan', name: 'Valsartan', classes: ['arb', 'raas-blocker'], aliases: ['diovan'] },
+    { id: 'olmesartan', name: 'Olmesartan', classes: ['arb', 'raas-blocker'], aliases: ['benicar', 'olmezest'] },
+    { id: 'irbesartan', name: 'Irbesartan', classes: ['arb', 'raas-blocker'], aliases: ['avapro'] },
+    { id: 'spironolactone', name: 'Spironolactone', classes: ['potassium-sparing'], aliases: ['aldactone'] },
+    { id: 'eplerenone', name: 'Eplerenone', classes: ['potassium-sparing'], aliases: ['inspra'] },
+    { id: 'amiloride', name: 'Amiloride', classes: ['potassium-sparing'], aliases: ['midamor'] },
+    { id: 'potassium-chloride', name: 'Potassium chloride', classes: [], aliases: ['kcl', 'k dur', 'potklor'] },
+    { id: 'hydrochlorothiazide', name: 'Hydrochlorothiazide', classes: ['thiazide'], aliases: ['hctz', 'microzide'] },
+    { id: 'chlorthalidone', name: 'Chlorthalidone', classes: ['thiazide'], aliases: ['chlortalidone'] },
+    { id: 'indapamide', name: 'Indapamide', classes: ['thiazide'], aliases: ['lozol', 'natrilix'] },
+    { id: 'metoprolol', name: 'Metoprolol', classes: ['beta-blocker'], aliases: ['lopressor', 'toprol', 'metolar'] },
+    { id: 'atenolol', name: 'Atenolol', classes: ['beta-blocker'], aliases: ['tenormin'] },
+    { id: 'propranolol', name: 'Propranolol', classes: ['beta-blocker'], aliases: ['inderal', 'ciplar'] },
+    { id: 'bisoprolol', name: 'Bisoprolol', classes: ['beta-blocker'], aliases: ['concor'] },
+    { id: 'carvedilol', name: 'Carvedilol', classes: ['beta-blocker'], aliases: ['coreg', 'carca'] },
+    { id: 'nebivolol', name: 'Nebivolol', classes: ['beta-blocker'], aliases: ['nebicard', 'bystolic'] },
+    { id: 'verapamil', name: 'Verapamil', classes: ['rate-limiting-ccb'], aliases: ['calan', 'calaptin'] },
+    { id: 'diltiazem', name: 'Diltiazem', classes: ['rate-limiting-ccb'], aliases: ['cardizem', 'dilzem'] },
+    { id: 'amlodipine', name: 'Amlodipine', classes: [], aliases: ['norvasc', 'amlong', 'stamlo', 'amlopres'] },
+    { id: 'digoxin', name: 'Digoxin', classes: [], aliases: ['lanoxin'] },
+    { id: 'amiodarone', name: 'Amiodarone', classes: [], aliases: ['cordarone', 'pacerone'] },
+    { id: 'nitroglycerin', name: 'Nitroglycerin', classes: ['nitrate'], aliases: ['glyceryl trinitrate', 'nitroglycerine', 'gtn', 'nitrostat'] },
+    { id: 'isosorbide-mononitrate', name: 'Isosorbide mononitrate', classes: ['nitrate'], aliases: ['monit', 'imdur'] },
+    { id: 'isosorbide-dinitrate', name: 'Isosorbide dinitrate', classes: ['nitrate'], aliases: ['sorbitrate', 'isordil'] },
+    { id: 'nicorandil', name: 'Nicorandil', classes: ['nitrate'], aliases: ['korandil'] },
+    { id: 'sildenafil', name: 'Sildenafil', classes: ['pde5-inhibitor'], aliases: ['viagra', 'revatio', 'penegra'] },
+    { id: 'tadalafil', name: 'Tadalafil', classes: ['pde5-inhibitor'], aliases: ['cialis', 'tadacip', 'megalis'] },
+    { id: 'vardenafil', name: 'Vardenafil', classes: ['pde5-inhibitor'], aliases: ['levitra'] },
+    { id: 'tamsulosin', name: 'Tamsulosin', classes: ['alpha-blocker'], aliases: ['flomax', 'urimax', 'veltam'] },
+    { id: 'doxazosin', name: 'Doxazosin', classes: ['alpha-blocker'], aliases: ['cardura'] },
+    { id: 'prazosin', name: 'Prazosin', classes: ['alpha-blocker'], aliases: ['minipress'] },
+    { id: 'alfuzosin', name: 'Alfuzosin', classes: ['alpha-blocker'], aliases: ['uroxatral', 'alfoo'] },
+    { id: 'silodosin', name: 'Silodosin', classes: ['alpha-blocker'], aliases: ['rapaflo', 'silodal'] },
+
+    // Diabetes and thyroid
+    { id: 'metformin', name: 'Metformin', classes: [], aliases: ['glucophage', 'glycomet'] },
+    { id: 'glimepiride', name: 'Glimepiride', classes: ['sulfonylurea'], aliases: ['amaryl'] },
+    { id: 'gliclazide', name: 'Gliclazide', classes: ['sulfonylurea'], aliases: ['diamicron', 'glizid'] },
+    { id: 'glibenclamide', name: 'Glibenclamide', classes: ['sulfonylurea'], aliases: ['glyburide', 'daonil'] },
+    { id: 'glipizide', name: 'Glipizide', classes: ['sulfonylurea'], aliases: ['glucotrol', 'glynase'] },
+    { id: 'levothyroxine', name: 'Levothyroxine', classes: [], aliases: ['thyroxine', 'eltroxin', 'thyronorm', 'synthroid'] },
+
+    // Anti-infectives
+    { id: 'clarithromycin', name: 'Clarithromycin', classes: ['strong-macrolide', 'qt-prolonging'], aliases: ['biaxin', 'claribid'] },
+    { id: 'erythromycin', name: 'Erythromycin', classes: ['strong-macrolide', 'qt-prolonging'], aliases: ['erythrocin', 'althrocin'] },
+    { id: 'azithromycin', name: 'Azithromycin', classes: ['qt-prolonging'], aliases: ['zithromax', 'azithral', 'azee'] },
+    { id: 'ciprofloxacin', name: 'Ciprofloxacin', classes: ['fluoroquinolone'], aliases: ['cipro', 'ciplox', 'cifran'] },
+    { id: 'levofloxacin', name: 'Levofloxacin', classes: ['fluoroquinolone', 'qt-prolonging'], aliases: ['levaquin', 'levoflox'] },
+    { id: 'ofloxacin', name: 'Ofloxacin', classes: ['fluoroquinolone'], aliases: ['oflox', 'zanocin'] },
+    { id: 'moxifloxacin', name: 'Moxifloxacin', classes: ['fluoroquinolone', 'qt-prolonging'], aliases: ['avelox', 'moxif'] },
+    { id: 'norfloxacin', name: 'Norfloxacin', classes: ['fluoroquinolone'], aliases: ['norflox'] },
+    { id: 'doxycycline', name: 'Doxycycline', classes: ['tetracycline-class'], aliases: ['vibramycin'] },
+    { id: 'minocycline', name: 'Minocycline', classes: ['tetracycline-class'], aliases: ['minocin'] },
+    { id: 'tetracycline', name: 'Tetracycline', classes: ['tetracycline-class'], aliases: [] },
+    { id: 'co-trimoxazole', name: 'Co-trimoxazole', classes: [], aliases: ['cotrimoxazole', 'trimethoprim', 'sulfamethoxazole', 'bactrim', 'septran', 'septra'] },
+    { id: 'metronidazole', name: 'Metronidazole', classes: [], aliases: ['flagyl', 'metrogyl'] },
+    { id: 'rifampicin', name: 'Rifampicin', classes: ['enzyme-inducer'], aliases: ['rifampin', 'rifadin', 'rcinex'] },
+    { id: 'ketoconazole', name: 'Ketoconazole', classes: ['strong-azole'], aliases: ['nizoral'] },
+    { id: 'itraconazole', name: 'Itraconazole', classes: ['strong-azole'], aliases: ['sporanox', 'itraspor'] },
+    { id: 'voriconazole', name: 'Voriconazole', classes: ['strong-azole'], aliases: ['vfend'] },
+    { id: 'posaconazole', name: 'Posaconazole', classes: ['strong-azole'], aliases: ['noxafil'] },
+    { id: 'fluconazole', name: 'Fluconazole', classes: [], aliases: ['diflucan', 'forcan', 'zocon'] },
+    { id: 'hydroxychloroquine', name: 'Hydroxychloroquine', classes: ['qt-prolonging'], aliases: ['plaquenil', 'hcqs'] },
+
+    // Gastrointestinal
+    { id: 'omeprazole', name: 'Omeprazole', classes: ['cyp2c19-ppi'], aliases: ['prilosec', 'omez'] },
+    { id: 'esomeprazole', name: 'Esomeprazole', classes: ['cyp2c19-ppi'], aliases: ['nexium', 'nexpro'] },
+    { id: 'pantoprazole', name: 'Pantoprazole', classes: [], aliases: ['protonix', 'pantocid', 'pan'] },
+    { id: 'ondansetron', name: 'Ondansetron', classes: ['qt-prolonging'], aliases: ['zofran', 'emeset', 'ondem'] },
+    { id: 'domperidone', name: 'Domperidone', classes: ['qt-prolonging'], aliases: ['domstal', 'motilium'] },
+    { id: 'antacid', name: 'Antacid (aluminium/magnesium)', classes: ['polyvalent-cation'], aliases: ['aluminium hydroxide', 'aluminum hydroxide', 'magnesium hydroxide', 'milk of magnesia', 'gelusil', 'digene', 'maalox'] },
+    { id: 'calcium', name: 'Calcium', classes: ['polyvalent-cation'], aliases: ['calcium carbonate', 'calcium citrate', 'shelcal', 'caltrate', 'tums'] },
+    { id: 'iron', name: 'Iron', classes: ['polyvalent-cation'], aliases: ['ferrous sulfate', 'ferrous sulphate', 'ferrous fumarate', 'fefol', 'livogen'] },
+    { id: 'zinc', name: 'Zinc', classes: ['polyvalent-cation'], aliases: ['zinc sulfate', 'zinc sulphate'] },
+
+    // Other
+    { id: 'methotrexate', name: 'Methotrexate', classes: [], aliases: ['folitrax', 'trexall'] },
+    { id: 'azathioprine', name: 'Azathioprine', classes: [], aliases: ['imuran', 'azoran'] },
+    { id: 'theophylline', name: 'Theophylline', classes: [], aliases: ['deriphyllin'] },
+    { id: 'haloperidol', name: 'Haloperidol', classes: ['qt-prolonging'], aliases: ['haldol', 'serenace'] },
+    { id: 'carbamazepine', name: 'Carbamazepine', classes: ['enzyme-inducer'], aliases: ['tegretol', 'mazetol'] },
+    { id: 'phenytoin', name: 'Phenytoin', classes: ['enzyme-inducer'], aliases: ['dilantin', 'eptoin'] },
+    { id: 'oral-contraceptive', name: 'Oral contraceptive', classes: [], aliases: ['oral contraceptive pill', 'birth control pill', 'ocp', 'ethinyl estradiol', 'ethinylestradiol', 'mala d', 'yasmin', 'novelon'] },
+];
+
+export const INTERACTIONS: InteractionRule[] = [
+    // Bleeding
+    { between: ['anticoagulant', 'anticoagulant'], severity: 'major', effect: 'bleeding' },
+    { between: ['anticoagulant', 'antiplatelet'], severity: 'major', effect: 'bleeding' },
+    { between: ['anticoagulant', 'nsaid'], severity: 'major', effect: 'bleeding' },
+    { between: ['anticoagulant', 'serotonergic'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'paracetamol'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'fluconazole'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'strong-azole'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'metronidazole'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'co-trimoxazole'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'amiodarone'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'strong-macrolide'], severity: 'major', effect: 'bleeding' },
+    { between: ['vitamin-k-antagonist', 'fluoroquinolone'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['doac', 'strong-azole'], severity: 'major', effect: 'bleeding' },
+    { between: ['antiplatelet', 'antiplatelet'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['antiplatelet', 'nsaid'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['antiplatelet', 'serotonergic'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['nsaid', 'nsaid'], severity: 'moderate', effect: 'bleeding' },
+    { between: ['nsaid', 'serotonergic'], severity: 'moderate', effect: 'bleeding' },
+
+    // Serotonin syndrome
+    { between: ['maoi', 'serotonergic'], severity: 'contraindicated', effect: 'serotonin-syndrome' },
+    { between: ['maoi', 'tramadol'], severity: 'contraindicated', effect: 'serotonin-syndrome' },
+    { between: ['maoi', 'triptan'], severity: 'contraindicated', effect: 'serotonin-syndrome' },
+    { between: ['maoi', 'dextromethorphan'], severity: 'contraindicated', effect: 'serotonin-syndrome' },
+    { between: ['serotonergic', 'serotonergic'], severity: 'major', effect: 'serotonin-syndrome' },
+    { between: ['serotonergic', 'tramadol'], severity: 'major', effect: 'serotonin-syndrome' },
+    { between: ['serotonergic', 'triptan'], severity: 'moderate', effect: 'serotonin-syndrome' },
+    { between: ['serotonergic', 'lithium'], severity: 'moderate', effect: 'serotonin-syndrome' },
+
+    // Sedation and breathing
+    { between: ['opioid', 'opioid'], severity: 'major', effect: 'respiratory-depression' },
+    { between: ['opioid', 'benzodiazepine'], severity: 'major', effect: 'respiratory-depression' },
+    { between: ['opioid', 'z-drug'], severity: 'major', effect: 'respiratory-depression' },
+    { between: ['opioid', 'gabapentinoid'], severity: 'major', effect: 'respiratory-depression' },
+    { between: ['benzodiazepine', 'benzodiazepine'], severity: 'moderate', effect: 'respiratory-depression' },
+    { between: ['benzodiazepine', 'z-drug'], severity: 'moderate', effect: 'respiratory-depression' },
+    { between: ['benzodiazepine', 'gabapentinoid'], severity: 'moderate', effect: 'respiratory-depression' },
+
+    // Statins
+    { between: ['statin-cyp3a4', 'strong-macrolide'], severity: 'contraindicated', effect: 'myopathy' },
+    { between: ['statin-cyp3a4', 'strong-azole'], severity: 'contraindicated', effect: 'myopathy' },
+    { between: ['statin-cyp3a4', 'gemfibrozil'], severity: 'contraindicated', effect: 'myopathy' },
+    { between: ['statin-cyp3a4', 'amiodarone'], severity: 'major', effect: 'myopathy' },
+    { between: ['statin-cyp3a4', 'rate-limiting-ccb'], severity: 'major', effect: 'myopathy' },
+    { between: ['statin-cyp3a4', 'amlodipine'], severity: 'moderate', effect: 'myopathy' },
+    { between: ['atorvastatin', 'strong-macrolide'], severity: 'major', effect: 'myopathy' },
+    { between: ['atorvastatin', 'strong-azole'], severity: 'major', effect: 'myopathy' },
+    { between: ['atorvastatin', 'amlodipine'], severity: 'minor', effect: 'toxicity' },
+    { between: ['statin', 'gemfibrozil'], severity: 'major', effect: 'myopathy' },
+    { between: ['statin', 'colchicine'], severity: 'moderate', effect: 'myopathy' },
+    { between: ['colchicine', 'strong-macrolide'], severity: 'major', effect: 'toxicity' },
+    { between: ['colchicine', 'strong-azole'], severity: 'major', effect: 'toxicity' },
+
+    // Potassium and kidneys
+    { between: ['ace-inhibitor', 'arb'], severity: 'major', effect: 'kidney-injury' },
+    { between: ['raas-blocker', 'potassium-sparing'], severity: 'major', effect: 'hyperkalemia' },
+    { between: ['raas-blocker', 'potassium-chloride'], severity: 'moderate', effect: 'hyperkalemia' },
+    { between: ['raas-blocker', 'co-trimoxazole'], severity: 'moderate', effect: 'hyperkalemia' },
+    { between: ['raas-blocker', 'nsaid'], severity: 'moderate', effect: 'kidney-injury' },
+    { between: ['potassium-sparing', 'potassium-chloride'], severity: 'major', effect: 'hyperkalemia' },
+    { between: ['potassium-sparing', 'co-trimoxazole'], severity: 'major', effect: 'hyperkalemia' },
+    { between: ['lithium', 'nsaid'], severity: 'major', effect: 'toxicity' },
+    { between: ['lithium', 'raas-blocker'], severity: 'major', effect: 'toxicity' },
+    { between: ['lithium', 'thiazide'], severity: 'major', effect: 'toxicity' },
+    { between: ['methotrexate', 'co-trimoxazole'], severity: 'major', effect: 'toxicity' },
+    { between: ['methotrexate', 'nsaid'], severity: 'major', effect: 'toxicity' },
+
+    // Heart rate and rhythm
+    { between: ['digoxin', 'amiodarone'], severity: 'major', effect: 'toxicity' },
+    { between: ['digoxin', 'strong-macrolide'], severity: 'major', effect: 'toxicity' },
+    { between: ['digoxin', 'rate-limiting-ccb'], severity: 'major', effect: 'toxicity' },
+    { between: ['amiodarone', 'qt-prolonging'], severity: 'major', effect: 'qt-prolongation' },
+    { between: ['qt-prolonging', 'qt-prolonging'], severity: 'moderate', effect: 'qt-prolongation' },
+    { between: ['beta-blocker', 'rate-limiting-ccb'], severity: 'major', effect: 'bradycardia' },
+    { between: ['amiodarone', 'beta-blocker'], severity: 'moderate', effect: 'bradycardia' },
+
+    // Blood pressure
+    { between: ['nitrate', 'pde5-inhibitor'], severity: 'contraindicated', effect: 'hypotension' },
+    { between: ['pde5-inhibitor', 'alpha-blocker'], severity: 'moderate', effect: 'hypotension' },
+    { between: ['tizanidine', 'ciprofloxacin'], severity: 'contraindicated', effect: 'hypotension' },
+    { between: ['tizanidine', 'fluvoxamine'], severity: 'contraindicated', effect: 'hypotension' },
+
+    // Absorption and reduced effect
+    { between: ['fluoroquinolone', 'polyvalent-cation'], severity: 'moderate', effect: 'reduced-absorption' },
+    { between: ['tetracycline-class', 'polyvalent-cation'], severity: 'moderate', effect: 'reduced-absorption' },
+    { between: ['levothyroxine', 'polyvalent-cation'], severity: 'moderate', effect: 'reduced-absorption' },
+    { between: ['calcium', 'iron'], severity: 'minor', effect: 'reduced-absorption' },
+    { between: ['clopidogrel', 'cyp2c19-ppi'], severity: 'moderate', effect: 'reduced-effect' },
+    { between: ['enzyme-inducer', 'oral-contraceptive'], severity: 'major', effect: 'reduced-effect' },
+    { between: ['enzyme-inducer', 'anticoagulant'], severity: 'major', effect: 'reduced-effect' },
+
+    // Blood sugar and other toxicity
+    { between: ['sulfonylurea', 'fluconazole'], severity: 'moderate', effect: 'hypoglycemia' },
+    { between: ['sulfonylurea', 'strong-macrolide'], severity: 'moderate', effect: 'hypoglycemia' },
+    { between: ['sulfonylurea', 'fluoroquinolone'], severity: 'moderate', effect: 'hypoglycemia' },
+    { between: ['theophylline', 'ciprofloxacin'], severity: 'major', effect: 'toxicity' },
+    { between: ['theophylline', 'strong-macrolide'], severity: 'moderate', effect: 'toxicity' },
+    { between: ['allopurinol', 'azathioprine'], severity: 'major', effect: 'toxicity' },
+];
+
+export const FOOD_INTERACTIONS: FoodInteractionRule[] = [
+    // Grapefruit blocks the gut enzyme (CYP3A4) that breaks these down.
+    { drug: 'statin-cyp3a4', component: 'grapefruit', severity: 'major', effect: 'myopathy', advice: 'avoid' },
+    { drug: 'atorvastatin', component: 'grapefruit', severity: 'moderate', effect: 'myopathy', advice: 'avoid' },
+    { drug: 'rate-limiting-ccb', component: 'grapefruit', severity: 'moderate', effect: 'hypotension', advice: 'avoid' },
+    { drug: 'amlodipine', component: 'grapefruit', severity: 'minor', effect: 'hypotension', advice: 'avoid' },
+    { drug: 'pde5-inhibitor', component: 'grapefruit', severity: 'minor', effect: 'hypotension', advice: 'avoid' },
+
+    // Vitamin K counteracts warfarin; large or changing amounts of leafy greens upset the dose.
+    { drug: 'vitamin-k-antagonist', component: 'vitamin-k', severity: 'major', effect: 'reduced-effect', advice: 'avoid' },
+
+    { drug: 'potassium-sparing', component: 'potassium', severity: 'moderate', effect: 'hyperkalemia', advice: 'avoid' },
+
+    // Calcium in milk products binds these in the gut.
+    { drug: 'tetracycline-class', component: 'dairy', severity: 'moderate', effect: 'reduced-absorption', advice: 'separate' },
+    { drug: 'fluoroquinolone', component: 'dairy', severity: 'moderate', effect: 'reduced-absorption', advice: 'separate' },
+    { drug: 'levothyroxine', component: 'dairy', severity: 'minor', effect: 'reduced-absorption', advice: 'separate' },
+];
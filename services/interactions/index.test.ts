@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkInteractions, identifyDrugs } from './index';
+
+const ids = (entry: string) => identifyDrugs(entry).map(({ id }) => id).sort();
+
+describe('identifyDrugs', () => {
+    it('finds every ingredient of a combination brand', () => {
+        assert.deepEqual(ids('Telma H 80'), ['hydrochlorothiazide', 'telmisartan']);
+        assert.deepEqual(ids('Glycomet GP 2'), ['glimepiride', 'metformin']);
+        assert.deepEqual(ids('Ecosprin AV 150'), ['aspirin', 'atorvastatin']);
+    });
+
+    it('matches generic names with a typo', () => {
+        assert.deepEqual(ids('warfrin 5mg'), ['warfarin']);
+    });
+});
+
+describe('checkInteractions', () => {
+    it('checks the hydrochlorothiazide in Telma H', () => {
+        const { findings } = checkInteractions(['Telma H 80', 'Lithium 300mg']);
+        assert.ok(findings.some(({ drugs }) => drugs.some(({ drug }) => drug.id === 'hydrochlorothiazide')));
+    });
+});
@@ -0,0 +1,140 @@
+import { getVault } from '../vault';
+import { editDistance, normalizeMedication } from '../drugs';
+import { Drug, DRUGS, FOOD_INTERACTIONS, FoodInteractionRule, InteractionEffect, InteractionLevel, INTERACTIONS, InteractionRule } from './data';
+
+// --- Drug–drug Interaction Checker ---
+// Matches free-text medication entries ("Ecosprin 75mg", "brufen") to generic drugs in the
+// bundled reference and reports every known pairwise interaction between them. Runs
+// entirely on the device and always gives the same answer for the same list.
+
+export type { Drug, FoodInteractionRule, InteractionEffect, InteractionLevel } from './data';
+
+export interface RecognizedDrug {
+    drug: Drug;
+    /** The entry as the user typed it. */
+    input: string;
+}
+
+export interface InteractionFinding {
+    drugs: [RecognizedDrug, RecognizedDrug];
+    severity: InteractionLevel;
+    effect: InteractionEffect;
+}
+
+export interface InteractionCheck {
+    /** Most severe first. */
+    findings: InteractionFinding[];
+    recognized: RecognizedDrug[];
+    /** Entries that matched nothing in the reference, so were not checked. */
+    unrecognized: string[];
+}
+
+/** A medicine the user takes and a food component it interacts with. */
+export interface FoodInteractionFinding {
+    drug: RecognizedDrug;
+    rule: FoodInteractionRule;
+}
+
+export const SEVERITY_ORDER: InteractionLevel[] = ['contraindicated', 'major', 'moderate', 'minor'];
+
+// Strengths, dosage forms and schedules that commonly follow a drug name.
+const DOSE = /\b\d+(?:\.\d+)?\s*(?:mg|mcg|µg|g|ml|iu|units?|%)?(?![\p{L}])/giu;
+const NOISE = new Set([
+    'tab', 'tabs', 'tablet', 'tablets', 'cap', 'caps', 'capsule', 'capsules', 'syrup', 'susp', 'suspension',
+    'inj', 'injection', 'drops', 'cream', 'gel', 'er', 'sr', 'xr', 'cr', 'xl', 'mr', 'ds', 'od', 'bd', 'bid',
+    'tds', 'tid', 'qid', 'hs', 'sos', 'prn', 'daily', 'once', 'twice', 'a', 'day', 'mg', 'mcg', 'ml',
+]);
+
+const tokenize = (text: string) =>
+    text.toLowerCase().replace(DOSE, ' ').split(/[^\p{L}\p{N}]+/u).filter(token => token && !NOISE.has(token));
+
+const DRUG_BY_ID = new Map(DRUGS.map(drug => [drug.id, drug]));
+
+const ALIASES = DRUGS.flatMap(drug => [drug.name, drug.id, ...drug.aliases].map(alias => ({ drug, tokens: tokenize(alias) })));
+
+const containsPhrase = (tokens: string[], phrase: string[]) =>
+    tokens.some((_, start) => phrase.every((word, i) => tokens[start + i] === word));
+
+/** Allows for one typo in names of five letters or more, two from eight letters. */
+const isNearMiss = (token: string, alias: string) => {
+    if (alias.length < 5 || Math.abs(token.length - alias.length) > 2) return false;
+    return editDistance(token, alias) <= (alias.length >= 8 ? 2 : 1);
+};
+
+/**
+ * Every drug an entry names; combination brands name more than one. The drug dictionary
+ * adds ingredients the aliases miss, like the hydrochlorothiazide in "Telma H", and brands
+ * listed only there. Uncertain dictionary matches count too: a warning that turns out not
+ * to apply is safer than a missed one.
+ */
+export const identifyDrugs = (entry: string): Drug[] => {
+    const tokens = tokenize(entry);
+    const exact = ALIASES.filter(alias => containsPhrase(tokens, alias.tokens)).map(alias => alias.drug);
+    const dictionary = (normalizeMedication(entry).match?.ingredients ?? []).map(({ id }) => DRUG_BY_ID.get(id)).filter(Boolean);
+    const matches = exact.length > 0 || dictionary.length > 0
+        ? [...exact, ...dictionary]
+        : ALIASES.filter(alias => alias.tokens.length === 1 && tokens.some(token => isNearMiss(token, alias.tokens[0]))).map(alias => alias.drug);
+    return [...new Set(matches)];
+};
+
+/** Splits a free-text list such as "aspirin 75mg, warfarin + paracetamol". */
+export const splitMedicationList = (text: string) =>
+    text.split(/[,;\n+]|\band\b/i).map(item => item.trim()).filter(Boolean);
+
+const refersTo = (ref: string, drug: Drug) => drug.id === ref || drug.classes.includes(ref);
+
+/** The most severe rule covering a pair of different drugs, if any. */
+const ruleFor = (a: Drug, b: Drug): InteractionRule | undefined =>
+    INTERACTIONS
+        .filter(({ between: [x, y] }) => (refersTo(x, a) && refersTo(y, b)) || (refersTo(x, b) && refersTo(y, a)))
+        .sort((r1, r2) => SEVERITY_ORDER.indexOf(r1.severity) - SEVERITY_ORDER.indexOf(r2.severity))[0];
+
+const recognize = (entries: string[]) => {
+    const recognized: RecognizedDrug[] = [];
+    const unrecognized: string[] = [];
+    for (const input of entries) {
+        const drugs = identifyDrugs(input);
+        if (drugs.length === 0) unrecognized.push(input);
+        // The same drug entered twice (e.g. by brand and generic name) is checked once.
+        drugs.filter(drug => !recognized.some(r => r.drug.id === drug.id)).forEach(drug => recognized.push({ drug, input }));
+    }
+    return { recognized, unrecognized };
+};
+
+const findInteractions = (recognized: RecognizedDrug[], include: (a: RecognizedDrug, b: RecognizedDrug) => boolean) => {
+    const findings: InteractionFinding[] = [];
+    recognized.forEach((a, i) => recognized.slice(i + 1).forEach(b => {
+        const rule = include(a, b) && ruleFor(a.drug, b.drug);
+        if (rule) findings.push({ drugs: [a, b], severity: rule.severity, effect: rule.effect });
+    }));
+    return findings.sort((f1, f2) => SEVERITY_ORDER.indexOf(f1.severity) - SEVERITY_ORDER.indexOf(f2.severity));
+};
+
+/** Checks every pair in a medication list against the reference. */
+export const checkInteractions = (entries: string[]): InteractionCheck => {
+    const { recognized, unrecognized } = recognize(entries);
+    return { findings: findInteractions(recognized, () => true), recognized, unrecognized };
+};
+
+/**
+ * Interactions that adding `added` to `existing` would introduce: pairs within `added`
+ * and between `added` and `existing`, but not those already within `existing`.
+ */
+export const findConflicts = (added: string[], existing: string[]): InteractionFinding[] => {
+    const { recognized } = recognize([...added, ...existing]);
+    const isAdded = (r: RecognizedDrug) => added.includes(r.input);
+    return findInteractions(recognized, (a, b) => isAdded(a) || isAdded(b));
+};
+
+/** Food–drug interactions for a medication list, most severe first. */
+export const findFoodInteractions = (entries: string[]): FoodInteractionFinding[] =>
+    recognize(entries).recognized
+        .flatMap(drug => FOOD_INTERACTIONS.filter(rule => refersTo(rule.drug, drug.drug)).map(rule => ({ drug, rule })))
+        .sort((f1, f2) => SEVERITY_ORDER.indexOf(f1.rule.severity) - SEVERITY_ORDER.indexOf(f2.rule.severity));
+
+/** The user's current medicines: their medication list plus anything they have reminders for. */
+export const loadMedicationNames = async (): Promise<string[]> => {
+    const vault = getVault();
+    const [medications, reminders] = await Promise.all([vault.list('medications'), vault.list('reminders')]);
+    return [...medications.map(m => m.name), ...reminders.map(r => r.name)];
+};
@@ -0,0 +1,270 @@
+// --- Markdown Parser ---
+// Turns model output into a small syntax tree. Nothing in the input is ever treated
+// as HTML: raw tags come through as plain text, and links are kept only when their
+// URL uses an allowlisted scheme. Rendering happens in components/MarkdownRenderer.
+
+export type InlineNode =
+    | { type: 'text'; value: string }
+    | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+    | { type: 'code'; value: string }
+    | { type: 'link'; href: string; children: InlineNode[] }
+    | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type BlockNode =
+    | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: InlineNode[] }
+    | { type: 'paragraph'; children: InlineNode[] }
+    | { type: 'list'; ordered: boolean; start: number; items: BlockNode[][] }
+    | { type: 'code'; lang: string; value: string }
+    | { type: 'blockquote'; children: BlockNode[] }
+    | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+    | { type: 'hr' };
+
+const SAFE_URL = /^(https?:\/\/|mailto:|tel:)/i;
+
+/** Returns the URL if its scheme is allowlisted, otherwise null (e.g. `javascript:`, `data:`). */
+export const sanitizeUrl = (url: string): string | null => {
+    // Strip control characters and whitespace that browsers ignore when parsing schemes.
+    const cleaned = url.replace(/[\u0000-\u001F\u007F\s]+/g, '');
+    return SAFE_URL.test(cleaned) ? cleaned : null;
+};
+
+// --- Inline ---
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~>]/;
+// Link targets may contain one level of balanced parentheses, e.g. Wikipedia URLs.
+const LINK = /^\[([^\]]*)\]\(\s*<?((?:[^()\s<>]|\([^()\s]*\))*)>?(?:\s+"[^"]*")?\s*\)/;
+const BARE_URL = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/;
+
+export const parseInline = (text: string): InlineNode[] => {
+    const nodes: InlineNode[] = [];
+    let buffer = '';
+    const flush = () => {
+        if (buffer) nodes.push({ type: 'text', value: buffer });
+        buffer = '';
+    };
+    const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        const rest = text.slice(i);
+
+        if (ch === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+        if (ch === '\n') {
+            flush();
+            nodes.push({ type: 'break' });
+            i++;
+            continue;
+        }
+        if (ch === '`') {
+            const end = text.indexOf('`', i + 1);
+            if (end > i + 1) {
+                flush();
+                nodes.push({ type: 'code', value: text.slice(i + 1, end) });
+                i = end + 1;
+                continue;
+            }
+        }
+        if (ch === '[') {
+            const match = LINK.exec(rest);
+            if (match) {
+                flush();
+                const href = sanitizeUrl(match[2]);
+                const children = parseInline(match[1]);
+                // Unsafe targets keep their label but lose the link.
+                if (href) nodes.push({ type: 'link', href, children });
+                else nodes.push(...children);
+                i += match[0].length;
+                continue;
+            }
+        }
+        if (ch === 'h' && !isWordChar(text[i - 1])) {
+            const match = BARE_URL.exec(rest);
+            if (match) {
+                flush();
+                nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', value: match[0] }] });
+                i += match[0].length;
+                continue;
+            }
+        }
+        const double = rest.slice(0, 2);
+        if (double === '**' || double === '__' || double === '~~') {
+            const end = text.indexOf(double, i + 2);
+            if (end > i + 2) {
+                flush();
+                nodes.push({ type: double === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, end)) });
+                i = end + 2;
+                continue;
+            }
+        }
+        // Single `_` only counts at word boundaries so snake_case names stay intact.
+        if ((ch === '*' || (ch === '_' && !isWordChar(text[i - 1]))) && text[i + 1] && text[i + 1] !== ' ') {
+            const end = text.indexOf(ch, i + 1);
+            if (end > i + 1 && text[end - 1] !== ' ' && (ch === '*' || !isWordChar(text[end + 1]))) {
+                flush();
+                nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, end)) });
+                i = end + 1;
+                continue;
+            }
+        }
+
+        buffer += ch;
+        i++;
+    }
+    flush();
+    return nodes;
+};
+
+// --- Blocks ---
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(```|~~~)\s*([\w+-]*)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^ {0,3}>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => line.replace(/\t/g, '    ').match(/^ */)![0].length;
+
+const splitRow = (line: string) => {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+    lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_DIVIDER.test(lines[i + 1]);
+
+const startsBlock = (lines: string[], i: number) => {
+    const line = lines[i];
+    return HEADING.test(line) || HR.test(line) || FENCE.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line) || isTableStart(lines, i);
+};
+
+const parseTable = (lines: string[], start: number): [BlockNode, number] => {
+    const header = splitRow(lines[start]);
+    const align: TableAlign[] = splitRow(lines[start + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+    });
+    const rows: InlineNode[][][] = [];
+    let i = start + 2;
+    while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        // Normalise ragged rows to the header width.
+        rows.push(header.map((_, col) => parseInline(cells[col] ?? '')));
+        i++;
+    }
+    return [{ type: 'table', align: header.map((_, col) => align[col] ?? null), header: header.map(h => parseInline(h)), rows }, i];
+};
+
+const parseList = (lines: string[], start: number): [BlockNode, number] => {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const baseIndent = indentOf(first[1]);
+    const ordered = /\d/.test(first[2]);
+    const items: BlockNode[][] = [];
+
+    let i = start;
+    while (i < lines.length) {
+        const match = LIST_ITEM.exec(lines[i]);
+        if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+        // Gather the item's own text plus anything indented beneath it (continuations, nested lists).
+        const itemLines = [match[3]];
+        i++;
+        while (i < lines.length) {
+            const line = lines[i];
+            if (!line.trim()) {
+                const next = lines.slice(i + 1).find(l => l.trim());
+                if (next !== undefined && indentOf(next) > baseIndent) {
+                    itemLines.push('');
+                    i++;
+                    continue;
+                }
+                break;
+            }
+            if (indentOf(line) <= baseIndent && (LIST_ITEM.test(line) || startsBlock(lines, i))) break;
+            itemLines.push(indentOf(line) > baseIndent ? line.replace(/\t/g, '    ').slice(Math.min(indentOf(line), baseIndent + 2)) : line.trim());
+            i++;
+        }
+        items.push(parseBlocks(itemLines));
+    }
+    return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i];
+};
+
+export const parseBlocks = (lines: string[]): BlockNode[] => {
+    const blocks: BlockNode[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        const line = lines[i];
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const body: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].trimStart().startsWith(fence[1])) {
+                body.push(lines[i]);
+                i++;
+            }
+            blocks.push({ type: 'code', lang: fence[2], value: body.join('\n') });
+            i++;
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6, children: parseInline(heading[2]) });
+            i++;
+            continue;
+        }
+
+        if (HR.test(line)) {
+            blocks.push({ type: 'hr' });
+            i++;
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const [table, next] = parseTable(lines, i);
+            blocks.push(table);
+            i = next;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const [list, next] = parseList(lines, i);
+            blocks.push(list);
+            i = next;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+                quoted.push(BLOCKQUOTE.exec(lines[i])![1]);
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    }
+    return blocks;
+};
+
+export const parseMarkdown = (text: string): BlockNode[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
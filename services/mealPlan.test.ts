@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DIET_PREFERENCES, DietPreference, generateMealPlan } from './mealPlan';
+import { FoodComponent, MEAL_TYPES } from './nutrition';
+
+const assertFullPlan = (preferences: DietPreference[], allergies: string[], medications: string[] = []) => {
+    for (const calories of [1500, 2000, 2500]) {
+        const plan = generateMealPlan({ calories, preferences, allergies, medications, start: '2026-01-05' });
+        const label = `${[...preferences, ...allergies, ...medications].join(', ')} at ${calories} kcal`;
+        assert.deepEqual(plan.unplanned, [], label);
+        for (const day of plan.days) {
+            assert.deepEqual(day.meals.map(({ meal }) => meal), MEAL_TYPES, `${label} on ${day.date}`);
+            assert.ok(Math.abs(day.totals.calories - calories) <= calories * 0.15, `${label} on ${day.date}: ${day.totals.calories} kcal`);
+        }
+    }
+};
+
+describe('generateMealPlan', () => {
+    for (const preference of DIET_PREFERENCES) {
+        it(`fills every meal near the target for a ${preference} diet`, () => {
+            assertFullPlan([preference], []);
+            for (const allergy of ['milk', 'peanuts', 'nuts', 'wheat', 'egg']) assertFullPlan([preference], [allergy]);
+        });
+    }
+
+    it('still plans a full day with several restrictions at once', () => {
+        assertFullPlan(['jain', 'diabetic'], ['milk', 'nuts'], ['warfarin', 'atorvastatin']);
+    });
+
+    it('leaves out onion, garlic and root vegetables for a Jain diet', () => {
+        const plan = generateMealPlan({ calories: 2000, preferences: ['jain'], allergies: [], medications: [], start: '2026-01-05' });
+        const components = plan.days.flatMap(day => day.meals).flatMap(meal => meal.items).flatMap(item => item.food.contains ?? []);
+        const excluded: FoodComponent[] = ['meat', 'fish', 'egg', 'onion-garlic', 'root-vegetable'];
+        for (const component of excluded) assert.ok(!components.includes(component), component);
+    });
+});
@@ -0,0 +1,209 @@
+import { findFoodInteractions, FoodInteractionFinding } from './interactions';
+import { Food, FoodComponent, findFood, identifyFood, MEAL_TYPES, Nutrients, nutrientsFor, shiftDate, sumNutrients } from './nutrition';
+import type { MealType } from './vault';
+
+// --- Meal Plan ---
+// Builds a week of meals from the bundled nutrition reference for a daily calorie target.
+// Dishes are left out when a diet preference, an allergy or one of the user's medicines
+// rules them out, and portions are scaled so each day lands near the target. Runs on the
+// device and gives the same plan for the same inputs and variant.
+
+export type DietPreference = 'vegetarian' | 'jain' | 'diabetic' | 'low-sodium';
+
+export const DIET_PREFERENCES: DietPreference[] = ['vegetarian', 'jain', 'diabetic', 'low-sodium'];
+
+export interface MealPlanOptions {
+    calories: number;
+    preferences: DietPreference[];
+    /** Allergy entries as the user wrote them, e.g. "peanuts" or "lactose intolerant". */
+    allergies: string[];
+    /** Medication entries as the user wrote them. */
+    medications: string[];
+    /** First day of the plan, as `YYYY-MM-DD`. */
+    start: string;
+    /** Picks a different rotation of dishes for the same inputs. */
+    variant?: number;
+}
+
+export interface PlannedItem {
+    food: Food;
+    /** In the food's usual serving, e.g. 2.5 roti. */
+    servings: number;
+    grams: number;
+    nutrients: Nutrients;
+}
+
+export interface PlannedMeal {
+    meal: MealType;
+    items: PlannedItem[];
+    totals: Nutrients;
+}
+
+export interface PlannedDay {
+    date: string;
+    meals: PlannedMeal[];
+    totals: Nutrients;
+}
+
+export interface MealPlan {
+    days: PlannedDay[];
+    /** Food–drug interactions for the user's medicines; `avoid` ones are already left out. */
+    foodInteractions: FoodInteractionFinding[];
+    /** Meals with no suitable dish left, so missing from every day. */
+    unplanned: MealType[];
+}
+
+export interface ShoppingItem {
+    food: Food;
+    servings: number;
+    grams: number;
+}
+
+const PLAN_DAYS = 7;
+
+// How the day's calories are split between meals.
+const MEAL_SHARES: Record<MealType, number> = { breakfast: 0.25, lunch: 0.35, dinner: 0.3, snack: 0.1 };
+
+// Portions stay within this range of a dish's usual serving; past it, a different dish fits better.
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2.5;
+
+const EXCLUDED_BY_PREFERENCE: Record<DietPreference, FoodComponent[]> = {
+    vegetarian: ['meat', 'fish', 'egg'],
+    jain: ['meat', 'fish', 'egg', 'onion-garlic', 'root-vegetable'],
+    diabetic: ['added-sugar'],
+    'low-sodium': ['high-sodium'],
+};
+
+// Words in an allergy entry and what they rule out. Nut allergies rule out peanuts too, to be safe.
+const ALLERGENS: Record<string, FoodComponent[]> = {
+    milk: ['dairy'], dairy: ['dairy'], lactose: ['dairy'], casein: ['dairy'], whey: ['dairy'],
+    egg: ['egg'], eggs: ['egg'],
+    peanut: ['peanut'], peanuts: ['peanut'], groundnut: ['peanut'], groundnuts: ['peanut'],
+    nut: ['peanut', 'tree-nut'], nuts: ['peanut', 'tree-nut'], almond: ['tree-nut'], almonds: ['tree-nut'], cashew: ['tree-nut'], walnut: ['tree-nut'],
+    wheat: ['wheat'], gluten: ['wheat'], atta: ['wheat'], maida: ['wheat'], celiac: ['wheat'], coeliac: ['wheat'],
+    fish: ['fish'], seafood: ['fish'], shellfish: ['fish'], prawn: ['fish'], prawns: ['fish'], shrimp: ['fish'],
+};
+
+/** Dishes for each meal as [food id, servings]; a dish is used only if all of its foods are allowed. */
+const DISHES: Record<MealType, [string, number][][]> = {
+    breakfast: [
+        [['idli', 3], ['sambar', 1]],
+        [['poha', 1], ['curd', 1]],
+        [['oats', 1], ['banana', 1], ['almonds', 1]],
+        [['brown-bread', 2], ['omelette', 2]],
+        [['dosa', 2], ['sambar', 1]],
+        [['dhokla', 4], ['buttermilk', 1]],
+        [['upma', 1], ['orange', 1]],
+        [['brown-bread', 2], ['paneer', 1], ['guava', 1]],
+        [['aloo-paratha', 1], ['curd', 1]],
+        [['uttapam', 2], ['coconut-water', 1]],
+        [['moong-chilla', 2], ['coconut-chutney', 1]],
+        [['idli', 3], ['coconut-chutney', 1]],
+    ],
+    lunch: [
+        [['roti', 2], ['dal', 1], ['mixed-veg', 1], ['salad', 1]],
+        [['rice', 1], ['sambar', 1], ['bhindi', 1], ['curd', 1]],
+        [['rice', 1], ['rajma', 1], ['salad', 1]],
+        [['roti', 2], ['chole', 1], ['salad', 1]],
+        [['rice', 1], ['chicken-curry', 1], ['salad', 1]],
+        [['roti', 2], ['palak-paneer', 1], ['salad', 1]],
+        [['rice', 1], ['kadhi', 1], ['salad', 1]],
+        [['rice', 1], ['fish-curry', 1], ['salad', 1]],
+        [['brown-rice', 1], ['dal-palak', 1], ['aloo-sabzi', 1]],
+        [['roti', 2], ['sarson-saag', 1], ['curd', 1]],
+        [['roti', 2], ['kadhi', 1], ['salad', 1]],
+        [['khichdi', 1], ['curd', 1], ['salad', 1]],
+        [['roti', 2], ['plain-dal', 1], ['lauki-sabzi', 1], ['salad', 1]],
+        [['rice', 1], ['plain-dal', 1], ['lauki-sabzi', 1]],
+    ],
+    dinner: [
+        [['roti', 2], ['dal', 1], ['bhindi', 1]],
+        [['khichdi', 1], ['kadhi', 1]],
+        [['roti', 2], ['egg-curry', 1], ['salad', 1]],
+        [['rice', 1], ['rasam', 1], ['mixed-veg', 1], ['curd', 1]],
+        [['roti', 2], ['grilled-chicken', 1], ['salad', 1]],
+        [['roti', 2], ['methi-sabzi', 1], ['dal', 1]],
+        [['curd-rice', 1], ['sprouts', 1]],
+        [['veg-pulao', 1], ['curd', 1]],
+        [['roti', 2], ['paneer-butter-masala', 1], ['salad', 1]],
+        [['khichdi', 1], ['curd', 1], ['salad', 1]],
+        [['roti', 2], ['plain-dal', 1], ['lauki-sabzi', 1]],
+        [['rice', 1], ['plain-dal', 1], ['salad', 1]],
+    ],
+    snack: [
+        [['apple', 1]],
+        [['buttermilk', 1], ['roasted-chana', 1]],
+        [['guava', 1]],
+        [['grapefruit', 1]],
+        [['almonds', 1], ['orange', 1]],
+        [['sprouts', 1]],
+        [['banana', 1]],
+        [['curd', 1], ['papaya', 1]],
+        [['peanuts', 1]],
+        [['tea', 1], ['biscuits', 2]],
+    ],
+};
+
+const allergyComponents = (allergy: string): FoodComponent[] =>
+    allergy.toLowerCase().split(/[^\p{L}]+/u).flatMap(word => ALLERGENS[word] ?? []);
+
+/** Whether a food may go into a plan with these options and interactions. */
+const isAllowed = (food: Food, options: MealPlanOptions, foodInteractions: FoodInteractionFinding[]) => {
+    const excluded = new Set<FoodComponent>([
+        ...options.preferences.flatMap(preference => EXCLUDED_BY_PREFERENCE[preference]),
+        ...options.allergies.flatMap(allergyComponents),
+        ...foodInteractions.filter(finding => finding.rule.advice === 'avoid').map(finding => finding.rule.component),
+    ]);
+    if (food.contains?.some(component => excluded.has(component))) return false;
+    // An allergy can also name a food outright, such as "mango".
+    return !options.allergies.some(allergy => identifyFood(allergy)?.id === food.id);
+};
+
+const roundToHalf = (value: number) => Math.max(0.5, Math.round(value * 2) / 2);
+
+const planItem = (food: Food, servings: number): PlannedItem => {
+    const grams = Math.round(servings * food.serving.grams);
+    return { food, servings, grams, nutrients: nutrientsFor(food, grams) };
+};
+
+/** A dish with every portion scaled by the same factor towards the meal's share of the day. */
+const planMeal = (meal: MealType, dish: [Food, number][], calories: number): PlannedMeal => {
+    const usual = sumNutrients(dish.map(([food, servings]) => planItem(food, servings).nutrients)).calories;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, (calories * MEAL_SHARES[meal]) / usual));
+    const items = dish.map(([food, servings]) => planItem(food, roundToHalf(servings * scale)));
+    return { meal, items, totals: sumNutrients(items.map(item => item.nutrients)) };
+};
+
+export const generateMealPlan = (options: MealPlanOptions): MealPlan => {
+    const foodInteractions = findFoodInteractions(options.medications);
+    const variant = options.variant ?? 0;
+    const dishes = Object.fromEntries(MEAL_TYPES.map(meal => [
+        meal,
+        DISHES[meal]
+            .map(dish => dish.map(([id, servings]): [Food, number] => [findFood(id), servings]))
+            .filter(dish => dish.every(([food]) => isAllowed(food, options, foodInteractions))),
+    ])) as Record<MealType, [Food, number][][]>;
+    const days = Array.from({ length: PLAN_DAYS }, (_, day): PlannedDay => {
+        const meals = MEAL_TYPES
+            .filter(meal => dishes[meal].length > 0)
+            .map(meal => {
+                const available = dishes[meal];
+                // Each meal steps through its dishes at a different offset, so lunch and dinner rarely repeat each other.
+                const index = (day + variant * 3 + MEAL_TYPES.indexOf(meal)) % available.length;
+                return planMeal(meal, available[index], options.calories);
+            });
+        return { date: shiftDate(options.start, day), meals, totals: sumNutrients(meals.map(meal => meal.totals)) };
+    });
+    return { days, foodInteractions, unplanned: MEAL_TYPES.filter(meal => dishes[meal].length === 0) };
+};
+
+/** Everything the plan uses over the week, in the order it first appears. */
+export const shoppingList = (plan: MealPlan): ShoppingItem[] => {
+    const totals = new Map<Food, ShoppingItem>();
+    plan.days.flatMap(day => day.meals).flatMap(meal => meal.items).forEach(({ food, servings, grams }) => {
+        const item = totals.get(food) ?? { food, servings: 0, grams: 0 };
+        totals.set(food, { food, servings: item.servings + servings, grams: item.grams + grams });
+    });
+    return [...totals.values()];
+};
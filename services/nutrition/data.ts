@@ -0,0 +1,166 @@
+// --- Bundled Nutrition Reference ---
+// Approximate energy and macronutrient values per 100 g for everyday Indian home foods,
+// snacks and a few packaged products, compiled from standard food composition tables.
+// Home-cooked dishes vary with the recipe, so logged values are estimates.
+//
+// Packaged products carry sample EAN-13 codes from the 200–299 range, which GS1 reserves
+// for in-store use and never assigns to real products. Add a product's printed code to
+// `barcodes` to make it scannable.
+
+export interface Nutrients {
+    calories: number;
+    proteinG: number;
+    carbsG: number;
+    fatG: number;
+}
+
+export interface Serving {
+    /** What one portion is called, e.g. `roti` or `bowl`. */
+    unit: string;
+    grams: number;
+}
+
+/** A household measure a portion can be given in, such as "2 tbsp ghee". */
+export type Measure = 'tsp' | 'tbsp' | 'cup' | 'katori' | 'glass';
+
+/**
+ * What a dish contains that matters for a diet, an allergy or a medicine: used to
+ * build meal plans, not to log food. Values are typical of the usual home recipe.
+ */
+export type FoodComponent =
+    | 'meat'
+    | 'fish'
+    | 'egg'
+    | 'dairy'
+    | 'wheat'
+    | 'peanut'
+    | 'tree-nut'
+    | 'onion-garlic'
+    | 'root-vegetable'
+    | 'added-sugar'
+    | 'high-sodium'
+    | 'vitamin-k'
+    | 'potassium'
+    | 'grapefruit';
+
+export interface Food {
+    id: string;
+    /** As shown to the user. */
+    name: string;
+    /** Lower-case names and spellings, including Hindi ones. */
+    aliases: string[];
+    /** The usual portion, which a quantity such as "2 roti" counts. */
+    serving: Serving;
+    per100g: Nutrients;
+    /** Grams in a measure where the food is lighter or denser than water, e.g. a tablespoon of ghee. */
+    measures?: Partial<Record<Measure, number>>;
+    barcodes?: string[];
+    contains?: FoodComponent[];
+}
+
+const per100g = (calories: number, proteinG: number, carbsG: number, fatG: number): Nutrients => ({ calories, proteinG, carbsG, fatG });
+
+export const FOODS: Food[] = [
+    // Grains and breads
+    { id: 'roti', name: 'Roti', aliases: ['chapati', 'chapatti', 'phulka', 'fulka', 'rotli'], serving: { unit: 'roti', grams: 40 }, per100g: per100g(297, 11, 46, 7.5), contains: ['wheat'] },
+    { id: 'paratha', name: 'Plain paratha', aliases: ['parantha', 'paratha'], serving: { unit: 'paratha', grams: 80 }, per100g: per100g(320, 6.5, 45, 13), contains: ['wheat'] },
+    { id: 'aloo-paratha', name: 'Aloo paratha', aliases: ['aloo parantha', 'potato paratha'], serving: { unit: 'paratha', grams: 120 }, per100g: per100g(260, 5.5, 36, 10.5), contains: ['wheat', 'root-vegetable'] },
+    { id: 'poori', name: 'Poori', aliases: ['puri'], serving: { unit: 'poori', grams: 30 }, per100g: per100g(350, 6.5, 42, 17), contains: ['wheat'] },
+    { id: 'naan', name: 'Naan', aliases: ['nan', 'butter naan'], serving: { unit: 'naan', grams: 90 }, per100g: per100g(290, 9.6, 50, 5.1), contains: ['wheat', 'dairy'] },
+    { id: 'rice', name: 'Rice, cooked', aliases: ['white rice', 'chawal', 'steamed rice', 'plain rice', 'boiled rice'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(130, 2.7, 28, 0.3) },
+    { id: 'brown-rice', name: 'Brown rice, cooked', aliases: [], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(112, 2.3, 23.5, 0.8) },
+    { id: 'jeera-rice', name: 'Jeera rice', aliases: ['cumin rice'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(160, 3, 27, 4.5) },
+    { id: 'veg-pulao', name: 'Vegetable pulao', aliases: ['pulao', 'pulav', 'veg pulav'], serving: { unit: 'plate', grams: 200 }, per100g: per100g(150, 3, 24, 4.5), contains: ['onion-garlic', 'root-vegetable'] },
+    { id: 'chicken-biryani', name: 'Chicken biryani', aliases: ['biryani', 'biriyani'], serving: { unit: 'plate', grams: 250 }, per100g: per100g(180, 9, 20, 7), contains: ['meat', 'dairy', 'onion-garlic'] },
+    { id: 'veg-biryani', name: 'Vegetable biryani', aliases: ['veg biriyani'], serving: { unit: 'plate', grams: 250 }, per100g: per100g(155, 3.5, 24, 5), contains: ['dairy', 'onion-garlic', 'root-vegetable'] },
+    { id: 'khichdi', name: 'Khichdi', aliases: ['khichadi', 'khichri'], serving: { unit: 'bowl', grams: 200 }, per100g: per100g(120, 4.5, 19, 3) },
+    { id: 'curd-rice', name: 'Curd rice', aliases: ['thayir sadam', 'dahi chawal', 'mosaranna'], serving: { unit: 'bowl', grams: 200 }, per100g: per100g(125, 3.5, 19, 3.8), contains: ['dairy'] },
+    { id: 'poha', name: 'Poha', aliases: ['pohe', 'aval', 'chivda upma'], serving: { unit: 'plate', grams: 150 }, per100g: per100g(180, 3.5, 30, 5), contains: ['peanut', 'onion-garlic', 'root-vegetable'] },
+    { id: 'upma', name: 'Upma', aliases: ['uppittu', 'rava upma'], serving: { unit: 'plate', grams: 150 }, per100g: per100g(150, 3.8, 22, 5), contains: ['wheat', 'onion-garlic'] },
+    { id: 'idli', name: 'Idli', aliases: ['idly'], serving: { unit: 'idli', grams: 40 }, per100g: per100g(146, 4.5, 30, 0.6) },
+    { id: 'dosa', name: 'Plain dosa', aliases: ['dosa', 'dosai', 'sada dosa'], serving: { unit: 'dosa', grams: 80 }, per100g: per100g(168, 3.9, 29, 3.7) },
+    { id: 'masala-dosa', name: 'Masala dosa', aliases: [], serving: { unit: 'dosa', grams: 180 }, per100g: per100g(165, 3.6, 24, 6), contains: ['onion-garlic', 'root-vegetable'] },
+    { id: 'uttapam', name: 'Uttapam', aliases: ['uthappam', 'oothappam'], serving: { unit: 'uttapam', grams: 120 }, per100g: per100g(160, 4.5, 26, 4.2), contains: ['onion-garlic'] },
+    { id: 'moong-chilla', name: 'Moong dal chilla', aliases: ['chilla', 'cheela', 'moong chilla', 'pesarattu'], serving: { unit: 'chilla', grams: 70 }, per100g: per100g(180, 9.5, 22, 6) },
+    { id: 'white-bread', name: 'White bread', aliases: ['bread', 'bread slice'], serving: { unit: 'slice', grams: 25 }, per100g: per100g(265, 9, 49, 3.2), contains: ['wheat'] },
+    { id: 'brown-bread', name: 'Whole-wheat bread', aliases: ['brown bread', 'wheat bread', 'atta bread'], serving: { unit: 'slice', grams: 28 }, per100g: per100g(247, 13, 41, 3.4), contains: ['wheat'] },
+    { id: 'oats', name: 'Oats porridge', aliases: ['oats', 'oatmeal', 'porridge', 'daliya'], serving: { unit: 'bowl', grams: 200 }, per100g: per100g(71, 2.5, 12, 1.5), contains: ['dairy'] },
+    { id: 'cornflakes', name: 'Cornflakes', aliases: ['corn flakes'], serving: { unit: 'bowl', grams: 30 }, per100g: per100g(357, 7.5, 84, 0.4), measures: { cup: 30 }, barcodes: ['2000000000015'], contains: ['added-sugar'] },
+
+    // Dals and curries
+    { id: 'dal', name: 'Dal', aliases: ['daal', 'dal tadka', 'toor dal', 'arhar dal', 'moong dal', 'masoor dal', 'dal fry', 'paruppu', 'pappu'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(110, 6, 14, 3.5), contains: ['onion-garlic'] },
+    { id: 'plain-dal', name: 'Plain dal', aliases: ['jain dal', 'sada dal', 'gujarati dal', 'hing jeera dal'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(105, 6, 14, 3) },
+    { id: 'dal-makhani', name: 'Dal makhani', aliases: ['maa ki dal', 'kali dal'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(175, 6.5, 15, 10), contains: ['dairy', 'onion-garlic'] },
+    { id: 'dal-palak', name: 'Dal palak', aliases: ['palak dal', 'spinach dal', 'keerai kootu'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(100, 5.5, 12, 3.5), contains: ['onion-garlic', 'vitamin-k'] },
+    { id: 'sambar', name: 'Sambar', aliases: ['sambhar', 'saambar'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(65, 3, 9, 2), contains: ['onion-garlic'] },
+    { id: 'coconut-chutney', name: 'Coconut chutney', aliases: ['chutney', 'nariyal chutney', 'thengai chutney', 'kobbari chutney'], serving: { unit: 'katori', grams: 50 }, per100g: per100g(210, 2.5, 8, 19) },
+    { id: 'rasam', name: 'Rasam', aliases: ['saaru', 'charu'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(30, 1, 5, 0.8), contains: ['onion-garlic'] },
+    { id: 'rajma', name: 'Rajma curry', aliases: ['rajma', 'kidney beans'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(140, 6.5, 17, 5), contains: ['onion-garlic'] },
+    { id: 'chole', name: 'Chole', aliases: ['chana masala', 'chholey', 'chickpea curry', 'chana'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(165, 7, 20, 6.5), contains: ['onion-garlic'] },
+    { id: 'kadhi', name: 'Kadhi', aliases: ['kadi', 'kadhi pakora'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(95, 3, 8, 5.5), contains: ['dairy'] },
+    { id: 'mixed-veg', name: 'Mixed vegetable curry', aliases: ['sabzi', 'sabji', 'subzi', 'mixed veg', 'veg curry', 'poriyal', 'palya'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(95, 2.5, 9, 5.5), contains: ['onion-garlic', 'root-vegetable'] },
+    { id: 'methi-sabzi', name: 'Methi sabzi', aliases: ['methi', 'methi bhaji', 'fenugreek leaves', 'aloo methi'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(110, 3.5, 8, 7.5), contains: ['onion-garlic', 'vitamin-k'] },
+    { id: 'aloo-sabzi', name: 'Potato curry', aliases: ['aloo sabzi', 'aloo sabji', 'aloo', 'potato curry', 'jeera aloo'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(120, 2, 15, 6), contains: ['root-vegetable'] },
+    { id: 'lauki-sabzi', name: 'Lauki sabzi', aliases: ['lauki', 'ghiya', 'dudhi', 'bottle gourd', 'sorakaya'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(65, 1.3, 6, 4) },
+    { id: 'bhindi', name: 'Bhindi fry', aliases: ['bhindi', 'okra', 'bhindi masala', 'ladies finger'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(110, 2.2, 9, 7.5), contains: ['onion-garlic'] },
+    { id: 'palak-paneer', name: 'Palak paneer', aliases: ['saag paneer'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(170, 8, 6, 13), contains: ['dairy', 'onion-garlic', 'vitamin-k'] },
+    { id: 'sarson-saag', name: 'Sarson ka saag', aliases: ['sarson da saag', 'saag', 'mustard greens'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(95, 3, 7, 6.5), contains: ['dairy', 'onion-garlic', 'vitamin-k'] },
+    { id: 'paneer-butter-masala', name: 'Paneer butter masala', aliases: ['paneer makhani', 'shahi paneer'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(250, 9, 8, 20), contains: ['dairy', 'onion-garlic'] },
+    { id: 'chicken-curry', name: 'Chicken curry', aliases: ['chicken masala', 'murgh curry'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(165, 15, 4, 10), contains: ['meat', 'onion-garlic'] },
+    { id: 'butter-chicken', name: 'Butter chicken', aliases: ['murgh makhani'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(215, 14, 6, 15), contains: ['meat', 'dairy', 'onion-garlic'] },
+    { id: 'fish-curry', name: 'Fish curry', aliases: ['machli curry', 'meen curry', 'macher jhol'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(130, 14, 4, 6.5), contains: ['fish', 'onion-garlic'] },
+    { id: 'egg-curry', name: 'Egg curry', aliases: ['anda curry'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(150, 8.5, 5, 11), contains: ['egg', 'onion-garlic'] },
+
+    // Eggs, meat and protein foods
+    { id: 'boiled-egg', name: 'Boiled egg', aliases: ['egg', 'eggs', 'anda', 'boiled eggs'], serving: { unit: 'egg', grams: 50 }, per100g: per100g(155, 12.6, 1.1, 10.6), contains: ['egg'] },
+    { id: 'omelette', name: 'Omelette', aliases: ['omelet', 'egg omelette'], serving: { unit: 'egg', grams: 60 }, per100g: per100g(154, 10.6, 0.6, 11.7), contains: ['egg', 'onion-garlic'] },
+    { id: 'grilled-chicken', name: 'Grilled chicken breast', aliases: ['chicken breast', 'grilled chicken', 'tandoori chicken'], serving: { unit: 'piece', grams: 100 }, per100g: per100g(165, 31, 0, 3.6), contains: ['meat'] },
+    { id: 'paneer', name: 'Paneer', aliases: ['cottage cheese'], serving: { unit: 'piece', grams: 50 }, per100g: per100g(265, 18.3, 1.2, 20.8), contains: ['dairy'] },
+    { id: 'sprouts', name: 'Moong sprouts salad', aliases: ['sprouts', 'moong sprouts', 'sprout salad'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(30, 3, 6, 0.2), measures: { cup: 100 } },
+    { id: 'roasted-chana', name: 'Roasted chana', aliases: ['bhuna chana', 'roasted gram', 'chana jor'], serving: { unit: 'handful', grams: 30 }, per100g: per100g(370, 22, 58, 5.2), measures: { cup: 100 } },
+
+    // Dairy and drinks
+    { id: 'milk', name: 'Milk (toned)', aliases: ['milk', 'doodh', 'toned milk'], serving: { unit: 'glass', grams: 250 }, per100g: per100g(58, 3.1, 4.7, 3), barcodes: ['2000000000022'], contains: ['dairy'] },
+    { id: 'curd', name: 'Curd', aliases: ['dahi', 'yogurt', 'yoghurt', 'thayir', 'mosaru'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(60, 3.1, 4.5, 3.3), contains: ['dairy'] },
+    { id: 'buttermilk', name: 'Buttermilk', aliases: ['chaas', 'chhachh', 'majjige', 'mor', 'neer mor'], serving: { unit: 'glass', grams: 200 }, per100g: per100g(40, 2, 4.5, 1.5), contains: ['dairy'] },
+    { id: 'sweet-lassi', name: 'Sweet lassi', aliases: ['lassi'], serving: { unit: 'glass', grams: 250 }, per100g: per100g(90, 3, 14, 2.5), contains: ['dairy', 'added-sugar'] },
+    { id: 'tea', name: 'Tea with milk and sugar', aliases: ['tea', 'chai', 'masala chai', 'chaha'], serving: { unit: 'cup', grams: 150 }, per100g: per100g(45, 1.2, 7, 1.3), contains: ['dairy', 'added-sugar'] },
+    { id: 'coffee', name: 'Coffee with milk and sugar', aliases: ['coffee', 'filter coffee', 'kaapi'], serving: { unit: 'cup', grams: 150 }, per100g: per100g(50, 1.5, 7.5, 1.5), contains: ['dairy', 'added-sugar'] },
+    { id: 'cola', name: 'Cola', aliases: ['coke', 'pepsi', 'soft drink', 'cold drink', 'soda'], serving: { unit: 'can', grams: 300 }, per100g: per100g(42, 0, 10.6, 0), barcodes: ['2000000000039'], contains: ['added-sugar'] },
+    { id: 'orange-juice', name: 'Orange juice (packaged)', aliases: ['orange juice', 'juice', 'fruit juice'], serving: { unit: 'glass', grams: 200 }, per100g: per100g(45, 0.7, 10.4, 0.2), barcodes: ['2000000000046'], contains: ['added-sugar'] },
+    { id: 'coconut-water', name: 'Coconut water', aliases: ['nariyal pani', 'tender coconut', 'elaneer', 'daab'], serving: { unit: 'glass', grams: 250 }, per100g: per100g(19, 0.7, 3.7, 0.2), contains: ['potassium'] },
+
+    // Fats and sugar
+    { id: 'ghee', name: 'Ghee', aliases: ['clarified butter', 'tup', 'neyyi'], serving: { unit: 'tsp', grams: 5 }, per100g: per100g(900, 0, 0, 100), measures: { tbsp: 14 }, contains: ['dairy'] },
+    { id: 'butter', name: 'Butter', aliases: ['makhan'], serving: { unit: 'tsp', grams: 5 }, per100g: per100g(717, 0.9, 0.1, 81), measures: { tbsp: 14 }, contains: ['dairy'] },
+    { id: 'oil', name: 'Cooking oil', aliases: ['oil', 'tel', 'vegetable oil', 'mustard oil', 'groundnut oil'], serving: { unit: 'tsp', grams: 5 }, per100g: per100g(884, 0, 0, 100), measures: { tbsp: 14 } },
+    { id: 'sugar', name: 'Sugar', aliases: ['cheeni', 'shakkar'], serving: { unit: 'tsp', grams: 5 }, per100g: per100g(387, 0, 100, 0), measures: { tbsp: 12 }, contains: ['added-sugar'] },
+    { id: 'peanut-butter', name: 'Peanut butter', aliases: [], serving: { unit: 'tbsp', grams: 16 }, per100g: per100g(588, 25, 20, 50), barcodes: ['2000000000053'], contains: ['peanut'] },
+
+    // Fruit
+    { id: 'banana', name: 'Banana', aliases: ['kela', 'bananas', 'vazhaipazham'], serving: { unit: 'banana', grams: 120 }, per100g: per100g(89, 1.1, 22.8, 0.3), contains: ['potassium'] },
+    { id: 'apple', name: 'Apple', aliases: ['seb', 'apples'], serving: { unit: 'apple', grams: 180 }, per100g: per100g(52, 0.3, 13.8, 0.2) },
+    { id: 'mango', name: 'Mango', aliases: ['aam', 'mangoes'], serving: { unit: 'mango', grams: 200 }, per100g: per100g(60, 0.8, 15, 0.4) },
+    { id: 'orange', name: 'Orange', aliases: ['santra', 'oranges', 'mosambi', 'sweet lime'], serving: { unit: 'orange', grams: 130 }, per100g: per100g(47, 0.9, 11.8, 0.1) },
+    { id: 'grapefruit', name: 'Grapefruit', aliases: ['chakotra', 'pomelo', 'grapefruit juice'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(42, 0.8, 10.7, 0.1), contains: ['grapefruit'] },
+    { id: 'papaya', name: 'Papaya', aliases: ['papita'], serving: { unit: 'bowl', grams: 150 }, per100g: per100g(43, 0.5, 10.8, 0.3) },
+    { id: 'guava', name: 'Guava', aliases: ['amrood', 'peru'], serving: { unit: 'guava', grams: 100 }, per100g: per100g(68, 2.6, 14.3, 1) },
+    { id: 'grapes', name: 'Grapes', aliases: ['angoor'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(69, 0.7, 18, 0.2) },
+    { id: 'watermelon', name: 'Watermelon', aliases: ['tarbooz'], serving: { unit: 'bowl', grams: 200 }, per100g: per100g(30, 0.6, 7.6, 0.2) },
+    { id: 'salad', name: 'Green salad', aliases: ['salad', 'cucumber', 'kheera', 'cucumber salad'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(15, 0.7, 3.6, 0.1) },
+    { id: 'kachumber', name: 'Kachumber', aliases: ['kachumber salad', 'onion salad', 'onion tomato salad'], serving: { unit: 'bowl', grams: 100 }, per100g: per100g(25, 1, 5.5, 0.2), contains: ['onion-garlic'] },
+
+    // Snacks and sweets
+    { id: 'samosa', name: 'Samosa', aliases: ['samosas'], serving: { unit: 'samosa', grams: 100 }, per100g: per100g(262, 3.5, 24, 17), contains: ['wheat', 'root-vegetable'] },
+    { id: 'pakora', name: 'Pakora', aliases: ['pakoda', 'bhajji', 'bhaji', 'bajji', 'pakoras'], serving: { unit: 'plate', grams: 100 }, per100g: per100g(315, 7, 28, 19.5), contains: ['onion-garlic'] },
+    { id: 'medu-vada', name: 'Medu vada', aliases: ['vada', 'vadai', 'uddina vada'], serving: { unit: 'vada', grams: 50 }, per100g: per100g(290, 7, 30, 15) },
+    { id: 'vada-pav', name: 'Vada pav', aliases: ['wada pav'], serving: { unit: 'vada pav', grams: 130 }, per100g: per100g(290, 6, 38, 12.5), contains: ['wheat', 'root-vegetable', 'onion-garlic', 'high-sodium'] },
+    { id: 'dhokla', name: 'Dhokla', aliases: ['khaman'], serving: { unit: 'piece', grams: 30 }, per100g: per100g(160, 6, 25, 4) },
+    { id: 'peanuts', name: 'Peanuts', aliases: ['groundnuts', 'moongphali', 'shenga'], serving: { unit: 'handful', grams: 30 }, per100g: per100g(567, 25.8, 16.1, 49.2), measures: { cup: 145 }, contains: ['peanut'] },
+    { id: 'almonds', name: 'Almonds', aliases: ['badam'], serving: { unit: 'handful', grams: 15 }, per100g: per100g(579, 21, 21.6, 50), measures: { cup: 140 }, contains: ['tree-nut'] },
+    { id: 'biscuits', name: 'Glucose biscuits', aliases: ['biscuit', 'biscuits', 'glucose biscuit'], serving: { unit: 'biscuit', grams: 7 }, per100g: per100g(450, 7, 76, 13), barcodes: ['2000000000060'], contains: ['wheat', 'added-sugar'] },
+    { id: 'chips', name: 'Potato chips (salted)', aliases: ['chips', 'wafers', 'potato wafers', 'crisps'], serving: { unit: 'packet', grams: 30 }, per100g: per100g(536, 6.6, 53, 34), barcodes: ['2000000000077'], contains: ['root-vegetable', 'high-sodium'] },
+    { id: 'instant-noodles', name: 'Instant noodles', aliases: ['noodles', 'maggi', 'instant noodle'], serving: { unit: 'packet', grams: 70 }, per100g: per100g(440, 9, 62, 17), barcodes: ['2000000000084'], contains: ['wheat', 'high-sodium'] },
+    { id: 'jalebi', name: 'Jalebi', aliases: ['jilebi'], serving: { unit: 'piece', grams: 25 }, per100g: per100g(450, 2.5, 65, 20), contains: ['wheat', 'added-sugar'] },
+    { id: 'gulab-jamun', name: 'Gulab jamun', aliases: ['gulab jamoon'], serving: { unit: 'piece', grams: 40 }, per100g: per100g(380, 5, 55, 15.5), contains: ['wheat', 'dairy', 'added-sugar'] },
+];
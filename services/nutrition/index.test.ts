@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFoodText } from './index';
+
+const parsed = (text: string) => parseFoodText(text).matches.map(({ food, grams }) => [food.id, grams]);
+
+describe('parseFoodText', () => {
+    it('counts servings and reads weights', () => {
+        assert.deepEqual(parsed('2 roti, 200g rice and a banana'), [['roti', 80], ['rice', 200], ['banana', 120]]);
+        assert.deepEqual(parsed('half plate poha'), [['poha', 75]]);
+        assert.deepEqual(parsed('milk 300 ml'), [['milk', 300]]);
+    });
+
+    it('weighs household measures by the food', () => {
+        assert.deepEqual(parsed('2 tbsp ghee'), [['ghee', 28]]);
+        assert.deepEqual(parsed('1 tsp ghee'), [['ghee', 5]]);
+        assert.deepEqual(parsed('half a cup of almonds'), [['almonds', 70]]);
+        assert.deepEqual(parsed('1 katori dal'), [['dal', 150]]);
+        assert.deepEqual(parsed('2 cups tea'), [['tea', 300]]);
+        assert.deepEqual(parsed('3 pieces paneer'), [['paneer', 150]]);
+    });
+
+    it('logs every food in a combination', () => {
+        assert.deepEqual(parsed('dal chawal'), [['dal', 150], ['rice', 150]]);
+        assert.deepEqual(parsed('1 plate rajma chawal'), [['rajma', 150], ['rice', 150]]);
+        assert.deepEqual(parsed('2 idli sambar'), [['idli', 80], ['sambar', 150]]);
+        assert.deepEqual(parsed('300g dal chawal'), [['dal', 150], ['rice', 150]]);
+    });
+
+    it('keeps the longer name whole', () => {
+        assert.deepEqual(parsed('dal makhani'), [['dal-makhani', 150]]);
+        assert.deepEqual(parsed('masala dosa'), [['masala-dosa', 180]]);
+        assert.deepEqual(parsed('dahi chawal'), [['curd-rice', 200]]);
+    });
+
+    it('lists what it does not know', () => {
+        assert.deepEqual(parseFoodText('2 roti and a pizza').unrecognized, ['a pizza']);
+    });
+});
@@ -0,0 +1,284 @@
+import type { GoalTarget } from '../calories';
+import { CalorieTarget, createId, FoodEntry, FoodEntrySource, getVault, MealPhoto, MealType } from '../vault';
+import { Food, FOODS, Measure, Nutrients } from './data';
+
+// --- Food Diary ---
+// Matches what the user ate ("2 roti, 1 bowl dal", a barcode number) to the bundled
+// nutrition reference, and keeps the diary and the daily target from the calorie
+// calculator in the vault.
+
+export type { Food, FoodComponent, Measure, Nutrients, Serving } from './data';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export interface FoodMatch {
+    food: Food;
+    grams: number;
+    /** The item as the user typed or said it. */
+    input: string;
+}
+
+export interface ParsedFoodText {
+    matches: FoodMatch[];
+    /** Items that named nothing in the reference. */
+    unrecognized: string[];
+}
+
+export interface DaySummary {
+    date: string;
+    totals: Nutrients;
+    entries: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    half: 0.5, quarter: 0.25, '½': 0.5, '¼': 0.25, '¾': 0.75,
+};
+const GRAM_UNITS = new Set(['g', 'gm', 'gms', 'gram', 'grams', 'ml']);
+const MEASURE_WORDS: Record<string, Measure> = {
+    tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp', spoon: 'tsp', spoons: 'tsp',
+    tbsp: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+    cup: 'cup', cups: 'cup',
+    katori: 'katori', katoris: 'katori', bowl: 'katori', bowls: 'katori',
+    glass: 'glass', glasses: 'glass',
+};
+// Household measures in grams of a food about as dense as water; `Food.measures` corrects the rest.
+const MEASURE_GRAMS: Record<Measure, number> = { tsp: 5, tbsp: 15, cup: 200, katori: 150, glass: 250 };
+// A count with any other portion word is of the food's usual serving.
+const PORTION_WORDS = new Set([
+    ...GRAM_UNITS, ...Object.keys(MEASURE_WORDS),
+    'plate', 'plates', 'piece', 'pieces', 'pcs', 'slice', 'slices',
+    'handful', 'handfuls', 'packet', 'packets', 'can', 'cans', 'serving', 'servings',
+]);
+
+const tokenize = (text: string) =>
+    text.toLowerCase()
+        .replace(/(\d)(?=\p{L})/gu, '$1 ')
+        .split(/[^\p{L}\p{N}.\/½¼¾]+/u)
+        .map(token => token.replace(/^\.+|\.+$/g, ''))
+        .filter(Boolean);
+
+// Longest first, so "masala dosa" is tried before "dosa".
+const ALIASES = FOODS
+    .flatMap(food => [food.name, food.id.replace(/-/g, ' '), ...food.aliases].map(alias => ({ food, tokens: tokenize(alias) })))
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+const parseQuantity = (token: string): number | undefined => {
+    const fraction = /^(\d+)\/(\d+)$/.exec(token);
+    if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+    const value = Number(token);
+    return Number.isFinite(value) && value > 0 ? value : NUMBER_WORDS[token];
+};
+
+const sameWord = (token: string, word: string) => token === word || token === `${word}s` || token === `${word}es`;
+
+/** Where a phrase starts in the tokens, or -1. */
+const phraseAt = (tokens: string[], phrase: string[], from = 0) =>
+    tokens.findIndex((_, start) => start >= from && phrase.every((word, i) => tokens[start + i] !== undefined && sameWord(tokens[start + i], word)));
+
+export const findFood = (id: string): Food | undefined => FOODS.find(food => food.id === id);
+
+/** The food an item names; the longest matching name wins, so "masala dosa" beats "dosa". */
+export const identifyFood = (text: string): Food | undefined => {
+    const tokens = tokenize(text).filter(token => !PORTION_WORDS.has(token));
+    return ALIASES.find(alias => phraseAt(tokens, alias.tokens) >= 0)?.food;
+};
+
+/** Splits a free-text meal such as "2 roti, 1 bowl dal and a banana" or "idli with sambar". */
+export const splitFoodList = (text: string) =>
+    text.split(/[,;\n+&]|\b(?:and|with)\b/i).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Every food an item names, in the order written, so "dal chawal" is dal and rice. Longer
+ * names are taken first and each word counts once, so "dal makhani" is not also dal.
+ */
+const identifyFoods = (tokens: string[]): Food[] => {
+    const taken = tokens.map(() => false);
+    const found: { food: Food; at: number }[] = [];
+    for (const alias of ALIASES) {
+        for (let at = phraseAt(tokens, alias.tokens); at >= 0; at = phraseAt(tokens, alias.tokens, at + 1)) {
+            const span = alias.tokens.map((_, i) => at + i);
+            if (span.some(i => taken[i])) continue;
+            span.forEach(i => { taken[i] = true; });
+            if (!found.some(({ food }) => food === alias.food)) found.push({ food: alias.food, at });
+        }
+    }
+    return found.sort((a, b) => a.at - b.at).map(({ food }) => food);
+};
+
+/** Grams in one of a measure of a food: its own serving when that is the same measure. */
+const measureGrams = (food: Food, measure: Measure) =>
+    food.measures?.[measure] ?? (MEASURE_WORDS[food.serving.unit] === measure ? food.serving.grams : MEASURE_GRAMS[measure]);
+
+/**
+ * Reads "2 roti", "200g rice", "2 tbsp ghee", "half plate poha" or "dal chawal" as the foods
+ * it names and their amounts. A weight is shared between the foods and a measure such as a
+ * plate or katori is of each; a bare count such as "2 idli sambar" counts the first food only.
+ */
+export const parseFoodItem = (input: string): FoodMatch[] => {
+    const tokens = tokenize(input);
+    const foods = identifyFoods(tokens.filter(token => !PORTION_WORDS.has(token)));
+    if (foods.length === 0) return [];
+    const quantityAt = tokens.findIndex(token => parseQuantity(token) !== undefined);
+    const quantity = quantityAt >= 0 ? parseQuantity(tokens[quantityAt]) ?? 1 : 1;
+    // The portion word follows the count, as in "2 cups" or "half a cup".
+    const unit = tokens.slice(quantityAt + 1).find(token => PORTION_WORDS.has(token));
+    return foods.map((food, i) => {
+        const count = unit || i === 0 ? quantity : 1;
+        const grams = unit && GRAM_UNITS.has(unit) ? quantity / foods.length
+            : unit && MEASURE_WORDS[unit] ? count * measureGrams(food, MEASURE_WORDS[unit])
+            : count * food.serving.grams;
+        return { food, grams: Math.round(grams), input };
+    });
+};
+
+export const parseFoodText = (text: string): ParsedFoodText => {
+    const matches: FoodMatch[] = [];
+    const unrecognized: string[] = [];
+    for (const item of splitFoodList(text)) {
+        const found = parseFoodItem(item);
+        if (found.length > 0) matches.push(...found);
+        else unrecognized.push(item);
+    }
+    return { matches, unrecognized };
+};
+
+/** The digits of a scanned or typed barcode. */
+export const normalizeBarcode = (code: string) => code.replace(/\D/g, '');
+
+/** Whether an EAN-8, UPC-A or EAN-13 code has a correct check digit. */
+export const isValidBarcode = (code: string) => {
+    const digits = normalizeBarcode(code);
+    if (![8, 12, 13].includes(digits.length)) return false;
+    // Weights alternate 3 and 1 from the digit next to the check digit.
+    const sum = digits.slice(0, -1).split('').reverse().reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+export const findFoodByBarcode = (code: string): Food | undefined => {
+    const digits = normalizeBarcode(code);
+    // UPC-A codes are EAN-13 codes with a leading zero.
+    return FOODS.find(food => food.barcodes?.some(barcode => barcode === digits || barcode === `0${digits}`));
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const scaleNutrients = ({ calories, proteinG, carbsG, fatG }: Nutrients, factor: number): Nutrients => ({
+    calories: Math.round(calories * factor),
+    proteinG: round1(proteinG * factor),
+    carbsG: round1(carbsG * factor),
+    fatG: round1(fatG * factor),
+});
+
+export const nutrientsFor = (food: Food, grams: number): Nutrients => scaleNutrients(food.per100g, grams / 100);
+
+export const sumNutrients = (items: Nutrients[]): Nutrients => {
+    const total = items.reduce(
+        (sum, item) => ({
+            calories: sum.calories + item.calories,
+            proteinG: sum.proteinG + item.proteinG,
+            carbsG: sum.carbsG + item.carbsG,
+            fatG: sum.fatG + item.fatG,
+        }),
+        { calories: 0, proteinG: 0, carbsG: 0, fatG: 0 },
+    );
+    return { calories: Math.round(total.calories), proteinG: round1(total.proteinG), carbsG: round1(total.carbsG), fatG: round1(total.fatG) };
+};
+
+// --- Dates ---
+// Diary days are local calendar days, so a late dinner counts towards the day it was eaten.
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toDateKey = (date = new Date()) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const isDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T00:00`).getTime());
+
+export const shiftDate = (dateKey: string, days: number) => {
+    const date = new Date(`${dateKey}T00:00`);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+// --- Diary ---
+
+export const createFoodEntry = ({ food, grams }: Pick<FoodMatch, 'food' | 'grams'>, meal: MealType, date: string, source: FoodEntrySource): FoodEntry => ({
+    id: createId(),
+    date,
+    meal,
+    foodId: food.id,
+    name: food.name,
+    grams,
+    ...nutrientsFor(food, grams),
+    source,
+    createdAt: new Date().toISOString(),
+});
+
+/** An entry for a food outside the reference, with nutrients estimated elsewhere (e.g. from a photo). */
+export const createEstimatedFoodEntry = (name: string, grams: number, nutrients: Nutrients, meal: MealType, date: string, source: FoodEntrySource): FoodEntry => ({
+    id: createId(),
+    date,
+    meal,
+    name,
+    grams,
+    ...nutrients,
+    source,
+    createdAt: new Date().toISOString(),
+});
+
+/** Entries from `from` to `to` inclusive, in the order they were logged. */
+export const loadDiary = async (from: string, to = from): Promise<FoodEntry[]> => {
+    const entries = await getVault().list('foodDiary');
+    return entries
+        .filter(entry => entry.date >= from && entry.date <= to)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const addFoodEntries = (...entries: FoodEntry[]) => getVault().put('foodDiary', ...entries);
+
+/** Removes an entry, and its meal photo once no other entry comes from it. */
+export const deleteFoodEntry = async (entry: FoodEntry) => {
+    const vault = getVault();
+    await vault.delete('foodDiary', entry.id);
+    if (!entry.photoId) return;
+    const remaining = await vault.list('foodDiary');
+    if (!remaining.some(other => other.photoId === entry.photoId)) await vault.delete('mealPhotos', entry.photoId);
+};
+
+// --- Meal photos ---
+
+export const saveMealPhoto = async (image: string): Promise<MealPhoto> => {
+    const photo = { id: createId(), image, createdAt: new Date().toISOString() };
+    await getVault().put('mealPhotos', photo);
+    return photo;
+};
+
+export const deleteMealPhoto = (id: string) => getVault().delete('mealPhotos', id);
+
+/** Photo images by id; ids whose photo is gone are left out. */
+export const loadMealPhotos = async (ids: string[]): Promise<Record<string, string>> => {
+    const vault = getVault();
+    const photos = await Promise.all([...new Set(ids)].map(id => vault.get('mealPhotos', id)));
+    return Object.fromEntries(photos.filter(Boolean).map(photo => [photo.id, photo.image]));
+};
+
+/** Daily totals for `days` days ending on `to`, including days with nothing logged. */
+export const summarizeDays = (entries: FoodEntry[], to: string, days = 7): DaySummary[] =>
+    Array.from({ length: days }, (_, i) => {
+        const date = shiftDate(to, i - days + 1);
+        const logged = entries.filter(entry => entry.date === date);
+        return { date, totals: sumNutrients(logged), entries: logged.length };
+    });
+
+// --- Target ---
+
+export const loadCalorieTarget = async (): Promise<CalorieTarget | undefined> => {
+    const targets = await getVault().list('calorieTargets');
+    return targets.sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
+
+export const saveCalorieTarget = async ({ goal, calories, proteinG, carbsG, fatG }: GoalTarget, tdee: number): Promise<CalorieTarget> => {
+    const target = { id: createId(), goal, calories, proteinG, carbsG, fatG, tdee, createdAt: new Date().toISOString() };
+    await getVault().put('calorieTargets', target);
+    return target;
+};
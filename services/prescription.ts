@@ -0,0 +1,222 @@
+import { PRESCRIPTION_FIELDS, PrescriptionField, PrescriptionLine } from './ai';
+import type { Reminder } from './vault';
+import { addDays } from './reminders';
+import { isConfident, medicationName, normalizeMedication, NormalizedMedication } from './drugs';
+
+// --- Prescription Reading ---
+// Turns the dose, frequency, duration and route of each medicine, copied from the
+// prescription by the scanner, into a schedule: dash notation ("1-0-1", "½-0-½"), Latin
+// shorthand ("BD", "TDS", "HS", "SOS"), "q8h" and plain English. Runs on the device.
+
+export type Route = 'oral' | 'sublingual' | 'topical' | 'eye' | 'ear' | 'nasal' | 'inhaled' | 'injection' | 'rectal' | 'vaginal';
+
+export type FoodTiming = 'before-food' | 'after-food' | 'with-food';
+
+export interface ScheduledDose {
+    /** `HH:MM`. */
+    time: string;
+    /** From dash notation, e.g. "½" in "½-0-½". */
+    amount?: string;
+}
+
+export interface Frequency {
+    /** Empty when taken only as needed or once. */
+    doses: ScheduledDose[];
+    /** Days between dosing days; 1 is daily. */
+    everyDays: number;
+    asNeeded: boolean;
+    /** A single dose straight away ("stat"). */
+    once: boolean;
+}
+
+/** Days of treatment, or a medicine to carry on with. */
+export type CourseLength = number | 'ongoing';
+
+export interface ParsedMedicine {
+    line: PrescriptionLine;
+    /** The medicine looked up in the drug dictionary. */
+    drug: NormalizedMedication;
+    /** Undefined when the frequency could not be read. */
+    frequency?: Frequency;
+    course?: CourseLength;
+    route?: Route;
+    food?: FoodTiming;
+}
+
+/** Reminder times for the parts of the day prescriptions refer to. */
+export const SLOT_TIMES = { morning: '08:00', afternoon: '14:00', evening: '18:00', night: '21:00' };
+
+const { morning, afternoon, evening, night } = SLOT_TIMES;
+
+// Dash notation gives the amount at each part of the day: three parts are morning, afternoon
+// and night, four add the evening.
+const AMOUNT = String.raw`(?:\d+(?:\.\d+)?|\d*[½¼¾]|\d\/\d)`;
+const DASH_NOTATION = new RegExp(`(?:^|[^\\d/])(${AMOUNT})\\s*[-–+]\\s*(${AMOUNT})\\s*[-–+]\\s*(${AMOUNT})(?:\\s*[-–+]\\s*(${AMOUNT}))?(?![\\d/])`);
+const DASH_SLOTS: Record<number, string[]> = { 3: [morning, afternoon, night], 4: [morning, afternoon, evening, night] };
+
+const AS_NEEDED = /\b(s\.?o\.?s|p\.?r\.?n|as needed|as required|when required|when needed|if needed|if required)\b/;
+const ONCE = /\b(stat|single dose|once only|one dose)\b/;
+const EVERY_HOURS = /\bq\.?\s?(\d{1,2})\s?h|\b(\d{1,2})\s?(?:-\s?)?(?:hourly|hrly)\b|\bevery (\d{1,2}) hours?\b/;
+
+// How many times a day; the times come from any part of the day also mentioned.
+const TIMES_A_DAY: [RegExp, string[]][] = [
+    [/\b(q\.?i\.?d|q\.?d\.?s|four times|4 times)\b/, [morning, afternoon, evening, night]],
+    [/\b(t\.?d\.?s|t\.?i\.?d|thrice|three times|3 times)\b/, [morning, afternoon, night]],
+    [/\b(b\.?d|b\.?i\.?d|twice|two times|2 times)\b/, [morning, night]],
+    [/\b(o\.?d|q\.?d|once|daily|every day|1 time)\b/, [morning]],
+];
+
+const EVERY_FEW_DAYS: [RegExp, number][] = [
+    [/\b(q\.?o\.?d|alternate days?|every other day|every 2(nd)? days?)\b/, 2],
+    [/\b(weekly|once a week|every week)\b/, 7],
+];
+
+const PARTS_OF_DAY: [RegExp, string][] = [
+    [/\b(morning|mane|o\.?m|breakfast)\b/, morning],
+    [/\b(afternoon|noon|lunch)\b/, afternoon],
+    [/\b(evening)\b/, evening],
+    [/\b(night|nocte|h\.?s|bed ?time|dinner)\b/, night],
+];
+
+const FOOD_TIMINGS: [RegExp, FoodTiming][] = [
+    [/\b(a\.?c|before (food|meals?|breakfast|lunch|dinner)|empty stomach|khali pet)\b/, 'before-food'],
+    [/\b(p\.?c|after (food|meals?|breakfast|lunch|dinner))\b/, 'after-food'],
+    [/\bwith (food|meals?|milk)\b/, 'with-food'],
+];
+
+// Checked in order: the more specific routes come before the dosage forms they share.
+const ROUTES: [RegExp, Route][] = [
+    [/\b(s\.?l|sublingual|under the tongue)\b/, 'sublingual'],
+    [/\b(eyes?|ophthalmic|e\/d)\b/, 'eye'],
+    [/\b(ears?|otic)\b/, 'ear'],
+    [/\b(nasal|nose|nostrils?|intranasal)\b/, 'nasal'],
+    [/\b(inhal\w*|rotacaps?|respules?|nebuli[sz]\w*|puffs?|mdi)\b/, 'inhaled'],
+    [/\b(inj|injection|i\.?v|i\.?m|s\.?c|subcut\w*|intravenous\w*|intramuscular\w*)\b/, 'injection'],
+    [/\b(rectal\w*|p\.?r|suppositor\w*)\b/, 'rectal'],
+    [/\b(vaginal\w*|p\.?v|pessar\w*)\b/, 'vaginal'],
+    [/\b(topical\w*|cream|ointment|oint|gel|lotion|apply|local\w*|l\/a)\b/, 'topical'],
+    [/\b(oral\w*|p\.?o|by mouth|tab\w*|cap\w*|syp|syr\w*|susp\w*|sachets?|granules|drops)\b/, 'oral'],
+];
+
+const WORD_NUMBERS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, fourteen: 14, fifteen: 15, thirty: 30,
+};
+
+const ONGOING = /\b(continue|cont|ongoing|long[- ]term|lifelong|till further|until further|to be continued)\b/;
+// "5/7" is five days, "2/52" two weeks and "3/12" three months.
+const FRACTION_DURATION = /(\d+)\s*\/\s*(7|52|12)\b/;
+const UNIT_DURATION = /(\d+)\s*(d|days?|w|wks?|weeks?|mo|mths?|months?)\b/;
+const DAYS_PER_UNIT: Record<string, number> = { d: 1, w: 7, m: 30, '7': 1, '52': 7, '12': 30 };
+
+const normalize = (text?: string) => (text ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const firstMatch = <T>(text: string, patterns: [RegExp, T][]) => patterns.find(([pattern]) => pattern.test(text))?.[1];
+
+const dashNotation = (text: string): ScheduledDose[] | undefined => {
+    const match = text.match(DASH_NOTATION);
+    if (!match) return undefined;
+    const amounts = match.slice(1).filter(Boolean);
+    return amounts
+        .map((amount, i) => ({ time: DASH_SLOTS[amounts.length][i], amount }))
+        .filter(dose => parseFloat(dose.amount) !== 0);
+};
+
+/** Dose times evenly spaced through the day from 06:00, for "every n hours". */
+const everyHours = (hours: number) =>
+    Array.from({ length: 24 / hours }, (_, i) => `${String((6 + i * hours) % 24).padStart(2, '0')}:00`);
+
+export const parseFrequency = (text?: string): Frequency | undefined => {
+    const frequency = normalize(text);
+    if (!frequency) return undefined;
+    const schedule = (times: string[], everyDays = 1): Frequency => ({
+        doses: times.map(time => ({ time })), everyDays, asNeeded: false, once: false,
+    });
+    if (AS_NEEDED.test(frequency)) return { doses: [], everyDays: 1, asNeeded: true, once: false };
+    if (ONCE.test(frequency)) return { doses: [], everyDays: 1, asNeeded: false, once: true };
+    const dashDoses = dashNotation(frequency);
+    if (dashDoses) return { doses: dashDoses, everyDays: 1, asNeeded: false, once: false };
+    const hours = Number(frequency.match(EVERY_HOURS)?.slice(1).find(Boolean));
+    if (hours >= 4 && 24 % hours === 0) return schedule(everyHours(hours));
+
+    const partsOfDay = PARTS_OF_DAY.filter(([pattern]) => pattern.test(frequency)).map(([, time]) => time);
+    const everyDays = firstMatch(frequency, EVERY_FEW_DAYS);
+    if (everyDays) return schedule(partsOfDay.length > 0 ? partsOfDay : [morning], everyDays);
+    const timesADay = firstMatch(frequency, TIMES_A_DAY);
+    // "Once daily at night" or "twice a day, morning and evening" name their own times.
+    if (timesADay && partsOfDay.length !== timesADay.length) return schedule(timesADay);
+    return partsOfDay.length > 0 ? schedule(partsOfDay) : undefined;
+};
+
+export const parseCourseLength = (text?: string): CourseLength | undefined => {
+    const duration = normalize(text).replace(/\b([a-z]+)(?= (days?|weeks?|months?)\b)/g, word => String(WORD_NUMBERS[word] ?? word));
+    if (ONGOING.test(duration)) return 'ongoing';
+    const fraction = duration.match(FRACTION_DURATION);
+    if (fraction) return Number(fraction[1]) * DAYS_PER_UNIT[fraction[2]];
+    const units = duration.match(UNIT_DURATION);
+    if (units) return Number(units[1]) * DAYS_PER_UNIT[units[2][0]];
+    return undefined;
+};
+
+/** The route, from what was written for it or else from the dosage form and name. */
+export const parseRoute = (line: PrescriptionLine): Route | undefined =>
+    firstMatch(normalize(line.route), ROUTES) ?? firstMatch(normalize([line.form, line.name, line.instructions].join(' ')), ROUTES);
+
+export const parseFoodTiming = (line: PrescriptionLine): FoodTiming | undefined =>
+    firstMatch(normalize([line.frequency, line.instructions].join(' ')), FOOD_TIMINGS);
+
+export const parsePrescription = (lines: PrescriptionLine[]): ParsedMedicine[] =>
+    lines.map(line => ({
+        line,
+        drug: normalizeMedication([line.form, line.name, line.strength].filter(Boolean).join(' ')),
+        // The frequency is sometimes written into the dose or instructions instead.
+        frequency: parseFrequency(line.frequency) ?? parseFrequency([line.dose, line.instructions].join(' ')),
+        course: parseCourseLength(line.duration) ?? parseCourseLength(line.instructions),
+        route: parseRoute(line),
+        food: parseFoodTiming(line),
+    }));
+
+/** "Paracetamol 500mg". */
+export const medicineLabel = ({ name, strength }: PrescriptionLine) => [name, strength].filter(Boolean).join(' ');
+
+/**
+ * The parts of a medicine to check against the prescription: those the scanner found hard to
+ * read, a name the drug dictionary is not sure of, and a frequency or duration that could not be read.
+ */
+export const fieldsToCheck = ({ line, drug, frequency, course }: ParsedMedicine): PrescriptionField[] => {
+    const flagged = new Set(line.unclear ?? []);
+    if (!isConfident(drug.match)) flagged.add('name');
+    if (!frequency) flagged.add('frequency');
+    if (line.duration && course === undefined) flagged.add('duration');
+    return PRESCRIPTION_FIELDS.filter(field => flagged.has(field));
+};
+
+export interface ReminderPlan {
+    reminders: Omit<Reminder, 'id'>[];
+    /** Medicines taken as needed, once, or on a schedule that could not be read. */
+    unscheduled: ParsedMedicine[];
+}
+
+/**
+ * One reminder per dose time of each medicine, running from `startDate` for the length of its
+ * course. Reminders are named by generic name when the dictionary is confident of it.
+ */
+export const planReminders = (medicines: ParsedMedicine[], startDate: string): ReminderPlan => {
+    const reminders: Omit<Reminder, 'id'>[] = [];
+    const unscheduled: ParsedMedicine[] = [];
+    medicines.forEach(medicine => {
+        const { line, drug, frequency, course } = medicine;
+        if (!frequency || frequency.doses.length === 0) {
+            unscheduled.push(medicine);
+            return;
+        }
+        frequency.doses.forEach(({ time, amount }) => reminders.push({
+            name: medicationName(drug, medicineLabel(line)),
+            time,
+            dose: (amount ? [amount, line.form].filter(Boolean).join(' ') : line.dose) || undefined,
+            startDate,
+            endDate: typeof course === 'number' ? addDays(startDate, course - 1) : undefined,
+            everyDays: frequency.everyDays > 1 ? frequency.everyDays : undefined,
+        }));
+    });
+    return { reminders, unscheduled };
+};
@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { getVault } from './vault';
+
+// --- Outbound PII Redaction ---
+// Text typed by the user is scrubbed locally before it is put into a prompt: names, phone
+// numbers, e-mail addresses, street addresses, ID numbers and dates of birth become
+// placeholders such as `[PHONE_1]`. The originals stay on the device in the returned
+// entity list, which `rehydrate` uses to put them back into the model's answer.
+// Detection is pattern-based, so it errs towards hiding a little too much.
+
+export type PIIType = 'name' | 'phone' | 'email' | 'address' | 'id' | 'dob';
+
+export interface RedactedEntity {
+    type: PIIType;
+    value: string;
+    /** Stands in for the value in outbound text; empty when the value was dropped outright. */
+    placeholder: string;
+}
+
+export interface Redaction {
+    /** The text as it will leave the device. */
+    text: string;
+    /** Every entity known so far, including any passed in through `RedactOptions.entities`. */
+    entities: RedactedEntity[];
+}
+
+export interface RedactOptions {
+    /** Names known to belong to the user, e.g. the profile's display name. */
+    names?: string[];
+    /** Entities from earlier turns, so the same value keeps the same placeholder. */
+    entities?: RedactedEntity[];
+}
+
+interface Detector {
+    type: PIIType;
+    /** Group 1 is kept as-is (usually a label such as "DOB:"); group 2 is the personal value. */
+    pattern: RegExp;
+    /** Narrows the matched value, or returns '' to leave the match alone. */
+    refine?: (value: string) => string;
+}
+
+const DATE = String.raw`(?:\d{1,2}[\/.-]\d{1,2}[\/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+\p{L}{3,9}\.?,?\s+\d{4}|\p{L}{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})`;
+const HOUSE = String.raw`(?:(?:flat|house|h\.?\s*no|plot|door|apt)\.?\s*(?:no\.?\s*)?[:#]?\s*|#\s*)?\d+[a-z]?(?:[\/-]\d+[a-z]?)?`;
+const STREET = String.raw`(?:road|rd|street|st|lane|marg|nagar|colony|layout|cross|sector|avenue|society|apartments?)`;
+const WORD_START = String.raw`(?<![\p{L}\p{N}])`;
+
+/** Keeps the leading words that look like a name: capitalised, or in a script without case. */
+const leadingNameWords = (value: string) => {
+    const words: string[] = [];
+    for (const word of value.trim().split(/\s+/)) {
+        const first = word.charAt(0);
+        if (!first || first === first.toLowerCase() && first !== first.toUpperCase()) break;
+        words.push(word);
+    }
+    return words.join(' ').replace(/[.,]+$/, '');
+};
+
+// Order matters: longer, more specific patterns run first so e.g. an Aadhaar number is not
+// half-matched as a phone number.
+const DETECTORS: Detector[] = [
+    { type: 'email', pattern: /()([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g },
+    { type: 'id', pattern: /()(\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b)/g }, // Aadhaar
+    { type: 'id', pattern: /()(\b\d{2}-\d{4}-\d{4}-\d{4}\b)/g }, // ABHA
+    { type: 'id', pattern: /()(\b[A-Z]{5}\d{4}[A-Z]\b)/g }, // PAN
+    {
+        type: 'id',
+        pattern: new RegExp(String.raw`(${WORD_START}(?:aadhaar|aadhar|pan|abha|uhid|mrn|passport|patient id|reg(?:istration)?\.?\s*no)(?!\p{L})\.?\s*(?:no\.?|number)?\s*[:#-]?\s*)([a-z0-9][a-z0-9-]{3,})`, 'giu'),
+        refine: value => /\d/.test(value) ? value : '',
+    },
+    {
+        type: 'dob',
+        pattern: new RegExp(String.raw`(${WORD_START}(?:dob|d\.o\.b\.?|date of birth|birth\s*date|born on|born|जन्म\s*तिथि)\s*[:-]?\s*)(${DATE})`, 'giu'),
+    },
+    {
+        type: 'address',
+        pattern: new RegExp(String.raw`(${WORD_START}(?:address|addr\.?|residing at|(?:i\s+)?live at|lives at|staying at|पता)\s*(?:is\s*)?[:-]?\s*)([^\n;]+?)(?=[.!?]\s+\p{Lu}|[.!?]?$|[\n;])`, 'gimu'),
+    },
+    {
+        type: 'address',
+        pattern: new RegExp(String.raw`()(${WORD_START}${HOUSE},?\s+(?:[\p{L}\p{N}'.-]+\s+){0,4}?${STREET}\b\.?)`, 'giu'),
+    },
+    { type: 'phone', pattern: /()((?:\+91[\s-]?|\b0?)[6-9]\d{4}[\s-]?\d{5}\b)/g },
+    { type: 'phone', pattern: /()(\+\d{1,3}[\s-]?\d[\d\s-]{6,14}\d\b)/g },
+    { type: 'phone', pattern: /()(\b0\d{2,4}[\s-]\d{6,8}\b)/g },
+    {
+        type: 'name',
+        pattern: new RegExp(String.raw`(${WORD_START}(?:my name is|patient(?:'s)?(?: name)?|name|नाम)\s*(?:is\s*)?[:-]?\s*)(\p{L}[\p{L}.]*(?:[ \t]+\p{L}[\p{L}.]*){0,3})`, 'giu'),
+        refine: leadingNameWords,
+    },
+    { type: 'name', pattern: /(\b(?:Mr|Mrs|Ms|Miss|Dr|Shri|Smt|Kumari)\.?\s+)([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/g },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The full name first, then each part long enough not to be an everyday word. */
+const nameDetectors = (names: string[]): Detector[] => {
+    const variants = new Set<string>();
+    for (const name of names.map(n => n.trim()).filter(Boolean)) {
+        variants.add(name);
+        name.split(/\s+/).filter(part => part.length >= 3).forEach(part => variants.add(part));
+    }
+    return [...variants].map(variant => ({
+        type: 'name' as PIIType,
+        pattern: new RegExp(`(${WORD_START})(${escapeRegExp(variant)})(?![\\p{L}\\p{N}])`, 'giu'),
+    }));
+};
+
+const normalize = (value: string) => value.replace(/[\s.-]+/g, '').toLowerCase();
+
+/** Returns the placeholder for a value, reusing the one it already has. */
+const placeholderFor = (type: PIIType, value: string, entities: RedactedEntity[]) => {
+    const known = entities.find(e => e.type === type && e.placeholder && normalize(e.value) === normalize(value));
+    if (known) return known.placeholder;
+    const count = entities.filter(e => e.type === type && e.placeholder).length;
+    const placeholder = `[${type.toUpperCase()}_${count + 1}]`;
+    entities.push({ type, value, placeholder });
+    return placeholder;
+};
+
+/** Replaces personal details in free text with placeholders. */
+export const redactText = (text: string, options: RedactOptions = {}): Redaction => {
+    const entities = [...(options.entities ?? [])];
+    let result = text;
+    for (const { type, pattern, refine } of [...DETECTORS, ...nameDetectors(options.names ?? [])]) {
+        result = result.replace(pattern, (match: string, kept: string, value: string) => {
+            const personal = refine ? refine(value) : value.trim();
+            if (!personal) return match;
+            const start = value.indexOf(personal);
+            return kept + value.slice(0, start) + placeholderFor(type, personal, entities) + value.slice(start + personal.length);
+        });
+    }
+    return { text: result, entities };
+};
+
+/** Replaces a whole field that is personal by nature, such as a delivery address. */
+export const redactField = (type: PIIType, value: string, entities: RedactedEntity[] = []): Redaction => {
+    const next = [...entities];
+    return { text: value.trim() ? placeholderFor(type, value.trim(), next) : '', entities: next };
+};
+
+const HOUSE_DETAIL = /\b(?:flat|house|h\.?\s*no|plot|door|apt|apartment|floor|tower|wing|block\s+\w)\b|#\s*\d/i;
+const HOUSE_NUMBER = /^#?\d+[a-z]?(?:[\/-]\d+[a-z]?)?(?:\s+|$)/i;
+const PIN_CODE = /^\d{3}\s?\d{3}$/;
+
+/**
+ * Coarsens a location to what a nearby search needs: house and flat numbers are dropped,
+ * while street, area, city and PIN code are kept. Other details are redacted as usual.
+ */
+export const generalizeLocation = (text: string, options: RedactOptions = {}): Redaction => {
+    const dropped: RedactedEntity[] = [];
+    const kept: string[] = [];
+    for (const part of text.split(/[,\n]/).map(p => p.trim()).filter(Boolean)) {
+        if (PIN_CODE.test(part)) {
+            kept.push(part);
+        } else if (HOUSE_DETAIL.test(part)) {
+            dropped.push({ type: 'address', value: part, placeholder: '' });
+        } else {
+            const number = part.match(HOUSE_NUMBER);
+            if (number) dropped.push({ type: 'address', value: number[0].trim(), placeholder: '' });
+            const rest = number ? part.slice(number[0].length) : part;
+            if (rest) kept.push(rest);
+        }
+    }
+    // Nothing searchable left: fall back to plain redaction rather than send an empty query.
+    if (kept.length === 0) return redactText(text, options);
+    const redaction = redactText(kept.join(', '), options);
+    return { text: redaction.text, entities: [...redaction.entities, ...dropped] };
+};
+
+/** Puts the original values back in place of their placeholders. */
+export const rehydrate = (text: string, entities: RedactedEntity[]): string =>
+    entities.reduce((result, e) => (e.placeholder ? result.split(e.placeholder).join(e.value) : result), text);
+
+/** The user's own names from their profile, so they are redacted wherever they appear. */
+export const useKnownNames = (): string[] => {
+    const [names, setNames] = useState<string[]>([]);
+    useEffect(() => {
+        getVault().getProfile()
+            .then(profile => setNames(profile.displayName ? [profile.displayName] : []))
+            .catch(e => console.error("Failed to load profile", e));
+    }, []);
+    return names;
+};
@@ -0,0 +1,50 @@
+import { daysBetween } from './bodyTrends';
+import { toDateKey } from './nutrition';
+import type { Reminder } from './vault';
+
+// --- Reminder Schedules ---
+// When a medicine reminder is next due, for reminders that run every day, every few days
+// or only for the length of a course.
+
+// Longer setTimeout delays overflow and fire at once; such reminders are scheduled on a later visit.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/** Local midnight at the start of a `YYYY-MM-DD` day. */
+const startOfDay = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+
+export const addDays = (dateKey: string, days: number) => {
+    const date = startOfDay(dateKey);
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+};
+
+/** Whether a reminder's course is over; reminders without an end date never finish. */
+export const hasEnded = (reminder: Reminder, today = toDateKey()) => !!reminder.endDate && reminder.endDate < today;
+
+const dueOn = (dateKey: string, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const due = startOfDay(dateKey);
+    due.setHours(hours, minutes, 0, 0);
+    return due;
+};
+
+/** The next time a reminder is due, or undefined once its course is over. */
+export const nextDue = (reminder: Reminder, now = new Date()): Date | undefined => {
+    const { startDate, endDate, time } = reminder;
+    const every = reminder.everyDays ?? 1;
+    const today = toDateKey(now);
+    let day = startDate && startDate > today ? startDate : today;
+    // Doses every few days fall on the days counted from the start of the course.
+    if (startDate && every > 1) day = addDays(day, (every - (daysBetween(startDate, day) % every)) % every);
+    if (dueOn(day, time) < now) day = addDays(day, every);
+    if (endDate && day > endDate) return undefined;
+    return dueOn(day, time);
+};
+
+/** Milliseconds until a reminder should fire, or undefined when it should not be scheduled now. */
+export const reminderDelay = (reminder: Reminder, now = new Date()) => {
+    const due = nextDue(reminder, now);
+    if (!due) return undefined;
+    const delay = due.getTime() - now.getTime();
+    return delay > MAX_TIMEOUT_MS ? undefined : delay;
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from 'react';
+import { getLanguageInfo, useTranslation } from './i18n';
+
+// --- TypeScript Interfaces ---
+export interface SpeechRecognition extends EventTarget {
+    continuous: boolean;
+    interimResults: boolean;
+    lang: string;
+    onresult: (event: any) => void;
+    onend: () => void;
+    onerror: (event: any) => void;
+    start: () => void;
+    stop: () => void;
+}
+
+declare global {
+    interface Window {
+        SpeechRecognition: { new(): SpeechRecognition };
+        webkitSpeechRecognition: { new(): SpeechRecognition };
+    }
+}
+
+// --- Speech Synthesis & Recognition ---
+
+/** Prefers a voice for the exact locale (e.g. `hi-IN`), then any voice for the language. */
+const findVoice = (lang: string) => {
+    const voices = speechSynthesis.getVoices();
+    const base = lang.split('-')[0];
+    return voices.find(v => v.lang === lang) ?? voices.find(v => v.lang.split(/[-_]/)[0] === base);
+};
+
+export const speak = (text: string, lang = getLanguageInfo().speechLang) => {
+    speechSynthesis.cancel(); // Stop any currently speaking utterance
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    const voice = findVoice(lang);
+    if (voice) utterance.voice = voice;
+    speechSynthesis.speak(utterance);
+};
+
+export const useSpeechRecognition = (onResult: (result: string) => void) => {
+    const recognitionRef = useRef<SpeechRecognition | null>(null);
+    const [isListening, setIsListening] = useState(false);
+    const { language } = useTranslation();
+
+    useEffect(() => {
+        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+        if (!SpeechRecognition) {
+            console.error("Speech Recognition not supported by this browser.");
+            return;
+        }
+        
+        const recognition = new SpeechRecognition();
+        recognition.continuous = false;
+        recognition.interimResults = false;
+        recognition.lang = getLanguageInfo(language).speechLang;
+
+        recognition.onresult = (event: any) => {
+            const transcript = event.results[0][0].transcript;
+            onResult(transcript);
+        };
+
+        recognition.onend = () => {
+            setIsListening(false);
+        };
+        
+        recognition.onerror = (event: any) => {
+             console.error('Speech recognition error:', event.error);
+             setIsListening(false);
+        };
+        
+        recognitionRef.current = recognition;
+
+        return () => {
+            recognitionRef.current?.stop();
+        };
+
+    }, [onResult, language]);
+    
+    const toggleListening = () => {
+        if (!recognitionRef.current) return;
+        if (isListening) {
+            recognitionRef.current.stop();
+        } else {
+            try {
+                recognitionRef.current.start();
+                setIsListening(true);
+            } catch(e) {
+                console.error("Error starting speech recognition:", e);
+                setIsListening(false);
+            }
+        }
+    };
+
+    return { isListening, toggleListening, isSupported: !!recognitionRef.current };
+};
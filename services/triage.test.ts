@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRedFlags } from './triage';
+
+const fired = (text: string, age?: number) => evaluateRedFlags({ text, age }).map(({ id }) => id);
+
+describe('evaluateRedFlags', () => {
+    it('fires on emergencies described in English', () => {
+        assert.deepEqual(fired('Crushing chest pain spreading to my left arm'), ['cardiac-chest-pain']);
+        assert.deepEqual(fired('no chest pain, just a cough'), []);
+    });
+
+    it('fires on emergencies described in each supported language', () => {
+        const cases: [string, string][] = [
+            ['सीने में तेज़ दर्द हो रहा है', 'cardiac-chest-pain'],
+            ['நெஞ்சு வலி அதிகமாக உள்ளது', 'cardiac-chest-pain'],
+            ['ఊపిరి ఆడటం లేదు', 'breathing-difficulty'],
+            ['বাবার হঠাৎ স্ট্রোক হয়েছে মনে হচ্ছে', 'stroke-signs'],
+            ['ನನಗೆ ಆತ್ಮಹತ್ಯೆ ಮಾಡಿಕೊಳ್ಳಬೇಕು ಅನಿಸುತ್ತಿದೆ', 'self-harm'],
+            ['रक्त थांबत नाही', 'severe-bleeding'],
+            ['அவர் மயங்கி விழுந்தார்', 'loss-of-consciousness'],
+            ['গলা ফুলে গেছে', 'anaphylaxis'],
+        ];
+        for (const [text, id] of cases) assert.ok(fired(text).includes(id), text);
+    });
+
+    it('reads fever in each language for infants', () => {
+        for (const text of ['बुखार है', 'காய்ச்சல்', 'జ్వరం వచ్చింది', 'জ্বর', 'ಜ್ವರ ಇದೆ', 'ताप आला आहे']) {
+            assert.ok(fired(text, 0).includes('infant-fever'), text);
+        }
+    });
+});
@@ -0,0 +1,244 @@
+import type { MessageKey } from './i18n';
+import { createId, getVault, TriageSource } from './vault';
+
+// --- Red-flag Triage ---
+// Deterministic rules evaluated locally, before any AI call, on what the user typed plus
+// any vitals they gave. A match means "get emergency help now": callers show the
+// emergency banner instead of waiting on the model. Rules err on the side of firing;
+// only a plain negation right before a phrase ("no chest pain") suppresses it.
+// Each rule also lists common phrases in Hindi, Tamil, Telugu, Bengali, Kannada and
+// Marathi, in that order; negations in those languages are not understood.
+
+export type RedFlagCategory =
+    | 'cardiac'
+    | 'breathing'
+    | 'stroke'
+    | 'self-harm'
+    | 'bleeding'
+    | 'consciousness'
+    | 'allergy'
+    | 'high-fever'
+    | 'infant-fever'
+    | 'hypothermia'
+    | 'meningitis';
+
+export interface TriageInput {
+    text: string;
+    /** Body temperature in °C. */
+    temperature?: number;
+    /** Age in whole years. */
+    age?: number;
+}
+
+export interface RedFlagRule {
+    id: string;
+    category: RedFlagCategory;
+    test: (input: TriageInput) => boolean;
+}
+
+const NEGATION = /\b(no|not|denies|denied|without|never|nor)\b([^.,;!?\n]{0,20})$/i;
+const CONTRAST = /\b(but|and|though|although|however|yet)\b/i;
+
+/** "no chest pain" is negated; "no fever but chest pain" is not. */
+const isNegated = (before: string) => {
+    const negation = before.match(NEGATION);
+    return !!negation && !CONTRAST.test(negation[2]);
+};
+
+/** True if any pattern occurs in the text without a negation just before it. */
+const mentions = (text: string, patterns: RegExp[]) =>
+    patterns.some(pattern => {
+        const global = new RegExp(pattern.source, pattern.flags + 'g');
+        for (const match of text.matchAll(global)) {
+            if (!isNegated(text.slice(0, match.index))) return true;
+        }
+        return false;
+    });
+
+const hasTemperature = (input: TriageInput) => typeof input.temperature === 'number' && !Number.isNaN(input.temperature);
+
+const feverish = (input: TriageInput) =>
+    hasTemperature(input) ? input.temperature >= 38 : mentions(input.text, [/\bfever/i, /बुखार|ताप/, /காய்ச்சல்/, /జ్వరం/, /জ্বর/, /ಜ್ವರ/]);
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+    {
+        id: 'cardiac-chest-pain',
+        category: 'cardiac',
+        test: ({ text }) => mentions(text, [
+            /\b(crushing|squeezing|severe|heavy|tight|sharp)\b[^.]{0,20}\bchest\b/i,
+            /\bchest\b[^.]{0,20}\b(pain|pressure|tightness|heaviness)\b[^.]{0,40}\b(arm|jaw|neck|back|sweat\w*)\b/i,
+            /\bheart attack\b/i,
+            /(सीने|छाती) में (तेज़?|बहुत)? ?दर्द|दिल का दौरा/,
+            /(நெஞ்சு|மார்பு) ?வலி|மாரடைப்பு/,
+            /ఛాత(ీ|ి) ?(లో )?నొప్పి|గుండె ?పోటు/,
+            /বুকে? (প্রচণ্ড |তীব্র )?ব্যা?থা|হার্ট ?অ্যাটাক/,
+            /ಎದೆ ?ನೋವು|ಹೃದಯಾಘಾತ/,
+            /छातीत (खूप |तीव्र )?(दुख|वेदना)|हृदयविकाराचा झटका/,
+        ]),
+    },
+    {
+        id: 'breathing-difficulty',
+        category: 'breathing',
+        test: ({ text }) => mentions(text, [
+            /\b(can'?t|cannot|can ?not|unable to|not able to|struggling to|hard to)\s+(breathe|breath)\b/i,
+            /\b(severe|extreme)\s+(shortness of breath|breathlessness)\b/i,
+            /\b(choking|gasping)\b/i,
+            /\b(blue|grey|gray)\s+(lips|face)\b/i,
+            /सांस (नहीं|लेने में (बहुत )?(दिक्कत|तकलीफ))/,
+            /மூச்சுத் ?திணற|மூச்சு ?விட ?முடிய|சுவாசிக்க ?முடிய/,
+            /ఊపిరి ?ఆడ(టం|డం) ?లేదు|ఊపిరాడ(టం|డం) ?లేదు|శ్వాస (తీసుకోవడం కష్టం|తీసుకోలేక)/,
+            /শ্বাস নিতে (পারছি না|পারছে না|কষ্ট)|দম বন্ধ|তীব্র শ্বাসকষ্ট/,
+            /ಉಸಿರಾಡಲು (ಆಗುತ್ತಿಲ್ಲ|ಆಗ್ತಿಲ್ಲ|ಕಷ್ಟ)|ಉಸಿರು ?ಕಟ್ಟ/,
+            /श्वास (घेता येत नाही|घ्यायला (खूप )?त्रास|कोंड)/,
+        ]),
+    },
+    {
+        id: 'stroke-signs',
+        category: 'stroke',
+        test: ({ text }) => mentions(text, [
+            /\b(face|facial)\s+(droop\w*|drooping)\b/i,
+            /\bslurred\s+speech\b/i,
+            /\bsudden\w*\b[^.]{0,20}\b(weakness|numbness|paralysis|confusion|vision loss)\b/i,
+            /\b(one|left|right)\s+side\b[^.]{0,20}\b(weak|numb|paraly[sz]ed)\b/i,
+            /\bworst headache\b/i,
+            /\bstroke\b/i,
+            /लकवा|(मुंह|मुँह) टेढ़ा|(ज़ुबान|जुबान|ज़बान) लड़खड़ा/,
+            /பக்கவாத|முகம் ?(ஒரு பக்கம் )?கோண|பேச்சு ?குழற/,
+            /పక్షవాత|మూతి ?వంకర|మాట (తడబడ|ముద్ద)/,
+            /স্ট্রোক|পক্ষাঘাত|মুখ বেঁকে|কথা জড়িয়ে/,
+            /ಪಾರ್ಶ್ವವಾಯು|ಲಕ್ವ|ಮುಖ ಸೊಟ್ಟ|ಮಾತು ತೊದಲ/,
+            /पक्षाघात|अर्धांगवायू|तोंड वाकड|(बोलताना|बोलणे) अडखळ/,
+        ]),
+    },
+    {
+        id: 'self-harm',
+        category: 'self-harm',
+        test: ({ text }) => mentions(text, [
+            /\bsuicid\w*/i,
+            /\bkill(ing)? myself\b/i,
+            /\bend(ing)? (my|it all|my own) ?life\b/i,
+            /\b(want|wish|going) to die\b/i,
+            /\b(hurt|harm|cut)(ing)? myself\b/i,
+            /\bself[- ]harm\w*/i,
+            /आत्महत्या|खुद को (मार|नुकसान)/,
+            /தற்கொலை|சாக வேண்டும்|சாகணும்/,
+            /ఆత్మహత్య|చనిపోవాలని/,
+            /আত্মহত্যা|মরে যেতে চাই|নিজেকে (শেষ|মেরে)/,
+            /ಆತ್ಮಹತ್ಯೆ|ಸಾಯಬೇಕು|ಸಾಯಲು ಬಯಸ/,
+            /मरायचं आहे|मरायचे आहे|जीव द्याय/,
+        ]),
+    },
+    {
+        id: 'severe-bleeding',
+        category: 'bleeding',
+        test: ({ text }) => mentions(text, [
+            /\b(heavy|severe|uncontrolled|profuse)\s+bleeding\b/i,
+            /\bbleeding\b[^.]{0,20}\b(won'?t|will not|doesn'?t|does not)\s+stop\b/i,
+            /\b(vomiting|coughing|throwing) up blood\b/i,
+            /\bblood in (my )?vomit\b/i,
+            /(बहुत|ज़्यादा|ज्यादा) खून (बह|निकल)|खून (की )?उल्टी|खून रुक नहीं/,
+            /இ?ரத்தம் நிற்கவில்லை|இ?ரத்த ?வாந்தி|அதிக இ?ரத்தப்போக்கு/,
+            /రక్తం (ఆగడం లేదు|ఆగట్లేదు)|రక్తపు? ?వాంతి|(తీవ్ర|ఎక్కువ) రక్తస్రావం/,
+            /রক্ত (বন্ধ হচ্ছে না|পড়া বন্ধ হচ্ছে না)|রক্ত ?বমি|প্রচুর রক্তপাত|অনেক রক্ত পড়/,
+            /ರಕ್ತ (ನಿಲ್ಲುತ್ತಿಲ್ಲ|ನಿಲ್ತಿಲ್ಲ)|ರಕ್ತ ?ವಾಂತಿ|(ತೀವ್ರ|ಅತಿಯಾದ) ರಕ್ತಸ್ರಾವ/,
+            /रक्त (थांबत नाही|थांबेना)|रक्ताची उलटी|(खूप|जास्त) रक्तस्राव/,
+        ]),
+    },
+    {
+        id: 'loss-of-consciousness',
+        category: 'consciousness',
+        test: ({ text }) => mentions(text, [
+            /\b(unconscious|unresponsive|passed out|fainted|blacked out)\b/i,
+            /\b(seizures?|convulsions?|convulsing)\b/i,
+            /\b(having|had) (a )?fits?\b/i,
+            /बेहोश|दौरा/,
+            /மயங்கி ?விழு|சுயநினைவு ?(இழ|இல்லை|இன்றி)|வலிப்பு/,
+            /స్పృహ (కోల్పో|తప్ప|లేదు)|మూర్ఛ|ఫిట్స్/,
+            /অজ্ঞান|জ্ঞান হারি|খিঁচুনি/,
+            /ಪ್ರಜ್ಞೆ (ತಪ್ಪ|ಇಲ್ಲ|ಕಳೆದ)|ಮೂರ್ಛೆ|ಸೆಳವು|ಫಿಟ್ಸ್/,
+            /बेशुद्ध|आकडी|झटके येत/,
+        ]),
+    },
+    {
+        id: 'anaphylaxis',
+        category: 'allergy',
+        test: ({ text }) => mentions(text, [
+            /\b(throat|tongue|lips?|face)\b[^.]{0,15}\b(swelling|swollen|closing)\b/i,
+            /\bswelling of (the )?(throat|tongue|lips?|face)\b/i,
+            /\banaphyla\w*/i,
+            /(गले|गला|होंठ|होठ|जीभ|चेहर)\S* (में |पर )?सूज/,
+            /(தொண்டை|நாக்கு|உதடு|முகம்)\S* ?(வீக்க|வீங்கி)/,
+            /(గొంతు|నాలుక|పెదవ|ముఖ)\S* ?(వాపు|వాచ|ఉబ్బ)/,
+            /(গলা|জিভ|ঠোঁট|মুখ)\S* ?(ফুলে|ফোলা)/,
+            /(ಗಂಟಲು|ನಾಲಿಗೆ|ತುಟಿ|ಮುಖ)\S* ?(ಊತ|ಊದಿ|ಬಾವು)/,
+            /(घसा|घशा|जीभ|ओठ|चेहर)\S* ?(सूज|सुज)/,
+        ]),
+    },
+    {
+        id: 'high-fever',
+        category: 'high-fever',
+        test: input => hasTemperature(input) && input.temperature >= 40,
+    },
+    {
+        id: 'infant-fever',
+        category: 'infant-fever',
+        test: input => typeof input.age === 'number' && input.age < 1 && feverish(input),
+    },
+    {
+        id: 'hypothermia',
+        category: 'hypothermia',
+        test: input => hasTemperature(input) && input.temperature < 35,
+    },
+    {
+        id: 'fever-stiff-neck',
+        category: 'meningitis',
+        test: input => feverish(input) && mentions(input.text, [
+            /\bstiff\s+neck\b/i,
+            /\bneck\b[^.]{0,15}\bstiff/i,
+            /गर्दन (में )?अकड़/,
+            /கழுத்து ?(இறுக்க|விறைப்பு|பிடிப்பு)/,
+            /మెడ ?(బిగుస|పట్టేసి)/,
+            /ঘাড় ?শক্ত/,
+            /ಕುತ್ತಿಗೆ ?(ಬಿಗಿ|ಸೆಟೆ)/,
+            /मान ?(ताठ|आखड)/,
+        ]),
+    },
+];
+
+/** Runs every rule and returns the ones that fired, in rule order. */
+export const evaluateRedFlags = (input: TriageInput): RedFlagRule[] =>
+    RED_FLAG_RULES.filter(rule => rule.test(input));
+
+/** Parses a form field into a number for `TriageInput`, or undefined if blank. */
+export const parseVital = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export interface EmergencyNumber {
+    number: string;
+    label: MessageKey;
+    /** Which categories this number is offered for; omitted means all. */
+    categories?: RedFlagCategory[];
+}
+
+// India's unified emergency line, the ambulance service and the national mental health
+// helpline (Tele-MANAS).
+export const EMERGENCY_NUMBERS: EmergencyNumber[] = [
+    { number: '112', label: 'triage.number.emergency' },
+    { number: '108', label: 'triage.number.ambulance' },
+    { number: '14416', label: 'triage.number.mentalHealth', categories: ['self-harm'] },
+];
+
+export const emergencyNumbersFor = (rules: RedFlagRule[]) =>
+    EMERGENCY_NUMBERS.filter(n => !n.categories || rules.some(r => n.categories.includes(r.category)));
+
+/** Stores which rules fired (not the text that triggered them) in the health record vault. */
+export const recordRedFlags = (source: TriageSource, rules: RedFlagRule[]) => {
+    getVault().put('triageEvents', {
+        id: createId(),
+        source,
+        ruleIds: rules.map(r => r.id),
+        createdAt: new Date().toISOString(),
+    }).catch(e => console.error("Failed to record triage event", e));
+};
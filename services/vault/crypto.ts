@@ -0,0 +1,72 @@
+// --- Vault Encryption ---
+// Records are encrypted with a random AES-GCM data key. The data key is stored only in
+// wrapped form, encrypted with a key derived from the user's password (PBKDF2), so a
+// password change re-wraps one key instead of re-encrypting every record.
+
+export const PBKDF2_ITERATIONS = 310_000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const deriveKeyEncryptionKey = async (password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey'],
+    );
+};
+
+/** Data keys are created extractable only so they can be wrapped; unlocked keys are not. */
+export const generateDataKey = (): Promise<CryptoKey> =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+export const wrapDataKey = async (dataKey: CryptoKey, keyEncryptionKey: CryptoKey) => {
+    const iv = randomBytes(12);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, keyEncryptionKey, { name: 'AES-GCM', iv });
+    return { wrappedKey, wrapIv: iv };
+};
+
+/** Rejects with an `OperationError` when the key-encryption key (i.e. the password) is wrong. */
+export const unwrapDataKey = (
+    wrappedKey: ArrayBuffer,
+    wrapIv: Uint8Array,
+    keyEncryptionKey: CryptoKey,
+    extractable = false,
+): Promise<CryptoKey> =>
+    crypto.subtle.unwrapKey(
+        'raw',
+        wrappedKey,
+        keyEncryptionKey,
+        { name: 'AES-GCM', iv: wrapIv },
+        { name: 'AES-GCM' },
+        extractable,
+        ['encrypt', 'decrypt'],
+    );
+
+/**
+ * `context` is bound in as additional authenticated data, so a ciphertext copied into
+ * another record's slot fails to decrypt instead of silently showing the wrong data.
+ */
+export const encryptJson = async (dataKey: CryptoKey, value: unknown, context: string) => {
+    const iv = randomBytes(12);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+        dataKey,
+        encoder.encode(JSON.stringify(value)),
+    );
+    return { iv, ciphertext };
+};
+
+export const decryptJson = async <T>(dataKey: CryptoKey, iv: Uint8Array, ciphertext: ArrayBuffer, context: string): Promise<T> => {
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(context) },
+        dataKey,
+        ciphertext,
+    );
+    return JSON.parse(decoder.decode(plaintext));
+};
@@ -0,0 +1,116 @@
+// --- IndexedDB Storage ---
+// Raw storage for the vault: one `vaults` entry per user holding the wrapped key, and
+// an encrypted `records` store. Nothing in here ever sees plaintext health data.
+
+const DB_NAME = 'dhanvantari-vault';
+const DB_VERSION = 1;
+
+export interface VaultMeta {
+    userId: string;
+    salt: Uint8Array;
+    iterations: number;
+    wrappedKey: ArrayBuffer;
+    wrapIv: Uint8Array;
+    /** Version of the record data, advanced by the migrations in `migrations.ts`. */
+    dataVersion: number;
+    createdAt: string;
+}
+
+export interface EncryptedRecord {
+    userId: string;
+    collection: string;
+    id: string;
+    iv: Uint8Array;
+    ciphertext: ArrayBuffer;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Vault transaction aborted.'));
+    });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser does not support secure on-device storage.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            // Store layout changes go here as new `oldVersion` cases; record contents are
+            // migrated separately, after unlock, because they are encrypted.
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore('vaults', { keyPath: 'userId' });
+                    const records = db.createObjectStore('records', { keyPath: ['userId', 'collection', 'id'] });
+                    records.createIndex('byCollection', ['userId', 'collection']);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const readMeta = async (userId: string): Promise<VaultMeta | undefined> => {
+    const db = await openDatabase();
+    return promisify(db.transaction('vaults').objectStore('vaults').get(userId));
+};
+
+export const writeMeta = async (meta: VaultMeta) => {
+    const db = await openDatabase();
+    const tx = db.transaction('vaults', 'readwrite');
+    tx.objectStore('vaults').put(meta);
+    await transactionDone(tx);
+};
+
+export const readRecord = async (userId: string, collection: string, id: string): Promise<EncryptedRecord | undefined> => {
+    const db = await openDatabase();
+    return promisify(db.transaction('records').objectStore('records').get([userId, collection, id]));
+};
+
+export const readCollection = async (userId: string, collection: string): Promise<EncryptedRecord[]> => {
+    const db = await openDatabase();
+    const index = db.transaction('records').objectStore('records').index('byCollection');
+    return promisify(index.getAll([userId, collection]));
+};
+
+export const writeRecords = async (records: EncryptedRecord[]) => {
+    const db = await openDatabase();
+    const tx = db.transaction('records', 'readwrite');
+    const store = tx.objectStore('records');
+    records.forEach(record => store.put(record));
+    await transactionDone(tx);
+};
+
+export const deleteRecord = async (userId: string, collection: string, id: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction('records', 'readwrite');
+    tx.objectStore('records').delete([userId, collection, id]);
+    await transactionDone(tx);
+};
+
+/** Removes a user's key and every record, e.g. when they start over after losing their old password. */
+export const deleteVault = async (userId: string) => {
+    const db = await openDatabase();
+    const tx = db.transaction(['vaults', 'records'], 'readwrite');
+    tx.objectStore('vaults').delete(userId);
+    const range = IDBKeyRange.bound([userId], [userId, []]);
+    tx.objectStore('records').delete(range);
+    await transactionDone(tx);
+};
@@ -0,0 +1,103 @@
+import type { User } from '../auth';
+import {
+    deriveKeyEncryptionKey,
+    generateDataKey,
+    PBKDF2_ITERATIONS,
+    randomBytes,
+    unwrapDataKey,
+    wrapDataKey,
+} from './crypto';
+import { deleteVault, readMeta, VaultMeta, writeMeta } from './db';
+import { LATEST_DATA_VERSION, runMigrations } from './migrations';
+import { Vault } from './vault';
+
+// --- Encrypted Health Record Vault ---
+// Health data (profile, medications, reminders, appointments, scans, analyses, vitals, food diary, meal photos, body measurements) lives only
+// on this device, in IndexedDB, encrypted with a key derived from the user's password.
+// The password is never stored, so the vault must be unlocked again after a reload.
+
+export * from './records';
+export { Vault } from './vault';
+
+/** The password does not unlock this user's vault, typically because it was reset since. */
+export class VaultPasswordError extends Error {
+    constructor() {
+        super('This password does not unlock your health records on this device.');
+        this.name = 'VaultPasswordError';
+    }
+}
+
+export class VaultLockedError extends Error {
+    constructor() {
+        super('Your health records are locked. Please sign in again.');
+        this.name = 'VaultLockedError';
+    }
+}
+
+let activeVault: Vault | null = null;
+
+const unlockDataKey = async (meta: VaultMeta, password: string, extractable = false) => {
+    const keyEncryptionKey = await deriveKeyEncryptionKey(password, meta.salt, meta.iterations);
+    try {
+        return await unwrapDataKey(meta.wrappedKey, meta.wrapIv, keyEncryptionKey, extractable);
+    } catch {
+        throw new VaultPasswordError();
+    }
+};
+
+const wrapWithPassword = async (dataKey: CryptoKey, password: string) => {
+    const salt = randomBytes(16);
+    const keyEncryptionKey = await deriveKeyEncryptionKey(password, salt, PBKDF2_ITERATIONS);
+    return { salt, iterations: PBKDF2_ITERATIONS, ...(await wrapDataKey(dataKey, keyEncryptionKey)) };
+};
+
+/**
+ * Unlocks the user's vault, creating it on first use, and brings its data up to date.
+ * Throws `VaultPasswordError` if the vault was locked with a different password.
+ */
+export const openVault = async (user: User, password: string): Promise<Vault> => {
+    let meta = await readMeta(user.id);
+    if (!meta) {
+        meta = {
+            userId: user.id,
+            ...(await wrapWithPassword(await generateDataKey(), password)),
+            dataVersion: 0,
+            createdAt: new Date().toISOString(),
+        };
+        await writeMeta(meta);
+    } else if (meta.dataVersion > LATEST_DATA_VERSION) {
+        throw new Error('Your health records were saved by a newer version of Dhanvantari. Please reload the page.');
+    }
+
+    const vault = new Vault(user.id, await unlockDataKey(meta, password));
+    const dataVersion = await runMigrations(vault, user, meta.dataVersion);
+    if (dataVersion !== meta.dataVersion) {
+        await writeMeta({ ...meta, dataVersion });
+    }
+    activeVault = vault;
+    return vault;
+};
+
+/** Re-locks the vault with a new password, e.g. after a password reset. Records are kept. */
+export const rekeyVault = async (user: User, previousPassword: string, newPassword: string): Promise<void> => {
+    const meta = await readMeta(user.id);
+    if (!meta) return;
+    const dataKey = await unlockDataKey(meta, previousPassword, true);
+    await writeMeta({ ...meta, ...(await wrapWithPassword(dataKey, newPassword)) });
+};
+
+/** Permanently deletes the user's on-device records so a fresh vault can be created. */
+export const resetVault = async (user: User): Promise<void> => {
+    if (activeVault?.userId === user.id) activeVault = null;
+    await deleteVault(user.id);
+};
+
+export const lockVault = () => {
+    activeVault = null;
+};
+
+/** Returns the unlocked vault; pages only render while one is open. */
+export const getVault = (): Vault => {
+    if (!activeVault) throw new VaultLockedError();
+    return activeVault;
+};
@@ -0,0 +1,74 @@
+import { ApiError, apiFetch } from '../api';
+import type { User } from '../auth';
+import type { Reminder } from './records';
+import type { Vault } from './vault';
+
+// --- Data Migrations ---
+// Record contents are encrypted, so they can only be migrated after unlock. Each vault
+// stores the last migration it completed; new ones run in order on the next unlock.
+
+export interface VaultMigration {
+    version: number;
+    description: string;
+    migrate: (vault: Vault, user: User) => Promise<void>;
+}
+
+interface LegacyReminder {
+    id: number;
+    name: string;
+    time: string;
+}
+
+// Legacy ids are reused so a migration that is interrupted and re-run overwrites
+// the same records instead of duplicating them.
+const toReminder = ({ id, name, time }: LegacyReminder): Reminder => ({ id: `legacy-${id}`, name, time });
+
+export const migrations: VaultMigration[] = [
+    {
+        version: 1,
+        description: 'Import reminders from localStorage and the server',
+        migrate: async (vault, user) => {
+            // Oldest builds kept reminders in plain localStorage under `reminders_<username>`.
+            const legacyKey = `reminders_${user.username}`;
+            const stored = localStorage.getItem(legacyKey);
+            if (stored) {
+                try {
+                    await vault.put('reminders', ...(JSON.parse(stored) as LegacyReminder[]).map(toReminder));
+                } catch (e) {
+                    console.error("Discarding unreadable legacy reminders", e);
+                }
+                localStorage.removeItem(legacyKey);
+            }
+
+            // The previous build kept them on the API server; move them onto the device.
+            try {
+                const serverReminders: LegacyReminder[] = await (await apiFetch('/health/reminders')).json();
+                await vault.put('reminders', ...serverReminders.map(toReminder));
+                await apiFetch('/health/reminders', { method: 'DELETE' });
+            } catch (e) {
+                if (!(e instanceof ApiError && e.status === 404)) throw e;
+            }
+        },
+    },
+];
+
+export const LATEST_DATA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Runs every migration newer than `fromVersion` and returns the version reached. A failed
+ * migration stops the run so it is retried on the next unlock; the vault stays usable.
+ */
+export const runMigrations = async (vault: Vault, user: User, fromVersion: number): Promise<number> => {
+    let version = fromVersion;
+    for (const migration of migrations) {
+        if (migration.version <= version) continue;
+        try {
+            await migration.migrate(vault, user);
+            version = migration.version;
+        } catch (e) {
+            console.error(`Vault migration ${migration.version} (${migration.description}) failed`, e);
+            break;
+        }
+    }
+    return version;
+};
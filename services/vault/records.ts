@@ -0,0 +1,178 @@
+import type { AIFeature, ScanResult } from '../ai';
+import type { WeightGoal } from '../calories';
+
+// --- Vault Record Types ---
+
+export type Sex = 'female' | 'male' | 'other';
+
+export interface Profile {
+    displayName?: string;
+    age?: number;
+    sex?: Sex;
+    heightCm?: number;
+    weightKg?: number;
+    /** The weight the user is working towards, for the trend projection. */
+    goalWeightKg?: number;
+    allergies: string[];
+    conditions: string[];
+}
+
+export interface Medication {
+    id: string;
+    name: string;
+    dosage?: string;
+    addedAt: string;
+}
+
+export interface Reminder {
+    id: string;
+    name: string;
+    /** Time of day as `HH:MM`. */
+    time: string;
+    /** Amount to take, e.g. "½ tab". */
+    dose?: string;
+    /** First and last days of a course as `YYYY-MM-DD`; reminders without them run every day indefinitely. */
+    startDate?: string;
+    endDate?: string;
+    /** Days between doses, counted from `startDate`; daily when unset. */
+    everyDays?: number;
+}
+
+export interface Appointment {
+    id: string;
+    hospitalName: string;
+    date: string;
+    time: string;
+    confirmationNumber: string;
+    createdAt: string;
+}
+
+export interface ScanRecord extends ScanResult {
+    id: string;
+    createdAt: string;
+    /** When the user checked the reading against the prescription; until then it is kept only as read. */
+    confirmedAt?: string;
+}
+
+export interface AnalysisRecord {
+    id: string;
+    /** The page the result came from; growth charts are worked out on the device and have no AI feature. */
+    feature: AIFeature | 'growth';
+    /** The form values the analysis was run with. */
+    inputs: Record<string, string>;
+    result: unknown;
+    createdAt: string;
+}
+
+export type TriageSource = 'assistant' | 'chat';
+
+/** A red-flag triage rule set fired; see services/triage.ts. */
+export interface TriageEvent {
+    id: string;
+    source: TriageSource;
+    ruleIds: string[];
+    createdAt: string;
+}
+
+export type GlucoseTiming = 'fasting' | 'random';
+
+/** Readings in standard units: °C, mmHg, per minute, %, mg/dL and kg. See services/vitals.ts. */
+export interface Vitals {
+    temperature?: number;
+    systolic?: number;
+    diastolic?: number;
+    heartRate?: number;
+    spo2?: number;
+    respiratoryRate?: number;
+    glucose?: number;
+    glucoseTiming?: GlucoseTiming;
+    weight?: number;
+}
+
+export type VitalsSource = 'assistant' | 'biometric';
+
+export interface VitalReading {
+    id: string;
+    source: VitalsSource;
+    vitals: Vitals;
+    /** Age in years when measured, which the normal ranges depend on. */
+    age?: number;
+    createdAt: string;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export type FoodEntrySource = 'text' | 'voice' | 'barcode' | 'photo';
+
+/** One food eaten; nutrients are stored as logged so later database changes leave the diary as it was. */
+export interface FoodEntry {
+    id: string;
+    /** Local calendar day as `YYYY-MM-DD`. */
+    date: string;
+    meal: MealType;
+    /** The bundled food it was matched to; see services/nutrition. */
+    foodId?: string;
+    name: string;
+    grams: number;
+    calories: number;
+    proteinG: number;
+    carbsG: number;
+    fatG: number;
+    source: FoodEntrySource;
+    /** The meal photo the entry was recognized from. */
+    photoId?: string;
+    createdAt: string;
+}
+
+/** A photographed meal, kept with the diary entries recognized from it. */
+export interface MealPhoto {
+    id: string;
+    /** Downscaled JPEG data URL. */
+    image: string;
+    createdAt: string;
+}
+
+/** A daily target picked from the calorie calculator; the most recent one applies. */
+export interface CalorieTarget {
+    id: string;
+    goal: WeightGoal;
+    calories: number;
+    proteinG: number;
+    carbsG: number;
+    fatG: number;
+    /** Daily energy need the target was picked against; the difference is the planned deficit or surplus. */
+    tdee?: number;
+    createdAt: string;
+}
+
+/** Body measurements taken on one day; any of them may be missing. */
+export interface BodyMeasurement {
+    id: string;
+    /** Local calendar day as `YYYY-MM-DD`. */
+    date: string;
+    weightKg?: number;
+    waistCm?: number;
+    bodyFatPercent?: number;
+    createdAt: string;
+}
+
+/** Every list the vault stores, by collection name. */
+export interface VaultCollections {
+    medications: Medication;
+    reminders: Reminder;
+    appointments: Appointment;
+    scans: ScanRecord;
+    analyses: AnalysisRecord;
+    triageEvents: TriageEvent;
+    vitals: VitalReading;
+    foodDiary: FoodEntry;
+    mealPhotos: MealPhoto;
+    calorieTargets: CalorieTarget;
+    bodyMeasurements: BodyMeasurement;
+}
+
+export type CollectionName = keyof VaultCollections;
+
+export const emptyProfile = (): Profile => ({ allergies: [], conditions: [] });
+
+export const createId = () => crypto.randomUUID();
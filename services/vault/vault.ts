@@ -0,0 +1,50 @@
+import { decryptJson, encryptJson } from './crypto';
+import { deleteRecord, EncryptedRecord, readCollection, readRecord, writeRecords } from './db';
+import { CollectionName, emptyProfile, Profile, VaultCollections } from './records';
+
+const PROFILE_COLLECTION = 'profile';
+const PROFILE_ID = 'self';
+
+/** An unlocked vault. Every read decrypts and every write encrypts with the user's data key. */
+export class Vault {
+    constructor(readonly userId: string, private readonly dataKey: CryptoKey) {}
+
+    private async encrypt(collection: string, id: string, value: unknown): Promise<EncryptedRecord> {
+        const { iv, ciphertext } = await encryptJson(this.dataKey, value, `${this.userId}/${collection}/${id}`);
+        return { userId: this.userId, collection, id, iv, ciphertext };
+    }
+
+    private decrypt<T>(record: EncryptedRecord): Promise<T> {
+        return decryptJson<T>(this.dataKey, record.iv, record.ciphertext, `${this.userId}/${record.collection}/${record.id}`);
+    }
+
+    async list<K extends CollectionName>(collection: K): Promise<VaultCollections[K][]> {
+        const records = await readCollection(this.userId, collection);
+        return Promise.all(records.map(record => this.decrypt<VaultCollections[K]>(record)));
+    }
+
+    async get<K extends CollectionName>(collection: K, id: string): Promise<VaultCollections[K] | undefined> {
+        const record = await readRecord(this.userId, collection, id);
+        return record && this.decrypt<VaultCollections[K]>(record);
+    }
+
+    /** Inserts or replaces records by id. */
+    async put<K extends CollectionName>(collection: K, ...items: VaultCollections[K][]): Promise<void> {
+        // Encrypt first: an IndexedDB transaction auto-commits if it waits on other promises.
+        const records = await Promise.all(items.map(item => this.encrypt(collection, item.id, item)));
+        await writeRecords(records);
+    }
+
+    delete(collection: CollectionName, id: string): Promise<void> {
+        return deleteRecord(this.userId, collection, id);
+    }
+
+    async getProfile(): Promise<Profile> {
+        const record = await readRecord(this.userId, PROFILE_COLLECTION, PROFILE_ID);
+        return record ? { ...emptyProfile(), ...(await this.decrypt<Profile>(record)) } : emptyProfile();
+    }
+
+    async saveProfile(profile: Profile): Promise<void> {
+        await writeRecords([await this.encrypt(PROFILE_COLLECTION, PROFILE_ID, profile)]);
+    }
+}
@@ -0,0 +1,197 @@
+import { createId, getVault, GlucoseTiming, Vitals, VitalsSource } from './vault';
+
+// --- Vital Signs ---
+// One model for the vitals the app asks for: form values in whatever unit the user picked,
+// conversion to standard units for storage and prompts, and age-adjusted normal ranges
+// for highlighting readings that are out of range.
+
+export type { Vitals, GlucoseTiming } from './vault';
+
+export type TemperatureUnit = '°C' | '°F';
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+export type WeightUnit = 'kg' | 'lb';
+
+export const TEMPERATURE_UNITS: TemperatureUnit[] = ['°C', '°F'];
+export const GLUCOSE_UNITS: GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+export const WEIGHT_UNITS: WeightUnit[] = ['kg', 'lb'];
+
+/** Vitals as typed into a form: raw strings, in the units the user chose. */
+export type VitalsInput = {
+    temperature: string;
+    temperatureUnit: TemperatureUnit;
+    systolic: string;
+    diastolic: string;
+    heartRate: string;
+    spo2: string;
+    respiratoryRate: string;
+    glucose: string;
+    glucoseUnit: GlucoseUnit;
+    glucoseTiming: GlucoseTiming;
+    weight: string;
+    weightUnit: WeightUnit;
+};
+
+export const emptyVitalsInput = (): VitalsInput => ({
+    temperature: '',
+    temperatureUnit: '°C',
+    systolic: '',
+    diastolic: '',
+    heartRate: '',
+    spo2: '',
+    respiratoryRate: '',
+    glucose: '',
+    glucoseUnit: 'mg/dL',
+    glucoseTiming: 'random',
+    weight: '',
+    weightUnit: 'kg',
+});
+
+export type VitalMeasure = 'temperature' | 'systolic' | 'diastolic' | 'heartRate' | 'spo2' | 'respiratoryRate' | 'glucose' | 'weight';
+
+export interface NormalRange {
+    min: number;
+    max: number;
+}
+
+export interface VitalFlag {
+    measure: VitalMeasure;
+    status: 'low' | 'high';
+    /** In standard units, like the range. */
+    value: number;
+    range: NormalRange;
+}
+
+// --- Units ---
+
+const MMOL_TO_MG_DL = 18.016;
+const LB_TO_KG = 0.45359237;
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const parse = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export const toCelsius = (value: number, unit: TemperatureUnit) => unit === '°F' ? (value - 32) * 5 / 9 : value;
+export const fromCelsius = (value: number, unit: TemperatureUnit) => unit === '°F' ? value * 9 / 5 + 32 : value;
+export const toMgDl = (value: number, unit: GlucoseUnit) => unit === 'mmol/L' ? value * MMOL_TO_MG_DL : value;
+export const fromMgDl = (value: number, unit: GlucoseUnit) => unit === 'mmol/L' ? value / MMOL_TO_MG_DL : value;
+export const toKg = (value: number, unit: WeightUnit) => unit === 'lb' ? value * LB_TO_KG : value;
+
+/** Converts form values to standard units (°C, mmHg, per minute, %, mg/dL, kg); blank fields are left out. */
+export const toVitals = (input: VitalsInput): Vitals => {
+    const temperature = parse(input.temperature);
+    const glucose = parse(input.glucose);
+    const weight = parse(input.weight);
+    const vitals: Vitals = {
+        temperature: temperature === undefined ? undefined : round(toCelsius(temperature, input.temperatureUnit), 1),
+        systolic: parse(input.systolic),
+        diastolic: parse(input.diastolic),
+        heartRate: parse(input.heartRate),
+        spo2: parse(input.spo2),
+        respiratoryRate: parse(input.respiratoryRate),
+        glucose: glucose === undefined ? undefined : round(toMgDl(glucose, input.glucoseUnit), 0),
+        glucoseTiming: glucose === undefined ? undefined : input.glucoseTiming,
+        weight: weight === undefined ? undefined : round(toKg(weight, input.weightUnit), 1),
+    };
+    Object.keys(vitals).forEach(key => vitals[key] === undefined && delete vitals[key]);
+    return vitals;
+};
+
+export const hasVitals = (vitals: Vitals) => Object.keys(vitals).length > 0;
+
+// --- Normal ranges ---
+
+interface AgeBand {
+    /** Applies below this age, in years. */
+    below: number;
+    heartRate: NormalRange;
+    respiratoryRate: NormalRange;
+    systolic: NormalRange;
+    diastolic: NormalRange;
+}
+
+// Resting values; children breathe faster, have faster hearts and lower blood pressure.
+const AGE_BANDS: AgeBand[] = [
+    { below: 1, heartRate: { min: 100, max: 160 }, respiratoryRate: { min: 30, max: 60 }, systolic: { min: 70, max: 100 }, diastolic: { min: 45, max: 65 } },
+    { below: 3, heartRate: { min: 90, max: 150 }, respiratoryRate: { min: 24, max: 40 }, systolic: { min: 80, max: 110 }, diastolic: { min: 50, max: 75 } },
+    { below: 6, heartRate: { min: 80, max: 140 }, respiratoryRate: { min: 22, max: 34 }, systolic: { min: 80, max: 110 }, diastolic: { min: 50, max: 75 } },
+    { below: 13, heartRate: { min: 70, max: 120 }, respiratoryRate: { min: 18, max: 30 }, systolic: { min: 90, max: 120 }, diastolic: { min: 55, max: 80 } },
+    { below: 18, heartRate: { min: 60, max: 100 }, respiratoryRate: { min: 12, max: 20 }, systolic: { min: 90, max: 130 }, diastolic: { min: 60, max: 85 } },
+    { below: Infinity, heartRate: { min: 60, max: 100 }, respiratoryRate: { min: 12, max: 20 }, systolic: { min: 90, max: 139 }, diastolic: { min: 60, max: 89 } },
+];
+
+const TEMPERATURE_RANGE: NormalRange = { min: 36.0, max: 37.5 };
+const SPO2_RANGE: NormalRange = { min: 95, max: 100 };
+const FASTING_GLUCOSE_RANGE: NormalRange = { min: 70, max: 99 };
+const RANDOM_GLUCOSE_RANGE: NormalRange = { min: 70, max: 139 };
+
+/** The normal range of a measure in standard units, for an age in years (adult if unknown). */
+export const normalRange = (measure: VitalMeasure, age?: number, vitals: Vitals = {}): NormalRange | undefined => {
+    const band = AGE_BANDS.find(b => (age ?? Infinity) < b.below) ?? AGE_BANDS[AGE_BANDS.length - 1];
+    switch (measure) {
+        case 'temperature': return TEMPERATURE_RANGE;
+        case 'spo2': return SPO2_RANGE;
+        case 'glucose': return vitals.glucoseTiming === 'fasting' ? FASTING_GLUCOSE_RANGE : RANDOM_GLUCOSE_RANGE;
+        case 'heartRate':
+        case 'respiratoryRate':
+        case 'systolic':
+        case 'diastolic':
+            return band[measure];
+        // Whether a weight is healthy depends on height; see the calorie calculator.
+        case 'weight': return undefined;
+    }
+};
+
+/** Every reading outside its age-adjusted normal range. */
+export const evaluateVitals = (vitals: Vitals, age?: number): VitalFlag[] =>
+    (Object.keys(vitals) as (keyof Vitals)[])
+        .filter((key): key is VitalMeasure => key !== 'glucoseTiming')
+        .flatMap((measure): VitalFlag[] => {
+            const range = normalRange(measure, age, vitals);
+            const value = vitals[measure];
+            if (!range) return [];
+            if (value < range.min) return [{ measure, status: 'low', value, range }];
+            if (value > range.max) return [{ measure, status: 'high', value, range }];
+            return [];
+        });
+
+// --- Prompts & storage ---
+
+const promptLabels: Record<VitalMeasure, [string, string]> = {
+    temperature: ['Body temperature', '°C'],
+    systolic: ['Systolic blood pressure', 'mmHg'],
+    diastolic: ['Diastolic blood pressure', 'mmHg'],
+    heartRate: ['Heart rate', 'beats/min'],
+    spo2: ['Oxygen saturation', '%'],
+    respiratoryRate: ['Respiratory rate', 'breaths/min'],
+    glucose: ['Blood glucose', 'mg/dL'],
+    weight: ['Weight', 'kg'],
+};
+
+/** The readings in English and standard units for a prompt, marking any that are out of range. */
+export const describeVitals = (vitals: Vitals, age?: number) => {
+    const flags = evaluateVitals(vitals, age);
+    return (Object.keys(promptLabels) as VitalMeasure[])
+        .filter(measure => vitals[measure] !== undefined)
+        .map(measure => {
+            const [label, unit] = promptLabels[measure];
+            const timing = measure === 'glucose' ? ` (${vitals.glucoseTiming})` : '';
+            const flag = flags.find(f => f.measure === measure);
+            return `${label}${timing}: ${vitals[measure]} ${unit}${flag ? ` – ${flag.status.toUpperCase()}, normal ${flag.range.min}–${flag.range.max}` : ''}`;
+        })
+        .join('; ');
+};
+
+/** Saves a timestamped reading to the health record vault, if anything was measured. */
+export const recordVitals = (source: VitalsSource, vitals: Vitals, age?: number) => {
+    if (!hasVitals(vitals)) return;
+    getVault().put('vitals', {
+        id: createId(),
+        source,
+        vitals,
+        age,
+        createdAt: new Date().toISOString(),
+    }).catch(e => console.error("Failed to save vitals", e));
+};
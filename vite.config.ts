@@ -4,11 +4,18 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays on the API server (see /server); only non-secret settings are inlined.
+    const apiTarget = `http://localhost:${env.PORT || 8787}`;
     return {
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
+      },
+      server: {
+        proxy: { '/api': apiTarget }
+      },
+      preview: {
+        proxy: { '/api': apiTarget }
       },
       resolve: {
         alias: {